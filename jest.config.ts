@@ -97,6 +97,8 @@ const config: Config = {
   // A map from regular expressions to module names or to arrays of module names that allow to stub out resources with a single module
   moduleNameMapper: {
     "^@/(.*)$": "<rootDir>/src/$1",
+    "^@hulkastorus/sdk$": "<rootDir>/packages/sdk/src",
+    "^@hulkastorus/sdk/(.*)$": "<rootDir>/packages/sdk/src/$1",
   },
 
   // An array of regexp pattern strings, matched against all module paths before considered 'visible' to the module loader
@@ -181,7 +183,8 @@ const config: Config = {
 
   // A map from regular expressions to paths to transformers
   transform: {
-    "^.+\\.tsx?$": ["ts-jest", {}],
+    // Next.js needs "jsx": "preserve"; page tests compile JSX themselves
+    "^.+\\.tsx?$": ["ts-jest", {tsconfig: {jsx: "react-jsx"}}],
   },
 
   // An array of regexp pattern strings that are matched against all source file paths, matched files will skip transformation
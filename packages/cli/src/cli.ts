@@ -0,0 +1,600 @@
+import {readFileSync} from "node:fs";
+import {stat} from "node:fs/promises";
+import {basename, join, resolve} from "node:path";
+import {createInterface} from "node:readline/promises";
+import {parseArgs, type ParseArgsConfig} from "node:util";
+import {HulkClient} from "@hulkastorus/sdk/client";
+import type {ExpirationPolicy, FileSummary, Permissions} from "@hulkastorus/sdk/contract";
+import {HulkValidationError} from "@hulkastorus/sdk/errors";
+import {copyToClipboard} from "./clipboard";
+import {
+  clearConfig,
+  type Env,
+  getConfigDir,
+  type HulkConfig,
+  resolveConfig,
+  writeConfig,
+} from "./config";
+import {formatBytes, parseDuration} from "./format";
+import {ProgressBar} from "./progress";
+import {
+  findDirectory,
+  isRemotePath,
+  normalizeRemotePath,
+  resolveRemote,
+  type RemoteTarget,
+} from "./remote";
+import {downloadFile, uploadFile} from "./transfer";
+
+type OutputStream = NodeJS.WritableStream & {isTTY?: boolean};
+
+// Everything the CLI touches outside itself, so tests can run it in-process
+export interface CliContext {
+  stdout: OutputStream;
+  stderr: OutputStream;
+  stdin: NodeJS.ReadableStream;
+  env: Env;
+  cwd: string;
+  copy?: (text: string) => Promise<boolean>;
+  // Overrides the multipart threshold, so tests don't need 100 MiB files
+  multipartThreshold?: number;
+}
+
+// Bad arguments: print usage and exit with 2
+class UsageError extends Error {}
+
+type OptionValues = Record<string, string | boolean | undefined>;
+
+interface CommandInput {
+  positionals: string[];
+  values: OptionValues;
+  config: HulkConfig;
+  configDir: string;
+  context: CliContext;
+}
+
+interface Command {
+  usage: string;
+  description: string;
+  options?: NonNullable<ParseArgsConfig["options"]>;
+  // Commands that talk to the API need a saved or given API key
+  needsApiKey?: boolean;
+  run(input: CommandInput, client: HulkClient): Promise<void>;
+}
+
+const GLOBAL_OPTIONS = {
+  url: {type: "string"},
+  "api-key": {type: "string"},
+  help: {type: "boolean", short: "h"},
+} as const;
+
+// Expiration policies the API accepts; "never" reads better on the command line
+const EXPIRATION_POLICIES: ExpirationPolicy[] = ["1d", "7d", "30d", "90d", "1y", "infinite"];
+
+function parseExpirationPolicy(value: string): ExpirationPolicy {
+  const policy = (value === "never" ? "infinite" : value) as ExpirationPolicy;
+  if (!EXPIRATION_POLICIES.includes(policy)) {
+    throw new UsageError(
+      `Unknown expiration policy "${value}" (use 1d, 7d, 30d, 90d, 1y or never)`,
+    );
+  }
+  return policy;
+}
+
+function writeLine(stream: OutputStream, line = ""): void {
+  stream.write(`${line}\n`);
+}
+
+function progressFor(context: CliContext, label: string) {
+  return (total: number) => new ProgressBar(context.stderr, label, total);
+}
+
+function fileLink(config: HulkConfig, file: {id: string}): string {
+  return `${config.url}/d/${file.id}`;
+}
+
+async function copyLink(context: CliContext, link: string): Promise<void> {
+  if (await (context.copy ?? copyToClipboard)(link)) {
+    writeLine(context.stderr, "Link copied to clipboard");
+  }
+}
+
+async function requireRemote(client: HulkClient, value: string): Promise<RemoteTarget> {
+  const target = await resolveRemote(client, value);
+  if (!target) {
+    throw new Error(`No such file or directory: ${value}`);
+  }
+  return target;
+}
+
+/**
+ * Where a file named `filename` lands when the destination is `value`: inside it
+ * if it ends with "/" or names an existing directory, otherwise at that path
+ */
+async function resolveDestination(client: HulkClient, value: string, filename: string) {
+  const fullPath = normalizeRemotePath(value);
+  if (value.endsWith("/") || (await findDirectory(client, fullPath))) {
+    return fullPath === "/" ? `/${filename}` : `${fullPath}/${filename}`;
+  }
+  return fullPath;
+}
+
+// Pad each column to its widest cell
+function formatTable(rows: string[][]): string[] {
+  const widths = rows[0]?.map((_, column) => Math.max(...rows.map((row) => row[column].length)));
+  return rows.map((row) =>
+    row
+      .map((cell, column) => (column === row.length - 1 ? cell : cell.padEnd(widths![column])))
+      .join("  "),
+  );
+}
+
+function fileRow(file: FileSummary, name: string): string[] {
+  return [
+    file.id,
+    file.sizeBytes !== null ? formatBytes(file.sizeBytes) : "-",
+    file.effectivePermissions,
+    file.expiresAt ? file.expiresAt.slice(0, 10) : "never",
+    file.status === "validated" ? name : `${name} (${file.status})`,
+  ];
+}
+
+const commands: Record<string, Command> = {
+  login: {
+    usage: "hulk login [--api-key <key>] [--url <url>]",
+    description: "Save an API key (create one on the settings page)",
+    async run({values, config, configDir, context}) {
+      let apiKey = values["api-key"] as string | undefined;
+
+      if (!apiKey) {
+        const prompt = createInterface({input: context.stdin, output: context.stderr});
+        apiKey = (await prompt.question(`API key for ${config.url}: `)).trim();
+        prompt.close();
+      }
+
+      if (!apiKey) {
+        throw new UsageError("An API key is required");
+      }
+
+      // Cheapest authenticated call
+      await new HulkClient({baseUrl: config.url, apiKey}).files.list({limit: 1});
+      await writeConfig(configDir, {url: config.url, apiKey});
+      writeLine(context.stderr, `Logged in to ${config.url}`);
+    },
+  },
+
+  logout: {
+    usage: "hulk logout",
+    description: "Forget the saved API key",
+    async run({configDir, context}) {
+      await clearConfig(configDir);
+      writeLine(context.stderr, "Logged out");
+    },
+  },
+
+  put: {
+    usage:
+      "hulk put <local-file> [remote-path] [--public | --private] [--expire <policy>] [--no-copy]",
+    description: "Upload a file and print its link",
+    options: {
+      public: {type: "boolean"},
+      private: {type: "boolean"},
+      expire: {type: "string"},
+      "no-copy": {type: "boolean"},
+    },
+    needsApiKey: true,
+    async run({positionals, values, config, configDir, context}, client) {
+      const [local, remote] = positionals;
+      if (!local || positionals.length > 2) {
+        throw new UsageError("Expected a local file and an optional remote path");
+      }
+      if (values.public && values.private) {
+        throw new UsageError("Use only one of --public and --private");
+      }
+
+      const localPath = resolve(context.cwd, local);
+      if (!(await stat(localPath)).isFile()) {
+        throw new Error(`Not a file: ${local}`);
+      }
+
+      const fullPath = await resolveDestination(client, remote ?? "/", basename(localPath));
+      const permissions: Permissions | undefined = values.public
+        ? "public"
+        : values.private
+          ? "private"
+          : undefined;
+
+      const {file, resumed} = await uploadFile(client, localPath, {
+        fullPath,
+        permissions,
+        expirationPolicy: values.expire
+          ? parseExpirationPolicy(values.expire as string)
+          : undefined,
+        stateDir: join(configDir, "uploads"),
+        multipartThreshold: context.multipartThreshold,
+        progress: progressFor(context, basename(localPath)),
+      });
+
+      writeLine(
+        context.stderr,
+        `${resumed ? "Resumed and uploaded" : "Uploaded"} ${file.fullPath} (${formatBytes(file.sizeBytes ?? 0)})`,
+      );
+
+      const link = fileLink(config, file);
+      writeLine(context.stdout, link);
+
+      if (file.effectivePermissions === "private") {
+        writeLine(
+          context.stderr,
+          `This file is private; run \`hulk share ${file.id}\` for a link anyone can open`,
+        );
+      }
+      if (!values["no-copy"]) {
+        await copyLink(context, link);
+      }
+    },
+  },
+
+  get: {
+    usage: "hulk get <remote> [local-path]",
+    description: "Download a file, resuming a partial download",
+    needsApiKey: true,
+    async run({positionals, context}, client) {
+      const [remote, local] = positionals;
+      if (!remote || positionals.length > 2) {
+        throw new UsageError("Expected a remote file and an optional local path");
+      }
+
+      const target = await requireRemote(client, remote);
+      if (target.kind !== "file") {
+        throw new Error(`${remote} is a directory`);
+      }
+
+      let destination = resolve(context.cwd, local ?? target.file.filename);
+      const existing = await stat(destination).catch(() => null);
+      if (existing?.isDirectory()) {
+        destination = join(destination, target.file.filename);
+      }
+
+      const {resumedFrom} = await downloadFile(
+        client,
+        target.file,
+        destination,
+        progressFor(context, target.file.filename),
+      );
+
+      writeLine(
+        context.stderr,
+        resumedFrom > 0
+          ? `Resumed at ${formatBytes(resumedFrom)} and saved ${destination}`
+          : `Saved ${destination}`,
+      );
+    },
+  },
+
+  ls: {
+    usage: "hulk ls [remote]",
+    description: "List a directory (defaults to /)",
+    needsApiKey: true,
+    async run({positionals, context}, client) {
+      if (positionals.length > 1) {
+        throw new UsageError("Expected at most one remote path");
+      }
+
+      const path = positionals[0] ?? "/";
+      const target = await resolveRemote(client, path);
+
+      // The root directory only exists once something has been uploaded
+      if (!target && isRemotePath(path) && normalizeRemotePath(path) === "/") {
+        return;
+      }
+      if (!target) {
+        throw new Error(`No such file or directory: ${path}`);
+      }
+      if (target.kind === "file") {
+        formatTable([fileRow(target.file, target.file.fullPath)]).forEach((line) =>
+          writeLine(context.stdout, line),
+        );
+        return;
+      }
+
+      const listing = await client.directories.get(target.directory.id);
+      const rows = [
+        ...listing.children
+          .sort((a, b) => a.fullPath.localeCompare(b.fullPath))
+          .map((child) => [
+            child.id,
+            "-",
+            child.effectivePermissions,
+            "-",
+            `${basename(child.fullPath)}/`,
+          ]),
+        ...listing.files
+          .sort((a, b) => a.filename.localeCompare(b.filename))
+          .map((file) => fileRow(file, file.filename)),
+      ];
+
+      formatTable(rows).forEach((line) => writeLine(context.stdout, line));
+    },
+  },
+
+  rm: {
+    usage: "hulk rm [-r] <remote>...",
+    description: "Delete files, or directories with -r",
+    options: {recursive: {type: "boolean", short: "r"}},
+    needsApiKey: true,
+    async run({positionals, values, context}, client) {
+      if (positionals.length === 0) {
+        throw new UsageError("Expected at least one remote file or directory");
+      }
+
+      for (const remote of positionals) {
+        const target = await requireRemote(client, remote);
+
+        if (target.kind === "file") {
+          await client.files.delete(target.file.id);
+          writeLine(context.stderr, `Deleted ${target.file.fullPath}`);
+          continue;
+        }
+
+        const {directory} = target;
+        if (directory.fullPath === "/") {
+          throw new Error("Refusing to delete /");
+        }
+        if (!values.recursive) {
+          throw new Error(`${directory.fullPath} is a directory (use -r to delete it)`);
+        }
+
+        // Directories can only be deleted once they have no subdirectories
+        const {directories: descendants} = await client.directories.list({
+          path: directory.fullPath,
+          recursive: true,
+        });
+        const depth = (path: string) => path.split("/").length;
+        for (const descendant of descendants.sort(
+          (a, b) => depth(b.fullPath) - depth(a.fullPath),
+        )) {
+          await client.directories.delete(descendant.id);
+        }
+        await client.directories.delete(directory.id);
+        writeLine(context.stderr, `Deleted ${directory.fullPath}`);
+      }
+    },
+  },
+
+  mv: {
+    usage: "hulk mv <remote> <remote-path>",
+    description: "Move or rename a file or directory",
+    needsApiKey: true,
+    async run({positionals, context}, client) {
+      const [source, destination] = positionals;
+      if (!source || !destination || positionals.length > 2) {
+        throw new UsageError("Expected a source and a destination");
+      }
+      if (!isRemotePath(destination)) {
+        throw new UsageError("The destination must be a path starting with /");
+      }
+
+      const target = await requireRemote(client, source);
+
+      if (target.kind === "file") {
+        const fullPath = await resolveDestination(client, destination, target.file.filename);
+        const file = await client.files.update(target.file.id, {
+          fullPath,
+          filename: basename(fullPath),
+        });
+        writeLine(context.stderr, `Moved ${target.file.fullPath} to ${file.fullPath}`);
+        return;
+      }
+
+      const fullPath = await resolveDestination(
+        client,
+        destination,
+        basename(target.directory.fullPath),
+      );
+      const directory = await client.directories.update(target.directory.id, {fullPath});
+      writeLine(context.stderr, `Moved ${target.directory.fullPath} to ${directory.fullPath}`);
+    },
+  },
+
+  mkdir: {
+    usage: "hulk mkdir <remote-path>...",
+    description: "Create directories, including missing parents",
+    needsApiKey: true,
+    async run({positionals, context}, client) {
+      if (positionals.length === 0) {
+        throw new UsageError("Expected at least one directory path");
+      }
+
+      for (const path of positionals) {
+        if (!isRemotePath(path)) {
+          throw new UsageError(`Directory paths must start with /: ${path}`);
+        }
+        const directory = await client.directories.create({fullPath: normalizeRemotePath(path)});
+        writeLine(context.stderr, `Created ${directory.fullPath}`);
+      }
+    },
+  },
+
+  share: {
+    usage: "hulk share <remote> [--expires <duration>] [--max-downloads <n>] [--no-copy]",
+    description: "Create a share link for a private file or directory (e.g. --expires 7d)",
+    options: {
+      expires: {type: "string"},
+      "max-downloads": {type: "string"},
+      "no-copy": {type: "boolean"},
+    },
+    needsApiKey: true,
+    async run({positionals, values, context}, client) {
+      if (positionals.length !== 1) {
+        throw new UsageError("Expected one remote file or directory");
+      }
+
+      const expiresIn = values.expires ? parseDuration(values.expires as string) : undefined;
+      if (expiresIn === null) {
+        throw new UsageError(`Invalid duration "${values.expires}" (e.g. 30m, 12h or 7d)`);
+      }
+
+      const maxDownloads = values["max-downloads"] ? Number(values["max-downloads"]) : undefined;
+      if (maxDownloads !== undefined && !(Number.isInteger(maxDownloads) && maxDownloads > 0)) {
+        throw new UsageError("--max-downloads must be a positive whole number");
+      }
+
+      const target = await requireRemote(client, positionals[0]);
+      const shareToken = await client.shareTokens.create({
+        ...(target.kind === "file" ? {fileId: target.file.id} : {directoryId: target.directory.id}),
+        expiresIn,
+        maxDownloads,
+      });
+
+      writeLine(context.stderr, `Expires ${shareToken.expiresAt}`);
+
+      if (!shareToken.url) {
+        // Directory tokens work on the link of every file inside the directory
+        writeLine(context.stdout, shareToken.token);
+        writeLine(context.stderr, "Add ?token=<token> to the link of any file in this directory");
+        return;
+      }
+
+      writeLine(context.stdout, shareToken.url);
+      if (!values["no-copy"]) {
+        await copyLink(context, shareToken.url);
+      }
+    },
+  },
+
+  expire: {
+    usage: "hulk expire <remote> <1d|7d|30d|90d|1y|never>",
+    description: "Set when a file expires, or the default for new files in a directory",
+    needsApiKey: true,
+    async run({positionals, context}, client) {
+      const [remote, value] = positionals;
+      if (!remote || !value || positionals.length > 2) {
+        throw new UsageError("Expected a remote file or directory and an expiration policy");
+      }
+
+      const policy = parseExpirationPolicy(value);
+      const target = await requireRemote(client, remote);
+
+      if (target.kind === "file") {
+        const file = await client.files.update(target.file.id, {expirationPolicy: policy});
+        writeLine(
+          context.stderr,
+          file.expiresAt
+            ? `${file.fullPath} expires ${file.expiresAt}`
+            : `${file.fullPath} never expires`,
+        );
+        return;
+      }
+
+      const directory = await client.directories.update(target.directory.id, {
+        defaultExpirationPolicy: policy,
+      });
+      writeLine(
+        context.stderr,
+        `New files in ${directory.fullPath} will use the ${directory.defaultExpirationPolicy} expiration policy`,
+      );
+    },
+  },
+};
+
+function readVersion(): string {
+  // dist/index.js and src/cli.ts both sit one level below package.json
+  return JSON.parse(readFileSync(join(__dirname, "..", "package.json"), "utf8")).version;
+}
+
+// Validation errors list what was wrong, e.g. "Validation error: Too small"
+function formatError(error: unknown): string {
+  if (error instanceof HulkValidationError && error.issues.length > 0) {
+    return `${error.message}: ${error.issues.map((issue) => issue.message).join(", ")}`;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+function writeHelp(stream: OutputStream): void {
+  writeLine(stream, "Usage: hulk <command> [options]");
+  writeLine(stream);
+  writeLine(stream, "Commands:");
+  for (const [name, command] of Object.entries(commands)) {
+    writeLine(stream, `  ${name.padEnd(8)}${command.description}`);
+  }
+  writeLine(stream);
+  writeLine(
+    stream,
+    "Remote paths start with / (e.g. /reports/q3.pdf); anything else is a file ID.",
+  );
+  writeLine(
+    stream,
+    "Every command accepts --url and --api-key, or reads HULK_URL and HULK_API_KEY.",
+  );
+  writeLine(stream, "Run `hulk <command> --help` for a command's options.");
+}
+
+/**
+ * Run the CLI and resolve to its exit code: 0 on success, 1 on failure and 2
+ * for bad arguments
+ */
+export async function run(argv: string[], context: CliContext): Promise<number> {
+  const [name, ...rest] = argv;
+
+  if (!name || name === "help" || name === "--help" || name === "-h") {
+    writeHelp(context.stdout);
+    return 0;
+  }
+
+  if (name === "--version" || name === "-v") {
+    writeLine(context.stdout, readVersion());
+    return 0;
+  }
+
+  const command = commands[name];
+  if (!command) {
+    writeLine(context.stderr, `hulk: unknown command "${name}"`);
+    writeHelp(context.stderr);
+    return 2;
+  }
+
+  try {
+    let parsed;
+    try {
+      parsed = parseArgs({
+        args: rest,
+        options: {...GLOBAL_OPTIONS, ...command.options},
+        allowPositionals: true,
+      });
+    } catch (error) {
+      throw new UsageError(error instanceof Error ? error.message : String(error));
+    }
+
+    const values = parsed.values as OptionValues;
+    if (values.help) {
+      writeLine(context.stdout, `Usage: ${command.usage}`);
+      writeLine(context.stdout);
+      writeLine(context.stdout, command.description);
+      return 0;
+    }
+
+    const configDir = getConfigDir(context.env);
+    const config = await resolveConfig(configDir, context.env, {
+      url: values.url as string | undefined,
+      apiKey: values["api-key"] as string | undefined,
+    });
+
+    if (command.needsApiKey && !config.apiKey) {
+      throw new Error("Not logged in; run `hulk login` or set HULK_API_KEY");
+    }
+
+    await command.run(
+      {positionals: parsed.positionals, values, config, configDir, context},
+      new HulkClient({baseUrl: config.url, apiKey: config.apiKey}),
+    );
+    return 0;
+  } catch (error) {
+    writeLine(context.stderr, `hulk: ${formatError(error)}`);
+    if (error instanceof UsageError) {
+      writeLine(context.stderr, `Usage: ${command.usage}`);
+      return 2;
+    }
+    return 1;
+  }
+}
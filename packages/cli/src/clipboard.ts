@@ -0,0 +1,34 @@
+import {spawn} from "node:child_process";
+
+// Clipboard tools to try on each platform, in order
+const CLIPBOARD_COMMANDS: Record<string, [string, string[]][]> = {
+  darwin: [["pbcopy", []]],
+  win32: [["clip", []]],
+  linux: [
+    ["wl-copy", []],
+    ["xclip", ["-selection", "clipboard"]],
+    ["xsel", ["--clipboard", "--input"]],
+  ],
+};
+
+function pipeTo(command: string, args: string[], text: string): Promise<boolean> {
+  return new Promise((resolve) => {
+    const child = spawn(command, args, {stdio: ["pipe", "ignore", "ignore"]});
+    child.on("error", () => resolve(false));
+    child.on("close", (code) => resolve(code === 0));
+    child.stdin.end(text);
+  });
+}
+
+/**
+ * Copy text to the system clipboard. Returns false when no clipboard tool is
+ * available (e.g. on a headless server), which callers treat as a soft failure.
+ */
+export async function copyToClipboard(text: string): Promise<boolean> {
+  for (const [command, args] of CLIPBOARD_COMMANDS[process.platform] ?? []) {
+    if (await pipeTo(command, args, text)) {
+      return true;
+    }
+  }
+  return false;
+}
@@ -0,0 +1,63 @@
+import {mkdir, readFile, rm, writeFile} from "node:fs/promises";
+import {homedir} from "node:os";
+import {join} from "node:path";
+
+// Where `hulk login` points when no URL is given: the local dev server
+export const DEFAULT_URL = "http://localhost:3010";
+
+// Environment variables the CLI reads; a plain record so tests can pass their own
+export type Env = Record<string, string | undefined>;
+
+export interface HulkConfig {
+  url: string;
+  apiKey?: string;
+}
+
+/**
+ * Directory holding the config file and resumable upload state. HULK_CONFIG_DIR
+ * overrides the XDG location.
+ */
+export function getConfigDir(env: Env): string {
+  if (env.HULK_CONFIG_DIR) {
+    return env.HULK_CONFIG_DIR;
+  }
+
+  return join(env.XDG_CONFIG_HOME || join(homedir(), ".config"), "hulk");
+}
+
+export async function readConfig(configDir: string): Promise<HulkConfig | null> {
+  try {
+    return JSON.parse(await readFile(join(configDir, "config.json"), "utf8")) as HulkConfig;
+  } catch {
+    return null;
+  }
+}
+
+export async function writeConfig(configDir: string, config: HulkConfig): Promise<void> {
+  await mkdir(configDir, {recursive: true, mode: 0o700});
+  // The API key is a credential, so keep the file private to the user
+  await writeFile(join(configDir, "config.json"), JSON.stringify(config, null, 2) + "\n", {
+    mode: 0o600,
+  });
+}
+
+export async function clearConfig(configDir: string): Promise<void> {
+  await rm(join(configDir, "config.json"), {force: true});
+}
+
+/**
+ * Resolve the server and API key: flags win over environment variables, which
+ * win over the saved config
+ */
+export async function resolveConfig(
+  configDir: string,
+  env: Env,
+  flags: {url?: string; apiKey?: string},
+): Promise<HulkConfig> {
+  const saved = await readConfig(configDir);
+
+  return {
+    url: (flags.url || env.HULK_URL || saved?.url || DEFAULT_URL).replace(/\/+$/, ""),
+    apiKey: flags.apiKey || env.HULK_API_KEY || saved?.apiKey,
+  };
+}
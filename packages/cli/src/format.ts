@@ -0,0 +1,24 @@
+const UNITS = ["B", "KB", "MB", "GB", "TB"];
+
+export function formatBytes(bytes: number): string {
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < UNITS.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return unit === 0 ? `${value} B` : `${value.toFixed(1)} ${UNITS[unit]}`;
+}
+
+const DURATION_SECONDS: Record<string, number> = {s: 1, m: 60, h: 60 * 60, d: 24 * 60 * 60};
+
+/**
+ * Parse durations like "30m", "12h" or "7d" into seconds, or null if invalid
+ */
+export function parseDuration(value: string): number | null {
+  const match = /^(\d+)([smhd])$/.exec(value.trim());
+  if (!match) {
+    return null;
+  }
+  return Number(match[1]) * DURATION_SECONDS[match[2]];
+}
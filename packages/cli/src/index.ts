@@ -0,0 +1,18 @@
+#!/usr/bin/env node
+import {run} from "./cli";
+
+// Stop quietly when piped into something that exits early, like `hulk ls | head`
+process.stdout.on("error", (error: NodeJS.ErrnoException) => {
+  if (error.code === "EPIPE") process.exit(0);
+  throw error;
+});
+
+run(process.argv.slice(2), {
+  stdout: process.stdout,
+  stderr: process.stderr,
+  stdin: process.stdin,
+  env: process.env,
+  cwd: process.cwd(),
+}).then((code) => {
+  process.exitCode = code;
+});
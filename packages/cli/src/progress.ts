@@ -0,0 +1,63 @@
+import {formatBytes} from "./format";
+
+const BAR_WIDTH = 30;
+
+// Redraw at most this often so large transfers don't flood the terminal
+const REDRAW_INTERVAL_MS = 100;
+
+/**
+ * Single-line progress bar written to a terminal. Does nothing unless the
+ * stream is a TTY, so piped and scripted output stays clean.
+ */
+export class ProgressBar {
+  private transferred = 0;
+  private lastDraw = 0;
+  private readonly startedAt = Date.now();
+  private readonly enabled: boolean;
+
+  constructor(
+    private readonly stream: NodeJS.WritableStream & {isTTY?: boolean},
+    private readonly label: string,
+    private readonly total: number,
+  ) {
+    this.enabled = !!stream.isTTY;
+  }
+
+  // Bytes already done before this run, e.g. parts of a resumed upload
+  start(transferred = 0): void {
+    this.transferred = transferred;
+    this.draw(true);
+  }
+
+  advance(bytes: number): void {
+    this.transferred += bytes;
+    this.draw(false);
+  }
+
+  finish(): void {
+    this.transferred = this.total;
+    this.draw(true);
+    if (this.enabled) {
+      this.stream.write("\n");
+    }
+  }
+
+  private draw(force: boolean): void {
+    const now = Date.now();
+    if (!this.enabled || (!force && now - this.lastDraw < REDRAW_INTERVAL_MS)) {
+      return;
+    }
+    this.lastDraw = now;
+
+    const fraction = this.total > 0 ? Math.min(this.transferred / this.total, 1) : 1;
+    const filled = Math.round(fraction * BAR_WIDTH);
+    const seconds = Math.max((now - this.startedAt) / 1000, 0.001);
+    const rate = formatBytes(Math.round(this.transferred / seconds));
+
+    this.stream.write(
+      `\r${this.label} [${"#".repeat(filled)}${".".repeat(BAR_WIDTH - filled)}] ` +
+        `${Math.floor(fraction * 100)}% ${formatBytes(this.transferred)}/${formatBytes(this.total)} ` +
+        `${rate}/s`,
+    );
+  }
+}
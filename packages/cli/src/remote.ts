@@ -0,0 +1,90 @@
+import type {HulkClient} from "@hulkastorus/sdk/client";
+import type {Directory, FileSummary} from "@hulkastorus/sdk/contract";
+import {HulkNotFoundError} from "@hulkastorus/sdk/errors";
+
+// What a remote argument refers to
+export type RemoteTarget =
+  | {kind: "file"; file: FileSummary}
+  | {kind: "directory"; directory: Directory};
+
+// Paths start with "/"; anything else is a file ID
+export function isRemotePath(value: string): boolean {
+  return value.startsWith("/");
+}
+
+/**
+ * Normalize a remote path: collapse repeated slashes and drop a trailing one
+ */
+export function normalizeRemotePath(value: string): string {
+  const parts = value.split("/").filter(Boolean);
+  return `/${parts.join("/")}`;
+}
+
+export function parentPath(fullPath: string): string {
+  const parts = fullPath.split("/").filter(Boolean);
+  return `/${parts.slice(0, -1).join("/")}`;
+}
+
+/**
+ * Find a directory by its full path, or null if there isn't one
+ */
+export async function findDirectory(
+  client: HulkClient,
+  fullPath: string,
+): Promise<Directory | null> {
+  const {directories} = await client.directories.list({path: fullPath});
+  return directories.find((directory) => directory.fullPath === fullPath) ?? null;
+}
+
+// Files still on their way in are a worse match than finished ones
+const STATUS_RANK: Record<string, number> = {validated: 0, uploaded: 1, reserved: 2};
+
+/**
+ * Find the file at a path. Several files can share one (e.g. a failed upload
+ * and its retry), so prefer finished files, then the newest.
+ */
+async function findFileByPath(client: HulkClient, fullPath: string): Promise<FileSummary | null> {
+  const parent = await findDirectory(client, parentPath(fullPath));
+  if (!parent) {
+    return null;
+  }
+
+  const {files} = await client.directories.get(parent.id);
+  const matches = files
+    .filter((file) => file.fullPath === fullPath && file.status !== "failed")
+    .sort(
+      (a, b) =>
+        (STATUS_RANK[a.status] ?? 3) - (STATUS_RANK[b.status] ?? 3) ||
+        b.createdAt.localeCompare(a.createdAt),
+    );
+
+  return matches[0] ?? null;
+}
+
+/**
+ * Resolve a remote argument to a file or directory, or null if nothing is there
+ */
+export async function resolveRemote(
+  client: HulkClient,
+  value: string,
+): Promise<RemoteTarget | null> {
+  if (!isRemotePath(value)) {
+    try {
+      return {kind: "file", file: await client.files.get(value)};
+    } catch (error) {
+      if (error instanceof HulkNotFoundError) {
+        return null;
+      }
+      throw error;
+    }
+  }
+
+  const fullPath = normalizeRemotePath(value);
+  const directory = await findDirectory(client, fullPath);
+  if (directory) {
+    return {kind: "directory", directory};
+  }
+
+  const file = await findFileByPath(client, fullPath);
+  return file ? {kind: "file", file} : null;
+}
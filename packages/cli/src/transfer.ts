@@ -0,0 +1,347 @@
+import {createHash} from "node:crypto";
+import {createReadStream, createWriteStream} from "node:fs";
+import {mkdir, open, readFile, rename, rm, stat, writeFile} from "node:fs/promises";
+import http from "node:http";
+import https from "node:https";
+import {join, resolve} from "node:path";
+import {Readable, Transform} from "node:stream";
+import {pipeline} from "node:stream/promises";
+import type {ReadableStream as WebReadableStream} from "node:stream/web";
+import type {HulkClient} from "@hulkastorus/sdk/client";
+import type {
+  CompleteMultipartInput,
+  ExpirationPolicy,
+  FileSummary,
+  Permissions,
+} from "@hulkastorus/sdk/contract";
+import {HulkNotFoundError} from "@hulkastorus/sdk/errors";
+
+// Files at least this big go up in parallel parts, like the web uploader
+export const MULTIPART_THRESHOLD = 100 * 1024 * 1024;
+
+// How many parts are uploaded at once
+const PART_CONCURRENCY = 4;
+
+// How many part URLs are signed per request (the API allows up to 100)
+const SIGN_BATCH_SIZE = 20;
+
+// Each part is retried this many times before the upload fails
+const PART_RETRIES = 3;
+
+// Progress saved after every finished part so `hulk put` can pick up where it stopped
+interface SavedUpload {
+  fileId: string;
+  fullPath: string;
+  parts: CompleteMultipartInput["parts"];
+  updatedAt: string;
+}
+
+// Anything that can show transfer progress; see ProgressBar
+export interface ProgressReporter {
+  start(transferred?: number): void;
+  advance(bytes: number): void;
+  finish(): void;
+}
+
+export interface UploadOptions {
+  fullPath: string;
+  permissions?: Permissions;
+  expirationPolicy?: ExpirationPolicy;
+  // Directory for resumable upload state
+  stateDir: string;
+  multipartThreshold?: number;
+  progress: (total: number) => ProgressReporter;
+}
+
+const MIME_TYPES: Record<string, string> = {
+  csv: "text/csv",
+  gz: "application/gzip",
+  html: "text/html",
+  jpeg: "image/jpeg",
+  jpg: "image/jpeg",
+  json: "application/json",
+  md: "text/markdown",
+  mp3: "audio/mpeg",
+  mp4: "video/mp4",
+  parquet: "application/vnd.apache.parquet",
+  pdf: "application/pdf",
+  png: "image/png",
+  tar: "application/x-tar",
+  txt: "text/plain",
+  zip: "application/zip",
+};
+
+export function guessMimeType(filename: string): string {
+  const extension = filename.split(".").pop()?.toLowerCase() ?? "";
+  return MIME_TYPES[extension] ?? "application/octet-stream";
+}
+
+/**
+ * Identify a local file across runs: same path, size and modification time
+ */
+function getUploadFingerprint(localPath: string, size: number, mtimeMs: number): string {
+  return createHash("sha256")
+    .update(`${resolve(localPath)}:${size}:${mtimeMs}`)
+    .digest("hex");
+}
+
+async function loadSavedUpload(statePath: string): Promise<SavedUpload | null> {
+  try {
+    return JSON.parse(await readFile(statePath, "utf8")) as SavedUpload;
+  } catch {
+    return null;
+  }
+}
+
+async function saveUpload(statePath: string, upload: SavedUpload): Promise<void> {
+  await writeFile(statePath, JSON.stringify(upload));
+}
+
+// PUT a whole file to a presigned URL. Storage needs a Content-Length, so this
+// streams over http(s) directly rather than through fetch's chunked bodies.
+function putFile(
+  url: string,
+  localPath: string,
+  size: number,
+  contentType: string,
+  onBytes: (bytes: number) => void,
+): Promise<void> {
+  return new Promise((resolvePut, reject) => {
+    const target = new URL(url);
+    const request = (target.protocol === "https:" ? https : http).request(
+      target,
+      {method: "PUT", headers: {"Content-Length": size, "Content-Type": contentType}},
+      (response) => {
+        response.resume();
+        response.on("end", () => {
+          const status = response.statusCode ?? 0;
+          if (status >= 200 && status < 300) {
+            resolvePut();
+          } else {
+            reject(new Error(`Upload failed with status ${status}`));
+          }
+        });
+      },
+    );
+    request.on("error", reject);
+
+    const stream = createReadStream(localPath);
+    stream.on("data", (chunk) => onBytes(chunk.length));
+    stream.on("error", (error) => request.destroy(error));
+    stream.pipe(request);
+  });
+}
+
+async function uploadPart(uploadUrl: string, body: Uint8Array<ArrayBuffer>): Promise<string> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < PART_RETRIES; attempt++) {
+    try {
+      const response = await fetch(uploadUrl, {method: "PUT", body});
+      const etag = response.headers.get("ETag");
+
+      if (!response.ok) {
+        throw new Error(`Part upload failed with status ${response.status}`);
+      }
+
+      if (!etag) {
+        throw new Error("Storage did not return an ETag for the uploaded part");
+      }
+
+      return etag;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error("Failed to upload part");
+}
+
+async function uploadParts(
+  client: HulkClient,
+  fileId: string,
+  localPath: string,
+  size: number,
+  statePath: string,
+  saved: SavedUpload,
+  progress: (total: number) => ProgressReporter,
+): Promise<void> {
+  const {partSize, partCount, resumed} = await client.files.multipart.start(fileId);
+
+  // An upload the server already knows about may have parts in storage
+  const completedParts: SavedUpload["parts"] = resumed
+    ? (await client.files.multipart.listParts(fileId)).parts.map(({partNumber, etag}) => ({
+        partNumber,
+        etag,
+      }))
+    : [];
+  const completedNumbers = new Set(completedParts.map((part) => part.partNumber));
+  const partBytes = (partNumber: number) => Math.min(partSize, size - (partNumber - 1) * partSize);
+
+  const saveProgress = () =>
+    saveUpload(statePath, {...saved, parts: completedParts, updatedAt: new Date().toISOString()});
+  await saveProgress();
+
+  const reporter = progress(size);
+  reporter.start(completedParts.reduce((sum, part) => sum + partBytes(part.partNumber), 0));
+
+  const remaining: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!completedNumbers.has(partNumber)) {
+      remaining.push(partNumber);
+    }
+  }
+
+  const handle = await open(localPath, "r");
+  try {
+    for (let batchStart = 0; batchStart < remaining.length; batchStart += SIGN_BATCH_SIZE) {
+      const partNumbers = remaining.slice(batchStart, batchStart + SIGN_BATCH_SIZE);
+      const {parts} = await client.files.multipart.signParts(fileId, partNumbers);
+      const uploadUrls = new Map(parts.map((part) => [part.partNumber, part.uploadUrl]));
+      const queue = [...partNumbers];
+
+      const worker = async () => {
+        while (queue.length > 0) {
+          const partNumber = queue.shift()!;
+          const body = new Uint8Array(partBytes(partNumber));
+          await handle.read(body, 0, body.length, (partNumber - 1) * partSize);
+
+          const etag = await uploadPart(uploadUrls.get(partNumber)!, body);
+          completedParts.push({partNumber, etag});
+          await saveProgress();
+          reporter.advance(body.length);
+        }
+      };
+
+      await Promise.all(Array.from({length: PART_CONCURRENCY}, worker));
+    }
+  } finally {
+    await handle.close();
+  }
+
+  await client.files.multipart.complete(fileId, {
+    parts: [...completedParts].sort((a, b) => a.partNumber - b.partNumber),
+  });
+  reporter.finish();
+}
+
+/**
+ * Upload a local file and mark it uploaded. Large files go up in parts, and a
+ * run that was interrupted continues from the parts already in storage.
+ */
+export async function uploadFile(
+  client: HulkClient,
+  localPath: string,
+  options: UploadOptions,
+): Promise<{file: FileSummary; resumed: boolean}> {
+  const {size, mtimeMs} = await stat(localPath);
+  const filename = options.fullPath.split("/").pop() || localPath;
+  const mimeType = guessMimeType(filename);
+  const multipart = size >= (options.multipartThreshold ?? MULTIPART_THRESHOLD);
+
+  await mkdir(options.stateDir, {recursive: true});
+  const statePath = join(
+    options.stateDir,
+    `${getUploadFingerprint(localPath, size, mtimeMs)}.json`,
+  );
+  const saved = multipart ? await loadSavedUpload(statePath) : null;
+
+  let fileId: string | null = null;
+  let resumed = false;
+
+  // Only resume into the same destination; a different path is a new upload
+  if (saved && saved.fullPath === options.fullPath) {
+    try {
+      await uploadParts(client, saved.fileId, localPath, size, statePath, saved, options.progress);
+      fileId = saved.fileId;
+      resumed = true;
+    } catch (error) {
+      // The reserved file is gone (deleted, expired or finished), so start over
+      if (!(error instanceof HulkNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
+  if (!fileId) {
+    const reserved = await client.files.create({
+      filename,
+      fullPath: options.fullPath,
+      sizeBytes: size,
+      mimeType,
+      permissions: options.permissions,
+      expirationPolicy: options.expirationPolicy,
+    });
+    fileId = reserved.id;
+
+    if (multipart) {
+      const upload = {fileId, fullPath: options.fullPath, parts: [], updatedAt: ""};
+      await uploadParts(client, fileId, localPath, size, statePath, upload, options.progress);
+    } else {
+      const reporter = options.progress(size);
+      reporter.start();
+      await putFile(reserved.uploadUrl, localPath, size, mimeType, (bytes) =>
+        reporter.advance(bytes),
+      );
+      reporter.finish();
+    }
+  }
+
+  const file = await client.files.markUploaded(fileId);
+  await rm(statePath, {force: true});
+
+  return {file, resumed};
+}
+
+/**
+ * Download a file to a local path. Data goes to `<path>.part` first, and a
+ * leftover partial download is continued with a Range request.
+ */
+export async function downloadFile(
+  client: HulkClient,
+  file: FileSummary,
+  destination: string,
+  progress: (total: number) => ProgressReporter,
+): Promise<{resumedFrom: number}> {
+  const partialPath = `${destination}.part`;
+  const total = file.sizeBytes ?? 0;
+  const existing = await stat(partialPath)
+    .then((info) => info.size)
+    .catch(() => 0);
+
+  const url = await client.files.storageUrl(file.id);
+  const canResume = existing > 0 && existing < total;
+  const response = await fetch(url, {
+    headers: canResume ? {Range: `bytes=${existing}-`} : {},
+  });
+
+  if (!response.ok || !response.body) {
+    throw new Error(`Download failed with status ${response.status}`);
+  }
+
+  // Storage may ignore the range and send everything; then start from scratch
+  const resumedFrom = response.status === 206 ? existing : 0;
+  const reporter = progress(total);
+  reporter.start(resumedFrom);
+
+  await pipeline(
+    Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+    new Transform({
+      transform(chunk: Buffer, _encoding, callback) {
+        reporter.advance(chunk.length);
+        callback(null, chunk);
+      },
+    }),
+    createWriteStream(partialPath, {flags: resumedFrom > 0 ? "a" : "w"}),
+  );
+
+  const {size} = await stat(partialPath);
+  if (file.sizeBytes !== null && size !== file.sizeBytes) {
+    throw new Error(`Download incomplete: got ${size} of ${file.sizeBytes} bytes`);
+  }
+
+  await rename(partialPath, destination);
+  reporter.finish();
+
+  return {resumedFrom};
+}
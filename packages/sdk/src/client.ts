@@ -0,0 +1,527 @@
+// Typed client for every /api/v1 route. Only types come from the contract, so
+// bundling the client doesn't pull in zod.
+
+import type {
+  ApiKey,
+  apiKeyFilterFields,
+  ArchiveFormat,
+  CompletedMultipartUpload,
+  CompleteMultipartInput,
+  CreateApiKeyInput,
+  CreateDirectoryInput,
+  CreatedApiKey,
+  CreatedShareToken,
+  CreateFileInput,
+  CreateShareTokenInput,
+  CreateUserInput,
+  DeletedDirectory,
+  DeleteUserInput,
+  Directory,
+  DirectoryDetails,
+  DirectoryListPage,
+  DirectoryListResponse,
+  ErrorResponse,
+  FileDetails,
+  FileListItem,
+  FileListPage,
+  FileListResponse,
+  FileSearchResponse,
+  FileSnippetsResponse,
+  ImportFileInput,
+  ImportJob,
+  InviteCode,
+  ListDirectoriesPageQuery,
+  ListDirectoriesQuery,
+  ListFilesPageQuery,
+  ListFilesQuery,
+  ListFilters,
+  MessageResponse,
+  MultipartUpload,
+  ReservedFile,
+  SearchFilesQuery,
+  ShareToken,
+  SignedPartsResponse,
+  UpdateDirectoryInput,
+  UpdatedDirectory,
+  UpdatedFile,
+  UpdateFileInput,
+  UpdatePasswordInput,
+  UpdateUserInput,
+  UploadedPartsResponse,
+  Usage,
+  User,
+  VerifyEmailInput,
+} from "./contract";
+import {createApiError, HulkApiError, HulkStorageError} from "./errors";
+
+export interface HulkClientOptions {
+  // Server origin, e.g. https://hulkastorus.example.com. Leave empty in the
+  // browser to call the page's own origin.
+  baseUrl?: string;
+  // Sent as a Bearer token. Browser calls can rely on the session cookie instead.
+  apiKey?: string;
+  fetch?: typeof fetch;
+}
+
+type QueryValue = string | number | boolean | null | undefined;
+
+interface RequestOptions {
+  query?: Record<string, QueryValue>;
+  body?: unknown;
+  redirect?: RequestRedirect;
+}
+
+// Bytes the upload helpers accept: a File or Blob in the browser, or e.g.
+// `await fs.openAsBlob(path)` in Node
+export type UploadBody = Blob;
+
+export interface UploadInput extends Omit<CreateFileInput, "sizeBytes"> {
+  body: UploadBody;
+}
+
+export interface UploadOptions {
+  // Called once the file is reserved, before the bytes are sent
+  onReserved?: (file: ReservedFile) => void;
+}
+
+export interface StartedMultipartUpload extends MultipartUpload {
+  // true when an upload already in progress for the file was returned
+  resumed: boolean;
+}
+
+function encodeId(id: string): string {
+  return encodeURIComponent(id);
+}
+
+// filter~<field> query parameters for list endpoints
+function filterParams(filter: Record<string, string | undefined> = {}): Record<string, QueryValue> {
+  return Object.fromEntries(
+    Object.entries(filter).map(([field, value]) => [`filter~${field}`, value]),
+  );
+}
+
+async function readErrorBody(response: Response): Promise<Partial<ErrorResponse> | null> {
+  try {
+    return (await response.json()) as Partial<ErrorResponse>;
+  } catch {
+    return null;
+  }
+}
+
+export class HulkClient {
+  readonly files: FilesResource;
+  readonly directories: DirectoriesResource;
+  readonly apiKeys: ApiKeysResource;
+  readonly shareTokens: ShareTokensResource;
+  readonly users: UsersResource;
+  readonly inviteCodes: InviteCodesResource;
+
+  private readonly baseUrl: string;
+  private readonly apiKey?: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(options: HulkClientOptions = {}) {
+    this.baseUrl = (options.baseUrl ?? "").replace(/\/+$/, "");
+    this.apiKey = options.apiKey;
+    // Resolved per call so a fetch patched after construction (e.g. in tests) is used
+    this.fetchImpl = options.fetch ?? ((input, init) => fetch(input, init));
+
+    this.files = new FilesResource(this);
+    this.directories = new DirectoriesResource(this);
+    this.apiKeys = new ApiKeysResource(this);
+    this.shareTokens = new ShareTokensResource(this);
+    this.users = new UsersResource(this);
+    this.inviteCodes = new InviteCodesResource(this);
+  }
+
+  // Absolute (or, without a baseUrl, root-relative) URL for an API path
+  url(path: string, query: Record<string, QueryValue> = {}): string {
+    const params = new URLSearchParams();
+    for (const [key, value] of Object.entries(query)) {
+      if (value !== undefined && value !== null) {
+        params.append(key, String(value));
+      }
+    }
+
+    const search = params.toString();
+    return `${this.baseUrl}${path}${search ? `?${search}` : ""}`;
+  }
+
+  // Send a request and throw a HulkApiError for 4xx and 5xx responses
+  async send(method: string, path: string, options: RequestOptions = {}): Promise<Response> {
+    const headers: Record<string, string> = {};
+    if (this.apiKey) {
+      headers.Authorization = `Bearer ${this.apiKey}`;
+    }
+    if (options.body !== undefined) {
+      headers["Content-Type"] = "application/json";
+    }
+
+    const response = await this.fetchImpl(this.url(path, options.query), {
+      method,
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined,
+      redirect: options.redirect,
+    });
+
+    if (response.status >= 400) {
+      throw createApiError(response.status, await readErrorBody(response));
+    }
+
+    return response;
+  }
+
+  async request<T>(method: string, path: string, options: RequestOptions = {}): Promise<T> {
+    const response = await this.send(method, path, options);
+    return (await response.json()) as T;
+  }
+
+  // PUT bytes to a presigned storage URL from POST /files or multipart/parts.
+  // The Content-Type must match the one the URL was signed for. Returns the ETag.
+  async putObject(uploadUrl: string, body: BodyInit, contentType?: string): Promise<string | null> {
+    const response = await this.fetchImpl(uploadUrl, {
+      method: "PUT",
+      headers: contentType ? {"Content-Type": contentType} : undefined,
+      body,
+    });
+
+    if (!response.ok) {
+      throw new HulkStorageError(
+        `Storage upload failed with status ${response.status}`,
+        response.status,
+      );
+    }
+
+    return response.headers.get("ETag");
+  }
+
+  async getObject(url: string): Promise<Response> {
+    const response = await this.fetchImpl(url);
+
+    if (!response.ok) {
+      throw new HulkStorageError(
+        `Storage download failed with status ${response.status}`,
+        response.status,
+      );
+    }
+
+    return response;
+  }
+}
+
+class FilesResource {
+  readonly multipart: MultipartResource;
+
+  constructor(private readonly client: HulkClient) {
+    this.multipart = new MultipartResource(client);
+  }
+
+  list(query: ListFilesQuery = {}): Promise<FileListResponse> {
+    return this.client.request("GET", "/api/v1/files", {
+      query: {
+        limit: query.limit,
+        offset: query.offset,
+        order_by: query.orderBy,
+        ...filterParams(query.filter),
+      },
+    });
+  }
+
+  // One page of files by cursor; pass the previous page's nextCursor for the next
+  listPage(query: ListFilesPageQuery = {}): Promise<FileListPage> {
+    return this.client.request("GET", "/api/v1/files", {
+      query: {
+        limit: query.limit,
+        order_by: query.orderBy,
+        ...filterParams(query.filter),
+        // An empty cursor asks for the first page
+        cursor: query.cursor ?? "",
+      },
+    });
+  }
+
+  // Every matching file, fetching pages of `limit` (default 100) as the loop
+  // asks for them
+  async *listAll(query: Omit<ListFilesPageQuery, "cursor"> = {}): AsyncGenerator<FileListItem> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.listPage({...query, limit: query.limit ?? 100, cursor});
+      yield* page.files;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  // One page of files matching a search query, e.g. "report type:document /reports"
+  search(q: string, options: Omit<SearchFilesQuery, "q"> = {}): Promise<FileSearchResponse> {
+    return this.client.request("GET", "/api/v1/files/search", {query: {q, ...options}});
+  }
+
+  // Every file matching a search query, following nextCursor as the loop asks for more
+  async *searchAll(
+    q: string,
+    options: Omit<SearchFilesQuery, "q" | "cursor"> = {},
+  ): AsyncGenerator<FileListItem> {
+    let cursor: string | undefined;
+
+    do {
+      const page = await this.search(q, {...options, cursor});
+      yield* page.files;
+      cursor = page.nextCursor ?? undefined;
+    } while (cursor);
+  }
+
+  get(id: string): Promise<FileDetails> {
+    return this.client.request("GET", `/api/v1/files/${encodeId(id)}`);
+  }
+
+  // Reserve a file; PUT its bytes to uploadUrl, then call markUploaded
+  create(input: CreateFileInput): Promise<ReservedFile> {
+    return this.client.request("POST", "/api/v1/files", {body: input});
+  }
+
+  update(id: string, input: UpdateFileInput): Promise<UpdatedFile> {
+    return this.client.request("PUT", `/api/v1/files/${encodeId(id)}`, {body: input});
+  }
+
+  delete(id: string): Promise<MessageResponse> {
+    return this.client.request("DELETE", `/api/v1/files/${encodeId(id)}`);
+  }
+
+  // Tell the server the bytes are in storage so it can validate the file
+  markUploaded(id: string): Promise<UpdatedFile> {
+    return this.client.request("PUT", `/api/v1/files/${encodeId(id)}/status`, {
+      body: {status: "uploaded"},
+    });
+  }
+
+  // Reserve, PUT the bytes to storage, and mark the file uploaded. Files too
+  // large for a single PUT should go through `multipart` instead.
+  async upload({body, ...input}: UploadInput, options: UploadOptions = {}): Promise<UpdatedFile> {
+    const mimeType = input.mimeType || body.type || "application/octet-stream";
+    const reserved = await this.create({...input, mimeType, sizeBytes: body.size});
+    options.onReserved?.(reserved);
+
+    await this.client.putObject(reserved.uploadUrl, body, mimeType);
+    return this.markUploaded(reserved.id);
+  }
+
+  // Link to the download route, for <a href> or window.open. It redirects to
+  // a short-lived storage URL.
+  downloadUrl(id: string, options: {token?: string} = {}): string {
+    return this.client.url(`/api/v1/files/${encodeId(id)}/download`, {token: options.token});
+  }
+
+  // The short-lived storage URL the download route redirects to, e.g. for
+  // Range requests. Reads the redirect itself so credentials aren't forwarded
+  // to storage, which only works outside the browser.
+  async storageUrl(id: string, options: {token?: string} = {}): Promise<string> {
+    const response = await this.client.send("GET", `/api/v1/files/${encodeId(id)}/download`, {
+      query: {token: options.token},
+      redirect: "manual",
+    });
+
+    const location = response.headers.get("Location");
+    if (!location) {
+      throw new HulkApiError("Download did not redirect to storage", response.status);
+    }
+
+    return response.url ? new URL(location, response.url).toString() : location;
+  }
+
+  // Fetch a file's contents; see storageUrl
+  async download(id: string, options: {token?: string} = {}): Promise<Response> {
+    return this.client.getObject(await this.storageUrl(id, options));
+  }
+
+  snippets(id: string): Promise<FileSnippetsResponse> {
+    return this.client.request("GET", `/api/v1/files/${encodeId(id)}/snippets`);
+  }
+
+  // Fetch a URL into storage in the background; poll getImport for progress
+  import(input: ImportFileInput): Promise<ImportJob> {
+    return this.client.request("POST", "/api/v1/files/import", {body: input});
+  }
+
+  getImport(jobId: string): Promise<ImportJob> {
+    return this.client.request("GET", `/api/v1/files/import/${encodeId(jobId)}`);
+  }
+}
+
+class MultipartResource {
+  constructor(private readonly client: HulkClient) {}
+
+  // Start a multipart upload for a reserved file, or return the one in progress
+  async start(fileId: string): Promise<StartedMultipartUpload> {
+    const response = await this.client.send("POST", `/api/v1/files/${encodeId(fileId)}/multipart`);
+    const upload = (await response.json()) as MultipartUpload;
+
+    return {...upload, resumed: response.status !== 201};
+  }
+
+  listParts(fileId: string): Promise<UploadedPartsResponse> {
+    return this.client.request("GET", `/api/v1/files/${encodeId(fileId)}/multipart/parts`);
+  }
+
+  // Presigned PUT URLs for up to 100 parts at a time
+  signParts(fileId: string, partNumbers: number[]): Promise<SignedPartsResponse> {
+    return this.client.request("POST", `/api/v1/files/${encodeId(fileId)}/multipart/parts`, {
+      body: {partNumbers},
+    });
+  }
+
+  complete(fileId: string, input: CompleteMultipartInput): Promise<CompletedMultipartUpload> {
+    return this.client.request("POST", `/api/v1/files/${encodeId(fileId)}/multipart/complete`, {
+      body: input,
+    });
+  }
+
+  abort(fileId: string): Promise<MessageResponse> {
+    return this.client.request("DELETE", `/api/v1/files/${encodeId(fileId)}/multipart`);
+  }
+}
+
+class DirectoriesResource {
+  constructor(private readonly client: HulkClient) {}
+
+  list(query: ListDirectoriesQuery = {}): Promise<DirectoryListResponse> {
+    return this.client.request("GET", "/api/v1/directories", {
+      query: {
+        parentId: query.parentId,
+        path: query.path,
+        // The server coerces any value to true, so leave it out unless set
+        recursive: query.recursive ? "true" : undefined,
+        ...filterParams(query.filter),
+      },
+    });
+  }
+
+  // One page of directories by cursor, in path order
+  listPage(query: ListDirectoriesPageQuery = {}): Promise<DirectoryListPage> {
+    return this.client.request("GET", "/api/v1/directories", {
+      query: {
+        parentId: query.parentId,
+        path: query.path,
+        recursive: query.recursive ? "true" : undefined,
+        limit: query.limit,
+        ...filterParams(query.filter),
+        cursor: query.cursor ?? "",
+      },
+    });
+  }
+
+  get(id: string): Promise<DirectoryDetails> {
+    return this.client.request("GET", `/api/v1/directories/${encodeId(id)}`);
+  }
+
+  // Creates missing parent directories too
+  create(input: CreateDirectoryInput): Promise<Directory> {
+    return this.client.request("POST", "/api/v1/directories", {body: input});
+  }
+
+  update(id: string, input: UpdateDirectoryInput): Promise<UpdatedDirectory> {
+    return this.client.request("PUT", `/api/v1/directories/${encodeId(id)}`, {body: input});
+  }
+
+  // Deletes everything under the directory as well
+  delete(id: string): Promise<DeletedDirectory> {
+    return this.client.request("DELETE", `/api/v1/directories/${encodeId(id)}`);
+  }
+
+  // Link that streams the directory as a zip or tar.gz archive
+  archiveUrl(id: string, format: ArchiveFormat = "zip"): string {
+    return this.client.url(`/api/v1/directories/${encodeId(id)}/archive`, {format});
+  }
+}
+
+// API keys can only be managed from a signed-in session, not with another API key
+class ApiKeysResource {
+  constructor(private readonly client: HulkClient) {}
+
+  async list(filter: ListFilters<typeof apiKeyFilterFields> = {}): Promise<ApiKey[]> {
+    const {apiKeys} = await this.client.request<{apiKeys: ApiKey[]}>("GET", "/api/v1/api-keys", {
+      query: filterParams(filter),
+    });
+    return apiKeys;
+  }
+
+  create(input: CreateApiKeyInput): Promise<CreatedApiKey> {
+    return this.client.request("POST", "/api/v1/api-keys", {body: input});
+  }
+
+  delete(id: string): Promise<MessageResponse> {
+    return this.client.request("DELETE", `/api/v1/api-keys/${encodeId(id)}`);
+  }
+}
+
+class ShareTokensResource {
+  constructor(private readonly client: HulkClient) {}
+
+  async list(): Promise<ShareToken[]> {
+    const {shareTokens} = await this.client.request<{shareTokens: ShareToken[]}>(
+      "GET",
+      "/api/v1/share-tokens",
+    );
+    return shareTokens;
+  }
+
+  create(input: CreateShareTokenInput): Promise<CreatedShareToken> {
+    return this.client.request("POST", "/api/v1/share-tokens", {body: input});
+  }
+
+  revoke(id: string): Promise<MessageResponse> {
+    return this.client.request("DELETE", `/api/v1/share-tokens/${encodeId(id)}`);
+  }
+}
+
+class UsersResource {
+  constructor(private readonly client: HulkClient) {}
+
+  // Register with an invite code
+  create(input: CreateUserInput): Promise<User> {
+    return this.client.request("POST", "/api/v1/users", {body: input});
+  }
+
+  get(id: string): Promise<User> {
+    return this.client.request("GET", `/api/v1/users/${encodeId(id)}`);
+  }
+
+  update(id: string, input: UpdateUserInput): Promise<User> {
+    return this.client.request("PUT", `/api/v1/users/${encodeId(id)}`, {body: input});
+  }
+
+  delete(id: string, input: DeleteUserInput): Promise<MessageResponse> {
+    return this.client.request("DELETE", `/api/v1/users/${encodeId(id)}`, {body: input});
+  }
+
+  updatePassword(id: string, input: UpdatePasswordInput): Promise<MessageResponse> {
+    return this.client.request("PUT", `/api/v1/users/${encodeId(id)}/password`, {body: input});
+  }
+
+  // Send (or resend) the verification email
+  sendVerificationEmail(id: string): Promise<MessageResponse> {
+    return this.client.request("POST", `/api/v1/users/${encodeId(id)}/email-verification`);
+  }
+
+  verifyEmail(id: string, input: VerifyEmailInput): Promise<MessageResponse> {
+    return this.client.request("PUT", `/api/v1/users/${encodeId(id)}/email-verification`, {
+      body: input,
+    });
+  }
+
+  usage(id: string): Promise<Usage> {
+    return this.client.request("GET", `/api/v1/users/${encodeId(id)}/usage`);
+  }
+}
+
+class InviteCodesResource {
+  constructor(private readonly client: HulkClient) {}
+
+  async list(): Promise<InviteCode[]> {
+    const {inviteCodes} = await this.client.request<{inviteCodes: InviteCode[]}>(
+      "GET",
+      "/api/v1/invite-codes",
+    );
+    return inviteCodes;
+  }
+}
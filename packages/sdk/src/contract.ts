@@ -0,0 +1,677 @@
+// The /api/v1 contract shared by the route handlers and the client: request
+// schemas the routes validate with, and the JSON shapes they respond with.
+// Keep it free of server-only imports so it can be bundled for the browser.
+
+import {z} from "zod";
+
+export const PERMISSIONS = ["public", "private", "inherit"] as const;
+export type Permissions = (typeof PERMISSIONS)[number];
+
+// What "inherit" resolves to after walking up the directory tree
+export const EFFECTIVE_PERMISSIONS = ["public", "private"] as const;
+export type EffectivePermissions = (typeof EFFECTIVE_PERMISSIONS)[number];
+
+export const EXPIRATION_POLICIES = ["1d", "7d", "30d", "90d", "1y", "infinite"] as const;
+export type ExpirationPolicy = (typeof EXPIRATION_POLICIES)[number];
+
+// Upload lifecycle: reserved -> uploaded -> validated | failed; expired once past expiresAt
+export const FILE_STATUSES = ["reserved", "uploaded", "validated", "failed", "expired"] as const;
+export type FileStatus = (typeof FILE_STATUSES)[number];
+
+// Permission scopes stored on ApiKey.permissions
+export const apiKeyPermissions = ["read", "write", "all"] as const;
+export type ApiKeyPermission = (typeof apiKeyPermissions)[number];
+
+export const ARCHIVE_FORMATS = ["zip", "tar.gz"] as const;
+export type ArchiveFormat = (typeof ARCHIVE_FORMATS)[number];
+
+// Share links last a week unless asked otherwise, and never more than 30 days
+export const DEFAULT_SHARE_TOKEN_TTL_SECONDS = 7 * 24 * 60 * 60;
+export const MAX_SHARE_TOKEN_TTL_SECONDS = 30 * 24 * 60 * 60;
+
+// S3 allows at most 10,000 parts per multipart upload
+export const MAX_MULTIPART_PARTS = 10000;
+// Part URLs signed per request
+export const MAX_SIGNED_PARTS = 100;
+
+export type SnippetLanguage = "bash" | "powershell" | "python";
+
+// One command (or short script) per language
+export type SnippetSet = Record<SnippetLanguage, string>;
+
+export const USAGE_CATEGORIES = [
+  "images",
+  "videos",
+  "audios",
+  "models",
+  "datasets",
+  "documents",
+  "other",
+] as const;
+export type UsageCategory = (typeof USAGE_CATEGORIES)[number];
+
+export type CountByType = {total: number} & Record<UsageCategory, number>;
+
+// Job lifecycle: pending -> running -> completed | failed
+export const IMPORT_JOB_STATUSES = ["pending", "running", "completed", "failed"] as const;
+export type ImportJobStatus = (typeof IMPORT_JOB_STATUSES)[number];
+
+// List endpoints take filter~<field>=<value> for the fields below. A value matches
+// exactly, "a,b" matches any of them, "/docs/*" matches a prefix (text fields) and
+// "min..max" an inclusive range with either end left open (numbers and dates).
+// A backslash makes the "," or "*" after it part of the value, and an empty value
+// matches fields left unset (nullable fields only).
+export type FilterFieldType = "text" | "number" | "date";
+
+export interface FilterField {
+  type: FilterFieldType;
+  // The only values a text field takes, e.g. FILE_STATUSES
+  values?: readonly string[];
+  nullable?: boolean;
+}
+
+// GET /api/v1/files. permissions matches files whose effective permissions are
+// public or private, or files set to inherit; directory.fullPath is the file's
+// directory, so "/docs" is exactly what's in /docs
+export const fileFilterFields = {
+  id: {type: "text"},
+  directoryId: {type: "text", nullable: true},
+  "directory.fullPath": {type: "text"},
+  filename: {type: "text"},
+  fullPath: {type: "text"},
+  mimeType: {type: "text", nullable: true},
+  sizeBytes: {type: "number", nullable: true},
+  status: {type: "text", values: FILE_STATUSES},
+  permissions: {type: "text", values: PERMISSIONS},
+  expirationPolicy: {type: "text", values: EXPIRATION_POLICIES},
+  expiresAt: {type: "date", nullable: true},
+  createdAt: {type: "date"},
+  updatedAt: {type: "date"},
+} as const satisfies Record<string, FilterField>;
+
+// GET /api/v1/directories. parent.fullPath lists the directories directly in one
+export const directoryFilterFields = {
+  id: {type: "text"},
+  parentId: {type: "text", nullable: true},
+  "parent.fullPath": {type: "text"},
+  fullPath: {type: "text"},
+  defaultPermissions: {type: "text", values: PERMISSIONS},
+  defaultExpirationPolicy: {type: "text", values: EXPIRATION_POLICIES},
+  createdAt: {type: "date"},
+  updatedAt: {type: "date"},
+} as const satisfies Record<string, FilterField>;
+
+// GET /api/v1/api-keys
+export const apiKeyFilterFields = {
+  id: {type: "text"},
+  label: {type: "text"},
+  permissions: {type: "text", values: apiKeyPermissions},
+  lastUsedAt: {type: "date", nullable: true},
+  expiresAt: {type: "date", nullable: true},
+  createdAt: {type: "date"},
+  updatedAt: {type: "date"},
+} as const satisfies Record<string, FilterField>;
+
+// Filters as the client takes them, e.g. {status: "validated,failed"}
+export type ListFilters<Fields> = Partial<Record<keyof Fields, string>>;
+
+// Files
+
+// POST /api/v1/files
+export const createFileSchema = z.object({
+  filename: z.string().min(1).max(255),
+  mimeType: z.string().optional(),
+  sizeBytes: z.number().int().min(0).optional(),
+  fullPath: z.string().default("/"),
+  expirationPolicy: z.enum(EXPIRATION_POLICIES).default("infinite"),
+  permissions: z.enum(PERMISSIONS).default("private"),
+});
+
+// PUT /api/v1/files/:id
+export const updateFileSchema = z.object({
+  filename: z.string().min(1).max(255).optional(),
+  fullPath: z.string().min(1).max(1000).optional(),
+  permissions: z.enum(PERMISSIONS).optional(),
+  expirationPolicy: z.enum(EXPIRATION_POLICIES).optional(),
+  directoryId: z.string().optional(),
+  // Set to protect public downloads with a password, or null to remove it
+  accessPassword: z.string().min(4).max(200).nullable().optional(),
+});
+
+// PUT /api/v1/files/:id/status
+export const updateFileStatusSchema = z.object({
+  status: z.enum(["uploaded"]),
+});
+
+// POST /api/v1/files/:id/multipart/parts
+export const signPartsSchema = z.object({
+  partNumbers: z
+    .array(z.number().int().min(1).max(MAX_MULTIPART_PARTS))
+    .min(1)
+    .max(MAX_SIGNED_PARTS),
+});
+
+// POST /api/v1/files/:id/multipart/complete
+export const completeMultipartSchema = z.object({
+  parts: z
+    .array(
+      z.object({
+        partNumber: z.number().int().min(1).max(MAX_MULTIPART_PARTS),
+        etag: z.string().min(1),
+      }),
+    )
+    .min(1)
+    .max(MAX_MULTIPART_PARTS),
+});
+
+// POST /api/v1/files/import
+export const importFileSchema = z.object({
+  url: z.url(),
+  filename: z.string().min(1).max(255).optional(),
+  fullPath: z.string().optional(),
+  expirationPolicy: z.enum(EXPIRATION_POLICIES).default("infinite"),
+  permissions: z.enum(PERMISSIONS).default("private"),
+});
+
+// Directories
+
+// POST /api/v1/directories
+export const createDirectorySchema = z.object({
+  fullPath: z.string().min(1).max(1000),
+  parentId: z.string().optional(),
+  defaultPermissions: z.enum(PERMISSIONS).default("private"),
+  defaultExpirationPolicy: z.enum(EXPIRATION_POLICIES).default("infinite"),
+});
+
+// GET /api/v1/directories query. Without a cursor every matching directory
+// comes back at once
+export const listDirectoriesSchema = z.object({
+  parentId: z.string().optional(),
+  path: z.string().optional(),
+  recursive: z.coerce.boolean().default(false),
+  limit: z.coerce.number().int().min(1).max(1000).default(100).describe("Page size with a cursor"),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "Pages by cursor, in fullPath order: empty for the first page, then nextCursor from the previous one",
+    ),
+});
+
+// PUT /api/v1/directories/:id
+export const updateDirectorySchema = z.object({
+  fullPath: z.string().min(1).max(1000).optional(),
+  parentId: z.string().nullable().optional(),
+  defaultPermissions: z.enum(PERMISSIONS).optional(),
+  defaultExpirationPolicy: z.enum(EXPIRATION_POLICIES).optional(),
+  // Protects public downloads of every file under the directory; null removes it
+  accessPassword: z.string().min(4).max(200).nullable().optional(),
+});
+
+// GET /api/v1/directories/:id/archive and /d/dir/:id query
+export const archiveQuerySchema = z.object({
+  format: z.enum(ARCHIVE_FORMATS).default("zip"),
+});
+
+// API keys and share tokens
+
+// POST /api/v1/api-keys
+export const createApiKeySchema = z.object({
+  label: z.string().trim().min(1).max(100),
+  permissions: z.enum(apiKeyPermissions).default("read"),
+  expiresAt: z.iso.datetime().nullable().optional(),
+});
+
+// POST /api/v1/share-tokens; exactly one of fileId and directoryId
+export const createShareTokenSchema = z
+  .object({
+    fileId: z.string().min(1).optional(),
+    directoryId: z.string().min(1).optional(),
+    expiresIn: z
+      .number()
+      .int()
+      .positive()
+      .max(MAX_SHARE_TOKEN_TTL_SECONDS)
+      .default(DEFAULT_SHARE_TOKEN_TTL_SECONDS),
+    maxDownloads: z.number().int().positive().nullable().optional(),
+  })
+  .refine((data) => !!data.fileId !== !!data.directoryId, {
+    message: "Provide either fileId or directoryId",
+  });
+
+// Users
+
+// POST /api/v1/users
+export const createUserSchema = z.object({
+  email: z.email(),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+  firstName: z.string().trim().max(100).default(""),
+  lastName: z.string().trim().max(100).default(""),
+  inviteCode: z.string().trim().min(1),
+});
+
+// PUT /api/v1/users/:id; changing the email needs the current password
+export const updateUserSchema = z
+  .object({
+    firstName: z.string().trim().max(100).optional(),
+    lastName: z.string().trim().max(100).optional(),
+    email: z.email().optional(),
+    currentPassword: z.string().optional(),
+  })
+  .strict();
+
+// DELETE /api/v1/users/:id; the password must be re-entered
+export const deleteUserSchema = z.object({
+  password: z.string().min(1),
+});
+
+// PUT /api/v1/users/:id/password
+export const updatePasswordSchema = z.object({
+  currentPassword: z.string().min(1),
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+});
+
+// PUT /api/v1/users/:id/email-verification
+export const verifyEmailSchema = z.object({
+  token: z.string().min(1),
+});
+
+// Request bodies as callers write them, before defaults are applied
+export type CreateFileInput = z.input<typeof createFileSchema>;
+export type UpdateFileInput = z.input<typeof updateFileSchema>;
+export type CompleteMultipartInput = z.input<typeof completeMultipartSchema>;
+export type ImportFileInput = z.input<typeof importFileSchema>;
+export type CreateDirectoryInput = z.input<typeof createDirectorySchema>;
+export type ListDirectoriesQuery = Omit<
+  z.input<typeof listDirectoriesSchema>,
+  "limit" | "cursor"
+> & {
+  filter?: ListFilters<typeof directoryFilterFields>;
+};
+// Leave cursor out for the first page
+export type ListDirectoriesPageQuery = Omit<z.input<typeof listDirectoriesSchema>, "limit"> & {
+  limit?: number;
+  filter?: ListFilters<typeof directoryFilterFields>;
+};
+export type UpdateDirectoryInput = z.input<typeof updateDirectorySchema>;
+export type CreateApiKeyInput = z.input<typeof createApiKeySchema>;
+export type CreateShareTokenInput = z.input<typeof createShareTokenSchema>;
+export type CreateUserInput = z.input<typeof createUserSchema>;
+export type UpdateUserInput = z.input<typeof updateUserSchema>;
+export type DeleteUserInput = z.input<typeof deleteUserSchema>;
+export type UpdatePasswordInput = z.input<typeof updatePasswordSchema>;
+export type VerifyEmailInput = z.input<typeof verifyEmailSchema>;
+
+// GET /api/v1/files query. orderBy is "<field>+<asc|desc>" and each filter entry
+// is sent as filter~<field>, e.g. {status: "validated"}
+export interface ListFilesQuery {
+  limit?: number;
+  offset?: number;
+  orderBy?: string;
+  filter?: ListFilters<typeof fileFilterFields>;
+}
+
+// The same query as it appears on the wire. The route reads the search params
+// itself, so this only documents them.
+export const listFilesQuerySchema = z.object({
+  limit: z.coerce.number().int().min(1).max(1000).default(10),
+  offset: z.coerce.number().int().min(0).default(0),
+  order_by: z
+    .string()
+    .default("createdAt+desc")
+    .describe("createdAt, updatedAt, filename or sizeBytes, then +asc or +desc"),
+  cursor: z
+    .string()
+    .optional()
+    .describe(
+      "Pages by cursor instead of offset: empty for the first page, then nextCursor from the previous one",
+    ),
+});
+
+// GET /api/v1/files with a cursor; leave cursor out for the first page
+export interface ListFilesPageQuery {
+  limit?: number;
+  orderBy?: string;
+  filter?: ListFilters<typeof fileFilterFields>;
+  cursor?: string;
+}
+
+// GET /api/v1/files/search query. q uses the search language described in the
+// API reference, e.g. "report type:document size:>1MB /reports"
+export const searchFilesQuerySchema = z.object({
+  q: z.string().trim().min(1).max(500),
+  limit: z.coerce.number().int().min(1).max(100).default(50),
+  cursor: z.string().optional().describe("nextCursor from the previous page"),
+});
+export interface SearchFilesQuery {
+  q: string;
+  limit?: number;
+  cursor?: string;
+}
+
+// Responses. Dates are ISO 8601 strings.
+
+const timestamp = z.string().meta({format: "date-time"});
+
+// Every error response
+export const errorResponseSchema = z.object({
+  error: z.string(),
+  details: z
+    .unknown()
+    .optional()
+    .describe("zod issues for validation errors, or the numbers behind a quota error"),
+});
+export type ErrorResponse = z.infer<typeof errorResponseSchema>;
+
+export const messageResponseSchema = z.object({
+  message: z.string(),
+});
+export type MessageResponse = z.infer<typeof messageResponseSchema>;
+
+export const fileSummarySchema = z.object({
+  id: z.string(),
+  filename: z.string(),
+  fullPath: z.string(),
+  mimeType: z.string().nullable(),
+  sizeBytes: z.number().int().nullable(),
+  permissions: z.enum(PERMISSIONS),
+  effectivePermissions: z.enum(EFFECTIVE_PERMISSIONS),
+  status: z.enum(FILE_STATUSES),
+  expirationPolicy: z.string(),
+  expiresAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+export type FileSummary = z.infer<typeof fileSummarySchema>;
+
+export const fileListItemSchema = fileSummarySchema.extend({
+  directory: z.object({fullPath: z.string()}).nullable(),
+});
+export type FileListItem = z.infer<typeof fileListItemSchema>;
+
+export const paginationSchema = z.object({
+  total: z.number().int(),
+  limit: z.number().int(),
+  offset: z.number().int(),
+  hasMore: z.boolean(),
+});
+export type Pagination = z.infer<typeof paginationSchema>;
+
+export const fileListResponseSchema = z.object({
+  files: z.array(fileListItemSchema),
+  pagination: paginationSchema,
+});
+export type FileListResponse = z.infer<typeof fileListResponseSchema>;
+
+// GET /api/v1/files with a cursor
+export const fileListPageSchema = z.object({
+  files: z.array(fileListItemSchema),
+  nextCursor: z.string().nullable().describe("null on the last page"),
+});
+export type FileListPage = z.infer<typeof fileListPageSchema>;
+
+// GET /api/v1/files/search; newest first
+export const fileSearchResponseSchema = z.object({
+  files: z.array(fileListItemSchema),
+  nextCursor: z.string().nullable().describe("null on the last page"),
+});
+export type FileSearchResponse = z.infer<typeof fileSearchResponseSchema>;
+
+// GET /api/v1/files/:id
+export const fileDetailsSchema = fileSummarySchema.extend({
+  hasAccessPassword: z.boolean(),
+  directoryId: z.string(),
+  directory: z.object({
+    id: z.string(),
+    fullPath: z.string(),
+    defaultPermissions: z.enum(PERMISSIONS),
+    defaultExpirationPolicy: z.string(),
+  }),
+  owner: z.object({id: z.string(), name: z.string()}).optional().describe("Only for public files"),
+  downloadUrl: z
+    .string()
+    .optional()
+    .describe("Only for validated files: /d/:id when public, the download route otherwise"),
+});
+export type FileDetails = z.infer<typeof fileDetailsSchema>;
+
+// PUT /api/v1/files/:id and /status
+export const updatedFileSchema = fileSummarySchema.extend({
+  hasAccessPassword: z.boolean(),
+  directoryId: z.string(),
+  directory: z.object({fullPath: z.string()}),
+});
+export type UpdatedFile = z.infer<typeof updatedFileSchema>;
+
+// POST /api/v1/files
+export const reservedFileSchema = z.object({
+  id: z.string(),
+  uploadUrl: z.string().describe("Presigned URL to PUT the file's bytes to"),
+  filename: z.string(),
+  fullPath: z.string(),
+  expirationPolicy: z.string(),
+  permissions: z.enum(PERMISSIONS),
+  effectivePermissions: z.enum(EFFECTIVE_PERMISSIONS),
+  expiresAt: timestamp.nullable(),
+  status: z.literal("reserved"),
+});
+export type ReservedFile = z.infer<typeof reservedFileSchema>;
+
+// Body of a 413 from POST /api/v1/files
+export const quotaExceededDetailsSchema = z.object({
+  quotaBytes: z.number().int(),
+  usedBytes: z.number().int(),
+  requestedBytes: z.number().int(),
+});
+export type QuotaExceededDetails = z.infer<typeof quotaExceededDetailsSchema>;
+
+// POST /api/v1/files/:id/multipart
+export const multipartUploadSchema = z.object({
+  id: z.string(),
+  uploadId: z.string(),
+  partSize: z.number().int().describe("Bytes in every part except the last"),
+  partCount: z.number().int(),
+});
+export type MultipartUpload = z.infer<typeof multipartUploadSchema>;
+
+export const signedPartsResponseSchema = z.object({
+  id: z.string(),
+  uploadId: z.string(),
+  parts: z.array(z.object({partNumber: z.number().int(), uploadUrl: z.string()})),
+});
+export type SignedPartsResponse = z.infer<typeof signedPartsResponseSchema>;
+export type SignedPart = SignedPartsResponse["parts"][number];
+
+export const uploadedPartsResponseSchema = z.object({
+  id: z.string(),
+  uploadId: z.string(),
+  parts: z.array(
+    z.object({partNumber: z.number().int(), etag: z.string(), size: z.number().int()}),
+  ),
+});
+export type UploadedPartsResponse = z.infer<typeof uploadedPartsResponseSchema>;
+export type UploadedPart = UploadedPartsResponse["parts"][number];
+
+export const completedMultipartUploadSchema = z.object({
+  id: z.string(),
+  status: z.enum(FILE_STATUSES),
+  partCount: z.number().int(),
+});
+export type CompletedMultipartUpload = z.infer<typeof completedMultipartUploadSchema>;
+
+const snippetSetSchema = z.object({bash: z.string(), powershell: z.string(), python: z.string()});
+
+// GET /api/v1/files/:id/snippets
+export const fileSnippetsResponseSchema = z.object({
+  fileId: z.string(),
+  effectivePermissions: z.enum(EFFECTIVE_PERMISSIONS),
+  snippets: z.object({
+    download: snippetSetSchema
+      .nullable()
+      .describe("null for private files, which have no public link"),
+    authenticatedDownload: snippetSetSchema,
+    upload: snippetSetSchema,
+  }),
+});
+export type FileSnippetsResponse = z.infer<typeof fileSnippetsResponseSchema>;
+
+// POST /api/v1/files/import and GET /api/v1/files/import/:id
+export const importJobSchema = z.object({
+  id: z.string(),
+  fileId: z.string(),
+  sourceUrl: z.string(),
+  status: z.enum(IMPORT_JOB_STATUSES),
+  bytesReceived: z.number().int(),
+  totalBytes: z.number().int().nullable(),
+  error: z.string().nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+  completedAt: timestamp.nullable(),
+});
+export type ImportJob = z.infer<typeof importJobSchema>;
+
+export const directorySchema = z.object({
+  id: z.string(),
+  fullPath: z.string(),
+  parentId: z.string().nullable(),
+  defaultPermissions: z.enum(PERMISSIONS),
+  effectivePermissions: z.enum(EFFECTIVE_PERMISSIONS),
+  defaultExpirationPolicy: z.string(),
+  fileCount: z.number().int(),
+  subdirectoryCount: z.number().int(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+export type Directory = z.infer<typeof directorySchema>;
+
+export const directoryListItemSchema = directorySchema.extend({
+  parent: z.object({id: z.string(), fullPath: z.string()}).nullable(),
+});
+export type DirectoryListItem = z.infer<typeof directoryListItemSchema>;
+
+export const directoryListResponseSchema = z.object({
+  directories: z.array(directoryListItemSchema),
+  total: z.number().int(),
+});
+export type DirectoryListResponse = z.infer<typeof directoryListResponseSchema>;
+
+// GET /api/v1/directories with a cursor
+export const directoryListPageSchema = z.object({
+  directories: z.array(directoryListItemSchema),
+  nextCursor: z.string().nullable().describe("null on the last page"),
+});
+export type DirectoryListPage = z.infer<typeof directoryListPageSchema>;
+
+// GET /api/v1/directories/:id
+export const directoryDetailsSchema = directoryListItemSchema.extend({
+  hasAccessPassword: z.boolean(),
+  children: z.array(
+    directorySchema.pick({
+      id: true,
+      fullPath: true,
+      defaultPermissions: true,
+      effectivePermissions: true,
+      fileCount: true,
+      subdirectoryCount: true,
+    }),
+  ),
+  files: z.array(fileSummarySchema),
+});
+export type DirectoryDetails = z.infer<typeof directoryDetailsSchema>;
+
+// PUT /api/v1/directories/:id
+export const updatedDirectorySchema = directorySchema.extend({
+  hasAccessPassword: z.boolean(),
+});
+export type UpdatedDirectory = z.infer<typeof updatedDirectorySchema>;
+
+export const deletedDirectorySchema = messageResponseSchema.extend({
+  deletedFiles: z.number().int(),
+});
+export type DeletedDirectory = z.infer<typeof deletedDirectorySchema>;
+
+export const apiKeySchema = z.object({
+  id: z.string(),
+  label: z.string(),
+  permissions: z.enum(apiKeyPermissions),
+  lastUsedAt: timestamp.nullable(),
+  expiresAt: timestamp.nullable(),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+export type ApiKey = z.infer<typeof apiKeySchema>;
+
+export const apiKeyListResponseSchema = z.object({apiKeys: z.array(apiKeySchema)});
+
+// POST /api/v1/api-keys; the only time the key itself is returned
+export const createdApiKeySchema = apiKeySchema.extend({
+  key: z.string(),
+});
+export type CreatedApiKey = z.infer<typeof createdApiKeySchema>;
+
+export const shareTokenSchema = z.object({
+  id: z.string(),
+  fileId: z.string().nullable(),
+  directoryId: z.string().nullable(),
+  maxDownloads: z.number().int().nullable(),
+  downloadCount: z.number().int(),
+  expiresAt: timestamp,
+  revokedAt: timestamp.nullable(),
+  createdAt: timestamp,
+});
+export type ShareToken = z.infer<typeof shareTokenSchema>;
+
+export const shareTokenListResponseSchema = z.object({shareTokens: z.array(shareTokenSchema)});
+
+// POST /api/v1/share-tokens; the only time the token itself is returned
+export const createdShareTokenSchema = shareTokenSchema.extend({
+  token: z.string(),
+  url: z.string().nullable().describe("Public link for file tokens, null for directory tokens"),
+});
+export type CreatedShareToken = z.infer<typeof createdShareTokenSchema>;
+
+export const userSchema = z.object({
+  id: z.string(),
+  email: z.string(),
+  firstName: z.string(),
+  lastName: z.string(),
+  isEmailVerified: z.boolean(),
+  plan: z.string(),
+  quotaBytes: z.number().int().nullable().describe("null when the user's plan is unlimited"),
+  createdAt: timestamp,
+  updatedAt: timestamp,
+});
+export type User = z.infer<typeof userSchema>;
+
+// Keys mirror USAGE_CATEGORIES
+const countByTypeSchema = z.object({
+  total: z.number().int(),
+  images: z.number().int(),
+  videos: z.number().int(),
+  audios: z.number().int(),
+  models: z.number().int(),
+  datasets: z.number().int(),
+  documents: z.number().int(),
+  other: z.number().int(),
+});
+
+// GET /api/v1/users/:id/usage
+export const usageSchema = z.object({
+  file_counts: countByTypeSchema,
+  byte_counts: countByTypeSchema,
+  quota_bytes: z.number().int().nullable().describe("null when the user's plan is unlimited"),
+});
+export type Usage = z.infer<typeof usageSchema>;
+
+export const inviteCodeSchema = z.object({
+  id: z.string(),
+  code: z.string(),
+  maxUses: z.number().int(),
+  useCount: z.number().int(),
+  remainingUses: z.number().int(),
+  expiresAt: timestamp.nullable(),
+  createdAt: timestamp,
+});
+export type InviteCode = z.infer<typeof inviteCodeSchema>;
+
+export const inviteCodeListResponseSchema = z.object({inviteCodes: z.array(inviteCodeSchema)});
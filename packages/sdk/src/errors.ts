@@ -0,0 +1,102 @@
+import type {ErrorResponse, QuotaExceededDetails} from "./contract";
+
+// A non-2xx response from the API. message is the response's `error` field.
+export class HulkApiError<Details = unknown> extends Error {
+  readonly status: number;
+  readonly details?: Details;
+
+  constructor(message: string, status: number, details?: Details) {
+    super(message);
+    this.name = "HulkApiError";
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export interface ValidationIssue {
+  path: PropertyKey[];
+  message: string;
+  code?: string;
+}
+
+// 400; issues is empty when the route rejected the request without zod
+export class HulkValidationError extends HulkApiError {
+  readonly issues: ValidationIssue[];
+
+  constructor(message: string, details?: unknown) {
+    super(message, 400, details);
+    this.name = "HulkValidationError";
+    this.issues = Array.isArray(details) ? (details as ValidationIssue[]) : [];
+  }
+}
+
+// 401: missing, invalid or expired credentials
+export class HulkAuthenticationError extends HulkApiError {
+  constructor(message: string, details?: unknown) {
+    super(message, 401, details);
+    this.name = "HulkAuthenticationError";
+  }
+}
+
+// 403: e.g. a read-only API key on a write route, or an unverified email
+export class HulkPermissionError extends HulkApiError {
+  constructor(message: string, details?: unknown) {
+    super(message, 403, details);
+    this.name = "HulkPermissionError";
+  }
+}
+
+// 404: also returned for resources that exist but belong to someone else
+export class HulkNotFoundError extends HulkApiError {
+  constructor(message: string, details?: unknown) {
+    super(message, 404, details);
+    this.name = "HulkNotFoundError";
+  }
+}
+
+// 409: e.g. moving a directory onto a path that is already taken
+export class HulkConflictError extends HulkApiError {
+  constructor(message: string, details?: unknown) {
+    super(message, 409, details);
+    this.name = "HulkConflictError";
+  }
+}
+
+// 413: the upload would go over the user's storage quota
+export class HulkQuotaExceededError extends HulkApiError<QuotaExceededDetails> {
+  constructor(message: string, details?: unknown) {
+    super(message, 413, details as QuotaExceededDetails | undefined);
+    this.name = "HulkQuotaExceededError";
+  }
+}
+
+// A PUT to or GET from a presigned storage URL failed; these don't go through the API
+export class HulkStorageError extends HulkApiError {
+  constructor(message: string, status: number) {
+    super(message, status);
+    this.name = "HulkStorageError";
+  }
+}
+
+// Build the error class matching a response's status
+export function createApiError(status: number, body: Partial<ErrorResponse> | null): HulkApiError {
+  const message = body?.error || `Request failed with status ${status}`;
+  const details = body?.details;
+
+  switch (status) {
+    case 400:
+      return new HulkValidationError(message, details);
+    case 401:
+      return new HulkAuthenticationError(message, details);
+    case 403:
+      return new HulkPermissionError(message, details);
+    case 404:
+      return new HulkNotFoundError(message, details);
+    case 409:
+      return new HulkConflictError(message, details);
+    case 413:
+      return new HulkQuotaExceededError(message, details);
+    default:
+      return new HulkApiError(message, status, details);
+  }
+}
@@ -9,12 +9,15 @@ import {defineConfig, devices} from "@playwright/test";
 // dotenv.config({ path: path.resolve(__dirname, '.env') });
 
 const PORT = 3010;
+const DEV_R2_PORT = 9000;
 
 /**
  * See https://playwright.dev/docs/test-configuration.
  */
 export default defineConfig({
   testDir: "./tests/e2e",
+  /* Resolve @hulkastorus/sdk in the CLI sources too, which have their own tsconfig */
+  tsconfig: "./tsconfig.json",
   /* Run tests in files in parallel */
   fullyParallel: true,
   /* Fail the build on CI if you accidentally left test.only in the source code. */
@@ -72,10 +75,25 @@ export default defineConfig({
     // },
   ],
 
-  /* Run your local dev server before starting the tests */
-  webServer: {
-    command: (process.env.CI ? `npm run start` : `npm run dev`) + ` -- --port ${PORT}`,
-    url: `http://localhost:${PORT}`,
-    reuseExistingServer: !process.env.CI,
-  },
+  /* Run the mock R2 server and your local dev server before starting the tests */
+  webServer: [
+    {
+      command: "node scripts/dev-r2-server.js",
+      port: DEV_R2_PORT,
+      reuseExistingServer: !process.env.CI,
+    },
+    {
+      command: (process.env.CI ? `npm run start` : `npm run dev`) + ` -- --port ${PORT}`,
+      url: `http://localhost:${PORT}`,
+      reuseExistingServer: !process.env.CI,
+      // Storage goes to the mock R2 server, as with `npm run dev:with-r2`
+      env: {
+        R2_ENDPOINT: `http://localhost:${DEV_R2_PORT}`,
+        R2_ACCOUNT_ID: "hulkastorus-dev",
+        R2_ACCESS_KEY_ID: "dev-access-key",
+        R2_SECRET_ACCESS_KEY: "dev-secret-key",
+        R2_BUCKET_NAME: "hulkastorus-dev",
+      },
+    },
+  ],
 });
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."api_keys" ADD COLUMN     "last_used_at" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."api_keys" ADD COLUMN     "expires_at" TIMESTAMP(3);
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "public"."files" ADD COLUMN     "upload_id" TEXT;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "public"."users" ADD COLUMN     "plan" TEXT NOT NULL DEFAULT 'free',
+ADD COLUMN     "quota_bytes" BIGINT;
@@ -0,0 +1,38 @@
+-- CreateTable
+CREATE TABLE "public"."invite_codes" (
+    "id" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "issuer_id" TEXT,
+    "max_uses" INTEGER NOT NULL DEFAULT 1,
+    "use_count" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "invite_codes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "public"."invite_redemptions" (
+    "id" TEXT NOT NULL,
+    "invite_code_id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "invite_redemptions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invite_codes_code_key" ON "public"."invite_codes"("code");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "invite_redemptions_user_id_key" ON "public"."invite_redemptions"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."invite_codes" ADD CONSTRAINT "invite_codes_issuer_id_fkey" FOREIGN KEY ("issuer_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invite_redemptions" ADD CONSTRAINT "invite_redemptions_invite_code_id_fkey" FOREIGN KEY ("invite_code_id") REFERENCES "public"."invite_codes"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."invite_redemptions" ADD CONSTRAINT "invite_redemptions_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,27 @@
+-- CreateTable
+CREATE TABLE "public"."share_tokens" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "file_id" TEXT,
+    "directory_id" TEXT,
+    "max_downloads" INTEGER,
+    "download_count" INTEGER NOT NULL DEFAULT 0,
+    "expires_at" TIMESTAMP(3) NOT NULL,
+    "revoked_at" TIMESTAMP(3),
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "share_tokens_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "share_tokens_user_id_idx" ON "public"."share_tokens"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."share_tokens" ADD CONSTRAINT "share_tokens_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."share_tokens" ADD CONSTRAINT "share_tokens_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "public"."files"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."share_tokens" ADD CONSTRAINT "share_tokens_directory_id_fkey" FOREIGN KEY ("directory_id") REFERENCES "public"."directories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
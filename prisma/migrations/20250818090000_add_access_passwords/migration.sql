@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "public"."directories" ADD COLUMN     "access_password" TEXT;
+
+-- AlterTable
+ALTER TABLE "public"."files" ADD COLUMN     "access_password" TEXT;
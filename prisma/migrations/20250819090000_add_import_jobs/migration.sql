@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "public"."import_jobs" (
+    "id" TEXT NOT NULL,
+    "user_id" TEXT NOT NULL,
+    "file_id" TEXT,
+    "source_url" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "bytes_received" BIGINT NOT NULL DEFAULT 0,
+    "total_bytes" BIGINT,
+    "error" TEXT,
+    "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updated_at" TIMESTAMP(3) NOT NULL,
+    "completed_at" TIMESTAMP(3),
+
+    CONSTRAINT "import_jobs_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_jobs_user_id_idx" ON "public"."import_jobs"("user_id");
+
+-- AddForeignKey
+ALTER TABLE "public"."import_jobs" ADD CONSTRAINT "import_jobs_user_id_fkey" FOREIGN KEY ("user_id") REFERENCES "public"."users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "public"."import_jobs" ADD CONSTRAINT "import_jobs_file_id_fkey" FOREIGN KEY ("file_id") REFERENCES "public"."files"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,11 @@
+-- Trigram indexes let ILIKE '%term%' and glob patterns use an index
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "files_user_id_created_at_id_idx" ON "public"."files"("user_id", "created_at" DESC, "id" DESC);
+
+-- CreateIndex
+CREATE INDEX "files_filename_idx" ON "public"."files" USING GIN ("filename" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "files_full_path_idx" ON "public"."files" USING GIN ("full_path" gin_trgm_ops);
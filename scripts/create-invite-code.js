@@ -0,0 +1,113 @@
+#!/usr/bin/env node
+
+/**
+ * Issue invite codes.
+ *
+ *   node scripts/create-invite-code.js [--count N] [--uses N] [--expires-days N]
+ *                                      [--user EMAIL] [--code CODE]
+ *
+ * --user allots the codes to an existing user, who can share them from settings.
+ * Without it the codes are admin-issued and belong to no one.
+ */
+
+const crypto = require("crypto");
+const {PrismaClient} = require("@prisma/client");
+
+// Keep in sync with src/lib/invite-codes.ts
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+const ID_ALPHABET = "0123456789abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ";
+
+function randomString(alphabet, length) {
+  return Array.from(crypto.randomBytes(length), (byte) => alphabet[byte % alphabet.length]).join(
+    "",
+  );
+}
+
+function generateInviteCode() {
+  const chars = randomString(INVITE_CODE_ALPHABET, 8);
+  return `${chars.slice(0, 4)}-${chars.slice(4)}`;
+}
+
+function parseArgs(argv) {
+  const options = {count: 1, uses: 1, expiresDays: null, user: null, code: null};
+
+  for (let i = 0; i < argv.length; i++) {
+    const value = argv[i + 1];
+
+    switch (argv[i]) {
+      case "--count":
+        options.count = parseInt(value);
+        i++;
+        break;
+      case "--uses":
+        options.uses = parseInt(value);
+        i++;
+        break;
+      case "--expires-days":
+        options.expiresDays = parseInt(value);
+        i++;
+        break;
+      case "--user":
+        options.user = value;
+        i++;
+        break;
+      case "--code":
+        options.code = value.trim().toUpperCase();
+        i++;
+        break;
+      default:
+        throw new Error(`Unknown option: ${argv[i]}`);
+    }
+  }
+
+  if (!(options.count > 0) || !(options.uses > 0)) {
+    throw new Error("--count and --uses must be positive numbers");
+  }
+
+  if (options.code && options.count !== 1) {
+    throw new Error("--code can only be used with --count 1");
+  }
+
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const prisma = new PrismaClient();
+
+  try {
+    let issuerId = null;
+    if (options.user) {
+      const user = await prisma.user.findUnique({where: {email: options.user}});
+      if (!user) {
+        throw new Error(`No user with email ${options.user}`);
+      }
+      issuerId = user.id;
+    }
+
+    const expiresAt = options.expiresDays
+      ? new Date(Date.now() + options.expiresDays * 24 * 60 * 60 * 1000)
+      : null;
+
+    for (let i = 0; i < options.count; i++) {
+      const inviteCode = await prisma.inviteCode.create({
+        data: {
+          id: randomString(ID_ALPHABET, 12),
+          code: options.code || generateInviteCode(),
+          issuerId,
+          maxUses: options.uses,
+          expiresAt,
+        },
+      });
+
+      console.log(inviteCode.code);
+    }
+  } finally {
+    await prisma.$disconnect();
+  }
+}
+
+main().catch((error) => {
+  console.error(error.message);
+  process.exit(1);
+});
@@ -14,6 +14,7 @@ class DevMockR2Server {
     this.port = port;
     this.bucketName = bucketName;
     this.objects = new Map();
+    this.uploads = new Map();
     this.server = createServer(this.handleRequest.bind(this));
   }
 
@@ -40,11 +41,14 @@ class DevMockR2Server {
     const parsedUrl = parse(req.url, true);
     const path = parsedUrl.pathname;
     const method = req.method;
+    const query = parsedUrl.query;
 
     // Add CORS headers for development
     res.setHeader("Access-Control-Allow-Origin", "*");
     res.setHeader("Access-Control-Allow-Methods", "GET, POST, PUT, DELETE, HEAD, OPTIONS");
     res.setHeader("Access-Control-Allow-Headers", "Content-Type, Authorization, x-amz-*");
+    // Browsers need to read the ETag of each uploaded part to complete multipart uploads
+    res.setHeader("Access-Control-Expose-Headers", "ETag");
 
     if (method === "OPTIONS") {
       res.writeHead(200);
@@ -68,6 +72,41 @@ class DevMockR2Server {
     }
 
     try {
+      // ListObjectsV2 is a GET on the bucket itself
+      if (method === "GET" && !objectKey && query["list-type"] === "2") {
+        this.handleListObjects(res, query);
+        return;
+      }
+
+      // Multipart uploads share methods with plain object requests and are told apart by query
+      if (method === "POST" && query.uploads !== undefined) {
+        this.handleCreateMultipartUpload(req, res, objectKey);
+        return;
+      }
+
+      if (typeof query.uploadId === "string") {
+        switch (method) {
+          case "GET":
+            this.handleListParts(
+              res,
+              objectKey,
+              query.uploadId,
+              Number(query["part-number-marker"] || 0),
+              Number(query["max-parts"] || 1000),
+            );
+            return;
+          case "PUT":
+            this.handleUploadPart(req, res, query.uploadId, Number(query.partNumber));
+            return;
+          case "POST":
+            this.handleCompleteMultipartUpload(req, res, objectKey, query.uploadId);
+            return;
+          case "DELETE":
+            this.handleAbortMultipartUpload(req, res, query.uploadId);
+            return;
+        }
+      }
+
       switch (method) {
         case "PUT":
           this.handlePutObject(req, res, objectKey);
@@ -198,6 +237,266 @@ class DevMockR2Server {
     res.end();
   }
 
+  handleListObjects(res, query) {
+    const prefix = typeof query.prefix === "string" ? query.prefix : "";
+    const maxKeys = Number(query["max-keys"] || 1000);
+    const continuationToken =
+      typeof query["continuation-token"] === "string" ? query["continuation-token"] : undefined;
+    // Continuation tokens are just the base64 of the last key returned
+    const startAfter = continuationToken
+      ? Buffer.from(continuationToken, "base64").toString("utf8")
+      : "";
+
+    const keys = Array.from(this.objects.keys())
+      .filter((key) => key.startsWith(prefix) && key > startAfter)
+      .sort();
+    const page = keys.slice(0, maxKeys);
+    const isTruncated = keys.length > page.length;
+    const nextContinuationToken = isTruncated
+      ? Buffer.from(page[page.length - 1]).toString("base64")
+      : undefined;
+
+    const contentsXml = page
+      .map((key) => {
+        const object = this.objects.get(key);
+        return `
+    <Contents>
+        <Key>${this.escapeXml(key)}</Key>
+        <LastModified>${object.lastModified.toISOString()}</LastModified>
+        <ETag>${this.escapeXml(object.etag)}</ETag>
+        <Size>${object.size}</Size>
+        <StorageClass>STANDARD</StorageClass>
+    </Contents>`;
+      })
+      .join("");
+
+    res.writeHead(200, {"Content-Type": "application/xml"});
+    res.end(`<?xml version="1.0" encoding="UTF-8"?>
+<ListBucketResult>
+    <Name>${this.bucketName}</Name>
+    <Prefix>${this.escapeXml(prefix)}</Prefix>
+    <KeyCount>${page.length}</KeyCount>
+    <MaxKeys>${maxKeys}</MaxKeys>
+    <IsTruncated>${isTruncated}</IsTruncated>${
+      continuationToken ? `\n    <ContinuationToken>${continuationToken}</ContinuationToken>` : ""
+    }${
+      nextContinuationToken
+        ? `\n    <NextContinuationToken>${nextContinuationToken}</NextContinuationToken>`
+        : ""
+    }${contentsXml}
+</ListBucketResult>`);
+  }
+
+  handleCreateMultipartUpload(req, res, objectKey) {
+    if (!objectKey) {
+      this.sendError(res, 400, "InvalidRequest", "Object key is required");
+      return;
+    }
+
+    const uploadId = crypto.randomBytes(16).toString("hex");
+    this.uploads.set(uploadId, {
+      key: objectKey,
+      contentType: req.headers["content-type"] || "application/octet-stream",
+      parts: new Map(),
+    });
+
+    console.log(`📤 Starting multipart upload: ${objectKey} (${uploadId})`);
+
+    // Drain the (empty) request body before responding
+    req.resume();
+
+    res.writeHead(200, {"Content-Type": "application/xml"});
+    res.end(`<?xml version="1.0" encoding="UTF-8"?>
+<InitiateMultipartUploadResult>
+    <Bucket>${this.bucketName}</Bucket>
+    <Key>${objectKey}</Key>
+    <UploadId>${uploadId}</UploadId>
+</InitiateMultipartUploadResult>`);
+  }
+
+  handleUploadPart(req, res, uploadId, partNumber) {
+    const upload = this.uploads.get(uploadId);
+    if (!upload) {
+      this.sendError(res, 404, "NoSuchUpload", `Upload ${uploadId} does not exist`);
+      return;
+    }
+
+    if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > 10000) {
+      this.sendError(res, 400, "InvalidArgument", "Part number must be between 1 and 10000");
+      return;
+    }
+
+    const chunks = [];
+
+    req.on("data", (chunk) => {
+      chunks.push(chunk);
+    });
+
+    req.on("end", () => {
+      const data = Buffer.concat(chunks);
+      const etag = `"${crypto.createHash("md5").update(data).digest("hex")}"`;
+
+      upload.parts.set(partNumber, {data, etag});
+
+      console.log(`✅ Uploaded part ${partNumber} of ${upload.key} (${data.length} bytes)`);
+
+      res.writeHead(200, {ETag: etag});
+      res.end();
+    });
+
+    req.on("error", (error) => {
+      console.error("Error reading request body:", error);
+      this.sendError(res, 400, "BadRequest", "Error reading request body");
+    });
+  }
+
+  handleCompleteMultipartUpload(req, res, objectKey, uploadId) {
+    const chunks = [];
+
+    req.on("data", (chunk) => {
+      chunks.push(chunk);
+    });
+
+    req.on("end", () => {
+      const upload = this.uploads.get(uploadId);
+      if (!upload || upload.key !== objectKey) {
+        this.sendError(res, 404, "NoSuchUpload", `Upload ${uploadId} does not exist`);
+        return;
+      }
+
+      // Parts listed in the CompleteMultipartUpload body, in order
+      const body = Buffer.concat(chunks).toString("utf8");
+      const requestedParts = Array.from(body.matchAll(/<Part>([\s\S]*?)<\/Part>/g)).map(
+        ([, part]) => ({
+          partNumber: Number(part.match(/<PartNumber>(\d+)<\/PartNumber>/)?.[1]),
+          etag: this.unescapeXml(part.match(/<ETag>([^<]+)<\/ETag>/)?.[1] || ""),
+        }),
+      );
+
+      if (requestedParts.length === 0) {
+        this.sendError(res, 400, "MalformedXML", "No parts specified");
+        return;
+      }
+
+      const buffers = [];
+      const partHashes = [];
+      let previousPartNumber = 0;
+
+      for (const requested of requestedParts) {
+        const part = upload.parts.get(requested.partNumber);
+        if (!part || part.etag !== requested.etag) {
+          this.sendError(res, 400, "InvalidPart", `Part ${requested.partNumber} is invalid`);
+          return;
+        }
+
+        if (requested.partNumber <= previousPartNumber) {
+          this.sendError(res, 400, "InvalidPartOrder", "Parts must be in ascending order");
+          return;
+        }
+
+        previousPartNumber = requested.partNumber;
+        buffers.push(part.data);
+        partHashes.push(Buffer.from(part.etag.replace(/"/g, ""), "hex"));
+      }
+
+      const data = Buffer.concat(buffers);
+      const combinedHash = crypto.createHash("md5").update(Buffer.concat(partHashes)).digest("hex");
+
+      const object = {
+        key: objectKey,
+        data,
+        contentType: upload.contentType,
+        size: data.length,
+        lastModified: new Date(),
+        etag: `"${combinedHash}-${requestedParts.length}"`,
+      };
+
+      this.objects.set(objectKey, object);
+      this.uploads.delete(uploadId);
+
+      console.log(`✅ Completed multipart upload: ${objectKey} (${data.length} bytes)`);
+
+      res.writeHead(200, {"Content-Type": "application/xml"});
+      res.end(`<?xml version="1.0" encoding="UTF-8"?>
+<CompleteMultipartUploadResult>
+    <Bucket>${this.bucketName}</Bucket>
+    <Key>${objectKey}</Key>
+    <ETag>${object.etag}</ETag>
+</CompleteMultipartUploadResult>`);
+    });
+
+    req.on("error", (error) => {
+      console.error("Error reading request body:", error);
+      this.sendError(res, 400, "BadRequest", "Error reading request body");
+    });
+  }
+
+  handleListParts(res, objectKey, uploadId, partNumberMarker, maxParts) {
+    const upload = this.uploads.get(uploadId);
+    if (!upload || upload.key !== objectKey) {
+      this.sendError(res, 404, "NoSuchUpload", `Upload ${uploadId} does not exist`);
+      return;
+    }
+
+    const partNumbers = Array.from(upload.parts.keys())
+      .filter((partNumber) => partNumber > partNumberMarker)
+      .sort((a, b) => a - b);
+    const page = partNumbers.slice(0, maxParts);
+    const isTruncated = partNumbers.length > page.length;
+
+    const partsXml = page
+      .map((partNumber) => {
+        const part = upload.parts.get(partNumber);
+        return `
+    <Part>
+        <PartNumber>${partNumber}</PartNumber>
+        <ETag>${part.etag}</ETag>
+        <Size>${part.data.length}</Size>
+    </Part>`;
+      })
+      .join("");
+
+    res.writeHead(200, {"Content-Type": "application/xml"});
+    res.end(`<?xml version="1.0" encoding="UTF-8"?>
+<ListPartsResult>
+    <Bucket>${this.bucketName}</Bucket>
+    <Key>${objectKey}</Key>
+    <UploadId>${uploadId}</UploadId>
+    <PartNumberMarker>${partNumberMarker}</PartNumberMarker>
+    <NextPartNumberMarker>${page[page.length - 1] || 0}</NextPartNumberMarker>
+    <MaxParts>${maxParts}</MaxParts>
+    <IsTruncated>${isTruncated}</IsTruncated>${partsXml}
+</ListPartsResult>`);
+  }
+
+  handleAbortMultipartUpload(req, res, uploadId) {
+    if (!this.uploads.has(uploadId)) {
+      this.sendError(res, 404, "NoSuchUpload", `Upload ${uploadId} does not exist`);
+      return;
+    }
+
+    this.uploads.delete(uploadId);
+    console.log(`🗑️  Aborted multipart upload: ${uploadId}`);
+
+    res.writeHead(204);
+    res.end();
+  }
+
+  escapeXml(value) {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+
+  unescapeXml(value) {
+    return value
+      .replace(/&quot;/g, '"')
+      .replace(/&#34;/g, '"')
+      .replace(/&amp;/g, "&");
+  }
+
   sendError(res, statusCode, code, message) {
     res.writeHead(statusCode, {"Content-Type": "application/xml"});
     res.end(`<?xml version="1.0" encoding="UTF-8"?>
@@ -0,0 +1,63 @@
+"use server";
+
+import {resetPasswordWithToken, sendPasswordResetEmail} from "@/lib/password-reset";
+import {z} from "zod";
+
+export type PasswordResetActionState = {ok: boolean; message?: string; error?: string};
+
+// Same response whether or not the email is registered
+const RESET_EMAIL_MESSAGE = "If an account exists with this email, a reset link has been sent.";
+
+const requestResetSchema = z.object({
+  email: z.email(),
+});
+
+const resetPasswordSchema = z
+  .object({
+    token: z.string().min(1, "Missing reset token"),
+    password: z.string().min(6, "Password must be at least 6 characters"),
+    confirmPassword: z.string(),
+  })
+  .refine((data) => data.password === data.confirmPassword, {
+    message: "Passwords do not match",
+  });
+
+/**
+ * Send a password reset link. Never reveals whether the email is registered.
+ */
+export async function requestPasswordResetEmail(email: string): Promise<PasswordResetActionState> {
+  const parsed = requestResetSchema.safeParse({email});
+  if (!parsed.success) {
+    return {ok: false, error: "Enter a valid email address"};
+  }
+
+  try {
+    await sendPasswordResetEmail(parsed.data.email);
+  } catch (error) {
+    // Reporting the failure would reveal that the account exists
+    console.error("Error sending password reset email:", error);
+  }
+
+  return {ok: true, message: RESET_EMAIL_MESSAGE};
+}
+
+/**
+ * Set a new password with a reset token. The page sends the user to login on success.
+ */
+export async function resetPassword(input: {
+  token: string;
+  password: string;
+  confirmPassword: string;
+}): Promise<PasswordResetActionState> {
+  const parsed = resetPasswordSchema.safeParse(input);
+  if (!parsed.success) {
+    return {ok: false, error: parsed.error.issues[0].message};
+  }
+
+  const result = await resetPasswordWithToken(parsed.data.token, parsed.data.password);
+  if (!result.ok) {
+    return {ok: false, error: result.error};
+  }
+
+  return {ok: true};
+}
@@ -1,5 +1,6 @@
 import {NextRequest, NextResponse} from "next/server";
-import {createUser} from "@/lib/auth";
+import {createUser} from "@/lib/users";
+import {sendVerificationEmail} from "@/lib/email-verification";
 
 export async function POST(request: NextRequest) {
   try {
@@ -13,7 +14,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({error: "Password must be at least 6 characters"}, {status: 400});
     }
 
-    const user = await createUser({
+    const result = await createUser({
       email: body.email,
       password: body.password,
       firstName: body.firstName || "",
@@ -21,6 +22,19 @@ export async function POST(request: NextRequest) {
       inviteCode: body.inviteCode,
     });
 
+    if (!result.ok) {
+      return NextResponse.json({error: result.error}, {status: 400});
+    }
+
+    const {user} = result;
+
+    // A failed send shouldn't fail registration; the user can request another email
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error("Error sending verification email:", mailError);
+    }
+
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     const {password, ...userWithoutPassword} = user;
 
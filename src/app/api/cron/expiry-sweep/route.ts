@@ -0,0 +1,23 @@
+import {NextRequest, NextResponse} from "next/server";
+import {verifyCronRequest} from "@/lib/cron-auth";
+import {runExpirySweep} from "@/lib/expiry-sweep";
+
+// GET /api/cron/expiry-sweep - Expire files past their expiration date and delete their objects
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({error: "Unauthorized"}, {status: 401});
+  }
+
+  try {
+    const report = await runExpirySweep();
+
+    console.log(
+      `Expiry sweep: ${report.expired} expired, ${report.deleted} deleted, ${report.failed.length} failed`,
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error running expiry sweep:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
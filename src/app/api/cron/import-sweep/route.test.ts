@@ -0,0 +1,73 @@
+import {GET} from "./route";
+import {NextRequest} from "next/server";
+import {runImportSweep} from "@/lib/import-sweep";
+
+// Mock the sweep itself; its behavior is covered in tests/lib/import-sweep.test.ts
+jest.mock("@/lib/import-sweep", () => ({
+  runImportSweep: jest.fn(),
+}));
+
+describe("GET /api/cron/import-sweep", () => {
+  const originalSecret = process.env.CRON_SECRET;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.CRON_SECRET = "test-cron-secret";
+    jest.spyOn(console, "log").mockImplementation(() => {});
+  });
+
+  afterAll(() => {
+    process.env.CRON_SECRET = originalSecret;
+  });
+
+  function createRequest(authorization?: string) {
+    return new NextRequest("http://localhost:3000/api/cron/import-sweep", {
+      headers: authorization ? {Authorization: authorization} : {},
+    });
+  }
+
+  it("should run the sweep and return its report", async () => {
+    const report = {jobsFailed: 2, filesReleased: 1, failed: []};
+    (runImportSweep as jest.Mock).mockResolvedValue(report);
+
+    const response = await GET(createRequest("Bearer test-cron-secret"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual(report);
+  });
+
+  it("should reject requests without the cron secret", async () => {
+    const response = await GET(createRequest());
+
+    expect(response.status).toBe(401);
+    expect(runImportSweep).not.toHaveBeenCalled();
+  });
+
+  it("should reject requests with the wrong cron secret", async () => {
+    const response = await GET(createRequest("Bearer wrong-secret"));
+
+    expect(response.status).toBe(401);
+    expect(runImportSweep).not.toHaveBeenCalled();
+  });
+
+  it("should stay closed when no cron secret is configured", async () => {
+    delete process.env.CRON_SECRET;
+
+    const response = await GET(createRequest("Bearer "));
+
+    expect(response.status).toBe(401);
+    expect(runImportSweep).not.toHaveBeenCalled();
+  });
+
+  it("should return 500 when the sweep fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    (runImportSweep as jest.Mock).mockRejectedValue(new Error("Database error"));
+
+    const response = await GET(createRequest("Bearer test-cron-secret"));
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe("Internal server error");
+  });
+});
@@ -0,0 +1,24 @@
+import {NextRequest, NextResponse} from "next/server";
+import {verifyCronRequest} from "@/lib/cron-auth";
+import {runImportSweep} from "@/lib/import-sweep";
+
+// GET /api/cron/import-sweep - Fail imports that stopped without finishing
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({error: "Unauthorized"}, {status: 401});
+  }
+
+  try {
+    const report = await runImportSweep();
+
+    console.log(
+      `Import sweep: ${report.jobsFailed} jobs failed, ${report.filesReleased} files released, ` +
+        `${report.failed.length} failed`,
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error running import sweep:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
@@ -0,0 +1,25 @@
+import {NextRequest, NextResponse} from "next/server";
+import {verifyCronRequest} from "@/lib/cron-auth";
+import {runOrphanSweep} from "@/lib/orphan-sweep";
+
+// GET /api/cron/orphan-sweep - Reconcile R2 objects with file rows
+export async function GET(request: NextRequest) {
+  if (!verifyCronRequest(request)) {
+    return NextResponse.json({error: "Unauthorized"}, {status: 401});
+  }
+
+  try {
+    const report = await runOrphanSweep();
+
+    console.log(
+      `Orphan sweep: ${report.scanned} scanned, ${report.orphansDeleted} orphans deleted, ` +
+        `${report.missingMarked} missing, ${report.reservedCleaned} reserved cleaned, ` +
+        `${report.failed.length} failed`,
+    );
+
+    return NextResponse.json(report);
+  } catch (error) {
+    console.error("Error running orphan sweep:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
@@ -0,0 +1,41 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {prisma} from "@/lib/prisma";
+
+// DELETE /api/v1/api-keys/:id - Revoke an API key
+export async function DELETE(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    // API keys can only be managed from a logged-in session
+    if (authResult.method !== "session") {
+      return NextResponse.json({error: "API keys cannot manage API keys"}, {status: 403});
+    }
+
+    // Find the key and verify ownership
+    const apiKey = await prisma.apiKey.findFirst({
+      where: {
+        id,
+        userId: authResult.userId,
+      },
+    });
+
+    if (!apiKey) {
+      return NextResponse.json({error: "API key not found"}, {status: 404});
+    }
+
+    await prisma.apiKey.delete({
+      where: {id},
+    });
+
+    return NextResponse.json({message: "API key deleted successfully"});
+  } catch (error) {
+    console.error("Error deleting API key:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
@@ -0,0 +1,268 @@
+import {GET, POST} from "./route";
+import {DELETE} from "./[id]/route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+import {hashApiKey} from "@/lib/api-auth";
+import {readDocumentedResponse} from "../../../../../tests/api-contract";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    apiKey: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-key-id",
+}));
+
+describe("/api/v1/api-keys", () => {
+  const mockApiKey = {
+    id: "test-key-id",
+    userId: "test-user-id",
+    label: "default-cli",
+    key: "hashed-key",
+    permissions: "all",
+    lastUsedAt: new Date("2025-01-02T00:00:00Z"),
+    expiresAt: null,
+    createdAt: new Date("2025-01-01T00:00:00Z"),
+    updatedAt: new Date("2025-01-01T00:00:00Z"),
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue({
+      user: {id: "test-user-id"},
+    });
+  });
+
+  describe("GET /api/v1/api-keys", () => {
+    it("should list the user's keys without the key hash", async () => {
+      (prisma.apiKey.findMany as jest.Mock).mockResolvedValue([mockApiKey]);
+
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys");
+
+      const response = await GET(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(200);
+      expect(prisma.apiKey.findMany).toHaveBeenCalledWith({
+        where: {userId: "test-user-id", AND: []},
+        orderBy: {createdAt: "desc"},
+      });
+      expect(data.apiKeys).toEqual([
+        {
+          id: "test-key-id",
+          label: "default-cli",
+          permissions: "all",
+          lastUsedAt: "2025-01-02T00:00:00.000Z",
+          expiresAt: null,
+          createdAt: "2025-01-01T00:00:00.000Z",
+          updatedAt: "2025-01-01T00:00:00.000Z",
+        },
+      ]);
+    });
+
+    it("should filter keys", async () => {
+      (prisma.apiKey.findMany as jest.Mock).mockResolvedValue([mockApiKey]);
+
+      const response = await GET(
+        new NextRequest("http://localhost:3000/api/v1/api-keys?filter~permissions=write,all"),
+      );
+
+      expect(response.status).toBe(200);
+      expect(prisma.apiKey.findMany).toHaveBeenCalledWith({
+        where: {userId: "test-user-id", AND: [{permissions: {in: ["write", "all"]}}]},
+        orderBy: {createdAt: "desc"},
+      });
+    });
+
+    it("should reject unknown filter fields", async () => {
+      const response = await GET(
+        new NextRequest("http://localhost:3000/api/v1/api-keys?filter~key=hulk_"),
+      );
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Unknown filter field "key"');
+      expect(prisma.apiKey.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject unauthenticated requests", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const auth = jest.mocked(require("@/lib/auth").auth);
+      auth.mockResolvedValue(null);
+
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys");
+
+      const response = await GET(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe("Unauthorized");
+    });
+
+    it("should reject requests authenticated with an API key", async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+        id: "test-key-id",
+        userId: "test-user-id",
+        permissions: "all",
+        expiresAt: null,
+      });
+
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys", {
+        headers: {Authorization: "Bearer hulk_test_key"},
+      });
+
+      const response = await GET(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(403);
+      expect(data.error).toBe("API keys cannot manage API keys");
+      expect(prisma.apiKey.findMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("POST /api/v1/api-keys", () => {
+    it("should create a key, store its hash and return the raw key once", async () => {
+      (prisma.apiKey.create as jest.Mock).mockImplementation(({data}) =>
+        Promise.resolve({...mockApiKey, ...data, lastUsedAt: null}),
+      );
+
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys", {
+        method: "POST",
+        body: JSON.stringify({label: "datasets-svc", permissions: "write"}),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(201);
+      expect(data.key).toMatch(/^hulk_/);
+      expect(data.label).toBe("datasets-svc");
+      expect(data.permissions).toBe("write");
+
+      const createCall = (prisma.apiKey.create as jest.Mock).mock.calls[0][0];
+      expect(createCall.data).toEqual({
+        id: "test-key-id",
+        userId: "test-user-id",
+        label: "datasets-svc",
+        key: hashApiKey(data.key),
+        permissions: "write",
+        expiresAt: null,
+      });
+    });
+
+    it("should default to read permission", async () => {
+      (prisma.apiKey.create as jest.Mock).mockImplementation(({data}) =>
+        Promise.resolve({...mockApiKey, ...data}),
+      );
+
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys", {
+        method: "POST",
+        body: JSON.stringify({label: "reader"}),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(201);
+      expect(data.permissions).toBe("read");
+    });
+
+    it("should accept a future expiration date", async () => {
+      const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000).toISOString();
+      (prisma.apiKey.create as jest.Mock).mockImplementation(({data}) =>
+        Promise.resolve({...mockApiKey, ...data}),
+      );
+
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys", {
+        method: "POST",
+        body: JSON.stringify({label: "temporary", permissions: "read", expiresAt}),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(201);
+      expect(data.expiresAt).toBe(expiresAt);
+    });
+
+    it("should reject a past expiration date", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys", {
+        method: "POST",
+        body: JSON.stringify({label: "stale", expiresAt: "2020-01-01T00:00:00Z"}),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Expiration date must be in the future");
+      expect(prisma.apiKey.create).not.toHaveBeenCalled();
+    });
+
+    it("should validate label and permissions", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys", {
+        method: "POST",
+        body: JSON.stringify({label: "", permissions: "admin"}),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+    });
+  });
+
+  describe("DELETE /api/v1/api-keys/:id", () => {
+    it("should revoke the user's key", async () => {
+      (prisma.apiKey.findFirst as jest.Mock).mockResolvedValue(mockApiKey);
+      (prisma.apiKey.delete as jest.Mock).mockResolvedValue(mockApiKey);
+
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys/test-key-id", {
+        method: "DELETE",
+      });
+
+      const response = await DELETE(request, {params: Promise.resolve({id: "test-key-id"})});
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe("API key deleted successfully");
+      expect(prisma.apiKey.findFirst).toHaveBeenCalledWith({
+        where: {id: "test-key-id", userId: "test-user-id"},
+      });
+      expect(prisma.apiKey.delete).toHaveBeenCalledWith({where: {id: "test-key-id"}});
+    });
+
+    it("should return 404 for keys owned by someone else", async () => {
+      (prisma.apiKey.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const request = new NextRequest("http://localhost:3000/api/v1/api-keys/other-key-id", {
+        method: "DELETE",
+      });
+
+      const response = await DELETE(request, {params: Promise.resolve({id: "other-key-id"})});
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe("API key not found");
+      expect(prisma.apiKey.delete).not.toHaveBeenCalled();
+    });
+  });
+});
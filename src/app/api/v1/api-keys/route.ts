@@ -0,0 +1,111 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest, generateApiKey, hashApiKey} from "@/lib/api-auth";
+import {prisma} from "@/lib/prisma";
+import {generateNanoId} from "@/lib/nanoid";
+import {buildFilterWhere, parseListFilters} from "@/lib/list-filters";
+import {apiKeyFilterFields, createApiKeySchema} from "@hulkastorus/sdk/contract";
+import type {Prisma} from "@prisma/client";
+import {z} from "zod";
+
+// GET /api/v1/api-keys - List the user's API keys
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    // API keys can only be managed from a logged-in session
+    if (authResult.method !== "session") {
+      return NextResponse.json({error: "API keys cannot manage API keys"}, {status: 403});
+    }
+
+    const filterResult = parseListFilters(new URL(request.url).searchParams, apiKeyFilterFields);
+    if (!filterResult.ok) {
+      return NextResponse.json({error: filterResult.error}, {status: 400});
+    }
+
+    const apiKeys = await prisma.apiKey.findMany({
+      where: {
+        userId: authResult.userId,
+        AND: buildFilterWhere<Prisma.ApiKeyWhereInput>(filterResult.filters),
+      },
+      orderBy: {createdAt: "desc"},
+    });
+
+    return NextResponse.json({
+      apiKeys: apiKeys.map((apiKey) => ({
+        id: apiKey.id,
+        label: apiKey.label,
+        permissions: apiKey.permissions,
+        lastUsedAt: apiKey.lastUsedAt?.toISOString() || null,
+        expiresAt: apiKey.expiresAt?.toISOString() || null,
+        createdAt: apiKey.createdAt.toISOString(),
+        updatedAt: apiKey.updatedAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error("Error listing API keys:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
+
+// POST /api/v1/api-keys - Create a new API key
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    // API keys can only be managed from a logged-in session
+    if (authResult.method !== "session") {
+      return NextResponse.json({error: "API keys cannot manage API keys"}, {status: 403});
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const {label, permissions, expiresAt} = createApiKeySchema.parse(body);
+
+    const expirationDate = expiresAt ? new Date(expiresAt) : null;
+    if (expirationDate && expirationDate <= new Date()) {
+      return NextResponse.json({error: "Expiration date must be in the future"}, {status: 400});
+    }
+
+    // The raw key is returned once and only its hash is stored
+    const rawKey = generateApiKey();
+
+    const apiKey = await prisma.apiKey.create({
+      data: {
+        id: generateNanoId(),
+        userId: authResult.userId,
+        label,
+        key: hashApiKey(rawKey),
+        permissions,
+        expiresAt: expirationDate,
+      },
+    });
+
+    return NextResponse.json(
+      {
+        id: apiKey.id,
+        label: apiKey.label,
+        key: rawKey,
+        permissions: apiKey.permissions,
+        lastUsedAt: null,
+        expiresAt: apiKey.expiresAt?.toISOString() || null,
+        createdAt: apiKey.createdAt.toISOString(),
+        updatedAt: apiKey.updatedAt.toISOString(),
+      },
+      {status: 201},
+    );
+  } catch (error) {
+    console.error("Error creating API key:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
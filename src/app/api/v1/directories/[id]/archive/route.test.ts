@@ -0,0 +1,238 @@
+import {GET} from "./route";
+import {NextRequest} from "next/server";
+import {gunzipSync} from "zlib";
+import bcrypt from "bcryptjs";
+import {prisma} from "@/lib/prisma";
+import {getR2Client} from "@/lib/r2-config";
+import {startMockR2Server, stopMockR2Server} from "../../../../../../../tests/mocks/r2-server";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    directory: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    file: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
+// Mock R2 config to use test server
+jest.mock("@/lib/r2-config", () => {
+  const originalModule = jest.requireActual("@/lib/r2-config");
+  return {
+    ...originalModule,
+    currentEnv: "test",
+    getR2Client: () => {
+      const {R2Client} = jest.requireActual("@/lib/r2-client");
+      return new R2Client({
+        endpoint: "http://localhost:9016",
+        accessKeyId: "test",
+        secretAccessKey: "test",
+        bucketName: "test-bucket",
+        region: "auto",
+      });
+    },
+  };
+});
+
+describe("GET /api/v1/directories/:id/archive", () => {
+  const mockDirectory = {
+    id: "test-dir-id",
+    userId: "test-user-id",
+    fullPath: "/datasets",
+    parentId: null,
+    defaultPermissions: "private",
+  };
+
+  const makeFile = (id: string, fullPath: string, permissions: string) => ({
+    id,
+    userId: "test-user-id",
+    directoryId: "test-dir-id",
+    fullPath,
+    filename: fullPath.split("/").pop(),
+    status: "validated",
+    permissions,
+    r2Locator: `test/infinite/test-user-id/${id}`,
+    accessPassword: null as string | null,
+    expiresAt: null,
+    updatedAt: new Date("2025-01-15T12:00:00Z"),
+  });
+
+  const publicFile = makeFile("public-file", "/datasets/train.csv", "public");
+  const privateFile = makeFile("private-file", "/datasets/raw/secret.csv", "private");
+
+  const archiveRequest = (query = "", headers: Record<string, string> = {}) =>
+    new NextRequest(`http://localhost:3000/api/v1/directories/test-dir-id/archive${query}`, {
+      headers,
+    });
+
+  const params = {params: Promise.resolve({id: "test-dir-id"})};
+
+  beforeAll(async () => {
+    await startMockR2Server(9016);
+
+    const r2Client = getR2Client();
+    for (const [fileId, body] of [
+      ["public-file", "a,b\n1,2\n"],
+      ["private-file", "top secret"],
+    ]) {
+      await r2Client.putObject({
+        env: "test",
+        lifecyclePolicy: "infinite",
+        userId: "test-user-id",
+        fileId,
+        body,
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await stopMockR2Server();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue({
+      user: {id: "test-user-id"},
+    });
+
+    (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
+    (prisma.directory.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([publicFile, privateFile]);
+  });
+
+  it("should stream every file under the directory to the owner as a zip", async () => {
+    const response = await GET(archiveRequest(), params);
+    const archive = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/zip");
+    expect(response.headers.get("Content-Disposition")).toContain('filename="datasets.zip"');
+    expect(archive.includes("datasets/train.csv")).toBe(true);
+    expect(archive.includes("datasets/raw/secret.csv")).toBe(true);
+    expect(archive.includes("top secret")).toBe(true);
+
+    expect(prisma.file.findMany).toHaveBeenCalledWith({
+      where: {userId: "test-user-id", status: "validated", fullPath: {startsWith: "/datasets/"}},
+      orderBy: {fullPath: "asc"},
+    });
+  });
+
+  it("should stream a tar.gz archive", async () => {
+    const response = await GET(archiveRequest("?format=tar.gz"), params);
+    const tar = gunzipSync(Buffer.from(await response.arrayBuffer()));
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Type")).toBe("application/gzip");
+    expect(response.headers.get("Content-Disposition")).toContain('filename="datasets.tar.gz"');
+    expect(tar.toString("utf8", 0, 18)).toBe("datasets/train.csv");
+    expect(tar.includes("a,b\n1,2\n")).toBe(true);
+  });
+
+  it("should reject unknown formats", async () => {
+    const response = await GET(archiveRequest("?format=rar"), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation error");
+  });
+
+  it("should only include public files for other users", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue({user: {id: "other-user-id"}});
+
+    const response = await GET(archiveRequest(), params);
+    const archive = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(archive.includes("datasets/train.csv")).toBe(true);
+    expect(archive.includes("secret.csv")).toBe(false);
+    expect(archive.includes("top secret")).toBe(false);
+  });
+
+  it("should hide directories without public files from other users", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue({user: {id: "other-user-id"}});
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([privateFile]);
+
+    const response = await GET(archiveRequest(), params);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("Directory not found");
+  });
+
+  it("should ask other users for the access password of protected files", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue({user: {id: "other-user-id"}});
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([
+      {...publicFile, accessPassword: bcrypt.hashSync("secret", 4)},
+    ]);
+
+    const response = await GET(archiveRequest(), params);
+    expect(response.status).toBe(401);
+    expect(response.headers.get("WWW-Authenticate")).toContain("Basic");
+
+    const unlocked = await GET(archiveRequest("", {"X-Access-Password": "secret"}), params);
+    expect(unlocked.status).toBe(200);
+  });
+
+  it("should check each directory password once for the whole archive", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue({user: {id: "other-user-id"}});
+    (prisma.directory.findMany as jest.Mock).mockImplementation(({where}) =>
+      where.accessPassword
+        ? [{fullPath: "/datasets", accessPassword: bcrypt.hashSync("secret", 4)}]
+        : [mockDirectory],
+    );
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([
+      publicFile,
+      makeFile("other-file", "/datasets/test.csv", "public"),
+    ]);
+    const compare = jest.spyOn(bcrypt, "compare");
+
+    const response = await GET(archiveRequest("", {"X-Access-Password": "secret"}), params);
+
+    expect(response.status).toBe(200);
+    expect(compare).toHaveBeenCalledTimes(1);
+    expect(prisma.directory.findUnique).toHaveBeenCalledTimes(1);
+    compare.mockRestore();
+  });
+
+  it("should return an empty archive for the owner's empty directory", async () => {
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([]);
+
+    const response = await GET(archiveRequest(), params);
+    const archive = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(archive.length).toBe(22);
+  });
+
+  it("should return 404 for missing directories", async () => {
+    (prisma.directory.findUnique as jest.Mock).mockResolvedValue(null);
+
+    const response = await GET(archiveRequest(), params);
+
+    expect(response.status).toBe(404);
+  });
+});
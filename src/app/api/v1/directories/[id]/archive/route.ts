@@ -0,0 +1,8 @@
+import {NextRequest} from "next/server";
+import {handleDirectoryArchiveRequest} from "@/lib/directory-archive";
+
+// GET /api/v1/directories/:id/archive - Download a directory as a zip or tar.gz archive
+export async function GET(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+  return handleDirectoryArchiveRequest(request, id);
+}
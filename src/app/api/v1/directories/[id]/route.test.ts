@@ -1,7 +1,9 @@
 import {GET, PUT, DELETE} from "./route";
 import {NextRequest} from "next/server";
+import bcrypt from "bcryptjs";
 import {prisma} from "@/lib/prisma";
 import {startMockR2Server, stopMockR2Server} from "../../../../../../tests/mocks/r2-server";
+import {readDocumentedResponse} from "../../../../../../tests/api-contract";
 
 // Mock Prisma
 jest.mock("@/lib/prisma", () => ({
@@ -24,6 +26,11 @@ jest.mock("@/lib/auth", () => ({
   auth: jest.fn(),
 }));
 
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
 // Mock R2 config to use test server
 jest.mock("@/lib/r2-config", () => {
   const originalModule = jest.requireActual("@/lib/r2-config");
@@ -82,11 +89,13 @@ describe("/api/v1/directories/:id", () => {
       {
         id: "child-1",
         fullPath: "/documents/projects",
+        defaultPermissions: "inherit",
         _count: {files: 1, children: 0},
       },
       {
         id: "child-2",
         fullPath: "/documents/archive",
+        defaultPermissions: "inherit",
         _count: {files: 2, children: 1},
       },
     ],
@@ -110,11 +119,11 @@ describe("/api/v1/directories/:id", () => {
 
   describe("GET /api/v1/directories/:id", () => {
     it("should return directory details with children and files", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id");
       const response = await GET(request, {params: Promise.resolve({id: "test-dir-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.id).toBe("test-dir-id");
@@ -125,12 +134,47 @@ describe("/api/v1/directories/:id", () => {
       expect(data.files).toHaveLength(1);
     });
 
+    it("should resolve inherited permissions for the directory and its contents", async () => {
+      const directory = {
+        ...mockDirectory,
+        parentId: "root-dir",
+        defaultPermissions: "inherit",
+        children: [
+          {...mockDirectory.children[0], defaultPermissions: "inherit"},
+          {...mockDirectory.children[1], defaultPermissions: "private"},
+        ],
+        files: [
+          {...mockDirectory.files[0], permissions: "inherit"},
+          {...mockDirectory.files[0], id: "file-2", permissions: "private"},
+        ],
+      };
+      (prisma.directory.findUnique as jest.Mock).mockImplementation(({where}) =>
+        where.id === "root-dir"
+          ? {id: "root-dir", parentId: null, defaultPermissions: "public"}
+          : directory,
+      );
+
+      const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id");
+      const response = await GET(request, {params: Promise.resolve({id: "test-dir-id"})});
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(200);
+      expect(data.defaultPermissions).toBe("inherit");
+      expect(data.effectivePermissions).toBe("public");
+      expect(
+        data.children.map((child: {effectivePermissions: string}) => child.effectivePermissions),
+      ).toEqual(["public", "private"]);
+      expect(
+        data.files.map((file: {effectivePermissions: string}) => file.effectivePermissions),
+      ).toEqual(["public", "private"]);
+    });
+
     it("should return 404 for non-existent directory", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/nonexistent");
       const response = await GET(request, {params: Promise.resolve({id: "nonexistent"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("Directory not found");
@@ -143,7 +187,7 @@ describe("/api/v1/directories/:id", () => {
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id");
       const response = await GET(request, {params: Promise.resolve({id: "test-dir-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(401);
       expect(data.error).toBe("Unauthorized");
@@ -152,7 +196,7 @@ describe("/api/v1/directories/:id", () => {
 
   describe("PUT /api/v1/directories/:id", () => {
     it("should update directory metadata", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
       (prisma.directory.update as jest.Mock).mockResolvedValue({
         ...mockDirectory,
         defaultPermissions: "public",
@@ -168,7 +212,7 @@ describe("/api/v1/directories/:id", () => {
       });
 
       const response = await PUT(request, {params: Promise.resolve({id: "test-dir-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.defaultPermissions).toBe("public");
@@ -185,10 +229,43 @@ describe("/api/v1/directories/:id", () => {
       );
     });
 
+    it("should set an access password for the directory", async () => {
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.update as jest.Mock).mockImplementation(({data}) => ({
+        ...mockDirectory,
+        ...data,
+      }));
+
+      const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id", {
+        method: "PUT",
+        body: JSON.stringify({accessPassword: "letmein"}),
+      });
+
+      const response = await PUT(request, {params: Promise.resolve({id: "test-dir-id"})});
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(200);
+      expect(data.hasAccessPassword).toBe(true);
+      expect(data.accessPassword).toBeUndefined();
+      const {accessPassword} = (prisma.directory.update as jest.Mock).mock.calls[0][0].data;
+      await expect(bcrypt.compare("letmein", accessPassword)).resolves.toBe(true);
+    });
+
+    it("should reject access passwords that are too short", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id", {
+        method: "PUT",
+        body: JSON.stringify({accessPassword: "abc"}),
+      });
+
+      const response = await PUT(request, {params: Promise.resolve({id: "test-dir-id"})});
+
+      expect(response.status).toBe(400);
+      expect(prisma.directory.update).not.toHaveBeenCalled();
+    });
+
     it("should rename directory and update child paths", async () => {
-      (prisma.directory.findFirst as jest.Mock)
-        .mockResolvedValueOnce(mockDirectory)
-        .mockResolvedValueOnce(null); // No existing directory at new path
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null); // No existing directory at new path
       (prisma.directory.update as jest.Mock).mockResolvedValue({
         ...mockDirectory,
         fullPath: "/archive",
@@ -202,7 +279,7 @@ describe("/api/v1/directories/:id", () => {
       });
 
       const response = await PUT(request, {params: Promise.resolve({id: "test-dir-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.fullPath).toBe("/archive");
@@ -217,9 +294,8 @@ describe("/api/v1/directories/:id", () => {
         id: "parent-dir",
         fullPath: "/documents/projects/2024",
       };
-      (prisma.directory.findFirst as jest.Mock)
-        .mockResolvedValueOnce(mockDirectory)
-        .mockResolvedValueOnce(parentDir);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(parentDir);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id", {
         method: "PUT",
@@ -229,14 +305,14 @@ describe("/api/v1/directories/:id", () => {
       });
 
       const response = await PUT(request, {params: Promise.resolve({id: "test-dir-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(400);
       expect(data.error).toBe("Cannot move directory into its own subdirectory");
     });
 
     it("should return 404 for non-existent directory", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/nonexistent", {
         method: "PUT",
@@ -246,7 +322,7 @@ describe("/api/v1/directories/:id", () => {
       });
 
       const response = await PUT(request, {params: Promise.resolve({id: "nonexistent"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("Directory not found");
@@ -263,7 +339,7 @@ describe("/api/v1/directories/:id", () => {
           children: 0,
         },
       };
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(emptyDirectory);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(emptyDirectory);
       (prisma.directory.delete as jest.Mock).mockResolvedValue(emptyDirectory);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id", {
@@ -271,7 +347,7 @@ describe("/api/v1/directories/:id", () => {
       });
 
       const response = await DELETE(request, {params: Promise.resolve({id: "test-dir-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.message).toBe("Directory deleted successfully");
@@ -283,7 +359,7 @@ describe("/api/v1/directories/:id", () => {
     });
 
     it("should delete directory with files", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue({
         ...mockDirectory,
         _count: {
           files: 3,
@@ -309,7 +385,7 @@ describe("/api/v1/directories/:id", () => {
       });
 
       const response = await DELETE(request, {params: Promise.resolve({id: "test-dir-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.message).toBe("Directory deleted successfully");
@@ -321,14 +397,14 @@ describe("/api/v1/directories/:id", () => {
     });
 
     it("should not delete directory with subdirectories", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id", {
         method: "DELETE",
       });
 
       const response = await DELETE(request, {params: Promise.resolve({id: "test-dir-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(400);
       expect(data.error).toBe("Directory is not empty");
@@ -336,14 +412,14 @@ describe("/api/v1/directories/:id", () => {
     });
 
     it("should return 404 for non-existent directory", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/nonexistent", {
         method: "DELETE",
       });
 
       const response = await DELETE(request, {params: Promise.resolve({id: "nonexistent"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("Directory not found");
@@ -359,7 +435,7 @@ describe("/api/v1/directories/:id", () => {
       });
 
       const response = await DELETE(request, {params: Promise.resolve({id: "test-dir-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(401);
       expect(data.error).toBe("Unauthorized");
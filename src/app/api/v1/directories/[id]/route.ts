@@ -1,36 +1,25 @@
 import {NextRequest, NextResponse} from "next/server";
-import {auth} from "@/lib/auth";
+import {authenticateRequest} from "@/lib/api-auth";
 import {prisma} from "@/lib/prisma";
 import {getR2Client} from "@/lib/r2-config";
+import {hashAccessPassword} from "@/lib/access-passwords";
+import {applyInheritedPermissions, resolveDirectoryPermissions} from "@/lib/permissions";
+import {authorizeDirectoryAccess, logAccessDenied} from "@/lib/access-policy";
+import {updateDirectorySchema} from "@hulkastorus/sdk/contract";
 import {z} from "zod";
 
-// Schema for updating directory
-const updateDirectorySchema = z.object({
-  fullPath: z.string().min(1).max(1000).optional(),
-  parentId: z.string().nullable().optional(),
-  defaultPermissions: z.enum(["public", "private", "inherit"]).optional(),
-  defaultExpirationPolicy: z.enum(["1d", "7d", "30d", "90d", "1y", "infinite"]).optional(),
-});
-
 // GET /api/v1/directories/:id - Get directory details
 export async function GET(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
   const {id} = await params;
 
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userId = (session as any).user.id;
-
-    // Get directory with stats
-    const directory = await prisma.directory.findFirst({
-      where: {
-        id,
-        userId,
-      },
+
+    const record = await prisma.directory.findUnique({
+      where: {id},
       include: {
         _count: {
           select: {
@@ -49,6 +38,7 @@ export async function GET(request: NextRequest, {params}: {params: Promise<{id:
           select: {
             id: true,
             fullPath: true,
+            defaultPermissions: true,
             _count: {
               select: {
                 files: true,
@@ -82,9 +72,16 @@ export async function GET(request: NextRequest, {params}: {params: Promise<{id:
       },
     });
 
-    if (!directory) {
+    const access = authorizeDirectoryAccess(record, {auth: authResult});
+
+    if (!access.ok) {
+      logAccessDenied("directory", id, access.reason);
       return NextResponse.json({error: "Directory not found"}, {status: 404});
     }
+    const directory = access.resource;
+
+    // What files and subdirectories set to "inherit" get from this directory
+    const effectivePermissions = await resolveDirectoryPermissions(directory);
 
     // Transform the response
     return NextResponse.json({
@@ -93,7 +90,9 @@ export async function GET(request: NextRequest, {params}: {params: Promise<{id:
       parentId: directory.parentId,
       parent: directory.parent,
       defaultPermissions: directory.defaultPermissions,
+      effectivePermissions,
       defaultExpirationPolicy: directory.defaultExpirationPolicy,
+      hasAccessPassword: !!directory.accessPassword,
       fileCount: directory._count.files,
       subdirectoryCount: directory._count.children,
       createdAt: directory.createdAt.toISOString(),
@@ -102,6 +101,11 @@ export async function GET(request: NextRequest, {params}: {params: Promise<{id:
       children: directory.children.map((child) => ({
         id: child.id,
         fullPath: child.fullPath,
+        defaultPermissions: child.defaultPermissions,
+        effectivePermissions: applyInheritedPermissions(
+          child.defaultPermissions,
+          effectivePermissions,
+        ),
         fileCount: child._count.files,
         subdirectoryCount: child._count.children,
       })),
@@ -112,6 +116,7 @@ export async function GET(request: NextRequest, {params}: {params: Promise<{id:
         mimeType: file.mimeType,
         sizeBytes: file.sizeBytes ? Number(file.sizeBytes) : null,
         permissions: file.permissions,
+        effectivePermissions: applyInheritedPermissions(file.permissions, effectivePermissions),
         status: file.status,
         expirationPolicy: file.expirationPolicy,
         expiresAt: file.expiresAt?.toISOString() || null,
@@ -130,33 +135,31 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
   const {id} = await params;
 
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userId = (session as any).user.id;
+    const userId = authResult.userId;
 
     // Parse and validate request body
     const body = await request.json();
     const validatedData = updateDirectorySchema.parse(body);
 
-    // Find the directory and verify ownership
-    const directory = await prisma.directory.findFirst({
-      where: {
-        id,
-        userId,
-      },
+    const record = await prisma.directory.findUnique({
+      where: {id},
       include: {
         files: true,
         children: true,
       },
     });
 
-    if (!directory) {
+    const access = authorizeDirectoryAccess(record, {auth: authResult});
+
+    if (!access.ok) {
+      logAccessDenied("directory", id, access.reason);
       return NextResponse.json({error: "Directory not found"}, {status: 404});
     }
+    const directory = access.resource;
 
     // Build update data
     const updateData: {
@@ -164,6 +167,7 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
       defaultExpirationPolicy?: string;
       fullPath?: string;
       parentId?: string | null;
+      accessPassword?: string | null;
     } = {};
 
     if (validatedData.defaultPermissions !== undefined) {
@@ -174,6 +178,12 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
       updateData.defaultExpirationPolicy = validatedData.defaultExpirationPolicy;
     }
 
+    if (validatedData.accessPassword !== undefined) {
+      updateData.accessPassword = validatedData.accessPassword
+        ? await hashAccessPassword(validatedData.accessPassword)
+        : null;
+    }
+
     // Handle path change (rename or move)
     if (validatedData.fullPath !== undefined && validatedData.fullPath !== directory.fullPath) {
       const newPath = validatedData.fullPath.startsWith("/")
@@ -278,7 +288,9 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
       fullPath: updatedDirectory.fullPath,
       parentId: updatedDirectory.parentId,
       defaultPermissions: updatedDirectory.defaultPermissions,
+      effectivePermissions: await resolveDirectoryPermissions(updatedDirectory),
       defaultExpirationPolicy: updatedDirectory.defaultExpirationPolicy,
+      hasAccessPassword: !!updatedDirectory.accessPassword,
       fileCount: updatedDirectory._count.files,
       subdirectoryCount: updatedDirectory._count.children,
       createdAt: updatedDirectory.createdAt.toISOString(),
@@ -300,20 +312,13 @@ export async function DELETE(request: NextRequest, {params}: {params: Promise<{i
   const {id} = await params;
 
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userId = (session as any).user.id;
-
-    // Find the directory and verify ownership
-    const directory = await prisma.directory.findFirst({
-      where: {
-        id,
-        userId,
-      },
+
+    const record = await prisma.directory.findUnique({
+      where: {id},
       include: {
         files: {
           select: {
@@ -330,9 +335,13 @@ export async function DELETE(request: NextRequest, {params}: {params: Promise<{i
       },
     });
 
-    if (!directory) {
+    const access = authorizeDirectoryAccess(record, {auth: authResult});
+
+    if (!access.ok) {
+      logAccessDenied("directory", id, access.reason);
       return NextResponse.json({error: "Directory not found"}, {status: 404});
     }
+    const directory = access.resource;
 
     // Check if directory is empty (no subdirectories)
     if (directory._count.children > 0) {
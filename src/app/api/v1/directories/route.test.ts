@@ -1,6 +1,7 @@
 import {POST, GET} from "./route";
 import {NextRequest} from "next/server";
 import {prisma} from "@/lib/prisma";
+import {readDocumentedResponse} from "../../../../../tests/api-contract";
 
 // Mock Prisma
 jest.mock("@/lib/prisma", () => ({
@@ -59,7 +60,7 @@ describe("/api/v1/directories", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(201);
       expect(data.id).toBe("test-dir-id");
@@ -103,13 +104,34 @@ describe("/api/v1/directories", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(201);
       expect(data.fullPath).toBe("/projects/2024/december");
       expect(prisma.directory.upsert).toHaveBeenCalledTimes(3);
     });
 
+    it("should create intermediate directories that inherit from their parent", async () => {
+      (prisma.directory.upsert as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue({
+        ...mockDirectory,
+        fullPath: "/projects/2024",
+        defaultPermissions: "public",
+      });
+
+      const request = new NextRequest("http://localhost:3000/api/v1/directories", {
+        method: "POST",
+        body: JSON.stringify({fullPath: "/projects/2024", defaultPermissions: "public"}),
+      });
+
+      await POST(request);
+
+      const creates = (prisma.directory.upsert as jest.Mock).mock.calls.map(
+        ([args]) => args.create.defaultPermissions,
+      );
+      expect(creates).toEqual(["inherit", "public"]);
+    });
+
     it("should return 401 for unauthorized requests", async () => {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const auth = jest.mocked(require("@/lib/auth").auth);
@@ -123,7 +145,7 @@ describe("/api/v1/directories", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(401);
       expect(data.error).toBe("Unauthorized");
@@ -138,7 +160,7 @@ describe("/api/v1/directories", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(400);
       expect(data.error).toBe("Validation error");
@@ -157,13 +179,39 @@ describe("/api/v1/directories", () => {
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories");
       const response = await GET(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.directories).toHaveLength(3);
       expect(data.total).toBe(3);
     });
 
+    it("should resolve inherited permissions against the whole tree", async () => {
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        {...mockDirectory, id: "root-dir", fullPath: "/", defaultPermissions: "public"},
+        {...mockDirectory, parentId: "root-dir", defaultPermissions: "inherit"},
+        {
+          ...mockDirectory,
+          id: "dir-2",
+          fullPath: "/documents/private",
+          parentId: "test-dir-id",
+          defaultPermissions: "private",
+        },
+      ]);
+
+      const request = new NextRequest("http://localhost:3000/api/v1/directories");
+      const response = await GET(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(
+        data.directories.map((dir: {effectivePermissions: string}) => dir.effectivePermissions),
+      ).toEqual(["public", "public", "private"]);
+      expect(prisma.directory.findMany).toHaveBeenCalledWith({
+        where: {userId: "test-user-id"},
+        select: {id: true, parentId: true, defaultPermissions: true},
+      });
+    });
+
     it("should filter directories by parent", async () => {
       (prisma.directory.findMany as jest.Mock).mockResolvedValue([mockDirectory]);
 
@@ -200,6 +248,88 @@ describe("/api/v1/directories", () => {
       );
     });
 
+    it("should apply filter~ parameters", async () => {
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([mockDirectory]);
+
+      const request = new NextRequest(
+        "http://localhost:3000/api/v1/directories?filter~fullPath=/documents/*&filter~defaultPermissions=public",
+      );
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      expect(prisma.directory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "test-user-id",
+            AND: [
+              {fullPath: {startsWith: "/documents/"}},
+              {defaultPermissions: {equals: "public"}},
+            ],
+          },
+        }),
+      );
+    });
+
+    it("should page children by cursor in path order", async () => {
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        {...mockDirectory, id: "dir-a", fullPath: "/a"},
+        {...mockDirectory, id: "dir-b", fullPath: "/b"},
+      ]);
+
+      const first = await GET(
+        new NextRequest(
+          "http://localhost:3000/api/v1/directories?filter~parent.fullPath=/&limit=1&cursor=",
+        ),
+      );
+      const page = await first.json();
+
+      expect(first.status).toBe(200);
+      expect(page.directories.map((dir: {id: string}) => dir.id)).toEqual(["dir-a"]);
+      expect(page.total).toBeUndefined();
+      expect(prisma.directory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {userId: "test-user-id", AND: [{parent: {fullPath: {equals: "/"}}}]},
+          orderBy: [{fullPath: "asc"}, {id: "asc"}],
+          take: 2,
+        }),
+      );
+
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        {...mockDirectory, id: "dir-b", fullPath: "/b"},
+      ]);
+      const second = await GET(
+        new NextRequest(
+          `http://localhost:3000/api/v1/directories?limit=1&cursor=${page.nextCursor}`,
+        ),
+      );
+
+      expect(await second.json()).toMatchObject({directories: [{id: "dir-b"}], nextCursor: null});
+      expect(prisma.directory.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "test-user-id",
+            AND: [{OR: [{fullPath: {gt: "/a"}}, {fullPath: "/a", id: {gt: "dir-a"}}]}],
+          },
+        }),
+      );
+    });
+
+    it("should reject invalid cursors", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/directories?cursor=abc");
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe("Invalid cursor");
+    });
+
+    it("should reject unknown filter fields", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/directories?filter~name=docs");
+      const response = await GET(request);
+
+      expect(response.status).toBe(400);
+      expect((await response.json()).error).toBe('Unknown filter field "name"');
+    });
+
     it("should get recursive directories", async () => {
       (prisma.directory.findMany as jest.Mock).mockResolvedValue([
         mockDirectory,
@@ -232,7 +362,7 @@ describe("/api/v1/directories", () => {
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories");
       const response = await GET(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(401);
       expect(data.error).toBe("Unauthorized");
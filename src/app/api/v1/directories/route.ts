@@ -1,33 +1,31 @@
 import {NextRequest, NextResponse} from "next/server";
-import {auth} from "@/lib/auth";
+import {authenticateRequest} from "@/lib/api-auth";
 import {prisma} from "@/lib/prisma";
+import {getDirectoryPermissions, resolveDirectoryPermissions} from "@/lib/permissions";
+import {buildFilterWhere, parseListFilters} from "@/lib/list-filters";
+import {
+  cursorOrderBy,
+  cursorWhere,
+  type CursorSort,
+  decodeListCursor,
+  encodeListCursor,
+} from "@/lib/cursor";
+import {
+  createDirectorySchema,
+  directoryFilterFields,
+  listDirectoriesSchema,
+} from "@hulkastorus/sdk/contract";
+import type {Prisma} from "@prisma/client";
 import {z} from "zod";
 
-// Schema for creating directories
-const createDirectorySchema = z.object({
-  fullPath: z.string().min(1).max(1000),
-  parentId: z.string().optional(),
-  defaultPermissions: z.enum(["public", "private", "inherit"]).default("private"),
-  defaultExpirationPolicy: z.enum(["1d", "7d", "30d", "90d", "1y", "infinite"]).default("infinite"),
-});
-
-// Schema for listing directories
-const listDirectoriesSchema = z.object({
-  parentId: z.string().optional(),
-  path: z.string().optional(),
-  recursive: z.coerce.boolean().default(false),
-});
-
 // POST /api/v1/directories - Create a new directory
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userId = (session as any).user.id;
+    const userId = authResult.userId;
 
     // Parse and validate request body
     const body = await request.json();
@@ -72,7 +70,8 @@ export async function POST(request: NextRequest) {
           userId,
           fullPath: currentPath,
           parentId: currentParentId,
-          defaultPermissions: currentPath === normalizedPath ? defaultPermissions : "private",
+          // Directories created along the way follow their parent
+          defaultPermissions: currentPath === normalizedPath ? defaultPermissions : "inherit",
           defaultExpirationPolicy:
             currentPath === normalizedPath ? defaultExpirationPolicy : "infinite",
           // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -106,6 +105,7 @@ export async function POST(request: NextRequest) {
         fullPath: directoryWithStats!.fullPath,
         parentId: directoryWithStats!.parentId,
         defaultPermissions: directoryWithStats!.defaultPermissions,
+        effectivePermissions: await resolveDirectoryPermissions(directoryWithStats!),
         defaultExpirationPolicy: directoryWithStats!.defaultExpirationPolicy,
         fileCount: directoryWithStats!._count.files,
         subdirectoryCount: directoryWithStats!._count.children,
@@ -125,16 +125,17 @@ export async function POST(request: NextRequest) {
   }
 }
 
+// Cursor pages run in path order; paths are unique per user, so id never decides
+const DIRECTORY_SORT: CursorSort = {field: "fullPath", direction: "asc", type: "text"};
+
 // GET /api/v1/directories - List directories
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userId = (session as any).user.id;
+    const userId = authResult.userId;
 
     // Parse query parameters
     const {searchParams} = new URL(request.url);
@@ -142,16 +143,31 @@ export async function GET(request: NextRequest) {
       parentId: searchParams.get("parentId") || undefined,
       path: searchParams.get("path") || undefined,
       recursive: searchParams.get("recursive") === "true",
+      limit: searchParams.get("limit") ?? undefined,
+      cursor: searchParams.get("cursor") ?? undefined,
     };
 
     const validatedParams = listDirectoriesSchema.parse(params);
 
+    // Any cursor, even an empty one for the first page, pages by cursor
+    const {cursor, limit} = validatedParams;
+    const after = cursor ? decodeListCursor(cursor, DIRECTORY_SORT) : null;
+    if (cursor && !after) {
+      return NextResponse.json({error: "Invalid cursor"}, {status: 400});
+    }
+
+    const filterResult = parseListFilters(searchParams, directoryFilterFields);
+    if (!filterResult.ok) {
+      return NextResponse.json({error: filterResult.error}, {status: 400});
+    }
+
     // Build query conditions
-    const where: {
-      userId: string;
-      parentId?: string;
-      fullPath?: string | {startsWith: string};
-    } = {userId};
+    const conditions = buildFilterWhere<Prisma.DirectoryWhereInput>(filterResult.filters);
+    if (after) {
+      conditions.push(cursorWhere(DIRECTORY_SORT, after));
+    }
+
+    const where: Prisma.DirectoryWhereInput = {userId, AND: conditions};
 
     if (validatedParams.parentId !== undefined) {
       where.parentId = validatedParams.parentId;
@@ -171,8 +187,8 @@ export async function GET(request: NextRequest) {
       }
     }
 
-    // Get directories with stats
-    const directories = await prisma.directory.findMany({
+    // Get directories with stats; one extra row on cursor pages says whether there's more
+    const rows = await prisma.directory.findMany({
       where,
       include: {
         _count: {
@@ -188,10 +204,13 @@ export async function GET(request: NextRequest) {
           },
         },
       },
-      orderBy: {
-        fullPath: "asc",
-      },
+      orderBy: cursor !== undefined ? cursorOrderBy(DIRECTORY_SORT) : {fullPath: "asc"},
+      take: cursor !== undefined ? limit + 1 : undefined,
     });
+    const directories = cursor !== undefined ? rows.slice(0, limit) : rows;
+
+    // Resolve "inherit" against the user's whole tree, not just the listed directories
+    const directoryPermissions = await getDirectoryPermissions(userId);
 
     // Transform the results
     const transformedDirectories = directories.map((dir) => ({
@@ -200,6 +219,7 @@ export async function GET(request: NextRequest) {
       parentId: dir.parentId,
       parent: dir.parent,
       defaultPermissions: dir.defaultPermissions,
+      effectivePermissions: directoryPermissions.get(dir.id) ?? "private",
       defaultExpirationPolicy: dir.defaultExpirationPolicy,
       fileCount: dir._count.files,
       subdirectoryCount: dir._count.children,
@@ -207,6 +227,16 @@ export async function GET(request: NextRequest) {
       updatedAt: dir.updatedAt.toISOString(),
     }));
 
+    if (cursor !== undefined) {
+      return NextResponse.json({
+        directories: transformedDirectories,
+        nextCursor:
+          rows.length > limit
+            ? encodeListCursor(DIRECTORY_SORT, directories[directories.length - 1])
+            : null,
+      });
+    }
+
     return NextResponse.json({
       directories: transformedDirectories,
       total: transformedDirectories.length,
@@ -1,7 +1,10 @@
 import {GET} from "./route";
 import {NextRequest} from "next/server";
+import bcrypt from "bcryptjs";
 import {prisma} from "@/lib/prisma";
+import {signJwt} from "@/lib/jwt";
 import {startMockR2Server, stopMockR2Server} from "../../../../../../../tests/mocks/r2-server";
+import {readDocumentedResponse} from "../../../../../../../tests/api-contract";
 
 // Mock Prisma
 jest.mock("@/lib/prisma", () => ({
@@ -9,6 +12,17 @@ jest.mock("@/lib/prisma", () => ({
     file: {
       findUnique: jest.fn(),
     },
+    directory: {
+      findMany: jest.fn(),
+    },
+    shareToken: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    apiKey: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
   },
 }));
 
@@ -17,9 +31,9 @@ jest.mock("@/lib/auth", () => ({
   auth: jest.fn(),
 }));
 
-// Mock next-auth/jwt
-jest.mock("next-auth/jwt", () => ({
-  getToken: jest.fn(),
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
 }));
 
 // Mock R2 config to use test server
@@ -55,6 +69,7 @@ describe("GET /api/v1/files/:id/download", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (prisma.directory.findMany as jest.Mock).mockResolvedValue([]);
   });
 
   const mockPublicFile = {
@@ -139,12 +154,41 @@ describe("GET /api/v1/files/:id/download", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download");
 
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("File not found");
     });
 
+    it("should redirect to download URL for the owner's API key", async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+        id: "test-key-id",
+        userId: "file-owner-id",
+        permissions: "read",
+      });
+
+      const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download", {
+        headers: {Authorization: "Bearer hulk_test_key"},
+      });
+
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(307); // Redirect
+      expect(prisma.apiKey.update).toHaveBeenCalled();
+    });
+
+    it("should reject access for an unknown API key", async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download", {
+        headers: {Authorization: "Bearer hulk_unknown_key"},
+      });
+
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(404);
+    });
+
     it("should reject access for unauthenticated users", async () => {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const auth = jest.mocked(require("@/lib/auth").auth);
@@ -153,7 +197,7 @@ describe("GET /api/v1/files/:id/download", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download");
 
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("File not found");
@@ -167,7 +211,7 @@ describe("GET /api/v1/files/:id/download", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files/nonexistent/download");
 
       const response = await GET(request, {params: Promise.resolve({id: "nonexistent"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("File not found");
@@ -179,7 +223,7 @@ describe("GET /api/v1/files/:id/download", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download");
 
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("File not found");
@@ -194,7 +238,7 @@ describe("GET /api/v1/files/:id/download", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download");
 
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("File not found");
@@ -215,7 +259,7 @@ describe("GET /api/v1/files/:id/download", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download");
 
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(500);
       expect(data.error).toBe("File not available");
@@ -236,34 +280,151 @@ describe("GET /api/v1/files/:id/download", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download");
 
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(500);
       expect(data.error).toBe("Invalid file locator");
     });
   });
 
-  describe("Download tokens", () => {
-    it("should handle download token parameter", async () => {
-      // Mock auth to return no session (needed for getToken to be called)
+  describe("Share tokens", () => {
+    const shareToken = {
+      id: "share-id",
+      userId: "file-owner-id",
+      fileId: "test-file-id",
+      directoryId: null,
+      maxDownloads: null,
+      downloadCount: 0,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      directory: null,
+    };
+
+    function tokenFor(sub = "file-owner-id") {
+      return signJwt({sub, sid: "share-id", purpose: "share"}, 3600);
+    }
+
+    beforeEach(() => {
+      process.env.NEXTAUTH_SECRET = "test-secret";
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const auth = jest.mocked(require("@/lib/auth").auth);
       auth.mockResolvedValue(null);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockPrivateFile);
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue(shareToken);
+      (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 1});
+    });
 
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const getToken = jest.mocked(require("next-auth/jwt").getToken);
-      getToken.mockResolvedValue(null);
+    it("should redirect to download URL for a valid share token", async () => {
+      const request = new NextRequest(
+        `http://localhost:3000/api/v1/files/test-file-id/download?token=${tokenFor()}`,
+      );
 
-      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockPublicFile);
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(307);
+      expect(prisma.shareToken.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({data: {downloadCount: {increment: 1}}}),
+      );
+    });
+
+    it("should reject revoked share tokens", async () => {
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue({
+        ...shareToken,
+        revokedAt: new Date(),
+      });
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/v1/files/test-file-id/download?token=${tokenFor()}`,
+      );
+
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should reject share tokens once the download cap is reached", async () => {
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue({
+        ...shareToken,
+        maxDownloads: 1,
+        downloadCount: 1,
+      });
+      (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 0});
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/v1/files/test-file-id/download?token=${tokenFor()}`,
+      );
+
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should reject share tokens issued by another user", async () => {
+      const request = new NextRequest(
+        `http://localhost:3000/api/v1/files/test-file-id/download?token=${tokenFor("different-user-id")}`,
+      );
+
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
 
+      expect(response.status).toBe(404);
+      expect(prisma.shareToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject malformed share tokens", async () => {
       const request = new NextRequest(
         "http://localhost:3000/api/v1/files/test-file-id/download?token=some-token",
       );
 
-      await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(404);
+      expect(prisma.shareToken.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should not spend share tokens on public files", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockPublicFile);
+
+      const request = new NextRequest(
+        `http://localhost:3000/api/v1/files/test-file-id/download?token=${tokenFor()}`,
+      );
+
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(307);
+      expect(prisma.shareToken.updateMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("Access passwords", () => {
+    const mockProtectedFile = {
+      ...mockPublicFile,
+      accessPassword: bcrypt.hashSync("letmein", 4),
+    };
+
+    beforeEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const auth = jest.mocked(require("@/lib/auth").auth);
+      auth.mockResolvedValue(null);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockProtectedFile);
+    });
+
+    it("should require the password for protected public files", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download");
+
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("WWW-Authenticate")).toContain("Basic");
+    });
+
+    it("should download with the X-Access-Password header", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download", {
+        headers: {"X-Access-Password": "letmein"},
+      });
 
-      // Just verify getToken was called at all
-      expect(getToken).toHaveBeenCalled();
+      const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(307);
     });
   });
 
@@ -289,7 +450,7 @@ describe("GET /api/v1/files/:id/download", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/download");
 
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(500);
       expect(data.error).toBe("Internal server error");
@@ -1,113 +1,47 @@
 import {NextRequest, NextResponse} from "next/server";
-import {auth} from "@/lib/auth";
+import {authenticateRequest} from "@/lib/api-auth";
 import {prisma} from "@/lib/prisma";
 import {getR2Client} from "@/lib/r2-config";
-import {getToken} from "next-auth/jwt";
-
-// Helper function to check file access permissions
-async function checkFileAccess(
-  fileId: string,
-  userId?: string,
-): Promise<{
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  file: any;
-  hasAccess: boolean;
-}> {
-  const file = await prisma.file.findUnique({
-    where: {id: fileId},
-    include: {
-      user: {
-        select: {id: true},
-      },
-    },
-  });
-
-  if (!file) {
-    return {file: null, hasAccess: false};
-  }
-
-  // File must be validated to be downloadable
-  if (file.status !== "validated") {
-    return {file, hasAccess: false};
-  }
-
-  // Check if file has expired
-  if (file.expiresAt && file.expiresAt < new Date()) {
-    return {file, hasAccess: false};
-  }
-
-  // Public files are accessible to everyone
-  if (file.permissions === "public") {
-    return {file, hasAccess: true};
-  }
-
-  // Private files require authentication and ownership
-  if (file.permissions === "private") {
-    if (!userId) {
-      return {file, hasAccess: false};
-    }
-
-    // Owner has access
-    if (file.userId === userId) {
-      return {file, hasAccess: true};
-    }
-
-    // TODO: Check API key permissions when implemented
-    // For now, only owner has access
-    return {file, hasAccess: false};
-  }
-
-  return {file, hasAccess: false};
-}
+import {getProvidedAccessPassword} from "@/lib/access-passwords";
+import {authorizeFileAccess, isPasswordDenial, logAccessDenied} from "@/lib/access-policy";
 
 export async function GET(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
   try {
     const {id} = await params;
     const {searchParams} = new URL(request.url);
-    const downloadToken = searchParams.get("token");
+    const shareToken = searchParams.get("token") || undefined;
 
-    // Try to get user from NextAuth session
-    let userId: string | undefined;
-    try {
-      const session = await auth();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      userId = (session as any)?.user?.id;
-    } catch {
-      // Continue without session
-    }
+    // Sessions and API keys are optional: public files and share tokens work without them
+    const authResult = await authenticateRequest(request, "read").catch(() => null);
 
-    // If no session, try to get user from JWT token
-    if (!userId && downloadToken) {
-      try {
-        await getToken({
-          req: request,
-          secret: process.env.NEXTAUTH_SECRET,
-          raw: true,
-        });
-        // TODO: Parse custom download token if different from NextAuth JWT
-      } catch {
-        // Continue without token
-      }
-    }
-
-    // TODO: Check API key in Authorization header
-    // const authHeader = request.headers.get("authorization");
-    // if (authHeader?.startsWith("Bearer ")) {
-    //   const apiKey = authHeader.slice(7);
-    //   // Look up API key and get user
-    // }
-
-    // Check file access
-    const {file, hasAccess} = await checkFileAccess(id, userId);
+    const accessPassword = getProvidedAccessPassword(request);
+    const record = await prisma.file.findUnique({where: {id}});
+    const access = await authorizeFileAccess(record, "download", {
+      auth: authResult,
+      shareToken,
+      accessPassword,
+    });
 
-    if (!file) {
-      return NextResponse.json({error: "File not found"}, {status: 404});
-    }
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
+
+      if (isPasswordDenial(access.reason)) {
+        return NextResponse.json(
+          {
+            error:
+              access.reason === "incorrect_password" ? "Incorrect password" : "Password required",
+          },
+          {
+            status: 401,
+            headers: {"WWW-Authenticate": 'Basic realm="Hulkastorus download", charset="UTF-8"'},
+          },
+        );
+      }
 
-    if (!hasAccess) {
       return NextResponse.json({error: "File not found"}, {status: 404});
     }
 
+    const file = access.resource;
     if (!file.r2Locator) {
       return NextResponse.json({error: "File not available"}, {status: 500});
     }
@@ -0,0 +1,75 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {prisma} from "@/lib/prisma";
+import {authorizeFileAccess, logAccessDenied} from "@/lib/access-policy";
+import {getR2Client} from "@/lib/r2-config";
+import {completeMultipartSchema} from "@hulkastorus/sdk/contract";
+import {z} from "zod";
+
+// POST /api/v1/files/:id/multipart/complete - Assemble the uploaded parts
+export async function POST(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const {parts} = completeMultipartSchema.parse(body);
+
+    const partNumbers = new Set(parts.map((part) => part.partNumber));
+    if (partNumbers.size !== parts.length) {
+      return NextResponse.json({error: "Duplicate part numbers"}, {status: 400});
+    }
+
+    const access = await authorizeFileAccess(
+      await prisma.file.findUnique({where: {id}}),
+      "upload",
+      {
+        auth: authResult,
+      },
+    );
+
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
+      return NextResponse.json({error: "No multipart upload in progress"}, {status: 404});
+    }
+    const file = access.resource;
+
+    if (!file.uploadId) {
+      return NextResponse.json({error: "No multipart upload in progress"}, {status: 404});
+    }
+
+    const r2Client = getR2Client();
+    const objectParts = file.r2Locator ? r2Client.parseObjectKey(file.r2Locator) : null;
+
+    if (!objectParts) {
+      return NextResponse.json({error: "Invalid R2 locator format"}, {status: 400});
+    }
+
+    await r2Client.completeMultipartUpload({
+      ...objectParts,
+      uploadId: file.uploadId,
+      parts,
+    });
+
+    // The object now exists; the client confirms it via PUT /status as usual
+    await prisma.file.update({
+      where: {id},
+      data: {uploadId: null},
+    });
+
+    return NextResponse.json({id: file.id, status: file.status, partCount: parts.length});
+  } catch (error) {
+    console.error("Error completing multipart upload:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
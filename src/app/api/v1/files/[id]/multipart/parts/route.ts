@@ -0,0 +1,116 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {prisma} from "@/lib/prisma";
+import {authorizeFileAccess, logAccessDenied} from "@/lib/access-policy";
+import {getR2Client} from "@/lib/r2-config";
+import {signPartsSchema} from "@hulkastorus/sdk/contract";
+import {z} from "zod";
+
+// GET /api/v1/files/:id/multipart/parts - List the parts uploaded so far
+export async function GET(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const access = await authorizeFileAccess(
+      await prisma.file.findUnique({where: {id}}),
+      "upload",
+      {
+        auth: authResult,
+      },
+    );
+
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
+      return NextResponse.json({error: "No multipart upload in progress"}, {status: 404});
+    }
+    const file = access.resource;
+
+    if (!file.uploadId) {
+      return NextResponse.json({error: "No multipart upload in progress"}, {status: 404});
+    }
+
+    const r2Client = getR2Client();
+    const objectParts = file.r2Locator ? r2Client.parseObjectKey(file.r2Locator) : null;
+
+    if (!objectParts) {
+      return NextResponse.json({error: "Invalid R2 locator format"}, {status: 400});
+    }
+
+    // Storage is the source of truth for which parts actually finished uploading
+    const parts = await r2Client.listParts({...objectParts, uploadId: file.uploadId});
+
+    return NextResponse.json({id: file.id, uploadId: file.uploadId, parts});
+  } catch (error) {
+    console.error("Error listing multipart upload parts:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
+
+// POST /api/v1/files/:id/multipart/parts - Get presigned URLs for uploading parts
+export async function POST(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const {partNumbers} = signPartsSchema.parse(body);
+
+    const access = await authorizeFileAccess(
+      await prisma.file.findUnique({where: {id}}),
+      "upload",
+      {
+        auth: authResult,
+      },
+    );
+
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
+      return NextResponse.json({error: "No multipart upload in progress"}, {status: 404});
+    }
+    const file = access.resource;
+
+    if (!file.uploadId) {
+      return NextResponse.json({error: "No multipart upload in progress"}, {status: 404});
+    }
+
+    const r2Client = getR2Client();
+    const objectParts = file.r2Locator ? r2Client.parseObjectKey(file.r2Locator) : null;
+
+    if (!objectParts) {
+      return NextResponse.json({error: "Invalid R2 locator format"}, {status: 400});
+    }
+
+    const uploadId = file.uploadId;
+    const parts = await Promise.all(
+      [...new Set(partNumbers)].map(async (partNumber) => ({
+        partNumber,
+        uploadUrl: await r2Client.getUploadPartUrl({
+          ...objectParts,
+          uploadId,
+          partNumber,
+          expiresIn: 3600, // 1 hour
+        }),
+      })),
+    );
+
+    return NextResponse.json({id: file.id, uploadId, parts});
+  } catch (error) {
+    console.error("Error signing multipart upload parts:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
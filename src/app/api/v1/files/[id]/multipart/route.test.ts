@@ -0,0 +1,317 @@
+import {POST, DELETE} from "./route";
+import {GET as listParts, POST as signParts} from "./parts/route";
+import {POST as complete} from "./complete/route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+import {
+  getMockR2Server,
+  startMockR2Server,
+  stopMockR2Server,
+} from "../../../../../../../tests/mocks/r2-server";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    file: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
+// Mock R2 config to use test server
+jest.mock("@/lib/r2-config", () => {
+  const originalModule = jest.requireActual("@/lib/r2-config");
+  return {
+    ...originalModule,
+    currentEnv: "test",
+    getR2Client: () => {
+      const {R2Client} = jest.requireActual("@/lib/r2-client");
+      return new R2Client({
+        endpoint: "http://localhost:9012",
+        accessKeyId: "test",
+        secretAccessKey: "test",
+        bucketName: "test-bucket",
+        region: "auto",
+      });
+    },
+  };
+});
+
+const params = {params: Promise.resolve({id: "test-file-id"})};
+
+function createRequest(path: string, method: string, body?: unknown) {
+  return new NextRequest(`http://localhost:3000/api/v1/files/test-file-id/multipart${path}`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+describe("/api/v1/files/:id/multipart", () => {
+  const objectKey = "test/infinite/test-user-id/test-file-id";
+
+  const mockFile = {
+    id: "test-file-id",
+    userId: "test-user-id",
+    status: "reserved",
+    r2Locator: objectKey,
+    filename: "database.sql",
+    mimeType: "application/sql",
+    sizeBytes: BigInt(3 * 1024 * 1024 * 1024),
+    uploadId: null as string | null,
+  };
+
+  beforeAll(async () => {
+    await startMockR2Server(9012);
+  });
+
+  afterAll(async () => {
+    await stopMockR2Server();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getMockR2Server()?.clear();
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue({
+      user: {id: "test-user-id"},
+    });
+  });
+
+  describe("POST /api/v1/files/:id/multipart", () => {
+    it("should start a multipart upload and store its upload id", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
+
+      const response = await POST(createRequest("", "POST"), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.uploadId).toBeTruthy();
+      expect(data.partSize).toBe(16 * 1024 * 1024);
+      expect(data.partCount).toBe(192);
+      expect(prisma.file.findUnique).toHaveBeenCalledWith({
+        where: {id: "test-file-id"},
+      });
+      expect(prisma.file.update).toHaveBeenCalledWith({
+        where: {id: "test-file-id"},
+        data: {uploadId: data.uploadId},
+      });
+      expect(getMockR2Server()?.getUploadCount()).toBe(1);
+    });
+
+    it("should return the existing upload when called again", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({
+        ...mockFile,
+        uploadId: "existing-upload-id",
+      });
+
+      const response = await POST(createRequest("", "POST"), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.uploadId).toBe("existing-upload-id");
+      expect(prisma.file.update).not.toHaveBeenCalled();
+    });
+
+    it("should require a declared file size", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({...mockFile, sizeBytes: null});
+
+      const response = await POST(createRequest("", "POST"), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("File size is required for multipart uploads");
+    });
+
+    it("should return 404 for files that are not reserved by the user", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({
+        ...mockFile,
+        userId: "other-user-id",
+      });
+
+      const response = await POST(createRequest("", "POST"), params);
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should reject unauthenticated requests", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const auth = jest.mocked(require("@/lib/auth").auth);
+      auth.mockResolvedValue(null);
+
+      const response = await POST(createRequest("", "POST"), params);
+
+      expect(response.status).toBe(401);
+      expect(prisma.file.findUnique).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("full multipart flow", () => {
+    it("should sign part URLs, upload parts and complete the object", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
+      const startResponse = await POST(createRequest("", "POST"), params);
+      const {uploadId} = await startResponse.json();
+
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({...mockFile, uploadId});
+
+      const signResponse = await signParts(
+        createRequest("/parts", "POST", {partNumbers: [1, 2]}),
+        params,
+      );
+      const signData = await signResponse.json();
+
+      expect(signResponse.status).toBe(200);
+      expect(signData.parts).toHaveLength(2);
+
+      const parts = [];
+      for (const [index, part] of signData.parts.entries()) {
+        const uploadResponse = await fetch(part.uploadUrl, {
+          method: "PUT",
+          body: index === 0 ? "CREATE TABLE " : "users;",
+        });
+        parts.push({partNumber: part.partNumber, etag: uploadResponse.headers.get("etag")});
+      }
+
+      const completeResponse = await complete(createRequest("/complete", "POST", {parts}), params);
+      const completeData = await completeResponse.json();
+
+      expect(completeResponse.status).toBe(200);
+      expect(completeData.partCount).toBe(2);
+      expect(prisma.file.update).toHaveBeenLastCalledWith({
+        where: {id: "test-file-id"},
+        data: {uploadId: null},
+      });
+      expect(getMockR2Server()?.getObject(objectKey)?.data.toString()).toBe("CREATE TABLE users;");
+    });
+  });
+
+  describe("GET /api/v1/files/:id/multipart/parts", () => {
+    it("should list the parts already in storage so uploads can resume", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
+      const startResponse = await POST(createRequest("", "POST"), params);
+      const {uploadId} = await startResponse.json();
+
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({...mockFile, uploadId});
+
+      const signResponse = await signParts(
+        createRequest("/parts", "POST", {partNumbers: [1, 2, 3]}),
+        params,
+      );
+      const {parts: signedParts} = await signResponse.json();
+
+      // Only parts 1 and 3 finish before the connection drops
+      await fetch(signedParts[0].uploadUrl, {method: "PUT", body: "first"});
+      await fetch(signedParts[2].uploadUrl, {method: "PUT", body: "third"});
+
+      const response = await listParts(createRequest("/parts", "GET"), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.uploadId).toBe(uploadId);
+      expect(data.parts).toEqual([
+        {partNumber: 1, etag: expect.stringMatching(/^"[a-f0-9]{32}"$/), size: 5},
+        {partNumber: 3, etag: expect.stringMatching(/^"[a-f0-9]{32}"$/), size: 5},
+      ]);
+    });
+
+    it("should return 404 when no upload is in progress", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
+
+      const response = await listParts(createRequest("/parts", "GET"), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/v1/files/:id/multipart/parts", () => {
+    it("should validate part numbers", async () => {
+      const response = await signParts(
+        createRequest("/parts", "POST", {partNumbers: [0, 10001]}),
+        params,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+    });
+
+    it("should return 404 when no upload is in progress", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
+
+      const response = await signParts(createRequest("/parts", "POST", {partNumbers: [1]}), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+
+  describe("POST /api/v1/files/:id/multipart/complete", () => {
+    it("should reject duplicate part numbers", async () => {
+      const response = await complete(
+        createRequest("/complete", "POST", {
+          parts: [
+            {partNumber: 1, etag: '"a"'},
+            {partNumber: 1, etag: '"b"'},
+          ],
+        }),
+        params,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Duplicate part numbers");
+    });
+
+    it("should return 500 when the storage provider rejects the parts", async () => {
+      jest.spyOn(console, "error").mockImplementation(() => {});
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({...mockFile, uploadId: "unknown"});
+
+      const response = await complete(
+        createRequest("/complete", "POST", {parts: [{partNumber: 1, etag: '"a"'}]}),
+        params,
+      );
+
+      expect(response.status).toBe(500);
+      expect(prisma.file.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /api/v1/files/:id/multipart", () => {
+    it("should abort the upload and mark the file failed", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
+      const startResponse = await POST(createRequest("", "POST"), params);
+      const {uploadId} = await startResponse.json();
+
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({...mockFile, uploadId});
+
+      const response = await DELETE(createRequest("", "DELETE"), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe("Multipart upload aborted");
+      expect(getMockR2Server()?.getUploadCount()).toBe(0);
+      expect(prisma.file.update).toHaveBeenLastCalledWith({
+        where: {id: "test-file-id"},
+        data: {uploadId: null, status: "failed", updatedAt: expect.any(Date)},
+      });
+    });
+
+    it("should return 404 when no upload is in progress", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
+
+      const response = await DELETE(createRequest("", "DELETE"), params);
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
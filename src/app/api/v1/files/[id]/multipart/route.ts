@@ -0,0 +1,126 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {prisma} from "@/lib/prisma";
+import {authorizeFileAccess, logAccessDenied} from "@/lib/access-policy";
+import {getR2Client, getMultipartPartSize} from "@/lib/r2-config";
+
+// POST /api/v1/files/:id/multipart - Start (or resume) a multipart upload
+export async function POST(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const access = await authorizeFileAccess(
+      await prisma.file.findUnique({where: {id}}),
+      "upload",
+      {
+        auth: authResult,
+      },
+    );
+
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
+      return NextResponse.json({error: "File not found or not in reserved status"}, {status: 404});
+    }
+    const file = access.resource;
+
+    if (file.sizeBytes === null) {
+      return NextResponse.json(
+        {error: "File size is required for multipart uploads"},
+        {status: 400},
+      );
+    }
+
+    if (!file.r2Locator) {
+      return NextResponse.json({error: "File has no R2 locator"}, {status: 400});
+    }
+
+    const r2Client = getR2Client();
+    const objectParts = r2Client.parseObjectKey(file.r2Locator);
+
+    if (!objectParts) {
+      return NextResponse.json({error: "Invalid R2 locator format"}, {status: 400});
+    }
+
+    const sizeBytes = Number(file.sizeBytes);
+    const partSize = getMultipartPartSize(sizeBytes);
+    const partCount = Math.max(1, Math.ceil(sizeBytes / partSize));
+
+    // Starting twice returns the existing upload so retries don't orphan parts
+    if (file.uploadId) {
+      return NextResponse.json({id: file.id, uploadId: file.uploadId, partSize, partCount});
+    }
+
+    const {uploadId} = await r2Client.createMultipartUpload({
+      ...objectParts,
+      contentType: file.mimeType || undefined,
+    });
+
+    await prisma.file.update({
+      where: {id},
+      data: {uploadId},
+    });
+
+    return NextResponse.json({id: file.id, uploadId, partSize, partCount}, {status: 201});
+  } catch (error) {
+    console.error("Error starting multipart upload:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
+
+// DELETE /api/v1/files/:id/multipart - Abort a multipart upload
+export async function DELETE(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const access = await authorizeFileAccess(
+      await prisma.file.findUnique({where: {id}}),
+      "upload",
+      {
+        auth: authResult,
+      },
+    );
+
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
+      return NextResponse.json({error: "No multipart upload in progress"}, {status: 404});
+    }
+    const file = access.resource;
+
+    if (!file.uploadId) {
+      return NextResponse.json({error: "No multipart upload in progress"}, {status: 404});
+    }
+
+    if (file.r2Locator) {
+      const r2Client = getR2Client();
+      const objectParts = r2Client.parseObjectKey(file.r2Locator);
+
+      if (objectParts) {
+        await r2Client.abortMultipartUpload({...objectParts, uploadId: file.uploadId});
+      }
+    }
+
+    await prisma.file.update({
+      where: {id},
+      data: {
+        uploadId: null,
+        status: "failed",
+        updatedAt: new Date(),
+      },
+    });
+
+    return NextResponse.json({message: "Multipart upload aborted"});
+  } catch (error) {
+    console.error("Error aborting multipart upload:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
@@ -1,13 +1,18 @@
 import {GET, PUT, DELETE} from "./route";
 import {NextRequest} from "next/server";
+import bcrypt from "bcryptjs";
 import {prisma} from "@/lib/prisma";
-import {startMockR2Server, stopMockR2Server} from "../../../../../../tests/mocks/r2-server";
+import {
+  getMockR2Server,
+  startMockR2Server,
+  stopMockR2Server,
+} from "../../../../../../tests/mocks/r2-server";
+import {readDocumentedResponse} from "../../../../../../tests/api-contract";
 
 // Mock Prisma
 jest.mock("@/lib/prisma", () => ({
   prisma: {
     file: {
-      findFirst: jest.fn(),
       findUnique: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -24,6 +29,11 @@ jest.mock("@/lib/auth", () => ({
   auth: jest.fn(),
 }));
 
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
 // Mock R2 config to use test server
 jest.mock("@/lib/r2-config", () => {
   const originalModule = jest.requireActual("@/lib/r2-config");
@@ -80,7 +90,10 @@ describe("/api/v1/files/:id", () => {
     createdAt: new Date(),
     updatedAt: new Date(),
     directory: {
+      id: "test-dir-id",
       fullPath: "/",
+      defaultPermissions: "private",
+      defaultExpirationPolicy: "infinite",
     },
     user: {
       id: "test-user-id",
@@ -95,7 +108,7 @@ describe("/api/v1/files/:id", () => {
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id");
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.id).toBe("test-file-id");
@@ -109,7 +122,7 @@ describe("/api/v1/files/:id", () => {
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id");
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.id).toBe("test-file-id");
@@ -125,7 +138,7 @@ describe("/api/v1/files/:id", () => {
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/nonexistent");
       const response = await GET(request, {params: Promise.resolve({id: "nonexistent"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("File not found");
@@ -137,7 +150,7 @@ describe("/api/v1/files/:id", () => {
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id");
       const response = await GET(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("File has expired");
@@ -146,7 +159,7 @@ describe("/api/v1/files/:id", () => {
 
   describe("PUT /api/v1/files/:id", () => {
     it("should update file metadata", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
       (prisma.file.update as jest.Mock).mockResolvedValue({
         ...mockFile,
         filename: "renamed.txt",
@@ -162,7 +175,7 @@ describe("/api/v1/files/:id", () => {
       });
 
       const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.filename).toBe("renamed.txt");
@@ -180,7 +193,7 @@ describe("/api/v1/files/:id", () => {
     });
 
     it("should update file expiration policy", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
       (prisma.file.update as jest.Mock).mockResolvedValue({
         ...mockFile,
         expirationPolicy: "7d",
@@ -195,15 +208,48 @@ describe("/api/v1/files/:id", () => {
       });
 
       const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.expirationPolicy).toBe("7d");
       expect(data.expiresAt).toBeDefined();
     });
 
+    it("should set and clear an access password", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.update as jest.Mock).mockImplementation(({data}) => ({...mockFile, ...data}));
+
+      const setRequest = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
+        method: "PUT",
+        body: JSON.stringify({accessPassword: "letmein"}),
+      });
+
+      const setResponse = await PUT(setRequest, {params: Promise.resolve({id: "test-file-id"})});
+      const setData = await setResponse.json();
+
+      expect(setResponse.status).toBe(200);
+      expect(setData.hasAccessPassword).toBe(true);
+      expect(setData.accessPassword).toBeUndefined();
+      const {accessPassword} = (prisma.file.update as jest.Mock).mock.calls[0][0].data;
+      expect(accessPassword).not.toBe("letmein");
+      await expect(bcrypt.compare("letmein", accessPassword)).resolves.toBe(true);
+
+      const clearRequest = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
+        method: "PUT",
+        body: JSON.stringify({accessPassword: null}),
+      });
+
+      const clearResponse = await PUT(clearRequest, {
+        params: Promise.resolve({id: "test-file-id"}),
+      });
+      const clearData = await clearResponse.json();
+
+      expect(clearData.hasAccessPassword).toBe(false);
+      expect((prisma.file.update as jest.Mock).mock.calls[1][0].data.accessPassword).toBeNull();
+    });
+
     it("should move file to different directory", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
       (prisma.directory.findFirst as jest.Mock).mockResolvedValue({
         id: "new-dir-id",
         fullPath: "/documents",
@@ -222,7 +268,7 @@ describe("/api/v1/files/:id", () => {
       });
 
       const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.directoryId).toBe("new-dir-id");
@@ -230,7 +276,7 @@ describe("/api/v1/files/:id", () => {
     });
 
     it("should return 404 for non-existent files", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/nonexistent", {
         method: "PUT",
@@ -240,12 +286,30 @@ describe("/api/v1/files/:id", () => {
       });
 
       const response = await PUT(request, {params: Promise.resolve({id: "nonexistent"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("File not found");
     });
 
+    it("should not let users update other users' files", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({
+        ...mockFile,
+        permissions: "public",
+        userId: "other-user-id",
+      });
+
+      const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
+        method: "PUT",
+        body: JSON.stringify({filename: "renamed.txt"}),
+      });
+
+      const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(404);
+      expect(prisma.file.update).not.toHaveBeenCalled();
+    });
+
     it("should return 401 for unauthorized requests", async () => {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const auth = jest.mocked(require("@/lib/auth").auth);
@@ -259,7 +323,7 @@ describe("/api/v1/files/:id", () => {
       });
 
       const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(401);
       expect(data.error).toBe("Unauthorized");
@@ -268,7 +332,7 @@ describe("/api/v1/files/:id", () => {
 
   describe("DELETE /api/v1/files/:id", () => {
     it("should delete file and remove from R2", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
       (prisma.file.delete as jest.Mock).mockResolvedValue(mockFile);
 
       // Upload a test file to R2
@@ -287,7 +351,7 @@ describe("/api/v1/files/:id", () => {
       });
 
       const response = await DELETE(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.message).toBe("File deleted successfully");
@@ -299,7 +363,7 @@ describe("/api/v1/files/:id", () => {
 
     it("should delete file even if R2 deletion fails", async () => {
       const fileWithBadLocator = {...mockFile, r2Locator: "invalid/locator"};
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(fileWithBadLocator);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(fileWithBadLocator);
       (prisma.file.delete as jest.Mock).mockResolvedValue(fileWithBadLocator);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
@@ -307,22 +371,48 @@ describe("/api/v1/files/:id", () => {
       });
 
       const response = await DELETE(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.message).toBe("File deleted successfully");
       expect(prisma.file.delete).toHaveBeenCalled();
     });
 
+    it("should abort an unfinished multipart upload", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const {getR2Client} = require("@/lib/r2-config");
+      const {uploadId} = await getR2Client().createMultipartUpload({
+        env: "test",
+        lifecyclePolicy: "infinite",
+        userId: "test-user-id",
+        fileId: "test-file-id",
+      });
+      const reservedFile = {...mockFile, status: "reserved", uploadId};
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(reservedFile);
+      (prisma.file.delete as jest.Mock).mockResolvedValue(reservedFile);
+
+      expect(getMockR2Server()?.getUploadCount()).toBe(1);
+
+      const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
+        method: "DELETE",
+      });
+
+      const response = await DELETE(request, {params: Promise.resolve({id: "test-file-id"})});
+
+      expect(response.status).toBe(200);
+      expect(getMockR2Server()?.getUploadCount()).toBe(0);
+      expect(prisma.file.delete).toHaveBeenCalled();
+    });
+
     it("should return 404 for non-existent files", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/nonexistent", {
         method: "DELETE",
       });
 
       const response = await DELETE(request, {params: Promise.resolve({id: "nonexistent"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(404);
       expect(data.error).toBe("File not found");
@@ -338,7 +428,7 @@ describe("/api/v1/files/:id", () => {
       });
 
       const response = await DELETE(request, {params: Promise.resolve({id: "test-file-id"})});
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(401);
       expect(data.error).toBe("Unauthorized");
@@ -1,69 +1,44 @@
 import {NextRequest, NextResponse} from "next/server";
-import {auth} from "@/lib/auth";
+import {authenticateRequest} from "@/lib/api-auth";
 import {prisma} from "@/lib/prisma";
-import {getR2Client} from "@/lib/r2-config";
+import {getExpirationDate, getR2Client} from "@/lib/r2-config";
+import {hashAccessPassword} from "@/lib/access-passwords";
+import {resolveFilePermissions} from "@/lib/permissions";
+import {authorizeFileAccess, logAccessDenied} from "@/lib/access-policy";
+import {updateFileSchema} from "@hulkastorus/sdk/contract";
 import {z} from "zod";
 
-// Schema for updating file metadata
-const updateFileSchema = z.object({
-  filename: z.string().min(1).max(255).optional(),
-  fullPath: z.string().min(1).max(1000).optional(),
-  permissions: z.enum(["public", "private", "inherit"]).optional(),
-  expirationPolicy: z.enum(["1d", "7d", "30d", "90d", "1y", "infinite"]).optional(),
-  directoryId: z.string().optional(),
-});
-
-// Helper function to calculate expiration date
-function calculateExpirationDate(policy: string): Date | null {
-  if (policy === "infinite") return null;
-
-  const now = new Date();
-  const expirationMap: Record<string, number> = {
-    "1d": 1,
-    "7d": 7,
-    "30d": 30,
-    "90d": 90,
-    "1y": 365,
-  };
-
-  const days = expirationMap[policy];
-  if (!days) return null;
-
-  now.setDate(now.getDate() + days);
-  return now;
-}
-
 // PUT /api/v1/files/:id - Update file metadata
 export async function PUT(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
   const {id} = await params;
 
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userId = (session as any).user.id;
+    const userId = authResult.userId;
 
     // Parse and validate request body
     const body = await request.json();
     const validatedData = updateFileSchema.parse(body);
 
-    // Find the file and verify ownership
-    const file = await prisma.file.findFirst({
-      where: {
-        id,
-        userId,
-      },
-      include: {
-        directory: true,
-      },
-    });
+    const access = await authorizeFileAccess(
+      await prisma.file.findUnique({
+        where: {id},
+        include: {
+          directory: true,
+        },
+      }),
+      "manage",
+      {auth: authResult},
+    );
 
-    if (!file) {
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
       return NextResponse.json({error: "File not found"}, {status: 404});
     }
+    const file = access.resource;
 
     // Build update data
     const updateData: {
@@ -73,6 +48,7 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
       fullPath?: string;
       expirationPolicy?: string;
       expiresAt?: Date | null;
+      accessPassword?: string | null;
     } = {};
 
     if (validatedData.filename !== undefined) {
@@ -85,7 +61,13 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
 
     if (validatedData.expirationPolicy !== undefined) {
       updateData.expirationPolicy = validatedData.expirationPolicy;
-      updateData.expiresAt = calculateExpirationDate(validatedData.expirationPolicy);
+      updateData.expiresAt = getExpirationDate(validatedData.expirationPolicy);
+    }
+
+    if (validatedData.accessPassword !== undefined) {
+      updateData.accessPassword = validatedData.accessPassword
+        ? await hashAccessPassword(validatedData.accessPassword)
+        : null;
     }
 
     // Handle directory change and path update
@@ -142,7 +124,7 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
                 userId,
                 fullPath: currentPath,
                 parentId: parentDirectoryId,
-                defaultPermissions: "private",
+                defaultPermissions: "inherit",
                 defaultExpirationPolicy: "infinite",
                 // eslint-disable-next-line @typescript-eslint/no-explicit-any
               } as any,
@@ -185,6 +167,8 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
       mimeType: updatedFile.mimeType,
       sizeBytes: updatedFile.sizeBytes ? Number(updatedFile.sizeBytes) : null,
       permissions: updatedFile.permissions,
+      effectivePermissions: await resolveFilePermissions(updatedFile),
+      hasAccessPassword: !!updatedFile.accessPassword,
       status: updatedFile.status,
       expirationPolicy: updatedFile.expirationPolicy,
       expiresAt: updatedFile.expiresAt?.toISOString() || null,
@@ -209,25 +193,24 @@ export async function DELETE(request: NextRequest, {params}: {params: Promise<{i
   const {id} = await params;
 
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userId = (session as any).user.id;
-
-    // Find the file and verify ownership
-    const file = await prisma.file.findFirst({
-      where: {
-        id,
-        userId,
+
+    const access = await authorizeFileAccess(
+      await prisma.file.findUnique({where: {id}}),
+      "manage",
+      {
+        auth: authResult,
       },
-    });
+    );
 
-    if (!file) {
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
       return NextResponse.json({error: "File not found"}, {status: 404});
     }
+    const file = access.resource;
 
     // Delete from R2 if file was uploaded
     if (file.r2Locator && file.status === "validated") {
@@ -254,6 +237,20 @@ export async function DELETE(request: NextRequest, {params}: {params: Promise<{i
       }
     }
 
+    // Abort an unfinished multipart upload so its parts don't linger in storage
+    if (file.r2Locator && file.uploadId) {
+      try {
+        const r2Client = getR2Client();
+        const objectParts = r2Client.parseObjectKey(file.r2Locator);
+
+        if (objectParts) {
+          await r2Client.abortMultipartUpload({...objectParts, uploadId: file.uploadId});
+        }
+      } catch (r2Error) {
+        console.error("Error aborting multipart upload:", r2Error);
+      }
+    }
+
     // Delete from database
     await prisma.file.delete({
       where: {id},
@@ -271,12 +268,10 @@ export async function GET(request: NextRequest, {params}: {params: Promise<{id:
   const {id} = await params;
 
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const userId = (session as any)?.user?.id;
+    // Metadata of public files is visible without signing in
+    const authResult = await authenticateRequest(request, "read");
 
-    // Find the file
-    const file = await prisma.file.findUnique({
+    const record = await prisma.file.findUnique({
       where: {id},
       include: {
         directory: {
@@ -297,22 +292,18 @@ export async function GET(request: NextRequest, {params}: {params: Promise<{id:
       },
     });
 
-    if (!file) {
-      return NextResponse.json({error: "File not found"}, {status: 404});
-    }
-
-    // Check access permissions
-    const isOwner = file.userId === userId;
-    const isPublic = file.permissions === "public";
-
-    if (!isOwner && !isPublic) {
-      return NextResponse.json({error: "File not found"}, {status: 404});
-    }
+    const access = await authorizeFileAccess(record, "view", {auth: authResult});
 
-    // Check if file is expired
-    if (file.expiresAt && file.expiresAt < new Date()) {
-      return NextResponse.json({error: "File has expired"}, {status: 404});
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
+      return NextResponse.json(
+        {error: access.reason === "expired" ? "File has expired" : "File not found"},
+        {status: 404},
+      );
     }
+    const file = access.resource;
+    const effectivePermissions = await resolveFilePermissions(file);
+    const isPublic = effectivePermissions === "public";
 
     // Return file metadata
     return NextResponse.json({
@@ -322,6 +313,8 @@ export async function GET(request: NextRequest, {params}: {params: Promise<{id:
       mimeType: file.mimeType,
       sizeBytes: file.sizeBytes ? Number(file.sizeBytes) : null,
       permissions: file.permissions,
+      effectivePermissions,
+      hasAccessPassword: !!file.accessPassword,
       status: file.status,
       expirationPolicy: file.expirationPolicy,
       expiresAt: file.expiresAt?.toISOString() || null,
@@ -0,0 +1,123 @@
+import {GET} from "./route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    file: {
+      findUnique: jest.fn(),
+    },
+    directory: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
+describe("GET /api/v1/files/:id/snippets", () => {
+  const mockFile = {
+    id: "test-file-id",
+    userId: "test-user-id",
+    directoryId: "test-dir-id",
+    filename: "model.ckpt",
+    fullPath: "/models/model.ckpt",
+    mimeType: "application/octet-stream",
+    status: "validated",
+    permissions: "public",
+    expirationPolicy: "infinite",
+    expiresAt: null,
+    accessPassword: null,
+  };
+
+  const getSnippets = () =>
+    GET(new NextRequest("http://localhost/api/v1/files/test-file-id/snippets"), {
+      params: Promise.resolve({id: "test-file-id"}),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NEXTAUTH_URL = "https://hulk.example.com";
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    jest.mocked(require("@/lib/auth").auth).mockResolvedValue({user: {id: "test-user-id"}});
+    (prisma.directory.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  afterAll(() => {
+    delete process.env.NEXTAUTH_URL;
+  });
+
+  it("should return download and upload snippets for a public file", async () => {
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
+
+    const response = await getSnippets();
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.fileId).toBe("test-file-id");
+    expect(data.snippets.download.bash).toBe(
+      "curl -L -o 'model.ckpt' 'https://hulk.example.com/d/test-file-id'",
+    );
+    expect(data.snippets.authenticatedDownload.bash).toContain(
+      "'https://hulk.example.com/api/v1/files/test-file-id/download'",
+    );
+    expect(data.snippets.upload.bash).toContain('"fullPath":"/models/model.ckpt"');
+    expect(Object.keys(data.snippets.upload)).toEqual(["bash", "powershell", "python"]);
+  });
+
+  it("should leave out the public download for private files", async () => {
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue({...mockFile, permissions: "private"});
+
+    const data = await (await getSnippets()).json();
+
+    expect(data.effectivePermissions).toBe("private");
+    expect(data.snippets.download).toBeNull();
+    expect(data.snippets.authenticatedDownload).toBeDefined();
+  });
+
+  it("should include the access password for protected files", async () => {
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue({
+      ...mockFile,
+      accessPassword: "hashed-password",
+    });
+
+    const data = await (await getSnippets()).json();
+
+    expect(data.snippets.download.bash).toContain("X-Access-Password: $HULK_ACCESS_PASSWORD");
+  });
+
+  it("should not return snippets for other users' files", async () => {
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue({...mockFile, userId: "other-user"});
+
+    const response = await getSnippets();
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should return 404 for unknown files", async () => {
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue(null);
+
+    const response = await getSnippets();
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should require authentication", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    jest.mocked(require("@/lib/auth").auth).mockResolvedValue(null);
+
+    const response = await getSnippets();
+
+    expect(response.status).toBe(401);
+  });
+});
@@ -0,0 +1,65 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {prisma} from "@/lib/prisma";
+import {getAppUrl} from "@/lib/email-verification";
+import {findAccessPasswordHash} from "@/lib/access-passwords";
+import {resolveFilePermissions} from "@/lib/permissions";
+import {authorizeFileAccess, logAccessDenied} from "@/lib/access-policy";
+import {
+  buildAuthenticatedDownloadSnippets,
+  buildDownloadSnippets,
+  buildUploadSnippets,
+} from "@/lib/snippets";
+
+// GET /api/v1/files/:id/snippets - "Copy as curl" commands for a file
+export async function GET(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  try {
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const {id} = await params;
+
+    // The upload sequence writes to the file's path, so only the owner gets snippets
+    const access = await authorizeFileAccess(
+      await prisma.file.findUnique({where: {id}}),
+      "manage",
+      {auth: authResult},
+    );
+
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
+      return NextResponse.json({error: "File not found"}, {status: 404});
+    }
+    const file = access.resource;
+
+    const baseUrl = getAppUrl();
+    const effectivePermissions = await resolveFilePermissions(file);
+
+    return NextResponse.json({
+      fileId: file.id,
+      effectivePermissions,
+      snippets: {
+        // The public link only works for public files; private ones need a key or share link
+        download:
+          effectivePermissions === "public"
+            ? buildDownloadSnippets(baseUrl, file, {
+                passwordProtected: !!(await findAccessPasswordHash(file)),
+              })
+            : null,
+        authenticatedDownload: buildAuthenticatedDownloadSnippets(baseUrl, file),
+        upload: buildUploadSnippets(baseUrl, {
+          filename: file.filename,
+          fullPath: file.fullPath,
+          mimeType: file.mimeType,
+          permissions: file.permissions as "public" | "private" | "inherit",
+          expirationPolicy: file.expirationPolicy,
+        }),
+      },
+    });
+  } catch (error) {
+    console.error("Error generating file snippets:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
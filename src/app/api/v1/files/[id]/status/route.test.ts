@@ -2,25 +2,40 @@ import {PUT} from "./route";
 import {NextRequest} from "next/server";
 import {prisma} from "@/lib/prisma";
 import {startMockR2Server, stopMockR2Server} from "../../../../../../../tests/mocks/r2-server";
+import {readDocumentedResponse} from "../../../../../../../tests/api-contract";
 
-// Mock Prisma
-jest.mock("@/lib/prisma", () => ({
-  prisma: {
+// Mock Prisma; transactions run against the same mocks
+jest.mock("@/lib/prisma", () => {
+  const prisma = {
     file: {
-      findFirst: jest.fn(),
+      aggregate: jest.fn(),
+      findUnique: jest.fn(),
       update: jest.fn(),
       updateMany: jest.fn(),
     },
-  },
-}));
+    user: {
+      findUnique: jest.fn(),
+    },
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return {prisma};
+});
 
 // Mock auth
 jest.mock("@/lib/auth", () => ({
   auth: jest.fn(),
 }));
 
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
 // Mock R2 config to use controlled client
 const mockGetObjectInfo = jest.fn();
+const mockDeleteObject = jest.fn();
 jest.mock("@/lib/r2-config", () => {
   const originalModule = jest.requireActual("@/lib/r2-config");
   return {
@@ -35,6 +50,7 @@ jest.mock("@/lib/r2-config", () => {
       }),
       getObjectInfo: mockGetObjectInfo,
       putObject: jest.fn().mockResolvedValue(undefined),
+      deleteObject: mockDeleteObject,
     }),
   };
 });
@@ -53,6 +69,8 @@ describe("PUT /api/v1/files/:id/status", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Start every test with no storage used
+    (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: null}});
     // Reset R2 mock to default success state
     mockGetObjectInfo.mockResolvedValue({
       exists: true,
@@ -73,6 +91,8 @@ describe("PUT /api/v1/files/:id/status", () => {
     permissions: "private",
     expirationPolicy: "infinite",
     expiresAt: null,
+    accessPassword: null,
+    directoryId: "root-dir-id",
     createdAt: new Date(),
     updatedAt: new Date(),
   };
@@ -82,6 +102,7 @@ describe("PUT /api/v1/files/:id/status", () => {
     status: "validated",
     sizeBytes: BigInt(1024),
     mimeType: "text/plain",
+    directory: {fullPath: "/"},
   };
 
   beforeEach(() => {
@@ -91,7 +112,7 @@ describe("PUT /api/v1/files/:id/status", () => {
       user: {id: "test-user-id"},
     });
 
-    (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
     (prisma.file.update as jest.Mock).mockResolvedValue(mockUpdatedFile);
   });
 
@@ -106,12 +127,14 @@ describe("PUT /api/v1/files/:id/status", () => {
     });
 
     const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-    const data = await response.json();
+    const data = await readDocumentedResponse(request, response);
 
     expect(response.status).toBe(200);
     expect(data.id).toBe("test-file-id");
     expect(data.status).toBe("validated");
     expect(data.sizeBytes).toBe(1024); // Size from default mock
+    expect(data.hasAccessPassword).toBe(false);
+    expect(data.directory).toEqual({fullPath: "/"});
 
     // Verify file was updated in database
     expect(prisma.file.update).toHaveBeenCalledWith(
@@ -139,7 +162,7 @@ describe("PUT /api/v1/files/:id/status", () => {
     });
 
     const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-    const data = await response.json();
+    const data = await readDocumentedResponse(request, response);
 
     expect(response.status).toBe(400);
     expect(data.error).toBe("File not found in storage");
@@ -155,6 +178,41 @@ describe("PUT /api/v1/files/:id/status", () => {
     );
   });
 
+  it("should reject and delete uploads whose real size exceeds the quota", async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+      plan: "free",
+      quotaBytes: BigInt(2048),
+    });
+    (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: BigInt(1500)}});
+
+    const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/status", {
+      method: "PUT",
+      body: JSON.stringify({
+        status: "uploaded",
+      }),
+    });
+
+    const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
+    const data = await readDocumentedResponse(request, response);
+
+    expect(response.status).toBe(413);
+    expect(data.details).toEqual({quotaBytes: 2048, usedBytes: 1500, requestedBytes: 1024});
+    // The file's own reservation must not count against itself
+    expect(prisma.file.aggregate).toHaveBeenCalledWith({
+      where: {
+        userId: "test-user-id",
+        status: {in: ["reserved", "uploaded", "validated"]},
+        id: {not: "test-file-id"},
+      },
+      _sum: {sizeBytes: true},
+    });
+    expect(mockDeleteObject).toHaveBeenCalled();
+    expect(prisma.file.update).toHaveBeenCalledWith({
+      where: {id: "test-file-id"},
+      data: {status: "failed", updatedAt: expect.any(Date)},
+    });
+  });
+
   it("should reject unauthorized requests", async () => {
     // eslint-disable-next-line @typescript-eslint/no-require-imports
     const auth = jest.mocked(require("@/lib/auth").auth);
@@ -168,14 +226,14 @@ describe("PUT /api/v1/files/:id/status", () => {
     });
 
     const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-    const data = await response.json();
+    const data = await readDocumentedResponse(request, response);
 
     expect(response.status).toBe(401);
     expect(data.error).toBe("Unauthorized");
   });
 
   it("should reject file not owned by user", async () => {
-    (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue({...mockFile, userId: "other-user-id"});
 
     const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/status", {
       method: "PUT",
@@ -185,15 +243,14 @@ describe("PUT /api/v1/files/:id/status", () => {
     });
 
     const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-    const data = await response.json();
+    const data = await readDocumentedResponse(request, response);
 
     expect(response.status).toBe(404);
     expect(data.error).toBe("File not found or not in reserved status");
   });
 
   it("should reject file not in reserved status", async () => {
-    // Mock to return no file (since route filters by status: "reserved")
-    (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue({...mockFile, status: "validated"});
 
     const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id/status", {
       method: "PUT",
@@ -203,14 +260,14 @@ describe("PUT /api/v1/files/:id/status", () => {
     });
 
     const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-    const data = await response.json();
+    const data = await readDocumentedResponse(request, response);
 
     expect(response.status).toBe(404);
     expect(data.error).toBe("File not found or not in reserved status");
   });
 
   it("should reject file without R2 locator", async () => {
-    (prisma.file.findFirst as jest.Mock).mockResolvedValue({
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue({
       ...mockFile,
       r2Locator: null,
     });
@@ -223,7 +280,7 @@ describe("PUT /api/v1/files/:id/status", () => {
     });
 
     const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-    const data = await response.json();
+    const data = await readDocumentedResponse(request, response);
 
     expect(response.status).toBe(400);
     expect(data.error).toBe("File has no R2 locator");
@@ -238,7 +295,7 @@ describe("PUT /api/v1/files/:id/status", () => {
     });
 
     const response = await PUT(request, {params: Promise.resolve({id: "test-file-id"})});
-    const data = await response.json();
+    const data = await readDocumentedResponse(request, response);
 
     expect(response.status).toBe(400);
     expect(data.error).toBe("Validation error");
@@ -253,7 +310,7 @@ describe("PUT /api/v1/files/:id/status", () => {
       contentType: "application/octet-stream", // Different from file's mimeType
     });
 
-    (prisma.file.findFirst as jest.Mock).mockResolvedValue({
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue({
       ...mockFile,
       mimeType: "text/plain", // Already has mime type
     });
@@ -287,7 +344,7 @@ describe("PUT /api/v1/files/:id/status", () => {
       contentType: "application/json",
     });
 
-    (prisma.file.findFirst as jest.Mock).mockResolvedValue({
+    (prisma.file.findUnique as jest.Mock).mockResolvedValue({
       ...mockFile,
       mimeType: null, // No mime type set
     });
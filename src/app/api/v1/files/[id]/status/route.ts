@@ -1,46 +1,46 @@
 import {NextRequest, NextResponse} from "next/server";
-import {auth} from "@/lib/auth";
+import type {Prisma} from "@prisma/client";
+import {authenticateRequest} from "@/lib/api-auth";
 import {prisma} from "@/lib/prisma";
+import {authorizeFileAccess, logAccessDenied} from "@/lib/access-policy";
 import {getR2Client} from "@/lib/r2-config";
+import {withQuota} from "@/lib/quota";
+import {resolveFilePermissions} from "@/lib/permissions";
+import {updateFileStatusSchema} from "@hulkastorus/sdk/contract";
 import {z} from "zod";
 
-const updateStatusSchema = z.object({
-  status: z.enum(["uploaded"]),
-});
-
 export async function PUT(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  let session: any;
+  let userId: string | undefined;
   const {id} = await params;
 
   try {
-    session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
+    userId = authResult.userId;
 
     // Parse and validate request body
     const body = await request.json();
-    const {status} = updateStatusSchema.parse(body);
+    const {status} = updateFileStatusSchema.parse(body);
 
     if (status !== "uploaded") {
       return NextResponse.json({error: "Only 'uploaded' status is supported"}, {status: 400});
     }
 
-    // Find the file and verify ownership
-    const file = await prisma.file.findFirst({
-      where: {
-        id,
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        userId: (session as any).user.id,
-        status: "reserved",
+    const access = await authorizeFileAccess(
+      await prisma.file.findUnique({where: {id}}),
+      "upload",
+      {
+        auth: authResult,
       },
-    });
+    );
 
-    if (!file) {
+    if (!access.ok) {
+      logAccessDenied("file", id, access.reason);
       return NextResponse.json({error: "File not found or not in reserved status"}, {status: 404});
     }
+    const file = access.resource;
 
     if (!file.r2Locator) {
       return NextResponse.json({error: "File has no R2 locator"}, {status: 400});
@@ -85,23 +85,71 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
       updateData.mimeType = objectInfo.contentType;
     }
 
-    const updatedFile = await prisma.file.update({
-      where: {id},
-      data: updateData,
-    });
+    const validate = (tx: Prisma.TransactionClient) =>
+      tx.file.update({
+        where: {id},
+        data: updateData,
+        include: {
+          directory: {
+            select: {
+              fullPath: true,
+            },
+          },
+        },
+      });
+
+    let updatedFile: Awaited<ReturnType<typeof validate>>;
+
+    // The declared size can be wrong, so re-check the quota with the real one,
+    // validating the file in the same transaction so concurrent uploads can't overbook
+    if (objectInfo.size !== undefined) {
+      const validation = await withQuota(userId, objectInfo.size, {excludeFileId: id}, validate);
+
+      if (!validation.allowed) {
+        const {quota} = validation;
+        await r2Client.deleteObject(objectParts);
+        await prisma.file.update({
+          where: {id},
+          data: {
+            status: "failed",
+            updatedAt: new Date(),
+          },
+        });
+
+        return NextResponse.json(
+          {
+            error: "Storage quota exceeded",
+            details: {
+              quotaBytes: quota.quotaBytes,
+              usedBytes: quota.usedBytes,
+              requestedBytes: quota.requestedBytes,
+            },
+          },
+          {status: 413},
+        );
+      }
+
+      updatedFile = validation.result;
+    } else {
+      updatedFile = await validate(prisma);
+    }
 
     return NextResponse.json({
       id: updatedFile.id,
-      status: updatedFile.status,
       filename: updatedFile.filename,
       fullPath: updatedFile.fullPath,
       mimeType: updatedFile.mimeType,
       sizeBytes: updatedFile.sizeBytes ? Number(updatedFile.sizeBytes) : null,
       permissions: updatedFile.permissions,
+      effectivePermissions: await resolveFilePermissions(updatedFile),
+      hasAccessPassword: !!updatedFile.accessPassword,
+      status: updatedFile.status,
       expirationPolicy: updatedFile.expirationPolicy,
-      expiresAt: updatedFile.expiresAt,
-      createdAt: updatedFile.createdAt,
-      updatedAt: updatedFile.updatedAt,
+      expiresAt: updatedFile.expiresAt?.toISOString() || null,
+      directoryId: updatedFile.directoryId,
+      directory: updatedFile.directory,
+      createdAt: updatedFile.createdAt.toISOString(),
+      updatedAt: updatedFile.updatedAt.toISOString(),
     });
   } catch (error) {
     console.error("Error updating file status:", error);
@@ -111,12 +159,12 @@ export async function PUT(request: NextRequest, {params}: {params: Promise<{id:
     }
 
     // If R2 operation failed, mark file as failed
-    if (id && session?.user?.id) {
+    if (id && userId) {
       try {
         await prisma.file.updateMany({
           where: {
             id: id,
-            userId: session.user.id,
+            userId,
             status: "reserved",
           },
           data: {
@@ -0,0 +1,90 @@
+import {GET} from "./route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    importJob: {
+      findUnique: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+describe("GET /api/v1/files/import/:id", () => {
+  const mockJob = {
+    id: "test-job-id",
+    userId: "test-user-id",
+    fileId: "test-file-id",
+    sourceUrl: "https://example.com/data.bin",
+    status: "running",
+    bytesReceived: BigInt(1024),
+    totalBytes: BigInt(4096),
+    error: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    completedAt: null,
+  };
+
+  const getJob = (id: string) =>
+    GET(new NextRequest(`http://localhost/api/v1/files/import/${id}`), {
+      params: Promise.resolve({id}),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    jest.mocked(require("@/lib/auth").auth).mockResolvedValue({user: {id: "test-user-id"}});
+  });
+
+  it("should return the job's progress", async () => {
+    (prisma.importJob.findUnique as jest.Mock).mockResolvedValue(mockJob);
+
+    const response = await getJob("test-job-id");
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toMatchObject({
+      id: "test-job-id",
+      fileId: "test-file-id",
+      status: "running",
+      bytesReceived: 1024,
+      totalBytes: 4096,
+      error: null,
+    });
+  });
+
+  it("should not reveal other users' jobs", async () => {
+    (prisma.importJob.findUnique as jest.Mock).mockResolvedValue({
+      ...mockJob,
+      userId: "other-user-id",
+    });
+
+    const response = await getJob("test-job-id");
+
+    expect(response.status).toBe(404);
+    expect((await response.json()).error).toBe("Import not found");
+  });
+
+  it("should return 404 for unknown jobs", async () => {
+    (prisma.importJob.findUnique as jest.Mock).mockResolvedValue(null);
+
+    const response = await getJob("missing");
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should require authentication", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    jest.mocked(require("@/lib/auth").auth).mockResolvedValue(null);
+
+    const response = await getJob("test-job-id");
+
+    expect(response.status).toBe(401);
+  });
+});
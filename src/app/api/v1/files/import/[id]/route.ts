@@ -0,0 +1,25 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {prisma} from "@/lib/prisma";
+import {serializeImportJob} from "@/lib/remote-import";
+
+export async function GET(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  try {
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const {id} = await params;
+
+    const job = await prisma.importJob.findUnique({where: {id}});
+    if (!job || job.userId !== authResult.userId) {
+      return NextResponse.json({error: "Import not found"}, {status: 404});
+    }
+
+    return NextResponse.json(serializeImportJob(job));
+  } catch (error) {
+    console.error("Error fetching import:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
@@ -0,0 +1,181 @@
+import {POST, maxDuration} from "./route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+import {importLimits, runImportJob} from "@/lib/remote-import";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    directory: {
+      upsert: jest.fn(),
+    },
+    file: {
+      create: jest.fn(),
+    },
+    importJob: {
+      create: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
+// Run after() tasks straight away, as there's no request scope to defer them to
+jest.mock("next/server", () => ({
+  ...jest.requireActual("next/server"),
+  after: (task: () => unknown) => task(),
+}));
+
+// The job itself is covered in tests/lib/remote-import.test.ts
+jest.mock("@/lib/remote-import", () => ({
+  ...jest.requireActual("@/lib/remote-import"),
+  runImportJob: jest.fn(),
+}));
+
+describe("POST /api/v1/files/import", () => {
+  const createRequest = (body: unknown) =>
+    new NextRequest("http://localhost/api/v1/files/import", {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    jest.mocked(require("@/lib/auth").auth).mockResolvedValue({user: {id: "test-user-id"}});
+    jest.mocked(runImportJob).mockResolvedValue();
+
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+      id: "test-user-id",
+      isEmailVerified: true,
+    });
+    (prisma.directory.upsert as jest.Mock).mockImplementation(({create}) => create);
+    (prisma.file.create as jest.Mock).mockImplementation(({data}) => data);
+    (prisma.importJob.create as jest.Mock).mockImplementation(({data}) => ({
+      status: "pending",
+      bytesReceived: BigInt(0),
+      totalBytes: null,
+      error: null,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      completedAt: null,
+      ...data,
+    }));
+  });
+
+  it("should reserve a file and start the import", async () => {
+    const response = await POST(
+      createRequest({url: "https://example.com/datasets/train.csv", fullPath: "/datasets/"}),
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(202);
+    expect(data).toMatchObject({
+      id: "test-nano-id",
+      fileId: "test-nano-id",
+      sourceUrl: "https://example.com/datasets/train.csv",
+      status: "pending",
+      bytesReceived: 0,
+      totalBytes: null,
+    });
+
+    expect(prisma.file.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        filename: "train.csv",
+        fullPath: "/datasets/train.csv",
+        status: "reserved",
+        permissions: "private",
+      }),
+    });
+    expect(runImportJob).toHaveBeenCalledWith("test-nano-id");
+  });
+
+  it("should use the given filename and path", async () => {
+    await POST(
+      createRequest({
+        url: "https://example.com/download?id=1",
+        filename: "model.bin",
+        fullPath: "/models/latest.bin",
+        permissions: "public",
+      }),
+    );
+
+    expect(prisma.file.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({
+        filename: "model.bin",
+        fullPath: "/models/latest.bin",
+        permissions: "public",
+      }),
+    });
+  });
+
+  it("should name the file after the URL in the root directory by default", async () => {
+    await POST(createRequest({url: "https://example.com/archive.tar.gz"}));
+
+    expect(prisma.file.create).toHaveBeenCalledWith({
+      data: expect.objectContaining({filename: "archive.tar.gz", fullPath: "/archive.tar.gz"}),
+    });
+  });
+
+  it("should reject private network URLs", async () => {
+    const response = await POST(createRequest({url: "http://169.254.169.254/latest/meta-data/"}));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("URL points to a private network address");
+    expect(prisma.file.create).not.toHaveBeenCalled();
+    expect(runImportJob).not.toHaveBeenCalled();
+  });
+
+  it("should reject unsupported protocols", async () => {
+    const response = await POST(createRequest({url: "file:///etc/passwd"}));
+
+    expect(response.status).toBe(400);
+    expect(prisma.file.create).not.toHaveBeenCalled();
+  });
+
+  it("should validate the request body", async () => {
+    const response = await POST(createRequest({url: "not a url"}));
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation error");
+  });
+
+  it("should require a verified email", async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+      id: "test-user-id",
+      isEmailVerified: false,
+    });
+
+    const response = await POST(createRequest({url: "https://example.com/data.bin"}));
+
+    expect(response.status).toBe(403);
+    expect(runImportJob).not.toHaveBeenCalled();
+  });
+
+  it("should require authentication", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    jest.mocked(require("@/lib/auth").auth).mockResolvedValue(null);
+
+    const response = await POST(createRequest({url: "https://example.com/data.bin"}));
+
+    expect(response.status).toBe(401);
+  });
+
+  it("should only take imports that can finish within its time limit", () => {
+    // The job runs inside this route's maxDuration, so the limit must fit at a modest 10 MiB/s
+    expect(importLimits.MAX_BYTES / maxDuration).toBeLessThanOrEqual(10 * 1024 * 1024);
+  });
+});
@@ -0,0 +1,95 @@
+import {after, NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {prisma} from "@/lib/prisma";
+import {generateNanoId} from "@/lib/nanoid";
+import {parseLifecyclePolicy} from "@/lib/r2-config";
+import {reserveFile} from "@/lib/file-reservations";
+import {
+  checkImportUrl,
+  filenameFromUrl,
+  runImportJob,
+  serializeImportJob,
+} from "@/lib/remote-import";
+import {importFileSchema} from "@hulkastorus/sdk/contract";
+import {z} from "zod";
+
+// The import runs after the response is sent, inside this function's time limit. Jobs
+// cut off by it are failed by the import sweep (see src/lib/import-sweep.ts)
+export const maxDuration = 300;
+
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    // Check if user exists
+    const user = await prisma.user.findUnique({
+      where: {id: authResult.userId},
+      select: {
+        id: true,
+        isEmailVerified: true,
+      },
+    });
+
+    if (!user) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    if (!user.isEmailVerified) {
+      return NextResponse.json({error: "Email verification required"}, {status: 403});
+    }
+
+    // Parse and validate request body
+    const body = await request.json();
+    const {url, fullPath, expirationPolicy, permissions, ...validatedData} =
+      importFileSchema.parse(body);
+
+    // Hostnames are checked again when the job connects, including on redirects
+    const sourceUrl = new URL(url);
+    const urlError = checkImportUrl(sourceUrl);
+    if (urlError) {
+      return NextResponse.json({error: urlError}, {status: 400});
+    }
+
+    // Name the file after the URL, and place it in a directory if the path ends with "/"
+    const filename = validatedData.filename || filenameFromUrl(sourceUrl);
+    const targetPath = !fullPath
+      ? `/${filename}`
+      : fullPath.endsWith("/")
+        ? `${fullPath}${filename}`
+        : fullPath;
+
+    const file = await reserveFile(user.id, {
+      filename,
+      fullPath: targetPath,
+      expirationPolicy: parseLifecyclePolicy(expirationPolicy),
+      permissions,
+    });
+
+    const job = await prisma.importJob.create({
+      data: {
+        id: generateNanoId(),
+        userId: user.id,
+        fileId: file.id,
+        sourceUrl: sourceUrl.toString(),
+      },
+    });
+
+    // The fetch outlives the request; progress is read back through GET /files/import/:id
+    after(() =>
+      runImportJob(job.id).catch((error) => console.error("Error running import job:", error)),
+    );
+
+    return NextResponse.json(serializeImportJob(job), {status: 202});
+  } catch (error) {
+    console.error("Error creating import:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
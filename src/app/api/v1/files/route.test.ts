@@ -2,24 +2,32 @@ import {POST, GET} from "./route";
 import {NextRequest} from "next/server";
 import {prisma} from "@/lib/prisma";
 import {startMockR2Server, stopMockR2Server} from "../../../../../tests/mocks/r2-server";
+import {readDocumentedResponse} from "../../../../../tests/api-contract";
 
-// Mock Prisma
-jest.mock("@/lib/prisma", () => ({
-  prisma: {
+// Mock Prisma; transactions run against the same mocks
+jest.mock("@/lib/prisma", () => {
+  const prisma = {
     user: {
       findUnique: jest.fn(),
     },
     directory: {
       upsert: jest.fn(),
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
     },
     file: {
+      aggregate: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       findMany: jest.fn(),
       count: jest.fn(),
     },
-  },
-}));
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return {prisma};
+});
 
 // Mock auth
 jest.mock("@/lib/auth", () => ({
@@ -68,6 +76,8 @@ describe("/api/v1/files", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Start every test with no storage used
+    (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: null}});
     nanoIdCounter = 0; // Reset nano ID counter
   });
 
@@ -128,7 +138,7 @@ describe("/api/v1/files", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.id).toBe("test-file-id");
@@ -161,6 +171,54 @@ describe("/api/v1/files", () => {
       );
     });
 
+    it("should reject reservations that exceed the storage quota", async () => {
+      // 10 GB free plan with 100 bytes left
+      (prisma.file.aggregate as jest.Mock).mockResolvedValue({
+        _sum: {sizeBytes: BigInt(10 * 1024 * 1024 * 1024 - 100)},
+      });
+
+      const request = new NextRequest("http://localhost:3000/api/v1/files", {
+        method: "POST",
+        body: JSON.stringify({filename: "big.bin", sizeBytes: 1024}),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(413);
+      expect(data).toEqual({
+        error: "Storage quota exceeded",
+        details: {
+          quotaBytes: 10 * 1024 * 1024 * 1024,
+          usedBytes: 10 * 1024 * 1024 * 1024 - 100,
+          requestedBytes: 1024,
+        },
+      });
+      expect(prisma.file.aggregate).toHaveBeenCalledWith({
+        where: {userId: "test-user-id", status: {in: ["reserved", "uploaded", "validated"]}},
+        _sum: {sizeBytes: true},
+      });
+      expect(prisma.file.create).not.toHaveBeenCalled();
+    });
+
+    it("should apply a per-user quota override", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        ...mockUser,
+        quotaBytes: BigInt(512),
+      });
+
+      const request = new NextRequest("http://localhost:3000/api/v1/files", {
+        method: "POST",
+        body: JSON.stringify({filename: "test.txt", sizeBytes: 1024}),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(413);
+      expect(data.details.quotaBytes).toBe(512);
+    });
+
     it("should create nested directory structure", async () => {
       // Reset mocks before this test
       jest.clearAllMocks();
@@ -218,6 +276,41 @@ describe("/api/v1/files", () => {
       );
     });
 
+    it("should store inherit and resolve it through the directory", async () => {
+      const inheritingDirectory = {...mockDirectory, id: "docs-dir", defaultPermissions: "inherit"};
+      (prisma.directory.upsert as jest.Mock).mockResolvedValue(inheritingDirectory);
+      (prisma.file.create as jest.Mock).mockImplementation(({data}) => ({...mockFile, ...data}));
+      (prisma.directory.findUnique as jest.Mock).mockImplementation(({where}) =>
+        where.id === "docs-dir"
+          ? {id: "docs-dir", parentId: "root-dir", defaultPermissions: "inherit"}
+          : {id: "root-dir", parentId: null, defaultPermissions: "public"},
+      );
+
+      const request = new NextRequest("http://localhost:3000/api/v1/files", {
+        method: "POST",
+        body: JSON.stringify({
+          filename: "guide.md",
+          fullPath: "/docs/guide.md",
+          permissions: "inherit",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(200);
+      expect(prisma.directory.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({defaultPermissions: "inherit"}),
+        }),
+      );
+      expect(prisma.file.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({permissions: "inherit", directoryId: "docs-dir"}),
+      });
+      expect(data.permissions).toBe("inherit");
+      expect(data.effectivePermissions).toBe("public");
+    });
+
     it("should reject unauthorized requests", async () => {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const auth = jest.mocked(require("@/lib/auth").auth);
@@ -231,13 +324,13 @@ describe("/api/v1/files", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(401);
       expect(data.error).toBe("Unauthorized");
     });
 
-    it.skip("should reject unverified email users", async () => {
+    it("should reject unverified email users", async () => {
       (prisma.user.findUnique as jest.Mock).mockResolvedValue({
         ...mockUser,
         isEmailVerified: false,
@@ -251,7 +344,7 @@ describe("/api/v1/files", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(403);
       expect(data.error).toBe("Email verification required");
@@ -267,7 +360,7 @@ describe("/api/v1/files", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(400);
       expect(data.error).toBe("Validation error");
@@ -295,6 +388,44 @@ describe("/api/v1/files", () => {
         }),
       );
     });
+
+    it("should keep one-year files for a year", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/files", {
+        method: "POST",
+        body: JSON.stringify({
+          filename: "archive.tar",
+          expirationPolicy: "1y",
+        }),
+      });
+
+      (prisma.file.create as jest.Mock).mockImplementation(({data}) => ({...mockFile, ...data}));
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.expirationPolicy).toBe("1y");
+      expect(data.uploadUrl).toContain("test/1y/test-user-id/test-file-id");
+      const days = (new Date(data.expiresAt).getTime() - Date.now()) / (24 * 60 * 60 * 1000);
+      expect(Math.round(days)).toBe(365);
+    });
+
+    it("should reject unknown expiration policies", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/files", {
+        method: "POST",
+        body: JSON.stringify({
+          filename: "temp.txt",
+          expirationPolicy: "2y",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+      expect(prisma.file.create).not.toHaveBeenCalled();
+    });
   });
 
   describe("GET /api/v1/files", () => {
@@ -344,7 +475,7 @@ describe("/api/v1/files", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files");
 
       const response = await GET(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(200);
       expect(data.files).toHaveLength(2);
@@ -355,6 +486,12 @@ describe("/api/v1/files", () => {
     });
 
     it("should apply filters", async () => {
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        {id: "root-dir", parentId: null, defaultPermissions: "private"},
+        {id: "docs-dir", parentId: "root-dir", defaultPermissions: "public"},
+        {id: "guides-dir", parentId: "docs-dir", defaultPermissions: "inherit"},
+      ]);
+
       const request = new NextRequest(
         "http://localhost:3000/api/v1/files?filter~permissions=public&filter~status=validated",
       );
@@ -362,15 +499,107 @@ describe("/api/v1/files", () => {
       const response = await GET(request);
 
       expect(response.status).toBe(200);
+      // Inheriting files count as public when their directory resolves to public
       expect(prisma.file.findMany).toHaveBeenCalledWith(
         expect.objectContaining({
-          where: expect.objectContaining({
+          where: {
             userId: "test-user-id",
-            permissions: "public",
-            status: "validated",
-          }),
+            AND: [
+              {status: {equals: "validated"}},
+              {
+                OR: [
+                  {permissions: "public"},
+                  {permissions: "inherit", directoryId: {in: ["docs-dir", "guides-dir"]}},
+                ],
+              },
+            ],
+          },
+        }),
+      );
+    });
+
+    it("should list exactly the files in a directory", async () => {
+      const request = new NextRequest(
+        "http://localhost:3000/api/v1/files?filter~directory.fullPath=%2Fdocs&filter~filename=report*",
+      );
+
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      expect(prisma.file.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "test-user-id",
+            AND: [{directory: {fullPath: {equals: "/docs"}}}, {filename: {startsWith: "report"}}],
+          },
         }),
       );
+      expect(prisma.directory.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should filter by ranges and lists of values", async () => {
+      const request = new NextRequest(
+        "http://localhost:3000/api/v1/files?filter~sizeBytes=1024..&filter~status=uploaded,failed" +
+          "&filter~createdAt=2026-01-01..2026-02-01",
+      );
+
+      const response = await GET(request);
+
+      expect(response.status).toBe(200);
+      expect(prisma.file.count).toHaveBeenCalledWith({
+        where: {
+          userId: "test-user-id",
+          AND: [
+            {sizeBytes: {gte: 1024}},
+            {status: {in: ["uploaded", "failed"]}},
+            {createdAt: {gte: new Date("2026-01-01"), lte: new Date("2026-02-01")}},
+          ],
+        },
+      });
+    });
+
+    it("should reject unknown filter fields and bad values", async () => {
+      const unknown = await GET(
+        new NextRequest("http://localhost:3000/api/v1/files?filter~owner=someone"),
+      );
+      const badStatus = await GET(
+        new NextRequest("http://localhost:3000/api/v1/files?filter~status=deleted"),
+      );
+
+      expect(unknown.status).toBe(400);
+      expect((await unknown.json()).error).toBe('Unknown filter field "owner"');
+      expect(badStatus.status).toBe(400);
+      expect((await badStatus.json()).error).toBe('Invalid value "deleted" for filter~status');
+      expect(prisma.file.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should resolve inherited permissions in listings", async () => {
+      (prisma.file.findMany as jest.Mock).mockResolvedValue([
+        {...mockFiles[0], permissions: "inherit", directoryId: "docs-dir"},
+        {...mockFiles[1], directoryId: "docs-dir"},
+      ]);
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        {id: "docs-dir", parentId: null, defaultPermissions: "public"},
+      ]);
+
+      const request = new NextRequest("http://localhost:3000/api/v1/files");
+      const response = await GET(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(data.files[0].permissions).toBe("inherit");
+      expect(data.files[0].effectivePermissions).toBe("public");
+      expect(data.files[1].effectivePermissions).toBe("public");
+    });
+
+    it("should not look up directories when nothing inherits", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/files");
+      const response = await GET(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(
+        data.files.map((file: {effectivePermissions: string}) => file.effectivePermissions),
+      ).toEqual(["private", "public"]);
+      expect(prisma.directory.findMany).not.toHaveBeenCalled();
     });
 
     it("should handle pagination", async () => {
@@ -402,6 +631,82 @@ describe("/api/v1/files", () => {
       );
     });
 
+    it("should page by cursor without counting", async () => {
+      const request = new NextRequest(
+        "http://localhost:3000/api/v1/files?limit=1&order_by=sizeBytes%2Basc&cursor=",
+      );
+
+      const response = await GET(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(200);
+      expect(prisma.file.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {userId: "test-user-id", AND: []},
+          orderBy: [{sizeBytes: {sort: "asc", nulls: "last"}}, {id: "asc"}],
+          take: 2,
+        }),
+      );
+      expect(prisma.file.count).not.toHaveBeenCalled();
+      expect(data.files.map((file: {id: string}) => file.id)).toEqual(["file1"]);
+      expect(data.pagination).toBeUndefined();
+      expect(data.nextCursor).toEqual(expect.any(String));
+
+      // The next page starts after file1
+      (prisma.file.findMany as jest.Mock).mockResolvedValue([mockFiles[1]]);
+      const next = await GET(
+        new NextRequest(
+          `http://localhost:3000/api/v1/files?limit=1&order_by=sizeBytes%2Basc&cursor=${data.nextCursor}`,
+        ),
+      );
+
+      expect(await next.json()).toMatchObject({files: [{id: "file2"}], nextCursor: null});
+      expect(prisma.file.findMany).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          where: {
+            userId: "test-user-id",
+            AND: [
+              {
+                OR: [
+                  {sizeBytes: {gt: 1024}},
+                  {sizeBytes: 1024, id: {gt: "file1"}},
+                  {sizeBytes: null},
+                ],
+              },
+            ],
+          },
+        }),
+      );
+    });
+
+    it("should reject cursors from another order or that aren't cursors", async () => {
+      (prisma.file.findMany as jest.Mock).mockResolvedValue([mockFiles[0], mockFiles[1]]);
+      const first = await GET(
+        new NextRequest("http://localhost:3000/api/v1/files?limit=1&cursor="),
+      );
+      const {nextCursor} = await first.json();
+
+      for (const query of [`order_by=filename%2Basc&cursor=${nextCursor}`, "cursor=not-a-cursor"]) {
+        const response = await GET(new NextRequest(`http://localhost:3000/api/v1/files?${query}`));
+
+        expect(response.status).toBe(400);
+        expect((await response.json()).error).toBe("Invalid cursor");
+      }
+    });
+
+    it.each(["limit=0", "limit=-5", "limit=abc", "limit=1001", "cursor=&limit=0", "offset=-1"])(
+      "should reject %s as a validation error",
+      async (query) => {
+        const request = new NextRequest(`http://localhost:3000/api/v1/files?${query}`);
+        const response = await GET(request);
+        const data = await readDocumentedResponse(request, response);
+
+        expect(response.status).toBe(400);
+        expect(data.error).toBe("Validation error");
+        expect(prisma.file.findMany).not.toHaveBeenCalled();
+      },
+    );
+
     it("should reject unauthorized requests", async () => {
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const auth = jest.mocked(require("@/lib/auth").auth);
@@ -410,7 +715,7 @@ describe("/api/v1/files", () => {
       const request = new NextRequest("http://localhost:3000/api/v1/files");
 
       const response = await GET(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       expect(response.status).toBe(401);
       expect(data.error).toBe("Unauthorized");
@@ -1,36 +1,45 @@
 import {NextRequest, NextResponse} from "next/server";
-import {auth} from "@/lib/auth";
+import {authenticateRequest} from "@/lib/api-auth";
 import {prisma} from "@/lib/prisma";
 import {getR2Client, currentEnv, parseLifecyclePolicy} from "@/lib/r2-config";
-import {generateNanoId} from "@/lib/nanoid";
+import {withQuota} from "@/lib/quota";
+import {reserveFile} from "@/lib/file-reservations";
+import {
+  type EffectivePermissions,
+  getDirectoryPermissions,
+  resolveFilePermissions,
+} from "@/lib/permissions";
+import {
+  fileListInclude,
+  filePermissionsWhere,
+  fileSortFields,
+  formatFileListItem,
+} from "@/lib/file-listing";
+import {
+  cursorOrderBy,
+  cursorWhere,
+  type CursorSort,
+  decodeListCursor,
+  encodeListCursor,
+} from "@/lib/cursor";
+import {buildFilterWhere, parseListFilters} from "@/lib/list-filters";
+import {createFileSchema, fileFilterFields, listFilesQuerySchema} from "@hulkastorus/sdk/contract";
+import type {Prisma} from "@prisma/client";
 import {z} from "zod";
 
-// Validation schema for file creation
-const createFileSchema = z.object({
-  filename: z.string().min(1).max(255),
-  mimeType: z.string().optional(),
-  sizeBytes: z.number().int().min(0).optional(),
-  fullPath: z.string().default("/"),
-  expirationPolicy: z.string().default("infinite"),
-  permissions: z.enum(["public", "private", "inherit"]).default("private"),
-});
-
 export async function POST(request: NextRequest) {
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
 
     // Check if user exists
     const user = await prisma.user.findUnique({
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      where: {id: (session as any).user.id},
+      where: {id: authResult.userId},
       select: {
         id: true,
         isEmailVerified: true,
-        // TODO: Add quota fields when implemented
       },
     });
 
@@ -38,13 +47,9 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({error: "User not found"}, {status: 404});
     }
 
-    // TODO: Re-enable email verification check
-    // if (!user.isEmailVerified) {
-    //   return NextResponse.json({error: "Email verification required"}, {status: 403});
-    // }
-
-    // TODO: Check user quota
-    // This would be implemented when quota tracking is added
+    if (!user.isEmailVerified) {
+      return NextResponse.json({error: "Email verification required"}, {status: 403});
+    }
 
     // Parse and validate request body
     const body = await request.json();
@@ -52,99 +57,45 @@ export async function POST(request: NextRequest) {
 
     const {filename, mimeType, sizeBytes, fullPath, expirationPolicy, permissions} = validatedData;
 
-    // Generate file ID
-    const fileId = generateNanoId();
-
-    // Parse and validate expiration policy
-    const validatedExpirationPolicy = parseLifecyclePolicy(expirationPolicy);
-
-    // Normalize and validate full path
-    const normalizedPath = fullPath.startsWith("/") ? fullPath : `/${fullPath}`;
-
-    // Extract directory path (everything except the filename)
-    const directoryPath = normalizedPath.substring(0, normalizedPath.lastIndexOf("/")) || "/";
-    const pathParts = directoryPath === "/" ? [] : directoryPath.split("/").filter(Boolean);
-
-    // Find or create directory structure
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    let currentDirectory: any = null;
-    let currentPath = "";
-
-    // Create root directory if it doesn't exist
-    if (pathParts.length === 0) {
-      // File goes in root directory
-      currentDirectory = await prisma.directory.upsert({
-        where: {
-          userId_fullPath: {
-            userId: user.id,
-            fullPath: "/",
-          },
+    // Check user quota against the declared size (re-checked with the real size after upload),
+    // reserving the file in the same transaction so concurrent requests can't overbook
+    const reservation = await withQuota(user.id, sizeBytes || 0, {}, (tx) =>
+      reserveFile(
+        user.id,
+        {
+          filename,
+          mimeType,
+          sizeBytes,
+          fullPath,
+          expirationPolicy: parseLifecyclePolicy(expirationPolicy),
+          permissions,
         },
-        update: {},
-        create: {
-          id: generateNanoId(),
-          userId: user.id,
-          fullPath: "/",
-          defaultExpirationPolicy: "infinite",
-          defaultPermissions: "private",
-        },
-      });
-    } else {
-      // Create directory hierarchy
-      for (const part of pathParts) {
-        currentPath += `/${part}`;
-        const parentId = currentDirectory?.id;
-
-        currentDirectory = await prisma.directory.upsert({
-          where: {
-            userId_fullPath: {
-              userId: user.id,
-              fullPath: currentPath,
-            },
-          },
-          update: {},
-          create: {
-            id: generateNanoId(),
-            userId: user.id,
-            parentId,
-            fullPath: currentPath,
-            defaultExpirationPolicy: validatedExpirationPolicy,
-            defaultPermissions: permissions === "inherit" ? "private" : permissions,
+        tx,
+      ),
+    );
+    if (!reservation.allowed) {
+      const {quota} = reservation;
+      return NextResponse.json(
+        {
+          error: "Storage quota exceeded",
+          details: {
+            quotaBytes: quota.quotaBytes,
+            usedBytes: quota.usedBytes,
+            requestedBytes: quota.requestedBytes,
           },
-        });
-      }
+        },
+        {status: 413},
+      );
     }
 
-    // Calculate expiration date
-    let expiresAt: Date | null = null;
-    if (validatedExpirationPolicy !== "infinite") {
-      const days = parseInt(validatedExpirationPolicy.replace("d", ""));
-      expiresAt = new Date();
-      expiresAt.setDate(expiresAt.getDate() + days);
-    }
-
-    // Create file record in database
-    const file = await prisma.file.create({
-      data: {
-        id: fileId,
-        userId: user.id,
-        directoryId: currentDirectory.id,
-        status: "reserved",
-        expirationPolicy: validatedExpirationPolicy,
-        fullPath: normalizedPath,
-        filename,
-        mimeType,
-        sizeBytes: sizeBytes ? BigInt(sizeBytes) : null,
-        permissions: permissions === "inherit" ? currentDirectory.defaultPermissions : permissions,
-        expiresAt,
-      },
-    });
+    const file = reservation.result;
+    const fileId = file.id;
 
     // Generate R2 upload URL
     const r2Client = getR2Client();
     const {uploadUrl, objectKey} = await r2Client.getUploadUrl({
       env: currentEnv,
-      lifecyclePolicy: validatedExpirationPolicy,
+      lifecyclePolicy: file.expirationPolicy,
       userId: user.id,
       fileId,
       contentType: mimeType,
@@ -161,10 +112,11 @@ export async function POST(request: NextRequest) {
       id: fileId,
       uploadUrl,
       filename,
-      fullPath: normalizedPath,
-      expirationPolicy: validatedExpirationPolicy,
+      fullPath: file.fullPath,
+      expirationPolicy: file.expirationPolicy,
       permissions: file.permissions,
-      expiresAt,
+      effectivePermissions: await resolveFilePermissions(file),
+      expiresAt: file.expiresAt,
       status: "reserved",
     });
   } catch (error) {
@@ -181,78 +133,98 @@ export async function POST(request: NextRequest) {
 // List files endpoint
 export async function GET(request: NextRequest) {
   try {
-    const session = await auth();
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (!(session as any)?.user?.id) {
-      return NextResponse.json({error: "Unauthorized"}, {status: 401});
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
     }
 
     const {searchParams} = new URL(request.url);
-    const limit = Math.min(parseInt(searchParams.get("limit") || "10"), 1000); // Allow up to 1000 for dashboard
-    const offset = parseInt(searchParams.get("offset") || "0");
-    const orderBy = searchParams.get("order_by") || "createdAt+desc";
+    const query = listFilesQuerySchema.parse({
+      limit: searchParams.get("limit") || undefined,
+      offset: searchParams.get("offset") || undefined,
+      order_by: searchParams.get("order_by") || undefined,
+      // An empty cursor still asks for cursor paging
+      cursor: searchParams.get("cursor") ?? undefined,
+    });
+    const {limit, offset, cursor} = query;
 
     // Parse order by
-    const [field, direction] = orderBy.split("+");
+    const [field, direction] = query.order_by.split("+");
     const orderDirection = direction === "asc" ? "asc" : "desc";
 
     // Validate field name - map common field names and validate
-    const validFields = ["createdAt", "updatedAt", "filename", "sizeBytes"];
-    const validatedField = validFields.includes(field) ? field : "createdAt";
+    const validatedField = Object.hasOwn(fileSortFields, field) ? field : "createdAt";
+    const sort: CursorSort = {
+      field: validatedField,
+      direction: orderDirection,
+      ...fileSortFields[validatedField],
+    };
 
-    // Get filters
-    const permissionsFilter = searchParams.get("filter~permissions");
-    const statusFilter = searchParams.get("filter~status");
+    // Any cursor, even an empty one for the first page, pages by cursor instead of offset
+    const after = cursor ? decodeListCursor(cursor, sort) : null;
+    if (cursor && !after) {
+      return NextResponse.json({error: "Invalid cursor"}, {status: 400});
+    }
 
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const whereClause: any = {
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      userId: (session as any).user.id,
-    };
+    const filterResult = parseListFilters(searchParams, fileFilterFields);
+    if (!filterResult.ok) {
+      return NextResponse.json({error: filterResult.error}, {status: 400});
+    }
+
+    // permissions filters match effective permissions; the rest map straight to columns
+    const {filters} = filterResult;
+    const conditions = buildFilterWhere<Prisma.FileWhereInput>(
+      filters.filter((filter) => filter.field !== "permissions"),
+    );
 
-    if (permissionsFilter) {
-      whereClause.permissions = permissionsFilter;
+    // Resolved lazily: only needed to filter by, or show, inherited permissions
+    let directoryPermissions: Map<string, EffectivePermissions> | null = null;
+
+    const permissionsFilters = filters.filter((filter) => filter.field === "permissions");
+    if (permissionsFilters.length > 0) {
+      directoryPermissions = await getDirectoryPermissions(authResult.userId);
+      for (const filter of permissionsFilters) {
+        conditions.push(filePermissionsWhere(filter, directoryPermissions));
+      }
     }
 
-    if (statusFilter) {
-      whereClause.status = statusFilter;
+    if (after) {
+      conditions.push(cursorWhere<Prisma.FileWhereInput>(sort, after));
     }
 
-    const files = await prisma.file.findMany({
+    const whereClause: Prisma.FileWhereInput = {
+      userId: authResult.userId,
+      AND: conditions,
+    };
+
+    // Cursor pages skip the count: one extra row says whether there's more
+    const rows = await prisma.file.findMany({
       where: whereClause,
-      orderBy: {
-        [validatedField]: orderDirection,
-      },
-      skip: offset,
-      take: limit,
-      include: {
-        directory: {
-          select: {
-            fullPath: true,
-          },
-        },
-      },
+      orderBy: cursor !== undefined ? cursorOrderBy(sort) : {[validatedField]: orderDirection},
+      skip: cursor !== undefined ? undefined : offset,
+      take: cursor !== undefined ? limit + 1 : limit,
+      include: fileListInclude,
     });
+    const files = rows.slice(0, limit);
+
+    if (!directoryPermissions && files.some((file) => file.permissions === "inherit")) {
+      directoryPermissions = await getDirectoryPermissions(authResult.userId);
+    }
+    const items = files.map((file) => formatFileListItem(file, directoryPermissions));
+
+    if (cursor !== undefined) {
+      return NextResponse.json({
+        files: items,
+        nextCursor: rows.length > limit ? encodeListCursor(sort, files[files.length - 1]) : null,
+      });
+    }
 
     const total = await prisma.file.count({
       where: whereClause,
     });
 
     return NextResponse.json({
-      files: files.map((file) => ({
-        id: file.id,
-        filename: file.filename,
-        fullPath: file.fullPath,
-        mimeType: file.mimeType,
-        sizeBytes: file.sizeBytes ? Number(file.sizeBytes) : null,
-        permissions: file.permissions,
-        status: file.status,
-        expirationPolicy: file.expirationPolicy,
-        expiresAt: file.expiresAt,
-        createdAt: file.createdAt,
-        updatedAt: file.updatedAt,
-        directory: file.directory,
-      })),
+      files: items,
       pagination: {
         total,
         limit,
@@ -262,6 +234,11 @@ export async function GET(request: NextRequest) {
     });
   } catch (error) {
     console.error("Error listing files:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
     return NextResponse.json({error: "Internal server error"}, {status: 500});
   }
 }
@@ -0,0 +1,117 @@
+import {GET} from "./route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+import {encodeSearchCursor} from "@/lib/file-search";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    file: {
+      findMany: jest.fn(),
+    },
+    directory: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+describe("GET /api/v1/files/search", () => {
+  const createdAt = new Date("2026-03-02T09:30:00Z");
+  const mockFile = {
+    id: "test-file-id",
+    userId: "test-user-id",
+    directoryId: "test-dir-id",
+    filename: "report.csv",
+    fullPath: "/reports/report.csv",
+    mimeType: "text/csv",
+    sizeBytes: BigInt(2048),
+    permissions: "private",
+    status: "validated",
+    expirationPolicy: "infinite",
+    expiresAt: null,
+    createdAt,
+    updatedAt: createdAt,
+    directory: {fullPath: "/reports"},
+  };
+
+  const search = (params: Record<string, string>) =>
+    GET(new NextRequest(`http://localhost/api/v1/files/search?${new URLSearchParams(params)}`));
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    jest.mocked(require("@/lib/auth").auth).mockResolvedValue({user: {id: "test-user-id"}});
+  });
+
+  it("should return matching files and a cursor for the next page", async () => {
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([
+      {id: "test-file-id", created_at: createdAt},
+      {id: "older-file-id", created_at: new Date("2026-01-01T00:00:00Z")},
+    ]);
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([mockFile]);
+
+    const response = await search({q: "*.csv size:>1KB", limit: "1"});
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.files).toHaveLength(1);
+    expect(data.files[0]).toMatchObject({
+      id: "test-file-id",
+      sizeBytes: 2048,
+      effectivePermissions: "private",
+      directory: {fullPath: "/reports"},
+    });
+    expect(data.nextCursor).toBe(encodeSearchCursor({createdAt, id: "test-file-id"}));
+  });
+
+  it("should continue from a cursor", async () => {
+    (prisma.$queryRaw as jest.Mock).mockResolvedValue([]);
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([]);
+
+    const cursor = encodeSearchCursor({createdAt, id: "test-file-id"});
+    const response = await search({q: "report", cursor});
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({files: [], nextCursor: null});
+    const [, ...values] = (prisma.$queryRaw as jest.Mock).mock.calls[0];
+    expect(JSON.stringify(values)).toContain("test-file-id");
+  });
+
+  it("should return 400 for a query it can't parse", async () => {
+    const response = await search({q: "size:huge"});
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toMatch(/^Invalid size "huge"/);
+    expect(prisma.$queryRaw).not.toHaveBeenCalled();
+  });
+
+  it("should return 400 for an invalid cursor", async () => {
+    const response = await search({q: "report", cursor: "garbage"});
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Invalid cursor");
+  });
+
+  it("should require a query", async () => {
+    const response = await search({});
+
+    expect(response.status).toBe(400);
+    expect((await response.json()).error).toBe("Validation error");
+  });
+
+  it("should return 401 if not authenticated", async () => {
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    jest.mocked(require("@/lib/auth").auth).mockResolvedValue(null);
+
+    const response = await search({q: "report"});
+
+    expect(response.status).toBe(401);
+  });
+});
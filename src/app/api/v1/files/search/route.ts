@@ -0,0 +1,44 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {decodeSearchCursor, parseSearchQuery, searchFiles} from "@/lib/file-search";
+import {searchFilesQuerySchema} from "@hulkastorus/sdk/contract";
+import {z} from "zod";
+
+// GET /api/v1/files/search - Search the user's files by name, type, size, expiry and path
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const {searchParams} = new URL(request.url);
+    const {q, limit, cursor} = searchFilesQuerySchema.parse({
+      q: searchParams.get("q") ?? undefined,
+      limit: searchParams.get("limit") ?? undefined,
+      cursor: searchParams.get("cursor") ?? undefined,
+    });
+
+    const parsed = parseSearchQuery(q);
+    if (!parsed.ok) {
+      return NextResponse.json({error: parsed.error}, {status: 400});
+    }
+
+    const after = cursor ? decodeSearchCursor(cursor) : undefined;
+    if (after === null) {
+      return NextResponse.json({error: "Invalid cursor"}, {status: 400});
+    }
+
+    const result = await searchFiles(authResult.userId, parsed.query, {limit, after});
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error("Error searching files:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
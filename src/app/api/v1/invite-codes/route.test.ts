@@ -0,0 +1,84 @@
+import {GET} from "./route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    inviteCode: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+describe("GET /api/v1/invite-codes", () => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const auth = jest.mocked(require("@/lib/auth").auth);
+  const createdAt = new Date("2025-08-16T12:00:00Z");
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue({
+      user: {id: "test-user-id", email: "test@example.com"},
+    });
+  });
+
+  it("should list the user's invite codes with remaining uses", async () => {
+    (prisma.inviteCode.findMany as jest.Mock).mockResolvedValue([
+      {id: "invite-1", code: "AAAA-BBBB", maxUses: 1, useCount: 0, expiresAt: null, createdAt},
+      {id: "invite-2", code: "CCCC-DDDD", maxUses: 3, useCount: 3, expiresAt: null, createdAt},
+      {
+        id: "invite-3",
+        code: "EEEE-FFFF",
+        maxUses: 1,
+        useCount: 0,
+        expiresAt: new Date("2020-01-01T00:00:00Z"),
+        createdAt,
+      },
+    ]);
+
+    const response = await GET(new NextRequest("http://localhost:3000/api/v1/invite-codes"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(prisma.inviteCode.findMany).toHaveBeenCalledWith({
+      where: {issuerId: "test-user-id"},
+      orderBy: {createdAt: "desc"},
+    });
+    expect(data.inviteCodes).toEqual([
+      {
+        id: "invite-1",
+        code: "AAAA-BBBB",
+        maxUses: 1,
+        useCount: 0,
+        remainingUses: 1,
+        expiresAt: null,
+        createdAt: createdAt.toISOString(),
+      },
+      expect.objectContaining({id: "invite-2", remainingUses: 0}),
+      expect.objectContaining({id: "invite-3", remainingUses: 0}),
+    ]);
+  });
+
+  it("should require authentication", async () => {
+    auth.mockResolvedValue(null);
+
+    const response = await GET(new NextRequest("http://localhost:3000/api/v1/invite-codes"));
+
+    expect(response.status).toBe(401);
+    expect(prisma.inviteCode.findMany).not.toHaveBeenCalled();
+  });
+
+  it("should handle database errors", async () => {
+    (prisma.inviteCode.findMany as jest.Mock).mockRejectedValue(new Error("Database error"));
+
+    const response = await GET(new NextRequest("http://localhost:3000/api/v1/invite-codes"));
+
+    expect(response.status).toBe(500);
+  });
+});
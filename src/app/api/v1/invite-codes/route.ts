@@ -0,0 +1,38 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {prisma} from "@/lib/prisma";
+
+// GET /api/v1/invite-codes - List the invite codes allotted to the user
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const inviteCodes = await prisma.inviteCode.findMany({
+      where: {issuerId: authResult.userId},
+      orderBy: {createdAt: "desc"},
+    });
+
+    const now = new Date();
+
+    return NextResponse.json({
+      inviteCodes: inviteCodes.map((inviteCode) => ({
+        id: inviteCode.id,
+        code: inviteCode.code,
+        maxUses: inviteCode.maxUses,
+        useCount: inviteCode.useCount,
+        remainingUses:
+          inviteCode.expiresAt && inviteCode.expiresAt <= now
+            ? 0
+            : Math.max(0, inviteCode.maxUses - inviteCode.useCount),
+        expiresAt: inviteCode.expiresAt?.toISOString() || null,
+        createdAt: inviteCode.createdAt.toISOString(),
+      })),
+    });
+  } catch (error) {
+    console.error("Error listing invite codes:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
@@ -0,0 +1,17 @@
+import {GET} from "./route";
+
+describe("GET /api/v1/openapi.json", () => {
+  it("should serve the OpenAPI document without authentication", async () => {
+    const response = await GET();
+    const document = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(document.openapi).toBe("3.1.0");
+    expect(document.paths["/api/v1/files"]).toHaveProperty("post");
+    expect(document.paths["/api/v1/openapi.json"].get.security).toEqual([]);
+    expect(document.components.securitySchemes.apiKey).toMatchObject({
+      type: "http",
+      scheme: "bearer",
+    });
+  });
+});
@@ -0,0 +1,9 @@
+import {NextResponse} from "next/server";
+import {buildOpenApiDocument} from "@/lib/openapi";
+
+const document = buildOpenApiDocument();
+
+// GET /api/v1/openapi.json - The OpenAPI 3.1 document describing /api/v1
+export async function GET() {
+  return NextResponse.json(document);
+}
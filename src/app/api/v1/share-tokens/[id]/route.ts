@@ -0,0 +1,26 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {revokeShareToken} from "@/lib/share-tokens";
+
+// DELETE /api/v1/share-tokens/:id - Revoke a share token
+export async function DELETE(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const revoked = await revokeShareToken(authResult.userId, id);
+
+    if (!revoked) {
+      return NextResponse.json({error: "Share token not found"}, {status: 404});
+    }
+
+    return NextResponse.json({message: "Share token revoked"});
+  } catch (error) {
+    console.error("Error revoking share token:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
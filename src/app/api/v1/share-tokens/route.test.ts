@@ -0,0 +1,198 @@
+import {GET, POST} from "./route";
+import {DELETE} from "./[id]/route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+import {verifyJwt} from "@/lib/jwt";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    file: {
+      findFirst: jest.fn(),
+    },
+    directory: {
+      findFirst: jest.fn(),
+    },
+    shareToken: {
+      findMany: jest.fn(),
+      findFirst: jest.fn(),
+      create: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-share-id",
+}));
+
+describe("/api/v1/share-tokens", () => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const auth = jest.mocked(require("@/lib/auth").auth);
+  const createdAt = new Date("2025-08-17T12:00:00Z");
+  const expiresAt = new Date("2025-08-24T12:00:00Z");
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NEXTAUTH_SECRET = "test-secret";
+    auth.mockResolvedValue({
+      user: {id: "test-user-id", email: "test@example.com"},
+    });
+    (prisma.shareToken.create as jest.Mock).mockImplementation(({data}) => ({
+      downloadCount: 0,
+      revokedAt: null,
+      createdAt,
+      updatedAt: createdAt,
+      ...data,
+    }));
+  });
+
+  function createRequest(body: unknown) {
+    return new NextRequest("http://localhost:3000/api/v1/share-tokens", {
+      method: "POST",
+      body: JSON.stringify(body),
+    });
+  }
+
+  describe("GET /api/v1/share-tokens", () => {
+    it("should list the user's share tokens", async () => {
+      (prisma.shareToken.findMany as jest.Mock).mockResolvedValue([
+        {
+          id: "share-1",
+          userId: "test-user-id",
+          fileId: "file-1",
+          directoryId: null,
+          maxDownloads: 5,
+          downloadCount: 2,
+          expiresAt,
+          revokedAt: null,
+          createdAt,
+          updatedAt: createdAt,
+        },
+      ]);
+
+      const response = await GET(new NextRequest("http://localhost:3000/api/v1/share-tokens"));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(prisma.shareToken.findMany).toHaveBeenCalledWith({
+        where: {userId: "test-user-id"},
+        orderBy: {createdAt: "desc"},
+      });
+      expect(data.shareTokens).toEqual([
+        {
+          id: "share-1",
+          fileId: "file-1",
+          directoryId: null,
+          maxDownloads: 5,
+          downloadCount: 2,
+          expiresAt: expiresAt.toISOString(),
+          revokedAt: null,
+          createdAt: createdAt.toISOString(),
+        },
+      ]);
+    });
+
+    it("should require authentication", async () => {
+      auth.mockResolvedValue(null);
+
+      const response = await GET(new NextRequest("http://localhost:3000/api/v1/share-tokens"));
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("POST /api/v1/share-tokens", () => {
+    it("should create a file share token with a download link", async () => {
+      (prisma.file.findFirst as jest.Mock).mockResolvedValue({id: "file-1"});
+
+      const response = await POST(createRequest({fileId: "file-1", maxDownloads: 3}));
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.id).toBe("test-share-id");
+      expect(data.maxDownloads).toBe(3);
+      expect(data.url).toBe(`http://localhost:3000/d/file-1?token=${data.token}`);
+      expect(verifyJwt(data.token)).toEqual(
+        expect.objectContaining({sub: "test-user-id", sid: "test-share-id", purpose: "share"}),
+      );
+    });
+
+    it("should create a directory share token without a link", async () => {
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue({id: "dir-1"});
+
+      const response = await POST(createRequest({directoryId: "dir-1", expiresIn: 3600}));
+      const data = await response.json();
+
+      expect(response.status).toBe(201);
+      expect(data.directoryId).toBe("dir-1");
+      expect(data.url).toBeNull();
+      expect(data.token).toEqual(expect.any(String));
+    });
+
+    it("should require exactly one of fileId and directoryId", async () => {
+      for (const body of [{}, {fileId: "file-1", directoryId: "dir-1"}]) {
+        const response = await POST(createRequest(body));
+        const data = await response.json();
+
+        expect(response.status).toBe(400);
+        expect(data.error).toBe("Validation error");
+      }
+      expect(prisma.shareToken.create).not.toHaveBeenCalled();
+    });
+
+    it("should cap the lifetime at 30 days", async () => {
+      const response = await POST(createRequest({fileId: "file-1", expiresIn: 31 * 24 * 3600}));
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should return 404 for files the user doesn't own", async () => {
+      (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await POST(createRequest({fileId: "other-file"}));
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe("File not found");
+    });
+  });
+
+  describe("DELETE /api/v1/share-tokens/:id", () => {
+    function deleteRequest() {
+      return DELETE(
+        new NextRequest("http://localhost:3000/api/v1/share-tokens/share-1", {method: "DELETE"}),
+        {params: Promise.resolve({id: "share-1"})},
+      );
+    }
+
+    it("should revoke the token", async () => {
+      (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 1});
+
+      const response = await deleteRequest();
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe("Share token revoked");
+      expect(prisma.shareToken.updateMany).toHaveBeenCalledWith({
+        where: {id: "share-1", userId: "test-user-id", revokedAt: null},
+        data: {revokedAt: expect.any(Date)},
+      });
+    });
+
+    it("should return 404 for other users' tokens", async () => {
+      (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 0});
+      (prisma.shareToken.findFirst as jest.Mock).mockResolvedValue(null);
+
+      const response = await deleteRequest();
+
+      expect(response.status).toBe(404);
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import {NextRequest, NextResponse} from "next/server";
+import type {ShareToken} from "@prisma/client";
+import {authenticateRequest} from "@/lib/api-auth";
+import {getAppUrl} from "@/lib/email-verification";
+import {prisma} from "@/lib/prisma";
+import {createShareToken} from "@/lib/share-tokens";
+import {createShareTokenSchema} from "@hulkastorus/sdk/contract";
+import {z} from "zod";
+
+function formatShareToken(shareToken: ShareToken) {
+  return {
+    id: shareToken.id,
+    fileId: shareToken.fileId,
+    directoryId: shareToken.directoryId,
+    maxDownloads: shareToken.maxDownloads,
+    downloadCount: shareToken.downloadCount,
+    expiresAt: shareToken.expiresAt.toISOString(),
+    revokedAt: shareToken.revokedAt?.toISOString() || null,
+    createdAt: shareToken.createdAt.toISOString(),
+  };
+}
+
+// GET /api/v1/share-tokens - List the user's share tokens
+export async function GET(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const shareTokens = await prisma.shareToken.findMany({
+      where: {userId: authResult.userId},
+      orderBy: {createdAt: "desc"},
+    });
+
+    return NextResponse.json({shareTokens: shareTokens.map(formatShareToken)});
+  } catch (error) {
+    console.error("Error listing share tokens:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
+
+// POST /api/v1/share-tokens - Create a share token for a file or directory
+export async function POST(request: NextRequest) {
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    const body = await request.json();
+    const {fileId, directoryId, expiresIn, maxDownloads} = createShareTokenSchema.parse(body);
+
+    const result = await createShareToken({
+      userId: authResult.userId,
+      fileId,
+      directoryId,
+      expiresInSeconds: expiresIn,
+      maxDownloads,
+    });
+
+    if (!result.ok) {
+      return NextResponse.json({error: result.error}, {status: 404});
+    }
+
+    // The token is only returned once; directory tokens are appended to each file's link
+    return NextResponse.json(
+      {
+        ...formatShareToken(result.shareToken),
+        token: result.token,
+        url: fileId ? `${getAppUrl()}/d/${fileId}?token=${result.token}` : null,
+      },
+      {status: 201},
+    );
+  } catch (error) {
+    console.error("Error creating share token:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
@@ -0,0 +1,167 @@
+import {POST, PUT} from "./route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+import {createEmailVerificationToken} from "@/lib/email-verification";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock mail delivery
+const mockSendMail = jest.fn();
+jest.mock("@/lib/mailer", () => ({
+  getMailTransport: () => ({send: mockSendMail}),
+}));
+
+function createRequest(id: string, method: string, body?: unknown) {
+  return new NextRequest(`http://localhost:3000/api/v1/users/${id}/email-verification`, {
+    method,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+function params(id: string) {
+  return {params: Promise.resolve({id})};
+}
+
+describe("/api/v1/users/:id/email-verification", () => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const auth = jest.mocked(require("@/lib/auth").auth);
+
+  const mockUser = {
+    id: "test-user-id",
+    email: "test@example.com",
+    firstName: "Test",
+    isEmailVerified: false,
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NEXTAUTH_SECRET = "test-secret";
+    auth.mockResolvedValue({
+      user: {id: "test-user-id", email: "test@example.com"},
+    });
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(mockUser);
+  });
+
+  describe("POST", () => {
+    it("should send a verification email", async () => {
+      const response = await POST(createRequest("test-user-id", "POST"), params("test-user-id"));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe("Verification email sent");
+      expect(mockSendMail).toHaveBeenCalledWith(expect.objectContaining({to: "test@example.com"}));
+    });
+
+    it("should do nothing when already verified", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({...mockUser, isEmailVerified: true});
+
+      const response = await POST(createRequest("test-user-id", "POST"), params("test-user-id"));
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe("Email already verified");
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+
+    it("should require authentication", async () => {
+      auth.mockResolvedValue(null);
+
+      const response = await POST(createRequest("test-user-id", "POST"), params("test-user-id"));
+
+      expect(response.status).toBe(401);
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+
+    it("should not send email for other users", async () => {
+      const response = await POST(createRequest("other-user-id", "POST"), params("other-user-id"));
+
+      expect(response.status).toBe(404);
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+
+    it("should handle mail errors", async () => {
+      mockSendMail.mockRejectedValueOnce(new Error("SMTP unavailable"));
+
+      const response = await POST(createRequest("test-user-id", "POST"), params("test-user-id"));
+      const data = await response.json();
+
+      expect(response.status).toBe(500);
+      expect(data.error).toBe("Internal server error");
+    });
+  });
+
+  describe("PUT", () => {
+    it("should verify the email with a valid token", async () => {
+      const token = createEmailVerificationToken(mockUser);
+
+      const response = await PUT(
+        createRequest("test-user-id", "PUT", {token}),
+        params("test-user-id"),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe("Email verified");
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: {id: "test-user-id"},
+        data: {isEmailVerified: true},
+      });
+    });
+
+    it("should not need a session", async () => {
+      auth.mockResolvedValue(null);
+      const token = createEmailVerificationToken(mockUser);
+
+      const response = await PUT(
+        createRequest("test-user-id", "PUT", {token}),
+        params("test-user-id"),
+      );
+
+      expect(response.status).toBe(200);
+    });
+
+    it("should reject invalid tokens", async () => {
+      const response = await PUT(
+        createRequest("test-user-id", "PUT", {token: "not-a-token"}),
+        params("test-user-id"),
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invalid or expired verification token");
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject tokens for another user", async () => {
+      const token = createEmailVerificationToken(mockUser);
+
+      const response = await PUT(
+        createRequest("other-user-id", "PUT", {token}),
+        params("other-user-id"),
+      );
+
+      expect(response.status).toBe(400);
+    });
+
+    it("should validate the request body", async () => {
+      const response = await PUT(createRequest("test-user-id", "PUT", {}), params("test-user-id"));
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {sendVerificationEmail, verifyEmailToken} from "@/lib/email-verification";
+import {prisma} from "@/lib/prisma";
+import {verifyEmailSchema} from "@hulkastorus/sdk/contract";
+import {z} from "zod";
+
+// POST /api/v1/users/:id/email-verification - Send a verification email
+export async function POST(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    // Users can only request verification for themselves
+    if (id !== authResult.userId) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    const user = await prisma.user.findUnique({
+      where: {id},
+      select: {id: true, email: true, firstName: true, isEmailVerified: true},
+    });
+
+    if (!user) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    if (user.isEmailVerified) {
+      return NextResponse.json({message: "Email already verified"});
+    }
+
+    await sendVerificationEmail(user);
+
+    return NextResponse.json({message: "Verification email sent"});
+  } catch (error) {
+    console.error("Error sending verification email:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
+
+// PUT /api/v1/users/:id/email-verification - Verify an email address with a token
+export async function PUT(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    // The token proves ownership of the address, so no session is required
+    const body = await request.json();
+    const {token} = verifyEmailSchema.parse(body);
+
+    const result = await verifyEmailToken(token, id);
+    if (!result.ok) {
+      return NextResponse.json({error: result.error}, {status: 400});
+    }
+
+    return NextResponse.json({message: "Email verified"});
+  } catch (error) {
+    console.error("Error verifying email:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
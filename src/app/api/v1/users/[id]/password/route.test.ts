@@ -0,0 +1,139 @@
+import {PUT} from "./route";
+import {NextRequest} from "next/server";
+import bcrypt from "bcryptjs";
+import {prisma} from "@/lib/prisma";
+
+// Mock Prisma; transactions run against the same mocks
+jest.mock("@/lib/prisma", () => {
+  const prisma = {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    verificationToken: {
+      deleteMany: jest.fn(),
+    },
+    apiKey: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return {prisma};
+});
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
+// Mock bcryptjs
+jest.mock("bcryptjs", () => ({
+  compare: jest.fn(),
+  hash: jest.fn().mockResolvedValue("new-hashed-password"),
+}));
+
+function passwordRequest(body: unknown, headers?: Record<string, string>) {
+  return new NextRequest("http://localhost:3000/api/v1/users/test-user-id/password", {
+    method: "PUT",
+    headers,
+    body: JSON.stringify(body),
+  });
+}
+
+const params = {params: Promise.resolve({id: "test-user-id"})};
+
+describe("PUT /api/v1/users/:id/password", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue({
+      user: {id: "test-user-id", email: "test@example.com"},
+    });
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({password: "hashed-password"});
+    (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+  });
+
+  it("should update the password and invalidate reset links", async () => {
+    const response = await PUT(
+      passwordRequest({currentPassword: "password123", newPassword: "new-password"}),
+      params,
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data.message).toBe("Password updated");
+    expect(bcrypt.compare).toHaveBeenCalledWith("password123", "hashed-password");
+    expect(bcrypt.hash).toHaveBeenCalledWith("new-password", 10);
+    expect(prisma.user.update).toHaveBeenCalledWith({
+      where: {id: "test-user-id"},
+      data: {password: "new-hashed-password"},
+    });
+    expect(prisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+      where: {identifier: "password-reset:test-user-id"},
+    });
+  });
+
+  it("should reject an incorrect current password", async () => {
+    (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+    const response = await PUT(
+      passwordRequest({currentPassword: "wrong", newPassword: "new-password"}),
+      params,
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(403);
+    expect(data.error).toBe("Current password is incorrect");
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it("should reject short passwords", async () => {
+    const response = await PUT(
+      passwordRequest({currentPassword: "password123", newPassword: "short"}),
+      params,
+    );
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.details[0].message).toBe("Password must be at least 6 characters");
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 for other users", async () => {
+    const response = await PUT(
+      passwordRequest({currentPassword: "password123", newPassword: "new-password"}),
+      {params: Promise.resolve({id: "other-user-id"})},
+    );
+
+    expect(response.status).toBe(404);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+
+  it("should reject requests authenticated with an API key", async () => {
+    (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+      id: "test-key-id",
+      userId: "test-user-id",
+      permissions: "all",
+      expiresAt: null,
+    });
+
+    const response = await PUT(
+      passwordRequest(
+        {currentPassword: "password123", newPassword: "new-password"},
+        {Authorization: "Bearer hulk_test_key"},
+      ),
+      params,
+    );
+
+    expect(response.status).toBe(403);
+    expect(prisma.user.update).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,44 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {changeUserPassword, verifyUserPassword} from "@/lib/users";
+import {updatePasswordSchema} from "@hulkastorus/sdk/contract";
+import {z} from "zod";
+
+// PUT /api/v1/users/:id/password - Update a user's password
+export async function PUT(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    if (authResult.method === "api_key") {
+      return NextResponse.json({error: "API keys cannot modify accounts"}, {status: 403});
+    }
+
+    if (id !== authResult.userId) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    const body = await request.json();
+    const {currentPassword, newPassword} = updatePasswordSchema.parse(body);
+
+    if (!(await verifyUserPassword(id, currentPassword))) {
+      return NextResponse.json({error: "Current password is incorrect"}, {status: 403});
+    }
+
+    await changeUserPassword(id, newPassword);
+
+    return NextResponse.json({message: "Password updated"});
+  } catch (error) {
+    console.error("Error updating password:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
@@ -0,0 +1,384 @@
+import {GET, PUT, DELETE} from "./route";
+import {NextRequest} from "next/server";
+import bcrypt from "bcryptjs";
+import {prisma} from "@/lib/prisma";
+import {getR2Client} from "@/lib/r2-config";
+import {
+  getMockR2Server,
+  startMockR2Server,
+  stopMockR2Server,
+} from "../../../../../../tests/mocks/r2-server";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+      delete: jest.fn(),
+    },
+    file: {
+      findMany: jest.fn(),
+    },
+    apiKey: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
+// Mock bcryptjs
+jest.mock("bcryptjs", () => ({
+  compare: jest.fn(),
+}));
+
+// Mock mail delivery
+const mockSendMail = jest.fn();
+jest.mock("@/lib/mailer", () => ({
+  getMailTransport: () => ({send: mockSendMail}),
+}));
+
+// Mock R2 config to use test server
+jest.mock("@/lib/r2-config", () => {
+  const originalModule = jest.requireActual("@/lib/r2-config");
+  return {
+    ...originalModule,
+    currentEnv: "test",
+    getR2Client: () => {
+      const {R2Client} = jest.requireActual("@/lib/r2-client");
+      return new R2Client({
+        endpoint: "http://localhost:9015",
+        accessKeyId: "test",
+        secretAccessKey: "test",
+        bucketName: "test-bucket",
+        region: "auto",
+      });
+    },
+  };
+});
+
+const mockUser = {
+  id: "test-user-id",
+  email: "test@example.com",
+  firstName: "John",
+  lastName: "Doe",
+  isEmailVerified: true,
+  plan: "free",
+  quotaBytes: null,
+  createdAt: new Date("2025-08-01T00:00:00.000Z"),
+  updatedAt: new Date("2025-08-02T00:00:00.000Z"),
+};
+
+function userRequest(method: string, body?: unknown, headers?: Record<string, string>) {
+  return new NextRequest("http://localhost:3000/api/v1/users/test-user-id", {
+    method,
+    headers,
+    body: body === undefined ? undefined : JSON.stringify(body),
+  });
+}
+
+const params = {params: Promise.resolve({id: "test-user-id"})};
+
+describe("/api/v1/users/:id", () => {
+  beforeAll(async () => {
+    await startMockR2Server(9015);
+  });
+
+  afterAll(async () => {
+    await stopMockR2Server();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    getMockR2Server()?.clear();
+    process.env.NEXTAUTH_SECRET = "test-secret";
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue({
+      user: {id: "test-user-id", email: "test@example.com"},
+    });
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+      ...mockUser,
+      password: "hashed-password",
+    });
+    (bcrypt.compare as jest.Mock).mockResolvedValue(true);
+  });
+
+  describe("GET /api/v1/users/:id", () => {
+    it("should return the user's metadata", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(mockUser);
+
+      const response = await GET(userRequest("GET"), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data).toEqual({
+        ...mockUser,
+        createdAt: "2025-08-01T00:00:00.000Z",
+        updatedAt: "2025-08-02T00:00:00.000Z",
+      });
+      expect(data.password).toBeUndefined();
+    });
+
+    it("should serialize quota overrides as numbers", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        ...mockUser,
+        quotaBytes: BigInt(1024),
+      });
+
+      const response = await GET(userRequest("GET"), params);
+      const data = await response.json();
+
+      expect(data.quotaBytes).toBe(1024);
+    });
+
+    it("should return 404 for other users", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/users/other-user-id");
+
+      const response = await GET(request, {params: Promise.resolve({id: "other-user-id"})});
+      const data = await response.json();
+
+      expect(response.status).toBe(404);
+      expect(data.error).toBe("User not found");
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should return 401 when unauthenticated", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      jest.mocked(require("@/lib/auth").auth).mockResolvedValue(null);
+
+      const response = await GET(userRequest("GET"), params);
+
+      expect(response.status).toBe(401);
+    });
+  });
+
+  describe("PUT /api/v1/users/:id", () => {
+    it("should update the user's name", async () => {
+      (prisma.user.update as jest.Mock).mockResolvedValue({...mockUser, firstName: "Jane"});
+
+      const response = await PUT(userRequest("PUT", {firstName: " Jane "}), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.firstName).toBe("Jane");
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {id: "test-user-id"},
+          data: {firstName: "Jane"},
+        }),
+      );
+      expect(bcrypt.compare).not.toHaveBeenCalled();
+    });
+
+    it("should require the current password to change email", async () => {
+      const response = await PUT(userRequest("PUT", {email: "new@example.com"}), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Current password is required to change email");
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject an incorrect current password", async () => {
+      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+      const response = await PUT(
+        userRequest("PUT", {email: "new@example.com", currentPassword: "wrong"}),
+        params,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error).toBe("Current password is incorrect");
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should change email, reset verification and send a verification email", async () => {
+      (prisma.user.update as jest.Mock).mockResolvedValue({
+        ...mockUser,
+        email: "new@example.com",
+        isEmailVerified: false,
+      });
+
+      const response = await PUT(
+        userRequest("PUT", {email: "new@example.com", currentPassword: "password123"}),
+        params,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.email).toBe("new@example.com");
+      expect(bcrypt.compare).toHaveBeenCalledWith("password123", "hashed-password");
+      expect(prisma.user.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {email: "new@example.com", isEmailVerified: false},
+        }),
+      );
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: "new@example.com",
+          text: expect.stringContaining("/verify-email?token="),
+        }),
+      );
+    });
+
+    it("should not require a password when the email is unchanged", async () => {
+      (prisma.user.update as jest.Mock).mockResolvedValue(mockUser);
+
+      const response = await PUT(userRequest("PUT", {email: "test@example.com"}), params);
+
+      expect(response.status).toBe(200);
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+
+    it("should reject emails that are already taken", async () => {
+      (prisma.user.update as jest.Mock).mockRejectedValue({code: "P2002"});
+
+      const response = await PUT(
+        userRequest("PUT", {email: "taken@example.com", currentPassword: "password123"}),
+        params,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Email already exists");
+    });
+
+    it("should reject unknown fields", async () => {
+      const response = await PUT(userRequest("PUT", {isEmailVerified: true}), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject requests authenticated with an API key", async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+        id: "test-key-id",
+        userId: "test-user-id",
+        permissions: "all",
+        expiresAt: null,
+      });
+
+      const response = await PUT(
+        userRequest("PUT", {firstName: "Jane"}, {Authorization: "Bearer hulk_test_key"}),
+        params,
+      );
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error).toBe("API keys cannot modify accounts");
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for other users", async () => {
+      const response = await PUT(userRequest("PUT", {firstName: "Jane"}), {
+        params: Promise.resolve({id: "other-user-id"}),
+      });
+
+      expect(response.status).toBe(404);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("DELETE /api/v1/users/:id", () => {
+    const putObject = (lifecyclePolicy: string, fileId: string) =>
+      getR2Client().putObject({
+        env: "test",
+        lifecyclePolicy,
+        userId: "test-user-id",
+        fileId,
+        body: "content",
+      });
+
+    it("should delete the user and all of their R2 objects", async () => {
+      await putObject("infinite", "file-1");
+      await putObject("30d", "file-2");
+      // Not referenced by any file row
+      await putObject("7d", "orphan");
+      await getR2Client().putObject({
+        env: "test",
+        lifecyclePolicy: "infinite",
+        userId: "other-user-id",
+        fileId: "other-file",
+        body: "content",
+      });
+
+      (prisma.file.findMany as jest.Mock).mockResolvedValue([
+        {r2Locator: "test/infinite/test-user-id/file-1", uploadId: null},
+        {r2Locator: "test/30d/test-user-id/file-2", uploadId: null},
+      ]);
+      (prisma.user.delete as jest.Mock).mockResolvedValue({});
+
+      const response = await DELETE(userRequest("DELETE", {password: "password123"}), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(200);
+      expect(data.message).toBe("User deleted successfully");
+      expect(getMockR2Server()?.getObjectKeys()).toEqual([
+        "test/infinite/other-user-id/other-file",
+      ]);
+      expect(prisma.user.delete).toHaveBeenCalledWith({where: {id: "test-user-id"}});
+    });
+
+    it("should require the password", async () => {
+      const response = await DELETE(userRequest("DELETE", {}), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it("should reject an incorrect password", async () => {
+      await putObject("infinite", "file-1");
+      (bcrypt.compare as jest.Mock).mockResolvedValue(false);
+
+      const response = await DELETE(userRequest("DELETE", {password: "wrong"}), params);
+      const data = await response.json();
+
+      expect(response.status).toBe(403);
+      expect(data.error).toBe("Password is incorrect");
+      expect(getMockR2Server()?.getObjectCount()).toBe(1);
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it("should return 404 for other users", async () => {
+      const response = await DELETE(userRequest("DELETE", {password: "password123"}), {
+        params: Promise.resolve({id: "other-user-id"}),
+      });
+
+      expect(response.status).toBe(404);
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+    });
+
+    it("should reject requests authenticated with an API key", async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+        id: "test-key-id",
+        userId: "test-user-id",
+        permissions: "all",
+        expiresAt: null,
+      });
+
+      const response = await DELETE(
+        userRequest("DELETE", {password: "password123"}, {Authorization: "Bearer hulk_test_key"}),
+        params,
+      );
+
+      expect(response.status).toBe(403);
+      expect(prisma.user.delete).not.toHaveBeenCalled();
+    });
+  });
+});
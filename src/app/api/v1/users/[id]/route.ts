@@ -1,20 +1,184 @@
 import {NextRequest, NextResponse} from "next/server";
+import type {Prisma} from "@prisma/client";
+import {authenticateRequest} from "@/lib/api-auth";
+import {sendVerificationEmail} from "@/lib/email-verification";
 import {prisma} from "@/lib/prisma";
+import {deleteUserAccount, verifyUserPassword} from "@/lib/users";
+import {deleteUserSchema, updateUserSchema} from "@hulkastorus/sdk/contract";
+import {z} from "zod";
+
+const userSelect = {
+  id: true,
+  email: true,
+  firstName: true,
+  lastName: true,
+  isEmailVerified: true,
+  plan: true,
+  quotaBytes: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.UserSelect;
+
+function formatUser(user: Prisma.UserGetPayload<{select: typeof userSelect}>) {
+  return {
+    ...user,
+    quotaBytes: user.quotaBytes === null ? null : Number(user.quotaBytes),
+    createdAt: user.createdAt.toISOString(),
+    updatedAt: user.updatedAt.toISOString(),
+  };
+}
+
+// GET /api/v1/users/:id - Get user metadata
+export async function GET(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
 
-export async function DELETE(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
   try {
-    const {id} = await params;
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    // Users can only see themselves
+    if (id !== authResult.userId) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
 
-    // Barebones implementation - no auth check
-    await prisma.user.delete({
-      where: {
-        id: id,
-      },
+    const user = await prisma.user.findUnique({
+      where: {id},
+      select: userSelect,
     });
 
+    if (!user) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    return NextResponse.json(formatUser(user));
+  } catch (error) {
+    console.error("Error fetching user:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
+
+// PUT /api/v1/users/:id - Update a user's basic profile info
+export async function PUT(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    if (authResult.method === "api_key") {
+      return NextResponse.json({error: "API keys cannot modify accounts"}, {status: 403});
+    }
+
+    if (id !== authResult.userId) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    const body = await request.json();
+    const {currentPassword, ...updates} = updateUserSchema.parse(body);
+
+    const existing = await prisma.user.findUnique({
+      where: {id},
+      select: {email: true},
+    });
+
+    if (!existing) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    const emailChanged = updates.email !== undefined && updates.email !== existing.email;
+
+    if (emailChanged) {
+      if (!currentPassword) {
+        return NextResponse.json(
+          {error: "Current password is required to change email"},
+          {status: 400},
+        );
+      }
+
+      if (!(await verifyUserPassword(id, currentPassword))) {
+        return NextResponse.json({error: "Current password is incorrect"}, {status: 403});
+      }
+    }
+
+    const user = await prisma.user.update({
+      where: {id},
+      // A new address has to be verified again
+      data: emailChanged ? {...updates, isEmailVerified: false} : updates,
+      select: userSelect,
+    });
+
+    if (emailChanged) {
+      // The change is already saved; the user can request another email
+      try {
+        await sendVerificationEmail(user);
+      } catch (mailError) {
+        console.error("Error sending verification email:", mailError);
+      }
+    }
+
+    return NextResponse.json(formatUser(user));
+  } catch (error) {
+    console.error("Error updating user:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if ((error as any)?.code === "P2002") {
+      return NextResponse.json({error: "Email already exists"}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
+
+// DELETE /api/v1/users/:id - Delete a user along with all of their files
+export async function DELETE(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "write");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    if (authResult.method === "api_key") {
+      return NextResponse.json({error: "API keys cannot modify accounts"}, {status: 403});
+    }
+
+    if (id !== authResult.userId) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    const body = await request.json();
+    const {password} = deleteUserSchema.parse(body);
+
+    if (!(await verifyUserPassword(id, password))) {
+      return NextResponse.json({error: "Password is incorrect"}, {status: 403});
+    }
+
+    const result = await deleteUserAccount(id);
+
+    if (!result.deleted) {
+      return NextResponse.json(
+        {error: "Failed to delete some stored files, please try again"},
+        {status: 500},
+      );
+    }
+
     return NextResponse.json({message: "User deleted successfully"}, {status: 200});
   } catch (error) {
     console.error("Error deleting user:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
     return NextResponse.json({error: "Failed to delete user"}, {status: 500});
   }
 }
@@ -0,0 +1,112 @@
+import {GET} from "./route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    file: {
+      groupBy: jest.fn(),
+      aggregate: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+function createRequest(id: string) {
+  return new NextRequest(`http://localhost:3000/api/v1/users/${id}/usage`);
+}
+
+function params(id: string) {
+  return {params: Promise.resolve({id})};
+}
+
+describe("GET /api/v1/users/:id/usage", () => {
+  // eslint-disable-next-line @typescript-eslint/no-require-imports
+  const auth = jest.mocked(require("@/lib/auth").auth);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    auth.mockResolvedValue({
+      user: {id: "test-user-id", email: "test@example.com"},
+    });
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({plan: "pro", quotaBytes: null});
+    (prisma.file.groupBy as jest.Mock).mockResolvedValue([
+      {mimeType: "image/png", _count: {_all: 2}, _sum: {sizeBytes: BigInt(2048)}},
+      {mimeType: "text/csv", _count: {_all: 1}, _sum: {sizeBytes: BigInt(1024)}},
+    ]);
+  });
+
+  it("should return the user's usage", async () => {
+    const response = await GET(createRequest("test-user-id"), params("test-user-id"));
+    const data = await response.json();
+
+    expect(response.status).toBe(200);
+    expect(data).toEqual({
+      file_counts: {
+        total: 3,
+        images: 2,
+        videos: 0,
+        audios: 0,
+        models: 0,
+        datasets: 1,
+        documents: 0,
+        other: 0,
+      },
+      byte_counts: {
+        total: 3072,
+        images: 2048,
+        videos: 0,
+        audios: 0,
+        models: 0,
+        datasets: 1024,
+        documents: 0,
+        other: 0,
+      },
+      quota_bytes: 1024 * 1024 * 1024 * 1024,
+    });
+  });
+
+  it("should require authentication", async () => {
+    auth.mockResolvedValue(null);
+
+    const response = await GET(createRequest("test-user-id"), params("test-user-id"));
+
+    expect(response.status).toBe(401);
+    expect(prisma.file.groupBy).not.toHaveBeenCalled();
+  });
+
+  it("should not expose other users' usage", async () => {
+    const response = await GET(createRequest("other-user-id"), params("other-user-id"));
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("User not found");
+    expect(prisma.user.findUnique).not.toHaveBeenCalled();
+  });
+
+  it("should return 404 when the user no longer exists", async () => {
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+    const response = await GET(createRequest("test-user-id"), params("test-user-id"));
+
+    expect(response.status).toBe(404);
+  });
+
+  it("should handle database errors", async () => {
+    (prisma.file.groupBy as jest.Mock).mockRejectedValue(new Error("Database error"));
+
+    const response = await GET(createRequest("test-user-id"), params("test-user-id"));
+    const data = await response.json();
+
+    expect(response.status).toBe(500);
+    expect(data.error).toBe("Internal server error");
+  });
+});
@@ -0,0 +1,30 @@
+import {NextRequest, NextResponse} from "next/server";
+import {authenticateRequest} from "@/lib/api-auth";
+import {getUsage} from "@/lib/usage";
+
+// GET /api/v1/users/:id/usage - Get file and byte counts per category plus the storage quota
+export async function GET(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+
+  try {
+    const authResult = await authenticateRequest(request, "read");
+    if (!authResult.ok) {
+      return NextResponse.json({error: authResult.error}, {status: authResult.status});
+    }
+
+    // Users can only see their own usage; don't reveal whether other ids exist
+    if (id !== authResult.userId) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    const usage = await getUsage(id);
+    if (!usage) {
+      return NextResponse.json({error: "User not found"}, {status: 404});
+    }
+
+    return NextResponse.json(usage);
+  } catch (error) {
+    console.error("Error getting user usage:", error);
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
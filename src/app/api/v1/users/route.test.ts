@@ -1,17 +1,26 @@
 import {POST} from "./route";
-import {DELETE} from "./[id]/route";
 import {NextRequest} from "next/server";
 import {prisma} from "@/lib/prisma";
+import {readDocumentedResponse} from "../../../../../tests/api-contract";
 
-// Mock Prisma
-jest.mock("@/lib/prisma", () => ({
-  prisma: {
+// Mock Prisma; transactions run against the same mocks
+jest.mock("@/lib/prisma", () => {
+  const prisma = {
     user: {
       create: jest.fn(),
-      delete: jest.fn(),
     },
-  },
-}));
+    inviteCode: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    inviteRedemption: {
+      create: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return {prisma};
+});
 
 // Mock nanoid
 jest.mock("@/lib/nanoid", () => ({
@@ -23,9 +32,24 @@ jest.mock("bcryptjs", () => ({
   hash: jest.fn().mockResolvedValue("hashed-password"),
 }));
 
+// Mock mail delivery
+const mockSendMail = jest.fn();
+jest.mock("@/lib/mailer", () => ({
+  getMailTransport: () => ({send: mockSendMail}),
+}));
+
 describe("/api/v1/users", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    process.env.NEXTAUTH_SECRET = "test-secret";
+    (prisma.inviteCode.findUnique as jest.Mock).mockResolvedValue({
+      id: "invite-id",
+      code: "WELCOMETOTHEPARTYPAL",
+      maxUses: 1,
+      useCount: 0,
+      expiresAt: null,
+    });
+    (prisma.inviteCode.updateMany as jest.Mock).mockResolvedValue({count: 1});
   });
 
   describe("POST /api/v1/users", () => {
@@ -38,6 +62,8 @@ describe("/api/v1/users", () => {
         lastName: "Doe",
         inviteCode: "WELCOMETOTHEPARTYPAL",
         isEmailVerified: false,
+        plan: "free",
+        quotaBytes: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -56,7 +82,7 @@ describe("/api/v1/users", () => {
       });
 
       const response = await POST(request);
-      const data = await response.json();
+      const data = await readDocumentedResponse(request, response);
 
       // Verify bcrypt was called
       const bcrypt = await import("bcryptjs");
@@ -65,22 +91,188 @@ describe("/api/v1/users", () => {
       expect(response.status).toBe(201);
       expect(data.email).toBe("test@example.com");
       expect(data.password).toBeUndefined();
+
+      // The invite code is spent and the redemption recorded
+      expect(prisma.inviteCode.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({data: {useCount: {increment: 1}}}),
+      );
+      expect(prisma.inviteRedemption.create).toHaveBeenCalledWith({
+        data: {id: "test-nano-id", inviteCodeId: "invite-id", userId: "test-nano-id"},
+      });
     });
-  });
 
-  describe("DELETE /api/v1/users/:id", () => {
-    it("should delete a user", async () => {
-      (prisma.user.delete as jest.Mock).mockResolvedValue({});
+    it("should require an invite code", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/users", {
+        method: "POST",
+        body: JSON.stringify({email: "test@example.com", password: "password123"}),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
 
-      const request = new NextRequest("http://localhost:3000/api/v1/users/test-id", {
-        method: "DELETE",
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invite code is required");
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject a null body", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/users", {
+        method: "POST",
+        body: "null",
       });
 
-      const response = await DELETE(request, {params: Promise.resolve({id: "test-id"})});
-      const data = await response.json();
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject a body that isn't JSON", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/users", {
+        method: "POST",
+        body: "{not json",
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject invalid invite codes", async () => {
+      (prisma.inviteCode.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const request = new NextRequest("http://localhost:3000/api/v1/users", {
+        method: "POST",
+        body: JSON.stringify({
+          email: "test@example.com",
+          password: "password123",
+          inviteCode: "NOT-A-CODE",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invalid invite code");
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject used-up invite codes", async () => {
+      (prisma.inviteCode.updateMany as jest.Mock).mockResolvedValue({count: 0});
+
+      const request = new NextRequest("http://localhost:3000/api/v1/users", {
+        method: "POST",
+        body: JSON.stringify({
+          email: "test@example.com",
+          password: "password123",
+          inviteCode: "WELCOMETOTHEPARTYPAL",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Invite code has already been used");
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it("should send a verification email", async () => {
+      (prisma.user.create as jest.Mock).mockResolvedValue({
+        id: "test-nano-id",
+        email: "test@example.com",
+        firstName: "John",
+        isEmailVerified: false,
+      });
+
+      const request = new NextRequest("http://localhost:3000/api/v1/users", {
+        method: "POST",
+        body: JSON.stringify({
+          email: "test@example.com",
+          password: "password123",
+          inviteCode: "WELCOMETOTHEPARTYPAL",
+        }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+      expect(mockSendMail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: "test@example.com",
+          text: expect.stringContaining("/verify-email?token="),
+        }),
+      );
+    });
+
+    it("should still create the user when the email can't be sent", async () => {
+      (prisma.user.create as jest.Mock).mockResolvedValue({
+        id: "test-nano-id",
+        email: "test@example.com",
+        isEmailVerified: false,
+      });
+      mockSendMail.mockRejectedValue(new Error("SMTP unavailable"));
+
+      const request = new NextRequest("http://localhost:3000/api/v1/users", {
+        method: "POST",
+        body: JSON.stringify({
+          email: "test@example.com",
+          password: "password123",
+          inviteCode: "WELCOMETOTHEPARTYPAL",
+        }),
+      });
+
+      const response = await POST(request);
+
+      expect(response.status).toBe(201);
+    });
+
+    it("should reject invalid emails and short passwords", async () => {
+      const request = new NextRequest("http://localhost:3000/api/v1/users", {
+        method: "POST",
+        body: JSON.stringify({
+          email: "not-an-email",
+          password: "short",
+          inviteCode: "WELCOMETOTHEPARTYPAL",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
+
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Validation error");
+      expect(data.details.map((issue: {path: string[]}) => issue.path[0])).toEqual([
+        "email",
+        "password",
+      ]);
+      expect(prisma.inviteCode.updateMany).not.toHaveBeenCalled();
+      expect(prisma.user.create).not.toHaveBeenCalled();
+    });
+
+    it("should reject emails that are already registered", async () => {
+      (prisma.user.create as jest.Mock).mockRejectedValue({code: "P2002"});
+
+      const request = new NextRequest("http://localhost:3000/api/v1/users", {
+        method: "POST",
+        body: JSON.stringify({
+          email: "test@example.com",
+          password: "password123",
+          inviteCode: "WELCOMETOTHEPARTYPAL",
+        }),
+      });
+
+      const response = await POST(request);
+      const data = await readDocumentedResponse(request, response);
 
-      expect(response.status).toBe(200);
-      expect(data.message).toBe("User deleted successfully");
+      expect(response.status).toBe(400);
+      expect(data.error).toBe("Email already exists");
     });
   });
 });
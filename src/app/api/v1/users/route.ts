@@ -1,27 +1,29 @@
 import {NextRequest, NextResponse} from "next/server";
-import {prisma} from "@/lib/prisma";
-import {generateNanoId} from "@/lib/nanoid";
-import * as bcrypt from "bcryptjs";
+import {createUser} from "@/lib/users";
+import {sendVerificationEmail} from "@/lib/email-verification";
+import {createUserSchema} from "@hulkastorus/sdk/contract";
+import {z} from "zod";
 
 export async function POST(request: NextRequest) {
   try {
-    const body = await request.json();
-
-    // Hash the password
-    const hashedPassword = await bcrypt.hash(body.password, 10);
-
-    // Barebones implementation - minimal validation
-    const user = await prisma.user.create({
-      data: {
-        id: generateNanoId(),
-        email: body.email,
-        password: hashedPassword,
-        firstName: body.firstName || "",
-        lastName: body.lastName || "",
-        inviteCode: body.inviteCode || "",
-        isEmailVerified: false,
-      },
-    });
+    // A body that isn't JSON fails validation like any other bad body
+    const body = await request.json().catch(() => null);
+    const data = createUserSchema.parse(body);
+
+    const result = await createUser(data);
+
+    if (!result.ok) {
+      return NextResponse.json({error: result.error}, {status: 400});
+    }
+
+    const {user} = result;
+
+    // A failed send shouldn't fail registration; the user can request another email
+    try {
+      await sendVerificationEmail(user);
+    } catch (mailError) {
+      console.error("Error sending verification email:", mailError);
+    }
 
     // Return user without password
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
@@ -29,6 +31,19 @@ export async function POST(request: NextRequest) {
 
     return NextResponse.json(userWithoutPassword, {status: 201});
   } catch (error) {
+    if (error instanceof z.ZodError) {
+      if (error.issues.some((issue) => issue.path[0] === "inviteCode")) {
+        return NextResponse.json({error: "Invite code is required"}, {status: 400});
+      }
+
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if ((error as any)?.code === "P2002") {
+      return NextResponse.json({error: "Email already exists"}, {status: 400});
+    }
+
     console.error("Error creating user:", error);
     return NextResponse.json({error: "Failed to create user"}, {status: 500});
   }
@@ -123,7 +123,7 @@ export default function DashboardPage() {
           </div>
 
           {/* Dashboard Stats */}
-          <DashboardStats refreshTrigger={refreshTrigger} />
+          <DashboardStats userId={session?.user?.id} refreshTrigger={refreshTrigger} />
 
           {/* File List */}
           <FileList refreshTrigger={refreshTrigger} />
@@ -1,3 +1,6 @@
+import {ApiKeyManager} from "@/components/api-keys/api-key-manager";
+import {InviteCodeList} from "@/components/invite-codes/invite-code-list";
+
 export default function SettingsPage() {
   return (
     <div className="min-h-screen bg-black text-white">
@@ -81,20 +84,15 @@ export default function SettingsPage() {
 
             <section className="border border-gray-800 rounded-lg p-6">
               <h2 className="text-xl font-semibold mb-4">API Keys</h2>
-              <div className="space-y-4">
-                <div className="bg-gray-900 rounded-lg">
-                  <div className="grid grid-cols-4 gap-4 p-4 border-b border-gray-800 text-sm font-medium text-gray-400">
-                    <div>Name</div>
-                    <div>Key</div>
-                    <div>Created</div>
-                    <div></div>
-                  </div>
-                  <div className="p-4 text-center text-gray-400">No API keys created yet</div>
-                </div>
-                <button className="bg-white text-black px-4 py-2 rounded hover:bg-gray-200">
-                  Generate New Key
-                </button>
-              </div>
+              <ApiKeyManager />
+            </section>
+
+            <section className="border border-gray-800 rounded-lg p-6">
+              <h2 className="text-xl font-semibold mb-4">Invites</h2>
+              <p className="text-gray-400 text-sm mb-4">
+                Share these codes to invite people to Hulkastorus.
+              </p>
+              <InviteCodeList />
             </section>
 
             <section className="border border-red-800 rounded-lg p-6">
@@ -1,6 +1,8 @@
-import {GET} from "./route";
+import {GET, POST} from "./route";
 import {NextRequest} from "next/server";
+import bcrypt from "bcryptjs";
 import {prisma} from "@/lib/prisma";
+import {signJwt} from "@/lib/jwt";
 import {startMockR2Server, stopMockR2Server} from "../../../../tests/mocks/r2-server";
 
 // Mock Prisma
@@ -9,6 +11,14 @@ jest.mock("@/lib/prisma", () => ({
     file: {
       findUnique: jest.fn(),
     },
+    directory: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    shareToken: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
   },
 }));
 
@@ -17,9 +27,9 @@ jest.mock("@/lib/auth", () => ({
   auth: jest.fn(),
 }));
 
-// Mock next-auth/jwt
-jest.mock("next-auth/jwt", () => ({
-  getToken: jest.fn(),
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
 }));
 
 // Mock R2 config to use test server
@@ -55,6 +65,7 @@ describe("GET /d/:pseudo_id", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    (prisma.directory.findMany as jest.Mock).mockResolvedValue([]);
   });
 
   const mockPublicFile = {
@@ -173,6 +184,54 @@ describe("GET /d/:pseudo_id", () => {
     });
   });
 
+  describe("Inherited permissions", () => {
+    const mockInheritingFile = {
+      ...mockPublicFile,
+      permissions: "inherit",
+      directoryId: "models-dir",
+    };
+    const directories = [
+      {id: "root-dir", parentId: null, defaultPermissions: "public"},
+      {id: "models-dir", parentId: "root-dir", defaultPermissions: "inherit"},
+    ];
+
+    beforeEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const auth = jest.mocked(require("@/lib/auth").auth);
+      auth.mockResolvedValue(null);
+
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockInheritingFile);
+      (prisma.directory.findUnique as jest.Mock).mockImplementation(({where}) =>
+        directories.find((directory) => directory.id === where.id),
+      );
+    });
+
+    it("should serve files that inherit public permissions from an ancestor", async () => {
+      const request = new NextRequest("http://localhost:3000/d/test-file-id");
+
+      const response = await GET(request, {params: Promise.resolve({pseudo_id: "test-file-id"})});
+
+      expect(response.status).toBe(307);
+      expect(prisma.directory.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({where: {id: "root-dir"}}),
+      );
+    });
+
+    it("should follow changes to the ancestor's default permissions", async () => {
+      (prisma.directory.findUnique as jest.Mock).mockImplementation(({where}) =>
+        where.id === "root-dir"
+          ? {...directories[0], defaultPermissions: "private"}
+          : directories.find((directory) => directory.id === where.id),
+      );
+
+      const request = new NextRequest("http://localhost:3000/d/test-file-id");
+
+      const response = await GET(request, {params: Promise.resolve({pseudo_id: "test-file-id"})});
+
+      expect(response.status).toBe(404);
+    });
+  });
+
   describe("File validation", () => {
     it("should reject non-existent files", async () => {
       (prisma.file.findUnique as jest.Mock).mockResolvedValue(null);
@@ -256,25 +315,101 @@ describe("GET /d/:pseudo_id", () => {
     });
   });
 
-  describe("Download tokens", () => {
-    it("should handle download token parameter", async () => {
-      // Mock auth to return no session (needed for getToken to be called)
+  describe("Share tokens", () => {
+    const shareToken = {
+      id: "share-id",
+      userId: "file-owner-id",
+      fileId: "test-file-id",
+      directoryId: null,
+      maxDownloads: null,
+      downloadCount: 0,
+      expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+      revokedAt: null,
+      directory: null,
+    };
+
+    function tokenFor(sub = "file-owner-id") {
+      return signJwt({sub, sid: "share-id", purpose: "share"}, 3600);
+    }
+
+    beforeEach(() => {
+      process.env.NEXTAUTH_SECRET = "test-secret";
       // eslint-disable-next-line @typescript-eslint/no-require-imports
       const auth = jest.mocked(require("@/lib/auth").auth);
       auth.mockResolvedValue(null);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockPrivateFile);
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue(shareToken);
+      (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 1});
+    });
 
-      // eslint-disable-next-line @typescript-eslint/no-require-imports
-      const getToken = jest.mocked(require("next-auth/jwt").getToken);
-      getToken.mockResolvedValue(null);
+    it("should redirect to download URL for a valid share token", async () => {
+      const request = new NextRequest(`http://localhost:3000/d/test-file-id?token=${tokenFor()}`);
 
-      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockPublicFile);
+      const response = await GET(request, {params: Promise.resolve({pseudo_id: "test-file-id"})});
+
+      expect(response.status).toBe(307);
+      expect(prisma.shareToken.updateMany).toHaveBeenCalledWith(
+        expect.objectContaining({data: {downloadCount: {increment: 1}}}),
+      );
+    });
+
+    it("should reject revoked share tokens", async () => {
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue({
+        ...shareToken,
+        revokedAt: new Date(),
+      });
+
+      const request = new NextRequest(`http://localhost:3000/d/test-file-id?token=${tokenFor()}`);
+
+      const response = await GET(request, {params: Promise.resolve({pseudo_id: "test-file-id"})});
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should reject share tokens once the download cap is reached", async () => {
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue({
+        ...shareToken,
+        maxDownloads: 1,
+        downloadCount: 1,
+      });
+      (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 0});
+
+      const request = new NextRequest(`http://localhost:3000/d/test-file-id?token=${tokenFor()}`);
+
+      const response = await GET(request, {params: Promise.resolve({pseudo_id: "test-file-id"})});
 
+      expect(response.status).toBe(404);
+    });
+
+    it("should reject share tokens issued by another user", async () => {
+      const request = new NextRequest(
+        `http://localhost:3000/d/test-file-id?token=${tokenFor("different-user-id")}`,
+      );
+
+      const response = await GET(request, {params: Promise.resolve({pseudo_id: "test-file-id"})});
+
+      expect(response.status).toBe(404);
+      expect(prisma.shareToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject malformed share tokens", async () => {
       const request = new NextRequest("http://localhost:3000/d/test-file-id?token=some-token");
 
-      await GET(request, {params: Promise.resolve({pseudo_id: "test-file-id"})});
+      const response = await GET(request, {params: Promise.resolve({pseudo_id: "test-file-id"})});
+
+      expect(response.status).toBe(404);
+      expect(prisma.shareToken.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should not spend share tokens on public files", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockPublicFile);
+
+      const request = new NextRequest(`http://localhost:3000/d/test-file-id?token=${tokenFor()}`);
 
-      // Just verify getToken was called at all
-      expect(getToken).toHaveBeenCalled();
+      const response = await GET(request, {params: Promise.resolve({pseudo_id: "test-file-id"})});
+
+      expect(response.status).toBe(307);
+      expect(prisma.shareToken.updateMany).not.toHaveBeenCalled();
     });
 
     it("should not require token for public files", async () => {
@@ -288,6 +423,159 @@ describe("GET /d/:pseudo_id", () => {
     });
   });
 
+  describe("Access passwords", () => {
+    const params = {params: Promise.resolve({pseudo_id: "test-file-id"})};
+    const mockProtectedFile = {
+      ...mockPublicFile,
+      accessPassword: bcrypt.hashSync("letmein", 4),
+    };
+
+    function basicAuth(password: string) {
+      return `Basic ${Buffer.from(`:${password}`).toString("base64")}`;
+    }
+
+    beforeEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const auth = jest.mocked(require("@/lib/auth").auth);
+      auth.mockResolvedValue(null);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockProtectedFile);
+    });
+
+    it("should challenge curl clients with basic auth", async () => {
+      const request = new NextRequest("http://localhost:3000/d/test-file-id", {
+        headers: {Accept: "*/*"},
+      });
+
+      const response = await GET(request, params);
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe("Password required");
+      expect(response.headers.get("WWW-Authenticate")).toContain("Basic");
+    });
+
+    it("should show browsers an unlock form", async () => {
+      const request = new NextRequest("http://localhost:3000/d/test-file-id", {
+        headers: {Accept: "text/html,application/xhtml+xml"},
+      });
+
+      const response = await GET(request, params);
+      const html = await response.text();
+
+      expect(response.status).toBe(401);
+      expect(response.headers.get("Content-Type")).toContain("text/html");
+      expect(response.headers.get("WWW-Authenticate")).toBeNull();
+      expect(html).toContain('<form method="post">');
+      expect(html).toContain("test.txt");
+    });
+
+    it("should escape filenames in the unlock form", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({
+        ...mockProtectedFile,
+        filename: "<script>alert(1)</script>.txt",
+      });
+
+      const request = new NextRequest("http://localhost:3000/d/test-file-id", {
+        headers: {Accept: "text/html"},
+      });
+
+      const html = await (await GET(request, params)).text();
+
+      expect(html).not.toContain("<script>");
+      expect(html).toContain("&lt;script&gt;");
+    });
+
+    it("should download with the X-Access-Password header", async () => {
+      const request = new NextRequest("http://localhost:3000/d/test-file-id", {
+        headers: {"X-Access-Password": "letmein"},
+      });
+
+      const response = await GET(request, params);
+
+      expect(response.status).toBe(307);
+    });
+
+    it("should download with basic auth", async () => {
+      const request = new NextRequest("http://localhost:3000/d/test-file-id", {
+        headers: {Authorization: basicAuth("letmein")},
+      });
+
+      const response = await GET(request, params);
+
+      expect(response.status).toBe(307);
+    });
+
+    it("should reject incorrect passwords", async () => {
+      const request = new NextRequest("http://localhost:3000/d/test-file-id", {
+        headers: {Authorization: basicAuth("wrong")},
+      });
+
+      const response = await GET(request, params);
+      const data = await response.json();
+
+      expect(response.status).toBe(401);
+      expect(data.error).toBe("Incorrect password");
+    });
+
+    it("should apply directory passwords to the files under them", async () => {
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockPublicFile);
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        {fullPath: "/", accessPassword: bcrypt.hashSync("dir-secret", 4)},
+      ]);
+
+      const locked = await GET(new NextRequest("http://localhost:3000/d/test-file-id"), params);
+      const unlocked = await GET(
+        new NextRequest("http://localhost:3000/d/test-file-id", {
+          headers: {"X-Access-Password": "dir-secret"},
+        }),
+        params,
+      );
+
+      expect(locked.status).toBe(401);
+      expect(unlocked.status).toBe(307);
+    });
+
+    it("should not ask the owner for the password", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const auth = jest.mocked(require("@/lib/auth").auth);
+      auth.mockResolvedValue({user: {id: "file-owner-id"}});
+
+      const response = await GET(new NextRequest("http://localhost:3000/d/test-file-id"), params);
+
+      expect(response.status).toBe(307);
+    });
+
+    it("should redirect after a correct unlock form submission", async () => {
+      const request = new NextRequest("http://localhost:3000/d/test-file-id", {
+        method: "POST",
+        headers: {"Content-Type": "application/x-www-form-urlencoded"},
+        body: "password=letmein",
+      });
+
+      const response = await POST(request, params);
+
+      expect(response.status).toBe(303);
+      expect(response.headers.get("Location")).toContain("http://localhost:9007");
+    });
+
+    it("should show the form again after a wrong submission", async () => {
+      const request = new NextRequest("http://localhost:3000/d/test-file-id", {
+        method: "POST",
+        headers: {
+          Accept: "text/html",
+          "Content-Type": "application/x-www-form-urlencoded",
+        },
+        body: "password=wrong",
+      });
+
+      const response = await POST(request, params);
+      const html = await response.text();
+
+      expect(response.status).toBe(401);
+      expect(html).toContain("Incorrect password");
+    });
+  });
+
   describe("URL format and routing", () => {
     it("should handle file IDs with special characters", async () => {
       (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockPublicFile);
@@ -1,117 +1,106 @@
 import {NextRequest, NextResponse} from "next/server";
-import {auth} from "@/lib/auth";
+import {authenticateRequest} from "@/lib/api-auth";
 import {prisma} from "@/lib/prisma";
 import {getR2Client} from "@/lib/r2-config";
-import {getToken} from "next-auth/jwt";
-
-// Helper function to check file access permissions (same as download route)
-async function checkFileAccess(
-  fileId: string,
-  userId?: string,
-): Promise<{
-  // eslint-disable-next-line @typescript-eslint/no-explicit-any
-  file: any;
-  hasAccess: boolean;
-}> {
-  const file = await prisma.file.findUnique({
-    where: {id: fileId},
-    include: {
-      user: {
-        select: {id: true},
-      },
-    },
-  });
-
-  if (!file) {
-    return {file: null, hasAccess: false};
-  }
-
-  // File must be validated to be downloadable
-  if (file.status !== "validated") {
-    return {file, hasAccess: false};
-  }
-
-  // Check if file has expired
-  if (file.expiresAt && file.expiresAt < new Date()) {
-    return {file, hasAccess: false};
-  }
-
-  // Public files are accessible to everyone
-  if (file.permissions === "public") {
-    return {file, hasAccess: true};
-  }
-
-  // Private files require authentication and ownership
-  if (file.permissions === "private") {
-    if (!userId) {
-      return {file, hasAccess: false};
-    }
-
-    // Owner has access
-    if (file.userId === userId) {
-      return {file, hasAccess: true};
-    }
+import {getProvidedAccessPassword} from "@/lib/access-passwords";
+import {authorizeFileAccess, isPasswordDenial, logAccessDenied} from "@/lib/access-policy";
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
 
-    // TODO: Check API key permissions when implemented
-    // For now, only owner has access
-    return {file, hasAccess: false};
+// Browsers get an unlock form; everything else gets a basic auth challenge
+function passwordRequiredResponse(
+  request: NextRequest,
+  file: {id: string; filename: string},
+  attempted: boolean,
+) {
+  const error = attempted ? "Incorrect password" : "Password required";
+
+  if (!request.headers.get("accept")?.includes("text/html")) {
+    return NextResponse.json(
+      {error},
+      {
+        status: 401,
+        headers: {"WWW-Authenticate": 'Basic realm="Hulkastorus download", charset="UTF-8"'},
+      },
+    );
   }
 
-  return {file, hasAccess: false};
+  const filename = escapeHtml(file.filename);
+  const html = `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Unlock ${filename} - Hulkastorus</title>
+<style>
+body{margin:0;min-height:100vh;display:flex;align-items:center;justify-content:center;background:#111827;color:#f9fafb;font-family:system-ui,sans-serif}
+form{background:#1f2937;padding:2rem;border-radius:.5rem;width:100%;max-width:22rem}
+h1{font-size:1.25rem;margin:0 0 .5rem}
+p{color:#9ca3af;margin:0 0 1rem;word-break:break-all}
+.error{color:#f87171}
+input,button{box-sizing:border-box;width:100%;padding:.6rem .75rem;border-radius:.375rem;font-size:1rem}
+input{border:1px solid #374151;background:#111827;color:#f9fafb;margin-bottom:1rem}
+button{border:0;background:#2563eb;color:#fff;cursor:pointer}
+</style>
+</head>
+<body>
+<form method="post">
+<h1>This file is password protected</h1>
+<p>${filename}</p>
+${attempted ? `<p class="error">${error}</p>` : ""}
+<input type="password" name="password" placeholder="Password" autofocus required>
+<button type="submit">Download</button>
+</form>
+</body>
+</html>`;
+
+  return new NextResponse(html, {
+    status: 401,
+    headers: {"Content-Type": "text/html; charset=utf-8"},
+  });
 }
 
-export async function GET(request: NextRequest, {params}: {params: Promise<{pseudo_id: string}>}) {
+async function handleDownload(
+  request: NextRequest,
+  pseudo_id: string,
+  accessPassword: string | null,
+  redirectStatus?: number,
+) {
   try {
-    const {pseudo_id} = await params;
     const {searchParams} = new URL(request.url);
-    const downloadToken = searchParams.get("token");
+    const shareToken = searchParams.get("token") || undefined;
 
     // The pseudo_id is the file ID (NanoID) for now
     // TODO: Implement user_id + path parsing if needed
     const fileId = pseudo_id;
 
-    // Try to get user from NextAuth session
-    let userId: string | undefined;
-    try {
-      const session = await auth();
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      userId = (session as any)?.user?.id;
-    } catch {
-      // Continue without session
-    }
+    // Sessions and API keys are optional: public files and share tokens work without them
+    const authResult = await authenticateRequest(request, "read").catch(() => null);
 
-    // If no session, try to get user from JWT token
-    if (!userId && downloadToken) {
-      try {
-        await getToken({
-          req: request,
-          secret: process.env.NEXTAUTH_SECRET,
-          raw: true,
-        });
-        // TODO: Parse custom download token if different from NextAuth JWT
-      } catch {
-        // Continue without token
-      }
-    }
-
-    // TODO: Check API key in Authorization header
-    // const authHeader = request.headers.get("authorization");
-    // if (authHeader?.startsWith("Bearer ")) {
-    //   const apiKey = authHeader.slice(7);
-    //   // Look up API key and get user
-    // }
+    const record = await prisma.file.findUnique({where: {id: fileId}});
+    const access = await authorizeFileAccess(record, "download", {
+      auth: authResult,
+      shareToken,
+      accessPassword,
+    });
 
-    // Check file access
-    const {file, hasAccess} = await checkFileAccess(fileId, userId);
+    if (!access.ok) {
+      logAccessDenied("file", fileId, access.reason);
 
-    if (!file) {
-      return NextResponse.json({error: "File not found"}, {status: 404});
-    }
+      if (record && isPasswordDenial(access.reason)) {
+        return passwordRequiredResponse(request, record, access.reason === "incorrect_password");
+      }
 
-    if (!hasAccess) {
       return NextResponse.json({error: "File not found"}, {status: 404});
     }
 
+    const file = access.resource;
     if (!file.r2Locator) {
       return NextResponse.json({error: "File not available"}, {status: 500});
     }
@@ -131,9 +120,32 @@ export async function GET(request: NextRequest, {params}: {params: Promise<{pseu
     });
 
     // Redirect to the presigned URL
-    return NextResponse.redirect(downloadUrl);
+    return NextResponse.redirect(downloadUrl, redirectStatus);
   } catch (error) {
     console.error("Error generating public download URL:", error);
     return NextResponse.json({error: "Internal server error"}, {status: 500});
   }
 }
+
+// GET /d/:pseudo_id - Download a file
+export async function GET(request: NextRequest, {params}: {params: Promise<{pseudo_id: string}>}) {
+  const {pseudo_id} = await params;
+  return handleDownload(request, pseudo_id, getProvidedAccessPassword(request));
+}
+
+// POST /d/:pseudo_id - Submit the unlock form for a password-protected file
+export async function POST(request: NextRequest, {params}: {params: Promise<{pseudo_id: string}>}) {
+  const {pseudo_id} = await params;
+
+  let password: string | null = null;
+  try {
+    const formData = await request.formData();
+    const value = formData.get("password");
+    password = typeof value === "string" && value ? value : null;
+  } catch {
+    // Fall through with no password
+  }
+
+  // 303 so the browser follows the redirect with a GET
+  return handleDownload(request, pseudo_id, password, 303);
+}
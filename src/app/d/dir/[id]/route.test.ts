@@ -0,0 +1,135 @@
+import {GET} from "./route";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+import {getR2Client} from "@/lib/r2-config";
+import {startMockR2Server, stopMockR2Server} from "../../../../../tests/mocks/r2-server";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    directory: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+    file: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
+// Mock R2 config to use test server
+jest.mock("@/lib/r2-config", () => {
+  const originalModule = jest.requireActual("@/lib/r2-config");
+  return {
+    ...originalModule,
+    currentEnv: "test",
+    getR2Client: () => {
+      const {R2Client} = jest.requireActual("@/lib/r2-client");
+      return new R2Client({
+        endpoint: "http://localhost:9017",
+        accessKeyId: "test",
+        secretAccessKey: "test",
+        bucketName: "test-bucket",
+        region: "auto",
+      });
+    },
+  };
+});
+
+describe("GET /d/dir/:id", () => {
+  const mockDirectory = {
+    id: "test-dir-id",
+    userId: "test-user-id",
+    fullPath: "/photos/shoot",
+    parentId: "photos-dir-id",
+    defaultPermissions: "inherit",
+  };
+
+  const mockFile = {
+    id: "photo-file",
+    userId: "test-user-id",
+    directoryId: "test-dir-id",
+    fullPath: "/photos/shoot/preview.jpg",
+    filename: "preview.jpg",
+    status: "validated",
+    permissions: "inherit",
+    r2Locator: "test/infinite/test-user-id/photo-file",
+    accessPassword: null,
+    expiresAt: null,
+    updatedAt: new Date("2025-01-15T12:00:00Z"),
+  };
+
+  const params = {params: Promise.resolve({id: "test-dir-id"})};
+
+  beforeAll(async () => {
+    await startMockR2Server(9017);
+    await getR2Client().putObject({
+      env: "test",
+      lifecyclePolicy: "infinite",
+      userId: "test-user-id",
+      fileId: "photo-file",
+      body: "jpeg bytes",
+    });
+  });
+
+  afterAll(async () => {
+    await stopMockR2Server();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    // eslint-disable-next-line @typescript-eslint/no-require-imports
+    const auth = jest.mocked(require("@/lib/auth").auth);
+    auth.mockResolvedValue(null);
+
+    // The shoot directory inherits from a public parent; nothing is password protected
+    (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
+    (prisma.directory.findMany as jest.Mock).mockImplementation(({where}) =>
+      where.accessPassword
+        ? []
+        : [mockDirectory, {id: "photos-dir-id", parentId: null, defaultPermissions: "public"}],
+    );
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([mockFile]);
+  });
+
+  it("should stream public directories without authentication", async () => {
+    const request = new NextRequest("http://localhost:3000/d/dir/test-dir-id");
+
+    const response = await GET(request, params);
+    const archive = Buffer.from(await response.arrayBuffer());
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get("Content-Disposition")).toContain('filename="shoot.zip"');
+    expect(archive.includes("shoot/preview.jpg")).toBe(true);
+    expect(archive.includes("jpeg bytes")).toBe(true);
+  });
+
+  it("should hide private directories", async () => {
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([{...mockFile, permissions: "private"}]);
+    const request = new NextRequest("http://localhost:3000/d/dir/test-dir-id?format=tar.gz");
+
+    const response = await GET(request, params);
+    const data = await response.json();
+
+    expect(response.status).toBe(404);
+    expect(data.error).toBe("Directory not found");
+  });
+
+  it("should reject unknown formats", async () => {
+    const request = new NextRequest("http://localhost:3000/d/dir/test-dir-id?format=7z");
+
+    const response = await GET(request, params);
+
+    expect(response.status).toBe(400);
+  });
+});
@@ -0,0 +1,8 @@
+import {NextRequest} from "next/server";
+import {handleDirectoryArchiveRequest} from "@/lib/directory-archive";
+
+// GET /d/dir/:id - Download a directory as an archive, e.g. to share a public folder
+export async function GET(request: NextRequest, {params}: {params: Promise<{id: string}>}) {
+  const {id} = await params;
+  return handleDirectoryArchiveRequest(request, id);
+}
@@ -1,4 +1,8 @@
 import Link from "next/link";
+import {ApiReference, tagAnchor} from "@/components/api-reference/api-reference";
+import {buildOpenApiDocument} from "@/lib/openapi";
+
+const apiDocument = buildOpenApiDocument();
 
 export default function DocsPage() {
   return (
@@ -36,13 +40,22 @@ export default function DocsPage() {
             <a href="#api-reference" className="block py-2 px-3 rounded hover:bg-gray-900">
               API Reference
             </a>
+            {apiDocument.tags.map(({name}) => (
+              <a
+                key={name}
+                href={`#${tagAnchor(name)}`}
+                className="block py-1 pl-6 pr-3 rounded text-sm text-gray-400 hover:bg-gray-900"
+              >
+                {name}
+              </a>
+            ))}
             <a href="#faq" className="block py-2 px-3 rounded hover:bg-gray-900">
               FAQ
             </a>
           </nav>
         </aside>
 
-        <main className="flex-1 max-w-3xl mx-auto p-8">
+        <main className="flex-1 max-w-4xl mx-auto p-8">
           <h1 className="text-4xl font-bold mb-8">Documentation</h1>
 
           <section id="getting-started" className="mb-16">
@@ -52,29 +65,25 @@ export default function DocsPage() {
               service.
             </p>
             <div className="bg-gray-900 p-4 rounded-lg mb-4">
-              <code className="text-green-400">npm install @hulkastorus/client</code>
+              <code className="text-green-400">npm install @hulkastorus/sdk</code>
             </div>
           </section>
 
           <section id="api-reference" className="mb-16">
             <h2 className="text-2xl font-semibold mb-4">API Reference</h2>
             <p className="text-gray-300 mb-4">
-              Our REST API provides two simple endpoints for uploading and downloading files.
+              Every endpoint lives under <code>/api/v1</code>. Authenticate with an API key from the
+              dashboard in an <code>Authorization: Bearer</code> header; read keys can only call
+              operations that don&apos;t change anything.
             </p>
-            <div className="space-y-6">
-              <div>
-                <h3 className="text-xl font-semibold mb-2">Upload File</h3>
-                <div className="bg-gray-900 p-4 rounded-lg">
-                  <code className="text-green-400">POST /api/files</code>
-                </div>
-              </div>
-              <div>
-                <h3 className="text-xl font-semibold mb-2">Download File</h3>
-                <div className="bg-gray-900 p-4 rounded-lg">
-                  <code className="text-green-400">GET /files/:id</code>
-                </div>
-              </div>
-            </div>
+            <p className="text-gray-300 mb-8">
+              The same reference is published as an OpenAPI 3.1 document at{" "}
+              <a href="/api/v1/openapi.json" className="underline hover:text-white">
+                /api/v1/openapi.json
+              </a>{" "}
+              for generating clients or importing into API tools.
+            </p>
+            <ApiReference document={apiDocument} />
           </section>
 
           <section id="faq" className="mb-16">
@@ -4,6 +4,7 @@ import {useState, useEffect, Suspense} from "react";
 import {useRouter, useSearchParams} from "next/navigation";
 import {signIn} from "next-auth/react";
 import Link from "next/link";
+import {requestPasswordResetEmail} from "@/app/actions/password-reset";
 
 function LoginForm() {
   const router = useRouter();
@@ -21,6 +22,9 @@ function LoginForm() {
     if (searchParams.get("registered") === "true") {
       setSuccess("Registration successful! Please login with your credentials.");
     }
+    if (searchParams.get("reset") === "true") {
+      setSuccess("Password updated! Please login with your new password.");
+    }
     if (searchParams.get("error")) {
       setError("Invalid email or password");
     }
@@ -40,11 +44,19 @@ function LoginForm() {
 
     if (showForgotPassword) {
       setLoading(true);
-      setTimeout(() => {
-        setSuccess("If an account exists with this email, a reset link has been sent.");
-        setShowForgotPassword(false);
+      try {
+        const result = await requestPasswordResetEmail(formData.email);
+        if (result.ok) {
+          setSuccess(result.message || "");
+          setShowForgotPassword(false);
+        } else {
+          setError(result.error || "Failed to send reset link");
+        }
+      } catch {
+        setError("Failed to send reset link");
+      } finally {
         setLoading(false);
-      }, 1000);
+      }
       return;
     }
 
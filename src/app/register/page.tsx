@@ -1,17 +1,19 @@
 "use client";
 
-import {useState} from "react";
-import {useRouter} from "next/navigation";
+import {useState, Suspense} from "react";
+import {useRouter, useSearchParams} from "next/navigation";
 import Link from "next/link";
 
-export default function RegisterPage() {
+function RegisterForm() {
   const router = useRouter();
+  const searchParams = useSearchParams();
   const [formData, setFormData] = useState({
     fullName: "",
     email: "",
     password: "",
     confirmPassword: "",
-    inviteCode: "",
+    // Shared invite links fill in the code
+    inviteCode: searchParams.get("invite") || "",
   });
   const [error, setError] = useState("");
   const [loading, setLoading] = useState(false);
@@ -171,3 +173,17 @@ export default function RegisterPage() {
     </div>
   );
 }
+
+export default function RegisterPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-black text-white flex items-center justify-center">
+          Loading...
+        </div>
+      }
+    >
+      <RegisterForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,53 @@
+/**
+ * @jest-environment jsdom
+ */
+import {fireEvent, render, screen, waitFor} from "@testing-library/react";
+import ResetPasswordPage from "./page";
+import {resetPassword} from "@/app/actions/password-reset";
+
+const push = jest.fn();
+
+jest.mock("next/navigation", () => ({
+  useRouter: () => ({push}),
+  useSearchParams: () => new URLSearchParams("token=reset-token"),
+}));
+
+jest.mock("@/app/actions/password-reset", () => ({
+  resetPassword: jest.fn(),
+}));
+
+const mockResetPassword = resetPassword as jest.MockedFunction<typeof resetPassword>;
+
+describe("ResetPasswordPage", () => {
+  const submit = (password: string, confirmPassword: string) => {
+    render(<ResetPasswordPage />);
+    fireEvent.change(screen.getByPlaceholderText("New Password"), {target: {value: password}});
+    fireEvent.change(screen.getByPlaceholderText("Confirm New Password"), {
+      target: {value: confirmPassword},
+    });
+    fireEvent.click(screen.getByRole("button", {name: "Reset Password"}));
+  };
+
+  it("should send the user to login after a successful reset", async () => {
+    mockResetPassword.mockResolvedValue({ok: true});
+
+    submit("newpassword123", "newpassword123");
+
+    await waitFor(() => expect(push).toHaveBeenCalledWith("/login?reset=true"));
+    expect(mockResetPassword).toHaveBeenCalledWith({
+      token: "reset-token",
+      password: "newpassword123",
+      confirmPassword: "newpassword123",
+    });
+    expect(screen.queryByText(/NEXT_REDIRECT|failed/)).toBeNull();
+  });
+
+  it("should show the error and stay on the page when the reset fails", async () => {
+    mockResetPassword.mockResolvedValue({ok: false, error: "Invalid or expired reset link"});
+
+    submit("newpassword123", "newpassword123");
+
+    expect(await screen.findByText("Invalid or expired reset link")).toBeTruthy();
+    expect(push).not.toHaveBeenCalled();
+  });
+});
@@ -1,4 +1,46 @@
-export default function ResetPasswordPage() {
+"use client";
+
+import {useState, Suspense} from "react";
+import {useRouter, useSearchParams} from "next/navigation";
+import {resetPassword} from "@/app/actions/password-reset";
+
+function ResetPasswordForm() {
+  const router = useRouter();
+  const searchParams = useSearchParams();
+  const token = searchParams.get("token") || "";
+  const [formData, setFormData] = useState({
+    password: "",
+    confirmPassword: "",
+  });
+  const [error, setError] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setFormData({
+      ...formData,
+      [e.target.name]: e.target.value,
+    });
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setError("");
+    setLoading(true);
+
+    try {
+      const result = await resetPassword({token, ...formData});
+      if (result.ok) {
+        router.push("/login?reset=true");
+      } else {
+        setError(result.error || "Password reset failed");
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Password reset failed");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   return (
     <div className="min-h-screen bg-black text-white flex items-center justify-center">
       <div className="w-full max-w-sm">
@@ -8,27 +50,48 @@ export default function ResetPasswordPage() {
             <div className="text-gray-400">Reset your password</div>
           </div>
 
-          <form className="space-y-4">
+          {!token && (
+            <div className="mb-4 p-3 bg-red-900/50 border border-red-500 rounded-md text-red-200 text-sm">
+              This reset link is incomplete. Request a new one from the login page.
+            </div>
+          )}
+
+          {error && (
+            <div className="mb-4 p-3 bg-red-900/50 border border-red-500 rounded-md text-red-200 text-sm">
+              {error}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="space-y-4">
             <div>
               <input
                 type="password"
+                name="password"
                 placeholder="New Password"
+                value={formData.password}
+                onChange={handleChange}
+                required
                 className="w-full px-4 py-3 bg-gray-800 rounded-md focus:outline-none focus:ring-2 focus:ring-white"
               />
             </div>
             <div>
               <input
                 type="password"
+                name="confirmPassword"
                 placeholder="Confirm New Password"
+                value={formData.confirmPassword}
+                onChange={handleChange}
+                required
                 className="w-full px-4 py-3 bg-gray-800 rounded-md focus:outline-none focus:ring-2 focus:ring-white"
               />
             </div>
 
             <button
               type="submit"
-              className="w-full bg-white text-black py-3 rounded-md hover:bg-gray-200 font-medium"
+              disabled={loading}
+              className="w-full bg-white text-black py-3 rounded-md hover:bg-gray-200 font-medium disabled:opacity-50 disabled:cursor-not-allowed"
             >
-              Reset Password
+              {loading ? "Processing..." : "Reset Password"}
             </button>
           </form>
 
@@ -52,3 +115,17 @@ export default function ResetPasswordPage() {
     </div>
   );
 }
+
+export default function ResetPasswordPage() {
+  return (
+    <Suspense
+      fallback={
+        <div className="min-h-screen bg-black text-white flex items-center justify-center">
+          Loading...
+        </div>
+      }
+    >
+      <ResetPasswordForm />
+    </Suspense>
+  );
+}
@@ -0,0 +1,62 @@
+import {verifyEmailToken} from "@/lib/email-verification";
+
+export const dynamic = "force-dynamic";
+
+export default async function VerifyEmailPage({
+  searchParams,
+}: {
+  searchParams: Promise<{token?: string}>;
+}) {
+  const {token} = await searchParams;
+  const result = token
+    ? await verifyEmailToken(token)
+    : {ok: false as const, error: "Missing verification token"};
+
+  return (
+    <div className="min-h-screen bg-black text-white flex items-center justify-center">
+      <div className="w-full max-w-sm">
+        <div className="bg-gray-900 rounded-lg p-8 shadow-lg">
+          <div className="text-center mb-8">
+            <div className="text-3xl font-bold mb-2">Hulkastorus</div>
+            <div className="text-gray-400">Email verification</div>
+          </div>
+
+          {result.ok ? (
+            <div className="text-center space-y-4">
+              <p className="text-green-400">Your email address is verified.</p>
+              <a
+                href="/app/dashboard"
+                className="block w-full bg-white text-black py-3 rounded-md hover:bg-gray-200 font-medium"
+              >
+                Go to Dashboard
+              </a>
+            </div>
+          ) : (
+            <div className="text-center space-y-4">
+              <p className="text-red-400">{result.error}</p>
+              <p className="text-gray-400 text-sm">
+                Links expire after an hour. Sign in and request a new one from your dashboard.
+              </p>
+            </div>
+          )}
+
+          <div className="mt-6 text-center">
+            <a href="/login" className="text-gray-400 hover:text-white text-sm">
+              Back to login
+            </a>
+          </div>
+        </div>
+
+        <footer className="mt-8 text-center text-gray-400 text-sm space-x-4">
+          <span>© 2024 Hulkastorus</span>
+          <a href="/privacy" className="hover:text-white">
+            Privacy
+          </a>
+          <a href="/terms" className="hover:text-white">
+            Terms
+          </a>
+        </footer>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,271 @@
+"use client";
+
+import React, {useState, useEffect, useCallback} from "react";
+import type {ApiKey, CreatedApiKey} from "@hulkastorus/sdk";
+import {apiClient} from "@/lib/api-client";
+
+const expirationOptions: Record<string, number | null> = {
+  never: null,
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  "1y": 365,
+};
+
+export function ApiKeyManager() {
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [label, setLabel] = useState("");
+  const [canRead, setCanRead] = useState(true);
+  const [canWrite, setCanWrite] = useState(false);
+  const [expiration, setExpiration] = useState("never");
+  const [creating, setCreating] = useState(false);
+  const [createdKey, setCreatedKey] = useState<CreatedApiKey | null>(null);
+  const [copied, setCopied] = useState(false);
+
+  const fetchApiKeys = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setApiKeys(await apiClient.apiKeys.list());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load API keys");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchApiKeys();
+  }, [fetchApiKeys]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!canRead && !canWrite) {
+      setError("Select at least one permission");
+      return;
+    }
+
+    const permissions = canRead && canWrite ? "all" : canWrite ? "write" : "read";
+    const days = expirationOptions[expiration];
+    const expiresAt = days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null;
+
+    setCreating(true);
+    setError(null);
+
+    try {
+      const data = await apiClient.apiKeys.create({
+        label,
+        permissions,
+        expiresAt: expiresAt?.toISOString() || null,
+      });
+      setCreatedKey(data);
+      setCopied(false);
+      setLabel("");
+
+      // Copy the key right away since it is never shown again
+      try {
+        await navigator.clipboard.writeText(data.key);
+        setCopied(true);
+      } catch {
+        // The key stays visible below for manual copying
+      }
+
+      fetchApiKeys();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to create API key");
+    } finally {
+      setCreating(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!createdKey) return;
+
+    try {
+      await navigator.clipboard.writeText(createdKey.key);
+      setCopied(true);
+    } catch {
+      alert("Failed to copy API key");
+    }
+  };
+
+  const handleRevoke = async (apiKey: ApiKey) => {
+    if (!confirm(`Revoke the "${apiKey.label}" API key? Anything using it will stop working.`)) {
+      return;
+    }
+
+    try {
+      await apiClient.apiKeys.delete(apiKey.id);
+
+      if (createdKey?.id === apiKey.id) {
+        setCreatedKey(null);
+      }
+
+      fetchApiKeys();
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to revoke API key");
+    }
+  };
+
+  const formatRelativeTime = (dateString: string | null) => {
+    if (!dateString) return "never";
+
+    const seconds = Math.floor((Date.now() - new Date(dateString).getTime()) / 1000);
+    if (seconds < 60) return "just now";
+    if (seconds < 3600) return `${Math.floor(seconds / 60)} min ago`;
+    if (seconds < 86400) return `${Math.floor(seconds / 3600)} h ago`;
+    return `${Math.floor(seconds / 86400)} d ago`;
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "—";
+
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  return (
+    <div className="space-y-6">
+      {createdKey && (
+        <div className="p-4 bg-green-900/30 border border-green-700 rounded-lg">
+          <div className="text-sm text-green-300 mb-2">
+            {copied ? "Copied to clipboard! " : ""}This is the only time{" "}
+            <span className="font-medium">{createdKey.label}</span> will be shown. Store it
+            somewhere safe.
+          </div>
+          <div className="flex gap-2">
+            <code className="flex-1 px-3 py-2 bg-gray-800 rounded text-sm break-all">
+              {createdKey.key}
+            </code>
+            <button
+              onClick={handleCopy}
+              className="border border-gray-600 hover:bg-gray-800 px-3 py-2 rounded text-sm transition-colors"
+            >
+              {copied ? "✓ Copied" : "Copy"}
+            </button>
+            <button
+              onClick={() => setCreatedKey(null)}
+              className="text-gray-400 hover:text-white px-2"
+              title="Dismiss"
+            >
+              ✕
+            </button>
+          </div>
+        </div>
+      )}
+
+      {error && (
+        <div className="p-3 bg-red-900/50 border border-red-500 rounded-md text-red-200 text-sm">
+          {error}
+        </div>
+      )}
+
+      <div className="bg-gray-900 rounded-lg">
+        <div className="grid grid-cols-5 gap-4 p-4 border-b border-gray-800 text-sm font-medium text-gray-400">
+          <div>Label</div>
+          <div>Permissions</div>
+          <div>Last Used</div>
+          <div>Expires</div>
+          <div></div>
+        </div>
+        {loading ? (
+          <div className="p-4 text-center text-gray-400">Loading API keys...</div>
+        ) : apiKeys.length === 0 ? (
+          <div className="p-4 text-center text-gray-400">No API keys created yet</div>
+        ) : (
+          apiKeys.map((apiKey) => {
+            const isExpired = apiKey.expiresAt && new Date(apiKey.expiresAt) < new Date();
+
+            return (
+              <div
+                key={apiKey.id}
+                className="grid grid-cols-5 gap-4 p-4 border-b border-gray-800 last:border-b-0 text-sm items-center"
+              >
+                <div className="truncate" title={apiKey.label}>
+                  {apiKey.label}
+                </div>
+                <div className="text-gray-300">
+                  {apiKey.permissions === "all" ? "read, write" : apiKey.permissions}
+                </div>
+                <div className="text-gray-300">{formatRelativeTime(apiKey.lastUsedAt)}</div>
+                <div className={isExpired ? "text-red-400" : "text-gray-300"}>
+                  {isExpired ? "Expired" : formatDate(apiKey.expiresAt)}
+                </div>
+                <div className="text-right">
+                  <button
+                    onClick={() => handleRevoke(apiKey)}
+                    className="text-red-400 hover:text-red-300 transition-colors"
+                  >
+                    Revoke
+                  </button>
+                </div>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <form onSubmit={handleCreate} className="space-y-4">
+        <h3 className="font-medium">Create New Key</h3>
+        <div>
+          <label className="block text-sm mb-2">Label</label>
+          <input
+            type="text"
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder="default-cli"
+            required
+            maxLength={100}
+            className="w-full px-3 py-2 bg-gray-800 rounded border border-gray-700 focus:border-gray-600"
+          />
+        </div>
+        <div className="flex gap-6">
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={canRead}
+              onChange={(e) => setCanRead(e.target.checked)}
+            />
+            read
+          </label>
+          <label className="flex items-center gap-2 text-sm">
+            <input
+              type="checkbox"
+              checked={canWrite}
+              onChange={(e) => setCanWrite(e.target.checked)}
+            />
+            write
+          </label>
+        </div>
+        <div>
+          <label className="block text-sm mb-2">Expiration</label>
+          <select
+            value={expiration}
+            onChange={(e) => setExpiration(e.target.value)}
+            className="w-full px-3 py-2 bg-gray-800 rounded border border-gray-700 focus:border-gray-600"
+          >
+            <option value="never">Never expires</option>
+            <option value="7d">7 days</option>
+            <option value="30d">30 days</option>
+            <option value="90d">90 days</option>
+            <option value="1y">1 year</option>
+          </select>
+        </div>
+        <button
+          type="submit"
+          disabled={creating}
+          className="bg-white text-black px-4 py-2 rounded hover:bg-gray-200 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {creating ? "Generating..." : "➕ Generate & Copy"}
+        </button>
+      </form>
+    </div>
+  );
+}
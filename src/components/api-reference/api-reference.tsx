@@ -0,0 +1,225 @@
+import type {
+  HttpMethod,
+  JsonSchema,
+  OpenApiDocument,
+  OpenApiMediaType,
+  OpenApiOperation,
+} from "@/lib/openapi";
+
+const METHOD_STYLES: Record<HttpMethod, string> = {
+  get: "bg-blue-900 text-blue-200",
+  post: "bg-green-900 text-green-200",
+  put: "bg-yellow-900 text-yellow-200",
+  delete: "bg-red-900 text-red-200",
+};
+
+const AUTH_LABELS: Record<string, string> = {
+  read: "API key (read) or session",
+  write: "API key (write) or session",
+};
+
+export function tagAnchor(tag: string): string {
+  return `api-${tag.toLowerCase().replace(/\s+/g, "-")}`;
+}
+
+function resolve(document: OpenApiDocument, schema: JsonSchema): JsonSchema {
+  const ref = schema.$ref;
+  if (typeof ref === "string") {
+    return document.components.schemas[ref.split("/").pop()!] ?? schema;
+  }
+  return schema;
+}
+
+// A short type for field tables, e.g. "string | null" or "FileSummary[]"
+function typeLabel(schema: JsonSchema): string {
+  if (typeof schema.$ref === "string") {
+    return schema.$ref.split("/").pop()!;
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map((value) => JSON.stringify(value)).join(" | ");
+  }
+  if (Array.isArray(schema.anyOf)) {
+    return (schema.anyOf as JsonSchema[]).map(typeLabel).join(" | ");
+  }
+  if (schema.type === "array" && schema.items) {
+    return `${typeLabel(schema.items as JsonSchema)}[]`;
+  }
+  if (typeof schema.format === "string") {
+    return `${schema.type} (${schema.format})`;
+  }
+  return typeof schema.type === "string" ? schema.type : "any";
+}
+
+function authLabel(operation: OpenApiOperation): string {
+  if (operation["x-permission"]) {
+    return AUTH_LABELS[operation["x-permission"]];
+  }
+  return operation.security.length > 0 ? "Optional" : "None";
+}
+
+function Example({media}: {media: OpenApiMediaType}) {
+  if (media.example === undefined) {
+    return null;
+  }
+  return (
+    <pre className="bg-gray-900 p-4 rounded-lg overflow-x-auto text-sm text-green-400">
+      {JSON.stringify(media.example, null, 2)}
+    </pre>
+  );
+}
+
+function FieldTable({document, schema}: {document: OpenApiDocument; schema: JsonSchema}) {
+  const resolved = resolve(document, schema);
+  const properties = (resolved.properties ?? {}) as Record<string, JsonSchema>;
+  const required = (resolved.required ?? []) as string[];
+
+  return (
+    <table className="w-full text-sm mb-3">
+      <tbody>
+        {Object.entries(properties).map(([name, property]) => (
+          <tr key={name} className="border-b border-gray-800 align-top">
+            <td className="py-1 pr-4 font-mono">
+              {name}
+              {required.includes(name) && <span className="text-red-400">*</span>}
+            </td>
+            <td className="py-1 pr-4 text-gray-400 font-mono">{typeLabel(property)}</td>
+            <td className="py-1 text-gray-300">
+              {typeof property.description === "string" && property.description}
+              {property.default !== undefined && (
+                <span className="text-gray-500"> Default: {JSON.stringify(property.default)}</span>
+              )}
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
+
+function Operation({
+  document,
+  method,
+  path,
+  operation,
+}: {
+  document: OpenApiDocument;
+  method: HttpMethod;
+  path: string;
+  operation: OpenApiOperation;
+}) {
+  const body = operation.requestBody?.content["application/json"];
+
+  return (
+    <details id={operation.operationId} className="border border-gray-800 rounded-lg">
+      <summary className="flex items-center gap-3 p-3 cursor-pointer hover:bg-gray-900">
+        <span
+          className={`w-16 text-center text-xs font-bold uppercase rounded px-2 py-1 ${METHOD_STYLES[method]}`}
+        >
+          {method}
+        </span>
+        <code className="text-sm">{path}</code>
+        <span className="text-gray-400 text-sm ml-auto">{operation.summary}</span>
+      </summary>
+
+      <div className="p-4 space-y-4 border-t border-gray-800">
+        {operation.description && <p className="text-gray-300">{operation.description}</p>}
+        <p className="text-sm text-gray-400">
+          Authentication: <span className="text-gray-200">{authLabel(operation)}</span>
+        </p>
+
+        {operation.parameters.length > 0 && (
+          <div>
+            <h5 className="font-semibold mb-2">Parameters</h5>
+            <table className="w-full text-sm">
+              <tbody>
+                {operation.parameters.map((parameter) => (
+                  <tr
+                    key={`${parameter.in}-${parameter.name}`}
+                    className="border-b border-gray-800"
+                  >
+                    <td className="py-1 pr-4 font-mono">
+                      {parameter.name}
+                      {parameter.required && <span className="text-red-400">*</span>}
+                    </td>
+                    <td className="py-1 pr-4 text-gray-500">{parameter.in}</td>
+                    <td className="py-1 pr-4 text-gray-400 font-mono">
+                      {typeLabel(parameter.schema)}
+                    </td>
+                    <td className="py-1 text-gray-300">{parameter.description}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {body && (
+          <div>
+            <h5 className="font-semibold mb-2">Request body</h5>
+            <FieldTable document={document} schema={body.schema} />
+            <Example media={body} />
+          </div>
+        )}
+
+        <div>
+          <h5 className="font-semibold mb-2">Responses</h5>
+          <div className="space-y-3">
+            {Object.entries(operation.responses).map(([status, response]) => (
+              <div key={status}>
+                <p className="text-sm">
+                  <span
+                    className={`font-mono font-bold ${Number(status) < 400 ? "text-green-400" : "text-red-400"}`}
+                  >
+                    {status}
+                  </span>{" "}
+                  <span className="text-gray-300">{response.description}</span>
+                  {response.content && (
+                    <span className="text-gray-500">
+                      {" "}
+                      ({Object.keys(response.content).join(", ")})
+                    </span>
+                  )}
+                </p>
+                {response.content && <Example media={Object.values(response.content)[0]} />}
+              </div>
+            ))}
+          </div>
+        </div>
+      </div>
+    </details>
+  );
+}
+
+// Renders every operation in the document, grouped by tag
+export function ApiReference({document}: {document: OpenApiDocument}) {
+  const entries = Object.entries(document.paths).flatMap(([path, methods]) =>
+    Object.entries(methods).map(([method, operation]) => ({
+      path,
+      method: method as HttpMethod,
+      operation: operation!,
+    })),
+  );
+
+  return (
+    <div className="space-y-10">
+      {document.tags.map(({name}) => (
+        <div key={name} id={tagAnchor(name)}>
+          <h3 className="text-xl font-semibold mb-3">{name}</h3>
+          <div className="space-y-2">
+            {entries
+              .filter(({operation}) => operation.tags.includes(name))
+              .map(({path, method, operation}) => (
+                <Operation
+                  key={operation.operationId}
+                  document={document}
+                  method={method}
+                  path={path}
+                  operation={operation}
+                />
+              ))}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -1,96 +1,60 @@
 "use client";
 
 import React, {useState, useEffect} from "react";
-
-interface DashboardStats {
-  totalFiles: number;
-  totalSizeBytes: number;
-  filesByStatus: {
-    validated: number;
-    reserved: number;
-    failed: number;
-  };
-  filesByPermissions: {
-    public: number;
-    private: number;
-  };
-  recentFiles: Array<{
-    id: string;
-    filename: string;
-    createdAt: string;
-    sizeBytes: number;
-  }>;
-}
+import type {CountByType, FileListItem, Usage, UsageCategory} from "@hulkastorus/sdk";
+import {apiClient} from "@/lib/api-client";
+
+const categoryLabels: Record<UsageCategory, string> = {
+  images: "Images",
+  videos: "Videos",
+  audios: "Audio",
+  models: "Models",
+  datasets: "Datasets",
+  documents: "Documents",
+  other: "Other",
+};
+
+const emptyCounts: CountByType = {
+  total: 0,
+  images: 0,
+  videos: 0,
+  audios: 0,
+  models: 0,
+  datasets: 0,
+  documents: 0,
+  other: 0,
+};
 
 interface DashboardStatsProps {
+  userId?: string;
   refreshTrigger?: number;
 }
 
-export function DashboardStats({refreshTrigger}: DashboardStatsProps) {
-  const [stats, setStats] = useState<DashboardStats>({
-    totalFiles: 0,
-    totalSizeBytes: 0,
-    filesByStatus: {validated: 0, reserved: 0, failed: 0},
-    filesByPermissions: {public: 0, private: 0},
-    recentFiles: [],
+export function DashboardStats({userId, refreshTrigger}: DashboardStatsProps) {
+  const [usage, setUsage] = useState<Usage>({
+    file_counts: emptyCounts,
+    byte_counts: emptyCounts,
+    quota_bytes: null,
   });
+  const [recentFiles, setRecentFiles] = useState<FileListItem[]>([]);
   const [loading, setLoading] = useState(true);
 
   const fetchStats = async () => {
+    if (!userId) {
+      return;
+    }
+
     try {
       setLoading(true);
 
-      // Fetch file counts and recent files
-      const [allFilesResponse, recentFilesResponse] = await Promise.all([
-        fetch("/api/v1/files?limit=1000"), // Get all files for stats
-        fetch("/api/v1/files?limit=5&order_by=createdAt+desc"), // Get recent files
+      // Totals are aggregated server-side so they cover every file, not just one page
+      const [usageData, recentFilesData] = await Promise.all([
+        apiClient.users.usage(userId),
+        apiClient.files.list({limit: 5, orderBy: "createdAt+desc"}), // Get recent files
       ]);
 
-      if (!allFilesResponse.ok || !recentFilesResponse.ok) {
-        const allFilesError = !allFilesResponse.ok ? await allFilesResponse.text() : null;
-        const recentFilesError = !recentFilesResponse.ok ? await recentFilesResponse.text() : null;
-        console.error("API Error Details:", {
-          allFilesStatus: allFilesResponse.status,
-          allFilesError,
-          recentFilesStatus: recentFilesResponse.status,
-          recentFilesError,
-        });
-        throw new Error(`Failed to fetch dashboard data: ${allFilesError || recentFilesError}`);
-      }
-
-      const allFiles = await allFilesResponse.json();
-      const recentFiles = await recentFilesResponse.json();
-
-      // Calculate stats
-      const totalFiles = allFiles.files.length;
-      const totalSizeBytes = allFiles.files.reduce(
-        (sum: number, file: {sizeBytes?: number}) => sum + (file.sizeBytes || 0),
-        0,
-      );
-
-      const filesByStatus = allFiles.files.reduce(
-        (acc: Record<string, number>, file: {status: string}) => {
-          acc[file.status] = (acc[file.status] || 0) + 1;
-          return acc;
-        },
-        {validated: 0, reserved: 0, failed: 0},
-      );
-
-      const filesByPermissions = allFiles.files.reduce(
-        (acc: Record<string, number>, file: {permissions: string}) => {
-          acc[file.permissions] = (acc[file.permissions] || 0) + 1;
-          return acc;
-        },
-        {public: 0, private: 0},
-      );
-
-      setStats({
-        totalFiles,
-        totalSizeBytes,
-        filesByStatus,
-        filesByPermissions,
-        recentFiles: recentFiles.files,
-      });
+      setUsage(usageData);
+      setRecentFiles(recentFilesData.files);
     } catch (error) {
       console.error("Failed to fetch dashboard stats:", error);
     } finally {
@@ -100,7 +64,7 @@ export function DashboardStats({refreshTrigger}: DashboardStatsProps) {
 
   useEffect(() => {
     fetchStats();
-  }, [refreshTrigger]);
+  }, [userId, refreshTrigger]);
 
   const formatFileSize = (bytes: number) => {
     const units = ["B", "KB", "MB", "GB", "TB"];
@@ -126,8 +90,8 @@ export function DashboardStats({refreshTrigger}: DashboardStatsProps) {
 
   if (loading) {
     return (
-      <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
-        {[...Array(4)].map((_, i) => (
+      <div className="grid md:grid-cols-3 gap-6 mb-8">
+        {[...Array(3)].map((_, i) => (
           <div key={i} className="bg-gray-900 p-6 rounded-lg">
             <div className="animate-pulse">
               <div className="h-4 bg-gray-700 rounded mb-2"></div>
@@ -139,45 +103,52 @@ export function DashboardStats({refreshTrigger}: DashboardStatsProps) {
     );
   }
 
+  const usedBytes = usage.byte_counts.total;
+  const quotaPercent =
+    usage.quota_bytes === null
+      ? null
+      : usage.quota_bytes > 0
+        ? Math.min(100, Math.round((usedBytes / usage.quota_bytes) * 100))
+        : 100;
+  const categories = (Object.keys(categoryLabels) as UsageCategory[]).filter(
+    (category) => usage.file_counts[category] > 0,
+  );
+
   return (
     <>
       {/* Main Stats */}
-      <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-6 mb-8">
+      <div className="grid md:grid-cols-3 gap-6 mb-8">
         <div className="bg-gray-900 p-6 rounded-lg">
           <h3 className="text-lg font-semibold mb-2 text-gray-300">Total Files</h3>
-          <div className="text-3xl font-bold text-white">{stats.totalFiles}</div>
+          <div className="text-3xl font-bold text-white">{usage.file_counts.total}</div>
           <div className="text-sm text-gray-400 mt-1">
-            {stats.filesByStatus.validated} validated, {stats.filesByStatus.reserved} pending
+            {usage.file_counts.models} models, {usage.file_counts.datasets} datasets
           </div>
         </div>
 
         <div className="bg-gray-900 p-6 rounded-lg">
           <h3 className="text-lg font-semibold mb-2 text-gray-300">Storage Used</h3>
-          <div className="text-3xl font-bold text-white">
-            {formatFileSize(stats.totalSizeBytes)}
-          </div>
-          <div className="text-sm text-gray-400 mt-1">Across all files</div>
-        </div>
-
-        <div className="bg-gray-900 p-6 rounded-lg">
-          <h3 className="text-lg font-semibold mb-2 text-gray-300">Public Files</h3>
-          <div className="text-3xl font-bold text-white">{stats.filesByPermissions.public}</div>
+          <div className="text-3xl font-bold text-white">{formatFileSize(usedBytes)}</div>
           <div className="text-sm text-gray-400 mt-1">
-            {stats.filesByPermissions.private} private files
+            {usage.quota_bytes === null
+              ? "Unlimited storage"
+              : `of ${formatFileSize(usage.quota_bytes)} quota`}
           </div>
         </div>
 
         <div className="bg-gray-900 p-6 rounded-lg">
-          <h3 className="text-lg font-semibold mb-2 text-gray-300">Success Rate</h3>
+          <h3 className="text-lg font-semibold mb-2 text-gray-300">Quota</h3>
           <div className="text-3xl font-bold text-white">
-            {stats.totalFiles > 0
-              ? Math.round((stats.filesByStatus.validated / stats.totalFiles) * 100)
-              : 0}
-            %
-          </div>
-          <div className="text-sm text-gray-400 mt-1">
-            {stats.filesByStatus.failed} failed uploads
+            {quotaPercent === null ? "∞" : `${quotaPercent}%`}
           </div>
+          {quotaPercent !== null && (
+            <div className="w-full bg-gray-700 rounded-full h-2 mt-3">
+              <div
+                className={`h-2 rounded-full ${quotaPercent >= 90 ? "bg-red-500" : "bg-blue-500"}`}
+                style={{width: `${quotaPercent}%`}}
+              ></div>
+            </div>
+          )}
         </div>
       </div>
 
@@ -185,17 +156,17 @@ export function DashboardStats({refreshTrigger}: DashboardStatsProps) {
       <div className="grid md:grid-cols-2 gap-8 mb-8">
         <div className="bg-gray-900 p-6 rounded-lg">
           <h3 className="text-lg font-semibold mb-4">Recent Uploads</h3>
-          {stats.recentFiles.length === 0 ? (
+          {recentFiles.length === 0 ? (
             <div className="text-gray-400 text-center py-8">No files uploaded yet</div>
           ) : (
             <div className="space-y-3">
-              {stats.recentFiles.map((file) => (
+              {recentFiles.map((file) => (
                 <div key={file.id} className="flex justify-between items-center py-2">
                   <div>
                     <div className="font-medium text-white truncate">{file.filename}</div>
                     <div className="text-sm text-gray-400">{formatDate(file.createdAt)}</div>
                   </div>
-                  <div className="text-sm text-gray-300">{formatFileSize(file.sizeBytes)}</div>
+                  <div className="text-sm text-gray-300">{formatFileSize(file.sizeBytes ?? 0)}</div>
                 </div>
               ))}
             </div>
@@ -203,26 +174,27 @@ export function DashboardStats({refreshTrigger}: DashboardStatsProps) {
         </div>
 
         <div className="bg-gray-900 p-6 rounded-lg">
-          <h3 className="text-lg font-semibold mb-4">File Status Breakdown</h3>
-          <div className="space-y-3">
-            <div className="flex justify-between items-center">
-              <span className="text-green-400">✓ Validated</span>
-              <span className="font-medium">{stats.filesByStatus.validated}</span>
-            </div>
-            <div className="flex justify-between items-center">
-              <span className="text-yellow-400">⏳ Reserved</span>
-              <span className="font-medium">{stats.filesByStatus.reserved}</span>
-            </div>
-            <div className="flex justify-between items-center">
-              <span className="text-red-400">✗ Failed</span>
-              <span className="font-medium">{stats.filesByStatus.failed}</span>
-            </div>
-            <hr className="border-gray-700" />
-            <div className="flex justify-between items-center font-semibold">
-              <span>Total</span>
-              <span>{stats.totalFiles}</span>
+          <h3 className="text-lg font-semibold mb-4">Storage by Type</h3>
+          {categories.length === 0 ? (
+            <div className="text-gray-400 text-center py-8">No files stored yet</div>
+          ) : (
+            <div className="space-y-3">
+              {categories.map((category) => (
+                <div key={category} className="flex justify-between items-center">
+                  <span className="text-gray-300">
+                    {categoryLabels[category]}{" "}
+                    <span className="text-sm text-gray-500">({usage.file_counts[category]})</span>
+                  </span>
+                  <span className="font-medium">{formatFileSize(usage.byte_counts[category])}</span>
+                </div>
+              ))}
+              <hr className="border-gray-700" />
+              <div className="flex justify-between items-center font-semibold">
+                <span>Total</span>
+                <span>{formatFileSize(usedBytes)}</span>
+              </div>
             </div>
-          </div>
+          )}
         </div>
       </div>
     </>
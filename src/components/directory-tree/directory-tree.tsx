@@ -1,15 +1,19 @@
 "use client";
 
-import React, {useState, useEffect, useCallback} from "react";
+import React, {useState, useEffect, useCallback, useRef} from "react";
+import type {DirectoryListItem} from "@hulkastorus/sdk";
+import {apiClient} from "@/lib/api-client";
 
-interface Directory {
-  id: string;
+const PAGE_SIZE = 100;
+
+interface Directory extends DirectoryListItem {
   name: string;
-  fullPath: string;
-  permissions: "public" | "private" | "inherit";
-  createdAt: string;
-  updatedAt: string;
-  children?: Directory[];
+}
+
+// The loaded children of one directory, and the cursor for the rest
+interface ChildPage {
+  directories: Directory[];
+  nextCursor: string | null;
 }
 
 interface DirectoryTreeProps {
@@ -19,71 +23,85 @@ interface DirectoryTreeProps {
 }
 
 export function DirectoryTree({currentPath, onNavigate, onCreateDirectory}: DirectoryTreeProps) {
-  const [directories, setDirectories] = useState<Directory[]>([]);
+  // Children are fetched a level at a time, when their parent is first expanded
+  const [children, setChildren] = useState<Map<string, ChildPage>>(new Map());
   const [expandedPaths, setExpandedPaths] = useState<Set<string>>(new Set(["/"]));
-  const [loading, setLoading] = useState(true);
+  const [loadingPaths, setLoadingPaths] = useState<Set<string>>(new Set());
   const [error, setError] = useState<string | null>(null);
   const [contextMenu, setContextMenu] = useState<{path: string; x: number; y: number} | null>(null);
+  // Paths with a request in flight or done, so an expand never fetches twice
+  const requestedPaths = useRef(new Set<string>());
+
+  const loadChildren = useCallback(async (parentPath: string, cursor?: string) => {
+    setLoadingPaths((prev) => new Set(prev).add(parentPath));
 
-  const fetchDirectories = useCallback(async () => {
     try {
-      setLoading(true);
       setError(null);
 
-      const response = await fetch("/api/v1/directories");
-      if (!response.ok) {
-        throw new Error("Failed to fetch directories");
-      }
-
-      const data = await response.json();
-      setDirectories(data.directories || []);
+      // Top-level directories have no parent; "/" itself, if it exists, is one of them
+      const page = await apiClient.directories.listPage({
+        filter: parentPath === "/" ? {parentId: ""} : {"parent.fullPath": parentPath},
+        limit: PAGE_SIZE,
+        cursor,
+      });
+      const directories = page.directories
+        .filter((dir) => dir.fullPath !== "/")
+        .map((dir) => ({...dir, name: dir.fullPath.slice(dir.fullPath.lastIndexOf("/") + 1)}));
+
+      setChildren((prev) =>
+        new Map(prev).set(parentPath, {
+          directories: [
+            ...(cursor ? (prev.get(parentPath)?.directories ?? []) : []),
+            ...directories,
+          ],
+          nextCursor: page.nextCursor,
+        }),
+      );
     } catch (err) {
+      requestedPaths.current.delete(parentPath);
       setError(err instanceof Error ? err.message : "Failed to load directories");
     } finally {
-      setLoading(false);
+      setLoadingPaths((prev) => {
+        const next = new Set(prev);
+        next.delete(parentPath);
+        return next;
+      });
     }
   }, []);
 
   useEffect(() => {
-    fetchDirectories();
-  }, [fetchDirectories]);
+    for (const path of expandedPaths) {
+      if (!requestedPaths.current.has(path)) {
+        requestedPaths.current.add(path);
+        loadChildren(path);
+      }
+    }
+    // children is here so a refresh, which clears it, loads the expanded directories again
+  }, [expandedPaths, children, loadChildren]);
 
   useEffect(() => {
     // Auto-expand directories in the current path
-    const pathParts = currentPath.split("/").filter(Boolean);
-    const newExpanded = new Set(expandedPaths);
-
-    let buildPath = "";
-    pathParts.forEach((part) => {
-      buildPath += "/" + part;
-      newExpanded.add(buildPath);
-    });
-
-    setExpandedPaths(newExpanded);
-  }, [currentPath, expandedPaths]);
-
-  const buildDirectoryTree = (dirs: Directory[]): Directory[] => {
-    const pathMap = new Map<string, Directory>();
-    const rootDirs: Directory[] = [];
-
-    // Create a map of all directories
-    dirs.forEach((dir) => {
-      pathMap.set(dir.fullPath, {...dir, children: []});
+    setExpandedPaths((prev) => {
+      const newExpanded = new Set(prev);
+
+      let buildPath = "";
+      currentPath
+        .split("/")
+        .filter(Boolean)
+        .forEach((part) => {
+          buildPath += "/" + part;
+          newExpanded.add(buildPath);
+        });
+
+      return newExpanded;
     });
+  }, [currentPath]);
 
-    // Build the tree structure
-    dirs.forEach((dir) => {
-      const parentPath = dir.fullPath.substring(0, dir.fullPath.lastIndexOf("/")) || "/";
-      const parent = pathMap.get(parentPath);
-
-      if (parent && parent.fullPath !== dir.fullPath) {
-        parent.children!.push(pathMap.get(dir.fullPath)!);
-      } else if (parentPath === "/") {
-        rootDirs.push(pathMap.get(dir.fullPath)!);
-      }
-    });
-
-    return rootDirs.sort((a, b) => a.name.localeCompare(b.name));
+  // Drop everything loaded; the expanded directories load again
+  const refresh = () => {
+    requestedPaths.current.clear();
+    setError(null);
+    setChildren(new Map());
   };
 
   const toggleExpanded = (path: string) => {
@@ -112,10 +130,41 @@ export function DirectoryTree({currentPath, onNavigate, onCreateDirectory}: Dire
     closeContextMenu();
   };
 
+  // The loaded children of a directory, a spinner while they load and "Show more" for the rest
+  const renderChildren = (parentPath: string, level: number) => {
+    const page = children.get(parentPath);
+    const isLoading = loadingPaths.has(parentPath);
+
+    return (
+      <div>
+        {page?.directories.map((dir) => renderDirectoryItem(dir, level))}
+
+        {isLoading ? (
+          <div
+            className="py-1 px-2 text-xs text-gray-500"
+            style={{paddingLeft: `${(level + 1) * 12}px`}}
+          >
+            Loading...
+          </div>
+        ) : (
+          page?.nextCursor && (
+            <button
+              onClick={() => loadChildren(parentPath, page.nextCursor!)}
+              className="py-1 px-2 text-xs text-blue-400 hover:text-blue-300"
+              style={{paddingLeft: `${(level + 1) * 12}px`}}
+            >
+              Show more
+            </button>
+          )
+        )}
+      </div>
+    );
+  };
+
   const renderDirectoryItem = (dir: Directory, level: number = 0) => {
     const isExpanded = expandedPaths.has(dir.fullPath);
     const isCurrent = dir.fullPath === currentPath;
-    const hasChildren = dir.children && dir.children.length > 0;
+    const hasChildren = dir.subdirectoryCount > 0;
 
     return (
       <div key={dir.fullPath}>
@@ -144,17 +193,17 @@ export function DirectoryTree({currentPath, onNavigate, onCreateDirectory}: Dire
           <span className="text-lg">📁</span>
           <span className="text-sm truncate flex-1">{dir.name}</span>
 
-          {dir.permissions === "public" && <span className="text-xs text-blue-400">🌐</span>}
+          {dir.effectivePermissions === "public" && (
+            <span className="text-xs text-blue-400">🌐</span>
+          )}
         </div>
 
-        {hasChildren && isExpanded && (
-          <div>{dir.children!.map((child) => renderDirectoryItem(child, level + 1))}</div>
-        )}
+        {hasChildren && isExpanded && renderChildren(dir.fullPath, level + 1)}
       </div>
     );
   };
 
-  const directoryTree = buildDirectoryTree(directories);
+  const topLevel = children.get("/");
 
   useEffect(() => {
     const handleClickOutside = () => {
@@ -167,7 +216,7 @@ export function DirectoryTree({currentPath, onNavigate, onCreateDirectory}: Dire
     }
   }, [contextMenu]);
 
-  if (loading) {
+  if (!topLevel && !error) {
     return (
       <div className="p-4">
         <div className="flex items-center gap-2 text-gray-400">
@@ -182,7 +231,7 @@ export function DirectoryTree({currentPath, onNavigate, onCreateDirectory}: Dire
     return (
       <div className="p-4">
         <div className="text-red-400 text-sm mb-2">Failed to load directories</div>
-        <button onClick={fetchDirectories} className="text-blue-400 hover:text-blue-300 text-sm">
+        <button onClick={refresh} className="text-blue-400 hover:text-blue-300 text-sm">
           Try Again
         </button>
       </div>
@@ -195,7 +244,7 @@ export function DirectoryTree({currentPath, onNavigate, onCreateDirectory}: Dire
         <div className="flex items-center justify-between mb-4">
           <h3 className="text-sm font-semibold text-gray-300">Directories</h3>
           <button
-            onClick={fetchDirectories}
+            onClick={refresh}
             className="text-gray-400 hover:text-white transition-colors"
             title="Refresh"
           >
@@ -216,9 +265,9 @@ export function DirectoryTree({currentPath, onNavigate, onCreateDirectory}: Dire
         </div>
 
         {/* Directory tree */}
-        <div className="mt-2">{directoryTree.map((dir) => renderDirectoryItem(dir))}</div>
+        <div className="mt-2">{renderChildren("/", 0)}</div>
 
-        {directoryTree.length === 0 && (
+        {topLevel?.directories.length === 0 && (
           <div className="text-center py-4 text-gray-400 text-sm">No directories found</div>
         )}
       </div>
@@ -5,20 +5,8 @@ import {DirectoryTree} from "../directory-tree/directory-tree";
 import {Breadcrumb} from "../breadcrumb/breadcrumb";
 import {FileUploadModal} from "../file-upload/file-upload-modal";
 import {DirectoryModal} from "../directory-modal/directory-modal";
-
-interface File {
-  id: string;
-  filename: string;
-  fullPath: string;
-  mimeType: string;
-  sizeBytes: number;
-  permissions: "public" | "private";
-  status: string;
-  expirationPolicy: string;
-  expiresAt: string | null;
-  createdAt: string;
-  updatedAt: string;
-}
+import type {FileListItem, Permissions} from "@hulkastorus/sdk";
+import {apiClient} from "@/lib/api-client";
 
 interface FileBrowserProps {
   initialPath?: string;
@@ -26,12 +14,12 @@ interface FileBrowserProps {
 
 export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
   const [currentPath, setCurrentPath] = useState(initialPath);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [selectedFile, setSelectedFile] = useState<FileListItem | null>(null);
   const [showUploadModal, setShowUploadModal] = useState(false);
   const [showDirectoryModal, setShowDirectoryModal] = useState(false);
   const [directoryModalParent, setDirectoryModalParent] = useState("/");
   const [refreshTrigger, setRefreshTrigger] = useState(0);
-  const [currentDirectoryFiles, setCurrentDirectoryFiles] = useState<File[]>([]);
+  const [currentDirectoryFiles, setCurrentDirectoryFiles] = useState<FileListItem[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
@@ -40,32 +28,15 @@ export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
       setLoading(true);
       setError(null);
 
-      const params = new URLSearchParams();
-      params.append("limit", "100");
-      params.append("filter~fullPath", `${path}*`);
-      params.append("order_by", "filename+asc");
-
-      const response = await fetch(`/api/v1/files?${params}`);
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch files");
+      // Only the files directly in this directory, every page of them
+      const directFiles: FileListItem[] = [];
+      for await (const file of apiClient.files.listAll({
+        orderBy: "filename+asc",
+        filter: {"directory.fullPath": path},
+      })) {
+        directFiles.push(file);
       }
 
-      const data = await response.json();
-
-      // Filter files to only show those directly in the current directory
-      const directFiles = data.files.filter((file: File) => {
-        const filePath = file.fullPath;
-        const relativePath = filePath.startsWith(path) ? filePath.slice(path.length) : filePath;
-
-        // Remove leading slash if path is not root
-        const cleanRelativePath =
-          relativePath.startsWith("/") && path !== "/" ? relativePath.slice(1) : relativePath;
-
-        // Only show files directly in this directory (no subdirectories)
-        return !cleanRelativePath.includes("/") && cleanRelativePath.length > 0;
-      });
-
       setCurrentDirectoryFiles(directFiles);
     } catch (err) {
       setError(err instanceof Error ? err.message : "Failed to load files");
@@ -87,26 +58,11 @@ export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
   const handleCreateDirectory = async (
     name: string,
     parentPath: string,
-    permissions: "public" | "private" | "inherit",
+    permissions: Permissions,
   ) => {
     const fullPath = parentPath === "/" ? `/${name}` : `${parentPath}/${name}`;
 
-    const response = await fetch("/api/v1/directories", {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify({
-        name,
-        fullPath,
-        permissions,
-      }),
-    });
-
-    if (!response.ok) {
-      const errorData = await response.json();
-      throw new Error(errorData.error || "Failed to create directory");
-    }
+    await apiClient.directories.create({fullPath, defaultPermissions: permissions});
 
     // Refresh the directory tree and file list
     setRefreshTrigger((prev) => prev + 1);
@@ -233,18 +189,18 @@ export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3 flex-1 min-w-0">
                           <div className="text-2xl flex-shrink-0">
-                            {file.mimeType.startsWith("image/")
+                            {file.mimeType?.startsWith("image/")
                               ? "🖼️"
-                              : file.mimeType.startsWith("video/")
+                              : file.mimeType?.startsWith("video/")
                                 ? "🎥"
-                                : file.mimeType.startsWith("audio/")
+                                : file.mimeType?.startsWith("audio/")
                                   ? "🎵"
-                                  : file.mimeType.includes("pdf")
+                                  : file.mimeType?.includes("pdf")
                                     ? "📄"
-                                    : file.mimeType.includes("text")
+                                    : file.mimeType?.includes("text")
                                       ? "📝"
-                                      : file.mimeType.includes("zip") ||
-                                          file.mimeType.includes("archive")
+                                      : file.mimeType?.includes("zip") ||
+                                          file.mimeType?.includes("archive")
                                         ? "📦"
                                         : "📁"}
                           </div>
@@ -273,18 +229,20 @@ export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
                               </span>
                               <span
                                 className={`px-2 py-1 rounded text-xs ${
-                                  file.permissions === "public"
+                                  file.effectivePermissions === "public"
                                     ? "bg-blue-900 text-blue-300"
                                     : "bg-gray-700 text-gray-300"
                                 }`}
                               >
-                                {file.permissions === "public" ? "🌐 Public" : "🔒 Private"}
+                                {file.effectivePermissions === "public"
+                                  ? "🌐 Public"
+                                  : "🔒 Private"}
                               </span>
                             </div>
 
                             <div className="text-sm text-gray-400">
                               <div className="flex items-center gap-4">
-                                <span>{formatFileSize(file.sizeBytes)}</span>
+                                <span>{formatFileSize(file.sizeBytes ?? 0)}</span>
                                 <span>{formatDate(file.createdAt)}</span>
                               </div>
                             </div>
@@ -315,7 +273,7 @@ export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
             </div>
             <div>
               <div className="text-sm text-gray-400 mb-1">Size</div>
-              <div>{formatFileSize(selectedFile.sizeBytes)}</div>
+              <div>{formatFileSize(selectedFile.sizeBytes ?? 0)}</div>
             </div>
             <div>
               <div className="text-sm text-gray-400 mb-1">Uploaded</div>
@@ -349,12 +307,14 @@ export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
               <div className="flex items-center gap-2">
                 <span
                   className={
-                    selectedFile.permissions === "public" ? "text-blue-400" : "text-gray-400"
+                    selectedFile.effectivePermissions === "public"
+                      ? "text-blue-400"
+                      : "text-gray-400"
                   }
                 >
-                  {selectedFile.permissions === "public" ? "🌐" : "🔒"}
+                  {selectedFile.effectivePermissions === "public" ? "🌐" : "🔒"}
                 </span>
-                {selectedFile.permissions === "public" ? "Public" : "Private"}
+                {selectedFile.effectivePermissions === "public" ? "Public" : "Private"}
               </div>
             </div>
           </div>
@@ -362,18 +322,9 @@ export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
           <div className="mt-6 space-y-2">
             {selectedFile.status === "validated" && (
               <button
-                onClick={async () => {
-                  try {
-                    const response = await fetch(`/api/v1/files/${selectedFile.id}/download`);
-                    if (response.status === 307) {
-                      const downloadUrl = response.headers.get("Location");
-                      if (downloadUrl) {
-                        window.open(downloadUrl, "_blank");
-                      }
-                    }
-                  } catch {
-                    alert("Failed to download file");
-                  }
+                onClick={() => {
+                  // The download route redirects to a short-lived storage URL
+                  window.open(apiClient.files.downloadUrl(selectedFile.id), "_blank");
                 }}
                 className="w-full bg-blue-600 hover:bg-blue-700 text-white py-2 rounded transition-colors"
               >
@@ -386,9 +337,9 @@ export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
                 try {
                   const baseUrl = window.location.origin;
                   const link =
-                    selectedFile.permissions === "public"
+                    selectedFile.effectivePermissions === "public"
                       ? `${baseUrl}/d/${selectedFile.id}`
-                      : `${baseUrl}/api/v1/files/${selectedFile.id}/download`;
+                      : `${baseUrl}${apiClient.files.downloadUrl(selectedFile.id)}`;
 
                   await navigator.clipboard.writeText(link);
                   alert("Link copied to clipboard!");
@@ -408,13 +359,7 @@ export function FileBrowser({initialPath = "/"}: FileBrowserProps) {
                 }
 
                 try {
-                  const response = await fetch(`/api/v1/files/${selectedFile.id}`, {
-                    method: "DELETE",
-                  });
-
-                  if (!response.ok) {
-                    throw new Error("Failed to delete file");
-                  }
+                  await apiClient.files.delete(selectedFile.id);
 
                   setSelectedFile(null);
                   setRefreshTrigger((prev) => prev + 1);
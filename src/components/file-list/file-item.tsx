@@ -1,23 +1,12 @@
 "use client";
 
 import React, {useState} from "react";
-
-interface File {
-  id: string;
-  filename: string;
-  fullPath: string;
-  mimeType: string;
-  sizeBytes: number;
-  permissions: "public" | "private";
-  status: string;
-  expirationPolicy: string;
-  expiresAt: string | null;
-  createdAt: string;
-  updatedAt: string;
-}
+import type {FileSummary} from "@hulkastorus/sdk";
+import {apiClient} from "@/lib/api-client";
+import {FileSnippetsModal} from "./file-snippets-modal";
 
 interface FileItemProps {
-  file: File;
+  file: FileSummary;
   onSelect?: () => void;
   onDelete?: () => void;
   formatFileSize: (bytes: number) => string;
@@ -27,8 +16,10 @@ interface FileItemProps {
 export function FileItem({file, onSelect, onDelete, formatFileSize, formatDate}: FileItemProps) {
   const [showActions, setShowActions] = useState(false);
   const [copying, setCopying] = useState(false);
+  const [showSnippets, setShowSnippets] = useState(false);
 
-  const getFileIcon = (mimeType: string) => {
+  const getFileIcon = (mimeType: string | null) => {
+    if (!mimeType) return "📁";
     if (mimeType.startsWith("image/")) return "🖼️";
     if (mimeType.startsWith("video/")) return "🎥";
     if (mimeType.startsWith("audio/")) return "🎵";
@@ -73,32 +64,21 @@ export function FileItem({file, onSelect, onDelete, formatFileSize, formatDate}:
     return `Expires in ${file.expirationPolicy}`;
   };
 
-  const handleDownload = async () => {
-    try {
-      const response = await fetch(`/api/v1/files/${file.id}/download`);
-
-      if (response.status === 307) {
-        // Follow redirect to actual download URL
-        const downloadUrl = response.headers.get("Location");
-        if (downloadUrl) {
-          window.open(downloadUrl, "_blank");
-        }
-      } else {
-        throw new Error("Failed to get download URL");
-      }
-    } catch {
-      alert("Failed to download file");
-    }
+  const handleDownload = () => {
+    // The download route redirects to a short-lived storage URL
+    window.open(apiClient.files.downloadUrl(file.id), "_blank");
   };
 
   const handleCopyLink = async () => {
     setCopying(true);
     try {
-      const baseUrl = window.location.origin;
-      const link =
-        file.permissions === "public"
-          ? `${baseUrl}/d/${file.id}`
-          : `${baseUrl}/api/v1/files/${file.id}/download`;
+      let link = `${window.location.origin}/d/${file.id}`;
+
+      // Private files get a week-long share link instead
+      if (file.effectivePermissions !== "public") {
+        const shareToken = await apiClient.shareTokens.create({fileId: file.id});
+        link = shareToken.url!;
+      }
 
       await navigator.clipboard.writeText(link);
 
@@ -127,19 +107,19 @@ export function FileItem({file, onSelect, onDelete, formatFileSize, formatDate}:
               {getStatusBadge(file.status)}
               <span
                 className={`px-2 py-1 rounded text-xs ${
-                  file.permissions === "public"
+                  file.effectivePermissions === "public"
                     ? "bg-blue-900 text-blue-300"
                     : "bg-gray-700 text-gray-300"
                 }`}
               >
-                {file.permissions === "public" ? "🌐 Public" : "🔒 Private"}
+                {file.effectivePermissions === "public" ? "🌐 Public" : "🔒 Private"}
               </span>
             </div>
 
             <div className="text-sm text-gray-400">
               <div className="flex items-center gap-4">
                 <span>{file.fullPath}</span>
-                <span>{formatFileSize(file.sizeBytes)}</span>
+                <span>{formatFileSize(file.sizeBytes ?? 0)}</span>
                 <span>{formatDate(file.createdAt)}</span>
               </div>
               <div className="mt-1">{getExpirationInfo()}</div>
@@ -169,11 +149,28 @@ export function FileItem({file, onSelect, onDelete, formatFileSize, formatDate}:
                 handleCopyLink();
               }}
               className="p-2 text-gray-400 hover:text-green-400 hover:bg-gray-700 rounded transition-colors"
-              title={copying ? "Copied!" : "Copy link"}
+              title={
+                copying
+                  ? "Copied!"
+                  : file.effectivePermissions === "public"
+                    ? "Copy link"
+                    : "Copy share link"
+              }
             >
               {copying ? "✓" : "🔗"}
             </button>
 
+            <button
+              onClick={(e) => {
+                e.stopPropagation();
+                setShowSnippets(true);
+              }}
+              className="p-2 text-gray-400 hover:text-green-400 hover:bg-gray-700 rounded transition-colors"
+              title="Copy as curl"
+            >
+              ⌨️
+            </button>
+
             <button
               onClick={(e) => {
                 e.stopPropagation();
@@ -187,6 +184,13 @@ export function FileItem({file, onSelect, onDelete, formatFileSize, formatDate}:
           </div>
         )}
       </div>
+
+      <FileSnippetsModal
+        isOpen={showSnippets}
+        onClose={() => setShowSnippets(false)}
+        fileId={file.id}
+        filename={file.filename}
+      />
     </div>
   );
 }
@@ -1,87 +1,112 @@
 "use client";
 
 import React, {useState, useEffect, useCallback} from "react";
+import type {FileListItem} from "@hulkastorus/sdk";
+import {HulkValidationError} from "@hulkastorus/sdk/errors";
+import {apiClient} from "@/lib/api-client";
 import {FileItem} from "./file-item";
 
-interface File {
-  id: string;
-  filename: string;
-  fullPath: string;
-  mimeType: string;
-  sizeBytes: number;
-  permissions: "public" | "private";
-  status: string;
-  expirationPolicy: string;
-  expiresAt: string | null;
-  createdAt: string;
-  updatedAt: string;
-}
-
-interface FileListResponse {
-  files: File[];
-  pagination: {
-    total: number;
-    limit: number;
-    offset: number;
-  };
-}
-
 interface FileListProps {
   refreshTrigger?: number;
-  onFileSelect?: (file: File) => void;
+  onFileSelect?: (file: FileListItem) => void;
 }
 
 export function FileList({refreshTrigger, onFileSelect}: FileListProps) {
-  const [files, setFiles] = useState<File[]>([]);
+  const [files, setFiles] = useState<FileListItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
+  const [debouncedSearchTerm, setDebouncedSearchTerm] = useState("");
+  const [searchError, setSearchError] = useState<string | null>(null);
+  const [nextCursor, setNextCursor] = useState<string | null>(null);
+  const [loadingMore, setLoadingMore] = useState(false);
+  const [hasLoaded, setHasLoaded] = useState(false);
   const [filterStatus, setFilterStatus] = useState<string>("all");
   const [filterPermissions, setFilterPermissions] = useState<string>("all");
   const [sortBy, setSortBy] = useState<string>("createdAt");
   const [sortOrder, setSortOrder] = useState<"asc" | "desc">("desc");
 
+  // Search the server once typing pauses
+  useEffect(() => {
+    const timer = setTimeout(() => setDebouncedSearchTerm(searchTerm.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchTerm]);
+
+  // The dropdowns become search terms while searching
+  const searchQuery = debouncedSearchTerm
+    ? [
+        debouncedSearchTerm,
+        filterStatus !== "all" && `status:${filterStatus}`,
+        filterPermissions !== "all" && filterPermissions,
+      ]
+        .filter(Boolean)
+        .join(" ")
+    : null;
+
   const fetchFiles = useCallback(async () => {
     try {
       setLoading(true);
       setError(null);
+      setSearchError(null);
 
-      const params = new URLSearchParams();
-      params.append("limit", "50");
+      if (searchQuery) {
+        const data = await apiClient.files.search(searchQuery, {limit: 50});
+        setFiles(data.files);
+        setNextCursor(data.nextCursor);
+        return;
+      }
+
+      const filter: Record<string, string> = {};
 
       if (filterStatus !== "all") {
-        params.append("filter~status", filterStatus);
+        filter.status = filterStatus;
       }
       if (filterPermissions !== "all") {
-        params.append("filter~permissions", filterPermissions);
-      }
-
-      params.append("order_by", `${sortBy}+${sortOrder}`);
-
-      const response = await fetch(`/api/v1/files?${params}`);
-
-      if (!response.ok) {
-        throw new Error("Failed to fetch files");
+        filter.permissions = filterPermissions;
       }
 
-      const data: FileListResponse = await response.json();
+      const data = await apiClient.files.list({
+        limit: 50,
+        orderBy: `${sortBy}+${sortOrder}`,
+        filter,
+      });
       setFiles(data.files);
+      setNextCursor(null);
     } catch (err) {
-      setError(err instanceof Error ? err.message : "Failed to load files");
+      if (searchQuery && err instanceof HulkValidationError) {
+        // A malformed query; keep the search box so it can be fixed
+        setSearchError(err.message);
+        setFiles([]);
+        setNextCursor(null);
+      } else {
+        setError(err instanceof Error ? err.message : "Failed to load files");
+      }
     } finally {
       setLoading(false);
+      setHasLoaded(true);
     }
-  }, [filterStatus, filterPermissions, sortBy, sortOrder]);
+  }, [searchQuery, filterStatus, filterPermissions, sortBy, sortOrder]);
 
   useEffect(() => {
     fetchFiles();
-  }, [refreshTrigger, filterStatus, filterPermissions, sortBy, sortOrder, fetchFiles]);
+  }, [refreshTrigger, fetchFiles]);
 
-  const filteredFiles = files.filter(
-    (file) =>
-      file.filename.toLowerCase().includes(searchTerm.toLowerCase()) ||
-      file.fullPath.toLowerCase().includes(searchTerm.toLowerCase()),
-  );
+  const loadMoreResults = async () => {
+    if (!searchQuery || !nextCursor) {
+      return;
+    }
+
+    try {
+      setLoadingMore(true);
+      const data = await apiClient.files.search(searchQuery, {limit: 50, cursor: nextCursor});
+      setFiles((current) => [...current, ...data.files]);
+      setNextCursor(data.nextCursor);
+    } catch (err) {
+      alert(err instanceof Error ? err.message : "Failed to load more files");
+    } finally {
+      setLoadingMore(false);
+    }
+  };
 
   const handleDeleteFile = async (fileId: string) => {
     if (!confirm("Are you sure you want to delete this file?")) {
@@ -89,13 +114,7 @@ export function FileList({refreshTrigger, onFileSelect}: FileListProps) {
     }
 
     try {
-      const response = await fetch(`/api/v1/files/${fileId}`, {
-        method: "DELETE",
-      });
-
-      if (!response.ok) {
-        throw new Error("Failed to delete file");
-      }
+      await apiClient.files.delete(fileId);
 
       // Refresh the file list
       fetchFiles();
@@ -127,7 +146,7 @@ export function FileList({refreshTrigger, onFileSelect}: FileListProps) {
     });
   };
 
-  if (loading) {
+  if (loading && !hasLoaded) {
     return (
       <div className="bg-gray-900 rounded-lg p-6">
         <h3 className="text-lg font-semibold mb-4">Files</h3>
@@ -160,7 +179,10 @@ export function FileList({refreshTrigger, onFileSelect}: FileListProps) {
   return (
     <div className="bg-gray-900 rounded-lg p-6">
       <div className="flex justify-between items-center mb-4">
-        <h3 className="text-lg font-semibold">Files ({filteredFiles.length})</h3>
+        <h3 className="text-lg font-semibold">
+          Files ({files.length}
+          {nextCursor ? "+" : ""})
+        </h3>
         <button
           onClick={fetchFiles}
           className="text-gray-400 hover:text-white transition-colors"
@@ -174,7 +196,8 @@ export function FileList({refreshTrigger, onFileSelect}: FileListProps) {
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
         <input
           type="text"
-          placeholder="Search files..."
+          placeholder="Search, e.g. *.csv type:image size:>10MB /reports"
+          title="Filename text or glob, type:, size:, expires:, status:, public/private and /path"
           value={searchTerm}
           onChange={(e) => setSearchTerm(e.target.value)}
           className="px-3 py-2 bg-gray-800 rounded border border-gray-700 focus:border-gray-600 focus:outline-none"
@@ -203,6 +226,8 @@ export function FileList({refreshTrigger, onFileSelect}: FileListProps) {
 
         <select
           value={`${sortBy}+${sortOrder}`}
+          disabled={!!searchQuery}
+          title={searchQuery ? "Search results are newest first" : undefined}
           onChange={(e) => {
             const [field, order] = e.target.value.split("+");
             setSortBy(field);
@@ -219,11 +244,13 @@ export function FileList({refreshTrigger, onFileSelect}: FileListProps) {
         </select>
       </div>
 
+      {searchError && <div className="text-red-400 text-sm -mt-4 mb-4">{searchError}</div>}
+
       {/* File List */}
-      {filteredFiles.length === 0 ? (
+      {files.length === 0 ? (
         <div className="text-center py-8">
           <div className="text-gray-400 mb-2">
-            {searchTerm ? "No files match your search" : "No files uploaded yet"}
+            {searchQuery ? "No files match your search" : "No files uploaded yet"}
           </div>
           {searchTerm && (
             <button
@@ -236,7 +263,7 @@ export function FileList({refreshTrigger, onFileSelect}: FileListProps) {
         </div>
       ) : (
         <div className="space-y-2">
-          {filteredFiles.map((file) => (
+          {files.map((file) => (
             <FileItem
               key={file.id}
               file={file}
@@ -246,6 +273,15 @@ export function FileList({refreshTrigger, onFileSelect}: FileListProps) {
               formatDate={formatDate}
             />
           ))}
+          {nextCursor && (
+            <button
+              onClick={loadMoreResults}
+              disabled={loadingMore}
+              className="w-full py-2 text-sm text-blue-400 hover:text-blue-300 disabled:text-gray-500"
+            >
+              {loadingMore ? "Loading..." : "Load more"}
+            </button>
+          )}
         </div>
       )}
     </div>
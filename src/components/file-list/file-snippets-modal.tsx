@@ -0,0 +1,105 @@
+"use client";
+
+import React, {useEffect, useState} from "react";
+import type {FileSnippetsResponse, SnippetSet} from "@hulkastorus/sdk";
+import {TabbedCodeBlock} from "@/components/code-block/tabbed-code-block";
+import {apiClient} from "@/lib/api-client";
+import {API_KEY_ENV_VAR, SNIPPET_LANGUAGES, snippetLanguageLabels} from "@/lib/snippets";
+
+type FileSnippets = FileSnippetsResponse["snippets"];
+
+interface FileSnippetsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  fileId: string;
+  filename: string;
+}
+
+// Bash/PowerShell/Python tabs for TabbedCodeBlock
+export function toCodeExamples(snippets: SnippetSet) {
+  return SNIPPET_LANGUAGES.map((language) => ({
+    label: snippetLanguageLabels[language],
+    code: snippets[language],
+    language,
+  }));
+}
+
+export function FileSnippetsModal({isOpen, onClose, fileId, filename}: FileSnippetsModalProps) {
+  const [snippets, setSnippets] = useState<FileSnippets | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen || snippets) return;
+
+    const loadSnippets = async () => {
+      try {
+        setSnippets((await apiClient.files.snippets(fileId)).snippets);
+      } catch (err) {
+        setError(err instanceof Error ? err.message : "Failed to load commands");
+      }
+    };
+
+    loadSnippets();
+  }, [isOpen, fileId, snippets]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 cursor-default"
+      onClick={(e) => {
+        // Keep clicks from selecting the file row behind the modal
+        e.stopPropagation();
+        onClose();
+      }}
+    >
+      <div
+        className="bg-gray-900 rounded-lg w-full max-w-3xl mx-4 max-h-[90vh] overflow-y-auto"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <div className="p-6">
+          <div className="flex justify-between items-center mb-6">
+            <h3 className="text-lg font-semibold">Copy as curl: {filename}</h3>
+            <button onClick={onClose} className="text-gray-400 hover:text-white">
+              ✕
+            </button>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-900/30 border border-red-700 rounded-md text-sm text-red-200">
+              {error}
+            </div>
+          )}
+
+          {!snippets && !error && <div className="text-gray-400">Loading...</div>}
+
+          {snippets && (
+            <div className="space-y-6">
+              {snippets.download && (
+                <div>
+                  <h4 className="font-medium mb-2">Download</h4>
+                  <TabbedCodeBlock examples={toCodeExamples(snippets.download)} />
+                </div>
+              )}
+
+              <div>
+                <h4 className="font-medium mb-2">Download with an API key</h4>
+                <TabbedCodeBlock examples={toCodeExamples(snippets.authenticatedDownload)} />
+              </div>
+
+              <div>
+                <h4 className="font-medium mb-2">Upload from the command line</h4>
+                <TabbedCodeBlock examples={toCodeExamples(snippets.upload)} />
+              </div>
+
+              <p className="text-xs text-gray-400">
+                Commands read your API key from the <code>{API_KEY_ENV_VAR}</code> environment
+                variable. Create one on the settings page.
+              </p>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,19 @@
 "use client";
 
 import React, {useState, useRef, useCallback, useEffect} from "react";
+import {useSession} from "next-auth/react";
 import {FileUploadProgress} from "./file-upload-progress";
+import {TabbedCodeBlock} from "@/components/code-block/tabbed-code-block";
+import {toCodeExamples} from "@/components/file-list/file-snippets-modal";
+import {apiClient} from "@/lib/api-client";
+import {buildUploadSnippets} from "@/lib/snippets";
+import {
+  MULTIPART_THRESHOLD,
+  SavedUpload,
+  discardSavedUpload,
+  loadSavedUpload,
+  uploadMultipart,
+} from "./multipart-upload";
 
 interface FileWithPath extends File {
   path?: string;
@@ -17,9 +29,23 @@ interface FileUploadModalProps {
 interface UploadState {
   file: FileWithPath | null;
   progress: number;
-  status: "idle" | "uploading" | "validating" | "completed" | "error";
+  status: "idle" | "resumable" | "uploading" | "validating" | "completed" | "error";
   error?: string;
   fileId?: string;
+  savedUpload?: SavedUpload;
+}
+
+// Returned by POST /api/v1/files until the user verifies their email address
+const EMAIL_VERIFICATION_ERROR = "Email verification required";
+
+// Share of an interrupted upload that already reached storage, as a percentage
+function getSavedProgress(file: File, saved: SavedUpload): number {
+  const lastPartSize = file.size - (saved.partCount - 1) * saved.partSize;
+  const uploadedBytes = saved.parts.reduce(
+    (sum, part) => sum + (part.partNumber === saved.partCount ? lastPartSize : saved.partSize),
+    0,
+  );
+  return Math.round((uploadedBytes / file.size) * 100);
 }
 
 export function FileUploadModal({
@@ -28,6 +54,7 @@ export function FileUploadModal({
   onUploadComplete,
   initialPath = "/",
 }: FileUploadModalProps) {
+  const {data: session} = useSession();
   const [uploadState, setUploadState] = useState<UploadState>({
     file: null,
     progress: 0,
@@ -40,6 +67,8 @@ export function FileUploadModal({
   const [fullPath, setFullPath] = useState("");
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [isDragOver, setIsDragOver] = useState(false);
+  const [verificationEmailSent, setVerificationEmailSent] = useState(false);
+  const [showCurl, setShowCurl] = useState(false);
 
   const resetModal = useCallback(() => {
     setUploadState({
@@ -60,6 +89,17 @@ export function FileUploadModal({
     }
   }, [isOpen, initialPath, fullPath]);
 
+  const resendVerificationEmail = async () => {
+    if (!session?.user?.id) return;
+
+    try {
+      await apiClient.users.sendVerificationEmail(session.user.id);
+      setVerificationEmailSent(true);
+    } catch (error) {
+      console.error("Error sending verification email:", error);
+    }
+  };
+
   const handleClose = () => {
     if (uploadState.status !== "uploading" && uploadState.status !== "validating") {
       resetModal();
@@ -72,6 +112,19 @@ export function FileUploadModal({
       const file = files[0] as FileWithPath;
       if (!file) return;
 
+      // Offer to continue an upload of the same file that was interrupted earlier
+      const savedUpload = loadSavedUpload(file);
+      if (savedUpload) {
+        setUploadState({
+          file,
+          progress: getSavedProgress(file, savedUpload),
+          status: "resumable",
+          savedUpload,
+        });
+        setFullPath(savedUpload.fullPath);
+        return;
+      }
+
       setUploadState({
         file,
         progress: 0,
@@ -111,64 +164,44 @@ export function FileUploadModal({
   const uploadFile = async () => {
     if (!uploadState.file) return;
 
+    const file = uploadState.file;
+    const savedUpload = uploadState.savedUpload;
+
     setUploadState((prev) => ({...prev, status: "uploading", progress: 0}));
 
     try {
-      // Step 1: Create file record and get upload URL
-      const createResponse = await fetch("/api/v1/files", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          filename: uploadState.file.name,
-          mimeType: uploadState.file.type || "application/octet-stream",
-          sizeBytes: uploadState.file.size,
-          fullPath: fullPath || `/${uploadState.file.name}`,
+      let fileId = savedUpload?.fileId;
+      let uploadUrl: string | undefined;
+
+      // Step 1: Create file record and get upload URL (resumed uploads already have one)
+      if (!fileId) {
+        const created = await apiClient.files.create({
+          filename: file.name,
+          mimeType: file.type || "application/octet-stream",
+          sizeBytes: file.size,
+          fullPath: fullPath || `/${file.name}`,
           permissions,
           expirationPolicy,
-        }),
-      });
-
-      if (!createResponse.ok) {
-        const errorData = await createResponse.json();
-        throw new Error(errorData.error || "Failed to create file record");
+        });
+        fileId = created.id;
+        uploadUrl = created.uploadUrl;
       }
 
-      const {uploadUrl, id: fileId} = await createResponse.json();
-
       setUploadState((prev) => ({...prev, fileId, progress: 25}));
 
-      // Step 2: Upload file to R2
-      const uploadResponse = await fetch(uploadUrl, {
-        method: "PUT",
-        body: uploadState.file,
-        headers: {
-          "Content-Type": uploadState.file.type || "application/octet-stream",
-        },
-      });
-
-      if (!uploadResponse.ok) {
-        throw new Error("Failed to upload file to storage");
+      // Step 2: Upload file to R2, in parallel parts for large files
+      if (file.size > MULTIPART_THRESHOLD) {
+        await uploadMultipart(file, fileId, fullPath || `/${file.name}`, (fraction) => {
+          setUploadState((prev) => ({...prev, progress: 25 + Math.round(fraction * 50)}));
+        });
+      } else {
+        await apiClient.putObject(uploadUrl!, file, file.type || "application/octet-stream");
       }
 
       setUploadState((prev) => ({...prev, progress: 75, status: "validating"}));
 
       // Step 3: Validate upload
-      const validateResponse = await fetch(`/api/v1/files/${fileId}/status`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          status: "uploaded",
-        }),
-      });
-
-      if (!validateResponse.ok) {
-        const errorData = await validateResponse.json();
-        throw new Error(errorData.error || "Failed to validate upload");
-      }
+      await apiClient.files.markUploaded(fileId);
 
       setUploadState((prev) => ({...prev, progress: 100, status: "completed"}));
 
@@ -182,14 +215,46 @@ export function FileUploadModal({
         handleClose();
       }, 2000);
     } catch (error) {
+      // Parts that finished are saved, so trying again picks up where this left off
+      const interrupted = loadSavedUpload(file);
       setUploadState((prev) => ({
         ...prev,
         status: "error",
         error: error instanceof Error ? error.message : "Upload failed",
+        savedUpload: interrupted || undefined,
+        progress: interrupted ? getSavedProgress(file, interrupted) : prev.progress,
       }));
     }
   };
 
+  const startOver = async () => {
+    if (!uploadState.file || !uploadState.savedUpload) return;
+
+    const file = uploadState.file;
+    try {
+      await discardSavedUpload(file, uploadState.savedUpload);
+    } catch (error) {
+      // The reserved file is cleaned up by the expiry sweep if this fails
+      console.error("Error discarding interrupted upload:", error);
+    }
+
+    setUploadState({file, progress: 0, status: "idle"});
+  };
+
+  const getUploadSnippets = () => {
+    // Without a selected file, show a placeholder name in the directory being browsed
+    const filename = uploadState.file?.name || "file.bin";
+    const directory = initialPath.endsWith("/") ? initialPath : `${initialPath}/`;
+
+    return buildUploadSnippets(window.location.origin, {
+      filename,
+      fullPath: fullPath || (uploadState.file ? `/${filename}` : `${directory}${filename}`),
+      mimeType: uploadState.file ? uploadState.file.type || "application/octet-stream" : null,
+      permissions,
+      expirationPolicy,
+    });
+  };
+
   if (!isOpen) return null;
 
   return (
@@ -243,7 +308,7 @@ export function FileUploadModal({
                       {(uploadState.file.size / (1024 * 1024)).toFixed(2)} MB
                     </div>
                   </div>
-                  {uploadState.status === "idle" && (
+                  {(uploadState.status === "idle" || uploadState.status === "resumable") && (
                     <button
                       onClick={() => {
                         setUploadState({file: null, progress: 0, status: "idle"});
@@ -303,8 +368,17 @@ export function FileUploadModal({
                 </>
               )}
 
+              {uploadState.status === "resumable" && uploadState.savedUpload && (
+                <div className="p-3 bg-blue-900/30 border border-blue-700 rounded-md text-sm text-blue-200">
+                  An earlier upload of this file to{" "}
+                  <span className="font-medium">{uploadState.savedUpload.fullPath}</span> was
+                  interrupted at {uploadState.progress}%. Resume to continue from the last finished
+                  part.
+                </div>
+              )}
+
               {/* Progress and Status */}
-              {(uploadState.status !== "idle" || uploadState.error) && (
+              {uploadState.status !== "idle" && uploadState.status !== "resumable" && (
                 <FileUploadProgress
                   progress={uploadState.progress}
                   status={uploadState.status as "uploading" | "validating" | "completed" | "error"}
@@ -315,6 +389,23 @@ export function FileUploadModal({
             </div>
           )}
 
+          {/* The same upload as a command, for files that live on a remote machine */}
+          {(uploadState.status === "idle" || uploadState.status === "resumable") && (
+            <div className="mt-4">
+              <button
+                onClick={() => setShowCurl((prev) => !prev)}
+                className="text-sm text-blue-400 hover:text-blue-300"
+              >
+                {showCurl ? "Hide command" : "Upload from a terminal instead"}
+              </button>
+              {showCurl && (
+                <div className="mt-2">
+                  <TabbedCodeBlock examples={toCodeExamples(getUploadSnippets())} />
+                </div>
+              )}
+            </div>
+          )}
+
           {/* Action Buttons */}
           <div className="flex gap-3 mt-6">
             {uploadState.status === "idle" && uploadState.file && (
@@ -326,6 +417,23 @@ export function FileUploadModal({
               </button>
             )}
 
+            {uploadState.status === "resumable" && (
+              <>
+                <button
+                  onClick={uploadFile}
+                  className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded transition-colors"
+                >
+                  Resume Upload
+                </button>
+                <button
+                  onClick={startOver}
+                  className="flex-1 border border-gray-600 hover:bg-gray-800 py-2 px-4 rounded transition-colors"
+                >
+                  Start Over
+                </button>
+              </>
+            )}
+
             {uploadState.status === "completed" && (
               <button
                 onClick={handleClose}
@@ -335,10 +443,24 @@ export function FileUploadModal({
               </button>
             )}
 
-            {uploadState.status === "error" && (
+            {uploadState.status === "error" && uploadState.error === EMAIL_VERIFICATION_ERROR && (
+              <button
+                onClick={resendVerificationEmail}
+                disabled={verificationEmailSent}
+                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {verificationEmailSent ? "Check Your Inbox" : "Resend Verification Email"}
+              </button>
+            )}
+
+            {uploadState.status === "error" && uploadState.error !== EMAIL_VERIFICATION_ERROR && (
               <button
                 onClick={() =>
-                  setUploadState((prev) => ({...prev, status: "idle", error: undefined}))
+                  setUploadState((prev) => ({
+                    ...prev,
+                    status: prev.savedUpload ? "resumable" : "idle",
+                    error: undefined,
+                  }))
                 }
                 className="flex-1 bg-blue-600 hover:bg-blue-700 text-white py-2 px-4 rounded transition-colors"
               >
@@ -0,0 +1,196 @@
+import {HulkNotFoundError} from "@hulkastorus/sdk/errors";
+import {apiClient} from "@/lib/api-client";
+
+// Files above this size are uploaded in parallel parts instead of a single PUT
+export const MULTIPART_THRESHOLD = 100 * 1024 * 1024;
+
+// How many parts are uploaded at once
+const PART_CONCURRENCY = 4;
+
+// How many part URLs are signed per request (the API allows up to 100)
+const SIGN_BATCH_SIZE = 20;
+
+// Each part is retried this many times before the upload fails
+const PART_RETRIES = 3;
+
+// localStorage key prefix for interrupted uploads
+const STORAGE_PREFIX = "hulkastorus:upload:";
+
+interface UploadedPart {
+  partNumber: number;
+  etag: string;
+}
+
+// Progress saved after every finished part so an upload survives reloads
+export interface SavedUpload {
+  fileId: string;
+  uploadId: string;
+  fullPath: string;
+  partSize: number;
+  partCount: number;
+  parts: UploadedPart[];
+  updatedAt: string;
+}
+
+/**
+ * Identify a local file across page loads. Browsers don't expose the real path,
+ * so name, size and modification time are the best available fingerprint.
+ */
+export function getUploadFingerprint(file: File): string {
+  return `${file.name}:${file.size}:${file.lastModified}`;
+}
+
+export function loadSavedUpload(file: File): SavedUpload | null {
+  try {
+    const saved = localStorage.getItem(STORAGE_PREFIX + getUploadFingerprint(file));
+    return saved ? (JSON.parse(saved) as SavedUpload) : null;
+  } catch {
+    return null;
+  }
+}
+
+export function clearSavedUpload(file: File): void {
+  try {
+    localStorage.removeItem(STORAGE_PREFIX + getUploadFingerprint(file));
+  } catch {
+    // Storage may be unavailable (e.g. private browsing); nothing to clear
+  }
+}
+
+function saveUpload(file: File, upload: SavedUpload): void {
+  try {
+    localStorage.setItem(STORAGE_PREFIX + getUploadFingerprint(file), JSON.stringify(upload));
+  } catch {
+    // Without storage the upload still works, it just can't be resumed after a reload
+  }
+}
+
+async function signPartUrls(fileId: string, partNumbers: number[]): Promise<Map<number, string>> {
+  const {parts} = await apiClient.files.multipart.signParts(fileId, partNumbers);
+  return new Map(parts.map((part) => [part.partNumber, part.uploadUrl]));
+}
+
+async function listUploadedParts(fileId: string): Promise<UploadedPart[]> {
+  const {parts} = await apiClient.files.multipart.listParts(fileId);
+  return parts.map(({partNumber, etag}) => ({partNumber, etag}));
+}
+
+async function uploadPart(uploadUrl: string, body: Blob): Promise<string> {
+  let lastError: unknown;
+
+  for (let attempt = 0; attempt < PART_RETRIES; attempt++) {
+    try {
+      const etag = await apiClient.putObject(uploadUrl, body);
+
+      if (!etag) {
+        throw new Error("Storage did not return an ETag for the uploaded part");
+      }
+
+      return etag;
+    } catch (error) {
+      lastError = error;
+    }
+  }
+
+  throw lastError instanceof Error ? lastError : new Error("Failed to upload part");
+}
+
+/**
+ * Upload a reserved file in parallel parts through presigned part URLs.
+ * Progress is saved after every part; calling this again for the same file
+ * and file id continues from the parts the server already has.
+ * `onProgress` receives the fraction of bytes uploaded, between 0 and 1.
+ */
+export async function uploadMultipart(
+  file: File,
+  fileId: string,
+  fullPath: string,
+  onProgress: (fraction: number) => void,
+): Promise<void> {
+  let upload;
+  try {
+    upload = await apiClient.files.multipart.start(fileId);
+  } catch (error) {
+    if (error instanceof HulkNotFoundError) {
+      // The reserved file is gone (deleted or expired), so it can't be resumed
+      clearSavedUpload(file);
+    }
+    throw error;
+  }
+
+  const {uploadId, partSize, partCount} = upload;
+
+  // An existing upload may already have parts in storage
+  const completedParts: UploadedPart[] = upload.resumed ? await listUploadedParts(fileId) : [];
+
+  const partBytes = (partNumber: number) =>
+    Math.min(partSize, file.size - (partNumber - 1) * partSize);
+  const saveProgress = () =>
+    saveUpload(file, {
+      fileId,
+      uploadId,
+      fullPath,
+      partSize,
+      partCount,
+      parts: completedParts,
+      updatedAt: new Date().toISOString(),
+    });
+
+  const completedNumbers = new Set(completedParts.map((part) => part.partNumber));
+  let uploadedBytes = completedParts.reduce((sum, part) => sum + partBytes(part.partNumber), 0);
+
+  saveProgress();
+  onProgress(uploadedBytes / file.size);
+
+  const remaining: number[] = [];
+  for (let partNumber = 1; partNumber <= partCount; partNumber++) {
+    if (!completedNumbers.has(partNumber)) {
+      remaining.push(partNumber);
+    }
+  }
+
+  for (let batchStart = 0; batchStart < remaining.length; batchStart += SIGN_BATCH_SIZE) {
+    const partNumbers = remaining.slice(batchStart, batchStart + SIGN_BATCH_SIZE);
+    const uploadUrls = await signPartUrls(fileId, partNumbers);
+    const queue = [...partNumbers];
+
+    const worker = async () => {
+      while (queue.length > 0) {
+        const partNumber = queue.shift()!;
+        const start = (partNumber - 1) * partSize;
+        const chunk = file.slice(start, start + partBytes(partNumber));
+
+        const etag = await uploadPart(uploadUrls.get(partNumber)!, chunk);
+        completedParts.push({partNumber, etag});
+        saveProgress();
+
+        uploadedBytes += chunk.size;
+        onProgress(uploadedBytes / file.size);
+      }
+    };
+
+    await Promise.all(Array.from({length: PART_CONCURRENCY}, worker));
+  }
+
+  await apiClient.files.multipart.complete(fileId, {
+    parts: [...completedParts].sort((a, b) => a.partNumber - b.partNumber),
+  });
+
+  clearSavedUpload(file);
+}
+
+/**
+ * Throw away an interrupted upload: aborts it in storage and deletes the reserved file
+ */
+export async function discardSavedUpload(file: File, saved: SavedUpload): Promise<void> {
+  clearSavedUpload(file);
+
+  try {
+    await apiClient.files.delete(saved.fileId);
+  } catch (error) {
+    // Already gone is as good as deleted
+    if (!(error instanceof HulkNotFoundError)) {
+      throw error;
+    }
+  }
+}
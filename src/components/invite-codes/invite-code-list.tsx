@@ -0,0 +1,104 @@
+"use client";
+
+import React, {useState, useEffect, useCallback} from "react";
+import type {InviteCode} from "@hulkastorus/sdk";
+import {apiClient} from "@/lib/api-client";
+
+export function InviteCodeList() {
+  const [inviteCodes, setInviteCodes] = useState<InviteCode[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [copiedId, setCopiedId] = useState<string | null>(null);
+
+  const fetchInviteCodes = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      setInviteCodes(await apiClient.inviteCodes.list());
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to load invite codes");
+    } finally {
+      setLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    fetchInviteCodes();
+  }, [fetchInviteCodes]);
+
+  const handleCopy = async (inviteCode: InviteCode) => {
+    // Share a registration link with the code filled in
+    const link = `${window.location.origin}/register?invite=${encodeURIComponent(inviteCode.code)}`;
+
+    try {
+      await navigator.clipboard.writeText(link);
+      setCopiedId(inviteCode.id);
+    } catch {
+      alert("Failed to copy invite link");
+    }
+  };
+
+  const formatDate = (dateString: string | null) => {
+    if (!dateString) return "Never";
+
+    return new Date(dateString).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "numeric",
+    });
+  };
+
+  if (error) {
+    return (
+      <div className="p-3 bg-red-900/50 border border-red-500 rounded-md text-red-200 text-sm">
+        {error}
+      </div>
+    );
+  }
+
+  return (
+    <div className="bg-gray-900 rounded-lg">
+      <div className="grid grid-cols-4 gap-4 p-4 border-b border-gray-800 text-sm font-medium text-gray-400">
+        <div>Code</div>
+        <div>Uses Left</div>
+        <div>Expires</div>
+        <div></div>
+      </div>
+      {loading ? (
+        <div className="p-4 text-center text-gray-400">Loading invite codes...</div>
+      ) : inviteCodes.length === 0 ? (
+        <div className="p-4 text-center text-gray-400">You don&apos;t have any invites yet</div>
+      ) : (
+        inviteCodes.map((inviteCode) => {
+          const isAvailable = inviteCode.remainingUses > 0;
+
+          return (
+            <div
+              key={inviteCode.id}
+              className="grid grid-cols-4 gap-4 p-4 border-b border-gray-800 last:border-b-0 text-sm items-center"
+            >
+              <code className={isAvailable ? "text-white" : "text-gray-500 line-through"}>
+                {inviteCode.code}
+              </code>
+              <div className="text-gray-300">
+                {inviteCode.remainingUses} of {inviteCode.maxUses}
+              </div>
+              <div className="text-gray-300">{formatDate(inviteCode.expiresAt)}</div>
+              <div className="text-right">
+                {isAvailable && (
+                  <button
+                    onClick={() => handleCopy(inviteCode)}
+                    className="text-blue-400 hover:text-blue-300 transition-colors"
+                  >
+                    {copiedId === inviteCode.id ? "✓ Link Copied" : "Copy Invite Link"}
+                  </button>
+                )}
+              </div>
+            </div>
+          );
+        })
+      )}
+    </div>
+  );
+}
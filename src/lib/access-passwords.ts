@@ -0,0 +1,132 @@
+import bcrypt from "bcryptjs";
+import type {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+
+// Header for sending a file's access password, e.g. `curl -H "X-Access-Password: ..."`
+export const ACCESS_PASSWORD_HEADER = "x-access-password";
+
+/**
+ * Hash an access password for storage. Only the hash is ever persisted.
+ */
+export function hashAccessPassword(password: string): Promise<string> {
+  return bcrypt.hash(password, 10);
+}
+
+/**
+ * Read an access password from the request: the X-Access-Password header, or the
+ * password half of basic auth (so `curl -u :PASSWORD` works).
+ */
+export function getProvidedAccessPassword(request: NextRequest): string | null {
+  const header = request.headers.get(ACCESS_PASSWORD_HEADER);
+  if (header) {
+    return header;
+  }
+
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Basic ")) {
+    return null;
+  }
+
+  const credentials = Buffer.from(authHeader.slice("Basic ".length), "base64").toString();
+  const separator = credentials.indexOf(":");
+
+  return separator === -1 ? null : credentials.slice(separator + 1) || null;
+}
+
+/**
+ * Find the access password protecting a file: its own, or else the one on its
+ * nearest protected ancestor directory. Returns the hash, or null if unprotected.
+ */
+export async function findAccessPasswordHash(file: {
+  userId: string;
+  fullPath: string;
+  accessPassword?: string | null;
+}): Promise<string | null> {
+  if (file.accessPassword) {
+    return file.accessPassword;
+  }
+
+  // "/a/b/file.txt" lives under "/", "/a" and "/a/b"
+  const segments = file.fullPath.split("/").filter(Boolean).slice(0, -1);
+  const ancestorPaths = ["/", ...segments.map((_, i) => `/${segments.slice(0, i + 1).join("/")}`)];
+
+  const directories = await prisma.directory.findMany({
+    where: {
+      userId: file.userId,
+      fullPath: {in: ancestorPaths},
+      accessPassword: {not: null},
+    },
+    select: {fullPath: true, accessPassword: true},
+  });
+
+  return nearestAccessPasswordHash(file.fullPath, directories);
+}
+
+/**
+ * Every password protected directory of a user, to pass to
+ * nearestAccessPasswordHash when checking many of their files.
+ */
+export function findProtectedDirectories(
+  userId: string,
+): Promise<{fullPath: string; accessPassword: string | null}[]> {
+  return prisma.directory.findMany({
+    where: {userId, accessPassword: {not: null}},
+    select: {fullPath: true, accessPassword: true},
+  });
+}
+
+/**
+ * The password hash on the nearest of `directories` that contains `fullPath`,
+ * or null if none of them do. Lets callers that look up many files fetch the
+ * protected directories once.
+ */
+export function nearestAccessPasswordHash(
+  fullPath: string,
+  directories: {fullPath: string; accessPassword: string | null}[],
+): string | null {
+  let nearest: {fullPath: string; accessPassword: string | null} | null = null;
+
+  for (const directory of directories) {
+    const contains = directory.fullPath === "/" || fullPath.startsWith(`${directory.fullPath}/`);
+    if (contains && (!nearest || directory.fullPath.length > nearest.fullPath.length)) {
+      nearest = directory;
+    }
+  }
+
+  return nearest?.accessPassword ?? null;
+}
+
+/**
+ * Whether a download may proceed: true if the file isn't password protected, or
+ * the provided password matches.
+ */
+export async function isAccessPasswordSatisfied(
+  file: {userId: string; fullPath: string; accessPassword?: string | null},
+  password: string | null | undefined,
+): Promise<boolean> {
+  const hash = await findAccessPasswordHash(file);
+  if (!hash) {
+    return true;
+  }
+
+  return !!password && (await bcrypt.compare(password, hash));
+}
+
+/**
+ * Check one provided password against many hashes, running bcrypt once per
+ * distinct hash, e.g. for every file in an archive.
+ */
+export function createAccessPasswordCheck(
+  password: string | null | undefined,
+): (hash: string) => Promise<boolean> {
+  const results = new Map<string, Promise<boolean>>();
+
+  return (hash) => {
+    let result = results.get(hash);
+    if (!result) {
+      result = password ? bcrypt.compare(password, hash) : Promise.resolve(false);
+      results.set(hash, result);
+    }
+    return result;
+  };
+}
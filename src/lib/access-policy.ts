@@ -0,0 +1,251 @@
+import type {AuthResult} from "@/lib/api-auth";
+import {
+  createAccessPasswordCheck,
+  findProtectedDirectories,
+  isAccessPasswordSatisfied,
+  nearestAccessPasswordHash,
+} from "@/lib/access-passwords";
+import {
+  applyInheritedPermissions,
+  getDirectoryPermissions,
+  resolveFilePermissions,
+} from "@/lib/permissions";
+import {redeemShareToken} from "@/lib/share-tokens";
+
+/**
+ * What the caller wants to do with a file:
+ * - download: fetch the contents (owner, public link, or share token)
+ * - view: read the metadata (owner, or anyone if the file is public)
+ * - manage: rename, move, delete (owner only)
+ * - upload: finish an upload in progress (owner only, file still reserved)
+ */
+export type FileAccessAction = "download" | "view" | "manage" | "upload";
+
+// How access was granted
+export type AccessGrant = "owner" | "public" | "share_token";
+
+// Why access was refused. Routes log these and mostly answer 404 so nothing leaks.
+export type AccessDenialReason =
+  | "not_found"
+  | "not_owner"
+  | "private"
+  | "not_validated"
+  | "not_reserved"
+  | "expired"
+  | "invalid_share_token"
+  | "password_required"
+  | "incorrect_password";
+
+// Grants hand back the resource so routes can carry on with a non-null record
+export type AccessDecision<T> =
+  | {ok: true; grant: AccessGrant; resource: T}
+  | {ok: false; reason: AccessDenialReason};
+
+export interface AccessContext {
+  // Result of authenticateRequest, covering sessions and API keys; failures mean anonymous
+  auth?: AuthResult | null;
+  shareToken?: string | null;
+  accessPassword?: string | null;
+  now?: Date;
+}
+
+export interface AccessibleFile {
+  id: string;
+  userId: string;
+  directoryId: string;
+  fullPath: string;
+  status: string;
+  permissions: string;
+  expiresAt: Date | null;
+  accessPassword?: string | null;
+}
+
+function isOwner(resource: {userId: string}, context: AccessContext): boolean {
+  return !!context.auth?.ok && context.auth.userId === resource.userId;
+}
+
+/**
+ * Decide whether the caller may perform an action on a file. Pass null for a
+ * file that wasn't found, so every route reports it the same way.
+ */
+export async function authorizeFileAccess<F extends AccessibleFile>(
+  file: F | null,
+  action: FileAccessAction,
+  context: AccessContext = {},
+): Promise<AccessDecision<F>> {
+  if (!file) {
+    return {ok: false, reason: "not_found"};
+  }
+
+  const owner = isOwner(file, context);
+  const now = context.now ?? new Date();
+  const expired = !!file.expiresAt && file.expiresAt < now;
+
+  if (action === "manage" || action === "upload") {
+    if (!owner) {
+      return {ok: false, reason: "not_owner"};
+    }
+
+    if (action === "upload" && file.status !== "reserved") {
+      return {ok: false, reason: "not_reserved"};
+    }
+
+    return {ok: true, grant: "owner", resource: file};
+  }
+
+  if (action === "view") {
+    if (!owner && (await resolveFilePermissions(file)) !== "public") {
+      return {ok: false, reason: "private"};
+    }
+
+    if (expired) {
+      return {ok: false, reason: "expired"};
+    }
+
+    return {ok: true, grant: owner ? "owner" : "public", resource: file};
+  }
+
+  // Downloads need a finished, unexpired upload whoever is asking
+  if (file.status !== "validated") {
+    return {ok: false, reason: "not_validated"};
+  }
+
+  if (expired) {
+    return {ok: false, reason: "expired"};
+  }
+
+  if (owner) {
+    return {ok: true, grant: "owner", resource: file};
+  }
+
+  // "inherit" resolves through the file's directory and its parents
+  if ((await resolveFilePermissions(file)) === "public") {
+    if (!(await isAccessPasswordSatisfied(file, context.accessPassword))) {
+      return {
+        ok: false,
+        reason: context.accessPassword ? "incorrect_password" : "password_required",
+      };
+    }
+
+    return {ok: true, grant: "public", resource: file};
+  }
+
+  // Anyone else needs a share token covering the file; each download spends one use
+  if (!context.shareToken) {
+    return {ok: false, reason: "private"};
+  }
+
+  if (!(await redeemShareToken(context.shareToken, file, now))) {
+    return {ok: false, reason: "invalid_share_token"};
+  }
+
+  return {ok: true, grant: "share_token", resource: file};
+}
+
+/**
+ * Decide whether the caller may download each of many files, e.g. everything
+ * in a directory archive. The rules are the same as authorizeFileAccess, but
+ * permissions and protected directories are looked up once per owner and each
+ * distinct password is checked once. Share tokens aren't accepted, since every
+ * file would spend one of the token's downloads. Decisions follow the order of
+ * the files.
+ */
+export async function authorizeFilesAccess<F extends AccessibleFile>(
+  files: F[],
+  action: "download",
+  context: Omit<AccessContext, "shareToken"> = {},
+): Promise<AccessDecision<F>[]> {
+  const now = context.now ?? new Date();
+  const checkPassword = createAccessPasswordCheck(context.accessPassword);
+  const ownerRules = new Map<string, ReturnType<typeof loadOwnerRules>>();
+
+  const authorizeDownload = async (file: F): Promise<AccessDecision<F>> => {
+    if (file.status !== "validated") {
+      return {ok: false, reason: "not_validated"};
+    }
+
+    if (file.expiresAt && file.expiresAt < now) {
+      return {ok: false, reason: "expired"};
+    }
+
+    if (isOwner(file, context)) {
+      return {ok: true, grant: "owner", resource: file};
+    }
+
+    let rules = ownerRules.get(file.userId);
+    if (!rules) {
+      rules = loadOwnerRules(file.userId);
+      ownerRules.set(file.userId, rules);
+    }
+    const {directoryPermissions, protectedDirectories} = await rules;
+
+    const inherited = directoryPermissions.get(file.directoryId) ?? "private";
+    if (applyInheritedPermissions(file.permissions, inherited) !== "public") {
+      return {ok: false, reason: "private"};
+    }
+
+    const hash =
+      file.accessPassword ?? nearestAccessPasswordHash(file.fullPath, protectedDirectories);
+    if (hash && !(await checkPassword(hash))) {
+      return {
+        ok: false,
+        reason: context.accessPassword ? "incorrect_password" : "password_required",
+      };
+    }
+
+    return {ok: true, grant: "public", resource: file};
+  };
+
+  const decisions: AccessDecision<F>[] = [];
+  for (const file of files) {
+    decisions.push(await authorizeDownload(file));
+  }
+
+  return decisions;
+}
+
+// What authorizeFilesAccess needs to know about a user's directories
+async function loadOwnerRules(userId: string) {
+  const [directoryPermissions, protectedDirectories] = await Promise.all([
+    getDirectoryPermissions(userId),
+    findProtectedDirectories(userId),
+  ]);
+  return {directoryPermissions, protectedDirectories};
+}
+
+/**
+ * Decide whether the caller may view or manage a directory. Directories are
+ * only ever visible to their owner.
+ */
+export function authorizeDirectoryAccess<D extends {userId: string}>(
+  directory: D | null,
+  context: AccessContext = {},
+): AccessDecision<D> {
+  if (!directory) {
+    return {ok: false, reason: "not_found"};
+  }
+
+  if (!isOwner(directory, context)) {
+    return {ok: false, reason: "not_owner"};
+  }
+
+  return {ok: true, grant: "owner", resource: directory};
+}
+
+/**
+ * Whether a refusal can be fixed by sending the file's access password.
+ */
+export function isPasswordDenial(reason: AccessDenialReason): boolean {
+  return reason === "password_required" || reason === "incorrect_password";
+}
+
+/**
+ * Log a refused request with its reason, without exposing it to the caller.
+ */
+export function logAccessDenied(
+  resource: "file" | "directory",
+  id: string,
+  reason: AccessDenialReason,
+): void {
+  console.warn(`Denied ${resource} access to ${id}: ${reason}`);
+}
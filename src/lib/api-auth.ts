@@ -0,0 +1,108 @@
+import crypto from "crypto";
+import {NextRequest} from "next/server";
+import {auth} from "@/lib/auth";
+import {prisma} from "@/lib/prisma";
+
+// The access level a route requires from the caller
+export type RequiredPermission = "read" | "write";
+
+export type AuthResult =
+  | {
+      ok: true;
+      userId: string;
+      method: "session" | "api_key";
+      apiKeyId?: string;
+    }
+  | {
+      ok: false;
+      status: 401 | 403;
+      error: string;
+    };
+
+// Prefix that makes raw keys recognizable in logs and secret scanners
+export const API_KEY_PREFIX = "hulk_";
+
+/**
+ * Generate a new raw API key. It is shown to the user once and never stored.
+ */
+export function generateApiKey(): string {
+  return `${API_KEY_PREFIX}${crypto.randomBytes(24).toString("base64url")}`;
+}
+
+/**
+ * Hash a raw API key for storage and lookup. Only the hash is ever persisted.
+ */
+export function hashApiKey(rawKey: string): string {
+  return crypto.createHash("sha256").update(rawKey).digest("hex");
+}
+
+/**
+ * Check whether a key's granted scope covers the permission a route requires
+ */
+export function hasPermission(granted: string, required: RequiredPermission): boolean {
+  return granted === "all" || granted === required;
+}
+
+/**
+ * Extract a bearer token from the Authorization header, if any
+ */
+export function getBearerToken(request: NextRequest): string | null {
+  const authHeader = request.headers.get("authorization");
+  if (!authHeader?.startsWith("Bearer ")) {
+    return null;
+  }
+
+  const token = authHeader.slice(7).trim();
+  return token || null;
+}
+
+/**
+ * Authenticate an API request with either an `Authorization: Bearer <api key>`
+ * header or a NextAuth session. API keys must grant the required permission.
+ */
+export async function authenticateRequest(
+  request: NextRequest,
+  permission: RequiredPermission,
+): Promise<AuthResult> {
+  const bearerToken = getBearerToken(request);
+
+  if (bearerToken) {
+    const apiKey = await prisma.apiKey.findUnique({
+      where: {key: hashApiKey(bearerToken)},
+      select: {id: true, userId: true, permissions: true, expiresAt: true},
+    });
+
+    if (!apiKey) {
+      return {ok: false, status: 401, error: "Invalid API key"};
+    }
+
+    if (apiKey.expiresAt && apiKey.expiresAt < new Date()) {
+      return {ok: false, status: 401, error: "API key has expired"};
+    }
+
+    if (!hasPermission(apiKey.permissions, permission)) {
+      return {ok: false, status: 403, error: `API key does not have ${permission} permission`};
+    }
+
+    try {
+      await prisma.apiKey.update({
+        where: {id: apiKey.id},
+        data: {lastUsedAt: new Date()},
+      });
+    } catch (error) {
+      // Usage tracking should never block the request itself
+      console.error("Error updating API key last used time:", error);
+    }
+
+    return {ok: true, userId: apiKey.userId, method: "api_key", apiKeyId: apiKey.id};
+  }
+
+  const session = await auth();
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const userId = (session as any)?.user?.id;
+  if (!userId) {
+    return {ok: false, status: 401, error: "Unauthorized"};
+  }
+
+  return {ok: true, userId, method: "session"};
+}
@@ -0,0 +1,5 @@
+import {HulkClient} from "@hulkastorus/sdk/client";
+
+// Client for components. Calls go to the page's own origin and are
+// authenticated by the session cookie.
+export const apiClient = new HulkClient();
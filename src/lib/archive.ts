@@ -0,0 +1,320 @@
+import {crc32} from "zlib";
+import type {ArchiveFormat} from "@hulkastorus/sdk/contract";
+
+export const archiveContentTypes: Record<ArchiveFormat, string> = {
+  zip: "application/zip",
+  "tar.gz": "application/gzip",
+};
+
+export interface ArchiveEntry {
+  // Path inside the archive, using "/" separators and no leading slash
+  path: string;
+  modifiedAt: Date;
+  // Opened lazily, one entry at a time, so only one object is being read at once
+  open(): Promise<{body: ReadableStream<Uint8Array>; size: number}>;
+}
+
+// Sizes and offsets past this need ZIP64 records
+const ZIP32_LIMIT = 0xffffffff;
+const ZIP64_VERSION = 45;
+const ZIP_VERSION = 20;
+// Sizes come after the CRC in a data descriptor; names are UTF-8
+const ZIP_FLAGS = 0x0008 | 0x0800;
+
+const TAR_BLOCK_SIZE = 512;
+const TAR_NAME_LENGTH = 100;
+
+/**
+ * Stream entries into a zip or gzipped tar archive. Entry contents are piped
+ * straight through, so memory use doesn't grow with the size of the archive.
+ */
+export function createArchiveStream(
+  entries: ArchiveEntry[],
+  format: ArchiveFormat,
+): ReadableStream<Uint8Array> {
+  if (format === "zip") {
+    return toReadableStream(zipChunks(entries));
+  }
+
+  // CompressionStream accepts any BufferSource, which the DOM typings don't unify with Uint8Array
+  const gzip = new CompressionStream("gzip") as unknown as TransformStream<Uint8Array, Uint8Array>;
+  return toReadableStream(tarChunks(entries)).pipeThrough(gzip);
+}
+
+// Pull-based, so a slow client slows down the reads from storage
+function toReadableStream(chunks: AsyncGenerator<Uint8Array>): ReadableStream<Uint8Array> {
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const {value, done} = await chunks.next();
+      if (done) {
+        controller.close();
+      } else {
+        controller.enqueue(value);
+      }
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+async function* readChunks(stream: ReadableStream<Uint8Array>): AsyncGenerator<Uint8Array> {
+  const reader = stream.getReader();
+  let finished = false;
+
+  try {
+    while (true) {
+      const {value, done} = await reader.read();
+      if (done) {
+        finished = true;
+        return;
+      }
+      yield value;
+    }
+  } finally {
+    // Stop reading from storage if the download was abandoned
+    if (!finished) {
+      await reader.cancel();
+    }
+  }
+}
+
+function toDosDateTime(date: Date): {time: number; date: number} {
+  const year = Math.max(date.getFullYear(), 1980);
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  };
+}
+
+interface ZipRecord {
+  name: Buffer;
+  modified: {time: number; date: number};
+  crc: number;
+  size: number;
+  offset: number;
+  zip64: boolean;
+}
+
+async function* zipChunks(entries: ArchiveEntry[]): AsyncGenerator<Uint8Array> {
+  const records: ZipRecord[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const {body, size: expectedSize} = await entry.open();
+    const name = Buffer.from(entry.path, "utf8");
+    const modified = toDosDateTime(entry.modifiedAt);
+    // Decided before the data is written, since the local header has to say so
+    const localZip64 = expectedSize >= ZIP32_LIMIT;
+
+    const extra = Buffer.alloc(localZip64 ? 20 : 0);
+    if (localZip64) {
+      // Real sizes follow in the data descriptor
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(16, 2);
+    }
+
+    const header = Buffer.alloc(30);
+    header.writeUInt32LE(0x04034b50, 0);
+    header.writeUInt16LE(localZip64 ? ZIP64_VERSION : ZIP_VERSION, 4);
+    header.writeUInt16LE(ZIP_FLAGS, 6);
+    header.writeUInt16LE(0, 8); // stored, since most uploads are already compressed
+    header.writeUInt16LE(modified.time, 10);
+    header.writeUInt16LE(modified.date, 12);
+    header.writeUInt32LE(0, 14);
+    header.writeUInt32LE(localZip64 ? ZIP32_LIMIT : 0, 18);
+    header.writeUInt32LE(localZip64 ? ZIP32_LIMIT : 0, 22);
+    header.writeUInt16LE(name.length, 26);
+    header.writeUInt16LE(extra.length, 28);
+
+    const localHeader = Buffer.concat([header, name, extra]);
+    yield localHeader;
+
+    let crc = 0;
+    let size = 0;
+    for await (const chunk of readChunks(body)) {
+      crc = crc32(chunk, crc);
+      size += chunk.length;
+      yield chunk;
+    }
+
+    const descriptor = Buffer.alloc(localZip64 ? 24 : 16);
+    descriptor.writeUInt32LE(0x08074b50, 0);
+    descriptor.writeUInt32LE(crc, 4);
+    if (localZip64) {
+      descriptor.writeBigUInt64LE(BigInt(size), 8);
+      descriptor.writeBigUInt64LE(BigInt(size), 16);
+    } else {
+      descriptor.writeUInt32LE(size, 8);
+      descriptor.writeUInt32LE(size, 12);
+    }
+    yield descriptor;
+
+    records.push({
+      name,
+      modified,
+      crc,
+      size,
+      offset,
+      zip64: localZip64 || size >= ZIP32_LIMIT || offset >= ZIP32_LIMIT,
+    });
+    offset += localHeader.length + size + descriptor.length;
+  }
+
+  const centralDirectoryOffset = offset;
+  let centralDirectorySize = 0;
+
+  for (const record of records) {
+    const extra = Buffer.alloc(record.zip64 ? 28 : 0);
+    if (record.zip64) {
+      extra.writeUInt16LE(0x0001, 0);
+      extra.writeUInt16LE(24, 2);
+      extra.writeBigUInt64LE(BigInt(record.size), 4);
+      extra.writeBigUInt64LE(BigInt(record.size), 12);
+      extra.writeBigUInt64LE(BigInt(record.offset), 20);
+    }
+
+    const header = Buffer.alloc(46);
+    header.writeUInt32LE(0x02014b50, 0);
+    header.writeUInt16LE(ZIP64_VERSION, 4);
+    header.writeUInt16LE(record.zip64 ? ZIP64_VERSION : ZIP_VERSION, 6);
+    header.writeUInt16LE(ZIP_FLAGS, 8);
+    header.writeUInt16LE(0, 10);
+    header.writeUInt16LE(record.modified.time, 12);
+    header.writeUInt16LE(record.modified.date, 14);
+    header.writeUInt32LE(record.crc, 16);
+    header.writeUInt32LE(record.zip64 ? ZIP32_LIMIT : record.size, 20);
+    header.writeUInt32LE(record.zip64 ? ZIP32_LIMIT : record.size, 24);
+    header.writeUInt16LE(record.name.length, 28);
+    header.writeUInt16LE(extra.length, 30);
+    header.writeUInt32LE(record.zip64 ? ZIP32_LIMIT : record.offset, 42);
+
+    const centralHeader = Buffer.concat([header, record.name, extra]);
+    centralDirectorySize += centralHeader.length;
+    yield centralHeader;
+  }
+
+  const zip64 =
+    records.some((record) => record.zip64) ||
+    records.length >= 0xffff ||
+    centralDirectoryOffset >= ZIP32_LIMIT ||
+    centralDirectorySize >= ZIP32_LIMIT;
+
+  if (zip64) {
+    const record = Buffer.alloc(56);
+    record.writeUInt32LE(0x06064b50, 0);
+    record.writeBigUInt64LE(BigInt(44), 4);
+    record.writeUInt16LE(ZIP64_VERSION, 12);
+    record.writeUInt16LE(ZIP64_VERSION, 14);
+    record.writeBigUInt64LE(BigInt(records.length), 24);
+    record.writeBigUInt64LE(BigInt(records.length), 32);
+    record.writeBigUInt64LE(BigInt(centralDirectorySize), 40);
+    record.writeBigUInt64LE(BigInt(centralDirectoryOffset), 48);
+
+    const locator = Buffer.alloc(20);
+    locator.writeUInt32LE(0x07064b50, 0);
+    locator.writeBigUInt64LE(BigInt(centralDirectoryOffset + centralDirectorySize), 8);
+    locator.writeUInt32LE(1, 16);
+
+    yield Buffer.concat([record, locator]);
+  }
+
+  const end = Buffer.alloc(22);
+  end.writeUInt32LE(0x06054b50, 0);
+  end.writeUInt16LE(zip64 ? 0xffff : records.length, 8);
+  end.writeUInt16LE(zip64 ? 0xffff : records.length, 10);
+  end.writeUInt32LE(zip64 ? ZIP32_LIMIT : centralDirectorySize, 12);
+  end.writeUInt32LE(zip64 ? ZIP32_LIMIT : centralDirectoryOffset, 16);
+  yield end;
+}
+
+function writeOctal(header: Buffer, value: number, offset: number, length: number): void {
+  header.write(value.toString(8).padStart(length - 1, "0") + "\0", offset, length, "ascii");
+}
+
+// Sizes over 8 GiB don't fit in octal, so use the GNU base-256 encoding
+function writeTarSize(header: Buffer, size: number): void {
+  if (size < 8 ** 11) {
+    writeOctal(header, size, 124, 12);
+    return;
+  }
+
+  header[124] = 0x80;
+  let remaining = BigInt(size);
+  for (let i = 135; i > 124; i--) {
+    header[i] = Number(remaining & BigInt(0xff));
+    remaining >>= BigInt(8);
+  }
+}
+
+function tarHeader(name: Buffer, size: number, modifiedAt: Date, type: string): Buffer {
+  const header = Buffer.alloc(TAR_BLOCK_SIZE);
+  name.copy(header, 0, 0, Math.min(name.length, TAR_NAME_LENGTH));
+  writeOctal(header, 0o644, 100, 8);
+  writeOctal(header, 0, 108, 8);
+  writeOctal(header, 0, 116, 8);
+  writeTarSize(header, size);
+  writeOctal(header, Math.floor(modifiedAt.getTime() / 1000), 136, 12);
+  header.write(type, 156, 1, "ascii");
+  header.write("ustar\0", 257, 6, "ascii");
+  header.write("00", 263, 2, "ascii");
+
+  // The checksum is computed with its own field filled with spaces
+  header.fill(" ", 148, 156);
+  let checksum = 0;
+  for (const byte of header) {
+    checksum += byte;
+  }
+  header.write(checksum.toString(8).padStart(6, "0") + "\0 ", 148, 8, "ascii");
+
+  return header;
+}
+
+function tarPadding(size: number): Buffer {
+  return Buffer.alloc((TAR_BLOCK_SIZE - (size % TAR_BLOCK_SIZE)) % TAR_BLOCK_SIZE);
+}
+
+// A pax record's length prefix counts its own digits
+function paxRecord(key: string, value: string): Buffer {
+  const body = ` ${key}=${value}\n`;
+  const bodyLength = Buffer.byteLength(body, "utf8");
+  let length = bodyLength + String(bodyLength).length;
+  if (String(length).length > String(bodyLength).length) {
+    length += 1;
+  }
+  return Buffer.from(`${length}${body}`, "utf8");
+}
+
+async function* tarChunks(entries: ArchiveEntry[]): AsyncGenerator<Uint8Array> {
+  for (const entry of entries) {
+    const {body, size} = await entry.open();
+    const name = Buffer.from(entry.path, "utf8");
+
+    // Names that don't fit the header go in a pax extended header first
+    if (name.length > TAR_NAME_LENGTH) {
+      const pax = paxRecord("path", entry.path);
+      yield tarHeader(Buffer.from("PaxHeader"), pax.length, entry.modifiedAt, "x");
+      yield Buffer.concat([pax, tarPadding(pax.length)]);
+    }
+
+    yield tarHeader(name, size, entry.modifiedAt, "0");
+
+    let written = 0;
+    for await (const chunk of readChunks(body)) {
+      written += chunk.length;
+      if (written > size) {
+        throw new Error(`Archive entry ${entry.path} is larger than its stored size`);
+      }
+      yield chunk;
+    }
+
+    if (written !== size) {
+      throw new Error(`Archive entry ${entry.path} is smaller than its stored size`);
+    }
+
+    yield tarPadding(size);
+  }
+
+  // Two empty blocks mark the end of the archive
+  yield Buffer.alloc(TAR_BLOCK_SIZE * 2);
+}
@@ -1,11 +1,9 @@
-// @ts-expect-error - NextAuthOptions type export issue
 import type {NextAuthOptions} from "next-auth";
 import {getServerSession} from "next-auth/next";
 import {PrismaAdapter} from "@auth/prisma-adapter";
 import CredentialsProvider from "next-auth/providers/credentials";
 import {prisma} from "@/lib/prisma";
 import bcrypt from "bcryptjs";
-import {generateNanoId} from "@/lib/nanoid";
 
 export const authOptions: NextAuthOptions = {
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -78,27 +76,3 @@ export const authOptions: NextAuthOptions = {
 export async function auth() {
   return await getServerSession(authOptions);
 }
-
-export async function createUser(data: {
-  email: string;
-  password: string;
-  firstName: string;
-  lastName: string;
-  inviteCode: string;
-}) {
-  const hashedPassword = await bcrypt.hash(data.password, 10);
-
-  const user = await prisma.user.create({
-    data: {
-      id: generateNanoId(),
-      email: data.email,
-      password: hashedPassword,
-      firstName: data.firstName,
-      lastName: data.lastName,
-      inviteCode: data.inviteCode,
-      isEmailVerified: false,
-    },
-  });
-
-  return user;
-}
@@ -0,0 +1,20 @@
+import crypto from "crypto";
+import {NextRequest} from "next/server";
+
+/**
+ * Verify that a request comes from the cron scheduler. Vercel sends
+ * `Authorization: Bearer $CRON_SECRET` with every cron invocation.
+ */
+export function verifyCronRequest(request: NextRequest): boolean {
+  const secret = process.env.CRON_SECRET;
+  const token = request.headers.get("authorization")?.replace(/^Bearer /, "");
+
+  // Without a configured secret, cron routes stay closed
+  if (!secret || !token) {
+    return false;
+  }
+
+  const expected = Buffer.from(secret);
+  const received = Buffer.from(token);
+  return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+}
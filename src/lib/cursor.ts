@@ -0,0 +1,129 @@
+import type {FilterFieldType} from "@hulkastorus/sdk/contract";
+
+// Opaque pagination cursors: the sort key and id of the last item on a page,
+// so the next page starts after it regardless of inserts and deletes
+
+export type CursorValue = string | number | null;
+
+/**
+ * Encode the position after an item, e.g. [createdAt, id]
+ */
+export function encodeCursor(values: CursorValue[]): string {
+  return Buffer.from(JSON.stringify(values)).toString("base64url");
+}
+
+/**
+ * Decode a cursor made by `encodeCursor` with the given number of values.
+ * Returns null for anything else, which routes report as a bad request.
+ */
+export function decodeCursor(cursor: string, length: number): CursorValue[] | null {
+  try {
+    const values: unknown = JSON.parse(Buffer.from(cursor, "base64url").toString());
+
+    if (
+      !Array.isArray(values) ||
+      values.length !== length ||
+      !values.every((value) => value === null || ["string", "number"].includes(typeof value))
+    ) {
+      return null;
+    }
+
+    return values;
+  } catch {
+    return null;
+  }
+}
+
+// A column a list is ordered by, with id breaking ties
+export interface CursorSort {
+  field: string;
+  direction: "asc" | "desc";
+  type: FilterFieldType;
+  // Nullable columns sort their nulls last in either direction
+  nullable?: boolean;
+}
+
+// The last item on a page: its sort value and id
+export interface CursorPosition {
+  value: string | number | Date | null;
+  id: string;
+}
+
+/**
+ * The cursor for the page after `item`. It records the sort too, so it can't
+ * be replayed against a different order.
+ */
+export function encodeListCursor(
+  sort: CursorSort,
+  item: {id: string} & Record<string, unknown>,
+): string {
+  const value = item[sort.field];
+
+  return encodeCursor([
+    `${sort.field}+${sort.direction}`,
+    value instanceof Date
+      ? value.toISOString()
+      : typeof value === "bigint"
+        ? Number(value)
+        : ((value ?? null) as CursorValue),
+    item.id,
+  ]);
+}
+
+/**
+ * Decode a cursor made by `encodeListCursor` for the same sort, or null
+ */
+export function decodeListCursor(cursor: string, sort: CursorSort): CursorPosition | null {
+  const values = decodeCursor(cursor, 3);
+  if (!values || values[0] !== `${sort.field}+${sort.direction}`) {
+    return null;
+  }
+
+  const [, value, id] = values;
+  if (typeof id !== "string") {
+    return null;
+  }
+  if (value === null) {
+    return sort.nullable ? {value, id} : null;
+  }
+  if (sort.type === "number") {
+    return typeof value === "number" ? {value, id} : null;
+  }
+  if (typeof value !== "string") {
+    return null;
+  }
+  if (sort.type === "date") {
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? null : {value: date, id};
+  }
+  return {value, id};
+}
+
+// Prisma orderBy for a sort, ending with id so every position is unique
+export function cursorOrderBy(sort: CursorSort) {
+  return [
+    {[sort.field]: sort.nullable ? {sort: sort.direction, nulls: "last"} : sort.direction},
+    {id: sort.direction},
+  ];
+}
+
+/**
+ * The Prisma where clause for everything after `position` in `sort` order
+ */
+export function cursorWhere<Where>(sort: CursorSort, position: CursorPosition): Where {
+  const after = sort.direction === "asc" ? "gt" : "lt";
+  const sameValue = {[sort.field]: position.value, id: {[after]: position.id}};
+
+  // Past the last non-null value only nulls are left
+  if (position.value === null) {
+    return sameValue as Where;
+  }
+
+  return {
+    OR: [
+      {[sort.field]: {[after]: position.value}},
+      sameValue,
+      ...(sort.nullable ? [{[sort.field]: null}] : []),
+    ],
+  } as Where;
+}
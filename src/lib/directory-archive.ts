@@ -0,0 +1,185 @@
+import {NextRequest, NextResponse} from "next/server";
+import {z} from "zod";
+import {prisma} from "@/lib/prisma";
+import {getR2Client} from "@/lib/r2-config";
+import {authenticateRequest} from "@/lib/api-auth";
+import {getProvidedAccessPassword} from "@/lib/access-passwords";
+import {
+  authorizeDirectoryAccess,
+  authorizeFilesAccess,
+  isPasswordDenial,
+  logAccessDenied,
+  type AccessContext,
+  type AccessDenialReason,
+} from "@/lib/access-policy";
+import {archiveContentTypes, createArchiveStream, type ArchiveEntry} from "@/lib/archive";
+import {archiveQuerySchema, type ArchiveFormat} from "@hulkastorus/sdk/contract";
+
+interface ArchiveDirectory {
+  id: string;
+  fullPath: string;
+}
+
+interface ArchiveFile {
+  id: string;
+  fullPath: string;
+  r2Locator: string;
+  updatedAt: Date;
+}
+
+export type DirectoryArchiveDecision =
+  | {ok: true; directory: ArchiveDirectory; files: ArchiveFile[]}
+  | {ok: false; reason: AccessDenialReason};
+
+/**
+ * Work out which files under a directory, at any depth, the caller may
+ * download. Files get the same checks as a single download (see
+ * authorizeFilesAccess), so non-owners only get the public files.
+ */
+export async function authorizeDirectoryArchive(
+  directoryId: string,
+  context: Omit<AccessContext, "shareToken"> = {},
+): Promise<DirectoryArchiveDecision> {
+  const directory = await prisma.directory.findUnique({where: {id: directoryId}});
+  if (!directory) {
+    return {ok: false, reason: "not_found"};
+  }
+
+  const prefix = directory.fullPath === "/" ? "/" : `${directory.fullPath}/`;
+  const candidates = await prisma.file.findMany({
+    where: {userId: directory.userId, status: "validated", fullPath: {startsWith: prefix}},
+    orderBy: {fullPath: "asc"},
+  });
+
+  const owner = authorizeDirectoryAccess(directory, context).ok;
+  const decisions = await authorizeFilesAccess(candidates, "download", context);
+
+  const files: ArchiveFile[] = [];
+  const denials = new Set<AccessDenialReason>();
+
+  for (const decision of decisions) {
+    if (!decision.ok) {
+      denials.add(decision.reason);
+      continue;
+    }
+
+    if (decision.resource.r2Locator) {
+      const {id, fullPath, r2Locator, updatedAt} = decision.resource;
+      files.push({id, fullPath, r2Locator, updatedAt});
+    }
+  }
+
+  // Ask for the password rather than quietly leaving protected files out
+  if (denials.has("password_required")) {
+    return {ok: false, reason: "password_required"};
+  }
+
+  if (!owner && files.length === 0) {
+    return {
+      ok: false,
+      reason: denials.has("incorrect_password") ? "incorrect_password" : "private",
+    };
+  }
+
+  return {ok: true, directory: {id: directory.id, fullPath: directory.fullPath}, files};
+}
+
+/**
+ * Handle a request for a directory archive, for both GET /d/dir/:id and
+ * GET /api/v1/directories/:id/archive. Sessions and API keys are optional:
+ * public files can be archived without them.
+ */
+export async function handleDirectoryArchiveRequest(
+  request: NextRequest,
+  id: string,
+): Promise<NextResponse> {
+  try {
+    const {searchParams} = new URL(request.url);
+    const {format} = archiveQuerySchema.parse({format: searchParams.get("format") ?? undefined});
+
+    const authResult = await authenticateRequest(request, "read").catch(() => null);
+
+    const access = await authorizeDirectoryArchive(id, {
+      auth: authResult,
+      accessPassword: getProvidedAccessPassword(request),
+    });
+
+    if (!access.ok) {
+      logAccessDenied("directory", id, access.reason);
+
+      // Browsers answer the challenge with a basic auth prompt
+      if (isPasswordDenial(access.reason)) {
+        return NextResponse.json(
+          {
+            error:
+              access.reason === "incorrect_password" ? "Incorrect password" : "Password required",
+          },
+          {
+            status: 401,
+            headers: {"WWW-Authenticate": 'Basic realm="Hulkastorus download", charset="UTF-8"'},
+          },
+        );
+      }
+
+      return NextResponse.json({error: "Directory not found"}, {status: 404});
+    }
+
+    const archive = createDirectoryArchive(access.directory, access.files, format);
+
+    return new NextResponse(archive.body, {
+      headers: {
+        "Content-Type": archive.contentType,
+        "Content-Disposition": archiveContentDisposition(archive.filename),
+        "Cache-Control": "private, no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error creating directory archive:", error);
+
+    if (error instanceof z.ZodError) {
+      return NextResponse.json({error: "Validation error", details: error.issues}, {status: 400});
+    }
+
+    return NextResponse.json({error: "Internal server error"}, {status: 500});
+  }
+}
+
+/**
+ * Stream the files into an archive. Everything sits under a folder named after
+ * the directory, with paths relative to it.
+ */
+export function createDirectoryArchive(
+  directory: ArchiveDirectory,
+  files: ArchiveFile[],
+  format: ArchiveFormat,
+): {filename: string; contentType: string; body: ReadableStream<Uint8Array>} {
+  const rootName = directory.fullPath.split("/").filter(Boolean).pop() || "files";
+  const prefixLength = directory.fullPath === "/" ? 1 : directory.fullPath.length + 1;
+  const r2Client = getR2Client();
+
+  const entries: ArchiveEntry[] = files.map((file) => ({
+    path: `${rootName}/${file.fullPath.slice(prefixLength)}`,
+    modifiedAt: file.updatedAt,
+    open: async () => {
+      const objectParts = r2Client.parseObjectKey(file.r2Locator);
+      if (!objectParts) {
+        throw new Error(`Invalid file locator for ${file.id}`);
+      }
+      return r2Client.getObjectStream(objectParts);
+    },
+  }));
+
+  return {
+    filename: `${rootName}.${format}`,
+    contentType: archiveContentTypes[format],
+    body: createArchiveStream(entries, format),
+  };
+}
+
+/**
+ * Content-Disposition for an archive, with an ASCII fallback for old clients
+ */
+export function archiveContentDisposition(filename: string): string {
+  const fallback = filename.replace(/[^\x20-\x7e]|["\\]/g, "_");
+  return `attachment; filename="${fallback}"; filename*=UTF-8''${encodeURIComponent(filename)}`;
+}
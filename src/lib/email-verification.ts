@@ -0,0 +1,92 @@
+import {prisma} from "@/lib/prisma";
+import {signJwt, verifyJwt} from "@/lib/jwt";
+import {getMailTransport} from "@/lib/mailer";
+
+// Verification links stay valid for an hour
+export const EMAIL_VERIFICATION_TTL_SECONDS = 60 * 60;
+
+// Stops tokens issued for other purposes (e.g. password resets) from verifying an email
+const TOKEN_PURPOSE = "email-verification";
+
+export type EmailVerificationResult = {ok: true; userId: string} | {ok: false; error: string};
+
+/**
+ * Base URL used for links in outgoing mail
+ */
+export function getAppUrl(): string {
+  return (process.env.NEXTAUTH_URL || "http://localhost:3000").replace(/\/+$/, "");
+}
+
+/**
+ * Issue a verification JWT with the user's id as the subject and their email as a claim
+ */
+export function createEmailVerificationToken(
+  user: {id: string; email: string},
+  now = new Date(),
+): string {
+  return signJwt(
+    {sub: user.id, email: user.email, purpose: TOKEN_PURPOSE},
+    EMAIL_VERIFICATION_TTL_SECONDS,
+    now,
+  );
+}
+
+/**
+ * Email the user a link to /verify-email with a fresh token
+ */
+export async function sendVerificationEmail(user: {
+  id: string;
+  email: string;
+  firstName?: string | null;
+}): Promise<void> {
+  const link = `${getAppUrl()}/verify-email?token=${createEmailVerificationToken(user)}`;
+  const greeting = user.firstName ? `Hi ${user.firstName},` : "Hi,";
+
+  await getMailTransport().send({
+    to: user.email,
+    subject: "Verify your Hulkastorus email address",
+    text: `${greeting}\n\nConfirm your email address by opening this link within the next hour:\n\n${link}\n\nIf you didn't create a Hulkastorus account, you can ignore this email.`,
+  });
+}
+
+/**
+ * Redeem a verification token. The token must still match the user's current email,
+ * so a link sent before an email change can't verify the new address.
+ * Pass `expectedUserId` to also require the token to belong to that user.
+ */
+export async function verifyEmailToken(
+  token: string,
+  expectedUserId?: string,
+): Promise<EmailVerificationResult> {
+  const invalid: EmailVerificationResult = {
+    ok: false,
+    error: "Invalid or expired verification token",
+  };
+
+  const claims = verifyJwt(token);
+  if (!claims || claims.purpose !== TOKEN_PURPOSE) {
+    return invalid;
+  }
+
+  if (expectedUserId && claims.sub !== expectedUserId) {
+    return invalid;
+  }
+
+  const user = await prisma.user.findUnique({
+    where: {id: claims.sub},
+    select: {id: true, email: true, isEmailVerified: true},
+  });
+
+  if (!user || user.email !== claims.email) {
+    return invalid;
+  }
+
+  if (!user.isEmailVerified) {
+    await prisma.user.update({
+      where: {id: user.id},
+      data: {isEmailVerified: true},
+    });
+  }
+
+  return {ok: true, userId: user.id};
+}
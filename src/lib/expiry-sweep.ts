@@ -0,0 +1,104 @@
+import {prisma} from "@/lib/prisma";
+import {getR2Client} from "@/lib/r2-config";
+
+export interface ExpirySweepOptions {
+  batchSize?: number;
+  maxBatches?: number;
+  now?: Date;
+}
+
+export interface ExpirySweepReport {
+  // Rows moved to the `expired` status during this run
+  expired: number;
+  // R2 objects deleted (or confirmed gone) during this run
+  deleted: number;
+  // Rows whose R2 cleanup failed; they are retried on the next run
+  failed: string[];
+  batches: number;
+  // Whether the run stopped at maxBatches with work left over
+  hasMore: boolean;
+}
+
+/**
+ * Move expired files to the `expired` status and delete their R2 objects.
+ *
+ * Rows are marked first and their `r2Locator` is cleared only once the object
+ * is gone, so a run that dies halfway is finished by the next one: rows that
+ * are `expired` but still have a locator are picked up again.
+ */
+export async function runExpirySweep(options: ExpirySweepOptions = {}): Promise<ExpirySweepReport> {
+  const {batchSize = 100, maxBatches = 10, now = new Date()} = options;
+  const r2Client = getR2Client();
+  const report: ExpirySweepReport = {
+    expired: 0,
+    deleted: 0,
+    failed: [],
+    batches: 0,
+    hasMore: false,
+  };
+
+  while (report.batches < maxBatches) {
+    const files = await prisma.file.findMany({
+      where: {
+        id: {notIn: report.failed},
+        OR: [
+          {status: {not: "expired"}, expiresAt: {lte: now}},
+          {status: "expired", r2Locator: {not: null}},
+        ],
+      },
+      select: {id: true, status: true, r2Locator: true, uploadId: true},
+      orderBy: {expiresAt: "asc"},
+      take: batchSize,
+    });
+
+    if (files.length === 0) {
+      break;
+    }
+
+    report.batches++;
+
+    // Mark the whole batch before touching storage so downloads stop immediately
+    const {count} = await prisma.file.updateMany({
+      where: {
+        id: {in: files.filter((file) => file.status !== "expired").map((file) => file.id)},
+        status: {not: "expired"},
+      },
+      data: {status: "expired"},
+    });
+    report.expired += count;
+
+    for (const file of files) {
+      const objectParts = file.r2Locator ? r2Client.parseObjectKey(file.r2Locator) : null;
+
+      try {
+        if (objectParts) {
+          if (file.uploadId) {
+            await r2Client.abortMultipartUpload({...objectParts, uploadId: file.uploadId});
+          }
+
+          // Deleting a missing object succeeds, so retries are harmless
+          await r2Client.deleteObject(objectParts);
+          report.deleted++;
+        }
+
+        await prisma.file.update({
+          where: {id: file.id},
+          data: {r2Locator: null, uploadId: null},
+        });
+      } catch (error) {
+        console.error(`Error deleting expired file ${file.id} from R2:`, error);
+        report.failed.push(file.id);
+      }
+    }
+
+    if (files.length < batchSize) {
+      break;
+    }
+
+    if (report.batches === maxBatches) {
+      report.hasMore = true;
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,80 @@
+import type {Prisma} from "@prisma/client";
+import type {CursorSort} from "@/lib/cursor";
+import type {ListFilter} from "@/lib/list-filters";
+import {applyInheritedPermissions, type EffectivePermissions} from "@/lib/permissions";
+
+// What file listings load alongside each file
+export const fileListInclude = {
+  directory: {
+    select: {
+      fullPath: true,
+    },
+  },
+} satisfies Prisma.FileInclude;
+
+type ListedFile = Prisma.FileGetPayload<{include: typeof fileListInclude}>;
+
+// What files can be listed in order of, and what their cursors hold
+export const fileSortFields: Record<string, Omit<CursorSort, "field" | "direction">> = {
+  createdAt: {type: "date"},
+  updatedAt: {type: "date"},
+  filename: {type: "text"},
+  sizeBytes: {type: "number", nullable: true},
+};
+
+/**
+ * Shape a file for listings. Files set to "inherit" take their directory's
+ * entry in `directoryPermissions`, from `getDirectoryPermissions`.
+ */
+export function formatFileListItem(
+  file: ListedFile,
+  directoryPermissions: Map<string, EffectivePermissions> | null,
+) {
+  return {
+    id: file.id,
+    filename: file.filename,
+    fullPath: file.fullPath,
+    mimeType: file.mimeType,
+    sizeBytes: file.sizeBytes ? Number(file.sizeBytes) : null,
+    permissions: file.permissions,
+    effectivePermissions: applyInheritedPermissions(
+      file.permissions,
+      directoryPermissions?.get(file.directoryId) ?? "private",
+    ),
+    status: file.status,
+    expirationPolicy: file.expirationPolicy,
+    expiresAt: file.expiresAt,
+    createdAt: file.createdAt,
+    updatedAt: file.updatedAt,
+    directory: file.directory,
+  };
+}
+
+/**
+ * The where clause for a filter~permissions filter. Each value matches files
+ * set to it, and "public" and "private" also match inheriting files whose
+ * directory resolves that way in `directoryPermissions`.
+ */
+export function filePermissionsWhere(
+  filter: ListFilter,
+  directoryPermissions: Map<string, EffectivePermissions>,
+): Prisma.FileWhereInput {
+  const values =
+    filter.operator === "in" ? filter.values : filter.operator === "eq" ? [filter.value] : [];
+
+  return {
+    OR: values.flatMap((value) => {
+      if (value === "inherit") {
+        return [{permissions: "inherit"}];
+      }
+
+      const directoryIds = [...directoryPermissions]
+        .filter(([, permissions]) => permissions === value)
+        .map(([directoryId]) => directoryId);
+      return [
+        {permissions: String(value)},
+        {permissions: "inherit", directoryId: {in: directoryIds}},
+      ];
+    }),
+  };
+}
@@ -0,0 +1,104 @@
+import type {Prisma} from "@prisma/client";
+import {prisma} from "@/lib/prisma";
+import {generateNanoId} from "@/lib/nanoid";
+import {getExpirationDate, type LifecyclePolicy} from "@/lib/r2-config";
+
+export interface ReserveFileInput {
+  filename: string;
+  mimeType?: string;
+  sizeBytes?: number;
+  fullPath: string;
+  expirationPolicy: LifecyclePolicy;
+  permissions: "public" | "private" | "inherit";
+}
+
+/**
+ * Create the database record for a file that is about to be uploaded, along
+ * with any missing directories on its path. The file starts out "reserved"
+ * and has no R2 locator until the caller starts the upload.
+ */
+export async function reserveFile(
+  userId: string,
+  input: ReserveFileInput,
+  tx: Prisma.TransactionClient = prisma,
+) {
+  const {filename, mimeType, sizeBytes, fullPath, expirationPolicy, permissions} = input;
+
+  // Generate file ID
+  const fileId = generateNanoId();
+
+  // Normalize and validate full path
+  const normalizedPath = fullPath.startsWith("/") ? fullPath : `/${fullPath}`;
+
+  // Extract directory path (everything except the filename)
+  const directoryPath = normalizedPath.substring(0, normalizedPath.lastIndexOf("/")) || "/";
+  const pathParts = directoryPath === "/" ? [] : directoryPath.split("/").filter(Boolean);
+
+  // Find or create directory structure
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  let currentDirectory: any = null;
+  let currentPath = "";
+
+  // Create root directory if it doesn't exist
+  if (pathParts.length === 0) {
+    // File goes in root directory
+    currentDirectory = await tx.directory.upsert({
+      where: {
+        userId_fullPath: {
+          userId,
+          fullPath: "/",
+        },
+      },
+      update: {},
+      create: {
+        id: generateNanoId(),
+        userId,
+        fullPath: "/",
+        defaultExpirationPolicy: "infinite",
+        defaultPermissions: "private",
+      },
+    });
+  } else {
+    // Create directory hierarchy
+    for (const part of pathParts) {
+      currentPath += `/${part}`;
+      const parentId = currentDirectory?.id;
+
+      currentDirectory = await tx.directory.upsert({
+        where: {
+          userId_fullPath: {
+            userId,
+            fullPath: currentPath,
+          },
+        },
+        update: {},
+        create: {
+          id: generateNanoId(),
+          userId,
+          parentId,
+          fullPath: currentPath,
+          defaultExpirationPolicy: expirationPolicy,
+          defaultPermissions: permissions,
+        },
+      });
+    }
+  }
+
+  // Create file record in database
+  return tx.file.create({
+    data: {
+      id: fileId,
+      userId,
+      directoryId: currentDirectory.id,
+      status: "reserved",
+      expirationPolicy,
+      fullPath: normalizedPath,
+      filename,
+      mimeType,
+      sizeBytes: sizeBytes ? BigInt(sizeBytes) : null,
+      // "inherit" is stored as-is and resolved through the directory tree on access
+      permissions,
+      expiresAt: getExpirationDate(expirationPolicy),
+    },
+  });
+}
@@ -0,0 +1,372 @@
+import {Prisma} from "@prisma/client";
+import {prisma} from "@/lib/prisma";
+import {decodeCursor, encodeCursor} from "@/lib/cursor";
+import {fileListInclude, formatFileListItem} from "@/lib/file-listing";
+import {type EffectivePermissions, getDirectoryPermissions} from "@/lib/permissions";
+import {
+  DATASET_EXTENSIONS,
+  DATASET_MIME_TYPES,
+  DOCUMENT_MIME_PREFIXES,
+  DOCUMENT_MIME_TYPES,
+  GENERIC_MIME_TYPES,
+  MODEL_EXTENSIONS,
+  MODEL_MIME_TYPES,
+} from "@/lib/usage";
+import {FILE_STATUSES, type FileStatus, type UsageCategory} from "@hulkastorus/sdk/contract";
+
+// Search queries are space-separated terms, all of which must match:
+//
+//   report          filename contains "report" (case-insensitive)
+//   *.csv  q?.pdf   filename matches the glob
+//   "type:x"        quoted terms are always filename text
+//   type:image      usage category, as on the dashboard; repeat to match any of them
+//   size:>100MB     also >=, <, <= and =; B, KB, MB, GB or TB (1024-based)
+//   expires:<7d     expires within 7 days; >7d for later or never, expires:never; h, d, w or y
+//   status:failed   upload status; repeat to match any of them
+//   public private  effective permissions, after inheritance
+//   /reports        under the path; repeat to match any of them
+
+export type SizeOperator = ">" | ">=" | "<" | "<=" | "=";
+
+export interface FileSearchQuery {
+  names: {pattern: string; glob: boolean}[];
+  types: UsageCategory[];
+  sizes: {operator: SizeOperator; bytes: number}[];
+  expires: ({operator: "<" | ">"; milliseconds: number} | "never")[];
+  statuses: FileStatus[];
+  permissions: EffectivePermissions | null;
+  paths: string[];
+}
+
+export type ParseSearchQueryResult =
+  | {ok: true; query: FileSearchQuery}
+  | {ok: false; error: string};
+
+// The position after the last file on a page; results are newest first
+export interface SearchPosition {
+  createdAt: Date;
+  id: string;
+}
+
+const TYPE_ALIASES: Record<string, UsageCategory> = {
+  image: "images",
+  video: "videos",
+  audio: "audios",
+  model: "models",
+  dataset: "datasets",
+  document: "documents",
+  doc: "documents",
+  other: "other",
+};
+
+const SIZE_UNITS: Record<string, number> = {
+  b: 1,
+  kb: 1024,
+  mb: 1024 ** 2,
+  gb: 1024 ** 3,
+  tb: 1024 ** 4,
+};
+
+const DURATION_UNITS: Record<string, number> = {
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+  w: 7 * 24 * 60 * 60 * 1000,
+  y: 365 * 24 * 60 * 60 * 1000,
+};
+
+function parseType(value: string): UsageCategory | null {
+  const type = value.toLowerCase();
+  return TYPE_ALIASES[type] ?? TYPE_ALIASES[type.replace(/s$/, "")] ?? null;
+}
+
+function parseSize(value: string): FileSearchQuery["sizes"][number] | null {
+  const match = value.match(/^(>=|<=|>|<|=)?(\d+(?:\.\d+)?)([a-z]*)$/i);
+  const unit = SIZE_UNITS[(match?.[3] || "b").toLowerCase()];
+  if (!match || !unit) {
+    return null;
+  }
+  return {operator: (match[1] || "=") as SizeOperator, bytes: Math.round(Number(match[2]) * unit)};
+}
+
+function parseExpires(value: string): FileSearchQuery["expires"][number] | null {
+  if (value.toLowerCase() === "never") {
+    return "never";
+  }
+  const match = value.match(/^([<>])(\d+)([a-z])$/i);
+  const unit = DURATION_UNITS[(match?.[3] ?? "").toLowerCase()];
+  if (!match || !unit) {
+    return null;
+  }
+  return {operator: match[1] as "<" | ">", milliseconds: Number(match[2]) * unit};
+}
+
+/**
+ * Parse a search query into its terms. Unknown `key:value` filters and
+ * malformed values are errors rather than filename text, so typos don't
+ * silently match nothing; quote a term to search for it literally.
+ */
+export function parseSearchQuery(input: string): ParseSearchQueryResult {
+  const query: FileSearchQuery = {
+    names: [],
+    types: [],
+    sizes: [],
+    expires: [],
+    statuses: [],
+    permissions: null,
+    paths: [],
+  };
+
+  for (const [, quoted, term] of input.matchAll(/"([^"]*)"|(\S+)/g)) {
+    if (quoted !== undefined) {
+      if (quoted) {
+        query.names.push({pattern: quoted, glob: false});
+      }
+      continue;
+    }
+
+    const lower = term.toLowerCase();
+    const separator = term.indexOf(":");
+
+    if (lower === "public" || lower === "private") {
+      if (query.permissions && query.permissions !== lower) {
+        return {ok: false, error: "A file can't be both public and private"};
+      }
+      query.permissions = lower;
+    } else if (term.startsWith("/")) {
+      query.paths.push(term.replace(/\/+$/, ""));
+    } else if (separator > 0) {
+      const key = lower.slice(0, separator);
+      const value = term.slice(separator + 1);
+
+      if (key === "type") {
+        const type = parseType(value);
+        if (!type) {
+          return {ok: false, error: `Unknown file type "${value}"`};
+        }
+        query.types.push(type);
+      } else if (key === "size") {
+        const size = parseSize(value);
+        if (!size) {
+          return {ok: false, error: `Invalid size "${value}", e.g. size:>100MB`};
+        }
+        query.sizes.push(size);
+      } else if (key === "expires") {
+        const expires = parseExpires(value);
+        if (!expires) {
+          return {ok: false, error: `Invalid expiry "${value}", e.g. expires:<7d`};
+        }
+        query.expires.push(expires);
+      } else if (key === "status") {
+        const status = FILE_STATUSES.find((status) => status === value.toLowerCase());
+        if (!status) {
+          return {ok: false, error: `Unknown status "${value}"`};
+        }
+        query.statuses.push(status);
+      } else {
+        return {ok: false, error: `Unknown search filter "${key}:"`};
+      }
+    } else {
+      query.names.push({pattern: term, glob: /[*?]/.test(term)});
+    }
+  }
+
+  return {ok: true, query};
+}
+
+// Escape LIKE's wildcards so user text matches literally
+function escapeLike(value: string): string {
+  return value.replace(/[\\%_]/g, "\\$&");
+}
+
+function globToLike(glob: string): string {
+  return escapeLike(glob).replace(/\*/g, "%").replace(/\?/g, "_");
+}
+
+// The MIME type the way `categorizeMimeType` compares it
+const MIME_TYPE = Prisma.sql`lower(trim(split_part(coalesce(mime_type, ''), ';', 1)))`;
+
+// Files of the given types, or generic binaries named with one of the extensions
+function extensionCondition(mimeTypes: string[], extensions: string[]): Prisma.Sql {
+  const patterns = extensions.map((extension) => `%${escapeLike(extension)}`);
+  return Prisma.sql`(
+    ${MIME_TYPE} = ANY(${mimeTypes})
+    OR (${MIME_TYPE} = ANY(${GENERIC_MIME_TYPES}) AND lower(filename) LIKE ANY(${patterns}))
+  )`;
+}
+
+// SQL matching `categorizeMimeType`, plus `getUsage`'s extension fallback
+function typeCondition(type: UsageCategory): Prisma.Sql {
+  switch (type) {
+    case "images":
+      return Prisma.sql`${MIME_TYPE} LIKE 'image/%'`;
+    case "videos":
+      return Prisma.sql`${MIME_TYPE} LIKE 'video/%'`;
+    case "audios":
+      return Prisma.sql`${MIME_TYPE} LIKE 'audio/%'`;
+    case "models":
+      return extensionCondition(MODEL_MIME_TYPES, MODEL_EXTENSIONS);
+    case "datasets":
+      return extensionCondition(DATASET_MIME_TYPES, DATASET_EXTENSIONS);
+    case "documents":
+      return Prisma.sql`(
+        ${MIME_TYPE} = ANY(${DOCUMENT_MIME_TYPES})
+        OR ${MIME_TYPE} LIKE ANY(${DOCUMENT_MIME_PREFIXES.map((prefix) => `${escapeLike(prefix)}%`)})
+      )`;
+    case "other":
+      return Prisma.sql`NOT (${Prisma.join(
+        (["images", "videos", "audios", "models", "datasets", "documents"] as const).map(
+          typeCondition,
+        ),
+        " OR ",
+      )})`;
+  }
+}
+
+function anyOf(conditions: Prisma.Sql[]): Prisma.Sql {
+  return Prisma.sql`(${Prisma.join(conditions, " OR ")})`;
+}
+
+/**
+ * Build the WHERE clause for a user's search. `permissionDirectoryIds` are the
+ * user's directories whose contents resolve to the permissions searched for.
+ */
+export function buildSearchCondition(
+  userId: string,
+  query: FileSearchQuery,
+  options: {now: Date; permissionDirectoryIds?: string[]; after?: SearchPosition},
+): Prisma.Sql {
+  const conditions = [Prisma.sql`user_id = ${userId}`];
+
+  for (const {pattern, glob} of query.names) {
+    conditions.push(
+      Prisma.sql`filename ILIKE ${glob ? globToLike(pattern) : `%${escapeLike(pattern)}%`}`,
+    );
+  }
+
+  if (query.types.length > 0) {
+    conditions.push(anyOf(query.types.map(typeCondition)));
+  }
+
+  for (const {operator, bytes} of query.sizes) {
+    // The operator comes from parseSize's fixed set, never straight from the query
+    conditions.push(Prisma.sql`size_bytes ${Prisma.raw(operator)} ${bytes}`);
+  }
+
+  for (const expires of query.expires) {
+    if (expires === "never") {
+      conditions.push(Prisma.sql`expires_at IS NULL`);
+    } else {
+      const at = new Date(options.now.getTime() + expires.milliseconds);
+      conditions.push(
+        expires.operator === "<"
+          ? Prisma.sql`(expires_at IS NOT NULL AND expires_at < ${at})`
+          : Prisma.sql`(expires_at IS NULL OR expires_at > ${at})`,
+      );
+    }
+  }
+
+  if (query.statuses.length > 0) {
+    conditions.push(Prisma.sql`status = ANY(${query.statuses})`);
+  }
+
+  if (query.permissions) {
+    conditions.push(
+      Prisma.sql`(
+        permissions = ${query.permissions}
+        OR (permissions = 'inherit' AND directory_id = ANY(${options.permissionDirectoryIds ?? []}))
+      )`,
+    );
+  }
+
+  // "/" is every file, so it leaves nothing to filter
+  if (query.paths.length > 0 && !query.paths.includes("")) {
+    conditions.push(
+      anyOf(
+        query.paths.map(
+          (path) => Prisma.sql`(full_path = ${path} OR full_path LIKE ${`${escapeLike(path)}/%`})`,
+        ),
+      ),
+    );
+  }
+
+  if (options.after) {
+    conditions.push(
+      Prisma.sql`(created_at, id) < (${options.after.createdAt}, ${options.after.id})`,
+    );
+  }
+
+  return Prisma.join(conditions, " AND ");
+}
+
+export function encodeSearchCursor(position: SearchPosition): string {
+  return encodeCursor([position.createdAt.toISOString(), position.id]);
+}
+
+export function decodeSearchCursor(cursor: string): SearchPosition | null {
+  const values = decodeCursor(cursor, 2);
+  if (!values || typeof values[0] !== "string" || typeof values[1] !== "string") {
+    return null;
+  }
+
+  const createdAt = new Date(values[0]);
+  return isNaN(createdAt.getTime()) ? null : {createdAt, id: values[1]};
+}
+
+/**
+ * Find a page of the user's files matching a query, newest first. The filters
+ * run in Postgres (filenames through a trigram index); the page is then loaded
+ * like any other file listing.
+ */
+export async function searchFiles(
+  userId: string,
+  query: FileSearchQuery,
+  options: {limit: number; after?: SearchPosition; now?: Date},
+) {
+  let directoryPermissions: Map<string, EffectivePermissions> | null = null;
+  let permissionDirectoryIds: string[] | undefined;
+
+  if (query.permissions) {
+    directoryPermissions = await getDirectoryPermissions(userId);
+    permissionDirectoryIds = [...directoryPermissions]
+      .filter(([, permissions]) => permissions === query.permissions)
+      .map(([directoryId]) => directoryId);
+  }
+
+  const condition = buildSearchCondition(userId, query, {
+    now: options.now ?? new Date(),
+    permissionDirectoryIds,
+    after: options.after,
+  });
+
+  // One extra row tells whether there is another page
+  const rows = await prisma.$queryRaw<{id: string; created_at: Date}[]>`
+    SELECT id, created_at FROM files
+    WHERE ${condition}
+    ORDER BY created_at DESC, id DESC
+    LIMIT ${options.limit + 1}
+  `;
+  const page = rows.slice(0, options.limit);
+
+  const files = await prisma.file.findMany({
+    where: {id: {in: page.map((row) => row.id)}},
+    include: fileListInclude,
+  });
+  const filesById = new Map(files.map((file) => [file.id, file]));
+
+  if (!directoryPermissions && files.some((file) => file.permissions === "inherit")) {
+    directoryPermissions = await getDirectoryPermissions(userId);
+  }
+
+  const last = page[page.length - 1];
+
+  return {
+    files: page
+      .map((row) => filesById.get(row.id))
+      .filter((file) => file !== undefined)
+      .map((file) => formatFileListItem(file, directoryPermissions)),
+    nextCursor:
+      rows.length > options.limit
+        ? encodeSearchCursor({createdAt: last.created_at, id: last.id})
+        : null,
+  };
+}
@@ -0,0 +1,83 @@
+import {prisma} from "@/lib/prisma";
+import {getR2Client} from "@/lib/r2-config";
+
+// Running jobs record progress after every part, so one this quiet has stopped
+export const DEFAULT_STALE_IMPORT_MINUTES = 60;
+
+// Job statuses that mean an import hasn't finished
+const UNFINISHED_STATUSES = ["pending", "running"];
+
+export interface ImportSweepOptions {
+  staleMinutes?: number;
+  now?: Date;
+}
+
+export interface ImportSweepReport {
+  // Stale pending or running jobs marked failed during this run
+  jobsFailed: number;
+  // Reserved files released along with them
+  filesReleased: number;
+  // Jobs whose cleanup failed; they are retried on the next run
+  failed: string[];
+}
+
+/**
+ * Fail import jobs that stopped without finishing, e.g. because the function
+ * running them was frozen or killed, and release their reserved files.
+ *
+ * Each job is claimed with a conditional update before its file is touched,
+ * so a job that finishes meanwhile is left alone and a run that fails halfway
+ * is safe to repeat.
+ */
+export async function runImportSweep(options: ImportSweepOptions = {}): Promise<ImportSweepReport> {
+  const {staleMinutes = DEFAULT_STALE_IMPORT_MINUTES, now = new Date()} = options;
+  const r2Client = getR2Client();
+  const report: ImportSweepReport = {jobsFailed: 0, filesReleased: 0, failed: []};
+
+  const cutoff = new Date(now.getTime() - staleMinutes * 60 * 1000);
+  const staleJobs = await prisma.importJob.findMany({
+    where: {status: {in: UNFINISHED_STATUSES}, updatedAt: {lt: cutoff}},
+    select: {
+      id: true,
+      file: {select: {id: true, status: true, r2Locator: true, uploadId: true}},
+    },
+  });
+
+  for (const job of staleJobs) {
+    try {
+      const {count} = await prisma.importJob.updateMany({
+        where: {id: job.id, status: {in: UNFINISHED_STATUSES}, updatedAt: {lt: cutoff}},
+        data: {status: "failed", error: "Import stopped before finishing", completedAt: now},
+      });
+      if (count === 0) {
+        continue;
+      }
+      report.jobsFailed++;
+
+      const file = job.file;
+      if (!file || file.status !== "reserved") {
+        continue;
+      }
+
+      // Nothing was stored until the upload completes, so aborting it is all R2 needs
+      const objectParts = file.r2Locator ? r2Client.parseObjectKey(file.r2Locator) : null;
+      if (objectParts && file.uploadId) {
+        await r2Client
+          .abortMultipartUpload({...objectParts, uploadId: file.uploadId})
+          .catch((abortError) => console.error("Error aborting import upload:", abortError));
+      }
+
+      // Failed files stop counting against the quota
+      const released = await prisma.file.updateMany({
+        where: {id: file.id, status: "reserved"},
+        data: {status: "failed", uploadId: null, updatedAt: now},
+      });
+      report.filesReleased += released.count;
+    } catch (error) {
+      console.error(`Error cleaning up import job ${job.id}:`, error);
+      report.failed.push(job.id);
+    }
+  }
+
+  return report;
+}
@@ -0,0 +1,65 @@
+import crypto from "crypto";
+import type {InviteCode, Prisma} from "@prisma/client";
+
+// Unambiguous characters only (no 0/O or 1/I), since codes get read aloud and retyped
+const INVITE_CODE_ALPHABET = "ABCDEFGHJKLMNPQRSTUVWXYZ23456789";
+
+export type InviteCodeClaim = {ok: true; inviteCode: InviteCode} | {ok: false; error: string};
+
+/**
+ * Generate a random invite code like `K7QM-2XRD`
+ */
+export function generateInviteCode(): string {
+  const bytes = crypto.randomBytes(8);
+  const chars = Array.from(
+    bytes,
+    (byte) => INVITE_CODE_ALPHABET[byte % INVITE_CODE_ALPHABET.length],
+  );
+  return `${chars.slice(0, 4).join("")}-${chars.slice(4).join("")}`;
+}
+
+/**
+ * Codes are case-insensitive and stored uppercase
+ */
+export function normalizeInviteCode(code: string): string {
+  return code.trim().toUpperCase();
+}
+
+/**
+ * Use up one redemption of an invite code. Must run inside the transaction that
+ * creates the user: the conditional increment only succeeds while uses remain,
+ * so concurrent registrations can't overspend a code, and a failed user insert
+ * rolls the increment back.
+ */
+export async function claimInviteCode(
+  tx: Prisma.TransactionClient,
+  code: string,
+  now = new Date(),
+): Promise<InviteCodeClaim> {
+  const inviteCode = await tx.inviteCode.findUnique({
+    where: {code: normalizeInviteCode(code)},
+  });
+
+  if (!inviteCode) {
+    return {ok: false, error: "Invalid invite code"};
+  }
+
+  if (inviteCode.expiresAt && inviteCode.expiresAt <= now) {
+    return {ok: false, error: "Invite code has expired"};
+  }
+
+  const {count} = await tx.inviteCode.updateMany({
+    where: {
+      id: inviteCode.id,
+      useCount: {lt: inviteCode.maxUses},
+      OR: [{expiresAt: null}, {expiresAt: {gt: now}}],
+    },
+    data: {useCount: {increment: 1}},
+  });
+
+  if (count === 0) {
+    return {ok: false, error: "Invite code has already been used"};
+  }
+
+  return {ok: true, inviteCode};
+}
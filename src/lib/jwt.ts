@@ -0,0 +1,74 @@
+import crypto from "crypto";
+
+export interface JwtClaims {
+  sub: string;
+  iat: number;
+  exp: number;
+  [claim: string]: unknown;
+}
+
+function getSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET;
+  if (!secret) {
+    throw new Error("NEXTAUTH_SECRET is not configured");
+  }
+  return secret;
+}
+
+function sign(input: string, secret: string): string {
+  return crypto.createHmac("sha256", secret).update(input).digest("base64url");
+}
+
+function encodeSegment(value: object): string {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+/**
+ * Sign an HS256 JWT with the app secret. `expiresInSeconds` is counted from `now`.
+ */
+export function signJwt(
+  claims: {sub: string; [claim: string]: unknown},
+  expiresInSeconds: number,
+  now = new Date(),
+): string {
+  const iat = Math.floor(now.getTime() / 1000);
+  const payload = {...claims, iat, exp: iat + expiresInSeconds};
+  const input = `${encodeSegment({alg: "HS256", typ: "JWT"})}.${encodeSegment(payload)}`;
+
+  return `${input}.${sign(input, getSecret())}`;
+}
+
+/**
+ * Verify an HS256 JWT signed by `signJwt`. Returns the claims, or null if the
+ * token is malformed, tampered with or expired.
+ */
+export function verifyJwt(token: string, now = new Date()): JwtClaims | null {
+  const segments = token.split(".");
+  if (segments.length !== 3) {
+    return null;
+  }
+
+  const [header, payload, signature] = segments;
+  const expected = Buffer.from(sign(`${header}.${payload}`, getSecret()));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const {alg} = JSON.parse(Buffer.from(header, "base64url").toString());
+    const claims = JSON.parse(Buffer.from(payload, "base64url").toString());
+
+    if (alg !== "HS256" || typeof claims.sub !== "string" || typeof claims.exp !== "number") {
+      return null;
+    }
+
+    if (claims.exp <= Math.floor(now.getTime() / 1000)) {
+      return null;
+    }
+
+    return claims as JwtClaims;
+  } catch {
+    return null;
+  }
+}
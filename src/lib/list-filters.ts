@@ -0,0 +1,156 @@
+import type {FilterField} from "@hulkastorus/sdk/contract";
+
+// filter~<field>=<value> query parameters for list endpoints; the syntax is
+// described with the field lists in packages/sdk/src/contract.ts
+
+const FILTER_PREFIX = "filter~";
+
+export type FilterValue = string | number | Date;
+
+export type ListFilter =
+  | {field: string; operator: "eq"; value: FilterValue | null}
+  | {field: string; operator: "in"; values: FilterValue[]}
+  | {field: string; operator: "prefix"; prefix: string}
+  | {field: string; operator: "range"; min: FilterValue | null; max: FilterValue | null};
+
+export type ParseListFiltersResult = {ok: true; filters: ListFilter[]} | {ok: false; error: string};
+
+// Split on unescaped commas, and note whether the value ends in an unescaped "*"
+function splitValue(raw: string): {parts: string[]; prefix: boolean} {
+  const parts = [""];
+  let prefix = false;
+
+  for (let i = 0; i < raw.length; i++) {
+    const char = raw[i];
+    if (char === "\\" && i + 1 < raw.length) {
+      parts[parts.length - 1] += raw[++i];
+    } else if (char === ",") {
+      parts.push("");
+    } else if (char === "*" && i === raw.length - 1) {
+      prefix = true;
+    } else {
+      parts[parts.length - 1] += char;
+    }
+  }
+
+  return {parts, prefix};
+}
+
+// A single value of the field's type, or null if it isn't one
+function parseValue(field: FilterField, raw: string): FilterValue | null {
+  if (field.type === "number") {
+    const value = Number(raw);
+    return raw.trim() !== "" && Number.isFinite(value) ? value : null;
+  }
+
+  if (field.type === "date") {
+    const value = new Date(raw);
+    return raw !== "" && !Number.isNaN(value.getTime()) ? value : null;
+  }
+
+  if (field.values && !field.values.includes(raw)) {
+    return null;
+  }
+  return raw;
+}
+
+function parseFilter(name: string, field: FilterField, raw: string): ListFilter | string {
+  const invalid = `Invalid value "${raw}" for ${FILTER_PREFIX}${name}`;
+
+  if (raw === "" && field.nullable) {
+    return {field: name, operator: "eq", value: null};
+  }
+
+  if (field.type !== "text" && raw.includes("..")) {
+    const [min, max, ...rest] = raw.split("..");
+    const [low, high] = [min, max].map((bound) => (bound === "" ? null : parseValue(field, bound)));
+
+    if (
+      rest.length > 0 ||
+      (min === "" && max === "") ||
+      (min !== "" && low === null) ||
+      (max !== "" && high === null)
+    ) {
+      return invalid;
+    }
+    return {field: name, operator: "range", min: low, max: high};
+  }
+
+  const {parts, prefix} =
+    field.type === "text" ? splitValue(raw) : {parts: raw.split(","), prefix: false};
+  const values = parts.map((part) => parseValue(field, part));
+  if (values.some((value) => value === null)) {
+    return invalid;
+  }
+
+  if (prefix) {
+    // Fields with fixed values have nothing to match a prefix against
+    return field.values || parts.length > 1
+      ? invalid
+      : {field: name, operator: "prefix", prefix: parts[0]};
+  }
+  if (values.length > 1) {
+    return {field: name, operator: "in", values: values as FilterValue[]};
+  }
+  return {field: name, operator: "eq", value: values[0]!};
+}
+
+/**
+ * Parse every filter~<field> parameter against the fields an endpoint allows.
+ * Fields not in `fields` are an error rather than ignored, so a typo can't
+ * quietly return everything. Repeated parameters each apply.
+ */
+export function parseListFilters(
+  searchParams: URLSearchParams,
+  fields: Record<string, FilterField>,
+): ParseListFiltersResult {
+  const filters: ListFilter[] = [];
+
+  for (const [key, raw] of searchParams) {
+    if (!key.startsWith(FILTER_PREFIX)) {
+      continue;
+    }
+
+    const name = key.slice(FILTER_PREFIX.length);
+    if (!Object.hasOwn(fields, name)) {
+      return {ok: false, error: `Unknown filter field "${name}"`};
+    }
+
+    const filter = parseFilter(name, fields[name], raw);
+    if (typeof filter === "string") {
+      return {ok: false, error: filter};
+    }
+    filters.push(filter);
+  }
+
+  return {ok: true, filters};
+}
+
+// The Prisma condition for one filter, e.g. {startsWith: "/docs/"}
+function filterCondition(filter: ListFilter) {
+  switch (filter.operator) {
+    case "eq":
+      return {equals: filter.value};
+    case "in":
+      return {in: filter.values};
+    case "prefix":
+      return {startsWith: filter.prefix};
+    case "range":
+      return {
+        ...(filter.min !== null ? {gte: filter.min} : {}),
+        ...(filter.max !== null ? {lte: filter.max} : {}),
+      };
+  }
+}
+
+/**
+ * Prisma where clauses for filters, one per filter, to AND together. Dotted
+ * fields filter through a relation, e.g. "directory.fullPath".
+ */
+export function buildFilterWhere<Where>(filters: ListFilter[]): Where[] {
+  return filters.map((filter) =>
+    filter.field
+      .split(".")
+      .reduceRight<object>((condition, key) => ({[key]: condition}), filterCondition(filter)),
+  ) as Where[];
+}
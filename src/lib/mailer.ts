@@ -0,0 +1,115 @@
+import crypto from "crypto";
+import fs from "fs/promises";
+import path from "path";
+import nodemailer from "nodemailer";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+  from: string;
+}
+
+export const DEFAULT_MAIL_FROM = "Hulkastorus <noreply@hulkastorus.com>";
+
+/**
+ * Sends mail through an SMTP server (Mailgun, SES, Postmark, etc.)
+ */
+export class SmtpTransport implements MailTransport {
+  private transporter: nodemailer.Transporter;
+  private from: string;
+
+  constructor(config: SmtpConfig) {
+    this.from = config.from;
+    this.transporter = nodemailer.createTransport({
+      host: config.host,
+      port: config.port,
+      secure: config.secure,
+      auth: config.user ? {user: config.user, pass: config.password} : undefined,
+    });
+  }
+
+  async send(message: MailMessage): Promise<void> {
+    await this.transporter.sendMail({from: this.from, ...message});
+  }
+}
+
+/**
+ * Writes each message to a JSON file, so local runs and tests can read the links they contain
+ */
+export class FileTransport implements MailTransport {
+  constructor(
+    private directory: string,
+    private from = DEFAULT_MAIL_FROM,
+  ) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, {recursive: true});
+
+    const filename = `${Date.now()}-${crypto.randomBytes(4).toString("hex")}.json`;
+    const contents = {from: this.from, ...message, sentAt: new Date().toISOString()};
+    await fs.writeFile(path.join(this.directory, filename), JSON.stringify(contents, null, 2));
+  }
+}
+
+/**
+ * Prints messages to the server log instead of sending them
+ */
+export class ConsoleTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`📧 Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+let mailTransportInstance: MailTransport | null = null;
+
+/**
+ * Pick a transport from MAIL_TRANSPORT ("smtp", "file" or "console"). Without it,
+ * SMTP is used when SMTP_HOST is set and the console otherwise.
+ */
+export function getMailTransport(): MailTransport {
+  if (!mailTransportInstance) {
+    const from = process.env.MAIL_FROM || DEFAULT_MAIL_FROM;
+    const transport = process.env.MAIL_TRANSPORT || (process.env.SMTP_HOST ? "smtp" : "console");
+
+    if (transport === "smtp") {
+      if (!process.env.SMTP_HOST) {
+        throw new Error("SMTP_HOST is required when MAIL_TRANSPORT is smtp");
+      }
+
+      const port = parseInt(process.env.SMTP_PORT || "587");
+      mailTransportInstance = new SmtpTransport({
+        host: process.env.SMTP_HOST,
+        port,
+        secure: port === 465,
+        user: process.env.SMTP_USER,
+        password: process.env.SMTP_PASSWORD,
+        from,
+      });
+    } else if (transport === "file") {
+      mailTransportInstance = new FileTransport(process.env.MAIL_FILE_DIR || ".mail", from);
+    } else {
+      mailTransportInstance = new ConsoleTransport();
+    }
+  }
+
+  return mailTransportInstance;
+}
+
+// For testing: reset the singleton
+export function resetMailTransport(): void {
+  mailTransportInstance = null;
+}
@@ -0,0 +1,1406 @@
+import {z} from "zod";
+import {
+  DEFAULT_SHARE_TOKEN_TTL_SECONDS,
+  apiKeyFilterFields,
+  apiKeyListResponseSchema,
+  apiKeySchema,
+  archiveQuerySchema,
+  completeMultipartSchema,
+  completedMultipartUploadSchema,
+  createApiKeySchema,
+  createDirectorySchema,
+  createFileSchema,
+  createShareTokenSchema,
+  createUserSchema,
+  createdApiKeySchema,
+  createdShareTokenSchema,
+  deleteUserSchema,
+  deletedDirectorySchema,
+  directoryDetailsSchema,
+  directoryFilterFields,
+  directoryListItemSchema,
+  directoryListPageSchema,
+  directoryListResponseSchema,
+  directorySchema,
+  errorResponseSchema,
+  fileDetailsSchema,
+  fileFilterFields,
+  fileListItemSchema,
+  fileListPageSchema,
+  fileListResponseSchema,
+  fileSearchResponseSchema,
+  fileSnippetsResponseSchema,
+  fileSummarySchema,
+  importFileSchema,
+  importJobSchema,
+  inviteCodeListResponseSchema,
+  inviteCodeSchema,
+  listDirectoriesSchema,
+  listFilesQuerySchema,
+  messageResponseSchema,
+  multipartUploadSchema,
+  paginationSchema,
+  quotaExceededDetailsSchema,
+  reservedFileSchema,
+  searchFilesQuerySchema,
+  shareTokenListResponseSchema,
+  shareTokenSchema,
+  signPartsSchema,
+  signedPartsResponseSchema,
+  updateDirectorySchema,
+  updateFileSchema,
+  updateFileStatusSchema,
+  updatePasswordSchema,
+  updateUserSchema,
+  updatedDirectorySchema,
+  updatedFileSchema,
+  uploadedPartsResponseSchema,
+  usageSchema,
+  userSchema,
+  verifyEmailSchema,
+  type ApiKey,
+  type Directory,
+  type FileSummary,
+  type FilterField,
+  type FilterFieldType,
+  type ImportJob,
+  type ShareToken,
+  type User,
+} from "@hulkastorus/sdk/contract";
+import {describeImportLimit} from "@/lib/remote-import";
+
+// The OpenAPI 3.1 description of /api/v1, built from the contract's zod schemas.
+// Served at /api/v1/openapi.json and rendered on /docs.
+
+export type HttpMethod = "get" | "post" | "put" | "delete";
+
+// read/write: a session, or an API key with that scope. optional: public
+// resources and share links work without credentials. none: no credentials.
+export type OperationAuth = "read" | "write" | "optional" | "none";
+
+export interface ApiResponse {
+  description: string;
+  schema?: z.ZodType;
+  example?: unknown;
+  // Defaults to application/json when there is a schema
+  contentTypes?: string[];
+  headers?: Record<string, string>;
+}
+
+export interface ApiOperation {
+  method: HttpMethod;
+  // OpenAPI style, e.g. /api/v1/files/{id}
+  path: string;
+  tag: string;
+  summary: string;
+  description?: string;
+  auth: OperationAuth;
+  query?: z.ZodObject;
+  // Fields the operation takes as filter~<field> query parameters
+  filters?: Record<string, FilterField>;
+  headers?: Record<string, string>;
+  body?: z.ZodType;
+  bodyExample?: unknown;
+  responses: Record<number, ApiResponse>;
+}
+
+// Request and response schemas published under #/components/schemas
+export const componentSchemas: Record<string, z.ZodType> = {
+  CreateFileInput: createFileSchema,
+  UpdateFileInput: updateFileSchema,
+  UpdateFileStatusInput: updateFileStatusSchema,
+  SignPartsInput: signPartsSchema,
+  CompleteMultipartInput: completeMultipartSchema,
+  ImportFileInput: importFileSchema,
+  CreateDirectoryInput: createDirectorySchema,
+  UpdateDirectoryInput: updateDirectorySchema,
+  CreateApiKeyInput: createApiKeySchema,
+  CreateShareTokenInput: createShareTokenSchema,
+  CreateUserInput: createUserSchema,
+  UpdateUserInput: updateUserSchema,
+  DeleteUserInput: deleteUserSchema,
+  UpdatePasswordInput: updatePasswordSchema,
+  VerifyEmailInput: verifyEmailSchema,
+  ErrorResponse: errorResponseSchema,
+  MessageResponse: messageResponseSchema,
+  QuotaExceededDetails: quotaExceededDetailsSchema,
+  FileSummary: fileSummarySchema,
+  FileListItem: fileListItemSchema,
+  Pagination: paginationSchema,
+  FileListResponse: fileListResponseSchema,
+  FileListPage: fileListPageSchema,
+  FileSearchResponse: fileSearchResponseSchema,
+  FileDetails: fileDetailsSchema,
+  UpdatedFile: updatedFileSchema,
+  ReservedFile: reservedFileSchema,
+  MultipartUpload: multipartUploadSchema,
+  SignedPartsResponse: signedPartsResponseSchema,
+  UploadedPartsResponse: uploadedPartsResponseSchema,
+  CompletedMultipartUpload: completedMultipartUploadSchema,
+  FileSnippetsResponse: fileSnippetsResponseSchema,
+  ImportJob: importJobSchema,
+  Directory: directorySchema,
+  DirectoryListItem: directoryListItemSchema,
+  DirectoryListResponse: directoryListResponseSchema,
+  DirectoryListPage: directoryListPageSchema,
+  DirectoryDetails: directoryDetailsSchema,
+  UpdatedDirectory: updatedDirectorySchema,
+  DeletedDirectory: deletedDirectorySchema,
+  ApiKey: apiKeySchema,
+  ApiKeyListResponse: apiKeyListResponseSchema,
+  CreatedApiKey: createdApiKeySchema,
+  ShareToken: shareTokenSchema,
+  ShareTokenListResponse: shareTokenListResponseSchema,
+  CreatedShareToken: createdShareTokenSchema,
+  User: userSchema,
+  Usage: usageSchema,
+  InviteCode: inviteCodeSchema,
+  InviteCodeListResponse: inviteCodeListResponseSchema,
+};
+
+// Examples
+
+const createdAt = "2026-03-02T09:30:00.000Z";
+const updatedAt = "2026-03-02T09:31:12.000Z";
+
+const exampleFile: FileSummary = {
+  id: "V1StGXR8_Z5jdHi6",
+  filename: "q1-report.pdf",
+  fullPath: "/reports/q1-report.pdf",
+  mimeType: "application/pdf",
+  sizeBytes: 482133,
+  permissions: "inherit",
+  effectivePermissions: "private",
+  status: "validated",
+  expirationPolicy: "infinite",
+  expiresAt: null,
+  createdAt,
+  updatedAt,
+};
+
+const exampleDirectory: Directory = {
+  id: "Uakgb_J5m9g-0JDM",
+  fullPath: "/reports",
+  parentId: null,
+  defaultPermissions: "private",
+  effectivePermissions: "private",
+  defaultExpirationPolicy: "infinite",
+  fileCount: 12,
+  subdirectoryCount: 2,
+  createdAt,
+  updatedAt,
+};
+
+const exampleApiKey: ApiKey = {
+  id: "key_7Hq2xLd9",
+  label: "CI uploads",
+  permissions: "write",
+  lastUsedAt: updatedAt,
+  expiresAt: null,
+  createdAt,
+  updatedAt,
+};
+
+const exampleShareToken: ShareToken = {
+  id: "tok_4Gz81Lq0",
+  fileId: exampleFile.id,
+  directoryId: null,
+  maxDownloads: 10,
+  downloadCount: 0,
+  expiresAt: "2026-03-09T09:30:00.000Z",
+  revokedAt: null,
+  createdAt,
+};
+
+const exampleUser: User = {
+  id: "usr_9sKd02Lm",
+  email: "ada@example.com",
+  firstName: "Ada",
+  lastName: "Lovelace",
+  isEmailVerified: true,
+  plan: "free",
+  quotaBytes: 10737418240,
+  createdAt,
+  updatedAt,
+};
+
+const exampleImportJob: ImportJob = {
+  id: "imp_2kLx91Qa",
+  fileId: exampleFile.id,
+  sourceUrl: "https://example.com/data/q1-report.pdf",
+  status: "running",
+  bytesReceived: 131072,
+  totalBytes: 482133,
+  error: null,
+  createdAt,
+  updatedAt,
+  completedAt: null,
+};
+
+const exampleUploadUrl = "https://bucket.r2.cloudflarestorage.com/files/V1StGXR8_Z5jdHi6?X-Amz-...";
+
+const exampleSnippets = {
+  bash: `curl -L -o q1-report.pdf "https://hulkastor.us/d/${exampleFile.id}"`,
+  powershell: `Invoke-WebRequest -Uri "https://hulkastor.us/d/${exampleFile.id}" -OutFile "q1-report.pdf"`,
+  python: `import requests\n\nresponse = requests.get("https://hulkastor.us/d/${exampleFile.id}")`,
+};
+
+// Responses shared across operations
+
+function error(description: string, message = description): ApiResponse {
+  return {description, schema: errorResponseSchema, example: {error: message}};
+}
+
+function message(description: string, text: string): ApiResponse {
+  return {description, schema: messageResponseSchema, example: {message: text}};
+}
+
+const validationError: ApiResponse = {
+  description: "The request failed validation",
+  schema: errorResponseSchema,
+  example: {
+    error: "Validation error",
+    details: [
+      {code: "too_small", minimum: 1, origin: "string", path: ["filename"], message: "Too small"},
+    ],
+  },
+};
+
+const invalidFilter = error(
+  "A filter~ parameter names an unknown field or has an invalid value",
+  'Unknown filter field "owner"',
+);
+
+const passwordRequired: ApiResponse = {
+  ...error("An access password is required or was wrong", "Password required"),
+  headers: {"WWW-Authenticate": "Basic challenge for the access password"},
+};
+
+const noMultipartUpload = error(
+  "The file has no multipart upload in progress",
+  "No multipart upload in progress",
+);
+
+const accessPasswordHeaders = {
+  "X-Access-Password":
+    "Access password for protected files; HTTP Basic auth with any username also works",
+};
+
+export const operations: ApiOperation[] = [
+  // Files
+  {
+    method: "post",
+    path: "/api/v1/files",
+    tag: "Files",
+    summary: "Reserve a file",
+    description:
+      "Creates the file record and returns a presigned URL. PUT the bytes to uploadUrl, then mark the file uploaded.",
+    auth: "write",
+    body: createFileSchema,
+    bodyExample: {
+      filename: "q1-report.pdf",
+      mimeType: "application/pdf",
+      sizeBytes: 482133,
+      fullPath: "/reports/q1-report.pdf",
+    },
+    responses: {
+      200: {
+        description: "The file was reserved",
+        schema: reservedFileSchema,
+        example: {
+          id: exampleFile.id,
+          uploadUrl: exampleUploadUrl,
+          filename: exampleFile.filename,
+          fullPath: exampleFile.fullPath,
+          expirationPolicy: "infinite",
+          permissions: "inherit",
+          effectivePermissions: "private",
+          expiresAt: null,
+          status: "reserved",
+        },
+      },
+      400: validationError,
+      403: error("The user's email address isn't verified", "Email verification required"),
+      404: error("The user no longer exists", "User not found"),
+      413: {
+        description: "The file would go over the user's storage quota",
+        schema: errorResponseSchema,
+        example: {
+          error: "Storage quota exceeded",
+          details: {quotaBytes: 10737418240, usedBytes: 10737000000, requestedBytes: 482133},
+        },
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/files",
+    tag: "Files",
+    summary: "List files",
+    description:
+      "filter~permissions matches effective permissions, so inheriting files count as public or private. filter~directory.fullPath lists exactly the files in one directory. " +
+      "With a cursor the response is a FileListPage instead, without a total: send an empty cursor for the first page, then each page's nextCursor.",
+    auth: "read",
+    query: listFilesQuerySchema,
+    filters: fileFilterFields,
+    responses: {
+      200: {
+        description: "A page of files, by offset or by cursor",
+        schema: z.union([fileListResponseSchema, fileListPageSchema]),
+        example: {
+          files: [{...exampleFile, directory: {fullPath: "/reports"}}],
+          pagination: {total: 1, limit: 10, offset: 0, hasMore: false},
+        },
+      },
+      400: {
+        ...invalidFilter,
+        description: "limit, offset, a filter~ parameter or the cursor is invalid",
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/files/search",
+    tag: "Files",
+    summary: "Search files",
+    description:
+      "q is a list of space-separated terms that must all match: filename text (`report`) or a glob (`*.csv`), " +
+      "`type:image|video|audio|model|dataset|document|other`, `size:>100MB` (also >=, <, <=, =), " +
+      "`expires:<7d` or `expires:>30d` or `expires:never` (h, d, w, y), `status:validated`, " +
+      "`public` or `private`, and a path prefix (`/reports`). Quote a term to search for it as text. " +
+      "Results are newest first; pass nextCursor as cursor for the next page.",
+    auth: "read",
+    query: searchFilesQuerySchema,
+    responses: {
+      200: {
+        description: "A page of matching files",
+        schema: fileSearchResponseSchema,
+        example: {
+          files: [{...exampleFile, directory: {fullPath: "/reports"}}],
+          nextCursor: "WyIyMDI2LTAzLTAyVDA5OjMwOjAwLjAwMFoiLCJWMVN0R1hSOF9aNWpkSGk2Il0",
+        },
+      },
+      400: error("The query or cursor is invalid", 'Invalid size "big", e.g. size:>100MB'),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/files/{id}",
+    tag: "Files",
+    summary: "Get a file",
+    description: "Public files can be read by anyone; their owner's name is included.",
+    auth: "read",
+    responses: {
+      200: {
+        description: "The file",
+        schema: fileDetailsSchema,
+        example: {
+          ...exampleFile,
+          hasAccessPassword: false,
+          directoryId: exampleDirectory.id,
+          directory: {
+            id: exampleDirectory.id,
+            fullPath: exampleDirectory.fullPath,
+            defaultPermissions: "private",
+            defaultExpirationPolicy: "infinite",
+          },
+          downloadUrl: `/api/v1/files/${exampleFile.id}/download`,
+        },
+      },
+      404: error("The file doesn't exist or isn't yours", "File not found"),
+    },
+  },
+  {
+    method: "put",
+    path: "/api/v1/files/{id}",
+    tag: "Files",
+    summary: "Update a file",
+    description: "Rename, move, change permissions or expiration, or set an access password.",
+    auth: "write",
+    body: updateFileSchema,
+    bodyExample: {filename: "q1-final.pdf", permissions: "public"},
+    responses: {
+      200: {
+        description: "The updated file",
+        schema: updatedFileSchema,
+        example: {
+          ...exampleFile,
+          filename: "q1-final.pdf",
+          fullPath: "/reports/q1-final.pdf",
+          permissions: "public",
+          effectivePermissions: "public",
+          hasAccessPassword: false,
+          directoryId: exampleDirectory.id,
+          directory: {fullPath: "/reports"},
+        },
+      },
+      400: validationError,
+      404: error("The file or the target directory doesn't exist", "File not found"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/files/{id}",
+    tag: "Files",
+    summary: "Delete a file",
+    auth: "write",
+    responses: {
+      200: message("The file and its stored object were deleted", "File deleted successfully"),
+      404: error("The file doesn't exist or isn't yours", "File not found"),
+    },
+  },
+  {
+    method: "put",
+    path: "/api/v1/files/{id}/status",
+    tag: "Files",
+    summary: "Mark a file uploaded",
+    description:
+      "Call after the PUT to uploadUrl succeeds. The stored object is checked and the file validated.",
+    auth: "write",
+    body: updateFileStatusSchema,
+    bodyExample: {status: "uploaded"},
+    responses: {
+      200: {
+        description: "The validated file",
+        schema: updatedFileSchema,
+        example: {
+          ...exampleFile,
+          hasAccessPassword: false,
+          directoryId: exampleDirectory.id,
+          directory: {fullPath: "/reports"},
+        },
+      },
+      400: error(
+        "The object is missing from storage or the body is invalid",
+        "File not found in storage",
+      ),
+      404: error("The file isn't reserved", "File not found or not in reserved status"),
+      413: error("The uploaded object would go over the quota", "Storage quota exceeded"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/files/{id}/download",
+    tag: "Files",
+    summary: "Download a file",
+    description:
+      "Redirects to a short-lived storage URL. Private files need credentials or a share token.",
+    auth: "optional",
+    query: z.object({
+      token: z.string().optional().describe("Share token from POST /api/v1/share-tokens"),
+    }),
+    headers: accessPasswordHeaders,
+    responses: {
+      307: {
+        description: "Redirect to the file's contents",
+        headers: {Location: "Presigned storage URL"},
+      },
+      401: passwordRequired,
+      404: error("The file doesn't exist or the caller can't read it", "File not found"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/files/{id}/snippets",
+    tag: "Files",
+    summary: "Get download and upload snippets",
+    auth: "read",
+    responses: {
+      200: {
+        description: "curl, PowerShell and Python snippets for the file",
+        schema: fileSnippetsResponseSchema,
+        example: {
+          fileId: exampleFile.id,
+          effectivePermissions: "public",
+          snippets: {
+            download: exampleSnippets,
+            authenticatedDownload: exampleSnippets,
+            upload: exampleSnippets,
+          },
+        },
+      },
+      404: error("The file doesn't exist or isn't yours", "File not found"),
+    },
+  },
+
+  // Multipart uploads
+  {
+    method: "post",
+    path: "/api/v1/files/{id}/multipart",
+    tag: "Multipart uploads",
+    summary: "Start a multipart upload",
+    description: "Returns 200 with the existing upload when one is already in progress.",
+    auth: "write",
+    responses: {
+      200: {
+        description: "The upload already in progress",
+        schema: multipartUploadSchema,
+        example: {id: exampleFile.id, uploadId: "2~abc", partSize: 10485760, partCount: 3},
+      },
+      201: {
+        description: "A new upload",
+        schema: multipartUploadSchema,
+        example: {id: exampleFile.id, uploadId: "2~abc", partSize: 10485760, partCount: 3},
+      },
+      400: error("The file has no size or storage location", "File has no R2 locator"),
+      404: error("The file isn't reserved", "File not found or not in reserved status"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/files/{id}/multipart",
+    tag: "Multipart uploads",
+    summary: "Abort a multipart upload",
+    auth: "write",
+    responses: {
+      200: message("Uploaded parts were discarded", "Multipart upload aborted"),
+      404: noMultipartUpload,
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/files/{id}/multipart/parts",
+    tag: "Multipart uploads",
+    summary: "List uploaded parts",
+    description: "Use it to resume an interrupted upload.",
+    auth: "read",
+    responses: {
+      200: {
+        description: "Parts stored so far",
+        schema: uploadedPartsResponseSchema,
+        example: {
+          id: exampleFile.id,
+          uploadId: "2~abc",
+          parts: [{partNumber: 1, etag: '"5d41402abc4b2a76b9719d911017c592"', size: 10485760}],
+        },
+      },
+      400: error("The file's storage location is invalid", "Invalid R2 locator format"),
+      404: noMultipartUpload,
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/files/{id}/multipart/parts",
+    tag: "Multipart uploads",
+    summary: "Sign part upload URLs",
+    auth: "write",
+    body: signPartsSchema,
+    bodyExample: {partNumbers: [1, 2, 3]},
+    responses: {
+      200: {
+        description: "A presigned PUT URL per part",
+        schema: signedPartsResponseSchema,
+        example: {
+          id: exampleFile.id,
+          uploadId: "2~abc",
+          parts: [{partNumber: 1, uploadUrl: exampleUploadUrl}],
+        },
+      },
+      400: validationError,
+      404: noMultipartUpload,
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/files/{id}/multipart/complete",
+    tag: "Multipart uploads",
+    summary: "Complete a multipart upload",
+    auth: "write",
+    body: completeMultipartSchema,
+    bodyExample: {
+      parts: [
+        {partNumber: 1, etag: '"5d41402abc4b2a76b9719d911017c592"'},
+        {partNumber: 2, etag: '"7d793037a0760186574b0282f2f435e7"'},
+      ],
+    },
+    responses: {
+      200: {
+        description: "The parts were assembled and the file validated",
+        schema: completedMultipartUploadSchema,
+        example: {id: exampleFile.id, status: "validated", partCount: 2},
+      },
+      400: validationError,
+      404: noMultipartUpload,
+    },
+  },
+
+  // Imports
+  {
+    method: "post",
+    path: "/api/v1/files/import",
+    tag: "Imports",
+    summary: "Import a file from a URL",
+    description:
+      "The download runs in the background; poll the returned job. " +
+      `Files over ${describeImportLimit()} fail, with the limit in the job's error.`,
+    auth: "write",
+    body: importFileSchema,
+    bodyExample: {url: exampleImportJob.sourceUrl, fullPath: "/reports/q1-report.pdf"},
+    responses: {
+      202: {
+        description: "The import was queued",
+        schema: importJobSchema,
+        example: {...exampleImportJob, status: "pending", bytesReceived: 0, totalBytes: null},
+      },
+      400: error("The URL is invalid or points at a private address", "Validation error"),
+      403: error("The user's email address isn't verified", "Email verification required"),
+      404: error("The user no longer exists", "User not found"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/files/import/{id}",
+    tag: "Imports",
+    summary: "Get an import job",
+    auth: "read",
+    responses: {
+      200: {description: "The job's progress", schema: importJobSchema, example: exampleImportJob},
+      404: error("The job doesn't exist or isn't yours", "Import not found"),
+    },
+  },
+
+  // Directories
+  {
+    method: "post",
+    path: "/api/v1/directories",
+    tag: "Directories",
+    summary: "Create a directory",
+    description: "Missing parent directories are created too.",
+    auth: "write",
+    body: createDirectorySchema,
+    bodyExample: {fullPath: "/reports", defaultPermissions: "private"},
+    responses: {
+      201: {description: "The new directory", schema: directorySchema, example: exampleDirectory},
+      400: error("The path is invalid", "Invalid path"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/directories",
+    tag: "Directories",
+    summary: "List directories",
+    auth: "read",
+    query: listDirectoriesSchema,
+    filters: directoryFilterFields,
+    responses: {
+      200: {
+        description:
+          "Directories under the given parent or path; a DirectoryListPage with a cursor",
+        schema: z.union([directoryListResponseSchema, directoryListPageSchema]),
+        example: {directories: [{...exampleDirectory, parent: null}], total: 1},
+      },
+      400: {
+        ...validationError,
+        description: "The query failed validation, or a filter~ parameter or the cursor is invalid",
+      },
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/directories/{id}",
+    tag: "Directories",
+    summary: "Get a directory",
+    auth: "read",
+    responses: {
+      200: {
+        description: "The directory with its children and files",
+        schema: directoryDetailsSchema,
+        example: {
+          ...exampleDirectory,
+          parent: null,
+          hasAccessPassword: false,
+          children: [
+            {
+              id: "dir_Qm2k81Lz",
+              fullPath: "/reports/2026",
+              defaultPermissions: "inherit",
+              effectivePermissions: "private",
+              fileCount: 4,
+              subdirectoryCount: 0,
+            },
+          ],
+          files: [exampleFile],
+        },
+      },
+      404: error("The directory doesn't exist or isn't yours", "Directory not found"),
+    },
+  },
+  {
+    method: "put",
+    path: "/api/v1/directories/{id}",
+    tag: "Directories",
+    summary: "Update a directory",
+    description: "Moving a directory moves everything under it.",
+    auth: "write",
+    body: updateDirectorySchema,
+    bodyExample: {fullPath: "/archive/reports"},
+    responses: {
+      200: {
+        description: "The updated directory",
+        schema: updatedDirectorySchema,
+        example: {...exampleDirectory, fullPath: "/archive/reports", hasAccessPassword: false},
+      },
+      400: validationError,
+      404: error("The directory or new parent doesn't exist", "Directory not found"),
+      409: error("Another directory already has the path", "Directory already exists at this path"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/directories/{id}",
+    tag: "Directories",
+    summary: "Delete a directory",
+    description: "Deletes the directory's files. Subdirectories must be deleted first.",
+    auth: "write",
+    responses: {
+      200: {
+        description: "The directory was deleted",
+        schema: deletedDirectorySchema,
+        example: {message: "Directory deleted successfully", deletedFiles: 12},
+      },
+      400: {
+        description: "The directory still has subdirectories",
+        schema: errorResponseSchema,
+        example: {
+          error: "Directory is not empty",
+          details: "Please delete all subdirectories first",
+        },
+      },
+      404: error("The directory doesn't exist or isn't yours", "Directory not found"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/directories/{id}/archive",
+    tag: "Directories",
+    summary: "Download a directory as an archive",
+    description: "Streams every file the caller can read under the directory.",
+    auth: "optional",
+    query: archiveQuerySchema,
+    headers: accessPasswordHeaders,
+    responses: {
+      200: {
+        description: "The archive",
+        contentTypes: ["application/zip", "application/gzip"],
+        headers: {"Content-Disposition": 'attachment; filename="reports.zip"'},
+      },
+      400: validationError,
+      401: passwordRequired,
+      404: error("The directory doesn't exist or the caller can't read it", "Directory not found"),
+    },
+  },
+
+  // API keys
+  {
+    method: "get",
+    path: "/api/v1/api-keys",
+    tag: "API keys",
+    summary: "List API keys",
+    description: "Requires a session; API keys can't manage API keys.",
+    auth: "read",
+    filters: apiKeyFilterFields,
+    responses: {
+      200: {
+        description: "The user's keys, without the keys themselves",
+        schema: apiKeyListResponseSchema,
+        example: {apiKeys: [exampleApiKey]},
+      },
+      400: invalidFilter,
+      403: error("Called with an API key", "API keys cannot manage API keys"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/api-keys",
+    tag: "API keys",
+    summary: "Create an API key",
+    description: "The key is only returned here. Requires a session.",
+    auth: "write",
+    body: createApiKeySchema,
+    bodyExample: {label: "CI uploads", permissions: "write"},
+    responses: {
+      201: {
+        description: "The new key",
+        schema: createdApiKeySchema,
+        example: {...exampleApiKey, lastUsedAt: null, key: "hulk_2f8YqL0w3nVd6bRk1sXe9TzUaP4cMh7G"},
+      },
+      400: validationError,
+      403: error("Called with an API key", "API keys cannot manage API keys"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/api-keys/{id}",
+    tag: "API keys",
+    summary: "Delete an API key",
+    auth: "write",
+    responses: {
+      200: message("The key no longer works", "API key deleted successfully"),
+      403: error("Called with an API key", "API keys cannot manage API keys"),
+      404: error("The key doesn't exist or isn't yours", "API key not found"),
+    },
+  },
+
+  // Share tokens
+  {
+    method: "get",
+    path: "/api/v1/share-tokens",
+    tag: "Share tokens",
+    summary: "List share tokens",
+    auth: "read",
+    responses: {
+      200: {
+        description: "The user's share tokens, without the tokens themselves",
+        schema: shareTokenListResponseSchema,
+        example: {shareTokens: [exampleShareToken]},
+      },
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/share-tokens",
+    tag: "Share tokens",
+    summary: "Create a share token",
+    description: `Grants download access to one file or directory. Expires after ${DEFAULT_SHARE_TOKEN_TTL_SECONDS / 86400} days unless expiresIn is set.`,
+    auth: "write",
+    body: createShareTokenSchema,
+    bodyExample: {fileId: exampleFile.id, expiresIn: 604800, maxDownloads: 10},
+    responses: {
+      201: {
+        description: "The new token",
+        schema: createdShareTokenSchema,
+        example: {
+          ...exampleShareToken,
+          token: "st_Yk3mQ9xLr2Pv8bWn",
+          url: `https://hulkastor.us/d/${exampleFile.id}?token=st_Yk3mQ9xLr2Pv8bWn`,
+        },
+      },
+      400: validationError,
+      404: error("The file or directory doesn't exist or isn't yours", "File not found"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/share-tokens/{id}",
+    tag: "Share tokens",
+    summary: "Revoke a share token",
+    auth: "write",
+    responses: {
+      200: message("The token no longer works", "Share token revoked"),
+      404: error("The token doesn't exist or isn't yours", "Share token not found"),
+    },
+  },
+
+  // Users
+  {
+    method: "post",
+    path: "/api/v1/users",
+    tag: "Users",
+    summary: "Register",
+    description: "Needs an invite code. A verification email is sent to the new address.",
+    auth: "none",
+    body: createUserSchema,
+    bodyExample: {
+      email: "ada@example.com",
+      password: "correct horse",
+      firstName: "Ada",
+      lastName: "Lovelace",
+      inviteCode: "WELCOME-2026",
+    },
+    responses: {
+      201: {
+        description: "The new user",
+        schema: userSchema,
+        example: {...exampleUser, isEmailVerified: false},
+      },
+      400: error("Invalid body or invite code, or the email is taken", "Email already exists"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/users/{id}",
+    tag: "Users",
+    summary: "Get a user",
+    description: "Users can only read themselves.",
+    auth: "read",
+    responses: {
+      200: {description: "The user", schema: userSchema, example: exampleUser},
+      404: error("Not the caller's own id", "User not found"),
+    },
+  },
+  {
+    method: "put",
+    path: "/api/v1/users/{id}",
+    tag: "Users",
+    summary: "Update a user",
+    description: "Changing the email needs currentPassword and sends a new verification email.",
+    auth: "write",
+    body: updateUserSchema,
+    bodyExample: {firstName: "Augusta"},
+    responses: {
+      200: {
+        description: "The updated user",
+        schema: userSchema,
+        example: {...exampleUser, firstName: "Augusta"},
+      },
+      400: validationError,
+      403: error(
+        "The current password is wrong, or called with an API key",
+        "Current password is incorrect",
+      ),
+      404: error("Not the caller's own id", "User not found"),
+    },
+  },
+  {
+    method: "delete",
+    path: "/api/v1/users/{id}",
+    tag: "Users",
+    summary: "Delete a user",
+    description: "Deletes the account and every file it owns.",
+    auth: "write",
+    body: deleteUserSchema,
+    bodyExample: {password: "correct horse"},
+    responses: {
+      200: message("The account was deleted", "User deleted successfully"),
+      400: validationError,
+      403: error("The password is wrong, or called with an API key", "Password is incorrect"),
+      404: error("Not the caller's own id", "User not found"),
+    },
+  },
+  {
+    method: "put",
+    path: "/api/v1/users/{id}/password",
+    tag: "Users",
+    summary: "Change password",
+    auth: "write",
+    body: updatePasswordSchema,
+    bodyExample: {currentPassword: "correct horse", newPassword: "battery staple"},
+    responses: {
+      200: message("The password was changed", "Password updated"),
+      400: validationError,
+      403: error(
+        "The current password is wrong, or called with an API key",
+        "Current password is incorrect",
+      ),
+      404: error("Not the caller's own id", "User not found"),
+    },
+  },
+  {
+    method: "post",
+    path: "/api/v1/users/{id}/email-verification",
+    tag: "Users",
+    summary: "Resend the verification email",
+    auth: "write",
+    responses: {
+      200: message(
+        "An email was sent, or the address is already verified",
+        "Verification email sent",
+      ),
+      404: error("Not the caller's own id", "User not found"),
+    },
+  },
+  {
+    method: "put",
+    path: "/api/v1/users/{id}/email-verification",
+    tag: "Users",
+    summary: "Verify an email address",
+    description: "Uses the token from the verification email's link.",
+    auth: "none",
+    body: verifyEmailSchema,
+    bodyExample: {token: "b3f1c2d4e5a6"},
+    responses: {
+      200: message("The address is verified", "Email verified"),
+      400: error("The token is invalid or has expired", "Invalid or expired verification token"),
+    },
+  },
+  {
+    method: "get",
+    path: "/api/v1/users/{id}/usage",
+    tag: "Users",
+    summary: "Get storage usage",
+    auth: "read",
+    responses: {
+      200: {
+        description: "File counts and bytes stored by type",
+        schema: usageSchema,
+        example: {
+          file_counts: {
+            total: 14,
+            images: 6,
+            videos: 1,
+            audios: 0,
+            models: 2,
+            datasets: 3,
+            documents: 2,
+            other: 0,
+          },
+          byte_counts: {
+            total: 734003200,
+            images: 12582912,
+            videos: 524288000,
+            audios: 0,
+            models: 167772160,
+            datasets: 28311552,
+            documents: 1048576,
+            other: 0,
+          },
+          quota_bytes: 10737418240,
+        },
+      },
+      404: error("Not the caller's own id", "User not found"),
+    },
+  },
+
+  // Invite codes
+  {
+    method: "get",
+    path: "/api/v1/invite-codes",
+    tag: "Invite codes",
+    summary: "List invite codes",
+    description: "Codes the user can hand out.",
+    auth: "read",
+    responses: {
+      200: {
+        description: "The user's invite codes",
+        schema: inviteCodeListResponseSchema,
+        example: {
+          inviteCodes: [
+            {
+              id: "inv_5Tq0pLm2",
+              code: "HULK-7K2M-Q9XP",
+              maxUses: 5,
+              useCount: 1,
+              remainingUses: 4,
+              expiresAt: null,
+              createdAt,
+            },
+          ],
+        },
+      },
+    },
+  },
+
+  // Reference
+  {
+    method: "get",
+    path: "/api/v1/openapi.json",
+    tag: "Reference",
+    summary: "Get this document",
+    auth: "none",
+    responses: {
+      200: {description: "The OpenAPI 3.1 document", contentTypes: ["application/json"]},
+    },
+  },
+];
+
+// The parts of an OpenAPI document built here
+
+export type JsonSchema = Record<string, unknown>;
+
+export interface OpenApiParameter {
+  name: string;
+  in: "path" | "query" | "header";
+  required: boolean;
+  description?: string;
+  schema: JsonSchema;
+}
+
+export interface OpenApiMediaType {
+  schema: JsonSchema;
+  example?: unknown;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  headers?: Record<string, {description: string; schema: JsonSchema}>;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  tags: string[];
+  summary: string;
+  description?: string;
+  operationId: string;
+  security: Record<string, string[]>[];
+  "x-permission"?: "read" | "write";
+  parameters: OpenApiParameter[];
+  requestBody?: {required: true; content: Record<string, OpenApiMediaType>};
+  responses: Record<string, OpenApiResponse>;
+}
+
+export interface OpenApiDocument {
+  openapi: "3.1.0";
+  info: {title: string; version: string; description: string};
+  servers: {url: string}[];
+  tags: {name: string}[];
+  paths: Record<string, Partial<Record<HttpMethod, OpenApiOperation>>>;
+  components: {
+    schemas: Record<string, JsonSchema>;
+    securitySchemes: Record<string, Record<string, string>>;
+  };
+}
+
+const componentIds = new Map<z.ZodType, string>(
+  Object.entries(componentSchemas).map(([id, schema]) => [schema, id]),
+);
+
+const JSON_SCHEMA_OPTIONS = {io: "input", unrepresentable: "any"} as const;
+
+// zod bounds every int by the safe integer range; that's noise in a reference
+function isSafeIntegerBound(key: string, value: unknown): boolean {
+  return (
+    (key === "minimum" || key === "maximum") &&
+    Math.abs(value as number) === Number.MAX_SAFE_INTEGER
+  );
+}
+
+// Drop what readers of the document don't need: the $schema and $id zod adds to
+// each schema, regexes that only restate a format, and safe integer bounds
+function tidy<T>(value: T): T {
+  if (Array.isArray(value)) {
+    return value.map(tidy) as T;
+  }
+  if (!value || typeof value !== "object") {
+    return value;
+  }
+
+  const result: JsonSchema = {};
+  for (const [key, child] of Object.entries(value)) {
+    if (key === "$schema" || key === "$id" || isSafeIntegerBound(key, child)) continue;
+    if (key === "pattern" && "format" in value) continue;
+    result[key] = tidy(child);
+  }
+  return result as T;
+}
+
+// A $ref for component schemas, the schema itself for anything else
+function schemaFor(schema: z.ZodType): JsonSchema {
+  const id = componentIds.get(schema);
+  if (id) {
+    return {$ref: `#/components/schemas/${id}`};
+  }
+  return tidy(z.toJSONSchema(schema, JSON_SCHEMA_OPTIONS) as JsonSchema);
+}
+
+// How each type of filter~ value can be written
+const FILTER_DESCRIPTIONS: Record<FilterFieldType, string> = {
+  text: 'An exact value, "a,b" for any of several, or "prefix*"; "\\" escapes "," and "*"',
+  number: 'An exact value, "a,b" for any of several, or an inclusive range "min..max"',
+  date: 'An ISO 8601 date or time, or an inclusive range "from..to" with either end left open',
+};
+
+function buildParameters(operation: ApiOperation): OpenApiParameter[] {
+  const parameters: OpenApiParameter[] = [];
+
+  for (const [, name] of operation.path.matchAll(/\{(\w+)\}/g)) {
+    parameters.push({name, in: "path", required: true, schema: {type: "string"}});
+  }
+
+  if (operation.query) {
+    const {properties = {}, required = []} = schemaFor(operation.query) as {
+      properties?: Record<string, JsonSchema>;
+      required?: string[];
+    };
+    for (const [name, {description, ...schema}] of Object.entries(properties)) {
+      parameters.push({
+        name,
+        in: "query",
+        required: required.includes(name),
+        ...(typeof description === "string" ? {description} : {}),
+        schema,
+      });
+    }
+  }
+
+  for (const [field, {type, values, nullable}] of Object.entries(operation.filters ?? {})) {
+    parameters.push({
+      name: `filter~${field}`,
+      in: "query",
+      required: false,
+      description:
+        FILTER_DESCRIPTIONS[type] +
+        (values ? `; one of ${values.join(", ")}` : "") +
+        (nullable ? "; empty for unset" : ""),
+      schema: {type: "string"},
+    });
+  }
+
+  for (const [name, description] of Object.entries(operation.headers ?? {})) {
+    parameters.push({name, in: "header", required: false, description, schema: {type: "string"}});
+  }
+
+  return parameters;
+}
+
+function buildResponse(response: ApiResponse): OpenApiResponse {
+  const result: OpenApiResponse = {description: response.description};
+
+  if (response.headers) {
+    result.headers = Object.fromEntries(
+      Object.entries(response.headers).map(([name, description]) => [
+        name,
+        {description, schema: {type: "string"}},
+      ]),
+    );
+  }
+
+  const contentTypes = response.contentTypes ?? (response.schema ? ["application/json"] : []);
+  if (contentTypes.length > 0) {
+    result.content = Object.fromEntries(
+      contentTypes.map((type) => [
+        type,
+        {
+          schema: response.schema
+            ? schemaFor(response.schema)
+            : {type: "string", contentMediaType: type},
+          ...(response.example !== undefined ? {example: response.example} : {}),
+        },
+      ]),
+    );
+  }
+
+  return result;
+}
+
+// Every authenticated operation can fail authentication, and every operation can fail
+function withCommonResponses(operation: ApiOperation): Record<number, ApiResponse> {
+  const responses = {...operation.responses};
+
+  if (operation.auth === "read" || operation.auth === "write") {
+    responses[401] ??= error("Missing, invalid or expired credentials", "Unauthorized");
+    responses[403] ??= error(
+      `The API key doesn't grant ${operation.auth} access`,
+      "Insufficient permissions",
+    );
+  }
+  responses[500] ??= error("Something went wrong on the server", "Internal server error");
+
+  return responses;
+}
+
+// An empty requirement makes credentials optional
+const SECURITY: Record<OperationAuth, Record<string, string[]>[]> = {
+  read: [{apiKey: []}, {session: []}],
+  write: [{apiKey: []}, {session: []}],
+  optional: [{}, {apiKey: []}, {session: []}],
+  none: [],
+};
+
+function buildOperation(operation: ApiOperation): OpenApiOperation {
+  const result: OpenApiOperation = {
+    tags: [operation.tag],
+    summary: operation.summary,
+    operationId: operationId(operation),
+    security: SECURITY[operation.auth],
+    parameters: buildParameters(operation),
+    responses: Object.fromEntries(
+      Object.entries(withCommonResponses(operation)).map(([status, response]) => [
+        status,
+        buildResponse(response),
+      ]),
+    ),
+  };
+
+  if (operation.description) {
+    result.description = operation.description;
+  }
+  if (operation.auth === "read" || operation.auth === "write") {
+    result["x-permission"] = operation.auth;
+  }
+  if (operation.body) {
+    result.requestBody = {
+      required: true,
+      content: {
+        "application/json": {
+          schema: schemaFor(operation.body),
+          ...(operation.bodyExample !== undefined ? {example: operation.bodyExample} : {}),
+        },
+      },
+    };
+  }
+
+  return result;
+}
+
+function componentRegistry() {
+  const registry = z.registry<{id: string}>();
+  for (const [id, schema] of Object.entries(componentSchemas)) {
+    registry.add(schema, {id});
+  }
+  return registry;
+}
+
+// e.g. put /api/v1/files/{id}/status -> putFilesIdStatus
+function operationId({method, path}: ApiOperation): string {
+  return (
+    method +
+    path
+      .replace("/api/v1/", "")
+      .split(/[/.{}-]+/)
+      .filter(Boolean)
+      .map((part) => part[0].toUpperCase() + part.slice(1))
+      .join("")
+  );
+}
+
+// The documented operation serving a request path such as /api/v1/files/abc123.
+// Literal segments win over {params}, so /files/import isn't read as /files/{id}.
+export function findOperation(method: string, pathname: string): ApiOperation | undefined {
+  const matches = operations.filter(
+    (operation) =>
+      operation.method === method.toLowerCase() &&
+      new RegExp(`^${operation.path.replace(/\{\w+\}/g, "[^/]+")}$`).test(pathname),
+  );
+
+  return matches.sort((a, b) => a.path.split("{").length - b.path.split("{").length)[0];
+}
+
+// What an operation documents for a status, including the responses every operation shares
+export function documentedResponse(
+  operation: ApiOperation,
+  status: number,
+): ApiResponse | undefined {
+  return withCommonResponses(operation)[status];
+}
+
+export function buildOpenApiDocument(): OpenApiDocument {
+  const {schemas} = z.toJSONSchema(componentRegistry(), {
+    ...JSON_SCHEMA_OPTIONS,
+    uri: (id) => `#/components/schemas/${id}`,
+  });
+
+  const paths: OpenApiDocument["paths"] = {};
+  for (const operation of operations) {
+    paths[operation.path] ??= {};
+    paths[operation.path][operation.method] = buildOperation(operation);
+  }
+
+  return {
+    openapi: "3.1.0",
+    info: {
+      title: "Hulkastorus API",
+      version: "1.0.0",
+      description:
+        "File storage for developers. Authenticate with an API key (`Authorization: Bearer hulk_...`) or a browser session.",
+    },
+    servers: [{url: "/"}],
+    tags: [...new Set(operations.map((operation) => operation.tag))].map((name) => ({name})),
+    paths,
+    components: {
+      schemas: tidy(schemas as Record<string, JsonSchema>),
+      securitySchemes: {
+        apiKey: {
+          type: "http",
+          scheme: "bearer",
+          description: "An API key from the dashboard. Read keys can't call write operations.",
+        },
+        session: {
+          type: "apiKey",
+          in: "cookie",
+          name: "next-auth.session-token",
+          description: "The session cookie set when signing in on the website",
+        },
+      },
+    },
+  };
+}
@@ -0,0 +1,197 @@
+import {prisma} from "@/lib/prisma";
+import {currentEnv, getR2Client} from "@/lib/r2-config";
+
+// Reserved rows older than this are treated as abandoned uploads
+export const DEFAULT_RESERVED_MAX_AGE_HOURS = 24;
+
+export interface OrphanSweepOptions {
+  env?: string;
+  reservedMaxAgeHours?: number;
+  pageSize?: number;
+  now?: Date;
+}
+
+export interface OrphanSweepReport {
+  // R2 objects listed under the environment prefix
+  scanned: number;
+  // Keys that don't follow the <env>/<policy>/<user>/<file> layout and were left alone
+  skipped: number;
+  // Objects deleted because no File row points at them
+  orphansDeleted: number;
+  // Uploaded or validated rows marked failed because their object is gone
+  missingMarked: number;
+  // Abandoned reserved rows deleted
+  reservedCleaned: number;
+  // Files or object keys whose cleanup failed; they are retried on the next run
+  failed: string[];
+}
+
+// Statuses whose rows promise an object exists in R2
+const STORED_STATUSES = ["uploaded", "validated"];
+
+/**
+ * Parse the reserved row age limit from the environment, falling back to the default
+ */
+export function getReservedMaxAgeHours(): number {
+  const hours = Number(process.env.RESERVED_FILE_MAX_AGE_HOURS);
+  return Number.isFinite(hours) && hours > 0 ? hours : DEFAULT_RESERVED_MAX_AGE_HOURS;
+}
+
+/**
+ * Reconcile R2 objects with File rows for one environment:
+ *
+ * 1. Delete reserved rows older than the age limit, aborting any multipart
+ *    upload and removing anything that reached storage.
+ * 2. Walk every object under `<env>/` and delete those no row points at.
+ * 3. Mark uploaded/validated rows whose object no longer exists as failed.
+ *
+ * Every step re-checks state before acting, so a run that fails halfway is
+ * safe to repeat.
+ */
+export async function runOrphanSweep(options: OrphanSweepOptions = {}): Promise<OrphanSweepReport> {
+  const {
+    env = currentEnv,
+    reservedMaxAgeHours = getReservedMaxAgeHours(),
+    pageSize = 1000,
+    now = new Date(),
+  } = options;
+  const r2Client = getR2Client();
+  const report: OrphanSweepReport = {
+    scanned: 0,
+    skipped: 0,
+    orphansDeleted: 0,
+    missingMarked: 0,
+    reservedCleaned: 0,
+    failed: [],
+  };
+
+  // Step 1: abandoned reserved rows
+  const reservedCutoff = new Date(now.getTime() - reservedMaxAgeHours * 60 * 60 * 1000);
+  const abandonedFiles = await prisma.file.findMany({
+    where: {
+      status: "reserved",
+      createdAt: {lt: reservedCutoff},
+      OR: [{r2Locator: null}, {r2Locator: {startsWith: `${env}/`}}],
+    },
+    select: {id: true, r2Locator: true, uploadId: true},
+  });
+
+  for (const file of abandonedFiles) {
+    try {
+      const objectParts = file.r2Locator ? r2Client.parseObjectKey(file.r2Locator) : null;
+
+      if (objectParts) {
+        if (file.uploadId) {
+          await r2Client.abortMultipartUpload({...objectParts, uploadId: file.uploadId});
+        }
+        await r2Client.deleteObject(objectParts);
+      }
+
+      // Only delete the row if it is still reserved; an upload may have just finished
+      const {count} = await prisma.file.deleteMany({where: {id: file.id, status: "reserved"}});
+      report.reservedCleaned += count;
+    } catch (error) {
+      console.error(`Error cleaning up reserved file ${file.id}:`, error);
+      report.failed.push(file.id);
+    }
+  }
+
+  // Step 2: objects without a matching row
+  const seenKeys = new Set<string>();
+  let continuationToken: string | undefined;
+
+  do {
+    const page = await r2Client.listObjects({
+      prefix: `${env}/`,
+      continuationToken,
+      maxKeys: pageSize,
+    });
+    continuationToken = page.nextContinuationToken;
+    report.scanned += page.objects.length;
+
+    const parsedObjects = [];
+    for (const object of page.objects) {
+      const objectParts = r2Client.parseObjectKey(object.key);
+      if (!objectParts) {
+        report.skipped++;
+        continue;
+      }
+
+      seenKeys.add(object.key);
+      parsedObjects.push({key: object.key, objectParts});
+    }
+
+    const files = await prisma.file.findMany({
+      where: {r2Locator: {in: parsedObjects.map((object) => object.key)}},
+      select: {r2Locator: true},
+    });
+    const referencedKeys = new Set(files.map((file) => file.r2Locator));
+
+    for (const {key, objectParts} of parsedObjects) {
+      if (referencedKeys.has(key)) {
+        continue;
+      }
+
+      try {
+        await r2Client.deleteObject(objectParts);
+        seenKeys.delete(key);
+        report.orphansDeleted++;
+      } catch (error) {
+        console.error(`Error deleting orphaned object ${key}:`, error);
+        report.failed.push(key);
+      }
+    }
+  } while (continuationToken);
+
+  // Step 3: rows whose object is missing
+  let cursor: string | undefined;
+
+  while (true) {
+    const files = await prisma.file.findMany({
+      where: {
+        status: {in: STORED_STATUSES},
+        r2Locator: {startsWith: `${env}/`},
+      },
+      select: {id: true, r2Locator: true},
+      orderBy: {id: "asc"},
+      take: pageSize,
+      ...(cursor ? {cursor: {id: cursor}, skip: 1} : {}),
+    });
+
+    for (const file of files) {
+      if (seenKeys.has(file.r2Locator!)) {
+        continue;
+      }
+
+      const objectParts = r2Client.parseObjectKey(file.r2Locator!);
+      if (!objectParts) {
+        continue;
+      }
+
+      try {
+        // The object may have been uploaded after the listing passed its key
+        const objectInfo = await r2Client.getObjectInfo(objectParts);
+        if (objectInfo.exists) {
+          continue;
+        }
+
+        const {count} = await prisma.file.updateMany({
+          where: {id: file.id, status: {in: STORED_STATUSES}},
+          data: {status: "failed"},
+        });
+        report.missingMarked += count;
+      } catch (error) {
+        console.error(`Error checking object for file ${file.id}:`, error);
+        report.failed.push(file.id);
+      }
+    }
+
+    if (files.length < pageSize) {
+      break;
+    }
+
+    cursor = files[files.length - 1].id;
+  }
+
+  return report;
+}
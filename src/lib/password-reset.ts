@@ -0,0 +1,107 @@
+import crypto from "crypto";
+import bcrypt from "bcryptjs";
+import {prisma} from "@/lib/prisma";
+import {getAppUrl} from "@/lib/email-verification";
+import {getMailTransport} from "@/lib/mailer";
+
+// Reset links stay valid for an hour
+export const PASSWORD_RESET_TTL_MS = 60 * 60 * 1000;
+
+export type PasswordResetResult = {ok: true} | {ok: false; error: string};
+
+// VerificationToken identifiers are `password-reset:<user id>`, so tokens stay tied
+// to the account even if its email address changes
+const RESET_IDENTIFIER_PREFIX = "password-reset:";
+
+/**
+ * The VerificationToken identifier holding a user's reset tokens
+ */
+export function passwordResetIdentifier(userId: string): string {
+  return `${RESET_IDENTIFIER_PREFIX}${userId}`;
+}
+
+/**
+ * Hash a raw reset token for storage and lookup. Only the hash is ever persisted.
+ */
+export function hashResetToken(rawToken: string): string {
+  return crypto.createHash("sha256").update(rawToken).digest("hex");
+}
+
+/**
+ * Email a reset link if the address belongs to a user. Resolves the same way
+ * either way, so callers can't tell whether an email is registered.
+ * Any earlier reset tokens for the user are replaced.
+ */
+export async function sendPasswordResetEmail(email: string, now = new Date()): Promise<void> {
+  const user = await prisma.user.findUnique({
+    where: {email},
+    select: {id: true, email: true, firstName: true},
+  });
+
+  if (!user) {
+    return;
+  }
+
+  const rawToken = crypto.randomBytes(32).toString("base64url");
+  const identifier = passwordResetIdentifier(user.id);
+
+  await prisma.verificationToken.deleteMany({where: {identifier}});
+  await prisma.verificationToken.create({
+    data: {
+      identifier,
+      token: hashResetToken(rawToken),
+      expires: new Date(now.getTime() + PASSWORD_RESET_TTL_MS),
+    },
+  });
+
+  const link = `${getAppUrl()}/reset-password?token=${rawToken}`;
+  const greeting = user.firstName ? `Hi ${user.firstName},` : "Hi,";
+
+  await getMailTransport().send({
+    to: user.email,
+    subject: "Reset your Hulkastorus password",
+    text: `${greeting}\n\nSomeone asked to reset the password for your Hulkastorus account. Choose a new one within the next hour:\n\n${link}\n\nIf this wasn't you, you can ignore this email and your password won't change.`,
+  });
+}
+
+/**
+ * Set a new password with a reset token. The token is consumed, and every other
+ * outstanding reset token for the user is invalidated with it.
+ */
+export async function resetPasswordWithToken(
+  rawToken: string,
+  newPassword: string,
+  now = new Date(),
+): Promise<PasswordResetResult> {
+  const invalid: PasswordResetResult = {ok: false, error: "Invalid or expired reset link"};
+  const token = hashResetToken(rawToken);
+
+  const record = await prisma.verificationToken.findUnique({where: {token}});
+  if (!record || !record.identifier.startsWith(RESET_IDENTIFIER_PREFIX)) {
+    return invalid;
+  }
+
+  if (record.expires <= now) {
+    await prisma.verificationToken.deleteMany({where: {token}});
+    return invalid;
+  }
+
+  const userId = record.identifier.slice(RESET_IDENTIFIER_PREFIX.length);
+  const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+  return prisma.$transaction(async (tx) => {
+    // Claiming the token by deleting it makes concurrent redemptions fail
+    const {count} = await tx.verificationToken.deleteMany({where: {token, expires: {gt: now}}});
+    if (count === 0) {
+      return invalid;
+    }
+
+    await tx.verificationToken.deleteMany({where: {identifier: record.identifier}});
+    const updated = await tx.user.updateMany({
+      where: {id: userId},
+      data: {password: hashedPassword},
+    });
+
+    return updated.count > 0 ? {ok: true as const} : invalid;
+  });
+}
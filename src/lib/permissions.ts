@@ -0,0 +1,125 @@
+import {prisma} from "@/lib/prisma";
+
+// What "public" | "private" | "inherit" finally resolves to
+export type EffectivePermissions = "public" | "private";
+
+// Where a chain of "inherit" ends without an explicit setting, e.g. an inheriting root
+const FALLBACK_PERMISSIONS: EffectivePermissions = "private";
+
+const directoryNodeSelect = {id: true, parentId: true, defaultPermissions: true} as const;
+
+interface DirectoryNode {
+  id: string;
+  parentId: string | null;
+  defaultPermissions: string;
+}
+
+// Null for "inherit"; anything unexpected fails closed rather than inheriting
+function explicitPermissions(permissions: string): EffectivePermissions | null {
+  if (permissions === "inherit") {
+    return null;
+  }
+
+  return permissions === "public" ? "public" : "private";
+}
+
+/**
+ * Resolve a file or directory setting against what it would inherit: explicit
+ * settings win, "inherit" takes the inherited value.
+ */
+export function applyInheritedPermissions(
+  permissions: string,
+  inherited: EffectivePermissions,
+): EffectivePermissions {
+  return explicitPermissions(permissions) ?? inherited;
+}
+
+/**
+ * Resolve the permissions a directory hands down to its contents, walking up
+ * Directory.parent while the default permissions are "inherit".
+ */
+export async function resolveDirectoryPermissions(
+  directory: DirectoryNode,
+): Promise<EffectivePermissions> {
+  const visited = new Set<string>();
+  let current: DirectoryNode | null = directory;
+
+  while (current && !visited.has(current.id)) {
+    const permissions = explicitPermissions(current.defaultPermissions);
+    if (permissions) {
+      return permissions;
+    }
+
+    visited.add(current.id);
+    current = current.parentId
+      ? await prisma.directory.findUnique({
+          where: {id: current.parentId},
+          select: directoryNodeSelect,
+        })
+      : null;
+  }
+
+  return FALLBACK_PERMISSIONS;
+}
+
+/**
+ * Resolve whether a file is effectively public or private. Files set to
+ * "inherit" take their directory's resolved default permissions.
+ */
+export async function resolveFilePermissions(file: {
+  permissions: string;
+  directoryId: string;
+}): Promise<EffectivePermissions> {
+  const permissions = explicitPermissions(file.permissions);
+  if (permissions) {
+    return permissions;
+  }
+
+  const directory = await prisma.directory.findUnique({
+    where: {id: file.directoryId},
+    select: directoryNodeSelect,
+  });
+
+  return directory ? resolveDirectoryPermissions(directory) : FALLBACK_PERMISSIONS;
+}
+
+/**
+ * Resolve the default permissions of every one of a user's directories with a
+ * single query, for listings. Keyed by directory ID.
+ */
+export async function getDirectoryPermissions(
+  userId: string,
+): Promise<Map<string, EffectivePermissions>> {
+  const directories = await prisma.directory.findMany({
+    where: {userId},
+    select: directoryNodeSelect,
+  });
+
+  const directoriesById = new Map(directories.map((directory) => [directory.id, directory]));
+  const resolved = new Map<string, EffectivePermissions>();
+
+  for (const directory of directories) {
+    // Walk up until an explicit or already resolved ancestor, then fill in the chain
+    const chain: string[] = [];
+    let current: DirectoryNode | undefined = directory;
+    let permissions: EffectivePermissions = FALLBACK_PERMISSIONS;
+
+    while (current && !chain.includes(current.id)) {
+      const known = resolved.get(current.id) ?? explicitPermissions(current.defaultPermissions);
+      if (known) {
+        permissions = known;
+        break;
+      }
+
+      chain.push(current.id);
+      current = current.parentId ? directoriesById.get(current.parentId) : undefined;
+    }
+
+    for (const id of chain) {
+      resolved.set(id, permissions);
+    }
+    resolved.set(directory.id, resolved.get(directory.id) ?? permissions);
+  }
+
+  return resolved;
+}
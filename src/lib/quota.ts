@@ -0,0 +1,114 @@
+import type {Prisma} from "@prisma/client";
+import {prisma} from "@/lib/prisma";
+
+const GB = 1024 * 1024 * 1024;
+
+// Storage caps per plan, matching the pricing table; null means unlimited
+export const planQuotas = {
+  free: 10 * GB,
+  pro: 1024 * GB,
+  tres_commas: null,
+} as const;
+
+export type Plan = keyof typeof planQuotas;
+
+// File statuses whose bytes count against the quota (reservations hold space until they finish)
+export const QUOTA_STATUSES = ["reserved", "uploaded", "validated"];
+
+export interface QuotaCheck {
+  allowed: boolean;
+  quotaBytes: number | null;
+  usedBytes: number;
+  requestedBytes: number;
+}
+
+/**
+ * Resolve a user's storage cap. A per-user `quotaBytes` overrides the plan default;
+ * unknown plans fall back to the free tier.
+ */
+export function getQuotaBytes(user: {
+  plan?: string | null;
+  quotaBytes?: bigint | null;
+}): number | null {
+  if (user.quotaBytes !== null && user.quotaBytes !== undefined) {
+    return Number(user.quotaBytes);
+  }
+
+  const plan = (user.plan || "free") as Plan;
+  return plan in planQuotas ? planQuotas[plan] : planQuotas.free;
+}
+
+/**
+ * Sum the bytes a user is using, counting validated files and pending reservations
+ */
+export async function getUsedBytes(
+  userId: string,
+  excludeFileId?: string,
+  tx: Prisma.TransactionClient = prisma,
+): Promise<number> {
+  const result = await tx.file.aggregate({
+    where: {
+      userId,
+      status: {in: QUOTA_STATUSES},
+      ...(excludeFileId ? {id: {not: excludeFileId}} : {}),
+    },
+    _sum: {sizeBytes: true},
+  });
+
+  return Number(result._sum.sizeBytes || 0);
+}
+
+/**
+ * Check whether a user can store `requestedBytes` more without exceeding their quota.
+ * Pass `excludeFileId` when re-checking a file whose bytes are already counted.
+ * On its own the check is advisory; use withQuota to act on it.
+ */
+export async function checkQuota(
+  userId: string,
+  requestedBytes: number,
+  options: {excludeFileId?: string; tx?: Prisma.TransactionClient} = {},
+): Promise<QuotaCheck> {
+  const tx = options.tx ?? prisma;
+  const user = await tx.user.findUnique({
+    where: {id: userId},
+    select: {plan: true, quotaBytes: true},
+  });
+
+  const quotaBytes = getQuotaBytes(user || {});
+  if (quotaBytes === null) {
+    return {allowed: true, quotaBytes, usedBytes: 0, requestedBytes};
+  }
+
+  const usedBytes = await getUsedBytes(userId, options.excludeFileId, tx);
+  return {
+    allowed: usedBytes + requestedBytes <= quotaBytes,
+    quotaBytes,
+    usedBytes,
+    requestedBytes,
+  };
+}
+
+export type QuotaWrite<T> = {allowed: true; result: T} | {allowed: false; quota: QuotaCheck};
+
+/**
+ * Check the quota and, if the bytes fit, run `write` in the same transaction.
+ * The user's row stays locked until the write commits, so concurrent uploads
+ * are checked one after another instead of all seeing the same free space.
+ */
+export async function withQuota<T>(
+  userId: string,
+  requestedBytes: number,
+  options: {excludeFileId?: string},
+  write: (tx: Prisma.TransactionClient) => Promise<T>,
+): Promise<QuotaWrite<T>> {
+  return prisma.$transaction(async (tx) => {
+    await tx.$queryRaw`SELECT id FROM users WHERE id = ${userId} FOR UPDATE`;
+
+    const quota = await checkQuota(userId, requestedBytes, {...options, tx});
+    if (!quota.allowed) {
+      return {allowed: false, quota};
+    }
+
+    return {allowed: true, result: await write(tx)};
+  });
+}
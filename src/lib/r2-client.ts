@@ -4,6 +4,12 @@ import {
   GetObjectCommand,
   DeleteObjectCommand,
   HeadObjectCommand,
+  CreateMultipartUploadCommand,
+  UploadPartCommand,
+  CompleteMultipartUploadCommand,
+  AbortMultipartUploadCommand,
+  ListPartsCommand,
+  ListObjectsV2Command,
 } from "@aws-sdk/client-s3";
 import {getSignedUrl} from "@aws-sdk/s3-request-presigner";
 
@@ -15,6 +21,21 @@ export interface R2Config {
   endpoint?: string;
 }
 
+export interface MultipartPart {
+  partNumber: number;
+  etag: string;
+}
+
+export interface UploadedPartInfo extends MultipartPart {
+  size: number;
+}
+
+export interface ObjectSummary {
+  key: string;
+  size: number;
+  lastModified?: Date;
+}
+
 export class R2Client {
   private s3Client: S3Client;
   private bucketName: string;
@@ -155,6 +176,207 @@ export class R2Client {
     await this.s3Client.send(command);
   }
 
+  /**
+   * List one page of objects, optionally under a key prefix
+   */
+  async listObjects(
+    params: {
+      prefix?: string;
+      continuationToken?: string;
+      maxKeys?: number;
+    } = {},
+  ): Promise<{objects: ObjectSummary[]; nextContinuationToken?: string}> {
+    const command = new ListObjectsV2Command({
+      Bucket: this.bucketName,
+      Prefix: params.prefix,
+      ContinuationToken: params.continuationToken,
+      MaxKeys: params.maxKeys,
+    });
+
+    const response = await this.s3Client.send(command);
+
+    const objects = (response.Contents || [])
+      .filter((object) => object.Key)
+      .map((object) => ({
+        key: object.Key!,
+        size: object.Size || 0,
+        lastModified: object.LastModified,
+      }));
+
+    return {
+      objects,
+      nextContinuationToken: response.IsTruncated ? response.NextContinuationToken : undefined,
+    };
+  }
+
+  /**
+   * Start a multipart upload for large files
+   */
+  async createMultipartUpload(params: {
+    env: string;
+    lifecyclePolicy: string;
+    userId: string;
+    fileId: string;
+    contentType?: string;
+  }): Promise<{uploadId: string; objectKey: string}> {
+    const objectKey = this.generateObjectKey(params);
+
+    const command = new CreateMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: objectKey,
+      ContentType: params.contentType,
+    });
+
+    const response = await this.s3Client.send(command);
+    if (!response.UploadId) {
+      throw new Error(`No upload ID returned for ${objectKey}`);
+    }
+
+    return {uploadId: response.UploadId, objectKey};
+  }
+
+  /**
+   * Get presigned URL for uploading a single part of a multipart upload
+   */
+  async getUploadPartUrl(params: {
+    env: string;
+    lifecyclePolicy: string;
+    userId: string;
+    fileId: string;
+    uploadId: string;
+    partNumber: number;
+    expiresIn?: number;
+  }): Promise<string> {
+    const objectKey = this.generateObjectKey(params);
+
+    const command = new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: objectKey,
+      UploadId: params.uploadId,
+      PartNumber: params.partNumber,
+    });
+
+    return await getSignedUrl(this.s3Client, command, {
+      expiresIn: params.expiresIn || 3600, // 1 hour default
+    });
+  }
+
+  /**
+   * Upload a single part of a multipart upload from the server, for content the
+   * app fetches itself (e.g. remote imports)
+   */
+  async uploadPart(params: {
+    env: string;
+    lifecyclePolicy: string;
+    userId: string;
+    fileId: string;
+    uploadId: string;
+    partNumber: number;
+    body: Buffer;
+  }): Promise<MultipartPart> {
+    const objectKey = this.generateObjectKey(params);
+
+    const command = new UploadPartCommand({
+      Bucket: this.bucketName,
+      Key: objectKey,
+      UploadId: params.uploadId,
+      PartNumber: params.partNumber,
+      Body: params.body,
+    });
+
+    const response = await this.s3Client.send(command);
+    if (!response.ETag) {
+      throw new Error(`No ETag returned for part ${params.partNumber} of ${objectKey}`);
+    }
+
+    return {partNumber: params.partNumber, etag: response.ETag};
+  }
+
+  /**
+   * Assemble uploaded parts into the final object
+   */
+  async completeMultipartUpload(params: {
+    env: string;
+    lifecyclePolicy: string;
+    userId: string;
+    fileId: string;
+    uploadId: string;
+    parts: MultipartPart[];
+  }): Promise<void> {
+    const objectKey = this.generateObjectKey(params);
+
+    const command = new CompleteMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: objectKey,
+      UploadId: params.uploadId,
+      MultipartUpload: {
+        Parts: [...params.parts]
+          .sort((a, b) => a.partNumber - b.partNumber)
+          .map((part) => ({PartNumber: part.partNumber, ETag: part.etag})),
+      },
+    });
+
+    await this.s3Client.send(command);
+  }
+
+  /**
+   * List the parts already uploaded for a multipart upload
+   */
+  async listParts(params: {
+    env: string;
+    lifecyclePolicy: string;
+    userId: string;
+    fileId: string;
+    uploadId: string;
+  }): Promise<UploadedPartInfo[]> {
+    const objectKey = this.generateObjectKey(params);
+    const parts: UploadedPartInfo[] = [];
+    let partNumberMarker: string | undefined;
+
+    // ListParts returns at most 1000 parts per page
+    do {
+      const command = new ListPartsCommand({
+        Bucket: this.bucketName,
+        Key: objectKey,
+        UploadId: params.uploadId,
+        PartNumberMarker: partNumberMarker,
+      });
+
+      const response = await this.s3Client.send(command);
+
+      for (const part of response.Parts || []) {
+        if (part.PartNumber && part.ETag) {
+          parts.push({partNumber: part.PartNumber, etag: part.ETag, size: part.Size || 0});
+        }
+      }
+
+      partNumberMarker = response.IsTruncated ? response.NextPartNumberMarker : undefined;
+    } while (partNumberMarker);
+
+    return parts;
+  }
+
+  /**
+   * Abort a multipart upload and discard its uploaded parts
+   */
+  async abortMultipartUpload(params: {
+    env: string;
+    lifecyclePolicy: string;
+    userId: string;
+    fileId: string;
+    uploadId: string;
+  }): Promise<void> {
+    const objectKey = this.generateObjectKey(params);
+
+    const command = new AbortMultipartUploadCommand({
+      Bucket: this.bucketName,
+      Key: objectKey,
+      UploadId: params.uploadId,
+    });
+
+    await this.s3Client.send(command);
+  }
+
   /**
    * Parse object key back to components
    */
@@ -224,6 +446,33 @@ export class R2Client {
       contentType: response.ContentType,
     };
   }
+
+  /**
+   * Stream object content, for responses the app assembles itself (e.g. archives)
+   */
+  async getObjectStream(params: {
+    env: string;
+    lifecyclePolicy: string;
+    userId: string;
+    fileId: string;
+  }): Promise<{body: ReadableStream<Uint8Array>; size: number}> {
+    const objectKey = this.generateObjectKey(params);
+
+    const command = new GetObjectCommand({
+      Bucket: this.bucketName,
+      Key: objectKey,
+    });
+
+    const response = await this.s3Client.send(command);
+    if (!response.Body) {
+      throw new Error(`Object ${objectKey} has no content`);
+    }
+
+    return {
+      body: response.Body.transformToWebStream() as ReadableStream<Uint8Array>,
+      size: response.ContentLength ?? 0,
+    };
+  }
 }
 
 // Create default R2 client instance
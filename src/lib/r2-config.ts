@@ -1,4 +1,5 @@
 import {R2Client} from "./r2-client";
+import {MAX_MULTIPART_PARTS} from "@hulkastorus/sdk/contract";
 
 // Environment configuration for R2
 export const r2Config = {
@@ -15,6 +16,7 @@ export const currentEnv = process.env.NODE_ENV || "development";
 // Lifecycle policies as defined in ARCHITECTURE.md
 export const lifecyclePolicies = {
   INFINITE: "infinite",
+  YEAR_1: "1y",
   DAYS_180: "180d",
   DAYS_90: "90d",
   DAYS_30: "30d",
@@ -27,6 +29,19 @@ export const lifecyclePolicies = {
 
 export type LifecyclePolicy = (typeof lifecyclePolicies)[keyof typeof lifecyclePolicies];
 
+// Multipart upload limits (every part except the last must be at least 5 MiB)
+export const multipartLimits = {
+  MIN_PART_SIZE: 5 * 1024 * 1024,
+  DEFAULT_PART_SIZE: 16 * 1024 * 1024,
+  MAX_PARTS: MAX_MULTIPART_PARTS,
+} as const;
+
+// Pick a part size that keeps the upload within the maximum part count
+export function getMultipartPartSize(sizeBytes: number): number {
+  const minimumForPartCount = Math.ceil(sizeBytes / multipartLimits.MAX_PARTS);
+  return Math.max(multipartLimits.DEFAULT_PART_SIZE, minimumForPartCount);
+}
+
 // Create singleton R2 client instance
 let r2ClientInstance: R2Client | null = null;
 
@@ -50,3 +65,13 @@ export function parseLifecyclePolicy(policy: string): LifecyclePolicy {
   }
   return lifecyclePolicies.INFINITE; // Default fallback
 }
+
+// When a file created now under the policy expires, or null if it never does
+export function getExpirationDate(policy: LifecyclePolicy): Date | null {
+  if (policy === lifecyclePolicies.INFINITE) return null;
+
+  const days = policy === lifecyclePolicies.YEAR_1 ? 365 : parseInt(policy.replace("d", ""));
+  const expiresAt = new Date();
+  expiresAt.setDate(expiresAt.getDate() + days);
+  return expiresAt;
+}
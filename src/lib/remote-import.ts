@@ -0,0 +1,344 @@
+import http, {type IncomingMessage} from "http";
+import https from "https";
+import type {ImportJob} from "@prisma/client";
+import {prisma} from "@/lib/prisma";
+import {currentEnv, getR2Client, multipartLimits} from "@/lib/r2-config";
+import type {MultipartPart} from "@/lib/r2-client";
+import {checkQuota} from "@/lib/quota";
+import {checkFetchableUrl, guardedLookup} from "@/lib/ssrf";
+import type {ImportJobStatus} from "@hulkastorus/sdk/contract";
+
+const GB = 1024 * 1024 * 1024;
+
+export const importLimits = {
+  // Largest file an import will fetch, regardless of the user's remaining quota. The whole
+  // transfer has to fit in the import route's 300 second maxDuration, so the default only
+  // needs the source to serve about 7 MiB/s
+  MAX_BYTES: Number(process.env.REMOTE_IMPORT_MAX_BYTES) || 2 * GB,
+  MAX_REDIRECTS: 5,
+  // Idle timeout while connecting and between chunks of the body
+  TIMEOUT_MS: 30 * 1000,
+} as const;
+
+/**
+ * A byte limit for people: "2 GiB" for whole GiB, the exact count otherwise.
+ */
+export function describeImportLimit(bytes: number = importLimits.MAX_BYTES): string {
+  return bytes % GB === 0 ? `${bytes / GB} GiB` : `${bytes} bytes`;
+}
+
+// An HTML response almost always means the URL is a web page, like a login wall or a
+// download landing page, rather than the file itself
+export const BLOCKED_IMPORT_MIME_TYPES = ["text/html", "application/xhtml+xml"];
+
+export interface ImportOptions {
+  // Let imports reach private addresses, for local development against a local source
+  allowPrivateNetworks?: boolean;
+  partSize?: number;
+}
+
+function allowsPrivateNetworks(options: ImportOptions): boolean {
+  return (
+    options.allowPrivateNetworks ?? process.env.REMOTE_IMPORT_ALLOW_PRIVATE_NETWORKS === "true"
+  );
+}
+
+/**
+ * Check a source URL before accepting an import. Returns an error message, or
+ * null if the URL may be fetched.
+ */
+export function checkImportUrl(url: URL, options: ImportOptions = {}): string | null {
+  if (allowsPrivateNetworks(options)) {
+    return url.protocol === "http:" || url.protocol === "https:"
+      ? null
+      : "Only http and https URLs are supported";
+  }
+
+  return checkFetchableUrl(url);
+}
+
+/**
+ * Name an imported file after the last segment of its URL path
+ */
+export function filenameFromUrl(url: URL): string {
+  const segment = url.pathname.split("/").filter(Boolean).pop();
+  if (!segment) {
+    return "download";
+  }
+
+  try {
+    return decodeURIComponent(segment).replace(/[/\\]/g, "_") || "download";
+  } catch {
+    return segment;
+  }
+}
+
+/**
+ * Shape an import job for API responses
+ */
+export function serializeImportJob(job: ImportJob) {
+  return {
+    id: job.id,
+    fileId: job.fileId,
+    sourceUrl: job.sourceUrl,
+    status: job.status as ImportJobStatus,
+    bytesReceived: Number(job.bytesReceived),
+    totalBytes: job.totalBytes !== null ? Number(job.totalBytes) : null,
+    error: job.error,
+    createdAt: job.createdAt,
+    updatedAt: job.updatedAt,
+    completedAt: job.completedAt,
+  };
+}
+
+function requestSource(url: URL, allowPrivate: boolean): Promise<IncomingMessage> {
+  return new Promise((resolve, reject) => {
+    const client = url.protocol === "https:" ? https : http;
+    const request = client.get(
+      url,
+      {
+        // Every connection, including redirects, is checked against private ranges
+        lookup: allowPrivate ? undefined : guardedLookup,
+        timeout: importLimits.TIMEOUT_MS,
+        headers: {"User-Agent": "Hulkastorus-Import/1.0"},
+      },
+      resolve,
+    );
+
+    request.on("timeout", () => request.destroy(new Error("Timed out waiting for the source")));
+    request.on("error", reject);
+  });
+}
+
+type RemoteSource = {ok: true; response: IncomingMessage} | {ok: false; error: string};
+
+/**
+ * Request a source URL, following redirects and checking every hop
+ */
+export async function openRemoteSource(
+  sourceUrl: string,
+  options: ImportOptions = {},
+): Promise<RemoteSource> {
+  const allowPrivate = allowsPrivateNetworks(options);
+  let url = new URL(sourceUrl);
+
+  for (let redirects = 0; ; redirects++) {
+    const problem = checkImportUrl(url, options);
+    if (problem) {
+      return {ok: false, error: problem};
+    }
+
+    let response: IncomingMessage;
+    try {
+      response = await requestSource(url, allowPrivate);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      return {
+        ok: false,
+        error:
+          code === "EADDRNOTPUBLIC"
+            ? "URL points to a private network address"
+            : "Could not connect to the source",
+      };
+    }
+
+    const status = response.statusCode ?? 0;
+    const location = response.headers.location;
+
+    if ([301, 302, 303, 307, 308].includes(status) && location) {
+      response.resume();
+      if (redirects >= importLimits.MAX_REDIRECTS) {
+        return {ok: false, error: "Too many redirects"};
+      }
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (status < 200 || status >= 300) {
+      response.resume();
+      return {ok: false, error: `Source responded with HTTP ${status}`};
+    }
+
+    return {ok: true, response};
+  }
+}
+
+/**
+ * Fetch an import job's source and stream it into R2 as a multipart upload,
+ * recording progress on the job after every part. Failures are recorded on the
+ * job and its file rather than thrown.
+ */
+export async function runImportJob(jobId: string, options: ImportOptions = {}): Promise<void> {
+  const job = await prisma.importJob.findUnique({where: {id: jobId}, include: {file: true}});
+  if (!job || job.status !== "pending" || !job.file) {
+    return;
+  }
+
+  const file = job.file;
+  const r2Client = getR2Client();
+  const objectParams = {
+    env: currentEnv,
+    lifecyclePolicy: file.expirationPolicy,
+    userId: file.userId,
+    fileId: file.id,
+  };
+  let uploadId: string | null = null;
+
+  const fail = async (error: string) => {
+    if (uploadId) {
+      await r2Client
+        .abortMultipartUpload({...objectParams, uploadId})
+        .catch((abortError) => console.error("Error aborting import upload:", abortError));
+    }
+
+    await prisma.file.update({
+      where: {id: file.id},
+      data: {status: "failed", uploadId: null, updatedAt: new Date()},
+    });
+    await prisma.importJob.update({
+      where: {id: jobId},
+      data: {status: "failed", error, completedAt: new Date()},
+    });
+  };
+
+  await prisma.importJob.update({where: {id: jobId}, data: {status: "running"}});
+
+  try {
+    const source = await openRemoteSource(job.sourceUrl, options);
+    if (!source.ok) {
+      return await fail(source.error);
+    }
+    const {response} = source;
+
+    const mimeType = response.headers["content-type"]?.split(";")[0].trim().toLowerCase() || null;
+    if (mimeType && BLOCKED_IMPORT_MIME_TYPES.includes(mimeType)) {
+      response.destroy();
+      return await fail(`Unsupported content type ${mimeType}`);
+    }
+
+    // Reject early when the source says how big it is; the limits are enforced again below
+    const contentLength = response.headers["content-length"];
+    const declaredBytes = contentLength !== undefined ? Number(contentLength) : null;
+
+    if (declaredBytes !== null && declaredBytes > importLimits.MAX_BYTES) {
+      response.destroy();
+      return await fail(`File exceeds the import limit of ${describeImportLimit()}`);
+    }
+
+    // Sources without a Content-Length are held to the space left as they stream
+    const quota = await checkQuota(file.userId, declaredBytes ?? 0, {excludeFileId: file.id});
+    if (!quota.allowed) {
+      response.destroy();
+      return await fail("Storage quota exceeded");
+    }
+    const remainingBytes =
+      quota.quotaBytes !== null ? quota.quotaBytes - quota.usedBytes : Number.POSITIVE_INFINITY;
+
+    await prisma.importJob.update({
+      where: {id: jobId},
+      data: {totalBytes: declaredBytes !== null ? BigInt(declaredBytes) : null},
+    });
+
+    const upload = await r2Client.createMultipartUpload({
+      ...objectParams,
+      contentType: file.mimeType || mimeType || undefined,
+    });
+    uploadId = upload.uploadId;
+
+    await prisma.file.update({
+      where: {id: file.id},
+      data: {r2Locator: upload.objectKey, uploadId},
+    });
+
+    // Buffer at most one part in memory at a time. R2 needs every part but the last
+    // to be the same size, so parts are cut at exactly partSize bytes
+    const partSize = options.partSize ?? multipartLimits.DEFAULT_PART_SIZE;
+    const parts: MultipartPart[] = [];
+    let buffered: Buffer[] = [];
+    let bufferedBytes = 0;
+    let receivedBytes = 0;
+    let uploadedBytes = 0;
+
+    const uploadNextPart = async (body: Buffer) => {
+      parts.push(
+        await r2Client.uploadPart({
+          ...objectParams,
+          uploadId: upload.uploadId,
+          partNumber: parts.length + 1,
+          body,
+        }),
+      );
+      uploadedBytes += body.length;
+
+      await prisma.importJob.update({
+        where: {id: jobId},
+        data: {bytesReceived: BigInt(uploadedBytes)},
+      });
+    };
+
+    for await (const chunk of response as AsyncIterable<Buffer>) {
+      receivedBytes += chunk.length;
+      if (receivedBytes > importLimits.MAX_BYTES) {
+        response.destroy();
+        return await fail(`File exceeds the import limit of ${describeImportLimit()}`);
+      }
+      if (receivedBytes > remainingBytes) {
+        response.destroy();
+        return await fail("Storage quota exceeded");
+      }
+
+      buffered.push(chunk);
+      bufferedBytes += chunk.length;
+      while (bufferedBytes >= partSize) {
+        const data = Buffer.concat(buffered);
+        await uploadNextPart(data.subarray(0, partSize));
+        buffered = [data.subarray(partSize)];
+        bufferedBytes = data.length - partSize;
+      }
+    }
+
+    // The last part may be short; an empty file still needs one part
+    if (bufferedBytes > 0 || parts.length === 0) {
+      await uploadNextPart(Buffer.concat(buffered));
+    }
+
+    if (declaredBytes !== null && receivedBytes !== declaredBytes) {
+      return await fail("Source closed the connection before sending the whole file");
+    }
+
+    await r2Client.completeMultipartUpload({...objectParams, uploadId: upload.uploadId, parts});
+    uploadId = null;
+
+    // Other uploads may have used up space while this one streamed
+    const finalQuota = await checkQuota(file.userId, receivedBytes, {excludeFileId: file.id});
+    if (!finalQuota.allowed) {
+      await r2Client.deleteObject(objectParams);
+      return await fail("Storage quota exceeded");
+    }
+
+    await prisma.file.update({
+      where: {id: file.id},
+      data: {
+        status: "validated",
+        sizeBytes: BigInt(receivedBytes),
+        mimeType: file.mimeType || mimeType,
+        uploadId: null,
+        updatedAt: new Date(),
+      },
+    });
+    await prisma.importJob.update({
+      where: {id: jobId},
+      data: {
+        status: "completed",
+        bytesReceived: BigInt(receivedBytes),
+        totalBytes: BigInt(receivedBytes),
+        completedAt: new Date(),
+      },
+    });
+  } catch (error) {
+    console.error(`Error importing ${job.sourceUrl}:`, error);
+    await fail("Import failed").catch((failError) =>
+      console.error("Error marking import as failed:", failError),
+    );
+  }
+}
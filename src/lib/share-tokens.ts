@@ -0,0 +1,160 @@
+import type {ShareToken} from "@prisma/client";
+import {prisma} from "@/lib/prisma";
+import {generateNanoId} from "@/lib/nanoid";
+import {signJwt, verifyJwt} from "@/lib/jwt";
+import {DEFAULT_SHARE_TOKEN_TTL_SECONDS} from "@hulkastorus/sdk/contract";
+
+// Stops other app JWTs (e.g. email verification) from being used as share tokens
+const TOKEN_PURPOSE = "share";
+
+export interface CreateShareTokenInput {
+  userId: string;
+  fileId?: string;
+  directoryId?: string;
+  expiresInSeconds?: number;
+  maxDownloads?: number | null;
+}
+
+export type CreateShareTokenResult =
+  | {ok: true; shareToken: ShareToken; token: string}
+  | {ok: false; error: string};
+
+/**
+ * Issue a share token for one of the user's files, or for everything under one
+ * of their directories. The token is a JWT naming the ShareToken row, so it can
+ * be revoked and download-capped while still carrying its own expiry.
+ */
+export async function createShareToken(
+  input: CreateShareTokenInput,
+  now = new Date(),
+): Promise<CreateShareTokenResult> {
+  const expiresInSeconds = input.expiresInSeconds ?? DEFAULT_SHARE_TOKEN_TTL_SECONDS;
+
+  if (input.fileId) {
+    const file = await prisma.file.findFirst({
+      where: {id: input.fileId, userId: input.userId},
+      select: {id: true},
+    });
+    if (!file) {
+      return {ok: false, error: "File not found"};
+    }
+  } else if (input.directoryId) {
+    const directory = await prisma.directory.findFirst({
+      where: {id: input.directoryId, userId: input.userId},
+      select: {id: true},
+    });
+    if (!directory) {
+      return {ok: false, error: "Directory not found"};
+    }
+  } else {
+    return {ok: false, error: "A file or directory is required"};
+  }
+
+  const shareToken = await prisma.shareToken.create({
+    data: {
+      id: generateNanoId(),
+      userId: input.userId,
+      fileId: input.fileId ?? null,
+      directoryId: input.fileId ? null : input.directoryId,
+      maxDownloads: input.maxDownloads ?? null,
+      expiresAt: new Date(now.getTime() + expiresInSeconds * 1000),
+    },
+  });
+
+  const token = signJwt(
+    {sub: input.userId, sid: shareToken.id, purpose: TOKEN_PURPOSE},
+    expiresInSeconds,
+    now,
+  );
+
+  return {ok: true, shareToken, token};
+}
+
+/**
+ * Spend one download of a share token on a file. Returns false if the token is
+ * invalid, expired, revoked, used up, or doesn't cover the file. The count is
+ * bumped with a conditional update, so concurrent downloads can't overshoot the cap.
+ */
+export async function redeemShareToken(
+  token: string,
+  file: {id: string; userId: string; fullPath: string},
+  now = new Date(),
+): Promise<boolean> {
+  const claims = verifyJwt(token, now);
+  if (!claims || claims.purpose !== TOKEN_PURPOSE || typeof claims.sid !== "string") {
+    return false;
+  }
+
+  // Tokens only ever cover the issuer's own files
+  if (claims.sub !== file.userId) {
+    return false;
+  }
+
+  const shareToken = await prisma.shareToken.findUnique({
+    where: {id: claims.sid},
+    include: {directory: {select: {fullPath: true}}},
+  });
+
+  if (!shareToken || shareToken.userId !== file.userId) {
+    return false;
+  }
+
+  if (shareToken.revokedAt || shareToken.expiresAt <= now) {
+    return false;
+  }
+
+  if (shareToken.fileId) {
+    if (shareToken.fileId !== file.id) {
+      return false;
+    }
+  } else if (
+    !shareToken.directory ||
+    !isInDirectory(file.fullPath, shareToken.directory.fullPath)
+  ) {
+    return false;
+  }
+
+  const {count} = await prisma.shareToken.updateMany({
+    where: {
+      id: shareToken.id,
+      revokedAt: null,
+      expiresAt: {gt: now},
+      ...(shareToken.maxDownloads !== null && {
+        downloadCount: {lt: shareToken.maxDownloads},
+      }),
+    },
+    data: {downloadCount: {increment: 1}},
+  });
+
+  return count > 0;
+}
+
+/**
+ * Revoke one of the user's share tokens. Returns false if it doesn't exist.
+ */
+export async function revokeShareToken(
+  userId: string,
+  shareTokenId: string,
+  now = new Date(),
+): Promise<boolean> {
+  const {count} = await prisma.shareToken.updateMany({
+    where: {id: shareTokenId, userId, revokedAt: null},
+    data: {revokedAt: now},
+  });
+
+  if (count > 0) {
+    return true;
+  }
+
+  // Revoking twice is fine as long as the token is the user's
+  const existing = await prisma.shareToken.findFirst({
+    where: {id: shareTokenId, userId},
+    select: {id: true},
+  });
+
+  return !!existing;
+}
+
+function isInDirectory(filePath: string, directoryPath: string): boolean {
+  return directoryPath === "/" || filePath.startsWith(`${directoryPath}/`);
+}
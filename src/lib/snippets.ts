@@ -0,0 +1,182 @@
+// Ready-to-run commands for the "Copy as curl" buttons. Kept free of server-only
+// imports so the upload modal can build its snippets in the browser.
+
+import type {Permissions, SnippetLanguage, SnippetSet} from "@hulkastorus/sdk/contract";
+
+// Tab order in the UI
+export const SNIPPET_LANGUAGES: readonly SnippetLanguage[] = ["bash", "powershell", "python"];
+
+// Tab labels for TabbedCodeBlock
+export const snippetLanguageLabels: Record<SnippetLanguage, string> = {
+  bash: "Bash",
+  powershell: "PowerShell",
+  python: "Python",
+};
+
+// Environment variables the snippets read secrets from, so they can be pasted into chat safely
+export const API_KEY_ENV_VAR = "HULK_API_KEY";
+export const ACCESS_PASSWORD_ENV_VAR = "HULK_ACCESS_PASSWORD";
+
+export interface DownloadSnippetOptions {
+  // The file's public link needs a password (see PUT /api/v1/files/:id accessPassword)
+  passwordProtected?: boolean;
+}
+
+export interface UploadSnippetInput {
+  filename: string;
+  fullPath: string;
+  mimeType?: string | null;
+  permissions?: Permissions;
+  expirationPolicy?: string;
+}
+
+// Quote a string for POSIX shells
+function bashQuote(value: string): string {
+  return `'${value.replace(/'/g, `'\\''`)}'`;
+}
+
+// Quote a string for PowerShell, where single-quoted strings are literal
+function powershellQuote(value: string): string {
+  return `'${value.replace(/'/g, "''")}'`;
+}
+
+// JSON string literals are valid Python string literals
+function pythonQuote(value: string): string {
+  return JSON.stringify(value);
+}
+
+function trimBaseUrl(baseUrl: string): string {
+  return baseUrl.replace(/\/+$/, "");
+}
+
+// Stream a download to disk; extra request arguments read secrets from the environment
+function pythonDownload(url: string, filename: string, requestArgs: string[] = []): string {
+  return [
+    ...(requestArgs.length > 0 ? ["import os"] : []),
+    "import requests",
+    "",
+    `with requests.get(${[pythonQuote(url), ...requestArgs, "stream=True"].join(", ")}) as response:`,
+    "    response.raise_for_status()",
+    `    with open(${pythonQuote(filename)}, "wb") as f:`,
+    "        for chunk in response.iter_content(chunk_size=1024 * 1024):",
+    "            f.write(chunk)",
+  ].join("\n");
+}
+
+/**
+ * Download a file through its public /d/:id link
+ */
+export function buildDownloadSnippets(
+  baseUrl: string,
+  file: {id: string; filename: string},
+  options: DownloadSnippetOptions = {},
+): SnippetSet {
+  const url = `${trimBaseUrl(baseUrl)}/d/${file.id}`;
+
+  if (!options.passwordProtected) {
+    return {
+      bash: `curl -L -o ${bashQuote(file.filename)} ${bashQuote(url)}`,
+      powershell: `Invoke-WebRequest -Uri ${powershellQuote(url)} -OutFile ${powershellQuote(file.filename)}`,
+      python: pythonDownload(url, file.filename),
+    };
+  }
+
+  return {
+    bash: `curl -L -H "X-Access-Password: $${ACCESS_PASSWORD_ENV_VAR}" -o ${bashQuote(file.filename)} ${bashQuote(url)}`,
+    powershell: [
+      `$headers = @{"X-Access-Password" = $env:${ACCESS_PASSWORD_ENV_VAR}}`,
+      `Invoke-WebRequest -Uri ${powershellQuote(url)} -Headers $headers -OutFile ${powershellQuote(file.filename)}`,
+    ].join("\n"),
+    python: pythonDownload(url, file.filename, [
+      `headers={"X-Access-Password": os.environ["${ACCESS_PASSWORD_ENV_VAR}"]}`,
+    ]),
+  };
+}
+
+/**
+ * Download a file with an API key, which works whatever its permissions
+ */
+export function buildAuthenticatedDownloadSnippets(
+  baseUrl: string,
+  file: {id: string; filename: string},
+): SnippetSet {
+  const url = `${trimBaseUrl(baseUrl)}/api/v1/files/${file.id}/download`;
+
+  // All three clients drop the Authorization header when redirected to the storage URL
+  return {
+    bash: `curl -L -H "Authorization: Bearer $${API_KEY_ENV_VAR}" -o ${bashQuote(file.filename)} ${bashQuote(url)}`,
+    powershell: [
+      `$headers = @{Authorization = "Bearer $env:${API_KEY_ENV_VAR}"}`,
+      `Invoke-WebRequest -Uri ${powershellQuote(url)} -Headers $headers -OutFile ${powershellQuote(file.filename)}`,
+    ].join("\n"),
+    python: pythonDownload(url, file.filename, [
+      `headers={"Authorization": f"Bearer {os.environ['${API_KEY_ENV_VAR}']}"}`,
+    ]),
+  };
+}
+
+/**
+ * Upload a local file: reserve it with POST /api/v1/files, PUT the contents to
+ * the returned upload URL, then mark it uploaded so it gets validated
+ */
+export function buildUploadSnippets(baseUrl: string, input: UploadSnippetInput): SnippetSet {
+  const apiUrl = `${trimBaseUrl(baseUrl)}/api/v1`;
+
+  // The upload URL is signed for the reserved MIME type, so the PUT has to send it too
+  const body: Record<string, string> = {filename: input.filename, fullPath: input.fullPath};
+  if (input.mimeType) body.mimeType = input.mimeType;
+  if (input.permissions) body.permissions = input.permissions;
+  if (input.expirationPolicy) body.expirationPolicy = input.expirationPolicy;
+
+  const json = JSON.stringify(body);
+  const pythonBody = `{${Object.entries(body)
+    .map(([key, value]) => `${pythonQuote(key)}: ${pythonQuote(value)}`)
+    .join(", ")}}`;
+
+  const bash = [
+    `RESPONSE=$(curl -sS -X POST ${bashQuote(`${apiUrl}/files`)} \\`,
+    `  -H "Authorization: Bearer $${API_KEY_ENV_VAR}" -H "Content-Type: application/json" \\`,
+    `  -d ${bashQuote(json)})`,
+    `FILE_ID=$(echo "$RESPONSE" | jq -r .id)`,
+    `UPLOAD_URL=$(echo "$RESPONSE" | jq -r .uploadUrl)`,
+    "",
+    `curl -sS -X PUT${input.mimeType ? ` -H ${bashQuote(`Content-Type: ${input.mimeType}`)}` : ""} --upload-file ${bashQuote(input.filename)} "$UPLOAD_URL"`,
+    "",
+    `curl -sS -X PUT "${apiUrl}/files/$FILE_ID/status" \\`,
+    `  -H "Authorization: Bearer $${API_KEY_ENV_VAR}" -H "Content-Type: application/json" \\`,
+    `  -d '{"status": "uploaded"}'`,
+  ].join("\n");
+
+  const powershell = [
+    `$headers = @{Authorization = "Bearer $env:${API_KEY_ENV_VAR}"}`,
+    `$file = Invoke-RestMethod -Method Post -Uri ${powershellQuote(`${apiUrl}/files`)} -Headers $headers \``,
+    `  -ContentType "application/json" -Body ${powershellQuote(json)}`,
+    "",
+    `Invoke-RestMethod -Method Put -Uri $file.uploadUrl -InFile ${powershellQuote(input.filename)}${input.mimeType ? ` -ContentType ${powershellQuote(input.mimeType)}` : ""}`,
+    "",
+    `Invoke-RestMethod -Method Put -Uri "${apiUrl}/files/$($file.id)/status" -Headers $headers \``,
+    `  -ContentType "application/json" -Body '{"status": "uploaded"}'`,
+  ].join("\n");
+
+  const python = [
+    "import os",
+    "import requests",
+    "",
+    `API_URL = ${pythonQuote(apiUrl)}`,
+    `headers = {"Authorization": f"Bearer {os.environ['${API_KEY_ENV_VAR}']}"}`,
+    "",
+    `response = requests.post(f"{API_URL}/files", headers=headers, json=${pythonBody})`,
+    "response.raise_for_status()",
+    "file = response.json()",
+    "",
+    `with open(${pythonQuote(input.filename)}, "rb") as f:`,
+    input.mimeType
+      ? `    upload = requests.put(file["uploadUrl"], data=f, headers={"Content-Type": ${pythonQuote(input.mimeType)}})`
+      : `    upload = requests.put(file["uploadUrl"], data=f)`,
+    "upload.raise_for_status()",
+    "",
+    `requests.put(f"{API_URL}/files/{file['id']}/status", headers=headers, json={"status": "uploaded"}).raise_for_status()`,
+  ].join("\n");
+
+  return {bash, powershell, python};
+}
@@ -0,0 +1,114 @@
+import {lookup, type LookupAddress, type LookupOptions} from "dns";
+import {BlockList, isIP} from "net";
+
+// Loopback, private, link-local (cloud metadata), CGNAT, documentation, multicast and reserved ranges
+const blockedRanges = new BlockList();
+for (const [network, prefix] of [
+  ["0.0.0.0", 8],
+  ["10.0.0.0", 8],
+  ["100.64.0.0", 10],
+  ["127.0.0.0", 8],
+  ["169.254.0.0", 16],
+  ["172.16.0.0", 12],
+  ["192.0.0.0", 24],
+  ["192.0.2.0", 24],
+  ["192.168.0.0", 16],
+  ["198.18.0.0", 15],
+  ["198.51.100.0", 24],
+  ["203.0.113.0", 24],
+  ["224.0.0.0", 4],
+  ["240.0.0.0", 4],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, "ipv4");
+}
+for (const [network, prefix] of [
+  ["::", 128],
+  ["::1", 128],
+  // NAT64 addresses can point back into the IPv4 ranges above. IPv4-mapped
+  // addresses (::ffff:0:0/96) need no entry: BlockList checks them against the IPv4 rules
+  ["64:ff9b::", 96],
+  ["2001:db8::", 32],
+  ["fc00::", 7],
+  ["fe80::", 10],
+  ["ff00::", 8],
+] as const) {
+  blockedRanges.addSubnet(network, prefix, "ipv6");
+}
+
+/**
+ * Whether an IP address is on the public internet, i.e. safe for the server
+ * to connect to on a user's behalf.
+ */
+export function isPublicAddress(address: string): boolean {
+  const family = isIP(address);
+  if (family === 0) {
+    return false;
+  }
+
+  return !blockedRanges.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * Check a user-supplied URL before fetching it: only http(s), and hosts given
+ * as IP addresses must be public. Hostnames are checked when they resolve,
+ * through `guardedLookup`. Returns an error message, or null if the URL is fine.
+ */
+export function checkFetchableUrl(url: URL): string | null {
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    return "Only http and https URLs are supported";
+  }
+
+  if (url.username || url.password) {
+    return "URLs with credentials are not supported";
+  }
+
+  const hostname = url.hostname.replace(/^\[|\]$/g, "");
+  if (isIP(hostname) && !isPublicAddress(hostname)) {
+    return "URL points to a private network address";
+  }
+
+  if (hostname === "localhost" || hostname.endsWith(".localhost")) {
+    return "URL points to a private network address";
+  }
+
+  return null;
+}
+
+/**
+ * Drop-in `lookup` for http.request that refuses hostnames resolving to a
+ * non-public address. Because the check happens at connection time, it also
+ * covers redirects and DNS records that change between checks.
+ */
+export function guardedLookup(
+  hostname: string,
+  options: LookupOptions,
+  callback: (
+    error: NodeJS.ErrnoException | null,
+    address: string | LookupAddress[],
+    family?: number,
+  ) => void,
+): void {
+  lookup(hostname, {...options, all: true}, (error, addresses) => {
+    if (error) {
+      callback(error, []);
+      return;
+    }
+
+    // Refuse the host outright if any of its addresses is private
+    const blocked = addresses.find(({address}) => !isPublicAddress(address));
+    if (blocked || addresses.length === 0) {
+      const refused: NodeJS.ErrnoException = new Error(
+        `${hostname} resolves to a private network address`,
+      );
+      refused.code = "EADDRNOTPUBLIC";
+      callback(refused, []);
+      return;
+    }
+
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}
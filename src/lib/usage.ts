@@ -0,0 +1,174 @@
+import {prisma} from "@/lib/prisma";
+import {getQuotaBytes, QUOTA_STATUSES} from "@/lib/quota";
+import type {CountByType, Usage, UsageCategory} from "@hulkastorus/sdk/contract";
+
+export const MODEL_MIME_TYPES = [
+  "application/x-hdf5",
+  "application/x-onnx",
+  "application/onnx",
+  "application/x-safetensors",
+  "application/x-pytorch",
+  "application/x-tflite",
+];
+
+export const DATASET_MIME_TYPES = [
+  "text/csv",
+  "text/tab-separated-values",
+  "application/jsonl",
+  "application/x-ndjson",
+  "application/x-parquet",
+  "application/vnd.apache.parquet",
+  "application/vnd.apache.arrow.file",
+];
+
+export const DOCUMENT_MIME_TYPES = [
+  "application/pdf",
+  "application/rtf",
+  "application/msword",
+  "application/epub+zip",
+  "text/plain",
+  "text/markdown",
+  "text/rtf",
+];
+
+export const DOCUMENT_MIME_PREFIXES = [
+  "application/vnd.openxmlformats-officedocument.",
+  "application/vnd.oasis.opendocument.",
+  "application/vnd.ms-",
+];
+
+// Browsers report these for files they don't recognize, e.g. .safetensors or .parquet
+export const GENERIC_MIME_TYPES = ["application/octet-stream", ""];
+
+// Extensions used to classify files uploaded with a generic MIME type
+export const MODEL_EXTENSIONS = [
+  ".safetensors",
+  ".ckpt",
+  ".pt",
+  ".pth",
+  ".onnx",
+  ".gguf",
+  ".h5",
+  ".keras",
+  ".tflite",
+  ".mlmodel",
+];
+
+export const DATASET_EXTENSIONS = [".csv", ".tsv", ".parquet", ".jsonl", ".ndjson", ".arrow"];
+
+/**
+ * Bucket a MIME type into a usage category. Generic types land in "other";
+ * `getUsage` reclassifies those by file extension.
+ */
+export function categorizeMimeType(mimeType: string | null): UsageCategory {
+  const type = (mimeType || "").split(";")[0].trim().toLowerCase();
+
+  if (type.startsWith("image/")) return "images";
+  if (type.startsWith("video/")) return "videos";
+  if (type.startsWith("audio/")) return "audios";
+  if (MODEL_MIME_TYPES.includes(type)) return "models";
+  if (DATASET_MIME_TYPES.includes(type)) return "datasets";
+  if (
+    DOCUMENT_MIME_TYPES.includes(type) ||
+    DOCUMENT_MIME_PREFIXES.some((prefix) => type.startsWith(prefix))
+  ) {
+    return "documents";
+  }
+
+  return "other";
+}
+
+function emptyCounts(): CountByType {
+  return {
+    total: 0,
+    images: 0,
+    videos: 0,
+    audios: 0,
+    models: 0,
+    datasets: 0,
+    documents: 0,
+    other: 0,
+  };
+}
+
+/**
+ * Aggregate a user's file and byte counts per category, counting the same
+ * files as the quota check. Returns null if the user doesn't exist.
+ */
+export async function getUsage(userId: string): Promise<Usage | null> {
+  const user = await prisma.user.findUnique({
+    where: {id: userId},
+    select: {plan: true, quotaBytes: true},
+  });
+
+  if (!user) {
+    return null;
+  }
+
+  const where = {userId, status: {in: QUOTA_STATUSES}};
+  const groups = await prisma.file.groupBy({
+    by: ["mimeType"],
+    where,
+    _count: {_all: true},
+    _sum: {sizeBytes: true},
+  });
+
+  const fileCounts = emptyCounts();
+  const byteCounts = emptyCounts();
+  let hasGenericFiles = false;
+
+  for (const group of groups) {
+    const category = categorizeMimeType(group.mimeType);
+    const files = group._count._all;
+    const bytes = Number(group._sum.sizeBytes || 0);
+
+    fileCounts[category] += files;
+    fileCounts.total += files;
+    byteCounts[category] += bytes;
+    byteCounts.total += bytes;
+
+    if (group.mimeType === null || GENERIC_MIME_TYPES.includes(group.mimeType)) {
+      hasGenericFiles = true;
+    }
+  }
+
+  // Move generic binaries that are recognizably models or datasets out of "other"
+  if (hasGenericFiles) {
+    const extensionCategories = [
+      ["models", MODEL_EXTENSIONS],
+      ["datasets", DATASET_EXTENSIONS],
+    ] as const;
+
+    for (const [category, extensions] of extensionCategories) {
+      const result = await prisma.file.aggregate({
+        where: {
+          ...where,
+          AND: [
+            {OR: [{mimeType: null}, {mimeType: {in: GENERIC_MIME_TYPES}}]},
+            {
+              OR: extensions.map((extension) => ({
+                filename: {endsWith: extension, mode: "insensitive" as const},
+              })),
+            },
+          ],
+        },
+        _count: {_all: true},
+        _sum: {sizeBytes: true},
+      });
+
+      const files = result._count._all;
+      const bytes = Number(result._sum.sizeBytes || 0);
+
+      fileCounts[category] += files;
+      fileCounts.other -= files;
+      byteCounts[category] += bytes;
+      byteCounts.other -= bytes;
+    }
+  }
+
+  return {
+    file_counts: fileCounts,
+    byte_counts: byteCounts,
+    quota_bytes: getQuotaBytes(user),
+  };
+}
@@ -0,0 +1,163 @@
+import bcrypt from "bcryptjs";
+import type {User} from "@prisma/client";
+import {prisma} from "@/lib/prisma";
+import {generateNanoId} from "@/lib/nanoid";
+import {claimInviteCode, normalizeInviteCode} from "@/lib/invite-codes";
+import {passwordResetIdentifier} from "@/lib/password-reset";
+import {currentEnv, getR2Client, lifecyclePolicies} from "@/lib/r2-config";
+
+export interface CreateUserInput {
+  email: string;
+  password: string;
+  firstName: string;
+  lastName: string;
+  inviteCode: string;
+}
+
+export type CreateUserResult = {ok: true; user: User} | {ok: false; error: string};
+
+/**
+ * Create a user by redeeming an invite code. The redemption and the user are
+ * written in one transaction, so a code is only spent if the user is created.
+ * Duplicate emails surface as Prisma P2002 errors.
+ */
+export async function createUser(data: CreateUserInput): Promise<CreateUserResult> {
+  const hashedPassword = await bcrypt.hash(data.password, 10);
+
+  return prisma.$transaction(async (tx) => {
+    const claim = await claimInviteCode(tx, data.inviteCode);
+    if (!claim.ok) {
+      return claim;
+    }
+
+    const user = await tx.user.create({
+      data: {
+        id: generateNanoId(),
+        email: data.email,
+        password: hashedPassword,
+        firstName: data.firstName,
+        lastName: data.lastName,
+        inviteCode: normalizeInviteCode(data.inviteCode),
+        isEmailVerified: false,
+      },
+    });
+
+    await tx.inviteRedemption.create({
+      data: {
+        id: generateNanoId(),
+        inviteCodeId: claim.inviteCode.id,
+        userId: user.id,
+      },
+    });
+
+    return {ok: true as const, user};
+  });
+}
+
+export interface AccountDeletionResult {
+  // Objects removed from R2, including leftovers no File row pointed at
+  objectsDeleted: number;
+  // Object keys that couldn't be removed; the account is kept so deletion can be retried
+  failed: string[];
+  deleted: boolean;
+}
+
+/**
+ * Check a user's current password, for re-confirming sensitive changes
+ */
+export async function verifyUserPassword(userId: string, password: string): Promise<boolean> {
+  const user = await prisma.user.findUnique({
+    where: {id: userId},
+    select: {password: true},
+  });
+
+  return !!user && (await bcrypt.compare(password, user.password));
+}
+
+/**
+ * Replace a user's password. Outstanding reset links are invalidated with the
+ * old password, so a leaked link can't undo the change.
+ */
+export async function changeUserPassword(userId: string, newPassword: string): Promise<void> {
+  const hashedPassword = await bcrypt.hash(newPassword, 10);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.user.update({
+      where: {id: userId},
+      data: {password: hashedPassword},
+    });
+    await tx.verificationToken.deleteMany({
+      where: {identifier: passwordResetIdentifier(userId)},
+    });
+  });
+}
+
+/**
+ * Delete a user and every R2 object they own. Objects are removed first, both
+ * those tracked by File rows and any leftovers under the user's key prefixes;
+ * the database rows (which cascade) are only deleted once storage is clean.
+ */
+export async function deleteUserAccount(userId: string): Promise<AccountDeletionResult> {
+  const r2Client = getR2Client();
+  const result: AccountDeletionResult = {objectsDeleted: 0, failed: [], deleted: false};
+
+  const files = await prisma.file.findMany({
+    where: {userId, r2Locator: {not: null}},
+    select: {r2Locator: true, uploadId: true},
+  });
+
+  for (const file of files) {
+    const objectParts = r2Client.parseObjectKey(file.r2Locator!);
+    if (!objectParts) {
+      continue;
+    }
+
+    try {
+      if (file.uploadId) {
+        await r2Client.abortMultipartUpload({...objectParts, uploadId: file.uploadId});
+      }
+      await r2Client.deleteObject(objectParts);
+      result.objectsDeleted++;
+    } catch (error) {
+      console.error(`Error deleting object ${file.r2Locator}:`, error);
+      result.failed.push(file.r2Locator!);
+    }
+  }
+
+  // Sweep every lifecycle prefix for objects no row points at
+  for (const lifecyclePolicy of Object.values(lifecyclePolicies)) {
+    let continuationToken: string | undefined;
+
+    do {
+      const page = await r2Client.listObjects({
+        prefix: `${currentEnv}/${lifecyclePolicy}/${userId}/`,
+        continuationToken,
+      });
+      continuationToken = page.nextContinuationToken;
+
+      for (const object of page.objects) {
+        const objectParts = r2Client.parseObjectKey(object.key);
+        if (!objectParts) {
+          continue;
+        }
+
+        try {
+          await r2Client.deleteObject(objectParts);
+          result.objectsDeleted++;
+        } catch (error) {
+          console.error(`Error deleting object ${object.key}:`, error);
+          result.failed.push(object.key);
+        }
+      }
+    } while (continuationToken);
+  }
+
+  if (result.failed.length > 0) {
+    return result;
+  }
+
+  await prisma.user.delete({where: {id: userId}});
+  result.deleted = true;
+
+  return result;
+}
@@ -16,13 +16,14 @@ export default withAuth(
           "/login",
           "/register",
           "/reset-password",
+          "/verify-email",
           "/privacy",
           "/terms",
           "/docs",
         ];
 
-        // API routes that don't require authentication
-        const publicApiRoutes = ["/api/auth", "/api/v1/users"];
+        // API routes that don't require authentication (cron routes check CRON_SECRET)
+        const publicApiRoutes = ["/api/auth", "/api/v1/users", "/api/cron"];
 
         // Check if the current path is public
         if (publicRoutes.includes(pathname)) {
@@ -34,6 +35,27 @@ export default withAuth(
           return true;
         }
 
+        // API key requests are verified by the route handlers themselves
+        const apiKeyRoutes = ["/api/v1"];
+        const authHeader = req.headers.get("authorization");
+        if (
+          authHeader?.startsWith("Bearer ") &&
+          apiKeyRoutes.some((route) => pathname.startsWith(route))
+        ) {
+          return true;
+        }
+
+        // Download links check public access, share tokens and access passwords themselves
+        if (pathname.startsWith("/d/")) {
+          return true;
+        }
+
+        // Share tokens are verified by the download route handler itself
+        const isDownloadRoute = /^\/api\/v1\/files\/[^/]+\/download$/.test(pathname);
+        if (isDownloadRoute && req.nextUrl.searchParams.has("token")) {
+          return true;
+        }
+
         // All other routes require authentication
         return !!token;
       },
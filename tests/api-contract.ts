@@ -0,0 +1,34 @@
+import {documentedResponse, findOperation} from "../src/lib/openapi";
+
+/**
+ * Read a route handler's JSON response, failing unless the OpenAPI document
+ * lists its status for the request and the body matches the documented schema.
+ */
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+export async function readDocumentedResponse(request: Request, response: Response): Promise<any> {
+  const {pathname} = new URL(request.url);
+  const operation = findOperation(request.method, pathname);
+  if (!operation) {
+    throw new Error(`${request.method} ${pathname} is not documented`);
+  }
+
+  const documented = documentedResponse(operation, response.status);
+  if (!documented) {
+    throw new Error(
+      `${operation.method.toUpperCase()} ${operation.path} doesn't document status ${response.status}`,
+    );
+  }
+
+  const body = await response.json();
+  if (documented.schema) {
+    const result = documented.schema.safeParse(body);
+    if (!result.success) {
+      throw new Error(
+        `${operation.method.toUpperCase()} ${operation.path} ${response.status} doesn't match ` +
+          `its documented schema: ${result.error.message}`,
+      );
+    }
+  }
+
+  return body;
+}
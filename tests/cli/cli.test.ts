@@ -0,0 +1,350 @@
+import {mkdtemp, readFile, rm, stat, writeFile} from "fs/promises";
+import {tmpdir} from "os";
+import {join} from "path";
+import {Readable, Writable} from "stream";
+import {run} from "../../packages/cli/src/cli";
+import {MockHulkApiServer} from "../mocks/hulk-api-server";
+import {MockR2Server} from "../mocks/r2-server";
+
+describe("hulk CLI", () => {
+  let mockR2: MockR2Server;
+  let api: MockHulkApiServer;
+  let workDir: string;
+  let configDir: string;
+  let copied: string[];
+
+  // Run the CLI in-process and capture its output
+  const hulk = async (
+    args: string[],
+    options: {env?: Record<string, string>; stdin?: string} = {},
+  ) => {
+    let stdout = "";
+    let stderr = "";
+    const capture = (append: (text: string) => void) =>
+      new Writable({
+        write(chunk, _encoding, callback) {
+          append(chunk.toString());
+          callback();
+        },
+      });
+
+    const code = await run(args, {
+      stdout: capture((text) => (stdout += text)),
+      stderr: capture((text) => (stderr += text)),
+      stdin: Readable.from([options.stdin ?? ""]),
+      env: {
+        HULK_CONFIG_DIR: configDir,
+        HULK_URL: api.getEndpoint(),
+        HULK_API_KEY: api.apiKey,
+        ...options.env,
+      },
+      cwd: workDir,
+      copy: async (text) => {
+        copied.push(text);
+        return true;
+      },
+      multipartThreshold: 4096,
+    });
+
+    return {code, stdout, stderr};
+  };
+
+  const createLocalFile = async (name: string, size: number) => {
+    const data = Buffer.alloc(size);
+    for (let i = 0; i < size; i++) data[i] = (i * 7) % 251;
+    await writeFile(join(workDir, name), data);
+    return data;
+  };
+
+  beforeAll(async () => {
+    mockR2 = new MockR2Server(9021, "test-bucket");
+    await mockR2.start();
+    api = new MockHulkApiServer(9022, mockR2.getEndpoint());
+    await api.start();
+  });
+
+  afterAll(async () => {
+    await api.stop();
+    await mockR2.stop();
+  });
+
+  beforeEach(async () => {
+    mockR2.clear();
+    api.clear();
+    copied = [];
+    workDir = await mkdtemp(join(tmpdir(), "hulk-cli-"));
+    configDir = join(workDir, ".hulk");
+  });
+
+  afterEach(async () => {
+    await rm(workDir, {recursive: true, force: true});
+    // Every response the CLI saw is one the real routes could give
+    expect(api.contractErrors).toEqual([]);
+  });
+
+  describe("login", () => {
+    it("should verify and save the API key privately", async () => {
+      const result = await hulk(["login", "--api-key", api.apiKey], {env: {HULK_API_KEY: ""}});
+
+      expect(result.code).toBe(0);
+      expect(result.stderr).toContain(`Logged in to ${api.getEndpoint()}`);
+
+      const config = JSON.parse(await readFile(join(configDir, "config.json"), "utf8"));
+      expect(config).toEqual({url: api.getEndpoint(), apiKey: api.apiKey});
+      expect((await stat(join(configDir, "config.json"))).mode & 0o777).toBe(0o600);
+    });
+
+    it("should prompt for the key when none is given", async () => {
+      const result = await hulk(["login"], {env: {HULK_API_KEY: ""}, stdin: `${api.apiKey}\n`});
+
+      expect(result.code).toBe(0);
+      expect(result.stderr).toContain("API key for");
+    });
+
+    it("should reject an invalid key without saving it", async () => {
+      const result = await hulk(["login", "--api-key", "wrong"]);
+
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("hulk: Invalid API key");
+      await expect(stat(join(configDir, "config.json"))).rejects.toThrow();
+    });
+
+    it("should use the saved key for later commands", async () => {
+      await hulk(["login", "--api-key", api.apiKey], {env: {HULK_API_KEY: ""}});
+
+      const result = await hulk(["ls"], {env: {HULK_API_KEY: ""}});
+      expect(result.code).toBe(0);
+    });
+
+    it("should ask to log in when there is no key", async () => {
+      const result = await hulk(["ls"], {env: {HULK_API_KEY: ""}});
+
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("Not logged in");
+    });
+  });
+
+  describe("put", () => {
+    it("should upload a file, print its link and copy it", async () => {
+      const data = await createLocalFile("notes.txt", 1000);
+
+      const result = await hulk(["put", "notes.txt", "--public", "--expire", "7d"]);
+
+      expect(result.code).toBe(0);
+      const [file] = api.findFiles("/notes.txt");
+      expect(file).toMatchObject({status: "validated", permissions: "public", sizeBytes: 1000});
+      expect(file.expirationPolicy).toBe("7d");
+      expect(result.stdout.trim()).toBe(`${api.getEndpoint()}/d/${file.id}`);
+      expect(copied).toEqual([`${api.getEndpoint()}/d/${file.id}`]);
+
+      const stored = await fetch(
+        `${mockR2.getEndpoint()}/test-bucket/test/infinite/${api.userId}/${file.id}`,
+      );
+      expect(Buffer.from(await stored.arrayBuffer())).toEqual(data);
+    });
+
+    it("should upload into an existing directory and hint at sharing private files", async () => {
+      await createLocalFile("q3.pdf", 100);
+      await hulk(["mkdir", "/reports"]);
+
+      const result = await hulk(["put", "q3.pdf", "/reports", "--no-copy"]);
+
+      expect(result.code).toBe(0);
+      expect(api.findFiles("/reports/q3.pdf")).toHaveLength(1);
+      expect(result.stderr).toContain("hulk share");
+      expect(copied).toEqual([]);
+    });
+
+    it("should upload large files in parts", async () => {
+      const data = await createLocalFile("big.bin", 5000);
+
+      const result = await hulk(["put", "big.bin", "/data/big.bin"]);
+
+      expect(result.code).toBe(0);
+      expect(api.requests).toContain(
+        `POST /files/${api.findFiles("/data/big.bin")[0].id}/multipart`,
+      );
+
+      const download = await hulk(["get", "/data/big.bin", "copy.bin"]);
+      expect(download.code).toBe(0);
+      expect(await readFile(join(workDir, "copy.bin"))).toEqual(data);
+    });
+
+    it("should resume an interrupted multipart upload", async () => {
+      await createLocalFile("big.bin", 5000);
+      api.failNext("POST", /\/multipart\/complete$/);
+
+      const failed = await hulk(["put", "big.bin"]);
+      expect(failed.code).toBe(1);
+
+      api.requests.length = 0;
+      const result = await hulk(["put", "big.bin"]);
+
+      expect(result.code).toBe(0);
+      expect(result.stderr).toContain("Resumed and uploaded /big.bin");
+      // Every part was already in storage, so none were signed again
+      expect(api.requests.filter((request) => request.endsWith("/multipart/parts"))).toEqual([
+        expect.stringMatching(/^GET /),
+      ]);
+      expect(api.findFiles("/big.bin")).toHaveLength(1);
+      expect(api.findFiles("/big.bin")[0].status).toBe("validated");
+    });
+
+    it("should reject unknown expiration policies", async () => {
+      await createLocalFile("notes.txt", 10);
+
+      const result = await hulk(["put", "notes.txt", "--expire", "2w"]);
+
+      expect(result.code).toBe(2);
+      expect(result.stderr).toContain('Unknown expiration policy "2w"');
+    });
+  });
+
+  describe("get", () => {
+    it("should download a file by ID", async () => {
+      const data = await createLocalFile("notes.txt", 300);
+      await hulk(["put", "notes.txt", "/docs/notes.txt"]);
+      await rm(join(workDir, "notes.txt"));
+
+      const result = await hulk(["get", api.findFiles("/docs/notes.txt")[0].id]);
+
+      expect(result.code).toBe(0);
+      expect(await readFile(join(workDir, "notes.txt"))).toEqual(data);
+    });
+
+    it("should resume a partial download", async () => {
+      const data = await createLocalFile("big.bin", 3000);
+      await hulk(["put", "big.bin"]);
+      await writeFile(join(workDir, "out.bin.part"), data.subarray(0, 1200));
+
+      const result = await hulk(["get", "/big.bin", "out.bin"]);
+
+      expect(result.code).toBe(0);
+      expect(result.stderr).toContain("Resumed at");
+      expect(await readFile(join(workDir, "out.bin"))).toEqual(data);
+      await expect(stat(join(workDir, "out.bin.part"))).rejects.toThrow();
+    });
+
+    it("should fail for missing files and directories", async () => {
+      await hulk(["mkdir", "/reports"]);
+
+      expect((await hulk(["get", "/nope.txt"])).stderr).toContain("No such file or directory");
+      expect((await hulk(["get", "/reports"])).stderr).toContain("/reports is a directory");
+    });
+  });
+
+  describe("ls, mkdir, mv and rm", () => {
+    beforeEach(async () => {
+      await createLocalFile("a.txt", 2048);
+      await hulk(["mkdir", "/reports/2024"]);
+      await hulk(["put", "a.txt", "/reports/a.txt"]);
+    });
+
+    it("should list a directory", async () => {
+      const result = await hulk(["ls", "/reports"]);
+
+      expect(result.code).toBe(0);
+      const lines = result.stdout.trim().split("\n");
+      expect(lines[0]).toMatch(/2024\/$/);
+      expect(lines[1]).toMatch(/2\.0 KB\s+private\s+never\s+a\.txt$/);
+    });
+
+    it("should rename and move files", async () => {
+      expect((await hulk(["mv", "/reports/a.txt", "/reports/b.txt"])).code).toBe(0);
+      expect(api.findFiles("/reports/b.txt")[0].filename).toBe("b.txt");
+
+      expect((await hulk(["mv", "/reports/b.txt", "/reports/2024"])).code).toBe(0);
+      expect(api.findFiles("/reports/2024/b.txt")).toHaveLength(1);
+    });
+
+    it("should move directories with their contents", async () => {
+      const result = await hulk(["mv", "/reports", "/archive"]);
+
+      expect(result.code).toBe(0);
+      expect(api.findDirectory("/archive/2024")).toBeDefined();
+      expect(api.findFiles("/archive/a.txt")).toHaveLength(1);
+    });
+
+    it("should delete files, and directories only with -r", async () => {
+      expect((await hulk(["rm", "/reports/a.txt"])).code).toBe(0);
+      expect(api.findFiles("/reports/a.txt")).toHaveLength(0);
+
+      const refused = await hulk(["rm", "/reports"]);
+      expect(refused.code).toBe(1);
+      expect(refused.stderr).toContain("use -r");
+
+      expect((await hulk(["rm", "-r", "/reports"])).code).toBe(0);
+      expect(api.findDirectory("/reports")).toBeUndefined();
+      expect(api.findDirectory("/reports/2024")).toBeUndefined();
+    });
+
+    it("should refuse to delete the root directory", async () => {
+      const result = await hulk(["rm", "-r", "/"]);
+
+      expect(result.code).toBe(1);
+      expect(result.stderr).toContain("Refusing to delete /");
+    });
+  });
+
+  describe("share and expire", () => {
+    beforeEach(async () => {
+      await createLocalFile("a.txt", 10);
+      await hulk(["put", "a.txt", "--no-copy"]);
+    });
+
+    it("should create and copy a share link for a file", async () => {
+      const result = await hulk(["share", "/a.txt", "--expires", "12h", "--max-downloads", "3"]);
+
+      expect(result.code).toBe(0);
+      expect(result.stdout.trim()).toMatch(/\/d\/file\d+\?token=[0-9a-f]+$/);
+      expect(copied).toEqual([result.stdout.trim()]);
+    });
+
+    it("should print a token for directories", async () => {
+      await hulk(["mkdir", "/shared"]);
+
+      const result = await hulk(["share", "/shared"]);
+
+      expect(result.code).toBe(0);
+      expect(result.stdout.trim()).toMatch(/^[0-9a-f]{32}$/);
+      expect(result.stderr).toContain("?token=<token>");
+    });
+
+    it("should reject invalid share options", async () => {
+      expect((await hulk(["share", "/a.txt", "--expires", "soon"])).code).toBe(2);
+      expect((await hulk(["share", "/a.txt", "--max-downloads", "0"])).code).toBe(2);
+    });
+
+    it("should change a file's expiration policy", async () => {
+      const result = await hulk(["expire", "/a.txt", "30d"]);
+
+      expect(result.code).toBe(0);
+      expect(api.findFiles("/a.txt")[0].expirationPolicy).toBe("30d");
+
+      await hulk(["expire", "/a.txt", "never"]);
+      expect(api.findFiles("/a.txt")[0].expirationPolicy).toBe("infinite");
+    });
+
+    it("should set a directory's default expiration policy", async () => {
+      await hulk(["mkdir", "/tmp"]);
+
+      const result = await hulk(["expire", "/tmp", "1d"]);
+
+      expect(result.code).toBe(0);
+      expect(api.findDirectory("/tmp")!.defaultExpirationPolicy).toBe("1d");
+    });
+  });
+
+  describe("usage", () => {
+    it("should print help and the version", async () => {
+      expect((await hulk(["--help"])).stdout).toContain("Usage: hulk <command>");
+      expect((await hulk(["--version"])).stdout.trim()).toBe("0.1.0");
+      expect((await hulk(["put", "--help"])).stdout).toContain("Usage: hulk put");
+    });
+
+    it("should exit with 2 for unknown commands and options", async () => {
+      expect((await hulk(["frobnicate"])).code).toBe(2);
+      expect((await hulk(["ls", "--bogus"])).code).toBe(2);
+    });
+  });
+});
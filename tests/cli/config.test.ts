@@ -0,0 +1,64 @@
+import {mkdtemp, rm} from "fs/promises";
+import {tmpdir} from "os";
+import {join} from "path";
+import {getConfigDir, resolveConfig, writeConfig} from "../../packages/cli/src/config";
+import {formatBytes, parseDuration} from "../../packages/cli/src/format";
+
+describe("hulk CLI config", () => {
+  let configDir: string;
+
+  beforeEach(async () => {
+    configDir = await mkdtemp(join(tmpdir(), "hulk-config-"));
+  });
+
+  afterEach(async () => {
+    await rm(configDir, {recursive: true, force: true});
+  });
+
+  it("should honour HULK_CONFIG_DIR, then XDG_CONFIG_HOME", () => {
+    expect(getConfigDir({HULK_CONFIG_DIR: "/custom"})).toBe("/custom");
+    expect(getConfigDir({XDG_CONFIG_HOME: "/xdg"})).toBe("/xdg/hulk");
+  });
+
+  it("should prefer flags, then the environment, then the saved config", async () => {
+    await writeConfig(configDir, {url: "https://saved.example.com", apiKey: "saved"});
+
+    expect(await resolveConfig(configDir, {}, {})).toEqual({
+      url: "https://saved.example.com",
+      apiKey: "saved",
+    });
+    expect(
+      await resolveConfig(
+        configDir,
+        {HULK_URL: "https://env.example.com/", HULK_API_KEY: "env"},
+        {},
+      ),
+    ).toEqual({url: "https://env.example.com", apiKey: "env"});
+    expect(
+      await resolveConfig(configDir, {HULK_API_KEY: "env"}, {apiKey: "flag", url: "http://x"}),
+    ).toEqual({url: "http://x", apiKey: "flag"});
+  });
+
+  it("should default to the local dev server", async () => {
+    expect(await resolveConfig(configDir, {}, {})).toEqual({
+      url: "http://localhost:3010",
+      apiKey: undefined,
+    });
+  });
+});
+
+describe("hulk CLI formatting", () => {
+  it("should parse durations into seconds", () => {
+    expect(parseDuration("30m")).toBe(1800);
+    expect(parseDuration("12h")).toBe(43200);
+    expect(parseDuration("7d")).toBe(604800);
+    expect(parseDuration("7")).toBeNull();
+    expect(parseDuration("1w")).toBeNull();
+  });
+
+  it("should format byte counts", () => {
+    expect(formatBytes(512)).toBe("512 B");
+    expect(formatBytes(2048)).toBe("2.0 KB");
+    expect(formatBytes(5 * 1024 * 1024)).toBe("5.0 MB");
+  });
+});
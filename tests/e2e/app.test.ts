@@ -67,7 +67,7 @@ test.describe("App Pages", () => {
     // Check form elements
     await expect(page.locator('input[value="john@example.com"]')).toBeVisible();
     await expect(page.getByRole("button", {name: "Save Changes"})).toBeVisible();
-    await expect(page.getByRole("button", {name: "Generate New Key"})).toBeVisible();
+    await expect(page.getByRole("button", {name: "➕ Generate & Copy"})).toBeVisible();
     await expect(page.getByRole("button", {name: "Delete Account"})).toBeVisible();
   });
 
@@ -226,6 +226,58 @@ test.describe("Login Flow", () => {
   });
 });
 
+test.describe("Password Reset Flow", () => {
+  test("reset request gives the same answer for unknown emails", async ({page}) => {
+    await page.goto("/login");
+    await page.getByText("Forgot password?").click();
+
+    await page.getByPlaceholder("Email").fill(`nobody${Date.now()}@example.com`);
+    await page.getByRole("button", {name: "Send Reset Link"}).click();
+
+    // Should not reveal that the account doesn't exist
+    await expect(page.getByText(/If an account exists/)).toBeVisible();
+  });
+
+  test("reset page without a token shows an error", async ({page}) => {
+    await page.goto("/reset-password");
+
+    await expect(page.getByText(/This reset link is incomplete/)).toBeVisible();
+
+    await page.getByPlaceholder("New Password").first().fill("newpassword123");
+    await page.getByPlaceholder("Confirm New Password").fill("newpassword123");
+    await page.getByRole("button", {name: "Reset Password"}).click();
+
+    await expect(page.getByText("Missing reset token")).toBeVisible();
+    await expect(page).toHaveURL("/reset-password");
+  });
+
+  test("reset with an invalid token shows an error", async ({page}) => {
+    await page.goto("/reset-password?token=not-a-real-token");
+
+    await page.getByPlaceholder("New Password").first().fill("newpassword123");
+    await page.getByPlaceholder("Confirm New Password").fill("newpassword123");
+    await page.getByRole("button", {name: "Reset Password"}).click();
+
+    await expect(page.getByText("Invalid or expired reset link")).toBeVisible();
+  });
+
+  test("reset rejects mismatched passwords", async ({page}) => {
+    await page.goto("/reset-password?token=not-a-real-token");
+
+    await page.getByPlaceholder("New Password").first().fill("newpassword123");
+    await page.getByPlaceholder("Confirm New Password").fill("different123");
+    await page.getByRole("button", {name: "Reset Password"}).click();
+
+    await expect(page.getByText("Passwords do not match")).toBeVisible();
+  });
+
+  test("login shows success message after reset", async ({page}) => {
+    await page.goto("/login?reset=true");
+
+    await expect(page.getByText(/Password updated/)).toBeVisible();
+  });
+});
+
 test.describe("Logout Flow", () => {
   test("logout clears session and redirects to login", async ({page}) => {
     // First create a user and login
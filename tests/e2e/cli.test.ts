@@ -0,0 +1,60 @@
+import {test, expect} from "@playwright/test";
+import {mkdtemp, readFile, rm, writeFile} from "fs/promises";
+import {tmpdir} from "os";
+import {join} from "path";
+import {Readable, Writable} from "stream";
+import {run} from "../../packages/cli/src/cli";
+import {loginUser} from "./auth-helper";
+
+/**
+ * E2E test for the hulk CLI against the real app, with storage on the mock R2
+ * server that the Playwright config starts alongside it.
+ */
+test.describe("hulk CLI", () => {
+  test("should upload, list, download and delete a file", async ({page, baseURL}) => {
+    await loginUser(page);
+    const keyResponse = await page.request.post("/api/v1/api-keys", {
+      data: {label: "hulk CLI e2e", permissions: "all"},
+    });
+    expect(keyResponse.status()).toBe(201);
+    const {key} = await keyResponse.json();
+
+    const workDir = await mkdtemp(join(tmpdir(), "hulk-e2e-"));
+    const hulk = async (args: string[]) => {
+      let stdout = "";
+      const code = await run(args, {
+        stdout: new Writable({
+          write(chunk, _encoding, callback) {
+            stdout += chunk.toString();
+            callback();
+          },
+        }),
+        stderr: new Writable({write: (_chunk, _encoding, callback) => callback()}),
+        stdin: Readable.from([]),
+        env: {HULK_CONFIG_DIR: join(workDir, ".hulk"), HULK_URL: baseURL, HULK_API_KEY: key},
+        cwd: workDir,
+        copy: async () => false,
+      });
+      return {code, stdout};
+    };
+
+    try {
+      await writeFile(join(workDir, "hello.txt"), "Hello from the hulk CLI");
+
+      const put = await hulk(["put", "hello.txt", "/cli-e2e/hello.txt", "--public"]);
+      expect(put.code).toBe(0);
+      expect(put.stdout).toContain(`${baseURL}/d/`);
+
+      const ls = await hulk(["ls", "/cli-e2e"]);
+      expect(ls.stdout).toContain("hello.txt");
+
+      expect((await hulk(["get", "/cli-e2e/hello.txt", "copy.txt"])).code).toBe(0);
+      expect(await readFile(join(workDir, "copy.txt"), "utf8")).toBe("Hello from the hulk CLI");
+
+      expect((await hulk(["rm", "-r", "/cli-e2e"])).code).toBe(0);
+      expect((await hulk(["ls", "/cli-e2e"])).code).toBe(1);
+    } finally {
+      await rm(workDir, {recursive: true, force: true});
+    }
+  });
+});
@@ -10,12 +10,13 @@ import {DELETE as deleteDir} from "@/app/api/v1/directories/[id]/route";
 import {prisma} from "@/lib/prisma";
 
 // Mock Prisma with error scenarios
-jest.mock("@/lib/prisma", () => ({
-  prisma: {
+jest.mock("@/lib/prisma", () => {
+  const prisma = {
     user: {
       findUnique: jest.fn(),
     },
     file: {
+      aggregate: jest.fn(),
       create: jest.fn(),
       findFirst: jest.fn(),
       findUnique: jest.fn(),
@@ -31,8 +32,11 @@ jest.mock("@/lib/prisma", () => ({
     },
     $executeRawUnsafe: jest.fn(),
     $transaction: jest.fn(),
-  },
-}));
+    $queryRaw: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return {prisma};
+});
 
 // Mock auth with various scenarios
 jest.mock("@/lib/auth", () => ({
@@ -66,6 +70,8 @@ jest.mock("@/lib/nanoid", () => ({
 describe("Error Scenarios and Failure Handling", () => {
   beforeEach(() => {
     jest.clearAllMocks();
+    // Start every test with no storage used
+    (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: null}});
   });
 
   describe("Authentication and Authorization Errors", () => {
@@ -219,7 +225,7 @@ describe("Error Scenarios and Failure Handling", () => {
         }),
       );
 
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({
         id: "deadlock-test",
         userId: "test-user-id",
         filename: "test.txt",
@@ -247,8 +253,9 @@ describe("Error Scenarios and Failure Handling", () => {
       auth.mockResolvedValue({user: {id: "test-user-id"}});
 
       // Setup directory to be found but make deletion fail
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue({
         id: "transaction-test",
+        userId: "test-user-id",
         files: [{id: "file1", r2Locator: "test/infinite/test-user-id/file1", status: "validated"}],
         _count: {children: 0},
       });
@@ -285,7 +292,7 @@ describe("Error Scenarios and Failure Handling", () => {
       // Mock R2 service unavailable
       jest.spyOn(console, "error").mockImplementation(() => {});
 
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({
         id: "r2-error-test",
         userId: "test-user-id",
         r2Locator: "test/error-file",
@@ -314,7 +321,7 @@ describe("Error Scenarios and Failure Handling", () => {
       // Mock R2 authentication failure
       jest.spyOn(console, "error").mockImplementation(() => {});
 
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({
         id: "r2-auth-test",
         userId: "test-user-id",
         r2Locator: "test/auth-denied",
@@ -341,7 +348,7 @@ describe("Error Scenarios and Failure Handling", () => {
       // Mock R2 network connectivity issues
       jest.spyOn(console, "error").mockImplementation(() => {});
 
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({
         id: "r2-network-test",
         userId: "test-user-id",
         r2Locator: "test/network-error",
@@ -392,7 +399,7 @@ describe("Error Scenarios and Failure Handling", () => {
     });
 
     it("should handle orphaned file records", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue({
         id: "orphaned-file",
         userId: "test-user-id",
         directoryId: "nonexistent-directory",
@@ -418,7 +425,7 @@ describe("Error Scenarios and Failure Handling", () => {
 
     it("should handle inconsistent directory hierarchies", async () => {
       // Directory claims to have children but children don't exist
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue({
         id: "inconsistent-dir",
         fullPath: "/inconsistent",
         userId: "test-user-id",
@@ -452,10 +459,11 @@ describe("Error Scenarios and Failure Handling", () => {
     });
 
     it("should handle memory exhaustion during large operations", async () => {
-      // Mock user lookup
+      // Mock user lookup (unlimited plan so the quota check doesn't reject first)
       (prisma.user.findUnique as jest.Mock).mockResolvedValue({
         id: "test-user-id",
         isEmailVerified: true,
+        plan: "tres_commas",
       });
 
       // Mock directory upsert
@@ -15,8 +15,8 @@ import {prisma} from "@/lib/prisma";
 import {startMockR2Server, stopMockR2Server} from "../mocks/r2-server";
 
 // Mock Prisma with comprehensive transaction support
-jest.mock("@/lib/prisma", () => ({
-  prisma: {
+jest.mock("@/lib/prisma", () => {
+  const prisma = {
     directory: {
       findFirst: jest.fn(),
       findUnique: jest.fn(),
@@ -26,6 +26,7 @@ jest.mock("@/lib/prisma", () => ({
       delete: jest.fn(),
     },
     file: {
+      aggregate: jest.fn(),
       create: jest.fn(),
       findFirst: jest.fn(),
       findUnique: jest.fn(),
@@ -39,8 +40,11 @@ jest.mock("@/lib/prisma", () => ({
     },
     $executeRawUnsafe: jest.fn(),
     $transaction: jest.fn(),
-  },
-}));
+    $queryRaw: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return {prisma};
+});
 
 // Mock auth
 jest.mock("@/lib/auth", () => ({
@@ -82,6 +86,8 @@ describe("File and Directory Management Integration", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Start every test with no storage used
+    (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: null}});
     const auth = jest.mocked(require("@/lib/auth").auth);
     auth.mockResolvedValue({
       user: {id: "test-user-id"},
@@ -216,7 +222,7 @@ describe("File and Directory Management Integration", () => {
         updatedAt: new Date("2024-01-02T00:00:00.000Z"),
       };
 
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
       (prisma.file.update as jest.Mock).mockResolvedValue(updatedFile);
 
       const updateRequest = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
@@ -270,7 +276,7 @@ describe("File and Directory Management Integration", () => {
       expect(movedFileData.fullPath).toBe("/archive/annual-report.pdf");
 
       // Step 5: Update directory properties
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue({
         ...mockDirectory,
         files: [],
         children: [],
@@ -300,7 +306,7 @@ describe("File and Directory Management Integration", () => {
       expect(updatedDirData.defaultPermissions).toBe("public");
 
       // Step 6: Delete file
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(movedFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(movedFile);
       (prisma.file.delete as jest.Mock).mockResolvedValue(movedFile);
 
       const deleteFileRequest = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
@@ -316,7 +322,7 @@ describe("File and Directory Management Integration", () => {
       expect(deleteFileData.message).toBe("File deleted successfully");
 
       // Step 7: Delete empty directory
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue({
         ...mockDirectory,
         files: [],
         _count: {children: 0},
@@ -383,6 +389,7 @@ describe("File and Directory Management Integration", () => {
     it("should handle deep directory renaming with cascading updates", async () => {
       const rootDir = {
         id: "root-id",
+        userId: mockUser,
         fullPath: "/projects/old-name",
         files: [{id: "file1", fullPath: "/projects/old-name/file1.txt"}],
         children: [{id: "child1", fullPath: "/projects/old-name/subdir"}],
@@ -391,9 +398,8 @@ describe("File and Directory Management Integration", () => {
         updatedAt: mockDate,
       };
 
-      (prisma.directory.findFirst as jest.Mock)
-        .mockResolvedValueOnce(rootDir)
-        .mockResolvedValueOnce(null); // No existing directory at new path
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(rootDir);
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null); // No existing directory at new path
       (prisma.$executeRawUnsafe as jest.Mock).mockResolvedValue(undefined);
       (prisma.directory.update as jest.Mock).mockResolvedValue({
         ...rootDir,
@@ -423,6 +429,7 @@ describe("File and Directory Management Integration", () => {
     it("should prevent circular directory references", async () => {
       const parentDir = {
         id: "parent-id",
+        userId: mockUser,
         fullPath: "/parent",
         createdAt: mockDate,
         updatedAt: mockDate,
@@ -434,9 +441,8 @@ describe("File and Directory Management Integration", () => {
         updatedAt: mockDate,
       };
 
-      (prisma.directory.findFirst as jest.Mock)
-        .mockResolvedValueOnce(parentDir)
-        .mockResolvedValueOnce(childDir);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(parentDir);
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(childDir);
 
       const circularRequest = new NextRequest(
         "http://localhost:3000/api/v1/directories/parent-id",
@@ -548,6 +554,7 @@ describe("File and Directory Management Integration", () => {
     it("should handle concurrent directory operations", async () => {
       const directory = {
         id: "concurrent-dir",
+        userId: mockUser,
         fullPath: "/concurrent",
         _count: {files: 0, children: 0},
         createdAt: mockDate,
@@ -558,7 +565,7 @@ describe("File and Directory Management Integration", () => {
 
       // Simulate concurrent update operations
       let updateCount = 0;
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(directory);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(directory);
       (prisma.directory.update as jest.Mock).mockImplementation(async () => {
         updateCount++;
         if (updateCount === 1) {
@@ -653,11 +660,12 @@ describe("File and Directory Management Integration", () => {
     it("should handle cleanup when R2 operations fail", async () => {
       const file = {
         id: "cleanup-test",
+        userId: mockUser,
         r2Locator: "invalid/locator/path",
         status: "validated",
       };
 
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(file);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(file);
       (prisma.file.delete as jest.Mock).mockResolvedValue(file);
 
       const deleteRequest = new NextRequest("http://localhost:3000/api/v1/files/cleanup-test", {
@@ -710,8 +718,9 @@ describe("File and Directory Management Integration", () => {
         status: "validated",
       }));
 
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue({
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue({
         id: "bulk-dir",
+        userId: mockUser,
         files: bulkFiles,
         _count: {children: 0},
         createdAt: mockDate,
@@ -6,23 +6,29 @@ import {NextRequest} from "next/server";
 import {prisma} from "@/lib/prisma";
 import {startMockR2Server, stopMockR2Server} from "../mocks/r2-server";
 
-// Mock Prisma
-jest.mock("@/lib/prisma", () => ({
-  prisma: {
+// Mock Prisma; transactions run against the same mocks
+jest.mock("@/lib/prisma", () => {
+  const prisma = {
     user: {
       findUnique: jest.fn(),
     },
     directory: {
       upsert: jest.fn(),
+      findMany: jest.fn(),
     },
     file: {
+      aggregate: jest.fn(),
       create: jest.fn(),
       update: jest.fn(),
       findFirst: jest.fn(),
       findUnique: jest.fn(),
     },
-  },
-}));
+    $transaction: jest.fn(),
+    $queryRaw: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return {prisma};
+});
 
 // Mock auth
 jest.mock("@/lib/auth", () => ({
@@ -82,6 +88,10 @@ describe("File Upload Workflow Integration", () => {
 
   beforeEach(() => {
     jest.clearAllMocks();
+    // Start every test with no storage used
+    (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: null}});
+    // No access-password-protected directories
+    (prisma.directory.findMany as jest.Mock).mockResolvedValue([]);
 
     // Setup common mocks
     // eslint-disable-next-line @typescript-eslint/no-require-imports
@@ -176,7 +186,7 @@ describe("File Upload Workflow Integration", () => {
         sizeBytes: BigInt(fileContent.length),
       };
 
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockCreatedFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockCreatedFile);
       (prisma.file.update as jest.Mock).mockResolvedValue(mockValidatedFile);
 
       const statusRequest = new NextRequest(
@@ -357,7 +367,7 @@ describe("File Upload Workflow Integration", () => {
         filename: "test.txt",
       };
 
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
 
       // Try to validate without actually uploading to R2
       const statusRequest = new NextRequest(
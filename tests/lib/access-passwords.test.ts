@@ -0,0 +1,153 @@
+import bcrypt from "bcryptjs";
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+import {
+  createAccessPasswordCheck,
+  findAccessPasswordHash,
+  getProvidedAccessPassword,
+  hashAccessPassword,
+  isAccessPasswordSatisfied,
+  nearestAccessPasswordHash,
+} from "../../src/lib/access-passwords";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    directory: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+describe("access passwords", () => {
+  const fileHash = bcrypt.hashSync("file-secret", 4);
+  const directoryHash = bcrypt.hashSync("dir-secret", 4);
+  const file = {userId: "user-id", fullPath: "/models/llama/weights.bin", accessPassword: null};
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.directory.findMany as jest.Mock).mockResolvedValue([]);
+  });
+
+  describe("hashAccessPassword", () => {
+    it("should store a bcrypt hash", async () => {
+      const hash = await hashAccessPassword("secret");
+
+      expect(hash).not.toBe("secret");
+      await expect(bcrypt.compare("secret", hash)).resolves.toBe(true);
+    });
+  });
+
+  describe("getProvidedAccessPassword", () => {
+    it("should read the X-Access-Password header", () => {
+      const request = new NextRequest("http://localhost:3000/d/file-id", {
+        headers: {"X-Access-Password": "secret"},
+      });
+
+      expect(getProvidedAccessPassword(request)).toBe("secret");
+    });
+
+    it("should read the password from basic auth", () => {
+      const request = new NextRequest("http://localhost:3000/d/file-id", {
+        headers: {Authorization: `Basic ${Buffer.from(":pass:word").toString("base64")}`},
+      });
+
+      expect(getProvidedAccessPassword(request)).toBe("pass:word");
+    });
+
+    it("should ignore bearer tokens and missing passwords", () => {
+      const bearer = new NextRequest("http://localhost:3000/d/file-id", {
+        headers: {Authorization: "Bearer hulk_key"},
+      });
+      const noPassword = new NextRequest("http://localhost:3000/d/file-id", {
+        headers: {Authorization: `Basic ${Buffer.from("user:").toString("base64")}`},
+      });
+
+      expect(getProvidedAccessPassword(bearer)).toBeNull();
+      expect(getProvidedAccessPassword(noPassword)).toBeNull();
+    });
+  });
+
+  describe("findAccessPasswordHash", () => {
+    it("should prefer the file's own password", async () => {
+      await expect(findAccessPasswordHash({...file, accessPassword: fileHash})).resolves.toBe(
+        fileHash,
+      );
+      expect(prisma.directory.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should fall back to the nearest protected ancestor directory", async () => {
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        {fullPath: "/", accessPassword: "root-hash"},
+        {fullPath: "/models/llama", accessPassword: directoryHash},
+        {fullPath: "/models", accessPassword: "models-hash"},
+      ]);
+
+      await expect(findAccessPasswordHash(file)).resolves.toBe(directoryHash);
+      expect(prisma.directory.findMany).toHaveBeenCalledWith({
+        where: {
+          userId: "user-id",
+          fullPath: {in: ["/", "/models", "/models/llama"]},
+          accessPassword: {not: null},
+        },
+        select: {fullPath: true, accessPassword: true},
+      });
+    });
+
+    it("should return null for unprotected files", async () => {
+      await expect(findAccessPasswordHash(file)).resolves.toBeNull();
+    });
+  });
+
+  describe("isAccessPasswordSatisfied", () => {
+    it("should allow unprotected files without a password", async () => {
+      await expect(isAccessPasswordSatisfied(file, null)).resolves.toBe(true);
+    });
+
+    it("should require the matching password", async () => {
+      const protectedFile = {...file, accessPassword: fileHash};
+
+      await expect(isAccessPasswordSatisfied(protectedFile, null)).resolves.toBe(false);
+      await expect(isAccessPasswordSatisfied(protectedFile, "wrong")).resolves.toBe(false);
+      await expect(isAccessPasswordSatisfied(protectedFile, "file-secret")).resolves.toBe(true);
+    });
+
+    it("should check directory passwords", async () => {
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        {fullPath: "/models", accessPassword: directoryHash},
+      ]);
+
+      await expect(isAccessPasswordSatisfied(file, "dir-secret")).resolves.toBe(true);
+      await expect(isAccessPasswordSatisfied(file, "file-secret")).resolves.toBe(false);
+    });
+  });
+
+  describe("nearestAccessPasswordHash", () => {
+    it("should pick the deepest directory containing the path", () => {
+      const directories = [
+        {fullPath: "/", accessPassword: "root-hash"},
+        {fullPath: "/models", accessPassword: "models-hash"},
+        {fullPath: "/models/llama/weights.bin", accessPassword: "not-a-parent"},
+      ];
+
+      expect(nearestAccessPasswordHash(file.fullPath, directories)).toBe("models-hash");
+      expect(nearestAccessPasswordHash("/modelsx/a.bin", directories)).toBe("root-hash");
+      expect(nearestAccessPasswordHash("/a.bin", [])).toBeNull();
+    });
+  });
+
+  describe("createAccessPasswordCheck", () => {
+    it("should compare each hash once", async () => {
+      const compare = jest.spyOn(bcrypt, "compare");
+      const check = createAccessPasswordCheck("dir-secret");
+
+      await expect(check(directoryHash)).resolves.toBe(true);
+      await expect(check(directoryHash)).resolves.toBe(true);
+      await expect(check(fileHash)).resolves.toBe(false);
+      await expect(createAccessPasswordCheck(null)(directoryHash)).resolves.toBe(false);
+
+      expect(compare).toHaveBeenCalledTimes(2);
+      compare.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,363 @@
+import bcrypt from "bcryptjs";
+import {prisma} from "@/lib/prisma";
+import {redeemShareToken} from "@/lib/share-tokens";
+import {
+  authorizeDirectoryAccess,
+  authorizeFileAccess,
+  authorizeFilesAccess,
+  isPasswordDenial,
+  logAccessDenied,
+} from "../../src/lib/access-policy";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    directory: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock share token redemption
+jest.mock("@/lib/share-tokens", () => ({
+  redeemShareToken: jest.fn(),
+}));
+
+describe("access policy", () => {
+  const now = new Date("2025-01-15T12:00:00Z");
+  const owner = {ok: true as const, userId: "owner-id", method: "session" as const};
+  const stranger = {ok: true as const, userId: "stranger-id", method: "session" as const};
+  const apiKeyOwner = {
+    ok: true as const,
+    userId: "owner-id",
+    method: "api_key" as const,
+    apiKeyId: "key-id",
+  };
+  const anonymous = {ok: false as const, status: 401 as const, error: "Unauthorized"};
+
+  const file = {
+    id: "file-id",
+    userId: "owner-id",
+    directoryId: "dir-id",
+    fullPath: "/models/weights.bin",
+    status: "validated",
+    permissions: "private",
+    expiresAt: null as Date | null,
+    accessPassword: null as string | null,
+  };
+  const publicFile = {...file, permissions: "public"};
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.directory.findUnique as jest.Mock).mockResolvedValue({
+      id: "dir-id",
+      parentId: null,
+      defaultPermissions: "public",
+    });
+    (prisma.directory.findMany as jest.Mock).mockResolvedValue([]);
+    (redeemShareToken as jest.Mock).mockResolvedValue(false);
+  });
+
+  describe("authorizeFileAccess", () => {
+    it("should report missing files as not found", async () => {
+      await expect(authorizeFileAccess(null, "download", {auth: owner})).resolves.toEqual({
+        ok: false,
+        reason: "not_found",
+      });
+    });
+
+    describe("download", () => {
+      it("should let owners download their private files", async () => {
+        await expect(authorizeFileAccess(file, "download", {auth: owner, now})).resolves.toEqual({
+          ok: true,
+          grant: "owner",
+          resource: file,
+        });
+      });
+
+      it("should treat API keys like sessions", async () => {
+        const decision = await authorizeFileAccess(file, "download", {auth: apiKeyOwner, now});
+
+        expect(decision).toMatchObject({ok: true, grant: "owner"});
+      });
+
+      it("should let anyone download public files", async () => {
+        const decision = await authorizeFileAccess(publicFile, "download", {auth: anonymous, now});
+
+        expect(decision).toMatchObject({ok: true, grant: "public"});
+      });
+
+      it("should resolve inherited permissions through the directory", async () => {
+        const decision = await authorizeFileAccess({...file, permissions: "inherit"}, "download", {
+          now,
+        });
+
+        expect(decision).toMatchObject({ok: true, grant: "public"});
+        expect(prisma.directory.findUnique).toHaveBeenCalled();
+      });
+
+      it("should refuse private files without a share token", async () => {
+        await expect(authorizeFileAccess(file, "download", {auth: stranger, now})).resolves.toEqual(
+          {ok: false, reason: "private"},
+        );
+        expect(redeemShareToken).not.toHaveBeenCalled();
+      });
+
+      it("should grant private files through a valid share token", async () => {
+        (redeemShareToken as jest.Mock).mockResolvedValue(true);
+
+        const decision = await authorizeFileAccess(file, "download", {shareToken: "token", now});
+
+        expect(decision).toMatchObject({ok: true, grant: "share_token"});
+        expect(redeemShareToken).toHaveBeenCalledWith("token", file, now);
+      });
+
+      it("should refuse invalid share tokens", async () => {
+        await expect(
+          authorizeFileAccess(file, "download", {shareToken: "bad-token", now}),
+        ).resolves.toEqual({ok: false, reason: "invalid_share_token"});
+      });
+
+      it("should not spend share token downloads for the owner", async () => {
+        await authorizeFileAccess(file, "download", {auth: owner, shareToken: "token", now});
+
+        expect(redeemShareToken).not.toHaveBeenCalled();
+      });
+
+      it("should refuse files that haven't finished uploading", async () => {
+        await expect(
+          authorizeFileAccess({...file, status: "reserved"}, "download", {auth: owner, now}),
+        ).resolves.toEqual({ok: false, reason: "not_validated"});
+      });
+
+      it("should refuse expired files, even to the owner", async () => {
+        const expiredFile = {...publicFile, expiresAt: new Date("2025-01-15T11:00:00Z")};
+
+        await expect(
+          authorizeFileAccess(expiredFile, "download", {auth: owner, now}),
+        ).resolves.toEqual({ok: false, reason: "expired"});
+      });
+
+      it("should ask for the access password on protected public files", async () => {
+        const protectedFile = {...publicFile, accessPassword: bcrypt.hashSync("secret", 4)};
+
+        await expect(authorizeFileAccess(protectedFile, "download", {now})).resolves.toEqual({
+          ok: false,
+          reason: "password_required",
+        });
+        await expect(
+          authorizeFileAccess(protectedFile, "download", {accessPassword: "wrong", now}),
+        ).resolves.toEqual({ok: false, reason: "incorrect_password"});
+        await expect(
+          authorizeFileAccess(protectedFile, "download", {accessPassword: "secret", now}),
+        ).resolves.toMatchObject({ok: true, grant: "public"});
+      });
+
+      it("should not ask owners for the access password", async () => {
+        const protectedFile = {...publicFile, accessPassword: bcrypt.hashSync("secret", 4)};
+
+        const decision = await authorizeFileAccess(protectedFile, "download", {auth: owner, now});
+
+        expect(decision).toMatchObject({ok: true, grant: "owner"});
+      });
+    });
+
+    describe("view", () => {
+      it("should let anyone view public files", async () => {
+        const decision = await authorizeFileAccess(publicFile, "view", {now});
+
+        expect(decision).toMatchObject({ok: true, grant: "public"});
+      });
+
+      it("should hide private files from other users", async () => {
+        await expect(authorizeFileAccess(file, "view", {auth: stranger, now})).resolves.toEqual({
+          ok: false,
+          reason: "private",
+        });
+      });
+
+      it("should let owners view files that are still uploading", async () => {
+        const decision = await authorizeFileAccess({...file, status: "reserved"}, "view", {
+          auth: owner,
+          now,
+        });
+
+        expect(decision).toMatchObject({ok: true, grant: "owner"});
+      });
+
+      it("should report expired files", async () => {
+        const expiredFile = {...file, expiresAt: new Date("2025-01-15T11:00:00Z")};
+
+        await expect(authorizeFileAccess(expiredFile, "view", {auth: owner, now})).resolves.toEqual(
+          {ok: false, reason: "expired"},
+        );
+      });
+    });
+
+    describe("manage", () => {
+      it("should only let owners manage files", async () => {
+        await expect(authorizeFileAccess(file, "manage", {auth: owner})).resolves.toMatchObject({
+          ok: true,
+          grant: "owner",
+        });
+        await expect(authorizeFileAccess(publicFile, "manage", {auth: stranger})).resolves.toEqual({
+          ok: false,
+          reason: "not_owner",
+        });
+        await expect(authorizeFileAccess(file, "manage", {auth: anonymous})).resolves.toEqual({
+          ok: false,
+          reason: "not_owner",
+        });
+      });
+    });
+
+    describe("upload", () => {
+      it("should only let owners finish reserved uploads", async () => {
+        const reservedFile = {...file, status: "reserved"};
+
+        await expect(
+          authorizeFileAccess(reservedFile, "upload", {auth: owner}),
+        ).resolves.toMatchObject({ok: true, grant: "owner"});
+        await expect(
+          authorizeFileAccess(reservedFile, "upload", {auth: stranger}),
+        ).resolves.toEqual({ok: false, reason: "not_owner"});
+        await expect(authorizeFileAccess(file, "upload", {auth: owner})).resolves.toEqual({
+          ok: false,
+          reason: "not_reserved",
+        });
+      });
+    });
+  });
+
+  describe("authorizeFilesAccess", () => {
+    const inheritingFile = {...file, id: "inheriting-id", permissions: "inherit"};
+    const protectedHash = bcrypt.hashSync("secret", 4);
+
+    // The owner's directories: "dir-id" defaults to public, "/models" is password protected
+    const mockDirectories = ({protectedModels = false} = {}) =>
+      (prisma.directory.findMany as jest.Mock).mockImplementation(({where}) =>
+        Promise.resolve(
+          where.accessPassword
+            ? protectedModels
+              ? [{fullPath: "/models", accessPassword: protectedHash}]
+              : []
+            : [{id: "dir-id", parentId: null, defaultPermissions: "public"}],
+        ),
+      );
+
+    beforeEach(() => {
+      mockDirectories();
+    });
+
+    it("should let owners download every finished, unexpired file", async () => {
+      const expiredFile = {...file, id: "expired-id", expiresAt: new Date("2025-01-15T11:00:00Z")};
+      const reservedFile = {...file, id: "reserved-id", status: "reserved"};
+
+      const decisions = await authorizeFilesAccess([file, expiredFile, reservedFile], "download", {
+        auth: owner,
+        now,
+      });
+
+      expect(decisions).toEqual([
+        {ok: true, grant: "owner", resource: file},
+        {ok: false, reason: "expired"},
+        {ok: false, reason: "not_validated"},
+      ]);
+      expect(prisma.directory.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should only give other users the public files", async () => {
+      const decisions = await authorizeFilesAccess([file, publicFile, inheritingFile], "download", {
+        auth: stranger,
+        now,
+      });
+
+      expect(decisions).toEqual([
+        {ok: false, reason: "private"},
+        {ok: true, grant: "public", resource: publicFile},
+        {ok: true, grant: "public", resource: inheritingFile},
+      ]);
+      // Directory permissions and protected directories, once for all the files
+      expect(prisma.directory.findMany).toHaveBeenCalledTimes(2);
+    });
+
+    it("should ask for the password protecting a directory", async () => {
+      mockDirectories({protectedModels: true});
+      const files = [publicFile, inheritingFile];
+
+      await expect(authorizeFilesAccess(files, "download", {now})).resolves.toEqual([
+        {ok: false, reason: "password_required"},
+        {ok: false, reason: "password_required"},
+      ]);
+      await expect(
+        authorizeFilesAccess(files, "download", {accessPassword: "wrong", now}),
+      ).resolves.toEqual([
+        {ok: false, reason: "incorrect_password"},
+        {ok: false, reason: "incorrect_password"},
+      ]);
+      await expect(
+        authorizeFilesAccess(files, "download", {accessPassword: "secret", now}),
+      ).resolves.toMatchObject([{ok: true}, {ok: true}]);
+    });
+
+    it("should give the same answers as authorizeFileAccess", async () => {
+      const files = [file, publicFile, inheritingFile, {...publicFile, status: "reserved"}];
+
+      for (const auth of [owner, stranger, anonymous]) {
+        const decisions = await authorizeFilesAccess(files, "download", {auth, now});
+        const single = await Promise.all(
+          files.map((f) => authorizeFileAccess(f, "download", {auth, now})),
+        );
+
+        expect(decisions).toEqual(single);
+      }
+    });
+  });
+
+  describe("authorizeDirectoryAccess", () => {
+    const directory = {id: "dir-id", userId: "owner-id"};
+
+    it("should only let owners access directories", () => {
+      expect(authorizeDirectoryAccess(directory, {auth: owner})).toEqual({
+        ok: true,
+        grant: "owner",
+        resource: directory,
+      });
+      expect(authorizeDirectoryAccess(directory, {auth: stranger})).toEqual({
+        ok: false,
+        reason: "not_owner",
+      });
+      expect(authorizeDirectoryAccess(directory, {auth: anonymous})).toEqual({
+        ok: false,
+        reason: "not_owner",
+      });
+    });
+
+    it("should report missing directories as not found", () => {
+      expect(authorizeDirectoryAccess(null, {auth: owner})).toEqual({
+        ok: false,
+        reason: "not_found",
+      });
+    });
+  });
+
+  describe("isPasswordDenial", () => {
+    it("should only match password reasons", () => {
+      expect(isPasswordDenial("password_required")).toBe(true);
+      expect(isPasswordDenial("incorrect_password")).toBe(true);
+      expect(isPasswordDenial("private")).toBe(false);
+    });
+  });
+
+  describe("logAccessDenied", () => {
+    it("should log the reason", () => {
+      const warn = jest.spyOn(console, "warn").mockImplementation(() => {});
+
+      logAccessDenied("file", "file-id", "invalid_share_token");
+
+      expect(warn).toHaveBeenCalledWith("Denied file access to file-id: invalid_share_token");
+      warn.mockRestore();
+    });
+  });
+});
@@ -0,0 +1,197 @@
+import {NextRequest} from "next/server";
+import {prisma} from "@/lib/prisma";
+import {
+  authenticateRequest,
+  generateApiKey,
+  getBearerToken,
+  hasPermission,
+  hashApiKey,
+} from "../../src/lib/api-auth";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    apiKey: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Mock auth
+jest.mock("@/lib/auth", () => ({
+  auth: jest.fn(),
+}));
+
+function createRequest(headers: Record<string, string> = {}) {
+  return new NextRequest("http://localhost:3000/api/v1/files", {headers});
+}
+
+describe("api-auth", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("hashApiKey", () => {
+    it("should produce a stable sha256 hex digest", () => {
+      expect(hashApiKey("hulk_secret")).toMatch(/^[a-f0-9]{64}$/);
+      expect(hashApiKey("hulk_secret")).toBe(hashApiKey("hulk_secret"));
+      expect(hashApiKey("hulk_secret")).not.toBe(hashApiKey("hulk_other"));
+    });
+  });
+
+  describe("generateApiKey", () => {
+    it("should generate unique prefixed keys", () => {
+      const key = generateApiKey();
+
+      expect(key).toMatch(/^hulk_[A-Za-z0-9_-]{32}$/);
+      expect(generateApiKey()).not.toBe(key);
+    });
+  });
+
+  describe("hasPermission", () => {
+    it("should grant everything to all-scoped keys", () => {
+      expect(hasPermission("all", "read")).toBe(true);
+      expect(hasPermission("all", "write")).toBe(true);
+    });
+
+    it("should only grant the matching scope otherwise", () => {
+      expect(hasPermission("read", "read")).toBe(true);
+      expect(hasPermission("read", "write")).toBe(false);
+      expect(hasPermission("write", "write")).toBe(true);
+      expect(hasPermission("write", "read")).toBe(false);
+    });
+  });
+
+  describe("getBearerToken", () => {
+    it("should extract the token from a Bearer header", () => {
+      expect(getBearerToken(createRequest({Authorization: "Bearer hulk_abc"}))).toBe("hulk_abc");
+    });
+
+    it("should ignore missing or non-Bearer headers", () => {
+      expect(getBearerToken(createRequest())).toBeNull();
+      expect(getBearerToken(createRequest({Authorization: "Basic dXNlcjpwYXNz"}))).toBeNull();
+      expect(getBearerToken(createRequest({Authorization: "Bearer   "}))).toBeNull();
+    });
+  });
+
+  describe("authenticateRequest", () => {
+    it("should authenticate with a NextAuth session when no API key is sent", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const auth = jest.mocked(require("@/lib/auth").auth);
+      auth.mockResolvedValue({user: {id: "session-user-id"}});
+
+      const result = await authenticateRequest(createRequest(), "write");
+
+      expect(result).toEqual({ok: true, userId: "session-user-id", method: "session"});
+      expect(prisma.apiKey.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should reject requests without a session or API key", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const auth = jest.mocked(require("@/lib/auth").auth);
+      auth.mockResolvedValue(null);
+
+      const result = await authenticateRequest(createRequest(), "read");
+
+      expect(result).toEqual({ok: false, status: 401, error: "Unauthorized"});
+    });
+
+    it("should authenticate with a valid API key and record its usage", async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+        id: "key-id",
+        userId: "key-user-id",
+        permissions: "all",
+      });
+
+      const result = await authenticateRequest(
+        createRequest({Authorization: "Bearer hulk_secret"}),
+        "write",
+      );
+
+      expect(result).toEqual({
+        ok: true,
+        userId: "key-user-id",
+        method: "api_key",
+        apiKeyId: "key-id",
+      });
+      expect(prisma.apiKey.findUnique).toHaveBeenCalledWith({
+        where: {key: hashApiKey("hulk_secret")},
+        select: {id: true, userId: true, permissions: true, expiresAt: true},
+      });
+      expect(prisma.apiKey.update).toHaveBeenCalledWith({
+        where: {id: "key-id"},
+        data: {lastUsedAt: expect.any(Date)},
+      });
+    });
+
+    it("should not fall back to the session when the API key is unknown", async () => {
+      // eslint-disable-next-line @typescript-eslint/no-require-imports
+      const auth = jest.mocked(require("@/lib/auth").auth);
+      auth.mockResolvedValue({user: {id: "session-user-id"}});
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const result = await authenticateRequest(
+        createRequest({Authorization: "Bearer hulk_unknown"}),
+        "read",
+      );
+
+      expect(result).toEqual({ok: false, status: 401, error: "Invalid API key"});
+      expect(auth).not.toHaveBeenCalled();
+    });
+
+    it("should reject expired API keys", async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+        id: "key-id",
+        userId: "key-user-id",
+        permissions: "all",
+        expiresAt: new Date("2020-01-01"),
+      });
+
+      const result = await authenticateRequest(
+        createRequest({Authorization: "Bearer hulk_secret"}),
+        "read",
+      );
+
+      expect(result).toEqual({ok: false, status: 401, error: "API key has expired"});
+      expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject API keys without the required permission", async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+        id: "key-id",
+        userId: "key-user-id",
+        permissions: "read",
+      });
+
+      const result = await authenticateRequest(
+        createRequest({Authorization: "Bearer hulk_secret"}),
+        "write",
+      );
+
+      expect(result).toEqual({
+        ok: false,
+        status: 403,
+        error: "API key does not have write permission",
+      });
+      expect(prisma.apiKey.update).not.toHaveBeenCalled();
+    });
+
+    it("should still authenticate when recording usage fails", async () => {
+      (prisma.apiKey.findUnique as jest.Mock).mockResolvedValue({
+        id: "key-id",
+        userId: "key-user-id",
+        permissions: "read",
+      });
+      (prisma.apiKey.update as jest.Mock).mockRejectedValue(new Error("Database error"));
+      jest.spyOn(console, "error").mockImplementation(() => {});
+
+      const result = await authenticateRequest(
+        createRequest({Authorization: "Bearer hulk_secret"}),
+        "read",
+      );
+
+      expect(result.ok).toBe(true);
+    });
+  });
+});
@@ -0,0 +1,150 @@
+import {crc32, gunzipSync} from "zlib";
+import {createArchiveStream, type ArchiveEntry} from "../../src/lib/archive";
+
+function entry(path: string, content: string, size = Buffer.byteLength(content)): ArchiveEntry {
+  return {
+    path,
+    modifiedAt: new Date("2025-01-15T12:00:00Z"),
+    open: jest.fn(async () => ({
+      body: new Blob([content]).stream() as ReadableStream<Uint8Array>,
+      size,
+    })),
+  };
+}
+
+async function readAll(stream: ReadableStream<Uint8Array>): Promise<Buffer> {
+  return Buffer.from(await new Response(stream).arrayBuffer());
+}
+
+// Read entries back through the zip central directory
+function readZip(archive: Buffer): Array<{name: string; content: string; crc: number}> {
+  const end = archive.length - 22;
+  expect(archive.readUInt32LE(end)).toBe(0x06054b50);
+
+  const count = archive.readUInt16LE(end + 10);
+  let position = archive.readUInt32LE(end + 16);
+  const entries = [];
+
+  for (let i = 0; i < count; i++) {
+    expect(archive.readUInt32LE(position)).toBe(0x02014b50);
+    const crc = archive.readUInt32LE(position + 16);
+    const size = archive.readUInt32LE(position + 24);
+    const nameLength = archive.readUInt16LE(position + 28);
+    const extraLength = archive.readUInt16LE(position + 30);
+    const offset = archive.readUInt32LE(position + 42);
+    const name = archive.toString("utf8", position + 46, position + 46 + nameLength);
+
+    const dataStart =
+      offset + 30 + archive.readUInt16LE(offset + 26) + archive.readUInt16LE(offset + 28);
+    entries.push({name, content: archive.toString("utf8", dataStart, dataStart + size), crc});
+    position += 46 + nameLength + extraLength;
+  }
+
+  return entries;
+}
+
+// Read entries back from tar headers, following pax path records
+function readTar(archive: Buffer): Array<{name: string; content: string}> {
+  const entries = [];
+  let position = 0;
+  let paxPath: string | null = null;
+
+  while (archive[position] !== 0) {
+    const name = archive.toString("utf8", position, position + 100).split("\0")[0];
+    const size = parseInt(archive.toString("ascii", position + 124, position + 135), 8);
+    const type = archive.toString("ascii", position + 156, position + 157);
+    const content = archive.toString("utf8", position + 512, position + 512 + size);
+    position += 512 + Math.ceil(size / 512) * 512;
+
+    if (type === "x") {
+      paxPath = content.match(/ path=(.*)\n/)![1];
+      continue;
+    }
+
+    entries.push({name: paxPath ?? name, content});
+    paxPath = null;
+  }
+
+  return entries;
+}
+
+describe("archive", () => {
+  const longPath = `data/${"nested/".repeat(20)}file.txt`;
+
+  describe("zip", () => {
+    it("should store every entry with its CRC", async () => {
+      const archive = await readAll(
+        createArchiveStream(
+          [entry("data/a.txt", "hello"), entry("data/sub/b.txt", "world"), entry(longPath, "")],
+          "zip",
+        ),
+      );
+
+      const entries = readZip(archive);
+      expect(entries.map(({name, content}) => ({name, content}))).toEqual([
+        {name: "data/a.txt", content: "hello"},
+        {name: "data/sub/b.txt", content: "world"},
+        {name: longPath, content: ""},
+      ]);
+      expect(entries[0].crc).toBe(crc32("hello"));
+    });
+
+    it("should write an empty archive", async () => {
+      const archive = await readAll(createArchiveStream([], "zip"));
+
+      expect(archive.length).toBe(22);
+      expect(readZip(archive)).toEqual([]);
+    });
+
+    it("should switch to zip64 records for large entries", async () => {
+      const archive = await readAll(
+        createArchiveStream([entry("data/huge.bin", "tiny", 0xffffffff)], "zip"),
+      );
+
+      // ZIP64 end of central directory record and locator precede the classic one
+      expect(archive.readUInt32LE(archive.length - 22 - 20 - 56)).toBe(0x06064b50);
+      expect(archive.readUInt32LE(archive.length - 22 - 20)).toBe(0x07064b50);
+    });
+  });
+
+  describe("tar.gz", () => {
+    it("should write a gzipped tar archive", async () => {
+      const archive = await readAll(
+        createArchiveStream(
+          [entry("data/a.txt", "hello"), entry("data/sub/b.txt", "world")],
+          "tar.gz",
+        ),
+      );
+
+      const tar = gunzipSync(archive);
+      expect(tar.length % 512).toBe(0);
+      expect(readTar(tar)).toEqual([
+        {name: "data/a.txt", content: "hello"},
+        {name: "data/sub/b.txt", content: "world"},
+      ]);
+    });
+
+    it("should use pax headers for long paths", async () => {
+      const archive = await readAll(createArchiveStream([entry(longPath, "deep")], "tar.gz"));
+
+      expect(readTar(gunzipSync(archive))).toEqual([{name: longPath, content: "deep"}]);
+    });
+
+    it("should fail when an object doesn't match its stored size", async () => {
+      await expect(
+        readAll(createArchiveStream([entry("data/a.txt", "hello", 10)], "tar.gz")),
+      ).rejects.toThrow();
+    });
+  });
+
+  it("should open entries one at a time as the archive is read", async () => {
+    const entries = [entry("data/a.txt", "hello"), entry("data/b.txt", "world")];
+    const reader = createArchiveStream(entries, "zip").getReader();
+
+    await reader.read();
+    expect(entries[0].open).toHaveBeenCalled();
+    expect(entries[1].open).not.toHaveBeenCalled();
+
+    await reader.cancel();
+  });
+});
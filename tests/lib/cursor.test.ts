@@ -0,0 +1,79 @@
+import {
+  cursorOrderBy,
+  cursorWhere,
+  decodeCursor,
+  decodeListCursor,
+  encodeCursor,
+  encodeListCursor,
+  type CursorSort,
+} from "../../src/lib/cursor";
+
+const newest: CursorSort = {field: "createdAt", direction: "desc", type: "date"};
+const smallest: CursorSort = {field: "sizeBytes", direction: "asc", type: "number", nullable: true};
+
+describe("cursors", () => {
+  it("should round-trip values and reject other shapes", () => {
+    const cursor = encodeCursor(["a", 1, null]);
+
+    expect(decodeCursor(cursor, 3)).toEqual(["a", 1, null]);
+    expect(decodeCursor(cursor, 2)).toBeNull();
+    expect(decodeCursor(encodeCursor([{}] as never), 1)).toBeNull();
+    expect(decodeCursor("%%%", 1)).toBeNull();
+  });
+
+  describe("list cursors", () => {
+    it("should round-trip the position after an item", () => {
+      const createdAt = new Date("2026-01-02T03:04:05.000Z");
+      const cursor = encodeListCursor(newest, {id: "file-1", createdAt});
+
+      expect(decodeListCursor(cursor, newest)).toEqual({value: createdAt, id: "file-1"});
+    });
+
+    it("should store big integers as numbers and nulls as null", () => {
+      const sized = encodeListCursor(smallest, {id: "a", sizeBytes: BigInt(2048)});
+      const unsized = encodeListCursor(smallest, {id: "b", sizeBytes: null});
+
+      expect(decodeListCursor(sized, smallest)).toEqual({value: 2048, id: "a"});
+      expect(decodeListCursor(unsized, smallest)).toEqual({value: null, id: "b"});
+    });
+
+    it("should reject cursors made for another sort", () => {
+      const cursor = encodeListCursor(newest, {id: "file-1", createdAt: new Date()});
+
+      expect(decodeListCursor(cursor, {...newest, direction: "asc"})).toBeNull();
+      expect(decodeListCursor(cursor, smallest)).toBeNull();
+      expect(decodeListCursor(encodeCursor(["createdAt+desc", "soon", "x"]), newest)).toBeNull();
+      expect(decodeListCursor(encodeCursor(["createdAt+desc", null, "x"]), newest)).toBeNull();
+    });
+  });
+
+  describe("cursorOrderBy", () => {
+    it("should break ties by id and put nulls last", () => {
+      expect(cursorOrderBy(newest)).toEqual([{createdAt: "desc"}, {id: "desc"}]);
+      expect(cursorOrderBy(smallest)).toEqual([
+        {sizeBytes: {sort: "asc", nulls: "last"}},
+        {id: "asc"},
+      ]);
+    });
+  });
+
+  describe("cursorWhere", () => {
+    it("should start after the position in the sort's direction", () => {
+      const createdAt = new Date("2026-01-01");
+
+      expect(cursorWhere(newest, {value: createdAt, id: "f"})).toEqual({
+        OR: [{createdAt: {lt: createdAt}}, {createdAt, id: {lt: "f"}}],
+      });
+    });
+
+    it("should keep the nulls that sort after every value", () => {
+      expect(cursorWhere(smallest, {value: 10, id: "f"})).toEqual({
+        OR: [{sizeBytes: {gt: 10}}, {sizeBytes: 10, id: {gt: "f"}}, {sizeBytes: null}],
+      });
+      expect(cursorWhere(smallest, {value: null, id: "f"})).toEqual({
+        sizeBytes: null,
+        id: {gt: "f"},
+      });
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import {prisma} from "@/lib/prisma";
+import {signJwt} from "@/lib/jwt";
+import {
+  createEmailVerificationToken,
+  sendVerificationEmail,
+  verifyEmailToken,
+} from "../../src/lib/email-verification";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Mock mail delivery
+const mockSendMail = jest.fn();
+jest.mock("@/lib/mailer", () => ({
+  getMailTransport: () => ({send: mockSendMail}),
+}));
+
+describe("email verification", () => {
+  const user = {id: "user-id", email: "test@example.com", firstName: "Test"};
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NEXTAUTH_SECRET = "test-secret";
+    process.env.NEXTAUTH_URL = "https://hulkastorus.example/";
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({...user, isEmailVerified: false});
+  });
+
+  describe("sendVerificationEmail", () => {
+    it("should email a link with a token for the user", async () => {
+      await sendVerificationEmail(user);
+
+      expect(mockSendMail).toHaveBeenCalledTimes(1);
+      const message = mockSendMail.mock.calls[0][0];
+      expect(message.to).toBe("test@example.com");
+      expect(message.text).toContain("Hi Test,");
+
+      const token = message.text.match(/verify-email\?token=([\w.-]+)/)?.[1];
+      expect(message.text).toContain("https://hulkastorus.example/verify-email?token=");
+      await expect(verifyEmailToken(token)).resolves.toEqual({ok: true, userId: "user-id"});
+    });
+  });
+
+  describe("verifyEmailToken", () => {
+    it("should mark the user verified", async () => {
+      const result = await verifyEmailToken(createEmailVerificationToken(user));
+
+      expect(result).toEqual({ok: true, userId: "user-id"});
+      expect(prisma.user.update).toHaveBeenCalledWith({
+        where: {id: "user-id"},
+        data: {isEmailVerified: true},
+      });
+    });
+
+    it("should succeed without writing when already verified", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({...user, isEmailVerified: true});
+
+      const result = await verifyEmailToken(createEmailVerificationToken(user));
+
+      expect(result.ok).toBe(true);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject expired tokens", async () => {
+      const token = createEmailVerificationToken(user, new Date(Date.now() - 2 * 60 * 60 * 1000));
+
+      await expect(verifyEmailToken(token)).resolves.toEqual({
+        ok: false,
+        error: "Invalid or expired verification token",
+      });
+    });
+
+    it("should reject tokens for a previous email address", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        ...user,
+        email: "new@example.com",
+        isEmailVerified: false,
+      });
+
+      const result = await verifyEmailToken(createEmailVerificationToken(user));
+
+      expect(result.ok).toBe(false);
+      expect(prisma.user.update).not.toHaveBeenCalled();
+    });
+
+    it("should reject tokens issued for another purpose", async () => {
+      const token = signJwt({sub: user.id, email: user.email, purpose: "password-reset"}, 3600);
+
+      const result = await verifyEmailToken(token);
+
+      expect(result.ok).toBe(false);
+    });
+
+    it("should reject tokens for a different user than expected", async () => {
+      const result = await verifyEmailToken(createEmailVerificationToken(user), "other-user-id");
+
+      expect(result.ok).toBe(false);
+      expect(prisma.user.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should reject tokens for deleted users", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const result = await verifyEmailToken(createEmailVerificationToken(user));
+
+      expect(result.ok).toBe(false);
+    });
+  });
+});
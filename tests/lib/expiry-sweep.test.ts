@@ -0,0 +1,194 @@
+import {prisma} from "@/lib/prisma";
+import {runExpirySweep} from "../../src/lib/expiry-sweep";
+import {R2Client} from "../../src/lib/r2-client";
+import {MockR2Server} from "../mocks/r2-server";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    file: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+      update: jest.fn(),
+    },
+  },
+}));
+
+// Mock R2 config to use test server
+jest.mock("@/lib/r2-config", () => {
+  const originalModule = jest.requireActual("@/lib/r2-config");
+  return {
+    ...originalModule,
+    getR2Client: () => {
+      const {R2Client} = jest.requireActual("@/lib/r2-client");
+      return new R2Client({
+        endpoint: "http://localhost:9013",
+        accessKeyId: "test",
+        secretAccessKey: "test",
+        bucketName: "test-bucket",
+        region: "auto",
+      });
+    },
+  };
+});
+
+describe("runExpirySweep", () => {
+  let mockServer: MockR2Server;
+  const r2Client = new R2Client({
+    accountId: "test",
+    accessKeyId: "test",
+    secretAccessKey: "test",
+    bucketName: "test-bucket",
+    endpoint: "http://localhost:9013",
+  });
+
+  const expiredFile = (id: string, status = "validated") => ({
+    id,
+    status,
+    r2Locator: `test/7d/user123/${id}`,
+    uploadId: null,
+  });
+
+  async function putObject(fileId: string) {
+    await r2Client.putObject({
+      env: "test",
+      lifecyclePolicy: "7d",
+      userId: "user123",
+      fileId,
+      body: "expired content",
+    });
+  }
+
+  beforeAll(async () => {
+    mockServer = new MockR2Server(9013, "test-bucket");
+    await mockServer.start();
+  });
+
+  afterAll(async () => {
+    await mockServer.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockServer.clear();
+    (prisma.file.findMany as jest.Mock).mockReset().mockResolvedValue([]);
+    (prisma.file.updateMany as jest.Mock).mockImplementation(({where}) =>
+      Promise.resolve({count: where.id.in.length}),
+    );
+    (prisma.file.update as jest.Mock).mockResolvedValue({});
+  });
+
+  it("should mark expired files and delete their objects", async () => {
+    await putObject("file1");
+    await putObject("file2");
+    (prisma.file.findMany as jest.Mock).mockResolvedValueOnce([
+      expiredFile("file1"),
+      expiredFile("file2", "reserved"),
+    ]);
+
+    const now = new Date("2025-01-01T00:00:00Z");
+    const report = await runExpirySweep({now});
+
+    expect(report).toEqual({expired: 2, deleted: 2, failed: [], batches: 1, hasMore: false});
+    expect(mockServer.getObjectCount()).toBe(0);
+    expect(prisma.file.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          id: {notIn: []},
+          OR: [
+            {status: {not: "expired"}, expiresAt: {lte: now}},
+            {status: "expired", r2Locator: {not: null}},
+          ],
+        },
+        take: 100,
+      }),
+    );
+    expect(prisma.file.updateMany).toHaveBeenCalledWith({
+      where: {id: {in: ["file1", "file2"]}, status: {not: "expired"}},
+      data: {status: "expired"},
+    });
+    expect(prisma.file.update).toHaveBeenCalledWith({
+      where: {id: "file1"},
+      data: {r2Locator: null, uploadId: null},
+    });
+  });
+
+  it("should finish cleanup for rows a previous run already marked", async () => {
+    await putObject("file1");
+    (prisma.file.findMany as jest.Mock).mockResolvedValueOnce([expiredFile("file1", "expired")]);
+
+    const report = await runExpirySweep();
+
+    expect(report.expired).toBe(0);
+    expect(report.deleted).toBe(1);
+    expect(mockServer.hasObject("test/7d/user123/file1")).toBe(false);
+  });
+
+  it("should treat already-deleted objects as deleted", async () => {
+    (prisma.file.findMany as jest.Mock).mockResolvedValueOnce([expiredFile("missing")]);
+
+    const report = await runExpirySweep();
+
+    expect(report.deleted).toBe(1);
+    expect(report.failed).toEqual([]);
+    expect(prisma.file.update).toHaveBeenCalledWith({
+      where: {id: "missing"},
+      data: {r2Locator: null, uploadId: null},
+    });
+  });
+
+  it("should abort unfinished multipart uploads", async () => {
+    const {uploadId} = await r2Client.createMultipartUpload({
+      env: "test",
+      lifecyclePolicy: "7d",
+      userId: "user123",
+      fileId: "file1",
+    });
+    (prisma.file.findMany as jest.Mock).mockResolvedValueOnce([
+      {...expiredFile("file1", "reserved"), uploadId},
+    ]);
+
+    const report = await runExpirySweep();
+
+    expect(report.deleted).toBe(1);
+    expect(mockServer.getUploadCount()).toBe(0);
+  });
+
+  it("should keep the locator of files whose cleanup fails so they are retried", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    (prisma.file.findMany as jest.Mock).mockResolvedValueOnce([
+      {...expiredFile("file1", "reserved"), uploadId: "unknown-upload"},
+    ]);
+
+    const report = await runExpirySweep();
+
+    expect(report.failed).toEqual(["file1"]);
+    expect(report.expired).toBe(1);
+    expect(prisma.file.update).not.toHaveBeenCalled();
+  });
+
+  it("should process batches until no expired files remain", async () => {
+    await putObject("file1");
+    await putObject("file2");
+    await putObject("file3");
+    (prisma.file.findMany as jest.Mock)
+      .mockResolvedValueOnce([expiredFile("file1"), expiredFile("file2")])
+      .mockResolvedValueOnce([expiredFile("file3")]);
+
+    const report = await runExpirySweep({batchSize: 2});
+
+    expect(report.batches).toBe(2);
+    expect(report.deleted).toBe(3);
+    expect(report.hasMore).toBe(false);
+    expect(prisma.file.findMany).toHaveBeenCalledTimes(2);
+  });
+
+  it("should stop at maxBatches and report remaining work", async () => {
+    (prisma.file.findMany as jest.Mock).mockResolvedValue([expiredFile("file1")]);
+
+    const report = await runExpirySweep({batchSize: 1, maxBatches: 2});
+
+    expect(report.batches).toBe(2);
+    expect(report.hasMore).toBe(true);
+  });
+});
@@ -0,0 +1,270 @@
+import {prisma} from "@/lib/prisma";
+import {
+  buildSearchCondition,
+  decodeSearchCursor,
+  encodeSearchCursor,
+  parseSearchQuery,
+  searchFiles,
+  type FileSearchQuery,
+} from "../../src/lib/file-search";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    $queryRaw: jest.fn(),
+    file: {
+      findMany: jest.fn(),
+    },
+    directory: {
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+const MB = 1024 * 1024;
+const DAY = 24 * 60 * 60 * 1000;
+
+function parse(input: string): FileSearchQuery {
+  const result = parseSearchQuery(input);
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.query;
+}
+
+function emptyQuery(overrides: Partial<FileSearchQuery> = {}): FileSearchQuery {
+  return {
+    names: [],
+    types: [],
+    sizes: [],
+    expires: [],
+    statuses: [],
+    permissions: null,
+    paths: [],
+    ...overrides,
+  };
+}
+
+// The SQL with whitespace collapsed, for matching
+function sqlOf(query: FileSearchQuery, options: Parameters<typeof buildSearchCondition>[2]) {
+  const condition = buildSearchCondition("user-1", query, options);
+  return {text: condition.text.replace(/\s+/g, " "), values: condition.values};
+}
+
+describe("file search", () => {
+  const now = new Date("2026-03-01T00:00:00Z");
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("parseSearchQuery", () => {
+    it("should treat plain words as filename text and wildcards as globs", () => {
+      expect(parse("report *.csv q?.pdf").names).toEqual([
+        {pattern: "report", glob: false},
+        {pattern: "*.csv", glob: true},
+        {pattern: "q?.pdf", glob: true},
+      ]);
+    });
+
+    it("should parse types, sizes, expiry and status", () => {
+      const query = parse(
+        "type:image type:models size:>100MB size:<=1.5gb expires:<7d status:failed",
+      );
+
+      expect(query.types).toEqual(["images", "models"]);
+      expect(query.sizes).toEqual([
+        {operator: ">", bytes: 100 * MB},
+        {operator: "<=", bytes: 1.5 * 1024 * MB},
+      ]);
+      expect(query.expires).toEqual([{operator: "<", milliseconds: 7 * DAY}]);
+      expect(query.statuses).toEqual(["failed"]);
+    });
+
+    it("should parse permissions keywords and path prefixes", () => {
+      const query = parse("public /reports/ /data");
+
+      expect(query.permissions).toBe("public");
+      expect(query.paths).toEqual(["/reports", "/data"]);
+    });
+
+    it("should search quoted terms as text", () => {
+      expect(parse('"type:image" "public"').names).toEqual([
+        {pattern: "type:image", glob: false},
+        {pattern: "public", glob: false},
+      ]);
+    });
+
+    it("should reject unknown filters and malformed values", () => {
+      expect(parseSearchQuery("kind:image")).toEqual({
+        ok: false,
+        error: 'Unknown search filter "kind:"',
+      });
+      expect(parseSearchQuery("type:spreadsheet").ok).toBe(false);
+      expect(parseSearchQuery("size:big").ok).toBe(false);
+      expect(parseSearchQuery("size:>10XB").ok).toBe(false);
+      expect(parseSearchQuery("expires:<7m").ok).toBe(false);
+      expect(parseSearchQuery("status:gone").ok).toBe(false);
+      expect(parseSearchQuery("public private").ok).toBe(false);
+    });
+  });
+
+  describe("buildSearchCondition", () => {
+    it("should always scope to the user", () => {
+      expect(sqlOf(emptyQuery(), {now})).toEqual({text: "user_id = $1", values: ["user-1"]});
+    });
+
+    it("should match names case-insensitively with LIKE wildcards escaped", () => {
+      const {text, values} = sqlOf(parse("100%_done *.csv"), {now});
+
+      expect(text).toBe("user_id = $1 AND filename ILIKE $2 AND filename ILIKE $3");
+      expect(values).toEqual(["user-1", "%100\\%\\_done%", "%.csv"]);
+    });
+
+    it("should compare sizes with the parsed operator", () => {
+      const {text, values} = sqlOf(parse("size:>=10MB"), {now});
+
+      expect(text).toBe("user_id = $1 AND size_bytes >= $2");
+      expect(values).toEqual(["user-1", 10 * MB]);
+    });
+
+    it("should treat files that never expire as expiring later than any time", () => {
+      const soon = sqlOf(parse("expires:<7d"), {now});
+      const later = sqlOf(parse("expires:>7d"), {now});
+      const never = sqlOf(parse("expires:never"), {now});
+
+      expect(soon.text).toContain("(expires_at IS NOT NULL AND expires_at < $2)");
+      expect(soon.values[1]).toEqual(new Date(now.getTime() + 7 * DAY));
+      expect(later.text).toContain("(expires_at IS NULL OR expires_at > $2)");
+      expect(never.text).toContain("expires_at IS NULL");
+    });
+
+    it("should match any of several types", () => {
+      const {text, values} = sqlOf(parse("type:image type:dataset"), {now});
+
+      expect(text).toContain("LIKE 'image/%' OR (");
+      expect(values).toContainEqual(expect.arrayContaining(["text/csv"]));
+      expect(values).toContainEqual(expect.arrayContaining(["%.parquet"]));
+    });
+
+    it("should exclude every other category for type:other", () => {
+      const {text} = sqlOf(parse("type:other"), {now});
+
+      expect(text).toMatch(/^user_id = \$1 AND \(NOT \(.*LIKE 'image\/%' OR .*LIKE 'audio\/%' OR /);
+    });
+
+    it("should resolve inherited permissions through the given directories", () => {
+      const {text, values} = sqlOf(parse("private"), {now, permissionDirectoryIds: ["dir-1"]});
+
+      expect(text).toContain(
+        "( permissions = $2 OR (permissions = 'inherit' AND directory_id = ANY($3)) )",
+      );
+      expect(values).toEqual(["user-1", "private", ["dir-1"]]);
+    });
+
+    it("should match files at or under a path, not siblings sharing its prefix", () => {
+      const {text, values} = sqlOf(parse("/reports /data"), {now});
+
+      expect(text).toContain(
+        "((full_path = $2 OR full_path LIKE $3) OR (full_path = $4 OR full_path LIKE $5))",
+      );
+      expect(values).toEqual(["user-1", "/reports", "/reports/%", "/data", "/data/%"]);
+    });
+
+    it("should not filter by path for the root", () => {
+      expect(sqlOf(parse("/ /reports"), {now}).text).toBe("user_id = $1");
+    });
+
+    it("should start after the cursor's position", () => {
+      const after = {createdAt: now, id: "file-9"};
+      const {text, values} = sqlOf(emptyQuery(), {now, after});
+
+      expect(text).toBe("user_id = $1 AND (created_at, id) < ($2, $3)");
+      expect(values).toEqual(["user-1", now, "file-9"]);
+    });
+  });
+
+  describe("cursors", () => {
+    it("should round-trip a position", () => {
+      const position = {createdAt: now, id: "file-9"};
+
+      expect(decodeSearchCursor(encodeSearchCursor(position))).toEqual(position);
+    });
+
+    it("should reject anything else", () => {
+      expect(decodeSearchCursor("not-a-cursor")).toBeNull();
+      expect(decodeSearchCursor(Buffer.from('["x","y"]').toString("base64url"))).toBeNull();
+      expect(decodeSearchCursor(Buffer.from('["2026-01-01"]').toString("base64url"))).toBeNull();
+    });
+  });
+
+  describe("searchFiles", () => {
+    function file(id: string, permissions = "private") {
+      return {
+        id,
+        userId: "user-1",
+        directoryId: "dir-1",
+        filename: `${id}.csv`,
+        fullPath: `/data/${id}.csv`,
+        mimeType: "text/csv",
+        sizeBytes: BigInt(1024),
+        permissions,
+        status: "validated",
+        expirationPolicy: "infinite",
+        expiresAt: null,
+        createdAt: now,
+        updatedAt: now,
+        directory: {fullPath: "/data"},
+      };
+    }
+
+    it("should return a page in search order with a cursor for the next one", async () => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValue([
+        {id: "b", created_at: new Date("2026-02-02T00:00:00Z")},
+        {id: "a", created_at: new Date("2026-02-01T00:00:00Z")},
+        {id: "z", created_at: new Date("2026-01-01T00:00:00Z")},
+      ]);
+      (prisma.file.findMany as jest.Mock).mockResolvedValue([file("a"), file("b")]);
+
+      const result = await searchFiles("user-1", parse("*.csv"), {limit: 2, now});
+
+      expect(result.files.map((item) => item.id)).toEqual(["b", "a"]);
+      expect(result.files[0]).toMatchObject({sizeBytes: 1024, effectivePermissions: "private"});
+      expect(decodeSearchCursor(result.nextCursor!)).toEqual({
+        createdAt: new Date("2026-02-01T00:00:00Z"),
+        id: "a",
+      });
+      expect(prisma.file.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({where: {id: {in: ["b", "a"]}}}),
+      );
+      expect(prisma.directory.findMany).not.toHaveBeenCalled();
+    });
+
+    it("should end without a cursor on the last page", async () => {
+      (prisma.$queryRaw as jest.Mock).mockResolvedValue([{id: "a", created_at: now}]);
+      (prisma.file.findMany as jest.Mock).mockResolvedValue([file("a")]);
+
+      const result = await searchFiles("user-1", parse("a"), {limit: 2, now});
+
+      expect(result.nextCursor).toBeNull();
+    });
+
+    it("should look up directory permissions to search by permissions", async () => {
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        {id: "dir-1", parentId: null, defaultPermissions: "public"},
+        {id: "dir-2", parentId: null, defaultPermissions: "private"},
+      ]);
+      (prisma.$queryRaw as jest.Mock).mockResolvedValue([{id: "a", created_at: now}]);
+      (prisma.file.findMany as jest.Mock).mockResolvedValue([file("a", "inherit")]);
+
+      const result = await searchFiles("user-1", parse("public"), {limit: 10, now});
+
+      const sql = (prisma.$queryRaw as jest.Mock).mock.calls[0];
+      expect(sql.slice(1)).toContainEqual(
+        expect.objectContaining({values: expect.arrayContaining([["dir-1"]])}),
+      );
+      expect(result.files[0].effectivePermissions).toBe("public");
+      expect(prisma.directory.findMany).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import {prisma} from "@/lib/prisma";
+import {getR2Client} from "@/lib/r2-config";
+import {runImportSweep} from "../../src/lib/import-sweep";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    importJob: {
+      findMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    file: {
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+// Only aborting uploads touches R2
+jest.mock("@/lib/r2-config", () => {
+  const {R2Client} = jest.requireActual("@/lib/r2-client");
+  const r2Client = new R2Client({
+    endpoint: "http://localhost:9999",
+    accessKeyId: "test",
+    secretAccessKey: "test",
+    bucketName: "test-bucket",
+  });
+  r2Client.abortMultipartUpload = jest.fn();
+  return {getR2Client: () => r2Client};
+});
+
+describe("runImportSweep", () => {
+  const now = new Date("2025-08-20T12:00:00Z");
+  const abortMultipartUpload = jest.mocked(getR2Client().abortMultipartUpload);
+
+  const staleJob = (id: string, file: Record<string, unknown> | null) => ({id, file});
+  const reservedFile = {
+    id: "file-1",
+    status: "reserved",
+    r2Locator: "test/infinite/user123/file-1",
+    uploadId: "upload-1",
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    abortMultipartUpload.mockResolvedValue();
+    (prisma.importJob.findMany as jest.Mock).mockResolvedValue([]);
+    (prisma.importJob.updateMany as jest.Mock).mockResolvedValue({count: 1});
+    (prisma.file.updateMany as jest.Mock).mockResolvedValue({count: 1});
+  });
+
+  it("should look for unfinished jobs without progress for an hour", async () => {
+    await runImportSweep({now});
+
+    expect(prisma.importJob.findMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: {
+          status: {in: ["pending", "running"]},
+          updatedAt: {lt: new Date("2025-08-20T11:00:00Z")},
+        },
+      }),
+    );
+  });
+
+  it("should fail stale jobs and release their reserved files", async () => {
+    (prisma.importJob.findMany as jest.Mock).mockResolvedValue([staleJob("job-1", reservedFile)]);
+
+    const report = await runImportSweep({now, staleMinutes: 30});
+
+    expect(report).toEqual({jobsFailed: 1, filesReleased: 1, failed: []});
+    expect(prisma.importJob.updateMany).toHaveBeenCalledWith({
+      where: {
+        id: "job-1",
+        status: {in: ["pending", "running"]},
+        updatedAt: {lt: new Date("2025-08-20T11:30:00Z")},
+      },
+      data: {status: "failed", error: "Import stopped before finishing", completedAt: now},
+    });
+    expect(abortMultipartUpload).toHaveBeenCalledWith({
+      env: "test",
+      lifecyclePolicy: "infinite",
+      userId: "user123",
+      fileId: "file-1",
+      uploadId: "upload-1",
+    });
+    expect(prisma.file.updateMany).toHaveBeenCalledWith({
+      where: {id: "file-1", status: "reserved"},
+      data: {status: "failed", uploadId: null, updatedAt: now},
+    });
+  });
+
+  it("should leave jobs alone that finished since they were listed", async () => {
+    (prisma.importJob.findMany as jest.Mock).mockResolvedValue([staleJob("job-1", reservedFile)]);
+    (prisma.importJob.updateMany as jest.Mock).mockResolvedValue({count: 0});
+
+    const report = await runImportSweep({now});
+
+    expect(report.jobsFailed).toBe(0);
+    expect(abortMultipartUpload).not.toHaveBeenCalled();
+    expect(prisma.file.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should only release files still reserved", async () => {
+    (prisma.importJob.findMany as jest.Mock).mockResolvedValue([
+      staleJob("job-1", null),
+      staleJob("job-2", {...reservedFile, status: "validated"}),
+      staleJob("job-3", {...reservedFile, r2Locator: null, uploadId: null}),
+    ]);
+
+    const report = await runImportSweep({now});
+
+    expect(report).toEqual({jobsFailed: 3, filesReleased: 1, failed: []});
+    expect(abortMultipartUpload).not.toHaveBeenCalled();
+  });
+
+  it("should release the file even if the upload can't be aborted", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    (prisma.importJob.findMany as jest.Mock).mockResolvedValue([staleJob("job-1", reservedFile)]);
+    abortMultipartUpload.mockRejectedValue(new Error("NoSuchUpload"));
+
+    const report = await runImportSweep({now});
+
+    expect(report).toEqual({jobsFailed: 1, filesReleased: 1, failed: []});
+  });
+
+  it("should report jobs whose cleanup failed and carry on", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    (prisma.importJob.findMany as jest.Mock).mockResolvedValue([
+      staleJob("job-1", reservedFile),
+      staleJob("job-2", {...reservedFile, id: "file-2"}),
+    ]);
+    (prisma.file.updateMany as jest.Mock)
+      .mockRejectedValueOnce(new Error("Database error"))
+      .mockResolvedValueOnce({count: 1});
+
+    const report = await runImportSweep({now});
+
+    expect(report).toEqual({jobsFailed: 2, filesReleased: 1, failed: ["job-1"]});
+  });
+});
@@ -0,0 +1,94 @@
+import type {Prisma} from "@prisma/client";
+import {claimInviteCode, generateInviteCode, normalizeInviteCode} from "../../src/lib/invite-codes";
+
+describe("invite codes", () => {
+  const tx = {
+    inviteCode: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  };
+  const now = new Date("2025-08-16T12:00:00Z");
+  const inviteCode = {
+    id: "invite-id",
+    code: "K7QM-2XRD",
+    issuerId: null,
+    maxUses: 1,
+    useCount: 0,
+    expiresAt: null,
+    createdAt: now,
+    updatedAt: now,
+  };
+
+  function claim(code: string) {
+    return claimInviteCode(tx as unknown as Prisma.TransactionClient, code, now);
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    tx.inviteCode.findUnique.mockResolvedValue(inviteCode);
+    tx.inviteCode.updateMany.mockResolvedValue({count: 1});
+  });
+
+  describe("generateInviteCode", () => {
+    it("should generate readable codes", () => {
+      const code = generateInviteCode();
+
+      expect(code).toMatch(/^[A-HJ-NP-Z2-9]{4}-[A-HJ-NP-Z2-9]{4}$/);
+      expect(generateInviteCode()).not.toBe(code);
+    });
+  });
+
+  describe("normalizeInviteCode", () => {
+    it("should trim and uppercase codes", () => {
+      expect(normalizeInviteCode("  k7qm-2xrd ")).toBe("K7QM-2XRD");
+    });
+  });
+
+  describe("claimInviteCode", () => {
+    it("should spend one use of a valid code", async () => {
+      const result = await claim("k7qm-2xrd");
+
+      expect(result).toEqual({ok: true, inviteCode});
+      expect(tx.inviteCode.findUnique).toHaveBeenCalledWith({where: {code: "K7QM-2XRD"}});
+      expect(tx.inviteCode.updateMany).toHaveBeenCalledWith({
+        where: {
+          id: "invite-id",
+          useCount: {lt: 1},
+          OR: [{expiresAt: null}, {expiresAt: {gt: now}}],
+        },
+        data: {useCount: {increment: 1}},
+      });
+    });
+
+    it("should reject unknown codes", async () => {
+      tx.inviteCode.findUnique.mockResolvedValue(null);
+
+      await expect(claim("NOPE-NOPE")).resolves.toEqual({
+        ok: false,
+        error: "Invalid invite code",
+      });
+      expect(tx.inviteCode.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject expired codes", async () => {
+      tx.inviteCode.findUnique.mockResolvedValue({...inviteCode, expiresAt: now});
+
+      await expect(claim("K7QM-2XRD")).resolves.toEqual({
+        ok: false,
+        error: "Invite code has expired",
+      });
+      expect(tx.inviteCode.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject codes with no uses left", async () => {
+      // The conditional increment matches nothing once the code is used up
+      tx.inviteCode.updateMany.mockResolvedValue({count: 0});
+
+      await expect(claim("K7QM-2XRD")).resolves.toEqual({
+        ok: false,
+        error: "Invite code has already been used",
+      });
+    });
+  });
+});
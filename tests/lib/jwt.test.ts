@@ -0,0 +1,61 @@
+import {signJwt, verifyJwt} from "../../src/lib/jwt";
+
+describe("jwt", () => {
+  const originalSecret = process.env.NEXTAUTH_SECRET;
+
+  beforeEach(() => {
+    process.env.NEXTAUTH_SECRET = "test-secret";
+  });
+
+  afterAll(() => {
+    process.env.NEXTAUTH_SECRET = originalSecret;
+  });
+
+  it("should round-trip claims", () => {
+    const now = new Date("2025-08-15T12:00:00Z");
+    const token = signJwt({sub: "user-id", email: "test@example.com"}, 3600, now);
+
+    expect(verifyJwt(token, now)).toEqual({
+      sub: "user-id",
+      email: "test@example.com",
+      iat: now.getTime() / 1000,
+      exp: now.getTime() / 1000 + 3600,
+    });
+  });
+
+  it("should reject expired tokens", () => {
+    const now = new Date("2025-08-15T12:00:00Z");
+    const token = signJwt({sub: "user-id"}, 3600, now);
+
+    expect(verifyJwt(token, new Date("2025-08-15T13:00:00Z"))).toBeNull();
+  });
+
+  it("should reject tampered tokens", () => {
+    const token = signJwt({sub: "user-id"}, 3600);
+    const [header, , signature] = token.split(".");
+    const payload = Buffer.from(
+      JSON.stringify({sub: "other-user-id", exp: Math.floor(Date.now() / 1000) + 3600}),
+    ).toString("base64url");
+
+    expect(verifyJwt(`${header}.${payload}.${signature}`)).toBeNull();
+  });
+
+  it("should reject tokens signed with another secret", () => {
+    const token = signJwt({sub: "user-id"}, 3600);
+    process.env.NEXTAUTH_SECRET = "rotated-secret";
+
+    expect(verifyJwt(token)).toBeNull();
+  });
+
+  it("should reject malformed tokens", () => {
+    expect(verifyJwt("")).toBeNull();
+    expect(verifyJwt("not.a.jwt")).toBeNull();
+    expect(verifyJwt("a.b")).toBeNull();
+  });
+
+  it("should require a secret", () => {
+    delete process.env.NEXTAUTH_SECRET;
+
+    expect(() => signJwt({sub: "user-id"}, 3600)).toThrow("NEXTAUTH_SECRET is not configured");
+  });
+});
@@ -0,0 +1,111 @@
+import {buildFilterWhere, parseListFilters} from "../../src/lib/list-filters";
+import {fileFilterFields} from "../../packages/sdk/src/contract";
+
+function parse(query: string) {
+  return parseListFilters(new URLSearchParams(query), fileFilterFields);
+}
+
+function filtersOf(query: string) {
+  const result = parse(query);
+  if (!result.ok) {
+    throw new Error(result.error);
+  }
+  return result.filters;
+}
+
+describe("list filters", () => {
+  describe("parseListFilters", () => {
+    it("should ignore parameters that aren't filters", () => {
+      expect(filtersOf("limit=10&order_by=filename+asc")).toEqual([]);
+    });
+
+    it("should match a value exactly", () => {
+      expect(filtersOf("filter~status=validated&filter~sizeBytes=1024")).toEqual([
+        {field: "status", operator: "eq", value: "validated"},
+        {field: "sizeBytes", operator: "eq", value: 1024},
+      ]);
+    });
+
+    it("should match any of a comma-separated list", () => {
+      expect(filtersOf("filter~status=uploaded,failed&filter~sizeBytes=1,2")).toEqual([
+        {field: "status", operator: "in", values: ["uploaded", "failed"]},
+        {field: "sizeBytes", operator: "in", values: [1, 2]},
+      ]);
+    });
+
+    it("should match a prefix ending in *", () => {
+      expect(filtersOf("filter~fullPath=/docs/*")).toEqual([
+        {field: "fullPath", operator: "prefix", prefix: "/docs/"},
+      ]);
+    });
+
+    it("should take escaped commas and stars literally", () => {
+      expect(filtersOf(`filter~filename=${encodeURIComponent("a\\,b\\*")}`)).toEqual([
+        {field: "filename", operator: "eq", value: "a,b*"},
+      ]);
+    });
+
+    it("should match ranges with either end open", () => {
+      expect(
+        filtersOf(
+          "filter~sizeBytes=100..200&filter~createdAt=2026-01-01..&filter~expiresAt=..2026-03-01",
+        ),
+      ).toEqual([
+        {field: "sizeBytes", operator: "range", min: 100, max: 200},
+        {field: "createdAt", operator: "range", min: new Date("2026-01-01"), max: null},
+        {field: "expiresAt", operator: "range", min: null, max: new Date("2026-03-01")},
+      ]);
+    });
+
+    it("should match unset values with an empty value on nullable fields", () => {
+      expect(filtersOf("filter~directoryId=&filter~expiresAt=")).toEqual([
+        {field: "directoryId", operator: "eq", value: null},
+        {field: "expiresAt", operator: "eq", value: null},
+      ]);
+    });
+
+    it("should reject unknown fields", () => {
+      expect(parse("filter~owner=me")).toEqual({ok: false, error: 'Unknown filter field "owner"'});
+      expect(parse("filter~toString=x").ok).toBe(false);
+    });
+
+    it("should reject values the field can't take", () => {
+      for (const query of [
+        "filter~status=deleted",
+        "filter~status=valid*",
+        "filter~sizeBytes=big",
+        "filter~sizeBytes=1..2..3",
+        "filter~sizeBytes=..",
+        "filter~createdAt=yesterday..",
+        "filter~fullPath=/a,/b*",
+        "filter~createdAt=",
+      ]) {
+        expect(parse(query).ok).toBe(false);
+      }
+    });
+  });
+
+  describe("buildFilterWhere", () => {
+    it("should build one Prisma condition per filter", () => {
+      expect(
+        buildFilterWhere(
+          filtersOf(
+            "filter~status=validated&filter~status=uploaded,validated&filter~fullPath=/docs/*" +
+              "&filter~sizeBytes=..1000",
+          ),
+        ),
+      ).toEqual([
+        {status: {equals: "validated"}},
+        {status: {in: ["uploaded", "validated"]}},
+        {fullPath: {startsWith: "/docs/"}},
+        {sizeBytes: {lte: 1000}},
+      ]);
+    });
+
+    it("should filter through relations for dotted fields", () => {
+      expect(buildFilterWhere(filtersOf("filter~directory.fullPath=/docs"))).toEqual([
+        {directory: {fullPath: {equals: "/docs"}}},
+      ]);
+    });
+  });
+});
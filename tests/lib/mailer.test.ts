@@ -0,0 +1,78 @@
+import fs from "fs/promises";
+import os from "os";
+import path from "path";
+import {
+  ConsoleTransport,
+  FileTransport,
+  SmtpTransport,
+  getMailTransport,
+  resetMailTransport,
+} from "../../src/lib/mailer";
+
+describe("mailer", () => {
+  const originalEnv = {...process.env};
+
+  beforeEach(() => {
+    resetMailTransport();
+    delete process.env.MAIL_TRANSPORT;
+    delete process.env.SMTP_HOST;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+    resetMailTransport();
+  });
+
+  describe("FileTransport", () => {
+    it("should write each message to a JSON file", async () => {
+      const directory = await fs.mkdtemp(path.join(os.tmpdir(), "hulkastorus-mail-"));
+
+      try {
+        const transport = new FileTransport(directory, "Test <test@example.com>");
+        await transport.send({to: "user@example.com", subject: "Hello", text: "Body"});
+
+        const files = await fs.readdir(directory);
+        expect(files).toHaveLength(1);
+
+        const message = JSON.parse(await fs.readFile(path.join(directory, files[0]), "utf8"));
+        expect(message).toMatchObject({
+          from: "Test <test@example.com>",
+          to: "user@example.com",
+          subject: "Hello",
+          text: "Body",
+        });
+      } finally {
+        await fs.rm(directory, {recursive: true, force: true});
+      }
+    });
+  });
+
+  describe("getMailTransport", () => {
+    it("should log to the console by default", () => {
+      expect(getMailTransport()).toBeInstanceOf(ConsoleTransport);
+    });
+
+    it("should use SMTP when a host is configured", () => {
+      process.env.SMTP_HOST = "smtp.example.com";
+
+      expect(getMailTransport()).toBeInstanceOf(SmtpTransport);
+    });
+
+    it("should honor MAIL_TRANSPORT", () => {
+      process.env.SMTP_HOST = "smtp.example.com";
+      process.env.MAIL_TRANSPORT = "file";
+
+      expect(getMailTransport()).toBeInstanceOf(FileTransport);
+    });
+
+    it("should require a host for SMTP", () => {
+      process.env.MAIL_TRANSPORT = "smtp";
+
+      expect(() => getMailTransport()).toThrow("SMTP_HOST is required");
+    });
+
+    it("should reuse the same transport", () => {
+      expect(getMailTransport()).toBe(getMailTransport());
+    });
+  });
+});
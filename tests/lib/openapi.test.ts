@@ -0,0 +1,169 @@
+import fs from "fs";
+import path from "path";
+import type {z} from "zod";
+import * as contract from "../../packages/sdk/src/contract";
+import {
+  buildOpenApiDocument,
+  documentedResponse,
+  findOperation as findDocumentedOperation,
+  operations,
+  type ApiOperation,
+} from "../../src/lib/openapi";
+
+const API_DIR = path.join(__dirname, "../../src/app/api/v1");
+
+interface RouteHandler {
+  method: string;
+  path: string;
+  source: string;
+}
+
+// Every handler exported by a route.ts under /api/v1, with the source of its function
+function findRouteHandlers(dir = API_DIR): RouteHandler[] {
+  return fs.readdirSync(dir, {withFileTypes: true}).flatMap((entry) => {
+    const entryPath = path.join(dir, entry.name);
+    if (entry.isDirectory()) {
+      return findRouteHandlers(entryPath);
+    }
+    if (entry.name !== "route.ts") {
+      return [];
+    }
+
+    const routePath =
+      "/api/v1/" +
+      path
+        .relative(API_DIR, dir)
+        .split(path.sep)
+        .join("/")
+        .replace(/\[(\w+)\]/g, "{$1}");
+    const source = fs.readFileSync(entryPath, "utf8");
+
+    return source
+      .split(/(?=^export async function )/m)
+      .slice(1)
+      .map((chunk) => ({
+        method: chunk.match(/^export async function (\w+)/)![1].toLowerCase(),
+        path: routePath,
+        source: chunk,
+      }));
+  });
+}
+
+function findOperation(handler: RouteHandler): ApiOperation | undefined {
+  return operations.find(
+    (operation) => operation.method === handler.method && operation.path === handler.path,
+  );
+}
+
+const contractSchemas = contract as unknown as Record<string, z.ZodType>;
+const handlers = findRouteHandlers();
+
+describe("OpenAPI document", () => {
+  it("should document every route handler, and nothing that isn't one", () => {
+    const routes = handlers.map((handler) => `${handler.method} ${handler.path}`).sort();
+    const documented = operations.map((operation) => `${operation.method} ${operation.path}`);
+
+    expect([...documented].sort()).toEqual(routes);
+    expect(new Set(documented).size).toBe(documented.length);
+  });
+
+  it.each(handlers.map((handler) => [`${handler.method} ${handler.path}`, handler] as const))(
+    "should describe %s with the contract schemas it parses",
+    (_, handler) => {
+      const operation = findOperation(handler)!;
+      const parsed = [...handler.source.matchAll(/(\w+Schema)\.parse\(/g)].map(
+        ([, name]) => contractSchemas[name],
+      );
+
+      for (const schema of parsed) {
+        expect(schema).toBeDefined();
+        expect([operation.body, operation.query]).toContain(schema);
+      }
+      if (operation.body) {
+        expect(parsed).toContain(operation.body);
+      }
+    },
+  );
+
+  it.each(handlers.map((handler) => [`${handler.method} ${handler.path}`, handler] as const))(
+    "should document every status %s responds with",
+    (_, handler) => {
+      const operation = findOperation(handler)!;
+      const statuses = [...handler.source.matchAll(/status: (\d{3})/g)].map(([, status]) =>
+        Number(status),
+      );
+      if (handler.source.includes("NextResponse.redirect(")) {
+        statuses.push(307);
+      }
+
+      const documented = Object.keys(
+        buildOpenApiDocument().paths[handler.path]![operation.method]!.responses,
+      ).map(Number);
+      for (const status of statuses) {
+        expect(documented).toContain(status);
+      }
+    },
+  );
+
+  it("should only give examples that match their schemas", () => {
+    for (const operation of operations) {
+      if (operation.body && operation.bodyExample !== undefined) {
+        expect(() => operation.body!.parse(operation.bodyExample)).not.toThrow();
+      }
+      for (const response of Object.values(operation.responses)) {
+        if (response.schema && response.example !== undefined) {
+          expect(() => response.schema!.parse(response.example)).not.toThrow();
+        }
+      }
+    }
+  });
+
+  it("should be OpenAPI 3.1 with every $ref resolving to a component", () => {
+    const document = buildOpenApiDocument();
+    const refs = [...JSON.stringify(document).matchAll(/"\$ref":"#\/components\/schemas\/(\w+)"/g)];
+
+    expect(document.openapi).toBe("3.1.0");
+    expect(refs.length).toBeGreaterThan(0);
+    for (const [, id] of refs) {
+      expect(document.components.schemas[id]).toBeDefined();
+    }
+  });
+
+  it("should publish request schemas as the routes validate them", () => {
+    const document = buildOpenApiDocument();
+    const createFile = document.components.schemas.CreateFileInput as {
+      properties: Record<string, Record<string, unknown>>;
+      required: string[];
+    };
+
+    expect(createFile.required).toEqual(["filename"]);
+    expect(createFile.properties.permissions).toMatchObject({
+      enum: [...contract.PERMISSIONS],
+      default: "private",
+    });
+    expect(
+      document.paths["/api/v1/files"]!.post!.requestBody!.content["application/json"].schema,
+    ).toEqual({$ref: "#/components/schemas/CreateFileInput"});
+  });
+
+  it("should find the operation serving a request path", () => {
+    expect(findDocumentedOperation("PUT", "/api/v1/files/abc123/status")?.path).toBe(
+      "/api/v1/files/{id}/status",
+    );
+    expect(findDocumentedOperation("POST", "/api/v1/files/import")?.path).toBe(
+      "/api/v1/files/import",
+    );
+    expect(findDocumentedOperation("GET", "/api/v1/files/import/job-1")?.path).toBe(
+      "/api/v1/files/import/{id}",
+    );
+    expect(findDocumentedOperation("GET", "/api/v1/nothing")).toBeUndefined();
+  });
+
+  it("should include the shared responses when looking one up", () => {
+    const operation = findDocumentedOperation("GET", "/api/v1/files")!;
+
+    expect(documentedResponse(operation, 200)?.schema).toBe(operation.responses[200].schema);
+    expect(documentedResponse(operation, 401)?.schema).toBe(contract.errorResponseSchema);
+    expect(documentedResponse(operation, 418)).toBeUndefined();
+  });
+});
@@ -0,0 +1,241 @@
+import {prisma} from "@/lib/prisma";
+import {getReservedMaxAgeHours, runOrphanSweep} from "../../src/lib/orphan-sweep";
+import {R2Client} from "../../src/lib/r2-client";
+import {MockR2Server} from "../mocks/r2-server";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    file: {
+      findMany: jest.fn(),
+      deleteMany: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+// Mock R2 config to use test server
+jest.mock("@/lib/r2-config", () => {
+  const originalModule = jest.requireActual("@/lib/r2-config");
+  return {
+    ...originalModule,
+    currentEnv: "test",
+    getR2Client: () => {
+      const {R2Client} = jest.requireActual("@/lib/r2-client");
+      return new R2Client({
+        endpoint: "http://localhost:9014",
+        accessKeyId: "test",
+        secretAccessKey: "test",
+        bucketName: "test-bucket",
+        region: "auto",
+      });
+    },
+  };
+});
+
+describe("runOrphanSweep", () => {
+  let mockServer: MockR2Server;
+  const r2Client = new R2Client({
+    accountId: "test",
+    accessKeyId: "test",
+    secretAccessKey: "test",
+    bucketName: "test-bucket",
+    endpoint: "http://localhost:9014",
+  });
+
+  const locator = (fileId: string, env = "test") => `${env}/infinite/user123/${fileId}`;
+
+  async function putObject(fileId: string, env = "test") {
+    await r2Client.putObject({
+      env,
+      lifecyclePolicy: "infinite",
+      userId: "user123",
+      fileId,
+      body: "content",
+    });
+  }
+
+  // findMany is called for reserved rows, then once per object page, then per row page
+  function mockFindMany({
+    reserved = [],
+    referenced = [],
+    stored = [],
+  }: {
+    reserved?: object[];
+    referenced?: string[];
+    stored?: object[];
+  }) {
+    (prisma.file.findMany as jest.Mock).mockImplementation(({where}) => {
+      if (where.status === "reserved") {
+        return Promise.resolve(reserved);
+      }
+      if (where.r2Locator?.in) {
+        const keys = where.r2Locator.in as string[];
+        return Promise.resolve(
+          keys.filter((key) => referenced.includes(key)).map((key) => ({r2Locator: key})),
+        );
+      }
+      return Promise.resolve(stored);
+    });
+  }
+
+  beforeAll(async () => {
+    mockServer = new MockR2Server(9014, "test-bucket");
+    await mockServer.start();
+  });
+
+  afterAll(async () => {
+    await mockServer.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockServer.clear();
+    (prisma.file.deleteMany as jest.Mock).mockResolvedValue({count: 1});
+    (prisma.file.updateMany as jest.Mock).mockResolvedValue({count: 1});
+  });
+
+  it("should delete objects that no file row points at", async () => {
+    await putObject("kept");
+    await putObject("orphan");
+    mockFindMany({referenced: [locator("kept")]});
+
+    const report = await runOrphanSweep();
+
+    expect(report.scanned).toBe(2);
+    expect(report.orphansDeleted).toBe(1);
+    expect(mockServer.hasObject(locator("kept"))).toBe(true);
+    expect(mockServer.hasObject(locator("orphan"))).toBe(false);
+  });
+
+  it("should only walk the current environment and skip foreign keys", async () => {
+    await putObject("other-env", "production");
+    await fetch("http://localhost:9014/test-bucket/test/not-a-file-key", {
+      method: "PUT",
+      body: "content",
+    });
+    mockFindMany({});
+
+    const report = await runOrphanSweep();
+
+    expect(report.scanned).toBe(1);
+    expect(report.skipped).toBe(1);
+    expect(report.orphansDeleted).toBe(0);
+    expect(mockServer.hasObject(locator("other-env", "production"))).toBe(true);
+    expect(mockServer.hasObject("test/not-a-file-key")).toBe(true);
+  });
+
+  it("should walk every page of objects", async () => {
+    for (const fileId of ["a", "b", "c", "d", "e"]) {
+      await putObject(fileId);
+    }
+    mockFindMany({referenced: [locator("a"), locator("e")]});
+
+    const report = await runOrphanSweep({pageSize: 2});
+
+    expect(report.scanned).toBe(5);
+    expect(report.orphansDeleted).toBe(3);
+    expect(mockServer.getObjectKeys().sort()).toEqual([locator("a"), locator("e")]);
+  });
+
+  it("should mark stored rows whose object is missing as failed", async () => {
+    await putObject("present");
+    mockFindMany({
+      referenced: [locator("present")],
+      stored: [
+        {id: "present", r2Locator: locator("present")},
+        {id: "missing", r2Locator: locator("missing")},
+      ],
+    });
+
+    const report = await runOrphanSweep();
+
+    expect(report.missingMarked).toBe(1);
+    expect(prisma.file.updateMany).toHaveBeenCalledTimes(1);
+    expect(prisma.file.updateMany).toHaveBeenCalledWith({
+      where: {id: "missing", status: {in: ["uploaded", "validated"]}},
+      data: {status: "failed"},
+    });
+  });
+
+  it("should not mark rows whose object appeared after the listing", async () => {
+    (prisma.file.findMany as jest.Mock).mockImplementation(async ({where}) => {
+      if (where.status?.in) {
+        // The upload finishes between the listing and the row check
+        await putObject("late");
+        return [{id: "late", r2Locator: locator("late")}];
+      }
+      return [];
+    });
+
+    const report = await runOrphanSweep();
+
+    expect(report.missingMarked).toBe(0);
+    expect(prisma.file.updateMany).not.toHaveBeenCalled();
+  });
+
+  it("should clean up reserved rows older than the configured age", async () => {
+    const {uploadId} = await r2Client.createMultipartUpload({
+      env: "test",
+      lifecyclePolicy: "infinite",
+      userId: "user123",
+      fileId: "abandoned",
+    });
+    mockFindMany({
+      reserved: [
+        {id: "abandoned", r2Locator: locator("abandoned"), uploadId},
+        {id: "no-locator", r2Locator: null, uploadId: null},
+      ],
+    });
+
+    const now = new Date("2025-01-02T00:00:00Z");
+    const report = await runOrphanSweep({reservedMaxAgeHours: 6, now});
+
+    expect(report.reservedCleaned).toBe(2);
+    expect(mockServer.getUploadCount()).toBe(0);
+    expect(prisma.file.findMany).toHaveBeenCalledWith({
+      where: {
+        status: "reserved",
+        createdAt: {lt: new Date("2025-01-01T18:00:00Z")},
+        OR: [{r2Locator: null}, {r2Locator: {startsWith: "test/"}}],
+      },
+      select: {id: true, r2Locator: true, uploadId: true},
+    });
+    expect(prisma.file.deleteMany).toHaveBeenCalledWith({
+      where: {id: "abandoned", status: "reserved"},
+    });
+  });
+
+  it("should report reserved rows whose cleanup fails", async () => {
+    jest.spyOn(console, "error").mockImplementation(() => {});
+    mockFindMany({
+      reserved: [{id: "stuck", r2Locator: locator("stuck"), uploadId: "unknown-upload"}],
+    });
+
+    const report = await runOrphanSweep();
+
+    expect(report.failed).toEqual(["stuck"]);
+    expect(prisma.file.deleteMany).not.toHaveBeenCalled();
+  });
+
+  describe("getReservedMaxAgeHours", () => {
+    const originalValue = process.env.RESERVED_FILE_MAX_AGE_HOURS;
+
+    afterEach(() => {
+      process.env.RESERVED_FILE_MAX_AGE_HOURS = originalValue;
+    });
+
+    it("should read the age from the environment", () => {
+      process.env.RESERVED_FILE_MAX_AGE_HOURS = "48";
+      expect(getReservedMaxAgeHours()).toBe(48);
+    });
+
+    it("should fall back to the default for missing or invalid values", () => {
+      delete process.env.RESERVED_FILE_MAX_AGE_HOURS;
+      expect(getReservedMaxAgeHours()).toBe(24);
+
+      process.env.RESERVED_FILE_MAX_AGE_HOURS = "soon";
+      expect(getReservedMaxAgeHours()).toBe(24);
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import {prisma} from "@/lib/prisma";
+import {
+  PASSWORD_RESET_TTL_MS,
+  hashResetToken,
+  resetPasswordWithToken,
+  sendPasswordResetEmail,
+} from "../../src/lib/password-reset";
+
+// Mock Prisma; transactions run against the same mocks
+jest.mock("@/lib/prisma", () => {
+  const prisma = {
+    user: {
+      findUnique: jest.fn(),
+      updateMany: jest.fn(),
+    },
+    verificationToken: {
+      findUnique: jest.fn(),
+      create: jest.fn(),
+      deleteMany: jest.fn(),
+    },
+    $transaction: jest.fn(),
+  };
+  prisma.$transaction.mockImplementation((fn: (tx: typeof prisma) => unknown) => fn(prisma));
+  return {prisma};
+});
+
+// Mock bcryptjs
+jest.mock("bcryptjs", () => ({
+  hash: jest.fn().mockResolvedValue("hashed-new-password"),
+}));
+
+// Mock mail delivery
+const mockSendMail = jest.fn();
+jest.mock("@/lib/mailer", () => ({
+  getMailTransport: () => ({send: mockSendMail}),
+}));
+
+describe("password reset", () => {
+  const now = new Date("2025-08-15T12:00:00Z");
+  const user = {id: "user-id", email: "test@example.com", firstName: "Test"};
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NEXTAUTH_URL = "https://hulkastorus.example";
+    (prisma.verificationToken.deleteMany as jest.Mock).mockResolvedValue({count: 1});
+    (prisma.user.updateMany as jest.Mock).mockResolvedValue({count: 1});
+  });
+
+  describe("sendPasswordResetEmail", () => {
+    it("should store a hashed token and email the raw one", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(user);
+
+      await sendPasswordResetEmail("test@example.com", now);
+
+      expect(prisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: {identifier: "password-reset:user-id"},
+      });
+
+      const message = mockSendMail.mock.calls[0][0];
+      const rawToken = message.text.match(/reset-password\?token=([\w-]+)/)?.[1];
+      expect(message.to).toBe("test@example.com");
+      expect(message.text).toContain("https://hulkastorus.example/reset-password?token=");
+      expect(prisma.verificationToken.create).toHaveBeenCalledWith({
+        data: {
+          identifier: "password-reset:user-id",
+          token: hashResetToken(rawToken),
+          expires: new Date(now.getTime() + PASSWORD_RESET_TTL_MS),
+        },
+      });
+      expect(hashResetToken(rawToken)).not.toBe(rawToken);
+    });
+
+    it("should do nothing for unknown emails", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(sendPasswordResetEmail("nobody@example.com")).resolves.toBeUndefined();
+      expect(prisma.verificationToken.create).not.toHaveBeenCalled();
+      expect(mockSendMail).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("resetPasswordWithToken", () => {
+    const record = {
+      identifier: "password-reset:user-id",
+      token: hashResetToken("raw-token"),
+      expires: new Date(now.getTime() + PASSWORD_RESET_TTL_MS),
+    };
+
+    it("should update the password and invalidate outstanding tokens", async () => {
+      (prisma.verificationToken.findUnique as jest.Mock).mockResolvedValue(record);
+
+      const result = await resetPasswordWithToken("raw-token", "new-password", now);
+
+      expect(result).toEqual({ok: true});
+      expect(prisma.verificationToken.findUnique).toHaveBeenCalledWith({
+        where: {token: hashResetToken("raw-token")},
+      });
+      expect(prisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: {token: hashResetToken("raw-token"), expires: {gt: now}},
+      });
+      expect(prisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: {identifier: "password-reset:user-id"},
+      });
+      expect(prisma.user.updateMany).toHaveBeenCalledWith({
+        where: {id: "user-id"},
+        data: {password: "hashed-new-password"},
+      });
+    });
+
+    it("should reject unknown tokens", async () => {
+      (prisma.verificationToken.findUnique as jest.Mock).mockResolvedValue(null);
+
+      const result = await resetPasswordWithToken("raw-token", "new-password", now);
+
+      expect(result).toEqual({ok: false, error: "Invalid or expired reset link"});
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject and clean up expired tokens", async () => {
+      (prisma.verificationToken.findUnique as jest.Mock).mockResolvedValue({
+        ...record,
+        expires: new Date(now.getTime() - 1),
+      });
+
+      const result = await resetPasswordWithToken("raw-token", "new-password", now);
+
+      expect(result.ok).toBe(false);
+      expect(prisma.verificationToken.deleteMany).toHaveBeenCalledWith({
+        where: {token: hashResetToken("raw-token")},
+      });
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should only allow a token to be used once", async () => {
+      (prisma.verificationToken.findUnique as jest.Mock).mockResolvedValue(record);
+      // Another request claimed the token first
+      (prisma.verificationToken.deleteMany as jest.Mock).mockResolvedValue({count: 0});
+
+      const result = await resetPasswordWithToken("raw-token", "new-password", now);
+
+      expect(result.ok).toBe(false);
+      expect(prisma.user.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should ignore tokens issued for other purposes", async () => {
+      (prisma.verificationToken.findUnique as jest.Mock).mockResolvedValue({
+        ...record,
+        identifier: "test@example.com",
+      });
+
+      const result = await resetPasswordWithToken("raw-token", "new-password", now);
+
+      expect(result.ok).toBe(false);
+      expect(prisma.$transaction).not.toHaveBeenCalled();
+    });
+  });
+});
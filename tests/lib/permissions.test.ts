@@ -0,0 +1,144 @@
+import {prisma} from "@/lib/prisma";
+import {
+  applyInheritedPermissions,
+  getDirectoryPermissions,
+  resolveDirectoryPermissions,
+  resolveFilePermissions,
+} from "../../src/lib/permissions";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    directory: {
+      findUnique: jest.fn(),
+      findMany: jest.fn(),
+    },
+  },
+}));
+
+describe("permissions", () => {
+  // "/" (public) <- "/models" (inherit) <- "/models/llama" (inherit)
+  const directories = [
+    {id: "root", parentId: null, defaultPermissions: "public"},
+    {id: "models", parentId: "root", defaultPermissions: "inherit"},
+    {id: "llama", parentId: "models", defaultPermissions: "inherit"},
+  ];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.directory.findUnique as jest.Mock).mockImplementation(
+      ({where}) => directories.find((directory) => directory.id === where.id) ?? null,
+    );
+    (prisma.directory.findMany as jest.Mock).mockResolvedValue(directories);
+  });
+
+  describe("applyInheritedPermissions", () => {
+    it("should keep explicit settings and resolve inherit", () => {
+      expect(applyInheritedPermissions("public", "private")).toBe("public");
+      expect(applyInheritedPermissions("private", "public")).toBe("private");
+      expect(applyInheritedPermissions("inherit", "public")).toBe("public");
+    });
+
+    it("should treat unknown settings as private", () => {
+      expect(applyInheritedPermissions("shared", "public")).toBe("private");
+    });
+  });
+
+  describe("resolveDirectoryPermissions", () => {
+    it("should not query for explicit settings", async () => {
+      await expect(resolveDirectoryPermissions(directories[0])).resolves.toBe("public");
+      expect(prisma.directory.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should walk up the parents to the nearest explicit setting", async () => {
+      await expect(resolveDirectoryPermissions(directories[2])).resolves.toBe("public");
+      expect(prisma.directory.findUnique).toHaveBeenCalledTimes(2);
+      expect(prisma.directory.findUnique).toHaveBeenCalledWith({
+        where: {id: "models"},
+        select: {id: true, parentId: true, defaultPermissions: true},
+      });
+    });
+
+    it("should treat an inheriting root as private", async () => {
+      await expect(
+        resolveDirectoryPermissions({id: "root", parentId: null, defaultPermissions: "inherit"}),
+      ).resolves.toBe("private");
+    });
+
+    it("should stop on parent cycles", async () => {
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue({
+        id: "a",
+        parentId: "b",
+        defaultPermissions: "inherit",
+      });
+
+      await expect(
+        resolveDirectoryPermissions({id: "b", parentId: "a", defaultPermissions: "inherit"}),
+      ).resolves.toBe("private");
+    });
+  });
+
+  describe("resolveFilePermissions", () => {
+    it("should use explicit file permissions", async () => {
+      await expect(
+        resolveFilePermissions({permissions: "private", directoryId: "llama"}),
+      ).resolves.toBe("private");
+      expect(prisma.directory.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should resolve inheriting files through their directory", async () => {
+      await expect(
+        resolveFilePermissions({permissions: "inherit", directoryId: "llama"}),
+      ).resolves.toBe("public");
+    });
+
+    it("should follow changes to an ancestor's default permissions", async () => {
+      directories[0].defaultPermissions = "private";
+      try {
+        await expect(
+          resolveFilePermissions({permissions: "inherit", directoryId: "llama"}),
+        ).resolves.toBe("private");
+      } finally {
+        directories[0].defaultPermissions = "public";
+      }
+    });
+
+    it("should treat files in missing directories as private", async () => {
+      await expect(
+        resolveFilePermissions({permissions: "inherit", directoryId: "gone"}),
+      ).resolves.toBe("private");
+    });
+  });
+
+  describe("getDirectoryPermissions", () => {
+    it("should resolve every directory with one query", async () => {
+      const permissions = await getDirectoryPermissions("user-id");
+
+      expect(prisma.directory.findMany).toHaveBeenCalledWith({
+        where: {userId: "user-id"},
+        select: {id: true, parentId: true, defaultPermissions: true},
+      });
+      expect(prisma.directory.findUnique).not.toHaveBeenCalled();
+      expect(Object.fromEntries(permissions)).toEqual({
+        root: "public",
+        models: "public",
+        llama: "public",
+      });
+    });
+
+    it("should stop at the nearest explicit setting", async () => {
+      (prisma.directory.findMany as jest.Mock).mockResolvedValue([
+        ...directories,
+        {id: "private-models", parentId: "models", defaultPermissions: "private"},
+        {id: "checkpoints", parentId: "private-models", defaultPermissions: "inherit"},
+        {id: "orphan", parentId: "gone", defaultPermissions: "inherit"},
+      ]);
+
+      const permissions = await getDirectoryPermissions("user-id");
+
+      expect(permissions.get("checkpoints")).toBe("private");
+      expect(permissions.get("llama")).toBe("public");
+      expect(permissions.get("orphan")).toBe("private");
+    });
+  });
+});
@@ -0,0 +1,140 @@
+import {prisma} from "@/lib/prisma";
+import {checkQuota, getQuotaBytes, getUsedBytes, planQuotas, withQuota} from "../../src/lib/quota";
+
+// Mock Prisma; transactions run against a separate client so tests can tell them apart
+const mockTx = {
+  user: {
+    findUnique: jest.fn(),
+  },
+  file: {
+    aggregate: jest.fn(),
+  },
+  $queryRaw: jest.fn(),
+};
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    file: {
+      aggregate: jest.fn(),
+    },
+    $transaction: jest.fn((fn: (tx: typeof mockTx) => unknown) => fn(mockTx)),
+  },
+}));
+
+const GB = 1024 * 1024 * 1024;
+
+describe("quota", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe("getQuotaBytes", () => {
+    it("should use the plan's storage cap", () => {
+      expect(getQuotaBytes({plan: "free"})).toBe(10 * GB);
+      expect(getQuotaBytes({plan: "pro"})).toBe(1024 * GB);
+      expect(getQuotaBytes({plan: "tres_commas"})).toBeNull();
+    });
+
+    it("should prefer a per-user override", () => {
+      expect(getQuotaBytes({plan: "free", quotaBytes: BigInt(5 * GB)})).toBe(5 * GB);
+      expect(getQuotaBytes({plan: "tres_commas", quotaBytes: BigInt(0)})).toBe(0);
+    });
+
+    it("should fall back to the free plan", () => {
+      expect(getQuotaBytes({})).toBe(planQuotas.free);
+      expect(getQuotaBytes({plan: "enterprise"})).toBe(planQuotas.free);
+    });
+  });
+
+  describe("getUsedBytes", () => {
+    it("should sum validated files and pending reservations", async () => {
+      (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: BigInt(4096)}});
+
+      await expect(getUsedBytes("user-id")).resolves.toBe(4096);
+      expect(prisma.file.aggregate).toHaveBeenCalledWith({
+        where: {userId: "user-id", status: {in: ["reserved", "uploaded", "validated"]}},
+        _sum: {sizeBytes: true},
+      });
+    });
+
+    it("should return 0 when the user has no files", async () => {
+      (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: null}});
+
+      await expect(getUsedBytes("user-id")).resolves.toBe(0);
+    });
+  });
+
+  describe("checkQuota", () => {
+    it("should allow requests that fit within the quota", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({plan: "free", quotaBytes: null});
+      (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: BigInt(GB)}});
+
+      await expect(checkQuota("user-id", 9 * GB)).resolves.toEqual({
+        allowed: true,
+        quotaBytes: 10 * GB,
+        usedBytes: GB,
+        requestedBytes: 9 * GB,
+      });
+    });
+
+    it("should reject requests that exceed the quota", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({plan: "free", quotaBytes: null});
+      (prisma.file.aggregate as jest.Mock).mockResolvedValue({_sum: {sizeBytes: BigInt(GB)}});
+
+      const result = await checkQuota("user-id", 9 * GB + 1);
+
+      expect(result.allowed).toBe(false);
+    });
+
+    it("should skip counting usage for unlimited plans", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({plan: "tres_commas"});
+
+      const result = await checkQuota("user-id", Number.MAX_SAFE_INTEGER);
+
+      expect(result.allowed).toBe(true);
+      expect(prisma.file.aggregate).not.toHaveBeenCalled();
+    });
+  });
+
+  describe("withQuota", () => {
+    const write = jest.fn().mockResolvedValue("written");
+
+    beforeEach(() => {
+      mockTx.user.findUnique.mockResolvedValue({plan: "free", quotaBytes: null});
+      mockTx.file.aggregate.mockResolvedValue({_sum: {sizeBytes: BigInt(GB)}});
+    });
+
+    it("should lock the user before checking and writing in the transaction", async () => {
+      await expect(withQuota("user-id", 9 * GB, {}, write)).resolves.toEqual({
+        allowed: true,
+        result: "written",
+      });
+
+      const [sql, userId] = mockTx.$queryRaw.mock.calls[0];
+      expect(sql.join("?")).toContain("FOR UPDATE");
+      expect(userId).toBe("user-id");
+      expect(mockTx.$queryRaw.mock.invocationCallOrder[0]).toBeLessThan(
+        mockTx.file.aggregate.mock.invocationCallOrder[0],
+      );
+      expect(write).toHaveBeenCalledWith(mockTx);
+      expect(prisma.file.aggregate).not.toHaveBeenCalled();
+    });
+
+    it("should not write when the bytes don't fit", async () => {
+      await expect(
+        withQuota("user-id", 9 * GB + 1, {excludeFileId: "file-id"}, write),
+      ).resolves.toEqual({
+        allowed: false,
+        quota: {allowed: false, quotaBytes: 10 * GB, usedBytes: GB, requestedBytes: 9 * GB + 1},
+      });
+      expect(mockTx.file.aggregate).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({id: {not: "file-id"}}),
+        }),
+      );
+      expect(write).not.toHaveBeenCalled();
+    });
+  });
+});
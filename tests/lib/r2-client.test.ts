@@ -225,6 +225,187 @@ describe("R2Client", () => {
     });
   });
 
+  describe("listObjects", () => {
+    async function upload(env: string, fileId: string) {
+      await r2Client.putObject({
+        env,
+        lifecyclePolicy: "infinite",
+        userId: "user123",
+        fileId,
+        body: "content",
+      });
+    }
+
+    it("should list objects under a prefix", async () => {
+      await upload("test", "file1");
+      await upload("test", "file2");
+      await upload("production", "file3");
+
+      const {objects, nextContinuationToken} = await r2Client.listObjects({prefix: "test/"});
+
+      expect(objects.map((object) => object.key)).toEqual([
+        "test/infinite/user123/file1",
+        "test/infinite/user123/file2",
+      ]);
+      expect(objects[0].size).toBe(7);
+      expect(objects[0].lastModified).toBeInstanceOf(Date);
+      expect(nextContinuationToken).toBeUndefined();
+    });
+
+    it("should paginate with continuation tokens", async () => {
+      await upload("test", "file1");
+      await upload("test", "file2");
+      await upload("test", "file3");
+
+      const firstPage = await r2Client.listObjects({prefix: "test/", maxKeys: 2});
+      expect(firstPage.objects).toHaveLength(2);
+      expect(firstPage.nextContinuationToken).toBeTruthy();
+
+      const secondPage = await r2Client.listObjects({
+        prefix: "test/",
+        maxKeys: 2,
+        continuationToken: firstPage.nextContinuationToken,
+      });
+      expect(secondPage.objects.map((object) => object.key)).toEqual([
+        "test/infinite/user123/file3",
+      ]);
+      expect(secondPage.nextContinuationToken).toBeUndefined();
+    });
+
+    it("should return an empty list for an empty bucket", async () => {
+      await expect(r2Client.listObjects()).resolves.toEqual({
+        objects: [],
+        nextContinuationToken: undefined,
+      });
+    });
+  });
+
+  describe("multipart uploads", () => {
+    const params = {
+      env: "test",
+      lifecyclePolicy: "30d",
+      userId: "user123",
+      fileId: "file456",
+    };
+
+    it("should upload parts through presigned URLs and assemble them", async () => {
+      const {uploadId, objectKey} = await r2Client.createMultipartUpload({
+        ...params,
+        contentType: "application/octet-stream",
+      });
+
+      expect(uploadId).toBeTruthy();
+      expect(objectKey).toBe("test/30d/user123/file456");
+
+      const contents = ["first part ", "second part"];
+      const parts = [];
+      for (const [index, content] of contents.entries()) {
+        const partNumber = index + 1;
+        const uploadUrl = await r2Client.getUploadPartUrl({...params, uploadId, partNumber});
+        expect(uploadUrl).toContain(`partNumber=${partNumber}`);
+        expect(uploadUrl).toContain("X-Amz-Signature");
+
+        const response = await fetch(uploadUrl, {method: "PUT", body: content});
+        expect(response.status).toBe(200);
+        parts.push({partNumber, etag: response.headers.get("etag")!});
+      }
+
+      // Parts may be completed in any order; the client sorts them
+      await r2Client.completeMultipartUpload({...params, uploadId, parts: parts.reverse()});
+
+      expect(mockServer.getObject(objectKey)?.data.toString()).toBe("first part second part");
+      expect(mockServer.getUploadCount()).toBe(0);
+
+      const info = await r2Client.getObjectInfo(params);
+      expect(info.exists).toBe(true);
+      expect(info.size).toBe(22);
+    });
+
+    it("should upload parts directly from the server", async () => {
+      const {uploadId, objectKey} = await r2Client.createMultipartUpload(params);
+
+      const parts = [
+        await r2Client.uploadPart({...params, uploadId, partNumber: 1, body: Buffer.from("abc")}),
+        await r2Client.uploadPart({...params, uploadId, partNumber: 2, body: Buffer.from("def")}),
+      ];
+      expect(parts[0]).toEqual({partNumber: 1, etag: expect.stringMatching(/^"[a-f0-9]{32}"$/)});
+
+      await r2Client.completeMultipartUpload({...params, uploadId, parts});
+
+      expect(mockServer.getObject(objectKey)?.data.toString()).toBe("abcdef");
+    });
+
+    it("should reject completion with an unknown part", async () => {
+      const {uploadId} = await r2Client.createMultipartUpload(params);
+
+      await expect(
+        r2Client.completeMultipartUpload({
+          ...params,
+          uploadId,
+          parts: [{partNumber: 1, etag: '"missing"'}],
+        }),
+      ).rejects.toThrow();
+      expect(mockServer.hasObject("test/30d/user123/file456")).toBe(false);
+    });
+
+    it("should list uploaded parts across pages", async () => {
+      const {uploadId} = await r2Client.createMultipartUpload(params);
+
+      // Upload out of order to check that parts come back sorted
+      for (const partNumber of [3, 1, 2]) {
+        const uploadUrl = await r2Client.getUploadPartUrl({...params, uploadId, partNumber});
+        await fetch(uploadUrl, {method: "PUT", body: `part ${partNumber}`});
+      }
+
+      const parts = await r2Client.listParts({...params, uploadId});
+
+      expect(parts.map((part) => part.partNumber)).toEqual([1, 2, 3]);
+      expect(parts[0].etag).toMatch(/^"[a-f0-9]{32}"$/);
+      expect(parts[0].size).toBe(6);
+    });
+
+    it("should return no parts for a new upload", async () => {
+      const {uploadId} = await r2Client.createMultipartUpload(params);
+
+      await expect(r2Client.listParts({...params, uploadId})).resolves.toEqual([]);
+    });
+
+    it("should abort an upload and discard its parts", async () => {
+      const {uploadId} = await r2Client.createMultipartUpload(params);
+      const uploadUrl = await r2Client.getUploadPartUrl({...params, uploadId, partNumber: 1});
+      await fetch(uploadUrl, {method: "PUT", body: "partial"});
+
+      expect(mockServer.getUploadCount()).toBe(1);
+
+      await r2Client.abortMultipartUpload({...params, uploadId});
+
+      expect(mockServer.getUploadCount()).toBe(0);
+      expect(mockServer.hasObject("test/30d/user123/file456")).toBe(false);
+    });
+  });
+
+  describe("getObjectStream", () => {
+    const params = {
+      env: "test",
+      lifecyclePolicy: "30d",
+      userId: "user123",
+      fileId: "file456",
+    };
+
+    it("should stream the object content with its size", async () => {
+      await r2Client.putObject({...params, body: "streamed content"});
+
+      const {body, size} = await r2Client.getObjectStream(params);
+
+      expect(size).toBe(16);
+      expect(await new Response(body).text()).toBe("streamed content");
+    });
+
+    it("should throw for missing objects", async () => {
+      await expect(r2Client.getObjectStream(params)).rejects.toThrow();
+    });
+  });
+
   describe("parseObjectKey", () => {
     it("should parse valid object key correctly", () => {
       const r2Client = new R2Client({
@@ -1,5 +1,6 @@
 import {
   parseLifecyclePolicy,
+  getExpirationDate,
   lifecyclePolicies,
   resetR2Client,
   getR2Client,
@@ -14,6 +15,7 @@ describe("R2Config", () => {
   describe("parseLifecyclePolicy", () => {
     it("should return valid lifecycle policies", () => {
       expect(parseLifecyclePolicy("infinite")).toBe("infinite");
+      expect(parseLifecyclePolicy("1y")).toBe("1y");
       expect(parseLifecyclePolicy("180d")).toBe("180d");
       expect(parseLifecyclePolicy("90d")).toBe("90d");
       expect(parseLifecyclePolicy("30d")).toBe("30d");
@@ -40,6 +42,7 @@ describe("R2Config", () => {
   describe("lifecyclePolicies", () => {
     it("should contain all expected policies", () => {
       expect(lifecyclePolicies.INFINITE).toBe("infinite");
+      expect(lifecyclePolicies.YEAR_1).toBe("1y");
       expect(lifecyclePolicies.DAYS_180).toBe("180d");
       expect(lifecyclePolicies.DAYS_90).toBe("90d");
       expect(lifecyclePolicies.DAYS_30).toBe("30d");
@@ -57,6 +60,25 @@ describe("R2Config", () => {
     });
   });
 
+  describe("getExpirationDate", () => {
+    const daysFromNow = (date: Date | null) =>
+      Math.round((date!.getTime() - Date.now()) / (24 * 60 * 60 * 1000));
+
+    it("should never expire infinite files", () => {
+      expect(getExpirationDate("infinite")).toBeNull();
+    });
+
+    it("should count day policies in days", () => {
+      expect(daysFromNow(getExpirationDate("1d"))).toBe(1);
+      expect(daysFromNow(getExpirationDate("30d"))).toBe(30);
+      expect(daysFromNow(getExpirationDate("180d"))).toBe(180);
+    });
+
+    it("should keep one-year files for 365 days", () => {
+      expect(daysFromNow(getExpirationDate("1y"))).toBe(365);
+    });
+  });
+
   describe("getR2Client", () => {
     it("should return singleton instance", () => {
       const client1 = getR2Client();
@@ -0,0 +1,381 @@
+import {createServer, type IncomingMessage, type Server, type ServerResponse} from "http";
+import type {AddressInfo} from "net";
+import {prisma} from "@/lib/prisma";
+import {checkQuota} from "@/lib/quota";
+import {
+  describeImportLimit,
+  filenameFromUrl,
+  importLimits,
+  openRemoteSource,
+  runImportJob,
+  serializeImportJob,
+} from "../../src/lib/remote-import";
+import {MockR2Server} from "../mocks/r2-server";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    importJob: {
+      findUnique: jest.fn(),
+      update: jest.fn(),
+    },
+    file: {
+      update: jest.fn(),
+    },
+  },
+}));
+
+jest.mock("@/lib/quota", () => ({
+  checkQuota: jest.fn(),
+}));
+
+// Mock R2 config to use test server
+jest.mock("@/lib/r2-config", () => {
+  const originalModule = jest.requireActual("@/lib/r2-config");
+  return {
+    ...originalModule,
+    currentEnv: "test",
+    getR2Client: () => {
+      const {R2Client} = jest.requireActual("@/lib/r2-client");
+      return new R2Client({
+        endpoint: "http://localhost:9018",
+        accessKeyId: "test",
+        secretAccessKey: "test",
+        bucketName: "test-bucket",
+        region: "auto",
+      });
+    },
+  };
+});
+
+describe("remote-import", () => {
+  let mockR2: MockR2Server;
+  let source: Server;
+  let sourceUrl: string;
+  let routes: Record<string, (req: IncomingMessage, res: ServerResponse) => void>;
+
+  const mockFile = {
+    id: "test-file-id",
+    userId: "test-user-id",
+    expirationPolicy: "infinite",
+    mimeType: null,
+  };
+
+  const mockJob = (path: string) => ({
+    id: "test-job-id",
+    userId: "test-user-id",
+    fileId: mockFile.id,
+    sourceUrl: `${sourceUrl}${path}`,
+    status: "pending",
+    bytesReceived: BigInt(0),
+    totalBytes: null,
+    error: null,
+    createdAt: new Date("2025-08-19T00:00:00Z"),
+    updatedAt: new Date("2025-08-19T00:00:00Z"),
+    completedAt: null,
+    file: mockFile,
+  });
+
+  // Data written to the final importJob.update call
+  const lastJobUpdate = () => {
+    const calls = jest.mocked(prisma.importJob.update).mock.calls;
+    return calls[calls.length - 1][0].data;
+  };
+
+  const objectKey = "test/infinite/test-user-id/test-file-id";
+
+  beforeAll(async () => {
+    mockR2 = new MockR2Server(9018, "test-bucket");
+    await mockR2.start();
+
+    source = createServer((req, res) => {
+      const handler = routes[req.url || ""];
+      if (handler) {
+        handler(req, res);
+      } else {
+        res.writeHead(404).end();
+      }
+    });
+    await new Promise<void>((resolve) => source.listen(0, "127.0.0.1", resolve));
+    sourceUrl = `http://127.0.0.1:${(source.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => source.close(resolve));
+    await mockR2.stop();
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockR2.clear();
+    jest.mocked(checkQuota).mockResolvedValue({
+      allowed: true,
+      quotaBytes: null,
+      usedBytes: 0,
+      requestedBytes: 0,
+    });
+
+    routes = {
+      "/data.bin": (req, res) => {
+        res.writeHead(200, {"Content-Type": "application/octet-stream", "Content-Length": "10"});
+        res.end("0123456789");
+      },
+      "/chunked.csv": (req, res) => {
+        res.writeHead(200, {"Content-Type": "text/csv; charset=utf-8"});
+        res.write("a,b\n");
+        res.end("1,2\n");
+      },
+      "/page.html": (req, res) => {
+        res.writeHead(200, {"Content-Type": "text/html"});
+        res.end("<html></html>");
+      },
+      "/redirect": (req, res) => {
+        res.writeHead(302, {Location: "/data.bin"});
+        res.end();
+      },
+      "/loop": (req, res) => {
+        res.writeHead(302, {Location: "/loop"});
+        res.end();
+      },
+      "/ftp": (req, res) => {
+        res.writeHead(302, {Location: "ftp://example.com/data.bin"});
+        res.end();
+      },
+      "/truncated": (req, res) => {
+        res.writeHead(200, {"Content-Length": "100"});
+        res.write("only part of it");
+        res.destroy();
+      },
+    };
+  });
+
+  describe("filenameFromUrl", () => {
+    it("should use the last path segment", () => {
+      expect(filenameFromUrl(new URL("https://example.com/datasets/train.csv?v=2"))).toBe(
+        "train.csv",
+      );
+      expect(filenameFromUrl(new URL("https://example.com/a/my%20model.bin/"))).toBe(
+        "my model.bin",
+      );
+    });
+
+    it("should fall back to a generic name", () => {
+      expect(filenameFromUrl(new URL("https://example.com/"))).toBe("download");
+    });
+  });
+
+  describe("describeImportLimit", () => {
+    it("should describe the limit for people", () => {
+      expect(describeImportLimit()).toBe("2 GiB");
+      expect(describeImportLimit(5)).toBe("5 bytes");
+    });
+  });
+
+  describe("serializeImportJob", () => {
+    it("should convert byte counts to numbers", () => {
+      const job = {...mockJob("/data.bin"), bytesReceived: BigInt(5), totalBytes: BigInt(10)};
+
+      expect(serializeImportJob(job)).toMatchObject({
+        id: "test-job-id",
+        status: "pending",
+        bytesReceived: 5,
+        totalBytes: 10,
+      });
+    });
+  });
+
+  describe("openRemoteSource", () => {
+    it("should refuse private addresses by default", async () => {
+      await expect(openRemoteSource(`${sourceUrl}/data.bin`)).resolves.toEqual({
+        ok: false,
+        error: "URL points to a private network address",
+      });
+    });
+
+    it("should refuse hostnames that resolve to private addresses", async () => {
+      const {port} = source.address() as AddressInfo;
+
+      // Passes the URL check, but is caught when the connection resolves it
+      await expect(
+        openRemoteSource(`http://localhost.:${port}/data.bin`, {allowPrivateNetworks: false}),
+      ).resolves.toMatchObject({ok: false});
+    });
+
+    it("should follow redirects", async () => {
+      const result = await openRemoteSource(`${sourceUrl}/redirect`, {allowPrivateNetworks: true});
+
+      expect(result.ok).toBe(true);
+      if (result.ok) {
+        result.response.resume();
+        expect(result.response.headers["content-length"]).toBe("10");
+      }
+    });
+
+    it("should re-check every redirect target", async () => {
+      await expect(
+        openRemoteSource(`${sourceUrl}/ftp`, {allowPrivateNetworks: true}),
+      ).resolves.toEqual({ok: false, error: "Only http and https URLs are supported"});
+    });
+
+    it("should stop after too many redirects", async () => {
+      await expect(
+        openRemoteSource(`${sourceUrl}/loop`, {allowPrivateNetworks: true}),
+      ).resolves.toEqual({ok: false, error: "Too many redirects"});
+    });
+
+    it("should fail on error responses", async () => {
+      await expect(
+        openRemoteSource(`${sourceUrl}/missing`, {allowPrivateNetworks: true}),
+      ).resolves.toEqual({ok: false, error: "Source responded with HTTP 404"});
+    });
+  });
+
+  describe("runImportJob", () => {
+    it("should stream the source into R2 in parts", async () => {
+      jest.mocked(prisma.importJob.findUnique).mockResolvedValue(mockJob("/data.bin") as never);
+
+      await runImportJob("test-job-id", {allowPrivateNetworks: true, partSize: 4});
+
+      expect(mockR2.getObject(objectKey)?.data.toString()).toBe("0123456789");
+      expect(mockR2.getUploadCount()).toBe(0);
+
+      // Progress is recorded after each of the three parts
+      const progress = jest
+        .mocked(prisma.importJob.update)
+        .mock.calls.map(([args]) => args.data.bytesReceived)
+        .filter((bytes) => bytes !== undefined);
+      expect(progress).toEqual([BigInt(4), BigInt(8), BigInt(10), BigInt(10)]);
+
+      expect(prisma.file.update).toHaveBeenLastCalledWith({
+        where: {id: "test-file-id"},
+        data: expect.objectContaining({
+          status: "validated",
+          sizeBytes: BigInt(10),
+          mimeType: "application/octet-stream",
+          uploadId: null,
+        }),
+      });
+      expect(lastJobUpdate()).toMatchObject({
+        status: "completed",
+        bytesReceived: BigInt(10),
+        totalBytes: BigInt(10),
+        completedAt: expect.any(Date),
+      });
+    });
+
+    it("should import sources without a Content-Length", async () => {
+      jest.mocked(prisma.importJob.findUnique).mockResolvedValue(mockJob("/chunked.csv") as never);
+
+      await runImportJob("test-job-id", {allowPrivateNetworks: true});
+
+      expect(mockR2.getObject(objectKey)?.data.toString()).toBe("a,b\n1,2\n");
+      expect(prisma.file.update).toHaveBeenLastCalledWith({
+        where: {id: "test-file-id"},
+        data: expect.objectContaining({mimeType: "text/csv", sizeBytes: BigInt(8)}),
+      });
+      expect(checkQuota).toHaveBeenCalledWith("test-user-id", 8, {excludeFileId: "test-file-id"});
+      expect(lastJobUpdate()).toMatchObject({status: "completed"});
+    });
+
+    it("should reject HTML responses", async () => {
+      jest.mocked(prisma.importJob.findUnique).mockResolvedValue(mockJob("/page.html") as never);
+
+      await runImportJob("test-job-id", {allowPrivateNetworks: true});
+
+      expect(mockR2.hasObject(objectKey)).toBe(false);
+      expect(lastJobUpdate()).toMatchObject({
+        status: "failed",
+        error: "Unsupported content type text/html",
+      });
+      expect(prisma.file.update).toHaveBeenLastCalledWith({
+        where: {id: "test-file-id"},
+        data: expect.objectContaining({status: "failed"}),
+      });
+    });
+
+    it("should fail imports over the size limit", async () => {
+      const maxBytes = importLimits.MAX_BYTES;
+      Object.assign(importLimits, {MAX_BYTES: 5});
+      jest.mocked(prisma.importJob.findUnique).mockResolvedValue(mockJob("/chunked.csv") as never);
+
+      try {
+        await runImportJob("test-job-id", {allowPrivateNetworks: true});
+      } finally {
+        Object.assign(importLimits, {MAX_BYTES: maxBytes});
+      }
+
+      // The limit is enforced while streaming, and the partial upload is discarded
+      expect(lastJobUpdate()).toMatchObject({
+        status: "failed",
+        error: "File exceeds the import limit of 5 bytes",
+      });
+      expect(mockR2.hasObject(objectKey)).toBe(false);
+      expect(mockR2.getUploadCount()).toBe(0);
+    });
+
+    it("should fail imports that would exceed the quota", async () => {
+      jest.mocked(checkQuota).mockResolvedValue({
+        allowed: false,
+        quotaBytes: 5,
+        usedBytes: 0,
+        requestedBytes: 10,
+      });
+      jest.mocked(prisma.importJob.findUnique).mockResolvedValue(mockJob("/data.bin") as never);
+
+      await runImportJob("test-job-id", {allowPrivateNetworks: true});
+
+      expect(lastJobUpdate()).toMatchObject({status: "failed", error: "Storage quota exceeded"});
+      expect(mockR2.getUploadCount()).toBe(0);
+    });
+
+    it("should stop sources without a Content-Length once they pass the quota", async () => {
+      jest.mocked(checkQuota).mockResolvedValue({
+        allowed: true,
+        quotaBytes: 100,
+        usedBytes: 95,
+        requestedBytes: 0,
+      });
+      jest.mocked(prisma.importJob.findUnique).mockResolvedValue(mockJob("/chunked.csv") as never);
+
+      await runImportJob("test-job-id", {allowPrivateNetworks: true});
+
+      // Checked before streaming, with nothing declared, and never again
+      expect(checkQuota).toHaveBeenCalledTimes(1);
+      expect(checkQuota).toHaveBeenCalledWith("test-user-id", 0, {excludeFileId: "test-file-id"});
+      expect(lastJobUpdate()).toMatchObject({status: "failed", error: "Storage quota exceeded"});
+      expect(mockR2.hasObject(objectKey)).toBe(false);
+      expect(mockR2.getUploadCount()).toBe(0);
+    });
+
+    it("should fail when the source is cut off", async () => {
+      jest.mocked(prisma.importJob.findUnique).mockResolvedValue(mockJob("/truncated") as never);
+
+      await runImportJob("test-job-id", {allowPrivateNetworks: true});
+
+      expect(lastJobUpdate()).toMatchObject({status: "failed"});
+      expect(mockR2.hasObject(objectKey)).toBe(false);
+      expect(mockR2.getUploadCount()).toBe(0);
+    });
+
+    it("should refuse private sources by default", async () => {
+      jest.mocked(prisma.importJob.findUnique).mockResolvedValue(mockJob("/data.bin") as never);
+
+      await runImportJob("test-job-id");
+
+      expect(lastJobUpdate()).toMatchObject({
+        status: "failed",
+        error: "URL points to a private network address",
+      });
+    });
+
+    it("should skip jobs that already started", async () => {
+      jest
+        .mocked(prisma.importJob.findUnique)
+        .mockResolvedValue({...mockJob("/data.bin"), status: "running"} as never);
+
+      await runImportJob("test-job-id", {allowPrivateNetworks: true});
+
+      expect(prisma.importJob.update).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,235 @@
+import {prisma} from "@/lib/prisma";
+import {signJwt} from "../../src/lib/jwt";
+import {createShareToken, redeemShareToken, revokeShareToken} from "../../src/lib/share-tokens";
+import {DEFAULT_SHARE_TOKEN_TTL_SECONDS} from "../../packages/sdk/src/contract";
+
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    file: {
+      findFirst: jest.fn(),
+    },
+    directory: {
+      findFirst: jest.fn(),
+    },
+    shareToken: {
+      create: jest.fn(),
+      findUnique: jest.fn(),
+      findFirst: jest.fn(),
+      updateMany: jest.fn(),
+    },
+  },
+}));
+
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "share-id",
+}));
+
+describe("share tokens", () => {
+  const now = new Date("2025-08-17T12:00:00Z");
+  const file = {id: "file-id", userId: "user-id", fullPath: "/models/llama/weights.bin"};
+  const shareToken = {
+    id: "share-id",
+    userId: "user-id",
+    fileId: "file-id",
+    directoryId: null,
+    maxDownloads: null,
+    downloadCount: 0,
+    expiresAt: new Date("2025-08-24T12:00:00Z"),
+    revokedAt: null,
+    createdAt: now,
+    updatedAt: now,
+    directory: null,
+  };
+
+  function tokenFor(claims: Record<string, unknown> = {}) {
+    return signJwt({sub: "user-id", sid: "share-id", purpose: "share", ...claims}, 3600, now);
+  }
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.NEXTAUTH_SECRET = "test-secret";
+    (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue(shareToken);
+    (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 1});
+  });
+
+  describe("createShareToken", () => {
+    it("should create a token for one of the user's files", async () => {
+      (prisma.file.findFirst as jest.Mock).mockResolvedValue({id: "file-id"});
+      (prisma.shareToken.create as jest.Mock).mockImplementation(({data}) => data);
+
+      const result = await createShareToken(
+        {userId: "user-id", fileId: "file-id", maxDownloads: 3},
+        now,
+      );
+
+      expect(prisma.file.findFirst).toHaveBeenCalledWith({
+        where: {id: "file-id", userId: "user-id"},
+        select: {id: true},
+      });
+      expect(prisma.shareToken.create).toHaveBeenCalledWith({
+        data: {
+          id: "share-id",
+          userId: "user-id",
+          fileId: "file-id",
+          directoryId: null,
+          maxDownloads: 3,
+          expiresAt: new Date(now.getTime() + DEFAULT_SHARE_TOKEN_TTL_SECONDS * 1000),
+        },
+      });
+      expect(result.ok).toBe(true);
+
+      // The token redeems against the row it created
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue({
+        ...shareToken,
+        maxDownloads: 3,
+      });
+      await expect(redeemShareToken(result.ok ? result.token : "", file, now)).resolves.toBe(true);
+    });
+
+    it("should create a token for one of the user's directories", async () => {
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue({id: "dir-id"});
+      (prisma.shareToken.create as jest.Mock).mockImplementation(({data}) => data);
+
+      const result = await createShareToken(
+        {userId: "user-id", directoryId: "dir-id", expiresInSeconds: 60},
+        now,
+      );
+
+      expect(result.ok).toBe(true);
+      expect(prisma.shareToken.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fileId: null,
+          directoryId: "dir-id",
+          maxDownloads: null,
+          expiresAt: new Date(now.getTime() + 60 * 1000),
+        }),
+      });
+    });
+
+    it("should refuse files the user doesn't own", async () => {
+      (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(createShareToken({userId: "user-id", fileId: "file-id"}, now)).resolves.toEqual({
+        ok: false,
+        error: "File not found",
+      });
+      expect(prisma.shareToken.create).not.toHaveBeenCalled();
+    });
+
+    it("should refuse directories the user doesn't own", async () => {
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(
+        createShareToken({userId: "user-id", directoryId: "dir-id"}, now),
+      ).resolves.toEqual({ok: false, error: "Directory not found"});
+    });
+  });
+
+  describe("redeemShareToken", () => {
+    it("should spend one download of a file token", async () => {
+      await expect(redeemShareToken(tokenFor(), file, now)).resolves.toBe(true);
+
+      expect(prisma.shareToken.updateMany).toHaveBeenCalledWith({
+        where: {id: "share-id", revokedAt: null, expiresAt: {gt: now}},
+        data: {downloadCount: {increment: 1}},
+      });
+    });
+
+    it("should cap downloads with a conditional update", async () => {
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue({
+        ...shareToken,
+        maxDownloads: 2,
+      });
+      (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 0});
+
+      await expect(redeemShareToken(tokenFor(), file, now)).resolves.toBe(false);
+      expect(prisma.shareToken.updateMany).toHaveBeenCalledWith({
+        where: {id: "share-id", revokedAt: null, expiresAt: {gt: now}, downloadCount: {lt: 2}},
+        data: {downloadCount: {increment: 1}},
+      });
+    });
+
+    it("should reject file tokens for other files", async () => {
+      await expect(redeemShareToken(tokenFor(), {...file, id: "other-file-id"}, now)).resolves.toBe(
+        false,
+      );
+      expect(prisma.shareToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should accept directory tokens for files under the directory", async () => {
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue({
+        ...shareToken,
+        fileId: null,
+        directoryId: "dir-id",
+        directory: {fullPath: "/models"},
+      });
+
+      await expect(redeemShareToken(tokenFor(), file, now)).resolves.toBe(true);
+      await expect(
+        redeemShareToken(tokenFor(), {...file, fullPath: "/models-old/weights.bin"}, now),
+      ).resolves.toBe(false);
+      await expect(
+        redeemShareToken(tokenFor(), {...file, fullPath: "/weights.bin"}, now),
+      ).resolves.toBe(false);
+    });
+
+    it("should reject tokens for other users' files", async () => {
+      await expect(
+        redeemShareToken(tokenFor(), {...file, userId: "other-user-id"}, now),
+      ).resolves.toBe(false);
+      expect(prisma.shareToken.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should reject revoked tokens", async () => {
+      (prisma.shareToken.findUnique as jest.Mock).mockResolvedValue({
+        ...shareToken,
+        revokedAt: now,
+      });
+
+      await expect(redeemShareToken(tokenFor(), file, now)).resolves.toBe(false);
+      expect(prisma.shareToken.updateMany).not.toHaveBeenCalled();
+    });
+
+    it("should reject expired tokens", async () => {
+      const later = new Date(now.getTime() + 2 * 3600 * 1000);
+
+      await expect(redeemShareToken(tokenFor(), file, later)).resolves.toBe(false);
+      expect(prisma.shareToken.findUnique).not.toHaveBeenCalled();
+    });
+
+    it("should reject tokens issued for other purposes", async () => {
+      await expect(
+        redeemShareToken(tokenFor({purpose: "email-verification"}), file, now),
+      ).resolves.toBe(false);
+    });
+
+    it("should reject tampered tokens", async () => {
+      await expect(redeemShareToken(`${tokenFor()}x`, file, now)).resolves.toBe(false);
+    });
+  });
+
+  describe("revokeShareToken", () => {
+    it("should revoke the user's token", async () => {
+      await expect(revokeShareToken("user-id", "share-id", now)).resolves.toBe(true);
+
+      expect(prisma.shareToken.updateMany).toHaveBeenCalledWith({
+        where: {id: "share-id", userId: "user-id", revokedAt: null},
+        data: {revokedAt: now},
+      });
+    });
+
+    it("should treat already revoked tokens as revoked", async () => {
+      (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 0});
+      (prisma.shareToken.findFirst as jest.Mock).mockResolvedValue({id: "share-id"});
+
+      await expect(revokeShareToken("user-id", "share-id", now)).resolves.toBe(true);
+    });
+
+    it("should report tokens that don't exist", async () => {
+      (prisma.shareToken.updateMany as jest.Mock).mockResolvedValue({count: 0});
+      (prisma.shareToken.findFirst as jest.Mock).mockResolvedValue(null);
+
+      await expect(revokeShareToken("user-id", "share-id", now)).resolves.toBe(false);
+    });
+  });
+});
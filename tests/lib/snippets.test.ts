@@ -0,0 +1,101 @@
+import {
+  buildAuthenticatedDownloadSnippets,
+  buildDownloadSnippets,
+  buildUploadSnippets,
+} from "../../src/lib/snippets";
+
+describe("snippets", () => {
+  const baseUrl = "https://hulk.example.com/";
+  const file = {id: "abc123", filename: "model.ckpt"};
+
+  describe("buildDownloadSnippets", () => {
+    it("should download through the public link", () => {
+      const snippets = buildDownloadSnippets(baseUrl, file);
+
+      expect(snippets.bash).toBe("curl -L -o 'model.ckpt' 'https://hulk.example.com/d/abc123'");
+      expect(snippets.powershell).toBe(
+        "Invoke-WebRequest -Uri 'https://hulk.example.com/d/abc123' -OutFile 'model.ckpt'",
+      );
+      expect(snippets.python).toContain(
+        'requests.get("https://hulk.example.com/d/abc123", stream=True)',
+      );
+      expect(snippets.python).not.toContain("import os");
+    });
+
+    it("should send the access password from the environment", () => {
+      const snippets = buildDownloadSnippets(baseUrl, file, {passwordProtected: true});
+
+      expect(snippets.bash).toContain('-H "X-Access-Password: $HULK_ACCESS_PASSWORD"');
+      expect(snippets.powershell).toContain("$env:HULK_ACCESS_PASSWORD");
+      expect(snippets.python).toContain('os.environ["HULK_ACCESS_PASSWORD"]');
+    });
+
+    it("should quote filenames for each shell", () => {
+      const snippets = buildDownloadSnippets(baseUrl, {id: "abc123", filename: "it's.bin"});
+
+      expect(snippets.bash).toContain(`-o 'it'\\''s.bin'`);
+      expect(snippets.powershell).toContain("-OutFile 'it''s.bin'");
+      expect(snippets.python).toContain(`open("it's.bin", "wb")`);
+    });
+  });
+
+  describe("buildAuthenticatedDownloadSnippets", () => {
+    it("should download through the API with the key from the environment", () => {
+      const snippets = buildAuthenticatedDownloadSnippets(baseUrl, file);
+
+      expect(snippets.bash).toBe(
+        `curl -L -H "Authorization: Bearer $HULK_API_KEY" -o 'model.ckpt' 'https://hulk.example.com/api/v1/files/abc123/download'`,
+      );
+      expect(snippets.powershell).toContain('@{Authorization = "Bearer $env:HULK_API_KEY"}');
+      expect(snippets.python).toContain(`f"Bearer {os.environ['HULK_API_KEY']}"`);
+    });
+  });
+
+  describe("buildUploadSnippets", () => {
+    const input = {
+      filename: "model.ckpt",
+      fullPath: "/models/model.ckpt",
+      mimeType: "application/octet-stream",
+      permissions: "public" as const,
+      expirationPolicy: "7d",
+    };
+
+    it("should reserve, upload and mark the file uploaded", () => {
+      const {bash} = buildUploadSnippets(baseUrl, input);
+
+      expect(bash).toContain("curl -sS -X POST 'https://hulk.example.com/api/v1/files'");
+      expect(bash).toContain(
+        `-d '{"filename":"model.ckpt","fullPath":"/models/model.ckpt","mimeType":"application/octet-stream","permissions":"public","expirationPolicy":"7d"}'`,
+      );
+      expect(bash).toContain(
+        `-H 'Content-Type: application/octet-stream' --upload-file 'model.ckpt' "$UPLOAD_URL"`,
+      );
+      expect(bash).toContain('"https://hulk.example.com/api/v1/files/$FILE_ID/status"');
+      expect(bash).toContain(`-d '{"status": "uploaded"}'`);
+    });
+
+    it("should build the same sequence for PowerShell and Python", () => {
+      const {powershell, python} = buildUploadSnippets(baseUrl, input);
+
+      expect(powershell).toContain("-InFile 'model.ckpt' -ContentType 'application/octet-stream'");
+      expect(powershell).toContain('"https://hulk.example.com/api/v1/files/$($file.id)/status"');
+
+      expect(python).toContain(
+        'json={"filename": "model.ckpt", "fullPath": "/models/model.ckpt", "mimeType": "application/octet-stream", "permissions": "public", "expirationPolicy": "7d"}',
+      );
+      expect(python).toContain('requests.put(file["uploadUrl"], data=f, headers=');
+      expect(python).toContain('json={"status": "uploaded"}');
+    });
+
+    it("should leave out optional fields", () => {
+      const {bash, python} = buildUploadSnippets(baseUrl, {
+        filename: "notes.txt",
+        fullPath: "/notes.txt",
+      });
+
+      expect(bash).toContain(`-d '{"filename":"notes.txt","fullPath":"/notes.txt"}'`);
+      expect(bash).toContain(`curl -sS -X PUT --upload-file 'notes.txt' "$UPLOAD_URL"`);
+      expect(python).toContain('requests.put(file["uploadUrl"], data=f)');
+    });
+  });
+});
@@ -0,0 +1,157 @@
+import {prisma} from "@/lib/prisma";
+import {categorizeMimeType, getUsage} from "../../src/lib/usage";
+
+// Mock Prisma
+jest.mock("@/lib/prisma", () => ({
+  prisma: {
+    user: {
+      findUnique: jest.fn(),
+    },
+    file: {
+      groupBy: jest.fn(),
+      aggregate: jest.fn(),
+    },
+  },
+}));
+
+const GB = 1024 * 1024 * 1024;
+
+function group(mimeType: string | null, files: number, bytes: number | null) {
+  return {
+    mimeType,
+    _count: {_all: files},
+    _sum: {sizeBytes: bytes === null ? null : BigInt(bytes)},
+  };
+}
+
+describe("usage", () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    (prisma.user.findUnique as jest.Mock).mockResolvedValue({plan: "free", quotaBytes: null});
+  });
+
+  describe("categorizeMimeType", () => {
+    it("should bucket media by top-level type", () => {
+      expect(categorizeMimeType("image/png")).toBe("images");
+      expect(categorizeMimeType("video/mp4")).toBe("videos");
+      expect(categorizeMimeType("audio/mpeg")).toBe("audios");
+    });
+
+    it("should recognize models, datasets and documents", () => {
+      expect(categorizeMimeType("application/x-hdf5")).toBe("models");
+      expect(categorizeMimeType("text/csv; charset=utf-8")).toBe("datasets");
+      expect(categorizeMimeType("application/vnd.apache.parquet")).toBe("datasets");
+      expect(categorizeMimeType("application/pdf")).toBe("documents");
+      expect(categorizeMimeType("TEXT/PLAIN")).toBe("documents");
+      expect(
+        categorizeMimeType(
+          "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+        ),
+      ).toBe("documents");
+    });
+
+    it("should put everything else in other", () => {
+      expect(categorizeMimeType("application/zip")).toBe("other");
+      expect(categorizeMimeType("application/octet-stream")).toBe("other");
+      expect(categorizeMimeType(null)).toBe("other");
+    });
+  });
+
+  describe("getUsage", () => {
+    it("should return null for unknown users", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue(null);
+
+      await expect(getUsage("missing-user")).resolves.toBeNull();
+      expect(prisma.file.groupBy).not.toHaveBeenCalled();
+    });
+
+    it("should sum counts per category", async () => {
+      (prisma.file.groupBy as jest.Mock).mockResolvedValue([
+        group("image/png", 3, 300),
+        group("image/jpeg", 2, 200),
+        group("video/mp4", 1, 5000),
+        group("application/pdf", 1, null),
+      ]);
+
+      const usage = await getUsage("user-id");
+
+      expect(prisma.file.groupBy).toHaveBeenCalledWith({
+        by: ["mimeType"],
+        where: {userId: "user-id", status: {in: ["reserved", "uploaded", "validated"]}},
+        _count: {_all: true},
+        _sum: {sizeBytes: true},
+      });
+      expect(prisma.file.aggregate).not.toHaveBeenCalled();
+      expect(usage).toEqual({
+        file_counts: {
+          total: 7,
+          images: 5,
+          videos: 1,
+          audios: 0,
+          models: 0,
+          datasets: 0,
+          documents: 1,
+          other: 0,
+        },
+        byte_counts: {
+          total: 5500,
+          images: 500,
+          videos: 5000,
+          audios: 0,
+          models: 0,
+          datasets: 0,
+          documents: 0,
+          other: 0,
+        },
+        quota_bytes: 10 * GB,
+      });
+    });
+
+    it("should classify generic binaries by extension", async () => {
+      (prisma.file.groupBy as jest.Mock).mockResolvedValue([
+        group("application/octet-stream", 6, 6000),
+      ]);
+      (prisma.file.aggregate as jest.Mock)
+        .mockResolvedValueOnce({_count: {_all: 2}, _sum: {sizeBytes: BigInt(4000)}})
+        .mockResolvedValueOnce({_count: {_all: 1}, _sum: {sizeBytes: BigInt(1500)}});
+
+      const usage = await getUsage("user-id");
+
+      expect(prisma.file.aggregate).toHaveBeenCalledTimes(2);
+      expect(prisma.file.aggregate).toHaveBeenNthCalledWith(
+        1,
+        expect.objectContaining({
+          where: expect.objectContaining({
+            AND: expect.arrayContaining([
+              {
+                OR: expect.arrayContaining([
+                  {filename: {endsWith: ".safetensors", mode: "insensitive"}},
+                ]),
+              },
+            ]),
+          }),
+        }),
+      );
+      expect(usage?.file_counts).toMatchObject({total: 6, models: 2, datasets: 1, other: 3});
+      expect(usage?.byte_counts).toMatchObject({
+        total: 6000,
+        models: 4000,
+        datasets: 1500,
+        other: 500,
+      });
+    });
+
+    it("should report unlimited plans with a null quota", async () => {
+      (prisma.user.findUnique as jest.Mock).mockResolvedValue({
+        plan: "tres_commas",
+        quotaBytes: null,
+      });
+      (prisma.file.groupBy as jest.Mock).mockResolvedValue([]);
+
+      const usage = await getUsage("user-id");
+
+      expect(usage?.quota_bytes).toBeNull();
+      expect(usage?.file_counts.total).toBe(0);
+    });
+  });
+});
@@ -0,0 +1,66 @@
+import {MockHulkApiServer} from "./hulk-api-server";
+import {MockR2Server} from "./r2-server";
+
+describe("MockHulkApiServer", () => {
+  let mockR2: MockR2Server;
+  let server: MockHulkApiServer;
+
+  const request = (path: string, init: RequestInit = {}) =>
+    fetch(`${server.getEndpoint()}/api/v1${path}`, {
+      ...init,
+      headers: {
+        Authorization: `Bearer ${server.apiKey}`,
+        "Content-Type": "application/json",
+      },
+    });
+
+  beforeAll(async () => {
+    mockR2 = new MockR2Server(9023, "test-bucket");
+    await mockR2.start();
+    server = new MockHulkApiServer(9024, mockR2.getEndpoint());
+    await server.start();
+  });
+
+  afterAll(async () => {
+    await server.stop();
+    await mockR2.stop();
+  });
+
+  beforeEach(() => {
+    mockR2.clear();
+    server.clear();
+  });
+
+  it("should answer with the documented shapes", async () => {
+    const created = await request("/directories", {
+      method: "POST",
+      body: JSON.stringify({fullPath: "/reports/2024"}),
+    });
+    const listed = await request("/directories?path=/reports");
+
+    expect(created.status).toBe(201);
+    expect((await listed.json()).directories).toEqual([
+      expect.objectContaining({
+        fullPath: "/reports",
+        parent: expect.objectContaining({fullPath: "/"}),
+      }),
+    ]);
+    expect(server.contractErrors).toEqual([]);
+  });
+
+  it("should reject request bodies the real route would reject", async () => {
+    const response = await request("/directories", {method: "POST", body: JSON.stringify({})});
+    const data = await response.json();
+
+    expect(response.status).toBe(400);
+    expect(data.error).toBe("Validation error");
+    expect(server.contractErrors).toEqual([]);
+  });
+
+  it("should record responses the real routes couldn't give", async () => {
+    const response = await request("/nothing");
+
+    expect(response.status).toBe(500);
+    expect(server.contractErrors).toEqual(["GET /api/v1/nothing is not documented"]);
+  });
+});
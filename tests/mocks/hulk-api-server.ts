@@ -0,0 +1,611 @@
+import {createServer, type IncomingMessage, Server, type ServerResponse} from "http";
+import crypto from "crypto";
+import {documentedResponse, findOperation} from "../../src/lib/openapi";
+import {R2Client} from "../../src/lib/r2-client";
+
+interface FakeDirectory {
+  id: string;
+  fullPath: string;
+  defaultPermissions: string;
+  defaultExpirationPolicy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+interface FakeFile {
+  id: string;
+  filename: string;
+  fullPath: string;
+  directoryId: string;
+  mimeType: string | null;
+  sizeBytes: number | null;
+  permissions: string;
+  status: string;
+  expirationPolicy: string;
+  expiresAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+  uploadId: string | null;
+}
+
+const EXPIRATION_DAYS: Record<string, number | null> = {
+  "1d": 1,
+  "7d": 7,
+  "30d": 30,
+  "90d": 90,
+  "1y": 365,
+  infinite: null,
+};
+
+function expiresAtFor(policy: string): Date | null {
+  const days = EXPIRATION_DAYS[policy];
+  return days ? new Date(Date.now() + days * 24 * 60 * 60 * 1000) : null;
+}
+
+function parentOf(fullPath: string): string {
+  return `/${fullPath.split("/").filter(Boolean).slice(0, -1).join("/")}`;
+}
+
+/**
+ * In-memory stand-in for the /api/v1 routes the hulk CLI uses. Storage goes
+ * through the real R2Client, so point it at a MockR2Server.
+ *
+ * Request bodies and responses are checked against the OpenAPI document, so
+ * the fake can't drift from what the real routes accept and return. A response
+ * that doesn't match is replaced with a 500 and recorded in contractErrors.
+ */
+export class MockHulkApiServer {
+  readonly apiKey = "hulk_test_key";
+  readonly userId = "cli-user";
+  // Every request as "METHOD /path", for asserting what the CLI called
+  readonly requests: string[] = [];
+  // Responses that didn't match the documented schema for their route and status
+  readonly contractErrors: string[] = [];
+
+  private server: Server;
+  private r2: R2Client;
+  private directories = new Map<string, FakeDirectory>();
+  private files = new Map<string, FakeFile>();
+  private failures: {method: string; pattern: RegExp}[] = [];
+  private bodies = new WeakMap<IncomingMessage, Record<string, unknown>>();
+  private nextId = 1;
+
+  constructor(
+    private port: number,
+    r2Endpoint: string,
+    // Tiny parts keep multipart tests fast; the real server uses at least 5 MiB
+    private partSize = 1024,
+  ) {
+    this.server = createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        this.send(res, 500, {error: String(error)});
+      });
+    });
+    this.r2 = new R2Client({
+      accountId: "test",
+      endpoint: r2Endpoint,
+      accessKeyId: "test",
+      secretAccessKey: "test",
+      bucketName: "test-bucket",
+    });
+  }
+
+  async start(): Promise<void> {
+    return new Promise((resolve) => this.server.listen(this.port, resolve));
+  }
+
+  async stop(): Promise<void> {
+    return new Promise((resolve) => this.server.close(() => resolve()));
+  }
+
+  clear(): void {
+    this.directories.clear();
+    this.files.clear();
+    this.failures = [];
+    this.requests.length = 0;
+    this.contractErrors.length = 0;
+  }
+
+  getEndpoint(): string {
+    return `http://localhost:${this.port}`;
+  }
+
+  // Answer the next matching request with a 500, e.g. to interrupt an upload
+  failNext(method: string, pattern: RegExp): void {
+    this.failures.push({method, pattern});
+  }
+
+  getFile(id: string): FakeFile | undefined {
+    return this.files.get(id);
+  }
+
+  findFiles(fullPath: string): FakeFile[] {
+    return [...this.files.values()].filter((file) => file.fullPath === fullPath);
+  }
+
+  findDirectory(fullPath: string): FakeDirectory | undefined {
+    return [...this.directories.values()].find((directory) => directory.fullPath === fullPath);
+  }
+
+  private generateId(prefix: string): string {
+    return `${prefix}${String(this.nextId++).padStart(6, "0")}`;
+  }
+
+  private objectParams(file: FakeFile) {
+    return {env: "test", lifecyclePolicy: "infinite", userId: this.userId, fileId: file.id};
+  }
+
+  // Why a response isn't one the real route could give, or null if it is
+  private checkContract(req: IncomingMessage, status: number, body?: unknown): string | null {
+    const {pathname} = new URL(req.url!, this.getEndpoint());
+    const operation = findOperation(req.method!, pathname);
+    if (!operation) {
+      return `${req.method} ${pathname} is not documented`;
+    }
+
+    const route = `${operation.method.toUpperCase()} ${operation.path}`;
+    const response = documentedResponse(operation, status);
+    if (!response) {
+      return `${route} doesn't document status ${status}`;
+    }
+
+    const result = response.schema?.safeParse(body);
+    if (result && !result.success) {
+      return `${route} ${status} doesn't match its documented schema: ${result.error.message}`;
+    }
+    return null;
+  }
+
+  // Answer in place of a response the real route couldn't give
+  private failContract(res: ServerResponse, problem: string): void {
+    this.contractErrors.push(problem);
+    res.writeHead(500, {"Content-Type": "application/json"});
+    res.end(JSON.stringify({error: problem}));
+  }
+
+  private send(res: ServerResponse, status: number, body?: unknown): void {
+    const problem = this.checkContract(res.req, status, body);
+    if (problem) {
+      this.failContract(res, problem);
+      return;
+    }
+
+    res.writeHead(status, {"Content-Type": "application/json"});
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  }
+
+  private redirect(res: ServerResponse, location: string): void {
+    const problem = this.checkContract(res.req, 307);
+    if (problem) {
+      this.failContract(res, problem);
+      return;
+    }
+
+    res.writeHead(307, {Location: location});
+    res.end();
+  }
+
+  // Bodies are read once, up front, to validate them
+  private async readJson(req: IncomingMessage): Promise<Record<string, unknown>> {
+    const cached = this.bodies.get(req);
+    if (cached) return cached;
+
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const body = chunks.length > 0 ? JSON.parse(Buffer.concat(chunks).toString("utf8")) : {};
+    this.bodies.set(req, body);
+    return body;
+  }
+
+  private ensureDirectory(fullPath: string): FakeDirectory {
+    const existing = this.findDirectory(fullPath);
+    if (existing) return existing;
+
+    if (fullPath !== "/") this.ensureDirectory(parentOf(fullPath));
+
+    const directory = {
+      id: this.generateId("dir"),
+      fullPath,
+      defaultPermissions: "inherit",
+      defaultExpirationPolicy: "infinite",
+      createdAt: new Date(),
+      updatedAt: new Date(),
+    };
+    this.directories.set(directory.id, directory);
+    return directory;
+  }
+
+  private serializeFile(file: FakeFile) {
+    return {
+      id: file.id,
+      filename: file.filename,
+      fullPath: file.fullPath,
+      mimeType: file.mimeType,
+      sizeBytes: file.sizeBytes,
+      permissions: file.permissions,
+      effectivePermissions: file.permissions === "public" ? "public" : "private",
+      status: file.status,
+      expirationPolicy: file.expirationPolicy,
+      expiresAt: file.expiresAt?.toISOString() ?? null,
+      createdAt: file.createdAt.toISOString(),
+      updatedAt: file.updatedAt.toISOString(),
+    };
+  }
+
+  // GET /files/:id adds the directory's defaults; PUT responses only its path
+  private serializeFileDetails(file: FakeFile, withDefaults: boolean) {
+    const directory = this.directories.get(file.directoryId)!;
+    return {
+      ...this.serializeFile(file),
+      hasAccessPassword: false,
+      directoryId: directory.id,
+      directory: withDefaults
+        ? {
+            id: directory.id,
+            fullPath: directory.fullPath,
+            defaultPermissions: directory.defaultPermissions,
+            defaultExpirationPolicy: directory.defaultExpirationPolicy,
+          }
+        : {fullPath: directory.fullPath},
+    };
+  }
+
+  private parentDirectory(directory: FakeDirectory): FakeDirectory | undefined {
+    return directory.fullPath === "/"
+      ? undefined
+      : this.findDirectory(parentOf(directory.fullPath));
+  }
+
+  private serializeDirectory(directory: FakeDirectory) {
+    const parent = this.parentDirectory(directory);
+    return {
+      id: directory.id,
+      fullPath: directory.fullPath,
+      parentId: parent?.id ?? null,
+      defaultPermissions: directory.defaultPermissions,
+      effectivePermissions: directory.defaultPermissions === "public" ? "public" : "private",
+      defaultExpirationPolicy: directory.defaultExpirationPolicy,
+      fileCount: [...this.files.values()].filter((file) => file.directoryId === directory.id)
+        .length,
+      subdirectoryCount: this.childrenOf(directory).length,
+      createdAt: directory.createdAt.toISOString(),
+      updatedAt: directory.updatedAt.toISOString(),
+    };
+  }
+
+  private serializeDirectoryListItem(directory: FakeDirectory) {
+    const parent = this.parentDirectory(directory);
+    return {
+      ...this.serializeDirectory(directory),
+      parent: parent ? {id: parent.id, fullPath: parent.fullPath} : null,
+    };
+  }
+
+  private childrenOf(directory: FakeDirectory): FakeDirectory[] {
+    return [...this.directories.values()].filter(
+      (child) => child.fullPath !== "/" && parentOf(child.fullPath) === directory.fullPath,
+    );
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url!, this.getEndpoint());
+    const method = req.method!;
+    const path = url.pathname.replace(/^\/api\/v1/, "");
+    this.requests.push(`${method} ${path}`);
+
+    const failure = this.failures.findIndex(
+      (entry) => entry.method === method && entry.pattern.test(path),
+    );
+    if (failure !== -1) {
+      this.failures.splice(failure, 1);
+      this.send(res, 500, {error: "Internal server error"});
+      return;
+    }
+
+    if (req.headers.authorization !== `Bearer ${this.apiKey}`) {
+      this.send(res, 401, {error: "Invalid API key"});
+      return;
+    }
+
+    const operation = findOperation(method, url.pathname);
+    if (operation?.body) {
+      const result = operation.body.safeParse(await this.readJson(req));
+      if (!result.success) {
+        this.send(res, 400, {error: "Validation error", details: result.error.issues});
+        return;
+      }
+    }
+
+    const segments = path.split("/").filter(Boolean);
+    const [resource, id, action, subaction] = segments;
+
+    if (resource === "files") {
+      await this.handleFiles(req, res, method, url, id, action, subaction);
+    } else if (resource === "directories") {
+      await this.handleDirectories(req, res, method, url, id);
+    } else if (resource === "share-tokens" && method === "POST") {
+      await this.handleShareTokens(req, res);
+    } else {
+      this.send(res, 404, {error: "Not found"});
+    }
+  }
+
+  private async handleFiles(
+    req: IncomingMessage,
+    res: ServerResponse,
+    method: string,
+    url: URL,
+    id?: string,
+    action?: string,
+    subaction?: string,
+  ): Promise<void> {
+    if (!id) {
+      if (method === "GET") {
+        const limit = Number(url.searchParams.get("limit") || 10);
+        const files = [...this.files.values()];
+        this.send(res, 200, {
+          files: files.slice(0, limit).map((file) => ({
+            ...this.serializeFile(file),
+            directory: {fullPath: this.directories.get(file.directoryId)!.fullPath},
+          })),
+          pagination: {total: files.length, limit, offset: 0, hasMore: files.length > limit},
+        });
+        return;
+      }
+
+      const body = await this.readJson(req);
+      const fullPath = body.fullPath as string;
+      const directory = this.ensureDirectory(parentOf(fullPath));
+      const expirationPolicy = (body.expirationPolicy as string) || "infinite";
+      const file: FakeFile = {
+        id: this.generateId("file"),
+        filename: body.filename as string,
+        fullPath,
+        directoryId: directory.id,
+        mimeType: (body.mimeType as string) || null,
+        sizeBytes: (body.sizeBytes as number) ?? null,
+        permissions: (body.permissions as string) || "inherit",
+        status: "reserved",
+        expirationPolicy,
+        expiresAt: expiresAtFor(expirationPolicy),
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        uploadId: null,
+      };
+      this.files.set(file.id, file);
+
+      const {uploadUrl} = await this.r2.getUploadUrl({
+        ...this.objectParams(file),
+        contentType: file.mimeType || undefined,
+      });
+      this.send(res, 200, {...this.serializeFile(file), uploadUrl});
+      return;
+    }
+
+    const file = this.files.get(id);
+    if (!file) {
+      this.send(res, 404, {error: "File not found"});
+      return;
+    }
+
+    if (!action) {
+      if (method === "GET") {
+        this.send(res, 200, this.serializeFileDetails(file, true));
+      } else if (method === "DELETE") {
+        this.files.delete(id);
+        await this.r2.deleteObject(this.objectParams(file));
+        this.send(res, 200, {message: "File deleted successfully"});
+      } else {
+        const body = await this.readJson(req);
+        if (body.fullPath) {
+          file.fullPath = body.fullPath as string;
+          file.directoryId = this.ensureDirectory(parentOf(file.fullPath)).id;
+        }
+        if (body.filename) file.filename = body.filename as string;
+        if (body.expirationPolicy) {
+          file.expirationPolicy = body.expirationPolicy as string;
+          file.expiresAt = expiresAtFor(file.expirationPolicy);
+        }
+        file.updatedAt = new Date();
+        this.send(res, 200, this.serializeFileDetails(file, false));
+      }
+      return;
+    }
+
+    if (action === "status") {
+      const info = await this.r2.getObjectInfo(this.objectParams(file));
+      if (!info.exists) {
+        this.send(res, 400, {error: "File not found in storage"});
+        return;
+      }
+      file.status = "validated";
+      file.sizeBytes = info.size ?? file.sizeBytes;
+      file.updatedAt = new Date();
+      this.send(res, 200, this.serializeFileDetails(file, false));
+      return;
+    }
+
+    if (action === "download") {
+      this.redirect(res, await this.r2.getDownloadUrl(this.objectParams(file)));
+      return;
+    }
+
+    if (action === "multipart") {
+      await this.handleMultipart(req, res, method, file, subaction);
+      return;
+    }
+
+    this.send(res, 404, {error: "Not found"});
+  }
+
+  private async handleMultipart(
+    req: IncomingMessage,
+    res: ServerResponse,
+    method: string,
+    file: FakeFile,
+    subaction?: string,
+  ): Promise<void> {
+    if (file.status !== "reserved") {
+      this.send(res, 404, {error: "File not found"});
+      return;
+    }
+
+    const partCount = Math.max(1, Math.ceil((file.sizeBytes ?? 0) / this.partSize));
+
+    if (!subaction) {
+      const existing = !!file.uploadId;
+      if (!file.uploadId) {
+        const {uploadId} = await this.r2.createMultipartUpload({
+          ...this.objectParams(file),
+          contentType: file.mimeType || undefined,
+        });
+        file.uploadId = uploadId;
+      }
+      this.send(res, existing ? 200 : 201, {
+        id: file.id,
+        uploadId: file.uploadId,
+        partSize: this.partSize,
+        partCount,
+      });
+      return;
+    }
+
+    if (!file.uploadId) {
+      this.send(res, 409, {error: "No multipart upload in progress"});
+      return;
+    }
+
+    const params = {...this.objectParams(file), uploadId: file.uploadId};
+
+    const upload = {id: file.id, uploadId: file.uploadId};
+
+    if (subaction === "parts" && method === "GET") {
+      this.send(res, 200, {...upload, parts: await this.r2.listParts(params)});
+    } else if (subaction === "parts") {
+      const {partNumbers} = (await this.readJson(req)) as {partNumbers: number[]};
+      const parts = await Promise.all(
+        partNumbers.map(async (partNumber) => ({
+          partNumber,
+          uploadUrl: await this.r2.getUploadPartUrl({...params, partNumber}),
+        })),
+      );
+      this.send(res, 200, {...upload, parts});
+    } else if (subaction === "complete") {
+      const {parts} = (await this.readJson(req)) as {
+        parts: {partNumber: number; etag: string}[];
+      };
+      await this.r2.completeMultipartUpload({...params, parts});
+      file.uploadId = null;
+      this.send(res, 200, {id: file.id, status: file.status, partCount: parts.length});
+    } else {
+      this.send(res, 404, {error: "Not found"});
+    }
+  }
+
+  private async handleDirectories(
+    req: IncomingMessage,
+    res: ServerResponse,
+    method: string,
+    url: URL,
+    id?: string,
+  ): Promise<void> {
+    if (!id) {
+      if (method === "POST") {
+        const {fullPath} = (await this.readJson(req)) as {fullPath: string};
+        this.send(res, 201, this.serializeDirectory(this.ensureDirectory(fullPath)));
+        return;
+      }
+
+      const path = url.searchParams.get("path") || "/";
+      const recursive = url.searchParams.get("recursive") === "true";
+      const prefix = path.endsWith("/") ? path : `${path}/`;
+      const directories = [...this.directories.values()].filter((directory) =>
+        recursive
+          ? directory.fullPath !== "/" && directory.fullPath.startsWith(prefix)
+          : directory.fullPath === path,
+      );
+      this.send(res, 200, {
+        directories: directories.map((directory) => this.serializeDirectoryListItem(directory)),
+        total: directories.length,
+      });
+      return;
+    }
+
+    const directory = this.directories.get(id);
+    if (!directory) {
+      this.send(res, 404, {error: "Directory not found"});
+      return;
+    }
+
+    if (method === "GET") {
+      this.send(res, 200, {
+        ...this.serializeDirectoryListItem(directory),
+        hasAccessPassword: false,
+        children: this.childrenOf(directory).map((child) => this.serializeDirectory(child)),
+        files: [...this.files.values()]
+          .filter((file) => file.directoryId === directory.id)
+          .map((file) => this.serializeFile(file)),
+      });
+    } else if (method === "DELETE") {
+      if (this.childrenOf(directory).length > 0) {
+        this.send(res, 400, {
+          error: "Directory is not empty",
+          details: "Please delete all subdirectories first",
+        });
+        return;
+      }
+      let deletedFiles = 0;
+      for (const file of this.files.values()) {
+        if (file.directoryId === directory.id) {
+          this.files.delete(file.id);
+          deletedFiles++;
+        }
+      }
+      this.directories.delete(id);
+      this.send(res, 200, {message: "Directory deleted successfully", deletedFiles});
+    } else {
+      const body = await this.readJson(req);
+      if (body.defaultExpirationPolicy) {
+        directory.defaultExpirationPolicy = body.defaultExpirationPolicy as string;
+      }
+      if (body.fullPath) {
+        // Rewrite the paths of everything under the directory too
+        const from = directory.fullPath;
+        const to = body.fullPath as string;
+        const rename = (path: string) =>
+          path === from || path.startsWith(`${from}/`) ? to + path.slice(from.length) : path;
+        this.ensureDirectory(parentOf(to));
+        for (const entry of this.directories.values()) entry.fullPath = rename(entry.fullPath);
+        for (const file of this.files.values()) file.fullPath = rename(file.fullPath);
+      }
+      directory.updatedAt = new Date();
+      this.send(res, 200, {...this.serializeDirectory(directory), hasAccessPassword: false});
+    }
+  }
+
+  private async handleShareTokens(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const body = await this.readJson(req);
+    const fileId = body.fileId as string | undefined;
+    const directoryId = body.directoryId as string | undefined;
+
+    if (fileId ? !this.files.has(fileId) : !this.directories.has(directoryId!)) {
+      this.send(res, 404, {error: fileId ? "File not found" : "Directory not found"});
+      return;
+    }
+
+    const token = crypto.randomBytes(16).toString("hex");
+    const expiresIn = (body.expiresIn as number) ?? 7 * 24 * 60 * 60;
+    this.send(res, 201, {
+      id: this.generateId("share"),
+      fileId: fileId ?? null,
+      directoryId: directoryId ?? null,
+      maxDownloads: (body.maxDownloads as number) ?? null,
+      downloadCount: 0,
+      expiresAt: new Date(Date.now() + expiresIn * 1000).toISOString(),
+      revokedAt: null,
+      createdAt: new Date().toISOString(),
+      token,
+      url: fileId ? `${this.getEndpoint()}/d/${fileId}?token=${token}` : null,
+    });
+  }
+}
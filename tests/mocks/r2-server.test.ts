@@ -106,6 +106,24 @@ describe("MockR2Server", () => {
       expect(response.headers.get("last-modified")).toBeTruthy();
       expect(response.headers.get("content-length")).toBe("12");
     });
+
+    it("should serve byte ranges", async () => {
+      const response = await fetch(`http://localhost:${testPort}/${testBucket}/test/file.txt`, {
+        headers: {Range: "bytes=5-"},
+      });
+
+      expect(response.status).toBe(206);
+      expect(response.headers.get("content-range")).toBe("bytes 5-11/12");
+      expect(await response.text()).toBe("content");
+    });
+
+    it("should reject ranges past the end of the object", async () => {
+      const response = await fetch(`http://localhost:${testPort}/${testBucket}/test/file.txt`, {
+        headers: {Range: "bytes=12-"},
+      });
+
+      expect(response.status).toBe(416);
+    });
   });
 
   describe("HEAD operations", () => {
@@ -172,6 +190,158 @@ describe("MockR2Server", () => {
     });
   });
 
+  describe("LIST operations", () => {
+    beforeEach(async () => {
+      for (const key of ["a/1.txt", "a/2.txt", "b/3.txt"]) {
+        await fetch(`http://localhost:${testPort}/${testBucket}/${key}`, {
+          method: "PUT",
+          body: key,
+        });
+      }
+    });
+
+    it("should list objects filtered by prefix", async () => {
+      const response = await fetch(
+        `http://localhost:${testPort}/${testBucket}?list-type=2&prefix=a/`,
+      );
+      const body = await response.text();
+
+      expect(response.status).toBe(200);
+      expect(body).toContain("<Key>a/1.txt</Key>");
+      expect(body).toContain("<Key>a/2.txt</Key>");
+      expect(body).not.toContain("<Key>b/3.txt</Key>");
+      expect(body).toContain("<KeyCount>2</KeyCount>");
+    });
+
+    it("should paginate with continuation tokens", async () => {
+      const firstPage = await fetch(
+        `http://localhost:${testPort}/${testBucket}?list-type=2&max-keys=2`,
+      );
+      const firstBody = await firstPage.text();
+      const token = firstBody.match(/<NextContinuationToken>([^<]+)<\/NextContinuationToken>/)![1];
+
+      expect(firstBody).toContain("<IsTruncated>true</IsTruncated>");
+
+      const secondPage = await fetch(
+        `http://localhost:${testPort}/${testBucket}?list-type=2&max-keys=2&continuation-token=${encodeURIComponent(token)}`,
+      );
+      const secondBody = await secondPage.text();
+
+      expect(secondBody).toContain("<Key>b/3.txt</Key>");
+      expect(secondBody).not.toContain("<Key>a/1.txt</Key>");
+      expect(secondBody).toContain("<IsTruncated>false</IsTruncated>");
+    });
+  });
+
+  describe("multipart operations", () => {
+    const objectKey = "test/large.bin";
+    const objectUrl = `http://localhost:${testPort}/${testBucket}/${objectKey}`;
+
+    async function createUpload(): Promise<string> {
+      const response = await fetch(`${objectUrl}?uploads`, {method: "POST"});
+      expect(response.status).toBe(200);
+
+      const body = await response.text();
+      return body.match(/<UploadId>([^<]+)<\/UploadId>/)![1];
+    }
+
+    async function uploadPart(uploadId: string, partNumber: number, content: string) {
+      const response = await fetch(`${objectUrl}?partNumber=${partNumber}&uploadId=${uploadId}`, {
+        method: "PUT",
+        body: content,
+      });
+      expect(response.status).toBe(200);
+      return response.headers.get("etag")!;
+    }
+
+    function completeBody(parts: {partNumber: number; etag: string}[]): string {
+      const partXml = parts
+        .map(
+          (part) =>
+            `<Part><ETag>${part.etag}</ETag><PartNumber>${part.partNumber}</PartNumber></Part>`,
+        )
+        .join("");
+      return `<CompleteMultipartUpload>${partXml}</CompleteMultipartUpload>`;
+    }
+
+    it("should assemble uploaded parts on completion", async () => {
+      const uploadId = await createUpload();
+      const etag1 = await uploadPart(uploadId, 1, "Hello, ");
+      const etag2 = await uploadPart(uploadId, 2, "world!");
+
+      expect(server.getUploadPartNumbers(uploadId)).toEqual([1, 2]);
+
+      const response = await fetch(`${objectUrl}?uploadId=${uploadId}`, {
+        method: "POST",
+        body: completeBody([
+          {partNumber: 1, etag: etag1},
+          {partNumber: 2, etag: etag2},
+        ]),
+      });
+
+      expect(response.status).toBe(200);
+      expect(server.getObject(objectKey)?.data.toString()).toBe("Hello, world!");
+      expect(server.getObject(objectKey)?.etag).toMatch(/^"[a-f0-9]{32}-2"$/);
+      expect(server.getUploadCount()).toBe(0);
+    });
+
+    it("should reject parts with a mismatched ETag", async () => {
+      const uploadId = await createUpload();
+      await uploadPart(uploadId, 1, "Hello");
+
+      const response = await fetch(`${objectUrl}?uploadId=${uploadId}`, {
+        method: "POST",
+        body: completeBody([{partNumber: 1, etag: '"0000"'}]),
+      });
+
+      expect(response.status).toBe(400);
+      expect(server.hasObject(objectKey)).toBe(false);
+    });
+
+    it("should reject parts for unknown uploads", async () => {
+      const response = await fetch(`${objectUrl}?partNumber=1&uploadId=unknown`, {
+        method: "PUT",
+        body: "content",
+      });
+
+      expect(response.status).toBe(404);
+    });
+
+    it("should list uploaded parts with pagination", async () => {
+      const uploadId = await createUpload();
+      await uploadPart(uploadId, 2, "world");
+      await uploadPart(uploadId, 1, "hello");
+
+      const firstPage = await fetch(`${objectUrl}?uploadId=${uploadId}&max-parts=1`);
+      const firstBody = await firstPage.text();
+
+      expect(firstPage.status).toBe(200);
+      expect(firstBody).toContain("<PartNumber>1</PartNumber>");
+      expect(firstBody).not.toContain("<PartNumber>2</PartNumber>");
+      expect(firstBody).toContain("<IsTruncated>true</IsTruncated>");
+
+      const secondPage = await fetch(
+        `${objectUrl}?uploadId=${uploadId}&max-parts=1&part-number-marker=1`,
+      );
+      const secondBody = await secondPage.text();
+
+      expect(secondBody).toContain("<PartNumber>2</PartNumber>");
+      expect(secondBody).toContain("<Size>5</Size>");
+      expect(secondBody).toContain("<IsTruncated>false</IsTruncated>");
+    });
+
+    it("should abort uploads", async () => {
+      const uploadId = await createUpload();
+      await uploadPart(uploadId, 1, "partial");
+
+      const response = await fetch(`${objectUrl}?uploadId=${uploadId}`, {method: "DELETE"});
+
+      expect(response.status).toBe(204);
+      expect(server.getUploadCount()).toBe(0);
+      expect(server.hasObject(objectKey)).toBe(false);
+    });
+  });
+
   describe("error handling", () => {
     it("should return 404 for wrong bucket name", async () => {
       const response = await fetch(`http://localhost:${testPort}/wrong-bucket/test.txt`, {
@@ -0,0 +1,381 @@
+import {HulkClient} from "../../packages/sdk/src/client";
+import {
+  HulkApiError,
+  HulkNotFoundError,
+  HulkPermissionError,
+  HulkQuotaExceededError,
+  HulkStorageError,
+  HulkValidationError,
+} from "../../packages/sdk/src/errors";
+
+interface RecordedRequest {
+  url: string;
+  method: string;
+  headers: Record<string, string>;
+  body: unknown;
+  redirect?: RequestRedirect;
+}
+
+type Responder = (request: RecordedRequest) => Response;
+
+function json(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: {"Content-Type": "application/json", ...headers},
+  });
+}
+
+// A fetch that records each request and answers from a queue of responders
+function createFetch(...responders: Responder[]) {
+  const requests: RecordedRequest[] = [];
+
+  const fetchImpl = jest.fn(async (input: RequestInfo | URL, init: RequestInit = {}) => {
+    const request: RecordedRequest = {
+      url: String(input),
+      method: init.method ?? "GET",
+      headers: (init.headers as Record<string, string>) ?? {},
+      body: typeof init.body === "string" ? JSON.parse(init.body) : init.body,
+      redirect: init.redirect,
+    };
+    requests.push(request);
+
+    const responder = responders.shift();
+    if (!responder) {
+      throw new Error(`Unexpected request: ${request.method} ${request.url}`);
+    }
+    return responder(request);
+  });
+
+  return {fetch: fetchImpl as unknown as typeof fetch, requests};
+}
+
+const file = {
+  id: "file1",
+  filename: "a.txt",
+  fullPath: "/a.txt",
+  mimeType: "text/plain",
+  sizeBytes: 5,
+  permissions: "private",
+  effectivePermissions: "private",
+  status: "validated",
+  expirationPolicy: "infinite",
+  expiresAt: null,
+  createdAt: "2026-01-01T00:00:00.000Z",
+  updatedAt: "2026-01-01T00:00:00.000Z",
+  directory: {fullPath: "/"},
+};
+
+describe("HulkClient", () => {
+  it("should send the API key and JSON bodies to the base URL", async () => {
+    const {fetch, requests} = createFetch(() => json({id: "dir1", fullPath: "/docs"}, 201));
+    const client = new HulkClient({
+      baseUrl: "https://hulk.example.com/",
+      apiKey: "hulk_key",
+      fetch,
+    });
+
+    const directory = await client.directories.create({fullPath: "/docs"});
+
+    expect(directory.id).toBe("dir1");
+    expect(requests[0]).toMatchObject({
+      url: "https://hulk.example.com/api/v1/directories",
+      method: "POST",
+      headers: {Authorization: "Bearer hulk_key", "Content-Type": "application/json"},
+      body: {fullPath: "/docs"},
+    });
+  });
+
+  it("should call the page's own origin without a base URL or key", async () => {
+    const {fetch, requests} = createFetch(() => json({inviteCodes: []}));
+    const client = new HulkClient({fetch});
+
+    expect(await client.inviteCodes.list()).toEqual([]);
+    expect(requests[0].url).toBe("/api/v1/invite-codes");
+    expect(requests[0].headers).toEqual({});
+  });
+
+  it("should map list options to the files query string", async () => {
+    const {fetch, requests} = createFetch(() =>
+      json({files: [], pagination: {total: 0, limit: 50, offset: 0, hasMore: false}}),
+    );
+    const client = new HulkClient({fetch});
+
+    await client.files.list({
+      limit: 50,
+      orderBy: "createdAt+desc",
+      filter: {status: "validated", permissions: "public"},
+    });
+
+    const url = new URL(requests[0].url, "http://localhost");
+    expect(url.pathname).toBe("/api/v1/files");
+    expect(url.searchParams.get("limit")).toBe("50");
+    expect(url.searchParams.get("order_by")).toBe("createdAt+desc");
+    expect(url.searchParams.get("filter~status")).toBe("validated");
+    expect(url.searchParams.get("filter~permissions")).toBe("public");
+    expect(url.searchParams.has("offset")).toBe(false);
+  });
+
+  it("should page through every file with listAll", async () => {
+    const page = (ids: string[], nextCursor: string | null) => () =>
+      json({files: ids.map((id) => ({...file, id})), nextCursor});
+    const {fetch, requests} = createFetch(page(["a", "b"], "c2"), page(["c"], null));
+    const client = new HulkClient({fetch});
+
+    const ids: string[] = [];
+    for await (const item of client.files.listAll({limit: 2})) {
+      ids.push(item.id);
+    }
+
+    expect(ids).toEqual(["a", "b", "c"]);
+    expect(requests.map((request) => new URL(request.url, "http://x").search)).toEqual([
+      "?limit=2&cursor=",
+      "?limit=2&cursor=c2",
+    ]);
+  });
+
+  it("should page directories by cursor", async () => {
+    const {fetch, requests} = createFetch(() => json({directories: [], nextCursor: null}));
+    const client = new HulkClient({fetch});
+
+    await client.directories.listPage({filter: {"parent.fullPath": "/"}, limit: 50});
+
+    expect(requests[0].url).toBe(
+      "/api/v1/directories?limit=50&filter%7Eparent.fullPath=%2F&cursor=",
+    );
+  });
+
+  it("should follow search cursors with searchAll", async () => {
+    const page = (ids: string[], nextCursor: string | null) => () =>
+      json({files: ids.map((id) => ({...file, id})), nextCursor});
+    const {fetch, requests} = createFetch(page(["a", "b"], "next"), page(["c"], null));
+    const client = new HulkClient({fetch});
+
+    const ids: string[] = [];
+    for await (const item of client.files.searchAll("type:image size:>1MB", {limit: 2})) {
+      ids.push(item.id);
+    }
+
+    expect(ids).toEqual(["a", "b", "c"]);
+    expect(requests.map((request) => request.url)).toEqual([
+      "/api/v1/files/search?q=type%3Aimage+size%3A%3E1MB&limit=2",
+      "/api/v1/files/search?q=type%3Aimage+size%3A%3E1MB&limit=2&cursor=next",
+    ]);
+  });
+
+  it("should only send recursive when listing directories recursively", async () => {
+    const {fetch, requests} = createFetch(
+      () => json({directories: [], total: 0}),
+      () => json({directories: [], total: 0}),
+    );
+    const client = new HulkClient({fetch});
+
+    await client.directories.list({path: "/docs"});
+    await client.directories.list({path: "/docs", recursive: true});
+
+    expect(requests[0].url).toBe("/api/v1/directories?path=%2Fdocs");
+    expect(requests[1].url).toBe("/api/v1/directories?path=%2Fdocs&recursive=true");
+  });
+
+  it("should send filters on every list", async () => {
+    const {fetch, requests} = createFetch(
+      () => json({directories: [], total: 0}),
+      () => json({apiKeys: []}),
+    );
+    const client = new HulkClient({fetch});
+
+    await client.directories.list({filter: {fullPath: "/docs/*"}});
+    await client.apiKeys.list({permissions: "write,all"});
+
+    expect(requests[0].url).toBe("/api/v1/directories?filter%7EfullPath=%2Fdocs%2F*");
+    expect(requests[1].url).toBe("/api/v1/api-keys?filter%7Epermissions=write%2Call");
+  });
+
+  it("should build download and archive links", () => {
+    const client = new HulkClient({baseUrl: "https://hulk.example.com"});
+
+    expect(client.files.downloadUrl("file1")).toBe(
+      "https://hulk.example.com/api/v1/files/file1/download",
+    );
+    expect(client.files.downloadUrl("file1", {token: "t"})).toBe(
+      "https://hulk.example.com/api/v1/files/file1/download?token=t",
+    );
+    expect(client.directories.archiveUrl("dir1", "tar.gz")).toBe(
+      "https://hulk.example.com/api/v1/directories/dir1/archive?format=tar.gz",
+    );
+  });
+
+  describe("errors", () => {
+    it("should throw typed errors carrying the API's message", async () => {
+      const {fetch} = createFetch(
+        () => json({error: "File not found"}, 404),
+        () => json({error: "Email verification required"}, 403),
+        () => json({error: "Internal server error"}, 500),
+      );
+      const client = new HulkClient({fetch});
+
+      await expect(client.files.get("missing")).rejects.toThrow(HulkNotFoundError);
+      await expect(client.files.create({filename: "a.txt"})).rejects.toMatchObject({
+        name: "HulkPermissionError",
+        status: 403,
+        message: "Email verification required",
+      });
+      const error = await client.files.delete("file1").catch((e) => e);
+      expect(error).toBeInstanceOf(HulkApiError);
+      expect(error).not.toBeInstanceOf(HulkPermissionError);
+      expect(error.status).toBe(500);
+    });
+
+    it("should expose validation issues and quota details", async () => {
+      const issues = [{path: ["filename"], message: "Too small", code: "too_small"}];
+      const quota = {quotaBytes: 100, usedBytes: 90, requestedBytes: 20};
+      const {fetch} = createFetch(
+        () => json({error: "Validation error", details: issues}, 400),
+        () => json({error: "Storage quota exceeded", details: quota}, 413),
+      );
+      const client = new HulkClient({fetch});
+
+      const validation = await client.files.create({filename: ""}).catch((e) => e);
+      expect(validation).toBeInstanceOf(HulkValidationError);
+      expect(validation.issues).toEqual(issues);
+
+      const exceeded = await client.files.create({filename: "big.bin"}).catch((e) => e);
+      expect(exceeded).toBeInstanceOf(HulkQuotaExceededError);
+      expect(exceeded.details).toEqual(quota);
+    });
+
+    it("should fall back to the status when the body isn't JSON", async () => {
+      const {fetch} = createFetch(() => new Response("Bad Gateway", {status: 502}));
+      const client = new HulkClient({fetch});
+
+      await expect(client.users.get("user1")).rejects.toMatchObject({
+        status: 502,
+        message: "Request failed with status 502",
+      });
+    });
+  });
+
+  describe("files.upload", () => {
+    it("should reserve, PUT the bytes to storage, then mark the file uploaded", async () => {
+      const {fetch, requests} = createFetch(
+        () => json({id: "file1", uploadUrl: "https://storage.example.com/put", status: "reserved"}),
+        () => new Response(null, {status: 200, headers: {ETag: '"abc"'}}),
+        () => json({...file, status: "validated"}),
+      );
+      const client = new HulkClient({baseUrl: "https://hulk.example.com", apiKey: "k", fetch});
+      const onReserved = jest.fn();
+
+      const uploaded = await client.files.upload(
+        {body: new Blob(["hello"], {type: "text/plain"}), filename: "a.txt", fullPath: "/a.txt"},
+        {onReserved},
+      );
+
+      expect(uploaded.status).toBe("validated");
+      expect(onReserved).toHaveBeenCalledWith(expect.objectContaining({id: "file1"}));
+      expect(requests.map((request) => `${request.method} ${request.url}`)).toEqual([
+        "POST https://hulk.example.com/api/v1/files",
+        "PUT https://storage.example.com/put",
+        "PUT https://hulk.example.com/api/v1/files/file1/status",
+      ]);
+      expect(requests[0].body).toEqual({
+        filename: "a.txt",
+        fullPath: "/a.txt",
+        mimeType: "text/plain",
+        sizeBytes: 5,
+      });
+      // The presigned URL must not receive the API key
+      expect(requests[1].headers).toEqual({"Content-Type": "text/plain"});
+      expect(requests[2].body).toEqual({status: "uploaded"});
+    });
+
+    it("should stop when storage rejects the upload", async () => {
+      const {fetch, requests} = createFetch(
+        () => json({id: "file1", uploadUrl: "https://storage.example.com/put", status: "reserved"}),
+        () => new Response("denied", {status: 403}),
+      );
+      const client = new HulkClient({fetch});
+
+      await expect(
+        client.files.upload({body: new Blob(["hello"]), filename: "a.bin"}),
+      ).rejects.toBeInstanceOf(HulkStorageError);
+      expect(requests).toHaveLength(2);
+      expect(requests[0].body).toMatchObject({mimeType: "application/octet-stream"});
+    });
+  });
+
+  describe("files.multipart", () => {
+    it("should report whether an upload was resumed", async () => {
+      const upload = {id: "file1", uploadId: "u1", partSize: 1024, partCount: 3};
+      const {fetch} = createFetch(
+        () => json(upload, 201),
+        () => json(upload, 200),
+      );
+      const client = new HulkClient({fetch});
+
+      expect(await client.files.multipart.start("file1")).toEqual({...upload, resumed: false});
+      expect(await client.files.multipart.start("file1")).toEqual({...upload, resumed: true});
+    });
+
+    it("should sign parts and complete the upload", async () => {
+      const {fetch, requests} = createFetch(
+        () =>
+          json({id: "file1", uploadId: "u1", parts: [{partNumber: 1, uploadUrl: "https://s/1"}]}),
+        () => json({id: "file1", status: "validated", partCount: 1}),
+      );
+      const client = new HulkClient({fetch});
+
+      const {parts} = await client.files.multipart.signParts("file1", [1]);
+      await client.files.multipart.complete("file1", {parts: [{partNumber: 1, etag: '"e1"'}]});
+
+      expect(parts[0].uploadUrl).toBe("https://s/1");
+      expect(requests[0]).toMatchObject({
+        url: "/api/v1/files/file1/multipart/parts",
+        body: {partNumbers: [1]},
+      });
+      expect(requests[1]).toMatchObject({
+        url: "/api/v1/files/file1/multipart/complete",
+        body: {parts: [{partNumber: 1, etag: '"e1"'}]},
+      });
+    });
+  });
+
+  describe("files.download", () => {
+    it("should fetch the storage URL without the API key", async () => {
+      const {fetch, requests} = createFetch(
+        () =>
+          new Response(null, {status: 307, headers: {Location: "https://storage.example.com/get"}}),
+        () => new Response("hello"),
+      );
+      const client = new HulkClient({baseUrl: "https://hulk.example.com", apiKey: "k", fetch});
+
+      const response = await client.files.download("file1");
+
+      expect(await response.text()).toBe("hello");
+      expect(requests[0].redirect).toBe("manual");
+      expect(requests[1].url).toBe("https://storage.example.com/get");
+      expect(requests[1].headers).toEqual({});
+    });
+
+    it("should give the storage URL without fetching it", async () => {
+      const {fetch, requests} = createFetch(
+        () =>
+          new Response(null, {status: 307, headers: {Location: "https://storage.example.com/get"}}),
+      );
+      const client = new HulkClient({baseUrl: "https://hulk.example.com", apiKey: "k", fetch});
+
+      await expect(client.files.storageUrl("file1", {token: "t"})).resolves.toBe(
+        "https://storage.example.com/get",
+      );
+      expect(requests).toHaveLength(1);
+      expect(requests[0].url).toBe("https://hulk.example.com/api/v1/files/file1/download?token=t");
+    });
+
+    it("should fail when the download route doesn't redirect", async () => {
+      const {fetch} = createFetch(() => json({id: "file1"}));
+      const client = new HulkClient({fetch});
+
+      await expect(client.files.storageUrl("file1")).rejects.toThrow(
+        "Download did not redirect to storage",
+      );
+    });
+  });
+});
@@ -30,6 +30,11 @@ jest.mock("@/lib/auth", () => ({
   auth: jest.fn(),
 }));
 
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
 // Mock R2 config
 jest.mock("@/lib/r2-config", () => {
   const originalModule = jest.requireActual("@/lib/r2-config");
@@ -100,7 +105,7 @@ describe("Directory API Comprehensive Tests", () => {
 
   describe("GET /api/v1/directories/:id", () => {
     it("should return directory details with children and files", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id");
       const response = await getDirById(request, {params: Promise.resolve({id: "test-dir-id"})});
@@ -116,7 +121,7 @@ describe("Directory API Comprehensive Tests", () => {
     });
 
     it("should return 404 for non-existent directory", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/nonexistent");
       const response = await getDirById(request, {params: Promise.resolve({id: "nonexistent"})});
@@ -140,7 +145,7 @@ describe("Directory API Comprehensive Tests", () => {
 
     it("should handle directories owned by different users", async () => {
       const otherUserDir = {...mockDirectory, userId: "other-user-id"};
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(otherUserDir);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id");
       const response = await getDirById(request, {params: Promise.resolve({id: "test-dir-id"})});
@@ -153,7 +158,7 @@ describe("Directory API Comprehensive Tests", () => {
 
   describe("PUT /api/v1/directories/:id", () => {
     it("should update directory metadata", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
       (prisma.directory.update as jest.Mock).mockResolvedValue({
         ...mockDirectory,
         defaultPermissions: "public",
@@ -184,9 +189,8 @@ describe("Directory API Comprehensive Tests", () => {
         children: [{id: "child-1", fullPath: "/documents/subdir"}],
       };
 
-      (prisma.directory.findFirst as jest.Mock)
-        .mockResolvedValueOnce(dirWithChildren)
-        .mockResolvedValueOnce(null); // No existing directory at new path
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(dirWithChildren);
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null); // No existing directory at new path
 
       (prisma.$executeRawUnsafe as jest.Mock).mockResolvedValue(undefined);
       (prisma.directory.update as jest.Mock).mockResolvedValue({
@@ -217,9 +221,8 @@ describe("Directory API Comprehensive Tests", () => {
         fullPath: "/documents/projects/2024",
       };
 
-      (prisma.directory.findFirst as jest.Mock)
-        .mockResolvedValueOnce(mockDirectory)
-        .mockResolvedValueOnce(parentDir);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(parentDir);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id", {
         method: "PUT",
@@ -237,9 +240,8 @@ describe("Directory API Comprehensive Tests", () => {
 
     it("should handle path conflicts", async () => {
       const existingDir = {...mockDirectory, id: "existing-dir"};
-      (prisma.directory.findFirst as jest.Mock)
-        .mockResolvedValueOnce(mockDirectory)
-        .mockResolvedValueOnce(existingDir); // Existing directory at new path
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(mockDirectory);
+      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(existingDir); // Existing directory at new path
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id", {
         method: "PUT",
@@ -271,7 +273,7 @@ describe("Directory API Comprehensive Tests", () => {
     });
 
     it("should handle non-existent directory", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/nonexistent", {
         method: "PUT",
@@ -314,7 +316,7 @@ describe("Directory API Comprehensive Tests", () => {
         _count: {children: 0},
       };
 
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(emptyDirectory);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(emptyDirectory);
       (prisma.directory.delete as jest.Mock).mockResolvedValue(emptyDirectory);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id", {
@@ -339,7 +341,7 @@ describe("Directory API Comprehensive Tests", () => {
         _count: {children: 0},
       };
 
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(dirWithFiles);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(dirWithFiles);
       (prisma.file.deleteMany as jest.Mock).mockResolvedValue({count: 2});
       (prisma.directory.delete as jest.Mock).mockResolvedValue(dirWithFiles);
 
@@ -362,7 +364,7 @@ describe("Directory API Comprehensive Tests", () => {
         _count: {children: 2},
       };
 
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(dirWithChildren);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(dirWithChildren);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id", {
         method: "DELETE",
@@ -383,7 +385,7 @@ describe("Directory API Comprehensive Tests", () => {
         _count: {children: 0},
       };
 
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(dirWithFiles);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(dirWithFiles);
       (prisma.file.deleteMany as jest.Mock).mockResolvedValue({count: 1});
       (prisma.directory.delete as jest.Mock).mockResolvedValue(dirWithFiles);
 
@@ -402,7 +404,7 @@ describe("Directory API Comprehensive Tests", () => {
     });
 
     it("should handle non-existent directory", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.directory.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/nonexistent", {
         method: "DELETE",
@@ -657,7 +659,7 @@ describe("Directory API Comprehensive Tests", () => {
     });
 
     it("should handle database errors gracefully", async () => {
-      (prisma.directory.findFirst as jest.Mock).mockRejectedValue(new Error("Database error"));
+      (prisma.directory.findUnique as jest.Mock).mockRejectedValue(new Error("Database error"));
 
       const request = new NextRequest("http://localhost:3000/api/v1/directories/test-dir-id");
       const response = await getDirById(request, {params: Promise.resolve({id: "test-dir-id"})});
@@ -6,7 +6,6 @@ import {prisma} from "@/lib/prisma";
 jest.mock("@/lib/prisma", () => ({
   prisma: {
     file: {
-      findFirst: jest.fn(),
       findUnique: jest.fn(),
       update: jest.fn(),
       delete: jest.fn(),
@@ -24,6 +23,11 @@ jest.mock("@/lib/auth", () => ({
   auth: jest.fn(),
 }));
 
+// Mock nanoid
+jest.mock("@/lib/nanoid", () => ({
+  generateNanoId: () => "test-nano-id",
+}));
+
 // Mock R2 config
 jest.mock("@/lib/r2-config", () => {
   const originalModule = jest.requireActual("@/lib/r2-config");
@@ -154,7 +158,7 @@ describe("File API Comprehensive Tests", () => {
 
   describe("PUT /api/v1/files/:id", () => {
     it("should update file metadata", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
       (prisma.file.update as jest.Mock).mockResolvedValue({
         ...mockFile,
         filename: "renamed.txt",
@@ -179,7 +183,7 @@ describe("File API Comprehensive Tests", () => {
     });
 
     it("should update file expiration policy", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
 
       const expectedExpiresAt = new Date();
       expectedExpiresAt.setDate(expectedExpiresAt.getDate() + 7);
@@ -206,7 +210,7 @@ describe("File API Comprehensive Tests", () => {
     });
 
     it("should move file to different directory", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
 
       const targetDirectory = {
         id: "target-dir-id",
@@ -238,7 +242,7 @@ describe("File API Comprehensive Tests", () => {
     });
 
     it("should handle validation errors", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
         method: "PUT",
@@ -255,7 +259,7 @@ describe("File API Comprehensive Tests", () => {
     });
 
     it("should handle non-existent file", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/nonexistent", {
         method: "PUT",
@@ -290,7 +294,7 @@ describe("File API Comprehensive Tests", () => {
     });
 
     it("should handle invalid directory move", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
       (prisma.directory.findFirst as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
@@ -310,7 +314,7 @@ describe("File API Comprehensive Tests", () => {
 
   describe("DELETE /api/v1/files/:id", () => {
     it("should delete file and clean up R2 storage", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
       (prisma.file.delete as jest.Mock).mockResolvedValue(mockFile);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
@@ -329,7 +333,7 @@ describe("File API Comprehensive Tests", () => {
 
     it("should handle file deletion with R2 failure gracefully", async () => {
       const fileWithBadLocator = {...mockFile, r2Locator: "invalid/locator"};
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(fileWithBadLocator);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(fileWithBadLocator);
       (prisma.file.delete as jest.Mock).mockResolvedValue(fileWithBadLocator);
 
       // Mock R2 client to simulate deletion failure
@@ -348,7 +352,7 @@ describe("File API Comprehensive Tests", () => {
     });
 
     it("should handle non-existent file deletion", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(null);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(null);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/nonexistent", {
         method: "DELETE",
@@ -378,7 +382,7 @@ describe("File API Comprehensive Tests", () => {
 
     it("should handle files without R2 locator", async () => {
       const unreservedFile = {...mockFile, r2Locator: null, status: "reserved"};
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(unreservedFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(unreservedFile);
       (prisma.file.delete as jest.Mock).mockResolvedValue(unreservedFile);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
@@ -393,7 +397,7 @@ describe("File API Comprehensive Tests", () => {
     });
 
     it("should handle database errors during deletion", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
       (prisma.file.delete as jest.Mock).mockRejectedValue(new Error("Database error"));
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
@@ -411,7 +415,7 @@ describe("File API Comprehensive Tests", () => {
   describe("Edge Cases and Security", () => {
     it("should sanitize filenames with special characters", async () => {
       const specialFile = {...mockFile, filename: "<script>alert('xss')</script>.txt"};
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(specialFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(specialFile);
       (prisma.file.update as jest.Mock).mockResolvedValue({
         ...specialFile,
         filename: "safe-filename.txt",
@@ -444,7 +448,7 @@ describe("File API Comprehensive Tests", () => {
     });
 
     it("should handle malformed request bodies", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
 
       const request = new NextRequest("http://localhost:3000/api/v1/files/test-file-id", {
         method: "PUT",
@@ -471,7 +475,7 @@ describe("File API Comprehensive Tests", () => {
     });
 
     it("should handle concurrent access to the same file", async () => {
-      (prisma.file.findFirst as jest.Mock).mockResolvedValue(mockFile);
+      (prisma.file.findUnique as jest.Mock).mockResolvedValue(mockFile);
 
       let updateCount = 0;
       (prisma.file.update as jest.Mock).mockImplementation(() => {